@@ -1,6 +1,6 @@
 import React, { useEffect, useRef, useState } from 'react';
 import { View, Text, StyleSheet, ActivityIndicator, Image } from 'react-native';
-import { NavigationContainer } from '@react-navigation/native';
+import { NavigationContainer, createNavigationContainerRef } from '@react-navigation/native';
 import { createNativeStackNavigator } from '@react-navigation/native-stack';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
 import { StatusBar } from 'expo-status-bar';
@@ -16,6 +16,8 @@ import ProfileSetupScreen from './screens/ProfileSetupScreen';
 import ActivityDetailsScreen from './screens/ActivityDetailsScreen';
 import SearchScreen from './screens/SearchScreen';
 import UserProfileScreen from './screens/UserProfileScreen';
+import TerritoryDetailsScreen from './screens/TerritoryDetailsScreen';
+import TeamScreen from './screens/TeamScreen';
 import PrivacyPolicyScreen from './screens/PrivacyPolicyScreen';
 import TermsOfServiceScreen from './screens/TermsOfServiceScreen';
 import LeaderboardScreen from './screens/LeaderboardScreen';
@@ -24,12 +26,40 @@ import FeedScreen from './screens/FeedScreen';
 import { supabase, clearInvalidSession } from './lib/supabase';
 import { AuthService, handleAuthCallbackUrl } from './services/AuthService';
 import { AnalyticsService } from './services/AnalyticsService';
+import { LocationService } from './services/LocationService';
+import { InvasionAlertService, InvasionAlertFocus } from './services/InvasionAlertService';
+import { replaySourceFromEnv } from './services/ReplayLocationSource';
 import { AuthContext } from './contexts/AuthContext';
 import { ToastContainer } from './components/Toast';
 
 const TOS_ACCEPTED_KEY = 'conqr_tos_accepted_v1';
 
-const Stack = createNativeStackNavigator();
+// Simulated runs in dev builds: replay a built-in trace instead of the GPS
+if (__DEV__) {
+  const replaySource = replaySourceFromEnv();
+  if (replaySource) LocationService.setSource(replaySource);
+}
+
+type RootStackParamList = {
+  Landing: undefined;
+  TermsOfService: undefined;
+  ProfileSetup: undefined;
+  Home: InvasionAlertFocus | undefined;
+  Record: undefined;
+  Profile: undefined;
+  Friends: undefined;
+  Feed: undefined;
+  Search: undefined;
+  Leaderboard: undefined;
+  ActivityDetails: { activityId: string };
+  UserProfile: { userId: string };
+  TerritoryDetails: { territoryId: string };
+  Team: { teamId?: string } | undefined;
+  PrivacyPolicy: undefined;
+};
+
+const Stack = createNativeStackNavigator<RootStackParamList>();
+const navigationRef = createNavigationContainerRef<RootStackParamList>();
 
 class ErrorBoundary extends React.Component<
   { children: React.ReactNode },
@@ -212,6 +242,18 @@ function AppNavigator() {
     };
   }, []);
 
+  // A tapped invasion alert opens the map on the ground that was lost
+  const canShowMap = isAuthenticated && hasAcceptedTOS && hasProfile;
+  useEffect(() => {
+    if (!canShowMap) return;
+    const openMap = (focus: InvasionAlertFocus) => {
+      // On a cold start the navigator may still be mounting
+      if (navigationRef.isReady()) navigationRef.navigate('Home', focus);
+      else setTimeout(() => openMap(focus), 250);
+    };
+    return InvasionAlertService.onAlertOpened(openMap);
+  }, [canShowMap]);
+
   const handleAcceptTOS = async () => {
     try {
       await AsyncStorage.setItem(TOS_ACCEPTED_KEY, 'true');
@@ -259,6 +301,8 @@ function AppNavigator() {
             <Stack.Screen name="Leaderboard" component={LeaderboardScreen} />
             <Stack.Screen name="ActivityDetails" component={ActivityDetailsScreen} />
             <Stack.Screen name="UserProfile" component={UserProfileScreen} />
+            <Stack.Screen name="TerritoryDetails" component={TerritoryDetailsScreen} />
+            <Stack.Screen name="Team" component={TeamScreen} />
             <Stack.Screen name="PrivacyPolicy" component={PrivacyPolicyScreen} />
           </>
         )}
@@ -295,7 +339,7 @@ export default function App() {
     <ErrorBoundary>
       <SafeAreaProvider>
         <StatusBar style="light" />
-        <NavigationContainer>
+        <NavigationContainer ref={navigationRef}>
           <AppNavigator />
           <ToastContainer />
         </NavigationContainer>
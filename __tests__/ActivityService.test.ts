@@ -1,6 +1,8 @@
-import { ActivityService } from '../services/ActivityService';
+import { ActivityService, EDIT_UNDO_WINDOW_MS } from '../services/ActivityService';
 import { GPSPoint, Activity } from '../lib/types';
 import { db } from '../lib/db';
+import { supabase } from '../lib/supabase';
+import { encodeTrack } from '../utils/polyline';
 
 describe('ActivityService', () => {
   // Sample GPS points for testing
@@ -127,6 +129,11 @@ describe('ActivityService', () => {
       const pace = ActivityService.calculatePace(5);
       expect(pace).toMatch(/^\d+:\d{2}$/);
     });
+
+    it('should calculate pace per mile', () => {
+      // 1609.344m at 2.78 m/s ≈ 9:38/mi
+      expect(ActivityService.calculatePace(2.78, 'mi')).toBe('9:38');
+    });
   });
 
   describe('formatDuration', () => {
@@ -203,6 +210,104 @@ describe('ActivityService', () => {
       };
       expect(ActivityService.isValidActivity(activity)).toBe(true);
     });
+
+    it('should count GPS points across all segments', () => {
+      const activity: Partial<Activity> = {
+        id: 'test',
+        userId: 'user',
+        distance: 100,
+        duration: 60,
+        polylines: [[], [createGPSPoint(37.7749, -122.4194)], [createGPSPoint(37.7750, -122.4193)]],
+      };
+      expect(ActivityService.isValidActivity(activity)).toBe(true);
+    });
+  });
+
+  describe('segment calculations', () => {
+    const createTimedSegment = (startLat: number, startTime: number, count: number): GPSPoint[] => {
+      const points: GPSPoint[] = [];
+      for (let i = 0; i < count; i++) {
+        points.push({
+          lat: startLat + i * 0.0001,
+          lng: -122.4194,
+          timestamp: startTime + i * 5000,
+          speed: 2,
+          accuracy: 10,
+          altitude: 0,
+        });
+      }
+      return points;
+    };
+
+    it('should not count the pause gap as distance', () => {
+      const first = createTimedSegment(37.7749, 0, 5);
+      // Second segment starts ~100m further along — the user moved while paused
+      const second = createTimedSegment(37.7763, 600000, 5);
+      const segmented = ActivityService.calculateSegmentsDistance([first, second]);
+      const flat = ActivityService.calculateDistance([...first, ...second]);
+      expect(segmented).toBeCloseTo(
+        ActivityService.calculateDistance(first) + ActivityService.calculateDistance(second)
+      );
+      expect(segmented).toBeLessThan(flat);
+    });
+
+    it('should exclude paused time from moving duration', () => {
+      const first = createTimedSegment(37.7749, 0, 5);          // 20s
+      const second = createTimedSegment(37.7760, 600000, 3);    // 10s, after a 10-minute pause
+      expect(ActivityService.calculateMovingDuration([first, second])).toBe(30);
+    });
+
+    it('should compute average speed over moving time only', () => {
+      const first = createTimedSegment(37.7749, 0, 5);
+      const second = createTimedSegment(37.7760, 600000, 5);
+      const speed = ActivityService.calculateSegmentsAverageSpeed([first, second]);
+      const distance = ActivityService.calculateSegmentsDistance([first, second]);
+      expect(speed).toBeCloseTo(distance / 40);
+    });
+
+    it('should split every kilometre with a partial last split', () => {
+      const segment = createTimedSegment(37.7749, 0, 120); // ~1.32km over 595s
+      const splits = ActivityService.calculateSplits([segment]);
+      expect(splits).toHaveLength(2);
+      expect(splits[0].distance).toBe(1000);
+      expect(splits[1].distance).toBeCloseTo(ActivityService.calculateDistance(segment) - 1000);
+      expect(splits[0].duration + splits[1].duration).toBeCloseTo(595);
+      expect(ActivityService.calculateSplits([segment], 'mi')).toHaveLength(1);
+    });
+
+    it('should leave the pause gap out of splits', () => {
+      const first = createTimedSegment(37.7749, 0, 60);
+      const second = createTimedSegment(37.7830, 600000, 60);
+      const splits = ActivityService.calculateSplits([first, second]);
+      const total = splits.reduce((sum, split) => sum + split.duration, 0);
+      expect(total).toBeCloseTo(ActivityService.calculateMovingDuration([first, second]));
+      expect(splits.reduce((sum, split) => sum + split.distance, 0))
+        .toBeCloseTo(ActivityService.calculateSegmentsDistance([first, second]));
+    });
+
+    it('should compute elevation along the filtered track', () => {
+      // ~11m per fix, climbing 1m per fix: a steady ~9% grade
+      const segment = createTimedSegment(37.7749, 0, 60).map((p, i) => ({ ...p, altitude: 20 + i }));
+      const stats = ActivityService.calculateElevation([segment])!;
+      expect(stats.gain).toBeGreaterThan(50);
+      expect(stats.loss).toBe(0);
+      expect(stats.profile[stats.profile.length - 1].distance).toBeCloseTo(ActivityService.calculateDistance(segment));
+      // Smoothing flattens the ends, so check mid-track
+      expect(stats.profile[30].grade).toBeCloseTo(9, 0);
+    });
+
+    it('should leave elevation fields out when there is no altitude', () => {
+      const segment = createTimedSegment(37.7749, 0, 10).map(p => ({ ...p, altitude: null }));
+      expect(ActivityService.calculateElevation([segment])).toBeNull();
+      expect(ActivityService.elevationFields([segment])).toEqual({});
+    });
+
+    it('should handle empty segment lists', () => {
+      expect(ActivityService.calculateSplits([])).toEqual([]);
+      expect(ActivityService.calculateSegmentsDistance([])).toBe(0);
+      expect(ActivityService.calculateMovingDuration([])).toBe(0);
+      expect(ActivityService.calculateSegmentsAverageSpeed([[]])).toBe(0);
+    });
   });
 
   describe('estimateCalories', () => {
@@ -422,6 +527,111 @@ describe('ActivityService', () => {
     });
   });
 
+  describe('editing activities', () => {
+    // Two segments 10 minutes apart, each walking north at ~2.2 m/s
+    const timed = (startLat: number, startTime: number, count: number): GPSPoint[] =>
+      Array.from({ length: count }, (_, i) => ({
+        lat: startLat + i * 0.0001,
+        lng: -122.4194,
+        timestamp: startTime + i * 5000,
+        speed: 2,
+        accuracy: 10,
+        altitude: 0,
+      }));
+
+    const makeActivity = (overrides: Partial<Activity> = {}): Activity => {
+      const polylines = [timed(37.7749, 0, 20), timed(37.7780, 700000, 20)];
+      return {
+        id: 'edit-test',
+        userId: 'user-1',
+        type: 'WALK',
+        startTime: 0,
+        endTime: 795000,
+        distance: ActivityService.calculateSegmentsDistance(polylines),
+        duration: 190,
+        elapsedTime: 795,
+        pausedDuration: 605,
+        polylines,
+        isSynced: true,
+        laps: [{ distance: 100, duration: 40, endTime: 40000 }],
+        ...overrides,
+      };
+    };
+
+    it('recomputes the stats of a trimmed activity', () => {
+      const activity = makeActivity();
+      const edited = ActivityService.applyEdit(activity, { startTime: 10000, endTime: 750000 })!;
+
+      expect(edited.startTime).toBe(10000);
+      expect(edited.endTime).toBe(750000);
+      expect(edited.polylines.map(seg => seg.length)).toEqual([18, 11]);
+      expect(edited.duration).toBe(85 + 50);
+      expect(edited.elapsedTime).toBe(740);
+      expect(edited.pausedDuration).toBe(740 - 135);
+      expect(edited.distance).toBeCloseTo(ActivityService.calculateSegmentsDistance(edited.polylines));
+      expect(edited.distance).toBeLessThan(activity.distance);
+      expect(edited.averageSpeed).toBeCloseTo(edited.distance / 135);
+      expect(edited.splits).toEqual(ActivityService.calculateSplits(edited.polylines, 'km'));
+      expect(edited.laps).toBeUndefined();
+      expect(edited.isSynced).toBe(false);
+    });
+
+    it('drops whole segments', () => {
+      const edited = ActivityService.applyEdit(makeActivity(), { startTime: 0, endTime: 795000, droppedSegments: [1] })!;
+      expect(edited.polylines).toHaveLength(1);
+      expect(edited.endTime).toBe(95000);
+      expect(edited.pausedDuration).toBe(0);
+    });
+
+    it('returns null when too little is left', () => {
+      expect(ActivityService.applyEdit(makeActivity(), { startTime: 0, endTime: 795000, droppedSegments: [0, 1] })).toBeNull();
+      expect(ActivityService.applyEdit(makeActivity(), { startTime: 0, endTime: 3000 })).toBeNull();
+    });
+
+    it('locks activities that claimed territory or were flagged', async () => {
+      expect(ActivityService.canEditActivity(makeActivity())).toBe(true);
+      expect(ActivityService.canEditActivity(makeActivity({ territoryId: 'territory-1' }))).toBe(false);
+      expect(ActivityService.canEditActivity(makeActivity({
+        suspicion: { score: 0.9, reasons: [], flagged: true },
+      }))).toBe(false);
+
+      const locked = makeActivity({ territoryId: 'territory-1' });
+      await db.activities.put(locked);
+      expect(await ActivityService.editActivity(locked, { startTime: 10000, endTime: 750000 })).toBeNull();
+      expect((await db.activities.get('edit-test'))?.distance).toBe(locked.distance);
+    });
+
+    it('saves an edit and can undo it within the window', async () => {
+      const activity = makeActivity();
+      await db.activities.put(activity);
+
+      const edited = await ActivityService.editActivity(activity, { startTime: 0, endTime: 795000, droppedSegments: [1] });
+      expect(edited?.polylines).toHaveLength(1);
+      expect((await db.activities.get('edit-test'))?.polylines).toHaveLength(1);
+
+      const restored = await ActivityService.undoActivityEdit('edit-test');
+      expect(restored?.polylines).toHaveLength(2);
+      expect((await db.activities.get('edit-test'))?.distance).toBe(activity.distance);
+
+      // Only once
+      expect(await ActivityService.undoActivityEdit('edit-test')).toBeNull();
+    });
+
+    it('cannot undo once the window has closed', async () => {
+      const activity = makeActivity();
+      await ActivityService.editActivity(activity, { startTime: 0, endTime: 795000, droppedSegments: [1] });
+
+      const now = Date.now();
+      const spy = jest.spyOn(Date, 'now').mockReturnValue(now + EDIT_UNDO_WINDOW_MS + 1);
+      try {
+        expect(await ActivityService.undoActivityEdit('edit-test')).toBeNull();
+      } finally {
+        spy.mockRestore();
+      }
+      expect((await db.activities.get('edit-test'))?.polylines).toHaveLength(1);
+    });
+  });
+
   describe('getActivity', () => {
     it('should return an activity by id', async () => {
       const activity: Activity = {
@@ -446,6 +656,30 @@ describe('ActivityService', () => {
       const result = await ActivityService.getActivity('does-not-exist');
       expect(result).toBeNull();
     });
+
+    it('should drop a cached activity of someone else once the server withholds it', async () => {
+      await db.activities.put({
+        id: 'get-hidden',
+        userId: 'other-user',
+        type: 'RUN',
+        startTime: Date.now(),
+        distance: 300,
+        duration: 90,
+        polylines: [createPath(3)],
+        isSynced: true,
+      });
+      const rpc = (supabase as any).rpc;
+
+      // Offline, the cached copy is still shown
+      (supabase as any).rpc = jest.fn(async () => ({ data: null, error: { message: 'Network error' } }));
+      expect((await ActivityService.getActivity('get-hidden'))?.id).toBe('get-hidden');
+
+      // The owner made it private: nothing comes back and the copy goes
+      (supabase as any).rpc = jest.fn(async () => ({ data: [], error: null }));
+      expect(await ActivityService.getActivity('get-hidden')).toBeNull();
+      expect(await db.activities.get('get-hidden')).toBeUndefined();
+      (supabase as any).rpc = rpc;
+    });
   });
 
   describe('syncPendingActivities', () => {
@@ -482,6 +716,53 @@ describe('ActivityService', () => {
       expect(a2?.isSynced).toBe(true);
     });
 
+    it('should upload the track encoded with a simplified route preview', async () => {
+      const from = supabase.from as jest.Mock;
+      from.mockClear();
+      const straight = createPath(50);
+      await db.activities.put({
+        id: 'sync-encoded',
+        userId: 'user-1',
+        type: 'WALK',
+        startTime: Date.now(),
+        distance: 540,
+        duration: 300,
+        polylines: [straight],
+        isSynced: false,
+      } as Activity);
+
+      await ActivityService.syncPendingActivities();
+
+      const row = from.mock.results
+        .flatMap(r => r.value.upsert.mock.calls.map((call: any[]) => call[0]))
+        .find((r: any) => r.id === 'sync-encoded');
+      expect(row.polylines.format).toBe('conqr-track');
+      expect(ActivityService._parsePolylines(row.polylines)[0]).toHaveLength(50);
+      expect(ActivityService._parsePolylines(row.route_preview)[0]).toHaveLength(2);
+    });
+
+    it('should only send a visibility the activity has been given', async () => {
+      const from = supabase.from as jest.Mock;
+      from.mockClear();
+      const base = {
+        userId: 'user-1',
+        type: 'WALK' as const,
+        startTime: Date.now(),
+        distance: 540,
+        duration: 300,
+        polylines: [createPath(50)],
+        isSynced: false,
+      };
+      await db.activities.put({ ...base, id: 'sync-legacy' });
+      await db.activities.put({ ...base, id: 'sync-friends', visibility: 'friends' });
+
+      await ActivityService.syncPendingActivities();
+
+      const rows = from.mock.results.flatMap(r => r.value.upsert.mock.calls.map((call: any[]) => call[0]));
+      expect(rows.find((r: any) => r.id === 'sync-legacy')).not.toHaveProperty('visibility');
+      expect(rows.find((r: any) => r.id === 'sync-friends').visibility).toBe('friends');
+    });
+
     it('should return 0 when nothing to sync', async () => {
       // Insert an already-synced activity
       await db.activities.put({
@@ -519,5 +800,12 @@ describe('ActivityService', () => {
     it('should return empty array for invalid JSON', () => {
       expect(ActivityService._parsePolylines('invalid json')).toEqual([]);
     });
+
+    it('should decode encoded tracks', () => {
+      const polylines = [createPath(3)];
+      const decoded = ActivityService._parsePolylines(encodeTrack(polylines));
+      expect(decoded[0]).toHaveLength(3);
+      expect(decoded[0][2].lat).toBeCloseTo(polylines[0][2].lat, 6);
+    });
   });
 });
@@ -0,0 +1,188 @@
+import * as Sharing from 'expo-sharing';
+import { writeAsStringAsync } from 'expo-file-system/legacy';
+import { ExportService, toGPX, toTCX, escapeXml, exportFileName } from '../services/ExportService';
+import { Activity, GPSPoint } from '../lib/types';
+import { PrivacyZoneService } from '../services/PrivacyZoneService';
+
+jest.mock('expo-sharing', () => ({
+    isAvailableAsync: jest.fn(async () => true),
+    shareAsync: jest.fn(async () => {}),
+}));
+
+jest.mock('expo-file-system/legacy', () => ({
+    cacheDirectory: 'file:///cache/',
+    writeAsStringAsync: jest.fn(async () => {}),
+}));
+
+const START = Date.UTC(2026, 1, 18, 7, 30, 0);
+
+const point = (i: number, overrides: Partial<GPSPoint> = {}): GPSPoint => ({
+    lat: 51.5 + i * 0.0001,
+    lng: -0.12,
+    timestamp: START + i * 5000,
+    speed: 2.5,
+    accuracy: 5,
+    altitude: 20 + i,
+    ...overrides,
+});
+
+const makeActivity = (overrides: Partial<Activity> = {}): Activity => ({
+    id: 'act-1',
+    userId: 'user-1',
+    type: 'RUN',
+    startTime: START,
+    endTime: START + 120000,
+    distance: 100,
+    duration: 90,
+    polylines: [
+        [point(0), point(1), point(2)],
+        [point(10), point(11)],
+    ],
+    isSynced: true,
+    ...overrides,
+});
+
+const count = (xml: string, tag: string) => (xml.match(new RegExp(`<${tag}[ >]`, 'g')) || []).length;
+
+describe('ExportService', () => {
+    describe('toGPX', () => {
+        it('should produce a GPX 1.1 document', () => {
+            const gpx = toGPX(makeActivity());
+            expect(gpx.startsWith('<?xml version="1.0" encoding="UTF-8"?>')).toBe(true);
+            expect(gpx).toContain('<gpx version="1.1" creator="Conqr"');
+            expect(gpx).toContain('xmlns="http://www.topografix.com/GPX/1/1"');
+            expect(gpx).toContain('<type>running</type>');
+            expect(gpx.trim().endsWith('</gpx>')).toBe(true);
+        });
+
+        it('should write one trkseg per segment', () => {
+            const gpx = toGPX(makeActivity());
+            expect(count(gpx, 'trkseg')).toBe(2);
+            expect(count(gpx, 'trkpt')).toBe(5);
+        });
+
+        it('should include time, elevation and speed for each point', () => {
+            const gpx = toGPX(makeActivity({ polylines: [[point(0)]] }));
+            expect(gpx).toContain('<trkpt lat="51.5" lon="-0.12">');
+            expect(gpx).toContain('<ele>20</ele>');
+            expect(gpx).toContain(`<time>${new Date(START).toISOString()}</time>`);
+            expect(gpx).toContain('<gpxtpx:speed>2.5</gpxtpx:speed>');
+        });
+
+        it('should omit values the point does not have', () => {
+            const gpx = toGPX(makeActivity({
+                polylines: [[point(0, { altitude: null, speed: null })]],
+            }));
+            expect(gpx).not.toContain('<ele>');
+            expect(gpx).not.toContain('<extensions>');
+        });
+
+        it('should skip invalid points and empty segments', () => {
+            const gpx = toGPX(makeActivity({
+                polylines: [[point(0), point(1, { lat: NaN })], [], [point(2)]],
+            }));
+            expect(count(gpx, 'trkseg')).toBe(2);
+            expect(count(gpx, 'trkpt')).toBe(2);
+            expect(gpx).not.toContain('NaN');
+        });
+
+        it('should handle an activity without polylines', () => {
+            const gpx = toGPX(makeActivity({ polylines: [] }));
+            expect(count(gpx, 'trkseg')).toBe(0);
+            expect(gpx).toContain('</trk>');
+        });
+    });
+
+    describe('toTCX', () => {
+        it('should produce a TCX document with the right sport', () => {
+            const tcx = toTCX(makeActivity({ type: 'RIDE' }));
+            expect(tcx).toContain('xmlns="http://www.garmin.com/xmlschemas/TrainingCenterDatabase/v2"');
+            expect(tcx).toContain('<Activity Sport="Biking">');
+            expect(tcx).toContain(`<Id>${new Date(START).toISOString()}</Id>`);
+            expect(toTCX(makeActivity({ type: 'WALK' }))).toContain('<Activity Sport="Other">');
+        });
+
+        it('should write one Track per segment inside a single lap', () => {
+            const tcx = toTCX(makeActivity());
+            expect(count(tcx, 'Lap')).toBe(1);
+            expect(count(tcx, 'Track')).toBe(2);
+            expect(count(tcx, 'Trackpoint')).toBe(5);
+            expect(tcx).toContain('<TotalTimeSeconds>90</TotalTimeSeconds>');
+            expect(tcx).toContain('<DistanceMeters>100.0</DistanceMeters>');
+        });
+
+        it('should include altitude and speed extensions', () => {
+            const tcx = toTCX(makeActivity({ polylines: [[point(0)]] }));
+            expect(tcx).toContain('<AltitudeMeters>20</AltitudeMeters>');
+            expect(tcx).toContain('<ns3:Speed>2.5</ns3:Speed>');
+            expect(tcx).toContain('<MaximumSpeed>2.50</MaximumSpeed>');
+        });
+
+        it('should accumulate distance without bridging segment gaps', () => {
+            const tcx = toTCX(makeActivity());
+            const distances = [...tcx.matchAll(/<DistanceMeters>([\d.]+)<\/DistanceMeters>/g)]
+                .map(m => parseFloat(m[1]))
+                .slice(1); // first is the lap total
+            expect(distances).toHaveLength(5);
+            // ~11m per step within a segment, nothing added across the 8-step gap
+            expect(distances[2]).toBeCloseTo(22, 0);
+            expect(distances[3]).toBe(distances[2]);
+            expect(distances[4]).toBeCloseTo(33, 0);
+        });
+
+        it('should skip points without a timestamp', () => {
+            const tcx = toTCX(makeActivity({ polylines: [[point(0), point(1, { timestamp: 0 })]] }));
+            expect(count(tcx, 'Trackpoint')).toBe(1);
+        });
+    });
+
+    describe('helpers', () => {
+        it('should escape XML special characters', () => {
+            expect(escapeXml(`<a & "b" 'c'>`)).toBe('&lt;a &amp; &quot;b&quot; &apos;c&apos;&gt;');
+        });
+
+        it('should name files by type and date', () => {
+            expect(exportFileName(makeActivity(), 'gpx')).toBe('conqr-run-2026-02-18.gpx');
+            expect(exportFileName(makeActivity({ type: 'WALK' }), 'tcx')).toBe('conqr-walk-2026-02-18.tcx');
+        });
+    });
+
+    describe('shareActivityFile', () => {
+        beforeEach(() => jest.clearAllMocks());
+
+        it('should write the file and open the share sheet', async () => {
+            const activity = makeActivity();
+            await ExportService.shareActivityFile(activity, 'gpx');
+
+            expect(writeAsStringAsync).toHaveBeenCalledWith(
+                'file:///cache/conqr-run-2026-02-18.gpx',
+                toGPX(activity)
+            );
+            expect(Sharing.shareAsync).toHaveBeenCalledWith(
+                'file:///cache/conqr-run-2026-02-18.gpx',
+                expect.objectContaining({ mimeType: 'application/gpx+xml' })
+            );
+        });
+
+        it('should leave out fixes inside the owner\'s privacy zones', async () => {
+            const activity = makeActivity();
+            jest.spyOn(PrivacyZoneService, 'getZones').mockResolvedValueOnce([
+                { id: 'zone-1', userId: 'user-1', center: { lat: 51.5, lng: -0.12 }, radius: 50 },
+            ]);
+            await ExportService.shareActivityFile(activity, 'gpx');
+
+            // The first segment lies within 50 m of the zone's center
+            const written = (writeAsStringAsync as jest.Mock).mock.calls[0][1] as string;
+            expect(count(written, 'trkseg')).toBe(1);
+            expect(count(written, 'trkpt')).toBe(2);
+            expect(written).not.toContain('lat="51.5"');
+        });
+
+        it('should throw when sharing is unavailable', async () => {
+            (Sharing.isAvailableAsync as jest.Mock).mockResolvedValueOnce(false);
+            await expect(ExportService.shareActivityFile(makeActivity(), 'tcx'))
+                .rejects.toThrow('Sharing not available');
+            expect(writeAsStringAsync).not.toHaveBeenCalled();
+        });
+    });
+});
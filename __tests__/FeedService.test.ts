@@ -188,6 +188,83 @@ describe('FeedService', () => {
             expect(feed[1].isLikedByMe).toBe(false);
         });
 
+        it('should embed shared activities as the server clips them', async () => {
+            const mockPosts = [{
+                id: 'post-1',
+                user_id: 'user-1',
+                content: 'Morning run',
+                post_type: 'activity_share',
+                activity_id: 'act-1',
+                territory_id: null,
+                created_at: new Date().toISOString(),
+                user: { id: 'user-1', username: 'alice', avatar_url: null },
+            }];
+            mockSupabase.from.mockImplementation((table: string) =>
+                table === 'posts' ? chainable(mockPosts) : chainable([])
+            );
+            const preview = [[
+                { lat: 37.78, lng: -122.41, timestamp: 1000, speed: null, accuracy: null, altitude: null },
+                { lat: 37.781, lng: -122.41, timestamp: 6000, speed: null, accuracy: null, altitude: null },
+            ]];
+            mockSupabase.rpc = jest.fn(async () => ({
+                data: [{
+                    id: 'act-1', user_id: 'user-1', type: 'RUN',
+                    start_time: new Date(0).toISOString(), distance: 5000, duration: 1500,
+                    polylines: null, route_preview: preview,
+                }],
+                error: null,
+            }));
+
+            const feed = await FeedService.getFeed();
+            expect(mockSupabase.rpc).toHaveBeenCalledWith('get_shared_activities', { p_ids: ['act-1'], p_preview_only: true });
+            expect(feed[0].activity?.distance).toBe(5000);
+            expect(feed[0].activity?.polylines).toEqual(preview);
+        });
+
+        it('should drop posts whose activity the server withholds, unless the fetch failed', async () => {
+            const post = (id: string, activityId: string) => ({
+                id,
+                user_id: 'user-1',
+                content: '',
+                post_type: 'activity_share',
+                activity_id: activityId,
+                territory_id: null,
+                created_at: new Date().toISOString(),
+                user: { id: 'user-1', username: 'alice', avatar_url: null },
+            });
+            const mockPosts = [
+                post('post-1', 'act-public'),
+                post('post-2', 'act-private'),
+                post('post-3', 'act-deleted'),
+            ];
+            mockSupabase.from.mockImplementation((table: string) =>
+                table === 'posts' ? chainable(mockPosts) : chainable([])
+            );
+            mockSupabase.rpc = jest.fn(async (fn: string) => fn === 'get_hidden_activity_ids'
+                ? { data: ['act-private'], error: null }
+                : {
+                    data: [{
+                        id: 'act-public', user_id: 'user-1', type: 'RUN', visibility: 'public',
+                        start_time: new Date(0).toISOString(), distance: 5000, duration: 1500,
+                    }],
+                    error: null,
+                });
+
+            const feed = await FeedService.getFeed();
+            expect(mockSupabase.rpc).toHaveBeenCalledWith('get_hidden_activity_ids', {
+                p_ids: ['act-public', 'act-private', 'act-deleted'],
+            });
+            // A deleted activity isn't withheld, so its post stays with a fallback card
+            expect(feed.map(p => p.id)).toEqual(['post-1', 'post-3']);
+            expect(feed[0].activity?.visibility).toBe('public');
+            expect(feed[1].activity).toBeUndefined();
+
+            // Offline, the posts stay with a fallback card instead
+            mockSupabase.rpc = jest.fn(async () => ({ data: null, error: { message: 'Network error' } }));
+            const offline = await FeedService.getFeed();
+            expect(offline.map(p => p.id)).toEqual(['post-1', 'post-2', 'post-3']);
+        });
+
         it('should return empty array on error', async () => {
             mockSupabase.from.mockReturnValue(chainable(null, { message: 'Error' }));
 
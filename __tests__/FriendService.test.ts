@@ -472,4 +472,25 @@ describe('FriendService', () => {
       expect(result.status).toBe('none');
     });
   });
+
+  describe('canViewActivity', () => {
+    const mockOrChain = (data: any[] | null) => {
+      const mockLimit = jest.fn(() => ({ data, error: null }));
+      const mockOr = jest.fn(() => ({ limit: mockLimit }));
+      return { select: jest.fn(() => ({ or: mockOr })) };
+    };
+
+    it('should only look up the friendship for friends-only activities of others', async () => {
+      expect(await FriendService.canViewActivity({ userId: 'test-user-id', visibility: 'private' })).toBe(true);
+      expect(await FriendService.canViewActivity({ userId: 'other-user', visibility: 'public' })).toBe(true);
+      expect(await FriendService.canViewActivity({ userId: 'other-user', visibility: 'private' })).toBe(false);
+      expect(mockSupabase.from).not.toHaveBeenCalled();
+
+      mockSupabase.from.mockReturnValueOnce(mockOrChain([{ id: 'fs-1', status: 'accepted' }]));
+      expect(await FriendService.canViewActivity({ userId: 'other-user', visibility: 'friends' })).toBe(true);
+
+      mockSupabase.from.mockReturnValueOnce(mockOrChain([{ id: 'fs-2', status: 'pending' }]));
+      expect(await FriendService.canViewActivity({ userId: 'other-user', visibility: 'friends' })).toBe(false);
+    });
+  });
 });
@@ -1,5 +1,6 @@
-import { GameEngine } from '../services/GameEngine';
+import { GameEngine, TERRITORY_DECAY } from '../services/GameEngine';
 import { GPSPoint } from '../lib/types';
+import { DEFAULT_CLAIM_RULES } from '../utils/claimRules';
 
 describe('GameEngine', () => {
   const createGPSPoint = (lat: number, lng: number, speed: number | null = 1.5): GPSPoint => ({
@@ -222,4 +223,169 @@ describe('GameEngine', () => {
       expect(result).toBeNull();
     });
   });
+
+  describe('previewTerritory', () => {
+    it('should close an open path back to the start', () => {
+      // Three sides of the square: processTerritory would refuse this
+      const path = createSquarePath(37.7749, -122.4194, 0.002).slice(0, 16);
+      expect(GameEngine.processTerritory(path, 'user-1', 'activity-1')).toBeNull();
+
+      const preview = GameEngine.previewTerritory(path);
+      expect(preview).not.toBeNull();
+      const full = GameEngine.processTerritory(createSquarePath(37.7749, -122.4194, 0.002), 'user-1', 'activity-1');
+      expect(preview!.area).toBeCloseTo(full!.area, -2);
+    });
+
+    it('should keep the largest lobe of a self-crossing path', () => {
+      // A bowtie: the first and last legs cross close to the start
+      const path = [
+        createGPSPoint(37.7749, -122.4194),
+        createGPSPoint(37.7769, -122.4174),
+        createGPSPoint(37.7749, -122.4174),
+        createGPSPoint(37.7754, -122.4194),
+      ];
+      const preview = GameEngine.previewTerritory(path);
+      expect(preview).not.toBeNull();
+      // The big lobe is the triangle past the crossing; the small one is dropped
+      const bigLobe = GameEngine.calculateArea([path[1], path[2], createGPSPoint(37.7753, -122.4190)]);
+      expect(preview!.area).toBeCloseTo(bigLobe, -2);
+    });
+
+    it('should return null for a straight line or too few points', () => {
+      const line = [0, 1, 2, 3].map(i => createGPSPoint(37.7749 + i * 0.001, -122.4194));
+      expect(GameEngine.previewTerritory(line)).toBeNull();
+      expect(GameEngine.previewTerritory(line.slice(0, 2))).toBeNull();
+    });
+  });
+
+  describe('checkClaimRules', () => {
+    const claim = (path: GPSPoint[]) => GameEngine.processTerritory(path, 'user-1', 'activity-1')!;
+
+    it('should accept an ordinary loop', () => {
+      const path = createSquarePath(37.7749, -122.4194, 0.002);
+      expect(GameEngine.checkClaimRules(claim(path), path, 'WALK')).toBeNull();
+    });
+
+    it('should refuse an out-and-back along the same street', () => {
+      const path: GPSPoint[] = [];
+      for (let i = 0; i <= 12; i++) path.push(createGPSPoint(37.7749, -122.4194 + i * 0.0004));
+      for (let i = 12; i >= 0; i--) path.push(createGPSPoint(37.7750, -122.4194 + i * 0.0004));
+
+      const territory = claim(path);
+      expect(territory).not.toBeNull();
+      expect(GameEngine.checkClaimRules(territory, path, 'RUN')).toMatchObject({ reason: 'NOT_COMPACT' });
+    });
+
+    it('should cap the area by activity type', () => {
+      // Roughly 2.2 km by 1.8 km
+      const path = createSquarePath(37.7749, -122.4194, 0.02);
+      const territory = claim(path);
+
+      expect(GameEngine.checkClaimRules(territory, path, 'WALK')).toMatchObject({
+        reason: 'TOO_LARGE_FOR_TYPE',
+        limit: 3_000_000,
+      });
+      expect(GameEngine.checkClaimRules(territory, path, 'RIDE')).toBeNull();
+    });
+
+    it('should refuse a loop whose boundary was mostly bridged between segments', () => {
+      const path = createSquarePath(37.7749, -122.4194, 0.002);
+      // The third side was never covered: the second segment starts at the last corner
+      const segments = [path.slice(0, 11), path.slice(15)];
+      const rules = { ...DEFAULT_CLAIM_RULES, maxPerimeterToDistance: 1.2 };
+
+      const violation = GameEngine.checkClaimRules(claim(path), segments, 'WALK', rules);
+      expect(violation).toMatchObject({ reason: 'PERIMETER_EXCEEDS_DISTANCE', limit: 1.2 });
+      // One of four sides bridged: the boundary runs about 1.3x the distance covered
+      expect(violation!.value).toBeCloseTo(1.3, 1);
+    });
+
+    it('should measure the width as the largest circle that fits', () => {
+      // 0.002° of longitude is about 176 m here, the narrower side
+      const path = createSquarePath(37.7749, -122.4194, 0.002);
+      const rules = { ...DEFAULT_CLAIM_RULES, minWidth: 200 };
+
+      const violation = GameEngine.checkClaimRules(claim(path), path, 'WALK', rules);
+      expect(violation!.reason).toBe('TOO_NARROW');
+      expect(violation!.value).toBeGreaterThan(170);
+      expect(violation!.value).toBeLessThan(180);
+    });
+  });
+
+  describe('segmented paths', () => {
+    it('should stitch segments separated by a small pause gap', () => {
+      const path = createSquarePath(37.7749, -122.4194, 0.002);
+      const segments = [path.slice(0, 10), path.slice(10)];
+      const stitched = GameEngine.stitchSegments(segments);
+      expect(stitched).not.toBeNull();
+      expect(stitched!.length).toBe(path.length);
+    });
+
+    it('should refuse to bridge a large pause gap', () => {
+      const first = createSquarePath(37.7749, -122.4194, 0.002);
+      const second = createSquarePath(37.7849, -122.4194, 0.002); // ~1.1km away
+      expect(GameEngine.stitchSegments([first, second])).toBeNull();
+      expect(GameEngine.checkLoopClosure([first, second]).isClosed).toBe(false);
+    });
+
+    it('should detect loop closure across segments', () => {
+      const path = createSquarePath(37.7749, -122.4194, 0.002);
+      const segments = [path.slice(0, 8), [], path.slice(8)];
+      expect(GameEngine.checkLoopClosure(segments).isClosed).toBe(true);
+    });
+
+    it('should create territory from a segmented loop', () => {
+      const path = createSquarePath(37.7749, -122.4194, 0.002);
+      const single = GameEngine.processTerritory(path, 'user-1', 'activity-1');
+      const segmented = GameEngine.processTerritory(
+        [path.slice(0, 12), path.slice(12)], 'user-1', 'activity-1'
+      );
+      expect(segmented).not.toBeNull();
+      expect(segmented!.area).toBeCloseTo(single!.area, 0);
+    });
+  });
+
+  describe('territory decay', () => {
+    const DAY = 24 * 60 * 60 * 1000;
+    const NOW = Date.UTC(2026, 2, 1);
+    const territory = (daysSinceDefended: number, area = 1000) => ({
+      area,
+      claimedAt: NOW - 365 * DAY,
+      lastDefendedAt: NOW - daysSinceDefended * DAY,
+    });
+
+    it('should keep full strength during the grace period', () => {
+      expect(GameEngine.getTerritoryStrength(territory(0), NOW)).toBe(1);
+      expect(GameEngine.getTerritoryStrength(territory(TERRITORY_DECAY.GRACE_DAYS), NOW)).toBe(1);
+    });
+
+    it('should halve strength every half-life after the grace period', () => {
+      const oneHalfLife = TERRITORY_DECAY.GRACE_DAYS + TERRITORY_DECAY.HALF_LIFE_DAYS;
+      expect(GameEngine.getTerritoryStrength(territory(oneHalfLife), NOW)).toBeCloseTo(0.5, 5);
+      expect(GameEngine.getTerritoryStrength(
+        territory(oneHalfLife + TERRITORY_DECAY.HALF_LIFE_DAYS), NOW
+      )).toBeCloseTo(0.25, 5);
+    });
+
+    it('should never decay below the minimum strength', () => {
+      expect(GameEngine.getTerritoryStrength(territory(1000), NOW)).toBe(TERRITORY_DECAY.MIN_STRENGTH);
+    });
+
+    it('should fall back to claimedAt when never defended', () => {
+      const claimedOnly = { claimedAt: NOW - 3 * DAY };
+      expect(GameEngine.getLastDefendedAt(claimedOnly)).toBe(NOW - 3 * DAY);
+      expect(GameEngine.getTerritoryStrength(claimedOnly, NOW)).toBe(1);
+    });
+
+    it('should weight area by strength', () => {
+      const oneHalfLife = TERRITORY_DECAY.GRACE_DAYS + TERRITORY_DECAY.HALF_LIFE_DAYS;
+      expect(GameEngine.getEffectiveArea(territory(0, 800), NOW)).toBe(800);
+      expect(GameEngine.getEffectiveArea(territory(oneHalfLife, 800), NOW)).toBeCloseTo(400, 3);
+    });
+
+    it('should stamp new territories as just defended', () => {
+      const created = GameEngine.processTerritory(createSquarePath(37.7749, -122.4194, 0.002), 'user-1', 'act-1');
+      expect(created!.lastDefendedAt).toBe(created!.claimedAt);
+    });
+  });
 });
@@ -0,0 +1,431 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  ImportService,
+  parseGPX,
+  parseTCX,
+  parseFIT,
+  detectFormat,
+  validateTrack,
+  activityTypeFromLabel,
+} from '../services/ImportService';
+import { ActivityService } from '../services/ActivityService';
+import { TerritoryService } from '../services/TerritoryService';
+import { AuthService } from '../services/AuthService';
+import { supabase } from '../lib/supabase';
+import { DEFAULT_CLAIM_RULES } from '../utils/claimRules';
+import { Activity, GPSPoint, Territory } from '../lib/types';
+
+jest.mock('../services/AuthService', () => ({
+  AuthService: {
+    getCurrentProfile: jest.fn(async () => ({ id: 'user-1', username: 'tester', createdAt: 0 })),
+  },
+}));
+
+const FIXTURES = path.join(__dirname, 'fixtures', 'import');
+const readText = (name: string) => fs.readFileSync(path.join(FIXTURES, name), 'utf8');
+const readBytes = (name: string) => new Uint8Array(fs.readFileSync(path.join(FIXTURES, name)));
+
+// Fixtures start at 2026-02-10T08:00:00Z; "now" is two days later
+const FIXTURE_START = Date.UTC(2026, 1, 10, 8, 0, 0);
+const NOW = Date.UTC(2026, 1, 12, 0, 0, 0);
+
+const countPoints = (segments: GPSPoint[][]) => segments.reduce((n, seg) => n + seg.length, 0);
+
+describe('ImportService', () => {
+  let dateSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    dateSpy = jest.spyOn(Date, 'now').mockReturnValue(NOW);
+  });
+
+  afterEach(() => {
+    dateSpy.mockRestore();
+  });
+
+  describe('parseGPX', () => {
+    it('should parse track points with time, elevation and speed', () => {
+      const track = parseGPX(readText('loop-walk.gpx'));
+      expect(track.format).toBe('gpx');
+      expect(track.activityType).toBe('WALK');
+      expect(track.name).toBe('Morning Walk');
+      expect(track.segments).toHaveLength(1);
+
+      const first = track.segments[0][0];
+      expect(first).toEqual({
+        lat: 51.5,
+        lng: -0.12,
+        timestamp: FIXTURE_START,
+        speed: 1.4,
+        accuracy: null,
+        altitude: 20,
+      });
+      expect(track.segments[0][1].timestamp).toBe(FIXTURE_START + 5000);
+    });
+
+    it('should keep each trkseg as its own segment', () => {
+      const xml = `<gpx version="1.1"><trk>
+        <trkseg><trkpt lat="1" lon="2"/><trkpt lat="1.1" lon="2"/></trkseg>
+        <trkseg></trkseg>
+        <trkseg><trkpt lat="1.2" lon="2"><time>2026-02-10T08:00:00Z</time></trkpt></trkseg>
+      </trk></gpx>`;
+      const track = parseGPX(xml);
+      expect(track.segments.map(seg => seg.length)).toEqual([2, 1]);
+      expect(track.segments[0][0].timestamp).toBe(0);
+      expect(track.activityType).toBeNull();
+    });
+
+    it('should skip points with invalid coordinates', () => {
+      const xml = `<gpx><trk><trkseg>
+        <trkpt lat="95" lon="2"/><trkpt lat="abc" lon="2"/><trkpt lat="1" lon="2"/>
+      </trkseg></trk></gpx>`;
+      expect(countPoints(parseGPX(xml).segments)).toBe(1);
+    });
+
+    it('should reject documents that are not GPX', () => {
+      expect(() => parseGPX('<html></html>')).toThrow('Not a GPX document');
+    });
+  });
+
+  describe('parseTCX', () => {
+    it('should parse one segment per Track', () => {
+      const track = parseTCX(readText('loop-run.tcx'));
+      expect(track.format).toBe('tcx');
+      expect(track.activityType).toBe('RUN');
+      expect(track.name).toBe('Lunch Run');
+      expect(track.segments).toHaveLength(2);
+
+      const first = track.segments[0][0];
+      expect(first.timestamp).toBe(FIXTURE_START);
+      expect(first.speed).toBe(3);
+      expect(first.altitude).toBe(30);
+    });
+
+    it('should skip trackpoints without a position', () => {
+      const track = parseTCX(readText('loop-run.tcx'));
+      const all = ActivityService.flattenPolylines(track.segments);
+      expect(all.every(p => typeof p.lat === 'number' && typeof p.lng === 'number')).toBe(true);
+      // 89 positioned trackpoints in the fixture, plus one time-only point
+      expect(all).toHaveLength(89);
+    });
+  });
+
+  describe('parseFIT', () => {
+    it('should decode record messages into points', () => {
+      const track = parseFIT(readBytes('loop-ride.fit'));
+      expect(track.format).toBe('fit');
+      expect(track.activityType).toBe('RIDE');
+
+      const first = track.segments[0][0];
+      expect(first.lat).toBeCloseTo(51.5, 6);
+      expect(first.lng).toBeCloseTo(-0.12, 6);
+      expect(first.timestamp).toBe(FIXTURE_START);
+      expect(first.speed).toBeCloseTo(6, 3);
+      expect(first.altitude).toBeCloseTo(15, 1);
+    });
+
+    it('should split segments on timer stop events', () => {
+      const track = parseFIT(readBytes('loop-ride.fit'));
+      expect(track.segments).toHaveLength(2);
+      const [a, b] = track.segments;
+      // 90s timer pause between the segments
+      expect(b[0].timestamp - a[a.length - 1].timestamp).toBe(92_000);
+    });
+
+    it('should skip records without a valid position', () => {
+      const track = parseFIT(readBytes('loop-ride.fit'));
+      const all = ActivityService.flattenPolylines(track.segments);
+      expect(all.every(p => !isNaN(p.lat) && Math.abs(p.lat) <= 90)).toBe(true);
+      expect(all).toHaveLength(169);
+    });
+
+    it('should reject files without the FIT signature', () => {
+      expect(() => parseFIT(new Uint8Array(20))).toThrow('Not a FIT file');
+    });
+  });
+
+  describe('detectFormat', () => {
+    it('should detect formats from the extension', () => {
+      expect(detectFormat('run.GPX', '')).toBe('gpx');
+      expect(detectFormat('run.tcx', '')).toBe('tcx');
+      expect(detectFormat('run.fit', new Uint8Array())).toBe('fit');
+    });
+
+    it('should sniff the content when the extension is unknown', () => {
+      expect(detectFormat('download', readText('loop-walk.gpx'))).toBe('gpx');
+      expect(detectFormat('download', readText('loop-run.tcx'))).toBe('tcx');
+      expect(detectFormat('download', readBytes('loop-ride.fit'))).toBe('fit');
+      expect(detectFormat('notes.txt', 'hello')).toBeNull();
+    });
+  });
+
+  describe('activityTypeFromLabel', () => {
+    it('should map common labels', () => {
+      expect(activityTypeFromLabel('Running')).toBe('RUN');
+      expect(activityTypeFromLabel('Biking')).toBe('RIDE');
+      expect(activityTypeFromLabel('cycling')).toBe('RIDE');
+      expect(activityTypeFromLabel('hiking')).toBe('WALK');
+      expect(activityTypeFromLabel('9')).toBe('RUN');
+      expect(activityTypeFromLabel('Other')).toBeNull();
+      expect(activityTypeFromLabel(undefined)).toBeNull();
+    });
+  });
+
+  describe('validateTrack', () => {
+    it('should accept honest tracks', () => {
+      expect(validateTrack(parseGPX(readText('loop-walk.gpx')).segments, 'WALK', NOW)).toEqual({ valid: true });
+      expect(validateTrack(parseTCX(readText('loop-run.tcx')).segments, 'RUN', NOW)).toEqual({ valid: true });
+      expect(validateTrack(parseFIT(readBytes('loop-ride.fit')).segments, 'RIDE', NOW)).toEqual({ valid: true });
+    });
+
+    it('should reject a walk that turns into a drive', () => {
+      const result = validateTrack(parseGPX(readText('teleport-walk.gpx')).segments, 'WALK', NOW);
+      expect(result).toMatchObject({ valid: false, reason: 'SPEED_VIOLATION' });
+    });
+
+    it('should reject a run uploaded as a walk', () => {
+      const result = validateTrack(parseTCX(readText('loop-run.tcx')).segments, 'WALK', NOW);
+      expect(result).toMatchObject({ valid: false, reason: 'SPEED_VIOLATION' });
+    });
+
+    it('should use implied speed when points carry no speed', () => {
+      const segments = parseGPX(readText('loop-walk.gpx')).segments
+        .map(seg => seg.map(p => ({ ...p, speed: null })));
+      // Same track, but claimed to cover it 10x faster
+      const squeezed = segments.map(seg => seg.map(p => ({
+        ...p,
+        timestamp: FIXTURE_START + (p.timestamp - FIXTURE_START) / 10,
+      })));
+      expect(validateTrack(segments, 'WALK', NOW)).toEqual({ valid: true });
+      expect(validateTrack(squeezed, 'WALK', NOW)).toMatchObject({ reason: 'SPEED_VIOLATION' });
+    });
+
+    it('should tolerate a single GPS spike', () => {
+      const segments = parseGPX(readText('loop-walk.gpx')).segments.map(seg => [...seg]);
+      const spiked = segments[0][20];
+      segments[0][20] = { ...spiked, lat: spiked.lat + 0.001, speed: null };
+      expect(validateTrack(segments, 'WALK', NOW)).toEqual({ valid: true });
+    });
+
+    it('should reject missing timestamps', () => {
+      const result = validateTrack(parseGPX(readText('no-timestamps.gpx')).segments, 'WALK', NOW);
+      expect(result).toMatchObject({ valid: false, reason: 'MISSING_TIMESTAMPS' });
+    });
+
+    it('should reject timestamps that go backwards', () => {
+      const result = validateTrack(parseGPX(readText('out-of-order.gpx')).segments, 'WALK', NOW);
+      expect(result).toMatchObject({ valid: false, reason: 'TIMESTAMPS_OUT_OF_ORDER' });
+    });
+
+    it('should reject segments that overlap in time', () => {
+      const [seg] = parseGPX(readText('loop-walk.gpx')).segments;
+      const result = validateTrack([seg.slice(20), seg.slice(0, 20)], 'WALK', NOW);
+      expect(result).toMatchObject({ valid: false, reason: 'TIMESTAMPS_OUT_OF_ORDER' });
+    });
+
+    it('should reject tracks from the future', () => {
+      const segments = parseGPX(readText('loop-walk.gpx')).segments;
+      // Recorded an hour after "now" — beyond any clock skew
+      const result = validateTrack(segments, 'WALK', FIXTURE_START - 60 * 60_000);
+      expect(result).toMatchObject({ valid: false, reason: 'FUTURE_TIMESTAMPS' });
+    });
+
+    it('should reject empty tracks', () => {
+      expect(validateTrack([], 'WALK', NOW)).toMatchObject({ valid: false, reason: 'NO_POINTS' });
+    });
+  });
+
+  describe('importFile', () => {
+    let saveActivity: jest.SpyInstance;
+    let saveTerritoryWithConquering: jest.SpyInstance;
+
+    beforeEach(() => {
+      jest.spyOn(ActivityService, 'getUserActivities').mockResolvedValue([]);
+      saveActivity = jest.spyOn(ActivityService, 'saveActivity')
+        .mockImplementation(async (activity: Activity) => activity);
+      jest.spyOn(TerritoryService, 'getAllTerritories').mockResolvedValue([]);
+      jest.spyOn(TerritoryService, 'getClaimRules').mockResolvedValue(DEFAULT_CLAIM_RULES);
+      saveTerritoryWithConquering = jest.spyOn(TerritoryService, 'saveTerritoryWithConquering')
+        .mockImplementation(async (territory: Territory) => ({
+          newTerritory: territory,
+          modifiedTerritories: [],
+          deletedTerritoryIds: [],
+          invasions: [],
+          totalConqueredArea: 0,
+          mergedTerritoryIds: [],
+        }));
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+      dateSpy = jest.spyOn(Date, 'now').mockReturnValue(NOW);
+    });
+
+    it('should tag the territory with the current username', async () => {
+      (AuthService.getCurrentProfile as jest.Mock).mockResolvedValueOnce(null);
+      const result = await ImportService.importFile(
+        'loop-walk.gpx', readText('loop-walk.gpx'), 'user-1', { maxImportAgeDays: 7 }
+      );
+      expect(result.territory!.ownerName).toBeUndefined();
+    });
+
+    it('should import a closed loop and claim territory', async () => {
+      const result = await ImportService.importFile(
+        'loop-walk.gpx', readText('loop-walk.gpx'), 'user-1', { maxImportAgeDays: 7 }
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.activity).toMatchObject({
+        userId: 'user-1',
+        type: 'WALK',
+        startTime: FIXTURE_START,
+        isSynced: false,
+      });
+      expect(result.activity!.distance).toBeGreaterThan(350);
+      expect(result.territory).toBeTruthy();
+      expect(result.territory!.ownerName).toBe('tester');
+      expect(result.activity!.territoryId).toBe(result.territory!.id);
+      expect(saveTerritoryWithConquering).toHaveBeenCalledTimes(1);
+      expect(saveTerritoryWithConquering.mock.calls[0][2]).toBe(result.activity!.polylines);
+      expect(saveTerritoryWithConquering.mock.calls[0][3]).toBe('tester');
+      expect(saveTerritoryWithConquering.mock.calls[0][4]).toEqual(result.activity!.suspicion);
+      expect(result.activity!.suspicion?.flagged).toBe(false);
+      expect(saveActivity).toHaveBeenCalledTimes(1);
+      // The server claims from the uploaded track, so the upload comes first
+      expect(saveActivity).toHaveBeenCalledWith(expect.anything(), { awaitSync: true });
+      expect(saveActivity.mock.invocationCallOrder[0])
+        .toBeLessThan(saveTerritoryWithConquering.mock.invocationCallOrder[0]);
+    });
+
+    it('should not link a territory the server refused', async () => {
+      saveTerritoryWithConquering.mockImplementationOnce(async (territory: Territory) => ({
+        newTerritory: territory,
+        modifiedTerritories: [],
+        deletedTerritoryIds: [],
+        invasions: [],
+        totalConqueredArea: 0,
+        mergedTerritoryIds: [],
+        rejectedReason: 'LOOP_NOT_CLOSED',
+      }));
+
+      const result = await ImportService.importFile(
+        'loop-walk.gpx', readText('loop-walk.gpx'), 'user-1', { maxImportAgeDays: 7 }
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.territory).toBeNull();
+      expect(result.territorySkipped).toBe('REJECTED');
+      expect(result.activity!.territoryId).toBeUndefined();
+    });
+
+    it('should not claim a loop that breaks the claim rules', async () => {
+      (TerritoryService.getClaimRules as jest.Mock).mockResolvedValueOnce({ ...DEFAULT_CLAIM_RULES, minWidth: 10_000 });
+
+      const result = await ImportService.importFile(
+        'loop-walk.gpx', readText('loop-walk.gpx'), 'user-1', { maxImportAgeDays: 7 }
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.territory).toBeNull();
+      expect(result.territorySkipped).toBe('CLAIM_RULES');
+      expect(result.claimViolation).toMatchObject({ reason: 'TOO_NARROW', limit: 10_000 });
+      expect(saveTerritoryWithConquering).not.toHaveBeenCalled();
+      expect(saveActivity).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep pauses between segments out of the moving time', async () => {
+      const result = await ImportService.importFile('ride.fit', readBytes('loop-ride.fit'), 'user-1', {
+        maxImportAgeDays: 7,
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.activity!.type).toBe('RIDE');
+      expect(result.activity!.polylines).toHaveLength(2);
+      expect(result.activity!.pausedDuration).toBe(92);
+      expect(result.activity!.elapsedTime! - result.activity!.duration).toBe(92);
+    });
+
+    it('should save old activities without claiming territory', async () => {
+      const result = await ImportService.importFile(
+        'loop-run.tcx', readText('loop-run.tcx'), 'user-1', { maxImportAgeDays: 1 }
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.territorySkipped).toBe('TOO_OLD');
+      expect(result.territory).toBeNull();
+      expect(result.activity!.territoryId).toBeUndefined();
+      expect(saveTerritoryWithConquering).not.toHaveBeenCalled();
+      expect(saveActivity).toHaveBeenCalledTimes(1);
+    });
+
+    it('should read the max import age from app settings', async () => {
+      (supabase.from as jest.Mock).mockReturnValueOnce({
+        select: () => ({
+          eq: () => ({
+            single: async () => ({ data: { value: 1 }, error: null }),
+          }),
+        }),
+      });
+
+      const result = await ImportService.importFile('loop-run.tcx', readText('loop-run.tcx'), 'user-1');
+      expect(result.territorySkipped).toBe('TOO_OLD');
+      expect(await ImportService.getMaxImportAgeDays()).toBe(1);
+    });
+
+    it('should reject cheated tracks before saving anything', async () => {
+      const result = await ImportService.importFile(
+        'teleport-walk.gpx', readText('teleport-walk.gpx'), 'user-1', { maxImportAgeDays: 7 }
+      );
+
+      expect(result).toMatchObject({ success: false, reason: 'SPEED_VIOLATION' });
+      expect(saveActivity).not.toHaveBeenCalled();
+      expect(saveTerritoryWithConquering).not.toHaveBeenCalled();
+    });
+
+    it('should validate against an overridden activity type', async () => {
+      const result = await ImportService.importFile(
+        'loop-run.tcx', readText('loop-run.tcx'), 'user-1', { activityType: 'WALK', maxImportAgeDays: 7 }
+      );
+      expect(result).toMatchObject({ success: false, reason: 'SPEED_VIOLATION' });
+    });
+
+    it('should reject activities overlapping an existing one', async () => {
+      (ActivityService.getUserActivities as jest.Mock).mockResolvedValue([{
+        id: 'existing',
+        userId: 'user-1',
+        type: 'WALK',
+        startTime: FIXTURE_START + 60_000,
+        endTime: FIXTURE_START + 120_000,
+        distance: 100,
+        duration: 60,
+        polylines: [],
+        isSynced: true,
+      }]);
+
+      const result = await ImportService.importFile(
+        'loop-walk.gpx', readText('loop-walk.gpx'), 'user-1', { maxImportAgeDays: 7 }
+      );
+      expect(result).toMatchObject({ success: false, reason: 'OVERLAPS_EXISTING' });
+      expect(saveActivity).not.toHaveBeenCalled();
+    });
+
+    it('should reject unsupported and unreadable files', async () => {
+      expect(await ImportService.importFile('notes.txt', 'hello', 'user-1'))
+        .toMatchObject({ success: false, reason: 'UNSUPPORTED_FORMAT' });
+      expect(await ImportService.importFile('broken.gpx', 'not xml', 'user-1'))
+        .toMatchObject({ success: false, reason: 'PARSE_ERROR' });
+      expect(await ImportService.importFile('empty.gpx', '<gpx></gpx>', 'user-1'))
+        .toMatchObject({ success: false, reason: 'NO_POINTS' });
+    });
+
+    it('should reject tracks too short to be an activity', async () => {
+      const [seg] = parseGPX(readText('loop-walk.gpx')).segments;
+      const xml = `<gpx><trk><trkseg>${seg.slice(0, 1).map(p =>
+        `<trkpt lat="${p.lat}" lon="${p.lng}"><time>${new Date(p.timestamp).toISOString()}</time></trkpt>`
+      ).join('')}</trkseg></trk></gpx>`;
+
+      expect(await ImportService.importFile('short.gpx', xml, 'user-1', { maxImportAgeDays: 7 }))
+        .toMatchObject({ success: false, reason: 'INVALID_ACTIVITY' });
+    });
+  });
+});
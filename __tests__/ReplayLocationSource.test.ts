@@ -0,0 +1,182 @@
+import { GPSPoint } from '../lib/types';
+import { LocationService } from '../services/LocationService';
+import { TrackingStore } from '../services/TrackingStore';
+import { GameEngine } from '../services/GameEngine';
+import { ActivityService } from '../services/ActivityService';
+import {
+  createReplayLocationSource, prepareReplay, parseReplayTrace,
+} from '../services/ReplayLocationSource';
+import { closedLoopTrace, figureEightTrace, driveBySpikeTrace } from '../utils/replayTraces';
+
+jest.mock('../services/AuthService', () => ({
+  AuthService: {
+    getCurrentProfile: jest.fn(async () => null),
+  },
+}));
+
+jest.mock('../services/WakeLockService', () => ({
+  WakeLockService: {
+    request: jest.fn(async () => true),
+    release: jest.fn(async () => {}),
+  },
+}));
+
+jest.mock('../services/EventModeService', () => ({
+  EventModeService: {
+    clearCache: jest.fn(),
+  },
+}));
+
+const traceDuration = (trace: GPSPoint[]) => trace[trace.length - 1].timestamp - trace[0].timestamp;
+
+describe('ReplayLocationSource', () => {
+  describe('prepareReplay', () => {
+    const trace = closedLoopTrace();
+
+    it('should rebase timestamps and keep their spacing', () => {
+      const fixes = prepareReplay(trace, { seed: 1 }, 1_000_000);
+      expect(fixes).toHaveLength(trace.length);
+      expect(fixes[0].timestamp).toBe(1_000_000);
+      expect(fixes[5].timestamp - fixes[4].timestamp).toBe(trace[5].timestamp - trace[4].timestamp);
+      expect(fixes[3].lat).toBe(trace[3].lat);
+    });
+
+    it('should add repeatable noise for a given seed', () => {
+      const a = prepareReplay(trace, { noiseMeters: 5, seed: 42 });
+      const b = prepareReplay(trace, { noiseMeters: 5, seed: 42 });
+      expect(a).toEqual(b);
+      expect(a[10].lat).not.toBe(trace[10].lat);
+      // 5m of noise stays within a few tens of meters
+      expect(Math.abs(a[10].lat - trace[10].lat) * 111320).toBeLessThan(30);
+    });
+
+    it('should drop fixes in dropout windows and at the dropout rate', () => {
+      const windowed = prepareReplay(trace, { dropouts: [{ startMs: 20_000, endMs: 40_000 }], seed: 1 });
+      expect(windowed).toHaveLength(trace.length - 10);
+
+      const random = prepareReplay(trace, { dropoutRate: 0.5, seed: 7 });
+      expect(random.length).toBeGreaterThan(trace.length * 0.3);
+      expect(random.length).toBeLessThan(trace.length * 0.7);
+    });
+
+    it('should degrade reported accuracy in degraded windows', () => {
+      const fixes = prepareReplay(trace, { degraded: [{ startMs: 0, endMs: 10_000 }], degradedAccuracy: 40, seed: 3 });
+      expect(fixes[0].accuracy).toBe(40);
+      expect(fixes[4].accuracy).toBe(40);
+      expect(fixes[5].accuracy).toBe(5);
+    });
+  });
+
+  describe('parseReplayTrace', () => {
+    it('should read a JSON trace and space untimed fixes a second apart', () => {
+      const points = parseReplayTrace(JSON.stringify({ points: [{ lat: 1, lng: 2 }, { lat: 1.0001, lng: 2 }] }));
+      expect(points.map(p => p.timestamp)).toEqual([0, 1000]);
+      expect(points[0].accuracy).toBeNull();
+    });
+
+    it('should read a GPX trace', () => {
+      const gpx = `<?xml version="1.0"?><gpx><trk><trkseg>
+        <trkpt lat="37.7749" lon="-122.4194"><time>2026-01-01T10:00:00Z</time></trkpt>
+        <trkpt lat="37.7750" lon="-122.4194"><time>2026-01-01T10:00:05Z</time></trkpt>
+      </trkseg></trk></gpx>`;
+      const points = parseReplayTrace(gpx);
+      expect(points).toHaveLength(2);
+      expect(points[1].timestamp - points[0].timestamp).toBe(5000);
+    });
+
+    it('should reject anything else', () => {
+      expect(() => parseReplayTrace('{"nope": true}')).toThrow();
+    });
+  });
+
+  describe('playback', () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+      jest.setSystemTime(1_700_000_000_000);
+    });
+
+    afterEach(() => {
+      LocationService.stopAllTracking();
+      LocationService.setSource(null);
+      TrackingStore.reset();
+      jest.useRealTimers();
+    });
+
+    it('should deliver every fix at the playback speed and then complete', () => {
+      const trace = closedLoopTrace();
+      const delivered: GPSPoint[] = [];
+      const onComplete = jest.fn();
+      const source = createReplayLocationSource(trace, { speed: 10, seed: 1, onComplete });
+
+      source.start(point => delivered.push(point), jest.fn());
+      jest.advanceTimersByTime(traceDuration(trace) / 10 - 1000);
+      expect(onComplete).not.toHaveBeenCalled();
+
+      jest.advanceTimersByTime(1000);
+      expect(delivered).toHaveLength(trace.length);
+      expect(onComplete).toHaveBeenCalledTimes(1);
+    });
+
+    it('should clamp the speed and stop on demand', () => {
+      const trace = closedLoopTrace();
+      const delivered: GPSPoint[] = [];
+      const source = createReplayLocationSource(trace, { speed: 1000, seed: 1 });
+
+      source.start(point => delivered.push(point), jest.fn());
+      // 50x at most: a 2s fix interval takes 40ms
+      jest.advanceTimersByTime(100);
+      expect(delivered).toHaveLength(3);
+
+      source.stop();
+      jest.advanceTimersByTime(traceDuration(trace));
+      expect(delivered).toHaveLength(3);
+    });
+
+    const record = async (trace: GPSPoint[], type: 'WALK' | 'RUN', options = {}) => {
+      LocationService.setSource(createReplayLocationSource(trace, { speed: 20, seed: 11, ...options }));
+      await TrackingStore.start(type);
+      jest.advanceTimersByTime(traceDuration(trace) / 20 + 100);
+      return TrackingStore.stop();
+    };
+
+    it('should record a closed loop end to end and claim it', async () => {
+      const result = await record(closedLoopTrace(), 'RUN', { noiseMeters: 2 });
+
+      expect(GameEngine.checkLoopClosure(result.segments).isClosed).toBe(true);
+      const distance = ActivityService.calculateSegmentsDistance(result.segments);
+      expect(distance).toBeGreaterThan(850);
+      expect(distance).toBeLessThan(1050);
+      const territory = GameEngine.processTerritory(result.segments, 'test-user-id', 'replay-activity');
+      expect(territory).not.toBeNull();
+      // A 150m-radius circle is ~70,700 m²
+      expect(territory!.area).toBeGreaterThan(60000);
+      expect(territory!.area).toBeLessThan(80000);
+    });
+
+    it('should record a figure-eight as a closed loop', async () => {
+      const result = await record(figureEightTrace(), 'WALK');
+      expect(GameEngine.checkLoopClosure(result.segments).isClosed).toBe(true);
+    });
+
+    it('should reject the drive-by spike', async () => {
+      const result = await record(driveBySpikeTrace(), 'WALK');
+      // Nothing recorded strays from the straight line north
+      const maxOffset = Math.max(...result.path.map(p => Math.abs(p.lng + 122.4194) * 88000));
+      expect(maxOffset).toBeLessThan(20);
+      // Counting the spike would add ~600m
+      expect(ActivityService.calculateSegmentsDistance(result.segments)).toBeLessThan(560);
+      expect(GameEngine.checkLoopClosure(result.segments).isClosed).toBe(false);
+    });
+
+    it('should survive dropouts and degraded stretches', async () => {
+      const result = await record(closedLoopTrace(), 'RUN', {
+        dropouts: [{ startMs: 60_000, endMs: 80_000 }],
+        degraded: [{ startMs: 150_000, endMs: 170_000 }],
+        degradedAccuracy: 25,
+        dropoutRate: 0.1,
+      });
+      expect(GameEngine.checkLoopClosure(result.segments).isClosed).toBe(true);
+      expect(GameEngine.processTerritory(result.segments, 'test-user-id', 'replay-activity')).not.toBeNull();
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import { TeamService } from '../services/TeamService';
+import { supabase } from '../lib/supabase';
+
+const mockSupabase = supabase as any;
+
+describe('TeamService', () => {
+  afterEach(() => {
+    delete mockSupabase.rpc;
+  });
+
+  describe('joinTeam', () => {
+    it('should explain why a join was refused', async () => {
+      mockSupabase.rpc = jest.fn(async () => ({ data: null, error: { message: 'Team is full (50 members max)' } }));
+      await expect(TeamService.joinTeam('abcd1234')).rejects.toThrow('That team is full');
+
+      mockSupabase.rpc = jest.fn(async () => ({ data: null, error: { message: 'Invite code not found' } }));
+      await expect(TeamService.joinTeam('nope')).rejects.toThrow('No team has that invite code');
+
+      mockSupabase.rpc = jest.fn(async () => ({ data: null, error: { message: 'Already in a team: leave it first' } }));
+      await expect(TeamService.joinTeam('abcd1234')).rejects.toThrow('You are already in a team. Leave it first.');
+    });
+
+    it('should send the code trimmed', async () => {
+      mockSupabase.rpc = jest.fn(async () => ({ data: null, error: { message: 'Invite code not found' } }));
+      await expect(TeamService.joinTeam('  abcd1234 ')).rejects.toThrow();
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('join_team', { p_code: 'abcd1234' });
+    });
+  });
+
+  describe('createTeam', () => {
+    it('should not show unexpected server errors as they are', async () => {
+      mockSupabase.rpc = jest.fn(async () => ({ data: null, error: { message: 'permission denied for table teams' } }));
+      await expect(TeamService.createTeam('Night Runners', '#2563EB'))
+        .rejects.toThrow('Failed to create team. Please try again.');
+    });
+  });
+
+  describe('getLeaderboard', () => {
+    it('should map team leaderboard rows', async () => {
+      mockSupabase.rpc = jest.fn(async () => ({
+        data: [{
+          team_id: 'team-1',
+          name: 'Night Runners',
+          color: '#2563EB',
+          member_count: 12,
+          total_area: 48000.5,
+          territory_count: 30,
+        }],
+        error: null,
+      }));
+
+      const board = await TeamService.getLeaderboard('2026-01-01T00:00:00.000Z', 10);
+
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('get_team_leaderboard', {
+        p_since: '2026-01-01T00:00:00.000Z',
+        p_limit: 10,
+      });
+      expect(board).toEqual([{
+        teamId: 'team-1',
+        name: 'Night Runners',
+        color: '#2563EB',
+        memberCount: 12,
+        totalArea: 48000.5,
+        territoryCount: 30,
+      }]);
+    });
+
+    it('should return an empty board when the RPC fails', async () => {
+      mockSupabase.rpc = jest.fn(async () => ({ data: null, error: { message: 'boom' } }));
+      expect(await TeamService.getLeaderboard()).toEqual([]);
+    });
+  });
+});
@@ -1,5 +1,6 @@
 import { GameEngine } from '../services/GameEngine';
 import { Territory, ConquerResult } from '../lib/types';
+import { isMultiPolygon, toMultiPolygon } from '../utils/territoryGeometry';
 
 /**
  * Helper: create a Territory object from a polygon of [lng, lat] coords.
@@ -59,6 +60,43 @@ const makeSquare = (cLng: number, cLat: number, halfSize: number): [number, numb
   ];
 };
 
+/** Rectangle spanning [west, east] x [south, north], closed, [lng, lat]. */
+const makeRect = (west: number, south: number, east: number, north: number): [number, number][] => [
+  [west, south], [east, south], [east, north], [west, north], [west, south],
+];
+
+describe('Territory Conquering - GameEngine.forecastConquest', () => {
+  it('should forecast the same cuts resolveOverlaps makes', () => {
+    const ring = makeSquare(-122.42, 37.77, 0.001);
+    const partial = createTerritory('t-partial', 'user-A', makeSquare(-122.4185, 37.77, 0.001), { ownerName: 'alice' });
+    const inside = createTerritory('t-inside', 'user-C', makeSquare(-122.42, 37.77, 0.0002));
+    const own = createTerritory('t-own', 'user-B', makeSquare(-122.4195, 37.77, 0.001));
+
+    const forecast = GameEngine.forecastConquest(ring, 'user-B', [partial, inside, own]);
+    const actual = GameEngine.resolveOverlaps(createTerritory('new', 'user-B', ring), [partial, inside, own]);
+
+    expect(forecast.map(f => f.territoryId).sort()).toEqual(['t-inside', 't-partial']);
+    const partialForecast = forecast.find(f => f.territoryId === 't-partial')!;
+    expect(partialForecast.ownerName).toBe('alice');
+    expect(partialForecast.destroyed).toBe(false);
+    expect(partialForecast.overlapArea).toBeCloseTo(
+      actual.invasions.find(i => i.invadedTerritoryId === 't-partial')!.overlapArea
+    );
+    expect(forecast.find(f => f.territoryId === 't-inside')!.destroyed).toBe(true);
+  });
+
+  it('should forecast nothing away from other territories', () => {
+    const far = createTerritory('t-far', 'user-A', makeSquare(-122.40, 37.77, 0.001));
+    expect(GameEngine.forecastConquest(makeSquare(-122.42, 37.77, 0.001), 'user-B', [far])).toEqual([]);
+  });
+
+  it('should leave teammates out of the forecast', () => {
+    const teammate = createTerritory('t-mate', 'user-A', makeSquare(-122.4185, 37.77, 0.001), { teamId: 'team-1' });
+    const forecast = GameEngine.forecastConquest(makeSquare(-122.42, 37.77, 0.001), 'user-B', [teammate], 'team-1');
+    expect(forecast).toEqual([]);
+  });
+});
+
 describe('Territory Conquering - GameEngine.resolveOverlaps', () => {
 
   describe('No overlap scenarios', () => {
@@ -98,6 +136,34 @@ describe('Territory Conquering - GameEngine.resolveOverlaps', () => {
     });
   });
 
+  describe('Teams', () => {
+    it('should not invade a teammate\'s territory', () => {
+      const teammate = createTerritory('mate-1', 'user-A', makeSquare(-122.42, 37.77, 0.001), { teamId: 'team-1' });
+      const newTerritory = createTerritory('new-1', 'user-B', makeSquare(-122.4195, 37.77, 0.001), { teamId: 'team-1' });
+      const result = GameEngine.resolveOverlaps(newTerritory, [teammate]);
+
+      expect(result.invasions).toHaveLength(0);
+      expect(result.modifiedTerritories).toHaveLength(0);
+      expect(result.deletedTerritoryIds).toHaveLength(0);
+      expect(result.mergedTerritoryIds).toHaveLength(0);
+    });
+
+    it('should still invade other teams and players without one', () => {
+      const rival = createTerritory('rival-1', 'user-A', makeSquare(-122.4185, 37.77, 0.001), { teamId: 'team-2' });
+      const solo = createTerritory('solo-1', 'user-C', makeSquare(-122.4205, 37.77, 0.001));
+      const newTerritory = createTerritory('new-1', 'user-B', makeSquare(-122.42, 37.77, 0.001), { teamId: 'team-1' });
+      const result = GameEngine.resolveOverlaps(newTerritory, [rival, solo]);
+
+      expect(result.invasions.map(i => i.invadedTerritoryId).sort()).toEqual(['rival-1', 'solo-1']);
+    });
+
+    it('should not treat two players without a team as teammates', () => {
+      const existing = createTerritory('existing-1', 'user-A', makeSquare(-122.4195, 37.77, 0.001));
+      const newTerritory = createTerritory('new-1', 'user-B', makeSquare(-122.42, 37.77, 0.001));
+      expect(GameEngine.resolveOverlaps(newTerritory, [existing]).invasions).toHaveLength(1);
+    });
+  });
+
   describe('Partial overlap scenarios', () => {
     it('should shrink an existing territory when partially overlapped', () => {
       // Two squares offset so they partially overlap
@@ -357,3 +423,186 @@ describe('Territory Conquering - GameEngine.resolveOverlaps', () => {
     });
   });
 });
+
+describe('Territory decay - GameEngine.resolveOverlaps', () => {
+  const DAY = 24 * 60 * 60 * 1000;
+
+  it('should refresh an owned territory when the owner re-walks it', () => {
+    const monthAgo = Date.now() - 30 * DAY;
+    const existing = createTerritory('own-1', 'user-A', makeSquare(-122.42, 37.77, 0.001), {
+      lastDefendedAt: monthAgo,
+    });
+    const rewalk = createTerritory('new-1', 'user-A', makeSquare(-122.42001, 37.77, 0.001));
+
+    const result = GameEngine.resolveOverlaps(rewalk, [existing]);
+
+    expect(result.mergedTerritoryIds).toEqual(['own-1']);
+    expect(result.newTerritory.lastDefendedAt).toBe(rewalk.claimedAt);
+    expect(result.modifiedTerritories).toHaveLength(0);
+    expect(result.invasions).toHaveLength(0);
+  });
+
+  it('should not refresh an owned territory the new loop barely touches', () => {
+    const monthAgo = Date.now() - 30 * DAY;
+    const existing = createTerritory('own-1', 'user-A', makeSquare(-122.42, 37.77, 0.001), {
+      lastDefendedAt: monthAgo,
+    });
+    const neighbour = createTerritory('new-1', 'user-A', makeSquare(-122.4185, 37.77, 0.001));
+
+    const result = GameEngine.resolveOverlaps(neighbour, [existing]);
+    expect(result.mergedTerritoryIds).toEqual(['own-1']);
+    expect(result.newTerritory.lastDefendedAt).toBe(monthAgo);
+  });
+
+  it('should refresh a small old holding a much bigger loop takes in', () => {
+    const monthAgo = Date.now() - 30 * DAY;
+    const existing = createTerritory('own-1', 'user-A', makeSquare(-122.42, 37.77, 0.0005), {
+      lastDefendedAt: monthAgo,
+    });
+    const around = createTerritory('new-1', 'user-A', makeSquare(-122.42, 37.77, 0.003));
+
+    const result = GameEngine.resolveOverlaps(around, [existing]);
+    expect(result.mergedTerritoryIds).toEqual(['own-1']);
+    expect(result.newTerritory.lastDefendedAt).toBe(around.claimedAt);
+  });
+
+  it('should only shrink a fresh territory on partial overlap', () => {
+    const existing = createTerritory('existing-1', 'user-A', makeSquare(-122.42, 37.77, 0.002));
+    const invader = createTerritory('new-1', 'user-B', makeSquare(-122.419, 37.77, 0.002));
+
+    const result = GameEngine.resolveOverlaps(invader, [existing]);
+    expect(result.modifiedTerritories).toHaveLength(1);
+    expect(result.deletedTerritoryIds).toHaveLength(0);
+  });
+
+  it('should collapse a decayed territory on the same partial overlap', () => {
+    // Overlap covers ~75% of the existing territory; strength after 60 days is well below that
+    const existing = createTerritory('existing-1', 'user-A', makeSquare(-122.42, 37.77, 0.002), {
+      lastDefendedAt: Date.now() - 60 * DAY,
+    });
+    const invader = createTerritory('new-1', 'user-B', makeSquare(-122.419, 37.77, 0.002));
+
+    const result = GameEngine.resolveOverlaps(invader, [existing]);
+    expect(result.modifiedTerritories).toHaveLength(0);
+    expect(result.deletedTerritoryIds).toEqual(['existing-1']);
+    expect(result.invasions[0].territoryWasDestroyed).toBe(true);
+    expect(result.totalConqueredArea).toBeCloseTo(existing.area, 0);
+  });
+});
+
+describe('Split territories - GameEngine.resolveOverlaps', () => {
+  it('should keep both halves when an invasion cuts a territory in two', () => {
+    const existing = createTerritory('existing-1', 'user-A', makeSquare(-122.42, 37.77, 0.002));
+    const strip = createTerritory('new-1', 'user-B', makeRect(-122.4205, 37.765, -122.4195, 37.775));
+
+    const result = GameEngine.resolveOverlaps(strip, [existing]);
+
+    expect(result.modifiedTerritories).toHaveLength(1);
+    const modified = result.modifiedTerritories[0];
+    expect(isMultiPolygon(modified.polygon)).toBe(true);
+    expect(toMultiPolygon(modified.polygon)).toHaveLength(2);
+    expect(modified.area + result.totalConqueredArea).toBeCloseTo(existing.area, -1);
+    expect(result.invasions[0].territoryWasDestroyed).toBe(false);
+  });
+
+  it('should keep a hole when the invader claims land inside a territory', () => {
+    const existing = createTerritory('existing-1', 'user-A', makeSquare(-122.42, 37.77, 0.002));
+    const inner = createTerritory('new-1', 'user-B', makeSquare(-122.42, 37.77, 0.0005));
+
+    const result = GameEngine.resolveOverlaps(inner, [existing]);
+
+    const parts = toMultiPolygon(result.modifiedTerritories[0].polygon);
+    expect(parts).toHaveLength(1);
+    expect(parts[0]).toHaveLength(2); // outer ring + hole
+    expect(result.modifiedTerritories[0].area).toBeCloseTo(existing.area - inner.area, -1);
+  });
+
+  it('should drop fragments below the noise threshold', () => {
+    const existing = createTerritory('existing-1', 'user-A', makeSquare(-122.42, 37.77, 0.002));
+    // Leaves a ~1cm wide sliver along the western edge
+    const strip = createTerritory('new-1', 'user-B', makeRect(-122.4219999, 37.765, -122.4195, 37.775));
+
+    const result = GameEngine.resolveOverlaps(strip, [existing]);
+
+    const modified = result.modifiedTerritories[0];
+    expect(isMultiPolygon(modified.polygon)).toBe(false);
+    expect(toMultiPolygon(modified.polygon)).toHaveLength(1);
+  });
+
+  it('should invade a territory that is already split', () => {
+    const existing = createTerritory('existing-1', 'user-A', makeSquare(-122.42, 37.77, 0.002));
+    const strip = createTerritory('new-1', 'user-B', makeRect(-122.4205, 37.765, -122.4195, 37.775));
+    const split = GameEngine.resolveOverlaps(strip, [existing]).modifiedTerritories[0];
+
+    // Swallow the whole eastern half
+    const east = createTerritory('new-2', 'user-C', makeRect(-122.4197, 37.765, -122.41, 37.775));
+    const result = GameEngine.resolveOverlaps(east, [split]);
+
+    expect(result.modifiedTerritories).toHaveLength(1);
+    const remaining = result.modifiedTerritories[0];
+    expect(isMultiPolygon(remaining.polygon)).toBe(false);
+    expect(remaining.area).toBeLessThan(split.area / 2 + 1);
+  });
+});
+
+describe('Merging own territories - GameEngine.resolveOverlaps', () => {
+  it('should merge overlapping claims by the same owner into one territory', () => {
+    const existing = createTerritory('own-1', 'user-A', makeSquare(-122.42, 37.77, 0.001));
+    const extension = createTerritory('new-1', 'user-A', makeSquare(-122.419, 37.77, 0.001));
+
+    const result = GameEngine.resolveOverlaps(extension, [existing]);
+    const merged = result.newTerritory;
+
+    expect(result.mergedTerritoryIds).toEqual(['own-1']);
+    expect(merged.id).toBe('new-1');
+    expect(isMultiPolygon(merged.polygon)).toBe(false);
+    // Union, not sum: the shared half is counted once
+    expect(merged.area).toBeLessThan(existing.area + extension.area - 1);
+    expect(merged.area).toBeCloseTo(existing.area * 1.5, -1);
+    expect(merged.history.map(h => h.activityId)).toEqual(['activity-own-1', 'activity-new-1']);
+  });
+
+  it('should merge territories that only touch along an edge', () => {
+    const existing = createTerritory('own-1', 'user-A', makeSquare(-122.42, 37.77, 0.001));
+    const adjacent = createTerritory('new-1', 'user-A', makeSquare(-122.418, 37.77, 0.001));
+
+    const result = GameEngine.resolveOverlaps(adjacent, [existing]);
+
+    expect(result.mergedTerritoryIds).toEqual(['own-1']);
+    expect(result.newTerritory.area).toBeCloseTo(existing.area + adjacent.area, -1);
+  });
+
+  it('should bridge several owned territories into one', () => {
+    const west = createTerritory('own-w', 'user-A', makeSquare(-122.423, 37.77, 0.001));
+    const east = createTerritory('own-e', 'user-A', makeSquare(-122.417, 37.77, 0.001));
+    const far = createTerritory('own-far', 'user-A', makeSquare(-122.45, 37.80, 0.001));
+    const bridge = createTerritory('new-1', 'user-A', makeSquare(-122.42, 37.77, 0.0025));
+
+    const result = GameEngine.resolveOverlaps(bridge, [west, east, far]);
+
+    expect(result.mergedTerritoryIds.sort()).toEqual(['own-e', 'own-w']);
+    expect(toMultiPolygon(result.newTerritory.polygon)).toHaveLength(1);
+  });
+
+  it('should leave other owners and the new claim alone when nothing touches', () => {
+    const other = createTerritory('other-1', 'user-B', makeSquare(-122.45, 37.80, 0.001));
+    const claim = createTerritory('new-1', 'user-A', makeSquare(-122.42, 37.77, 0.001));
+
+    const result = GameEngine.resolveOverlaps(claim, [other]);
+    expect(result.newTerritory).toBe(claim);
+    expect(result.mergedTerritoryIds).toEqual([]);
+  });
+
+  it('should conquer with the walked loop before merging', () => {
+    const own = createTerritory('own-1', 'user-A', makeSquare(-122.42, 37.77, 0.001));
+    const enemy = createTerritory('enemy-1', 'user-B', makeSquare(-122.4175, 37.77, 0.001));
+    // Touches own territory on the west and bites into the enemy's on the east
+    const claim = createTerritory('new-1', 'user-A', makeRect(-122.419, 37.769, -122.418, 37.771));
+
+    const result = GameEngine.resolveOverlaps(claim, [own, enemy]);
+
+    expect(result.mergedTerritoryIds).toEqual(['own-1']);
+    expect(result.modifiedTerritories.map(t => t.id)).toEqual(['enemy-1']);
+    expect(result.invasions).toHaveLength(1);
+  });
+});
@@ -0,0 +1,97 @@
+import { createTerritoryPreview } from '../services/TerritoryPreview';
+import { GameEngine } from '../services/GameEngine';
+import { GPSPoint, Territory } from '../lib/types';
+
+// ~150m-radius circle around the origin, one fix every `stepDeg` radians
+const circlePath = (fraction: number, stepDeg: number = 2): GPSPoint[] => {
+  const points: GPSPoint[] = [];
+  for (let deg = 0; deg <= 360 * fraction; deg += stepDeg) {
+    const angle = (deg * Math.PI) / 180;
+    points.push({
+      lat: 37.7749 + (150 * Math.sin(angle)) / 111320,
+      lng: -122.4194 + (150 * (1 - Math.cos(angle))) / 88000,
+      timestamp: deg * 1000,
+      speed: 3,
+      accuracy: 5,
+      altitude: 0,
+    });
+  }
+  return points;
+};
+
+const square = (id: string, ownerId: string, cLng: number, cLat: number, half: number): Territory => ({
+  id,
+  name: '',
+  ownerId,
+  activityId: `activity-${id}`,
+  claimedAt: Date.now(),
+  area: Math.pow(half * 2 * 100000, 2),
+  perimeter: 0,
+  center: { lat: cLat, lng: cLng },
+  polygon: [
+    [cLng - half, cLat - half], [cLng + half, cLat - half],
+    [cLng + half, cLat + half], [cLng - half, cLat + half],
+    [cLng - half, cLat - half],
+  ],
+  history: [],
+});
+
+describe('TerritoryPreview', () => {
+  it('should preview the loop closed back to the start', () => {
+    const preview = createTerritoryPreview({ ownerId: 'me' });
+    const current = preview.update(circlePath(0.75), 0);
+    expect(current).not.toBeNull();
+    // Three quarters of a circle closed with a chord: ~3/4 of the disc plus a triangle
+    expect(current!.area).toBeGreaterThan(50000);
+    expect(current!.area).toBeLessThan(70000);
+  });
+
+  it('should throttle recomputes and only read new points', () => {
+    const spy = jest.spyOn(GameEngine, 'previewTerritory');
+    const preview = createTerritoryPreview({ ownerId: 'me', intervalMs: 2000 });
+    const path = circlePath(1);
+
+    preview.update(path.slice(0, 100), 0);
+    preview.update(path.slice(0, 120), 1000);
+    expect(spy).toHaveBeenCalledTimes(1);
+
+    const later = preview.update(path.slice(0, 120), 2500);
+    expect(spy).toHaveBeenCalledTimes(2);
+    // Nothing new: no recompute, same preview back
+    expect(preview.update(path.slice(0, 120), 4000)).toBe(later);
+    expect(spy).toHaveBeenCalledTimes(2);
+    spy.mockRestore();
+  });
+
+  it('should keep the vertex count bounded on long paths', () => {
+    const preview = createTerritoryPreview({ ownerId: 'me', maxVertices: 50 });
+    preview.update(circlePath(1, 0.25), 0);
+    expect(preview.vertexCount).toBeLessThanOrEqual(50);
+    expect(preview.current!.area).toBeGreaterThan(60000);
+  });
+
+  it('should forecast only against nearby territories of other players', () => {
+    const forecastSpy = jest.spyOn(GameEngine, 'forecastConquest');
+    const preview = createTerritoryPreview({ ownerId: 'me' });
+    // One rival inside the circle, one far away, one of my own
+    preview.setTerritories([
+      square('rival', 'them', -122.4177, 37.7749, 0.0003),
+      square('far', 'them', -122.30, 37.80, 0.001),
+      square('mine', 'me', -122.4177, 37.7749, 0.0005),
+    ]);
+
+    const current = preview.update(circlePath(1), 0)!;
+    expect(current.forecast.map(f => f.territoryId)).toEqual(['rival']);
+    expect(current.forecast[0].destroyed).toBe(true);
+    expect(current.forecastArea).toBeGreaterThan(0);
+    expect(forecastSpy.mock.calls[0][2].map(t => t.id)).toEqual(['rival']);
+    forecastSpy.mockRestore();
+  });
+
+  it('should start over when the path is reset', () => {
+    const preview = createTerritoryPreview({ ownerId: 'me' });
+    preview.update(circlePath(1), 0);
+    expect(preview.update([], 5000)).toBeNull();
+    expect(preview.vertexCount).toBe(0);
+  });
+});
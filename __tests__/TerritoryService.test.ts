@@ -1,7 +1,9 @@
 import { TerritoryService } from '../services/TerritoryService';
-import { Territory, TerritoryInvasion } from '../lib/types';
+import { Territory, TerritoryInvasion, GPSPoint } from '../lib/types';
 import { supabase } from '../lib/supabase';
 import { db } from '../lib/db';
+import { PrivacyZoneService } from '../services/PrivacyZoneService';
+import { EventModeService } from '../services/EventModeService';
 
 // Get the mocked supabase
 const mockSupabase = supabase as any;
@@ -51,6 +53,23 @@ const createTerritory = (
   };
 };
 
+/**
+ * Helper: a territory as the server returns it
+ */
+const toCloudRow = (t: Territory) => ({
+  id: t.id,
+  name: t.name || null,
+  owner_id: t.ownerId,
+  activity_id: t.activityId,
+  claimed_at: new Date(t.claimedAt).toISOString(),
+  area: t.area,
+  perimeter: t.perimeter,
+  center: t.center,
+  polygon: t.polygon,
+  history: t.history,
+  last_defended_at: new Date(t.lastDefendedAt ?? t.claimedAt).toISOString(),
+});
+
 describe('TerritoryService', () => {
   beforeEach(async () => {
     // Clear local DB
@@ -74,8 +93,9 @@ describe('TerritoryService', () => {
       expect(mockSupabase.from).toHaveBeenCalledWith('territories');
     });
 
-    it('should include history in cloud upsert', async () => {
+    it('should only send the name to the cloud', async () => {
       const territory = createTerritory('t2', 'user-A');
+      territory.name = 'Home Turf';
       territory.history = [
         { claimedBy: 'user-A', claimedAt: Date.now(), activityId: 'act-1' },
         { previousOwnerId: 'user-A', claimedBy: 'user-B', claimedAt: Date.now(), activityId: 'act-2' },
@@ -83,9 +103,10 @@ describe('TerritoryService', () => {
 
       await TerritoryService.saveTerritory(territory);
 
-      // The upsert should have been called with history
-      const fromCall = mockSupabase.from.mock.results[0];
-      expect(fromCall).toBeDefined();
+      // Territories are created by claim_territory; only the name is the owner's to change
+      const query = mockSupabase.from.mock.results[0].value;
+      expect(query.update).toHaveBeenCalledWith({ name: 'Home Turf' });
+      expect(query.upsert).not.toHaveBeenCalled();
     });
 
     it('should reject invalid territory', async () => {
@@ -96,15 +117,44 @@ describe('TerritoryService', () => {
   });
 
   describe('saveTerritoryWithConquering', () => {
-    it('should save without RPC when no overlap exists', async () => {
+    const track: GPSPoint[][] = [[{ lat: 37.77, lng: -122.42, timestamp: 0, speed: null, accuracy: 5, altitude: null }]];
+
+    /** claim_territory's response for an accepted claim */
+    const accepted = (overrides: Record<string, any> = {}) => ({
+      success: true,
+      modified_territories: [],
+      deleted_territory_ids: [],
+      merged_territory_ids: [],
+      invasions: [],
+      total_conquered_area: 0,
+      ...overrides,
+    });
+
+    afterEach(() => {
+      delete mockSupabase.rpc;
+    });
+
+    it('should claim on the server from the activity', async () => {
       const newTerritory = createTerritory('new-1', 'user-B', -122.42, 37.77, 0.001);
       const existing = createTerritory('existing-1', 'user-A', -122.45, 37.80, 0.001); // far away
 
+      mockSupabase.rpc = jest.fn(async () => ({
+        data: accepted({ territory: toCloudRow(newTerritory) }),
+        error: null,
+      }));
+
       const result = await TerritoryService.saveTerritoryWithConquering(
-        newTerritory, [existing], 'UserB'
+        newTerritory, [existing], track, 'UserB'
       );
 
-      expect(result.newTerritory).toBe(newTerritory);
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('claim_territory', {
+        p_territory_id: 'new-1',
+        p_activity_id: 'activity-new-1',
+        p_owner_username: 'UserB',
+        p_name: null,
+      });
+      expect(result.newTerritory.id).toBe('new-1');
+      expect(result.newTerritory.ownerName).toBe(newTerritory.ownerName);
       expect(result.modifiedTerritories).toHaveLength(0);
       expect(result.deletedTerritoryIds).toHaveLength(0);
       expect(result.invasions).toHaveLength(0);
@@ -115,64 +165,89 @@ describe('TerritoryService', () => {
       expect(local).toBeDefined();
     });
 
-    it('should handle conquering and update local DB', async () => {
+    it('should apply the server result for an invasion', async () => {
       // Pre-populate existing territory locally
       const existing = createTerritory('existing-1', 'user-A', -122.42, 37.77, 0.002);
       await db.territories.put(existing);
 
       // New overlapping territory
       const newTerritory = createTerritory('new-1', 'user-B', -122.419, 37.77, 0.002);
-
-      // Mock the RPC call
-      mockSupabase.rpc = jest.fn(async () => ({ data: { success: true }, error: null }));
+      const shrunk = createTerritory('existing-1', 'user-A', -122.4215, 37.77, 0.0015);
+
+      mockSupabase.rpc = jest.fn(async () => ({
+        data: accepted({
+          territory: toCloudRow(newTerritory),
+          modified_territories: [toCloudRow(shrunk)],
+          invasions: [{
+            id: 'inv-1',
+            invaded_user_id: 'user-A',
+            invader_user_id: 'user-B',
+            invader_username: 'UserB',
+            invaded_territory_id: 'existing-1',
+            new_territory_id: 'new-1',
+            overlap_area: 1234,
+            territory_was_destroyed: false,
+            seen: false,
+            created_at: new Date().toISOString(),
+          }],
+          total_conquered_area: 1234,
+        }),
+        error: null,
+      }));
 
       const result = await TerritoryService.saveTerritoryWithConquering(
-        newTerritory, [existing], 'UserB'
+        newTerritory, [existing], track, 'UserB'
       );
 
-      expect(result.totalConqueredArea).toBeGreaterThan(0);
+      expect(result.totalConqueredArea).toBe(1234);
+      expect(result.invasions).toHaveLength(1);
+      expect(result.invasions[0].id).toBe('inv-1');
+      expect(result.modifiedTerritories[0].ownerName).toBe(existing.ownerName);
 
-      // New territory should be saved locally
-      const localNew = await db.territories.get('new-1');
-      expect(localNew).toBeDefined();
-
-      // If territory was modified (not deleted), check local update
-      if (result.modifiedTerritories.length > 0) {
-        const localMod = await db.territories.get('existing-1');
-        expect(localMod).toBeDefined();
-        expect(localMod!.area).toBeLessThan(existing.area);
-      }
-
-      // If territory was deleted, check local deletion
-      if (result.deletedTerritoryIds.includes('existing-1')) {
-        const localDel = await db.territories.get('existing-1');
-        expect(localDel).toBeUndefined();
-      }
-
-      // RPC should have been called
-      expect(mockSupabase.rpc).toHaveBeenCalledWith('conquer_territory', expect.objectContaining({
-        p_new_territory_id: 'new-1',
-        p_owner_id: 'user-B',
-      }));
+      // Local state matches the server, not the preview
+      expect(await db.territories.get('new-1')).toBeDefined();
+      const localMod = await db.territories.get('existing-1');
+      expect(localMod!.area).toBeCloseTo(shrunk.area, 6);
     });
 
-    it('should fall back to saveTerritory when RPC fails', async () => {
+    it('should roll back the preview when the RPC fails', async () => {
       const existing = createTerritory('existing-1', 'user-A', -122.42, 37.77, 0.002);
+      await db.territories.put(existing);
       const newTerritory = createTerritory('new-1', 'user-B', -122.419, 37.77, 0.002);
 
       // Mock RPC to fail
       mockSupabase.rpc = jest.fn(async () => ({ data: null, error: { message: 'RPC failed' } }));
 
       const result = await TerritoryService.saveTerritoryWithConquering(
-        newTerritory, [existing], 'UserB'
+        newTerritory, [existing], track, 'UserB'
       );
 
-      // Should still return the conquer result (local changes applied)
-      expect(result.newTerritory).toBe(newTerritory);
+      expect(result.rejectedReason).toBe('CLAIM_FAILED');
+      expect(result.totalConqueredArea).toBe(0);
+      expect(await db.territories.get('new-1')).toBeUndefined();
+      expect(await db.territories.get('existing-1')).toEqual(existing);
+    });
 
-      // New territory should still be saved locally
-      const local = await db.territories.get('new-1');
-      expect(local).toBeDefined();
+    it('should claim through the server without conquering in event mode', async () => {
+      const existing = createTerritory('existing-1', 'user-A', -122.42, 37.77, 0.002);
+      await db.territories.put(existing);
+      const newTerritory = createTerritory('new-1', 'user-B', -122.419, 37.77, 0.002);
+      jest.spyOn(EventModeService, 'isUserInEventMode').mockResolvedValueOnce(true);
+      mockSupabase.rpc = jest.fn(async () => ({
+        data: accepted({ territory: toCloudRow(newTerritory) }),
+        error: null,
+      }));
+
+      const result = await TerritoryService.saveTerritoryWithConquering(
+        newTerritory, [existing], track, 'UserB'
+      );
+
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('claim_territory', expect.anything());
+      expect(mockSupabase.from).not.toHaveBeenCalledWith('territories');
+      expect(result.rejectedReason).toBeUndefined();
+      expect(result.totalConqueredArea).toBe(0);
+      expect(await db.territories.get('new-1')).toBeDefined();
+      expect(await db.territories.get('existing-1')).toEqual(existing);
     });
 
     it('should handle full territory consumption correctly', async () => {
@@ -182,10 +257,17 @@ describe('TerritoryService', () => {
 
       const large = createTerritory('new-1', 'user-B', -122.42, 37.77, 0.003);
 
-      mockSupabase.rpc = jest.fn(async () => ({ data: { success: true }, error: null }));
+      mockSupabase.rpc = jest.fn(async () => ({
+        data: accepted({
+          territory: toCloudRow(large),
+          deleted_territory_ids: ['small-1'],
+          total_conquered_area: small.area,
+        }),
+        error: null,
+      }));
 
       const result = await TerritoryService.saveTerritoryWithConquering(
-        large, [small], 'UserB'
+        large, [small], track, 'UserB'
       );
 
       expect(result.deletedTerritoryIds).toContain('small-1');
@@ -194,6 +276,159 @@ describe('TerritoryService', () => {
       const localSmall = await db.territories.get('small-1');
       expect(localSmall).toBeUndefined();
     });
+
+    it('should restore territories the preview changed but the server did not', async () => {
+      const small = createTerritory('small-1', 'user-A', -122.42, 37.77, 0.0005);
+      await db.territories.put(small);
+
+      const large = createTerritory('new-1', 'user-B', -122.42, 37.77, 0.003);
+
+      // e.g. the owner re-walked it on another device before this claim arrived
+      mockSupabase.rpc = jest.fn(async () => ({
+        data: accepted({ territory: toCloudRow(large) }),
+        error: null,
+      }));
+
+      const result = await TerritoryService.saveTerritoryWithConquering(
+        large, [small], track, 'UserB'
+      );
+
+      expect(result.deletedTerritoryIds).toHaveLength(0);
+      expect(result.invasions).toHaveLength(0);
+      expect(await db.territories.get('small-1')).toEqual(small);
+    });
+
+    it('should roll back the preview when the server rejects the claim', async () => {
+      const small = createTerritory('small-1', 'user-A', -122.42, 37.77, 0.0005);
+      await db.territories.put(small);
+
+      const large = createTerritory('new-1', 'user-B', -122.42, 37.77, 0.003);
+
+      mockSupabase.rpc = jest.fn(async () => ({
+        data: { success: false, reason: 'LOOP_NOT_CLOSED' },
+        error: null,
+      }));
+
+      const result = await TerritoryService.saveTerritoryWithConquering(
+        large, [small], track, 'UserB'
+      );
+
+      expect(result.rejectedReason).toBe('LOOP_NOT_CLOSED');
+      expect(result.claimViolation).toBeUndefined();
+      expect(result.invasions).toHaveLength(0);
+      expect(await db.territories.get('new-1')).toBeUndefined();
+      expect(await db.territories.get('small-1')).toEqual(small);
+    });
+
+    it('should report the claim rule the server says the loop breaks', async () => {
+      const claim = createTerritory('new-1', 'user-B', -122.42, 37.77, 0.003);
+
+      mockSupabase.rpc = jest.fn(async () => ({
+        data: { success: false, reason: 'TOO_NARROW', value: 12.5, limit: 20 },
+        error: null,
+      }));
+
+      const result = await TerritoryService.saveTerritoryWithConquering(claim, [], track, 'UserB');
+
+      expect(result.rejectedReason).toBe('TOO_NARROW');
+      expect(result.claimViolation).toEqual({ reason: 'TOO_NARROW', value: 12.5, limit: 20 });
+      expect(await db.territories.get('new-1')).toBeUndefined();
+    });
+
+    it('should replace territories the server merged into the claim', async () => {
+      const owned = createTerritory('own-1', 'user-A', -122.42, 37.77, 0.001);
+      owned.lastDefendedAt = Date.now() - 30 * 24 * 60 * 60 * 1000;
+      await db.territories.put(owned);
+
+      const rewalk = createTerritory('new-1', 'user-A', -122.42001, 37.77, 0.001);
+      const merged = createTerritory('new-1', 'user-A', -122.420005, 37.77, 0.00101);
+
+      mockSupabase.rpc = jest.fn(async () => ({
+        data: accepted({
+          territory: toCloudRow(merged),
+          merged_territory_ids: ['own-1'],
+        }),
+        error: null,
+      }));
+
+      const result = await TerritoryService.saveTerritoryWithConquering(
+        rewalk, [owned], track, 'UserA'
+      );
+
+      expect(result.mergedTerritoryIds).toEqual(['own-1']);
+      expect(await db.territories.get('own-1')).toBeUndefined();
+      expect((await db.territories.get('new-1'))!.area).toBeCloseTo(merged.area, 6);
+    });
+
+    it('should hold a flagged activity\'s claim for review instead of conquering', async () => {
+      const small = createTerritory('small-1', 'user-A', -122.42, 37.77, 0.0005);
+      await db.territories.put(small);
+      const large = createTerritory('new-1', 'user-B', -122.42, 37.77, 0.003);
+      mockSupabase.rpc = jest.fn();
+
+      const suspicion = {
+        score: 0.9,
+        reasons: [{ code: 'mock_location' as const, weight: 0.9, detail: '40 of 40 fixes came from a mock location provider' }],
+        flagged: true,
+      };
+      const result = await TerritoryService.saveTerritoryWithConquering(
+        large, [small], track, 'UserB', suspicion
+      );
+
+      expect(result.rejectedReason).toBe('UNDER_REVIEW');
+      expect(result.totalConqueredArea).toBe(0);
+      expect(mockSupabase.rpc).not.toHaveBeenCalled();
+      expect(await db.territories.get('new-1')).toBeUndefined();
+      expect(await db.territories.get('small-1')).toEqual(small);
+
+      expect(mockSupabase.from).toHaveBeenCalledWith('territory_reviews');
+      const insert = mockSupabase.from.mock.results
+        .map((r: any) => r.value.insert)
+        .find((fn: jest.Mock) => fn.mock.calls.length > 0);
+      expect(insert.mock.calls[0][0]).toEqual(expect.objectContaining({
+        user_id: 'test-user-id',
+        activity_id: 'activity-new-1',
+        territory_id: 'new-1',
+        owner_username: 'UserB',
+        track,
+        suspicion_score: 0.9,
+        suspicion_reasons: suspicion.reasons,
+      }));
+    });
+
+    it('should claim as usual when the activity is not flagged', async () => {
+      const newTerritory = createTerritory('new-1', 'user-B', -122.42, 37.77, 0.001);
+      mockSupabase.rpc = jest.fn(async () => ({
+        data: accepted({ territory: toCloudRow(newTerritory) }),
+        error: null,
+      }));
+
+      const result = await TerritoryService.saveTerritoryWithConquering(
+        newTerritory, [], track, 'UserB', { score: 0.35, reasons: [], flagged: false }
+      );
+
+      expect(result.rejectedReason).toBeUndefined();
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('claim_territory', expect.anything());
+      expect(mockSupabase.from).not.toHaveBeenCalledWith('territory_reviews');
+    });
+
+    it('should not claim a loop that reaches into a privacy zone', async () => {
+      const small = createTerritory('small-1', 'user-A', -122.42, 37.77, 0.0005);
+      await db.territories.put(small);
+      const newTerritory = createTerritory('new-1', 'user-B', -122.42, 37.77, 0.001);
+      jest.spyOn(PrivacyZoneService, 'getZones').mockResolvedValueOnce([
+        { id: 'zone-1', userId: 'test-user-id', center: { lat: 37.7712, lng: -122.42 }, radius: 200 },
+      ]);
+      mockSupabase.rpc = jest.fn();
+
+      const result = await TerritoryService.saveTerritoryWithConquering(newTerritory, [small], track, 'UserB');
+
+      expect(result.rejectedReason).toBe('PRIVACY_ZONE');
+      expect(result.totalConqueredArea).toBe(0);
+      expect(mockSupabase.rpc).not.toHaveBeenCalled();
+      expect(await db.territories.get('new-1')).toBeUndefined();
+      expect(await db.territories.get('small-1')).toEqual(small);
+    });
   });
 
   describe('getUnseenInvasions', () => {
@@ -284,6 +519,55 @@ describe('TerritoryService', () => {
     });
   });
 
+  describe('getTerritoryConquests', () => {
+    afterEach(() => {
+      delete mockSupabase.rpc;
+    });
+
+    it('maps the per-user totals from the server', async () => {
+      mockSupabase.rpc = jest.fn(async () => ({
+        data: [{
+          user_id: 'user-A',
+          username: 'PlayerA',
+          area: 1200,
+          invasion_count: '3',
+          destroyed_count: '1',
+          last_taken_at: '2026-02-01T10:00:00Z',
+        }],
+        error: null,
+      }));
+
+      const result = await TerritoryService.getTerritoryConquests('terr-1');
+
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('get_territory_conquests', { p_territory_id: 'terr-1' });
+      expect(result).toEqual([{
+        userId: 'user-A',
+        username: 'PlayerA',
+        area: 1200,
+        invasionCount: 3,
+        destroyedCount: 1,
+        lastTakenAt: new Date('2026-02-01T10:00:00Z').getTime(),
+      }]);
+    });
+
+    it('returns nothing when the server errors', async () => {
+      mockSupabase.rpc = jest.fn(async () => ({ data: null, error: { message: 'RPC failed' } }));
+      expect(await TerritoryService.getTerritoryConquests('terr-1')).toEqual([]);
+    });
+  });
+
+  describe('getUsernames', () => {
+    it('falls back to a short name for users without a username', async () => {
+      const mockIn = jest.fn(() => ({ data: [{ id: 'user-A', username: 'PlayerA' }], error: null }));
+      mockSupabase.from.mockReturnValueOnce({ select: jest.fn(() => ({ in: mockIn })) });
+
+      const names = await TerritoryService.getUsernames(['user-A', 'user-B-123456', 'user-A']);
+
+      expect(mockIn).toHaveBeenCalledWith('id', ['user-A', 'user-B-123456']);
+      expect(names).toEqual({ 'user-A': 'PlayerA', 'user-B-123456': 'User user-B' });
+    });
+  });
+
   describe('mapCloudTerritory with history', () => {
     it('should parse history from cloud data', async () => {
       // We test this indirectly by saving a territory with history and re-fetching
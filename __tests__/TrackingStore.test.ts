@@ -0,0 +1,826 @@
+import { GPSPoint } from '../lib/types';
+import { TrackingStore, TrackingEvent } from '../services/TrackingStore';
+import { LocationService } from '../services/LocationService';
+import { samplingFor, TRACKING_PROFILES } from '../utils/trackingProfiles';
+import AsyncStorage from './__mocks__/async-storage';
+
+let emitPoint: ((point: GPSPoint) => void) | null = null;
+// Stands in for the durable buffer the background location task writes to
+let backgroundBuffer: GPSPoint[] = [];
+
+jest.mock('../services/LocationService', () => ({
+  LocationService: {
+    startTracking: jest.fn(async (onLocation: (point: GPSPoint) => void) => {
+      emitPoint = onLocation;
+      return jest.fn(() => { emitPoint = null; });
+    }),
+    drainBackgroundPoints: jest.fn(async () => {
+      const points = [...backgroundBuffer].sort((a, b) => a.timestamp - b.timestamp);
+      backgroundBuffer = [];
+      return points;
+    }),
+    clearBackgroundPoints: jest.fn(async () => { backgroundBuffer = []; }),
+    setSampling: jest.fn(async () => {}),
+  },
+}));
+
+jest.mock('../services/WakeLockService', () => ({
+  WakeLockService: {
+    request: jest.fn(async () => true),
+    release: jest.fn(async () => {}),
+  },
+}));
+
+jest.mock('../services/EventModeService', () => ({
+  EventModeService: {
+    clearCache: jest.fn(),
+  },
+}));
+
+describe('TrackingStore', () => {
+  let now = 1_700_000_000_000;
+  let dateSpy: jest.SpyInstance;
+
+  type Deliver = (point: GPSPoint) => void;
+  const live: Deliver = point => emitPoint?.(point);
+  // The JS context is suspended: only the background task sees the fix
+  const suspended: Deliver = point => { backgroundBuffer.push(point); };
+
+  // Walk north ~11m every 5s (≈2.2 m/s) — comfortably inside WALK limits
+  const walk = (count: number, startLat: number, intervalMs = 5000, deliver: Deliver = live) => {
+    for (let i = 0; i < count; i++) {
+      now += intervalMs;
+      deliver({
+        lat: startLat + i * 0.0001,
+        lng: -122.4194,
+        timestamp: now,
+        speed: 1.5,
+        accuracy: 5,
+        altitude: 0,
+      });
+    }
+  };
+
+  // Stand still at one spot, one fix per second
+  const standStill = (seconds: number, lat: number, deliver: Deliver = live) => {
+    for (let i = 0; i < seconds; i++) {
+      now += 1000;
+      deliver({
+        lat,
+        lng: -122.4194,
+        timestamp: now,
+        speed: 0,
+        accuracy: 5,
+        altitude: 0,
+      });
+    }
+  };
+
+  beforeEach(() => {
+    dateSpy = jest.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(async () => {
+    backgroundBuffer = [];
+    TrackingStore.reset();
+    await TrackingStore.configureAutoPause({ enabled: true, delayMs: 10000 });
+    dateSpy.mockRestore();
+  });
+
+  describe('pause/resume', () => {
+    it('should start with a single empty segment', async () => {
+      await TrackingStore.start('WALK');
+      expect(TrackingStore.isTracking).toBe(true);
+      expect(TrackingStore.isPaused).toBe(false);
+      expect(TrackingStore.segments).toEqual([[]]);
+    });
+
+    it('should ignore points while paused', async () => {
+      await TrackingStore.start('WALK');
+      walk(5, 37.7749);
+      const recorded = TrackingStore.path.length;
+
+      TrackingStore.pause();
+      walk(5, 37.7755);
+
+      expect(TrackingStore.isPaused).toBe(true);
+      expect(TrackingStore.path.length).toBe(recorded);
+    });
+
+    it('should open a new segment on resume', async () => {
+      await TrackingStore.start('WALK');
+      walk(5, 37.7749);
+      TrackingStore.pause();
+      TrackingStore.resume();
+      walk(5, 37.7760);
+
+      const result = TrackingStore.stop();
+      expect(result.segments.length).toBe(2);
+      expect(result.path.length).toBe(result.segments[0].length + result.segments[1].length);
+    });
+
+    it('should not bridge the pause gap in running distance', async () => {
+      await TrackingStore.start('WALK');
+      walk(5, 37.7749);
+      const beforePause = TrackingStore.runningDistance;
+
+      TrackingStore.pause();
+      now += 60_000;
+      TrackingStore.resume();
+      // First point after resume is ~100m further north
+      walk(1, 37.7763);
+
+      expect(TrackingStore.runningDistance).toBe(beforePause);
+    });
+
+    it('should exclude paused time from moving duration', async () => {
+      await TrackingStore.start('WALK');
+      now += 30_000;
+      TrackingStore.pause();
+      now += 120_000;
+      expect(TrackingStore.pausedDuration).toBe(120_000);
+      TrackingStore.resume();
+      now += 10_000;
+
+      expect(TrackingStore.elapsedDuration).toBe(160_000);
+      expect(TrackingStore.movingDuration).toBe(40_000);
+
+      const result = TrackingStore.stop();
+      expect(result.pausedDuration).toBe(120_000);
+    });
+
+    it('should report zero rolling speed while paused', async () => {
+      await TrackingStore.start('WALK');
+      walk(5, 37.7749);
+      TrackingStore.pause();
+      expect(TrackingStore.rollingSpeed).toBe(0);
+    });
+
+    it('should not leave empty segments after repeated pauses', async () => {
+      await TrackingStore.start('WALK');
+      walk(3, 37.7749);
+      TrackingStore.pause();
+      TrackingStore.resume();
+      TrackingStore.pause();
+      TrackingStore.resume();
+      expect(TrackingStore.segments.length).toBe(2);
+      expect(TrackingStore.stop().segments.length).toBe(1);
+    });
+
+    it('should be a no-op when not tracking', () => {
+      TrackingStore.pause();
+      expect(TrackingStore.isPaused).toBe(false);
+    });
+  });
+
+  describe('auto-pause', () => {
+    it('should auto-pause after the configured still period', async () => {
+      const events: TrackingEvent[] = [];
+      const unsubscribe = TrackingStore.onEvent(e => events.push(e));
+      await TrackingStore.start('WALK');
+      walk(5, 37.7749);
+      standStill(15, 37.7753);
+      unsubscribe();
+
+      expect(TrackingStore.isPaused).toBe(true);
+      expect(TrackingStore.pauseReason).toBe('auto');
+      expect(events.map(e => e.type)).toEqual(['autoPause']);
+    });
+
+    it('should auto-resume into a new segment once moving again', async () => {
+      const events: TrackingEvent[] = [];
+      const unsubscribe = TrackingStore.onEvent(e => events.push(e));
+      await TrackingStore.start('WALK');
+      walk(5, 37.7749);
+      standStill(15, 37.7753);
+      walk(5, 37.7754);
+      unsubscribe();
+
+      expect(TrackingStore.isPaused).toBe(false);
+      expect(events.map(e => e.type)).toEqual(['autoPause', 'autoResume']);
+      expect(TrackingStore.segments.length).toBe(2);
+      expect(TrackingStore.segments[1].length).toBeGreaterThan(0);
+    });
+
+    it('should count the still period as paused time', async () => {
+      await TrackingStore.start('WALK');
+      walk(5, 37.7749);
+      standStill(20, 37.7753);
+      walk(3, 37.7754);
+
+      // Pause is backdated to when stillness began, so most of the stop is excluded
+      expect(TrackingStore.pausedDuration).toBeGreaterThanOrEqual(15000);
+      expect(TrackingStore.stop().pausedDuration).toBeGreaterThanOrEqual(15000);
+    });
+
+    it('should not auto-pause when disabled', async () => {
+      await TrackingStore.configureAutoPause({ enabled: false });
+      await TrackingStore.start('WALK');
+      walk(5, 37.7749);
+      standStill(30, 37.7753);
+      expect(TrackingStore.isPaused).toBe(false);
+    });
+
+    it('should not auto-resume a manual pause', async () => {
+      await TrackingStore.start('WALK');
+      walk(5, 37.7749);
+      TrackingStore.pause();
+      walk(5, 37.7760);
+      expect(TrackingStore.isPaused).toBe(true);
+      expect(TrackingStore.pauseReason).toBe('manual');
+    });
+
+    it('should clamp the delay and persist settings', async () => {
+      await TrackingStore.configureAutoPause({ enabled: true, delayMs: 500 });
+      expect(TrackingStore.autoPauseSettings.delayMs).toBe(3000);
+
+      const stored = JSON.parse((AsyncStorage as any).__getStorage()['conqr_auto_pause_settings']);
+      expect(stored).toEqual({ enabled: true, delayMs: 3000 });
+
+      await TrackingStore.configureAutoPause({ delayMs: 20000 });
+      const loaded = await TrackingStore.loadAutoPauseSettings();
+      expect(loaded.delayMs).toBe(20000);
+    });
+  });
+
+  describe('splits and laps', () => {
+    afterEach(async () => {
+      await TrackingStore.configureSplitUnit('km');
+    });
+
+    it('should emit a split event each kilometre', async () => {
+      const events: TrackingEvent[] = [];
+      const unsubscribe = TrackingStore.onEvent(e => events.push(e));
+      await TrackingStore.start('WALK');
+      walk(100, 37.7749); // ~1.1km
+      unsubscribe();
+
+      const splitEvents = events.filter(e => e.type === 'split');
+      expect(splitEvents).toHaveLength(1);
+      expect(TrackingStore.splits).toHaveLength(1);
+      expect(TrackingStore.splits[0].distance).toBe(1000);
+    });
+
+    it('should return splits and laps on stop', async () => {
+      await TrackingStore.start('WALK');
+      walk(20, 37.7749);
+      const lap = TrackingStore.lap();
+      expect(lap).not.toBeNull();
+      expect(lap!.distance).toBeCloseTo(TrackingStore.runningDistance);
+      walk(20, 37.7770);
+
+      const result = TrackingStore.stop();
+      expect(result.splitUnit).toBe('km');
+      expect(result.splits).toHaveLength(1); // partial
+      expect(result.laps).toHaveLength(2);
+      expect(result.laps[0].distance + result.laps[1].distance).toBeCloseTo(result.splits[0].distance);
+    });
+
+    it('should not record laps while paused or stopped', async () => {
+      expect(TrackingStore.lap()).toBeNull();
+      await TrackingStore.start('WALK');
+      walk(5, 37.7749);
+      TrackingStore.pause();
+      expect(TrackingStore.lap()).toBeNull();
+      expect(TrackingStore.laps).toEqual([]);
+    });
+
+    it('should persist the split unit', async () => {
+      await TrackingStore.configureSplitUnit('mi');
+      expect(TrackingStore.splitUnit).toBe('mi');
+      expect(await TrackingStore.loadSplitUnit()).toBe('mi');
+    });
+  });
+
+  describe('GPS sampling', () => {
+    const setSampling = () => LocationService.setSampling as jest.Mock;
+
+    beforeEach(() => setSampling().mockClear());
+    afterEach(async () => {
+      await TrackingStore.configureTrackingProfile('balanced');
+    });
+
+    it('should sample with the preferred profile before the first fix', async () => {
+      await TrackingStore.configureTrackingProfile('battery_saver');
+      await TrackingStore.start('RUN');
+      expect(setSampling()).toHaveBeenCalledTimes(1);
+      expect(setSampling().mock.calls[0][0]).toEqual(samplingFor('battery_saver', 'RUN', 0, false));
+      expect(TrackingStore.sessionTrackingProfile).toBe('battery_saver');
+    });
+
+    it('should keep the session profile when the preference changes mid-activity', async () => {
+      await TrackingStore.start('WALK');
+      await TrackingStore.configureTrackingProfile('high_accuracy');
+      walk(5, 37.7749);
+      expect(TrackingStore.sessionTrackingProfile).toBe('balanced');
+      expect(TrackingStore.stop().trackingProfile).toBe('balanced');
+    });
+
+    it('should slow sampling on pause and speed it back up on resume', async () => {
+      await TrackingStore.start('WALK');
+      walk(5, 37.7749);
+      TrackingStore.pause();
+      const paused = setSampling().mock.calls[setSampling().mock.calls.length - 1][0];
+      expect(paused.timeInterval).toBe(TRACKING_PROFILES.balanced.stillIntervalMs);
+
+      TrackingStore.resume();
+      const resumed = setSampling().mock.calls[setSampling().mock.calls.length - 1][0];
+      expect(resumed.timeInterval).toBeLessThan(paused.timeInterval);
+    });
+
+    it('should hand sampling back to the default on stop', async () => {
+      await TrackingStore.start('WALK');
+      TrackingStore.stop();
+      expect(setSampling()).toHaveBeenLastCalledWith(null);
+    });
+
+    it('should report GPS quality including rejected fixes', async () => {
+      await TrackingStore.start('WALK');
+      walk(10, 37.7749);
+      const before = TrackingStore.gpsQuality;
+      now += 5000;
+      live({ lat: 37.7760, lng: -122.4194, timestamp: now, speed: 1.5, accuracy: 80, altitude: 0 });
+      const after = TrackingStore.gpsQuality;
+      expect(after.fixCount).toBe(before.fixCount + 1);
+      expect(after.rejectedCount).toBe(before.rejectedCount + 1);
+      walk(5, 37.7760);
+
+      const { gpsQuality } = TrackingStore.stop();
+      expect(gpsQuality.fixCount).toBe(16);
+      expect(gpsQuality.meanAccuracy).toBeCloseTo((15 * 5 + 80) / 16, 1);
+      expect(gpsQuality.p90Accuracy).toBe(5);
+      expect(gpsQuality.maxGap).toBe(5);
+    });
+
+    it('should persist the profile preference', async () => {
+      await TrackingStore.configureTrackingProfile('high_accuracy');
+      expect(await AsyncStorage.getItem('conqr_tracking_profile')).toBe('high_accuracy');
+      expect(await TrackingStore.loadTrackingProfile()).toBe('high_accuracy');
+    });
+  });
+
+  describe('activity type detection', () => {
+    // Run north ~6.7m every 2s (≈3.3 m/s) — too fast for WALK, easy for RUN
+    const run = (count: number, startLat: number, deliver: Deliver = live) => {
+      for (let i = 0; i < count; i++) {
+        now += 2000;
+        deliver({
+          lat: startLat + i * 0.00006,
+          lng: -122.4194,
+          timestamp: now,
+          speed: 3.3,
+          accuracy: 5,
+          altitude: 0,
+        });
+      }
+    };
+
+    it('should suggest RUN when a WALK is recorded at running speed', async () => {
+      const events: TrackingEvent[] = [];
+      const unsubscribe = TrackingStore.onEvent(e => events.push(e));
+      await TrackingStore.start('WALK');
+      run(20, 37.7749);
+      expect(TrackingStore.typeSuggestion).toBeNull();
+      run(30, 37.7749 + 20 * 0.00006);
+      unsubscribe();
+
+      const suggestions = events.filter(e => e.type === 'typeSuggestion');
+      expect(suggestions).toHaveLength(1);
+      expect(TrackingStore.typeSuggestion?.type).toBe('RUN');
+      // The fixes were too fast for a walk, so none made it into the path
+      expect(TrackingStore.path.length).toBeLessThanOrEqual(1);
+    });
+
+    it('should not suggest anything for a walk recorded as a WALK', async () => {
+      await TrackingStore.start('WALK');
+      walk(40, 37.7749);
+      expect(TrackingStore.typeSuggestion).toBeNull();
+      expect(TrackingStore.stop().typeCorrectedFrom).toBeNull();
+    });
+
+    it('should rebuild the path from the rejected fixes when switching type', async () => {
+      await TrackingStore.start('WALK');
+      run(50, 37.7749);
+      expect(TrackingStore.runningDistance).toBeLessThan(10);
+
+      TrackingStore.changeActivityType('RUN');
+      expect(TrackingStore.activityType).toBe('RUN');
+      expect(TrackingStore.typeSuggestion).toBeNull();
+      expect(TrackingStore.path.length).toBeGreaterThan(40);
+      expect(TrackingStore.runningDistance).toBeGreaterThan(280);
+
+      // Recording carries on into the rebuilt segment
+      const before = TrackingStore.path.length;
+      run(5, 37.7749 + 50 * 0.00006);
+      expect(TrackingStore.path.length).toBeGreaterThan(before);
+      expect(TrackingStore.segments).toHaveLength(1);
+
+      const result = TrackingStore.stop();
+      expect(result.activityType).toBe('RUN');
+      expect(result.typeCorrectedFrom).toBeNull();
+    });
+
+    it('should keep segment boundaries and pauses through a rebuild', async () => {
+      await TrackingStore.start('WALK');
+      run(20, 37.7749);
+      TrackingStore.pause();
+      now += 30000;
+      TrackingStore.resume();
+      run(20, 37.7769);
+      const pausedDuration = TrackingStore.pausedDuration;
+
+      TrackingStore.changeActivityType('RUN');
+      expect(TrackingStore.segments).toHaveLength(2);
+      expect(TrackingStore.segments.every(seg => seg.length > 10)).toBe(true);
+      expect(TrackingStore.pausedDuration).toBe(pausedDuration);
+      expect(TrackingStore.isPaused).toBe(false);
+    });
+
+    it('should rewrite the checkpoint with the new type and path', async () => {
+      await TrackingStore.start('WALK');
+      run(50, 37.7749);
+      TrackingStore.changeActivityType('RUN');
+      await TrackingStore.flushCheckpoint();
+
+      const meta = JSON.parse((await AsyncStorage.getItem('conqr_tracking_session'))!);
+      expect(meta.activityType).toBe('RUN');
+      expect(meta.runningDistance).toBe(TrackingStore.runningDistance);
+      const keys = (await AsyncStorage.getAllKeys()).filter((k: string) => k.startsWith('conqr_tracking_session_chunk_'));
+      expect(keys).toHaveLength(meta.chunkCount);
+      const stored = (await AsyncStorage.multiGet(keys))
+        .flatMap(([, value]) => JSON.parse(value!))
+        .reduce((sum: number, chunk: { points: GPSPoint[] }) => sum + chunk.points.length, 0);
+      expect(stored).toBe(TrackingStore.path.length);
+    });
+
+    it('should auto-correct the saved type when the whole recording is clearly a run', async () => {
+      await TrackingStore.start('WALK');
+      run(200, 37.7749);
+      const result = TrackingStore.stop();
+      expect(result.activityType).toBe('RUN');
+      expect(result.typeCorrectedFrom).toBe('WALK');
+      expect(result.segments[0].length).toBeGreaterThan(150);
+      expect(result.runningDistance).toBeGreaterThan(1100);
+    });
+
+    it('should not auto-correct a short recording', async () => {
+      await TrackingStore.start('WALK');
+      run(60, 37.7749);
+      const result = TrackingStore.stop();
+      expect(result.activityType).toBe('WALK');
+      expect(result.typeCorrectedFrom).toBeNull();
+    });
+
+    it('should respect a dismissed suggestion', async () => {
+      const events: TrackingEvent[] = [];
+      const unsubscribe = TrackingStore.onEvent(e => events.push(e));
+      await TrackingStore.start('WALK');
+      run(50, 37.7749);
+      TrackingStore.dismissTypeSuggestion();
+      expect(TrackingStore.typeSuggestion).toBeNull();
+      run(150, 37.7749 + 50 * 0.00006);
+      unsubscribe();
+
+      expect(events.filter(e => e.type === 'typeSuggestion')).toHaveLength(1);
+      const result = TrackingStore.stop();
+      expect(result.activityType).toBe('WALK');
+      expect(result.typeCorrectedFrom).toBeNull();
+    });
+
+    it('should not auto-correct after a switch by hand', async () => {
+      await TrackingStore.start('WALK');
+      run(10, 37.7749);
+      TrackingStore.changeActivityType('RIDE');
+      run(190, 37.7749 + 10 * 0.00006);
+      const result = TrackingStore.stop();
+      expect(result.activityType).toBe('RIDE');
+      expect(result.typeCorrectedFrom).toBeNull();
+    });
+  });
+
+  describe('crash recovery', () => {
+    const SESSION_KEY = 'conqr_tracking_session';
+
+    // Let in-flight checkpoint writes land, then "kill" the app: load a fresh
+    // copy of TrackingStore (module state gone) against a copy of what was on disk.
+    const restartApp = async (): Promise<typeof TrackingStore> => {
+      await new Promise(resolve => setImmediate(resolve));
+      const snapshot = { ...(AsyncStorage as any).__getStorage() };
+      let fresh: typeof TrackingStore | undefined;
+      await jest.isolateModulesAsync(async () => {
+        const { default: freshStorage } = await import('./__mocks__/async-storage');
+        freshStorage.__reset();
+        Object.assign(freshStorage.__getStorage(), snapshot);
+        fresh = (await import('../services/TrackingStore')).TrackingStore;
+      });
+      return fresh!;
+    };
+
+    it('should checkpoint points in batches rather than per point', async () => {
+      await TrackingStore.start('RIDE');
+      (AsyncStorage.setItem as jest.Mock).mockClear();
+      // One fix per second (~11 m/s), so only the batch size triggers a flush
+      walk(30, 37.7749, 1000);
+      await new Promise(resolve => setImmediate(resolve));
+
+      const recorded = TrackingStore.path.length;
+      const writes = (AsyncStorage.setItem as jest.Mock).mock.calls.length;
+      expect(recorded).toBeGreaterThan(10);
+      expect(writes).toBeLessThan(recorded);
+    });
+
+    it('should not report an interrupted session while tracking', async () => {
+      await TrackingStore.start('WALK');
+      walk(5, 37.7749);
+      expect(await TrackingStore.hasInterruptedSession()).toBe(false);
+      expect(await TrackingStore.loadInterruptedSession()).toBeNull();
+    });
+
+    it('should restore the recorded path after a kill', async () => {
+      await TrackingStore.start('RUN');
+      const startTime = TrackingStore.startTime;
+      walk(30, 37.7749);
+      await TrackingStore.flushCheckpoint();
+      const recordedPath = TrackingStore.path;
+      const recordedDistance = TrackingStore.runningDistance;
+
+      const fresh = await restartApp();
+      expect(fresh.isTracking).toBe(false);
+      expect(await fresh.hasInterruptedSession()).toBe(true);
+
+      const session = await fresh.loadInterruptedSession();
+      expect(session).not.toBeNull();
+      expect(session!.activityType).toBe('RUN');
+      expect(session!.startTime).toBe(startTime);
+      expect(session!.segments.length).toBe(1);
+      expect(session!.segments[0]).toEqual(recordedPath);
+      expect(session!.runningDistance).toBeCloseTo(recordedDistance);
+      expect(session!.trackingProfile).toBe('balanced');
+    });
+
+    it('should lose at most one unflushed batch on a kill', async () => {
+      await TrackingStore.start('WALK');
+      walk(30, 37.7749);
+      const recorded = TrackingStore.path.length;
+
+      const fresh = await restartApp();
+      const session = await fresh.loadInterruptedSession();
+      const restored = session!.segments.reduce((n, seg) => n + seg.length, 0);
+      expect(restored).toBeLessThanOrEqual(recorded);
+      expect(restored).toBeGreaterThanOrEqual(recorded - 10);
+    });
+
+    it('should keep segments and pause state across a kill', async () => {
+      await TrackingStore.start('WALK');
+      walk(5, 37.7749);
+      TrackingStore.pause();
+      now += 60_000;
+      TrackingStore.resume();
+      walk(5, 37.7760);
+      TrackingStore.pause();
+      now += 30_000;
+      await TrackingStore.flushCheckpoint();
+
+      const fresh = await restartApp();
+      const session = await fresh.loadInterruptedSession();
+      expect(session!.segments.length).toBe(2);
+      // The open pause counts up to the last checkpoint
+      expect(session!.pausedDuration).toBe(90_000);
+    });
+
+    it('should resume an interrupted session in a new segment', async () => {
+      await TrackingStore.start('WALK');
+      walk(12, 37.7749);
+      await TrackingStore.flushCheckpoint();
+
+      const fresh = await restartApp();
+      const session = await fresh.loadInterruptedSession();
+      now += 120_000; // app was dead for two minutes
+
+      await fresh.resumeInterruptedSession(session!);
+      expect(fresh.isTracking).toBe(true);
+      expect(fresh.activityType).toBe('WALK');
+      expect(fresh.startTime).toBe(session!.startTime);
+      expect(fresh.segments.length).toBe(2);
+      expect(fresh.segments[1]).toEqual([]);
+      // Downtime counts as paused, not moving
+      expect(fresh.pausedDuration).toBeGreaterThanOrEqual(120_000);
+      expect(fresh.runningDistance).toBeCloseTo(session!.runningDistance);
+      fresh.reset();
+    });
+
+    it('should replay points the background task buffered after the last checkpoint', async () => {
+      await TrackingStore.start('WALK');
+      walk(12, 37.7749);
+      await TrackingStore.flushCheckpoint();
+      const checkpointed = TrackingStore.path.length;
+      const distance = TrackingStore.runningDistance;
+
+      // JS context dies, but the background task keeps recording
+      walk(10, 37.7761, 5000, suspended);
+
+      const fresh = await restartApp();
+      const session = await fresh.loadInterruptedSession();
+      now += 60_000;
+
+      await fresh.resumeInterruptedSession(session!);
+      expect(fresh.segments.length).toBe(2);
+      expect(fresh.segments[0].length).toBeGreaterThan(checkpointed + 5);
+      expect(fresh.segments[1]).toEqual([]);
+      expect(fresh.runningDistance).toBeGreaterThan(distance + 50);
+      // Only the stretch nothing recorded counts as paused
+      expect(fresh.pausedDuration).toBe(60_000);
+      fresh.reset();
+    });
+
+    it('should keep a merged suspended stretch across a kill', async () => {
+      await TrackingStore.start('WALK');
+      walk(30, 37.7749);
+      const livePath = TrackingStore.path.map(p => [p.lat, p.lng]);
+      TrackingStore.reset();
+
+      now -= 30 * 5000;
+      await TrackingStore.start('WALK');
+      walk(15, 37.7749);
+      await TrackingStore.flushCheckpoint();
+      walk(10, 37.7749 + 15 * 0.0001, 5000, suspended);
+      walk(5, 37.7749 + 25 * 0.0001);
+      await TrackingStore.replayBackgroundPoints();
+      await TrackingStore.flushCheckpoint();
+      const recordedPath = TrackingStore.path;
+      expect(recordedPath.map(p => [p.lat, p.lng])).toEqual(livePath);
+
+      const fresh = await restartApp();
+      const session = await fresh.loadInterruptedSession();
+      expect(session!.segments).toEqual([recordedPath]);
+      expect(session!.runningDistance).toBeCloseTo(TrackingStore.runningDistance);
+    });
+
+    it('should clear the session once discarded', async () => {
+      await TrackingStore.start('WALK');
+      walk(12, 37.7749);
+      await TrackingStore.flushCheckpoint();
+
+      const fresh = await restartApp();
+      await fresh.discardInterruptedSession();
+      expect(await fresh.hasInterruptedSession()).toBe(false);
+      expect(await fresh.loadInterruptedSession()).toBeNull();
+    });
+
+    it('should clear the checkpoint on a normal stop', async () => {
+      await TrackingStore.start('WALK');
+      walk(12, 37.7749);
+      TrackingStore.stop();
+      await new Promise(resolve => setImmediate(resolve));
+
+      const storage = (AsyncStorage as any).__getStorage();
+      expect(storage[SESSION_KEY]).toBeUndefined();
+      expect(Object.keys(storage).some(k => k.startsWith('conqr_tracking_session_chunk_'))).toBe(false);
+    });
+
+    it('should ignore a corrupt checkpoint', async () => {
+      await AsyncStorage.setItem(SESSION_KEY, '{not json');
+      expect(await TrackingStore.loadInterruptedSession()).toBeNull();
+    });
+  });
+
+  describe('background point replay', () => {
+    it('should fill a suspended stretch from the background buffer', async () => {
+      await TrackingStore.start('WALK');
+      walk(5, 37.7749);
+      const before = TrackingStore.path.length;
+      const distanceBefore = TrackingStore.runningDistance;
+
+      walk(10, 37.7754, 5000, suspended);
+      expect(TrackingStore.path.length).toBe(before);
+
+      const fed = await TrackingStore.replayBackgroundPoints();
+      expect(fed).toBe(10);
+      expect(TrackingStore.path.length).toBeGreaterThan(before + 3);
+      expect(TrackingStore.runningDistance).toBeGreaterThan(distanceBefore + 50);
+      expect(backgroundBuffer).toEqual([]);
+    });
+
+    it('should produce the same track as live delivery', async () => {
+      await TrackingStore.start('WALK');
+      walk(20, 37.7749);
+      const livePath = TrackingStore.path.map(p => [p.lat, p.lng]);
+      const liveDistance = TrackingStore.runningDistance;
+      TrackingStore.reset();
+
+      now -= 20 * 5000;
+      await TrackingStore.start('WALK');
+      walk(20, 37.7749, 5000, suspended);
+      // Storage order isn't guaranteed — replay must sort by timestamp
+      backgroundBuffer.reverse();
+      await TrackingStore.replayBackgroundPoints();
+
+      expect(TrackingStore.path.map(p => [p.lat, p.lng])).toEqual(livePath);
+      expect(TrackingStore.runningDistance).toBeCloseTo(liveDistance);
+    });
+
+    it('should skip points already delivered live', async () => {
+      await TrackingStore.start('WALK');
+      walk(10, 37.7749, 5000, point => {
+        backgroundBuffer.push(point);
+        emitPoint?.(point);
+      });
+      const recorded = TrackingStore.path.length;
+      const distance = TrackingStore.runningDistance;
+
+      expect(await TrackingStore.replayBackgroundPoints()).toBe(0);
+      expect(TrackingStore.path.length).toBe(recorded);
+      expect(TrackingStore.runningDistance).toBe(distance);
+    });
+
+    it('should merge a suspended stretch that is drained after the next live fix', async () => {
+      await TrackingStore.start('WALK');
+      walk(20, 37.7749);
+      const livePath = TrackingStore.path.map(p => [p.lat, p.lng]);
+      const liveDistance = TrackingStore.runningDistance;
+      TrackingStore.reset();
+
+      now -= 20 * 5000;
+      await TrackingStore.start('WALK');
+      walk(5, 37.7749);
+      walk(10, 37.7749 + 5 * 0.0001, 5000, suspended);
+      // The app wakes up and live fixes land before the buffer is drained
+      walk(5, 37.7749 + 15 * 0.0001);
+      await TrackingStore.replayBackgroundPoints();
+
+      expect(backgroundBuffer).toEqual([]);
+      expect(TrackingStore.path.map(p => [p.lat, p.lng])).toEqual(livePath);
+      expect(TrackingStore.runningDistance).toBeCloseTo(liveDistance);
+      expect(TrackingStore.path.every((p, i, path) => i === 0 || path[i - 1].timestamp < p.timestamp)).toBe(true);
+    });
+
+    it('should not merge background fixes that duplicate the live ones', async () => {
+      await TrackingStore.start('WALK');
+      walk(20, 37.7749, 5000, point => {
+        // The background task gets its own fix of the same spot a moment earlier
+        backgroundBuffer.push({ ...point, timestamp: point.timestamp - 400, lat: point.lat + 0.00001 });
+        emitPoint?.(point);
+      });
+      const path = TrackingStore.path.map(p => [p.lat, p.lng]);
+      const distance = TrackingStore.runningDistance;
+
+      expect(await TrackingStore.replayBackgroundPoints()).toBe(0);
+      expect(TrackingStore.path.map(p => [p.lat, p.lng])).toEqual(path);
+      expect(TrackingStore.runningDistance).toBe(distance);
+    });
+
+    it('should ignore live points older than what was replayed', async () => {
+      await TrackingStore.start('WALK');
+      walk(5, 37.7749, 5000, suspended);
+      const stale = { ...backgroundBuffer[0] };
+      await TrackingStore.replayBackgroundPoints();
+      const recorded = TrackingStore.path.length;
+
+      emitPoint?.(stale);
+      expect(TrackingStore.path.length).toBe(recorded);
+    });
+
+    it('should not replay points buffered during a manual pause', async () => {
+      await TrackingStore.start('WALK');
+      walk(5, 37.7749);
+      TrackingStore.pause();
+      walk(5, 37.7760, 5000, suspended);
+      TrackingStore.resume();
+
+      expect(await TrackingStore.replayBackgroundPoints()).toBe(0);
+      expect(TrackingStore.segments[TrackingStore.segments.length - 1]).toEqual([]);
+    });
+
+    it('should drop buffered points from before the session started', async () => {
+      walk(5, 37.7749, 5000, suspended);
+      await TrackingStore.start('WALK');
+      expect(await TrackingStore.replayBackgroundPoints()).toBe(0);
+      expect(TrackingStore.path).toEqual([]);
+    });
+
+    it('should auto-pause on replayed stillness using fix timestamps', async () => {
+      const events: TrackingEvent[] = [];
+      TrackingStore.onEvent(e => events.push(e));
+      await TrackingStore.start('WALK');
+      walk(5, 37.7749);
+      standStill(15, 37.7753, suspended);
+
+      await TrackingStore.replayBackgroundPoints();
+      expect(TrackingStore.isPaused).toBe(true);
+      expect(TrackingStore.pauseReason).toBe('auto');
+      // History isn't announced as if it just happened
+      expect(events).toEqual([]);
+    });
+
+    it('should notify subscribers once per replay', async () => {
+      await TrackingStore.start('WALK');
+      walk(10, 37.7749, 5000, suspended);
+      const listener = jest.fn();
+      const unsubscribe = TrackingStore.subscribe(listener);
+
+      await TrackingStore.replayBackgroundPoints();
+      unsubscribe();
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+  });
+});
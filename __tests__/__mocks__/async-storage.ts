@@ -23,6 +23,9 @@ const AsyncStorage = {
       storage[key] = value;
     });
   }),
+  multiRemove: jest.fn(async (keys: string[]) => {
+    keys.forEach(key => delete storage[key]);
+  }),
   // Helper for tests to reset storage
   __reset: () => {
     Object.keys(storage).forEach(key => delete storage[key]);
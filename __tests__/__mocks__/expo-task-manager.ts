@@ -0,0 +1,8 @@
+// Mock expo-task-manager for testing
+export const defineTask = jest.fn();
+export const isTaskRegisteredAsync = jest.fn(async () => false);
+
+export default {
+  defineTask,
+  isTaskRegisteredAsync,
+};
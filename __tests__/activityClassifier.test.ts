@@ -0,0 +1,106 @@
+import { GPSPoint } from '../lib/types';
+import { createActivityClassifier } from '../utils/activityClassifier';
+
+const METERS_PER_DEGREE_LAT = 111320;
+
+// Move north at a steady speed, one fix every `intervalMs`
+const steady = (seconds: number, speed: number, options: { intervalMs?: number; startAt?: number; withSpeed?: boolean } = {}): GPSPoint[] => {
+  const intervalMs = options.intervalMs ?? 2000;
+  const startAt = options.startAt ?? 0;
+  const points: GPSPoint[] = [];
+  for (let t = 0; t <= seconds * 1000; t += intervalMs) {
+    points.push({
+      lat: 37.7749 + (speed * (startAt + t) / 1000) / METERS_PER_DEGREE_LAT,
+      lng: -122.4194,
+      timestamp: startAt + t,
+      speed: options.withSpeed === false ? null : speed,
+      accuracy: 5,
+      altitude: null,
+    });
+  }
+  return points;
+};
+
+describe('createActivityClassifier', () => {
+  it('suggests RUN once a WALK has been at running speed for a minute', () => {
+    const classifier = createActivityClassifier();
+    steady(40, 3.3).forEach(classifier.add);
+    expect(classifier.suggest('WALK')).toBeNull();
+
+    steady(40, 3.3, { startAt: 42000 }).forEach(classifier.add);
+    const suggestion = classifier.suggest('WALK');
+    expect(suggestion?.type).toBe('RUN');
+    expect(suggestion?.share).toBeCloseTo(1, 5);
+  });
+
+  it('leaves speeds the picked type covers alone', () => {
+    const brisk = createActivityClassifier();
+    steady(120, 2.1).forEach(brisk.add);
+    expect(brisk.suggest('WALK')).toBeNull();
+    expect(brisk.suggest('RUN')).toBeNull();
+
+    const casualRide = createActivityClassifier();
+    steady(120, 4.2).forEach(casualRide.add);
+    expect(casualRide.suggest('RIDE')).toBeNull();
+  });
+
+  it('suggests WALK for a RUN recorded at walking pace and RIDE for cycling speeds', () => {
+    const walking = createActivityClassifier();
+    steady(120, 1.3).forEach(walking.add);
+    expect(walking.suggest('RUN')?.type).toBe('WALK');
+
+    const riding = createActivityClassifier();
+    steady(120, 8).forEach(riding.add);
+    expect(riding.suggest('WALK')?.type).toBe('RIDE');
+    expect(riding.suggest('RUN')?.type).toBe('RIDE');
+  });
+
+  it('falls back to implied speed when fixes carry none', () => {
+    const classifier = createActivityClassifier();
+    steady(120, 3.3, { withSpeed: false }).forEach(classifier.add);
+    expect(classifier.suggest('WALK')?.type).toBe('RUN');
+    expect(classifier.movingSeconds).toBeCloseTo(120, 0);
+  });
+
+  it('ignores standing still, spikes and gaps', () => {
+    const classifier = createActivityClassifier();
+    steady(60, 0).forEach(classifier.add);
+    classifier.add({ lat: 37.8, lng: -122.4194, timestamp: 62000, speed: null, accuracy: 5, altitude: null });
+    classifier.add({ lat: 37.9, lng: -122.4194, timestamp: 120000, speed: null, accuracy: 5, altitude: null });
+    expect(classifier.movingSeconds).toBe(0);
+  });
+
+  it('only judges the recent window for suggestions', () => {
+    const classifier = createActivityClassifier(60000);
+    steady(120, 3.3).forEach(classifier.add);
+    steady(120, 1.4, { startAt: 122000 }).forEach(classifier.add);
+    expect(classifier.suggest('WALK')).toBeNull();
+    expect(classifier.suggest('RUN')?.type).toBe('WALK');
+  });
+
+  it('does not measure speed across a break', () => {
+    const classifier = createActivityClassifier();
+    classifier.add({ lat: 37.7749, lng: -122.4194, timestamp: 0, speed: null, accuracy: 5, altitude: null });
+    classifier.breakGap();
+    classifier.add({ lat: 37.7759, lng: -122.4194, timestamp: 5000, speed: null, accuracy: 5, altitude: null });
+    expect(classifier.movingSeconds).toBe(0);
+  });
+
+  it('corrects the whole recording only on overwhelming evidence', () => {
+    const short = createActivityClassifier();
+    steady(240, 3.3).forEach(short.add);
+    expect(short.correction('WALK')).toBeNull();
+
+    const mixed = createActivityClassifier();
+    steady(400, 3.3).forEach(mixed.add);
+    steady(200, 1.4, { startAt: 402000 }).forEach(mixed.add);
+    expect(mixed.correction('WALK')).toBeNull();
+
+    const clear = createActivityClassifier();
+    steady(30, 1.4).forEach(clear.add);
+    steady(600, 3.3, { startAt: 32000 }).forEach(clear.add);
+    const correction = clear.correction('WALK');
+    expect(correction?.type).toBe('RUN');
+    expect(correction?.share).toBeGreaterThan(0.9);
+  });
+});
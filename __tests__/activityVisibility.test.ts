@@ -0,0 +1,39 @@
+import { canViewActivity, isActivityVisibility } from '../utils/activityVisibility';
+
+const activity = (visibility?: 'public' | 'friends' | 'private') => ({ userId: 'owner', visibility });
+
+describe('canViewActivity', () => {
+  it('always lets the owner see their own activities', () => {
+    expect(canViewActivity(activity('private'), 'owner', 'none')).toBe(true);
+    expect(canViewActivity(activity('friends'), 'owner', 'none')).toBe(true);
+  });
+
+  it('shows public activities to everyone, signed in or not', () => {
+    expect(canViewActivity(activity('public'), 'someone', 'none')).toBe(true);
+    expect(canViewActivity(activity('public'), null, 'none')).toBe(true);
+  });
+
+  it('treats activities saved before visibility existed as public', () => {
+    expect(canViewActivity(activity(), 'someone', 'none')).toBe(true);
+  });
+
+  it('shows friends-only activities to accepted friends only', () => {
+    expect(canViewActivity(activity('friends'), 'friend', 'accepted')).toBe(true);
+    expect(canViewActivity(activity('friends'), 'someone', 'pending')).toBe(false);
+    expect(canViewActivity(activity('friends'), 'someone', 'rejected')).toBe(false);
+    expect(canViewActivity(activity('friends'), 'someone', 'none')).toBe(false);
+    expect(canViewActivity(activity('friends'), null, 'accepted')).toBe(false);
+  });
+
+  it('hides private activities from everyone else, friends included', () => {
+    expect(canViewActivity(activity('private'), 'friend', 'accepted')).toBe(false);
+  });
+});
+
+describe('isActivityVisibility', () => {
+  it('accepts only the known levels', () => {
+    expect(isActivityVisibility('friends')).toBe(true);
+    expect(isActivityVisibility('hidden')).toBe(false);
+    expect(isActivityVisibility(null)).toBe(false);
+  });
+});
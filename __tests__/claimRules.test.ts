@@ -0,0 +1,88 @@
+import { ClaimRuleViolation } from '../lib/types';
+import {
+  DEFAULT_CLAIM_RULES,
+  describeClaimRuleViolation,
+  inscribedWidth,
+  parseClaimRuleViolation,
+  parseClaimRules,
+  polsbyPopper,
+} from '../utils/claimRules';
+
+describe('parseClaimRules', () => {
+  it('falls back to the defaults when the setting is missing', () => {
+    expect(parseClaimRules(null)).toEqual(DEFAULT_CLAIM_RULES);
+    expect(parseClaimRules('nonsense')).toEqual(DEFAULT_CLAIM_RULES);
+  });
+
+  it('takes valid thresholds and keeps the defaults for the rest', () => {
+    const rules = parseClaimRules({
+      minCompactness: 0.2,
+      minWidth: -5,
+      maxAreaByType: { RUN: 4_000_000, RIDE: 'big' },
+    });
+
+    expect(rules.minCompactness).toBe(0.2);
+    expect(rules.minWidth).toBe(DEFAULT_CLAIM_RULES.minWidth);
+    expect(rules.maxAreaByType).toEqual({ ...DEFAULT_CLAIM_RULES.maxAreaByType, RUN: 4_000_000 });
+    expect(rules.maxPerimeterToDistance).toBe(DEFAULT_CLAIM_RULES.maxPerimeterToDistance);
+  });
+});
+
+describe('polsbyPopper', () => {
+  it('scores a circle 1 and a sliver near 0', () => {
+    expect(polsbyPopper(Math.PI * 100 * 100, 2 * Math.PI * 100)).toBeCloseTo(1, 5);
+    expect(polsbyPopper(1000 * 10, 2 * (1000 + 10))).toBeLessThan(0.05);
+    expect(polsbyPopper(100, 0)).toBe(0);
+  });
+});
+
+describe('inscribedWidth', () => {
+  it('finds the narrow side of a rectangle', () => {
+    // 0.001° of latitude is about 111 m; 0.01° of longitude at the equator about 1.1 km
+    const ring: [number, number][] = [[0, 0], [0.01, 0], [0.01, 0.001], [0, 0.001], [0, 0]];
+    expect(inscribedWidth(ring)).toBeCloseTo(111, -1);
+  });
+
+  it('fits the circle into the corner of an L', () => {
+    // Arms about 56 m wide; the corner holds a circle 2√2/(1+√2) times the arm width
+    const ring: [number, number][] = [
+      [0, 0], [0.002, 0], [0.002, 0.0005], [0.0005, 0.0005], [0.0005, 0.002], [0, 0.002], [0, 0],
+    ];
+    expect(inscribedWidth(ring)).toBeCloseTo(65, -1);
+  });
+
+  it('is 0 for a degenerate ring', () => {
+    expect(inscribedWidth([[0, 0], [0.001, 0], [0.002, 0]])).toBe(0);
+    expect(inscribedWidth([])).toBe(0);
+  });
+});
+
+describe('parseClaimRuleViolation', () => {
+  it('reads the rule a server rejection names', () => {
+    expect(parseClaimRuleViolation({ success: false, reason: 'NOT_COMPACT', value: 0.05, limit: 0.12 }))
+      .toEqual({ reason: 'NOT_COMPACT', value: 0.05, limit: 0.12 });
+    expect(parseClaimRuleViolation({ success: false, reason: 'PERIMETER_EXCEEDS_DISTANCE', value: null, limit: 1.5 }))
+      .toEqual({ reason: 'PERIMETER_EXCEEDS_DISTANCE', value: Infinity, limit: 1.5 });
+  });
+
+  it('ignores other rejections', () => {
+    expect(parseClaimRuleViolation({ success: false, reason: 'LOOP_NOT_CLOSED' })).toBeNull();
+    expect(parseClaimRuleViolation(null)).toBeNull();
+  });
+});
+
+describe('describeClaimRuleViolation', () => {
+  it('explains each rule with the numbers that matter', () => {
+    const tooBig: ClaimRuleViolation = { reason: 'TOO_LARGE_FOR_TYPE', value: 4_200_000, limit: 3_000_000 };
+    expect(describeClaimRuleViolation(tooBig, 'WALK')).toBe(
+      'Your loop covers 4.20 km², more than the 3.00 km² a walk can claim, so no territory was claimed.'
+    );
+
+    const narrow: ClaimRuleViolation = { reason: 'TOO_NARROW', value: 12.4, limit: 20 };
+    expect(describeClaimRuleViolation(narrow)).toContain('only 12 m across');
+
+    expect(describeClaimRuleViolation({ reason: 'NOT_COMPACT', value: 0.03, limit: 0.12 })).toContain('too thin');
+    expect(describeClaimRuleViolation({ reason: 'PERIMETER_EXCEEDS_DISTANCE', value: 2, limit: 1.5 }))
+      .toContain('never actually covered');
+  });
+});
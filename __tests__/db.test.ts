@@ -1,5 +1,6 @@
 import { db } from '../lib/db';
 import { Activity, UserProfile, Territory } from '../lib/types';
+import AsyncStorage from './__mocks__/async-storage';
 
 describe('Database Layer', () => {
   describe('activities store', () => {
@@ -157,6 +158,54 @@ describe('Database Layer', () => {
     });
   });
 
+  describe('activity track encoding', () => {
+    const track = [[
+      { lat: 37.7749, lng: -122.4194, timestamp: 1000, speed: 1.5, accuracy: 5, altitude: 10 },
+      { lat: 37.7750, lng: -122.4195, timestamp: 2000, speed: null, accuracy: 5, altitude: null },
+    ]];
+    const makeActivity = (id: string, polylines: any): Activity => ({
+      id,
+      userId: 'user-1',
+      type: 'WALK',
+      startTime: Date.now(),
+      distance: 100,
+      duration: 60,
+      polylines,
+      isSynced: false,
+    });
+    const stored = async () => JSON.parse((await AsyncStorage.getItem('conqr_activities')) || '[]');
+
+    it('should store tracks encoded and read them back as points', async () => {
+      await db.activities.put(makeActivity('db-track-1', track));
+
+      const raw = (await stored()).find((a: any) => a.id === 'db-track-1');
+      expect(raw.polylines.format).toBe('conqr-track');
+      expect((await db.activities.get('db-track-1'))!.polylines).toEqual(track);
+      const listed = (await db.activities.toArray()).find(a => a.id === 'db-track-1');
+      expect(listed!.polylines).toEqual(track);
+    });
+
+    it('should re-encode legacy tracks on the next write', async () => {
+      const legacy = makeActivity('db-track-legacy', track);
+      await AsyncStorage.setItem('conqr_activities', JSON.stringify([...(await stored()), legacy]));
+      expect(await db.activities.get('db-track-legacy')).toMatchObject({ polylines: track });
+
+      await db.activities.update('db-track-legacy', { isSynced: true });
+      const raw = (await stored()).find((a: any) => a.id === 'db-track-legacy');
+      expect(raw.polylines.format).toBe('conqr-track');
+      expect((await db.activities.get('db-track-legacy'))!.polylines).toEqual(track);
+    });
+
+    it('should encode a track passed to update', async () => {
+      await db.activities.put(makeActivity('db-track-2', []));
+      await db.activities.update('db-track-2', { polylines: track });
+
+      const raw = (await stored()).find((a: any) => a.id === 'db-track-2');
+      expect(raw.polylines.format).toBe('conqr-track');
+      expect((await db.activities.get('db-track-2'))!.polylines).toEqual(track);
+    });
+  });
+
   describe('territories store', () => {
     it('should store and retrieve territories', async () => {
       const territory: Territory = {
@@ -0,0 +1,61 @@
+import {
+    smoothAltitudes, accumulateClimb, gradeSeries, downsampleProfile, computeElevation, AltitudeSample,
+} from '../utils/elevation';
+import { ElevationSample } from '../lib/types';
+
+// One sample every 10m along a straight line
+const run = (altitudes: number[], startDistance = 0): AltitudeSample[] =>
+    altitudes.map((altitude, i) => ({ distance: startDistance + i * 10, altitude }));
+
+describe('elevation', () => {
+    it('should knock out single-fix altitude spikes', () => {
+        const smoothed = smoothAltitudes([100, 100, 100, 160, 100, 100, 100]);
+        expect(Math.max(...smoothed)).toBeCloseTo(100);
+    });
+
+    it('should ignore wobble inside the hysteresis band', () => {
+        const wobble = Array.from({ length: 100 }, (_, i) => 100 + (i % 2 ? 2 : -0.5));
+        expect(accumulateClimb(wobble)).toEqual({ gain: 0, loss: 0 });
+    });
+
+    it('should count a steady climb and descent', () => {
+        const up = Array.from({ length: 51 }, (_, i) => 100 + i);
+        const down = Array.from({ length: 31 }, (_, i) => 150 - i);
+        const { gain, loss } = accumulateClimb([...up, ...down.slice(1)]);
+        // Each total falls short of the true one by at most one band
+        expect(gain).toBeGreaterThanOrEqual(47);
+        expect(gain).toBeLessThanOrEqual(50);
+        expect(loss).toBeGreaterThanOrEqual(27);
+        expect(loss).toBeLessThanOrEqual(30);
+    });
+
+    it('should measure grade over the window and clamp it', () => {
+        const distances = [0, 10, 20, 30, 40, 50, 60];
+        expect(gradeSeries(distances, distances.map(d => 100 + d * 0.1))[6]).toBeCloseTo(10);
+        expect(gradeSeries(distances, distances.map(d => 100 + d * 2))[6]).toBe(45);
+        expect(gradeSeries(distances, distances.map(() => 100))[0]).toBe(0);
+    });
+
+    it('should downsample long profiles keeping both ends', () => {
+        const profile: ElevationSample[] = Array.from({ length: 1000 }, (_, i) => ({ distance: i, elevation: i, grade: 0 }));
+        const sampled = downsampleProfile(profile, 200);
+        expect(sampled).toHaveLength(200);
+        expect(sampled[0]).toBe(profile[0]);
+        expect(sampled[199]).toBe(profile[999]);
+    });
+
+    it('should not read a pause gap between runs as a climb', () => {
+        const first = run(Array(20).fill(100));
+        const second = run(Array(20).fill(140), 500);
+        const stats = computeElevation([first, second])!;
+        expect(stats.gain).toBe(0);
+        expect(stats.max).toBeCloseTo(140);
+        expect(stats.min).toBeCloseTo(100);
+        expect(stats.profile).toHaveLength(40);
+    });
+
+    it('should return null without altitude data', () => {
+        expect(computeElevation([])).toBeNull();
+        expect(computeElevation([run([100])])).toBeNull();
+    });
+});
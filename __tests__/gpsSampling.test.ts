@@ -0,0 +1,101 @@
+import * as Location from 'expo-location';
+import { samplingFor, sameSampling, isTrackingProfile, TRACKING_PROFILES } from '../utils/trackingProfiles';
+import { createGpsQualityTracker, trackGpsQuality } from '../utils/gpsQuality';
+import { GPSPoint } from '../lib/types';
+
+const fix = (timestamp: number, accuracy: number | null): GPSPoint => ({
+    lat: 37.7749, lng: -122.4194, timestamp, speed: null, accuracy, altitude: null,
+});
+
+describe('GPS sampling', () => {
+    describe('samplingFor', () => {
+        it('should sample more often at higher speeds within the profile bounds', () => {
+            const walking = samplingFor('balanced', 'RUN', 2, false);
+            const sprinting = samplingFor('balanced', 'RUN', 5, false);
+            expect(sprinting.timeInterval).toBeLessThan(walking.timeInterval);
+            expect(samplingFor('balanced', 'RIDE', 30, false).timeInterval).toBe(TRACKING_PROFILES.balanced.minIntervalMs);
+            expect(samplingFor('balanced', 'WALK', 0.6, false).timeInterval).toBe(TRACKING_PROFILES.balanced.maxIntervalMs);
+        });
+
+        it('should fall back to the activity type until a speed is measured', () => {
+            const walk = samplingFor('battery_saver', 'WALK', 0, false);
+            const ride = samplingFor('battery_saver', 'RIDE', 0, false);
+            expect(ride.timeInterval).toBeLessThan(walk.timeInterval);
+        });
+
+        it('should trade accuracy and interval for battery across profiles', () => {
+            const high = samplingFor('high_accuracy', 'RUN', 3, false);
+            const balanced = samplingFor('balanced', 'RUN', 3, false);
+            const saver = samplingFor('battery_saver', 'RUN', 3, false);
+            expect(high.accuracy).toBe(Location.Accuracy.BestForNavigation);
+            expect(high.timeInterval).toBeLessThan(balanced.timeInterval);
+            expect(balanced.timeInterval).toBeLessThan(saver.timeInterval);
+            expect(high.distanceInterval).toBeLessThan(saver.distanceInterval);
+        });
+
+        it('should slow down without a distance filter while still', () => {
+            const still = samplingFor('high_accuracy', 'RUN', 0, true);
+            expect(still.timeInterval).toBe(TRACKING_PROFILES.high_accuracy.stillIntervalMs);
+            expect(still.distanceInterval).toBe(0);
+            expect(still.accuracy).toBe(Location.Accuracy.High);
+        });
+
+        it('should round intervals so small speed changes keep the same sampling', () => {
+            expect(sameSampling(
+                samplingFor('balanced', 'RUN', 3.0, false),
+                samplingFor('balanced', 'RUN', 3.1, false)
+            )).toBe(true);
+        });
+
+        it('should recognise profile names', () => {
+            expect(isTrackingProfile('battery_saver')).toBe(true);
+            expect(isTrackingProfile('turbo')).toBe(false);
+            expect(isTrackingProfile(null)).toBe(false);
+        });
+    });
+
+    describe('createGpsQualityTracker', () => {
+        it('should summarise accuracy, rejections and intervals', () => {
+            const tracker = createGpsQualityTracker();
+            for (let i = 0; i < 9; i++) tracker.add(i * 1000, 4, true);
+            tracker.add(9000, 40, false);
+
+            const quality = tracker.summary();
+            expect(quality.fixCount).toBe(10);
+            expect(quality.rejectedCount).toBe(1);
+            expect(quality.meanAccuracy).toBeCloseTo(7.6);
+            expect(quality.p90Accuracy).toBe(4);
+            expect(quality.meanInterval).toBe(1);
+            expect(quality.maxGap).toBe(1);
+        });
+
+        it('should not count a break as a gap', () => {
+            const tracker = createGpsQualityTracker();
+            tracker.add(0, 5, true);
+            tracker.add(2000, 5, true);
+            tracker.breakGap();
+            tracker.add(60_000, 5, true);
+            tracker.add(70_000, 5, true);
+            expect(tracker.summary().maxGap).toBe(10);
+            expect(tracker.summary().meanInterval).toBe(6);
+        });
+
+        it('should leave accuracy empty when no fix reports one', () => {
+            const tracker = createGpsQualityTracker();
+            tracker.add(0, null, true);
+            expect(tracker.summary()).toEqual({
+                fixCount: 1, rejectedCount: 0, meanAccuracy: null, p90Accuracy: null, meanInterval: null, maxGap: 0,
+            });
+        });
+
+        it('should rebuild from recorded segments without bridging them', () => {
+            const quality = trackGpsQuality([
+                [fix(0, 3), fix(1000, 3)],
+                [fix(600_000, 6), fix(603_000, 6)],
+            ]).summary();
+            expect(quality.fixCount).toBe(4);
+            expect(quality.maxGap).toBe(3);
+            expect(quality.meanAccuracy).toBe(4.5);
+        });
+    });
+});
@@ -0,0 +1,96 @@
+import { TerritoryInvasion } from '../lib/types';
+import {
+  buildInvasionDigest,
+  cancelDigest,
+  queueInvasion,
+  INVASION_DIGEST_MIN_INTERVAL_MS,
+  INVASION_DIGEST_WINDOW_MS,
+} from '../utils/invasionDigest';
+
+const invasion = (id: string, overrides: Partial<TerritoryInvasion> = {}): TerritoryInvasion => ({
+  id,
+  invadedUserId: 'me',
+  invaderUserId: 'rival',
+  invaderUsername: 'Rival',
+  invadedTerritoryId: 'terr-1',
+  newTerritoryId: `new-${id}`,
+  overlapArea: 500,
+  territoryWasDestroyed: false,
+  createdAt: 0,
+  seen: false,
+  ...overrides,
+});
+
+describe('queueInvasion', () => {
+  it('waits a moment before the first digest goes out', () => {
+    const batch = queueInvasion(null, invasion('a'), 1000);
+    expect(batch).toEqual({ invasions: [invasion('a')], sendAt: 1000 + INVASION_DIGEST_WINDOW_MS });
+  });
+
+  it('adds invasions to the digest still waiting, once each', () => {
+    let batch = queueInvasion(null, invasion('a'), 1000);
+    batch = queueInvasion(batch, invasion('b'), 2000);
+    batch = queueInvasion(batch, invasion('b'), 3000);
+    expect(batch.invasions.map(i => i.id)).toEqual(['a', 'b']);
+    expect(batch.sendAt).toBe(1000 + INVASION_DIGEST_WINDOW_MS);
+  });
+
+  it('holds the next digest until the minimum interval has passed', () => {
+    const sent = queueInvasion(null, invasion('a'), 0);
+    const next = queueInvasion(sent, invasion('b'), sent.sendAt + 1000);
+    expect(next.invasions.map(i => i.id)).toEqual(['b']);
+    expect(next.sendAt).toBe(sent.sendAt + INVASION_DIGEST_MIN_INTERVAL_MS);
+  });
+
+  it('sends after the usual wait once the interval is long past', () => {
+    const sent = queueInvasion(null, invasion('a'), 0);
+    const later = sent.sendAt + INVASION_DIGEST_MIN_INTERVAL_MS * 2;
+    expect(queueInvasion(sent, invasion('b'), later).sendAt).toBe(later + INVASION_DIGEST_WINDOW_MS);
+  });
+});
+
+describe('cancelDigest', () => {
+  it('forgets a first digest entirely', () => {
+    expect(cancelDigest(queueInvasion(null, invasion('a'), 0))).toBeNull();
+    expect(cancelDigest(null)).toBeNull();
+  });
+
+  it('keeps the minimum interval after the digest that already went out', () => {
+    const sent = queueInvasion(null, invasion('a'), 0);
+    const pending = queueInvasion(sent, invasion('b'), sent.sendAt + 1000);
+    const cancelled = cancelDigest(pending);
+    expect(cancelled).toEqual({ invasions: [], sendAt: sent.sendAt });
+
+    const next = queueInvasion(cancelled, invasion('c'), sent.sendAt + 2000);
+    expect(next.invasions.map(i => i.id)).toEqual(['c']);
+    expect(next.sendAt).toBe(sent.sendAt + INVASION_DIGEST_MIN_INTERVAL_MS);
+  });
+});
+
+describe('buildInvasionDigest', () => {
+  it('returns nothing for an empty batch', () => {
+    expect(buildInvasionDigest([])).toBeNull();
+  });
+
+  it('tells a single invasion as it happened', () => {
+    expect(buildInvasionDigest([invasion('a')])).toMatchObject({
+      title: 'Territory invaded!',
+      body: 'Rival took 500 m² of your territory',
+    });
+    expect(buildInvasionDigest([invasion('a', { territoryWasDestroyed: true })])!.body)
+      .toBe('Rival took one of your territories');
+  });
+
+  it('groups several invasions by invader and focuses on the biggest loss', () => {
+    const digest = buildInvasionDigest([
+      invasion('a', { invaderUserId: 'x', invaderUsername: 'Xena', overlapArea: 300 }),
+      invasion('b', { invaderUserId: 'y', invaderUsername: 'Yuri', overlapArea: 4000, invadedTerritoryId: 'terr-2' }),
+      invasion('c', { invaderUserId: 'x', invaderUsername: 'Xena', overlapArea: 200 }),
+      invasion('d', { invaderUserId: 'z', invaderUsername: 'Zed', overlapArea: 100 }),
+    ])!;
+
+    expect(digest.title).toBe('Under attack!');
+    expect(digest.body).toBe('Yuri, Xena and 1 other took 4600 m² from 2 of your territories');
+    expect(digest.focus.id).toBe('b');
+  });
+});
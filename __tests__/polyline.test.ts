@@ -0,0 +1,154 @@
+import {
+    encodeSegment,
+    decodeSegment,
+    encodeTrack,
+    decodeTrack,
+    isEncodedTrack,
+    simplifyPath,
+    simplifyTrack,
+} from '../utils/polyline';
+import { GPSPoint } from '../lib/types';
+
+const point = (lat: number, lng: number, timestamp: number, extra: Partial<GPSPoint> = {}): GPSPoint => ({
+    lat, lng, timestamp, speed: 2.5, accuracy: 4.2, altitude: 12.3, ...extra,
+});
+
+// ~1m steps north, one fix a second
+const straightTrack = (count: number, startLat = 37.7749): GPSPoint[] =>
+    Array.from({ length: count }, (_, i) => point(startLat + i * 0.00001, -122.4194, 1_700_000_000_000 + i * 1000));
+
+describe('polyline', () => {
+    describe('encodeSegment / decodeSegment', () => {
+        it('should round-trip points to storage precision', () => {
+            const points = [
+                point(37.774929, -122.419416, 1_700_000_000_123),
+                point(37.774981, -122.419302, 1_700_000_000_923, { speed: 0, accuracy: 30, altitude: -3.4 }),
+                point(-33.868820, 151.209290, 1_700_000_060_000, { speed: 27.78, altitude: 8848.9 }),
+            ];
+            const decoded = decodeSegment(encodeSegment(points));
+
+            expect(decoded).toHaveLength(3);
+            decoded.forEach((p, i) => {
+                expect(p.lat).toBeCloseTo(points[i].lat, 6);
+                expect(p.lng).toBeCloseTo(points[i].lng, 6);
+                expect(p.timestamp).toBe(points[i].timestamp);
+                expect(p.speed).toBeCloseTo(points[i].speed!, 2);
+                expect(p.accuracy).toBeCloseTo(points[i].accuracy!, 1);
+                expect(p.altitude).toBeCloseTo(points[i].altitude!, 1);
+            });
+        });
+
+        it('should keep missing values missing and zero as zero', () => {
+            const [decoded] = decodeSegment(encodeSegment([
+                point(37.7749, -122.4194, 1000, { speed: null, accuracy: null, altitude: 0 }),
+            ]));
+            expect(decoded.speed).toBeNull();
+            expect(decoded.accuracy).toBeNull();
+            expect(decoded.altitude).toBe(0);
+        });
+
+        it('should drop points without a position', () => {
+            const decoded = decodeSegment(encodeSegment([
+                point(37.7749, -122.4194, 1000),
+                point(NaN, -122.4194, 2000),
+                point(37.7750, -122.4194, 3000),
+            ]));
+            expect(decoded.map(p => p.timestamp)).toEqual([1000, 3000]);
+        });
+
+        it('should be far smaller than JSON', () => {
+            const points = straightTrack(1000);
+            expect(encodeSegment(points).length).toBeLessThan(JSON.stringify(points).length / 5);
+        });
+
+        it('should keep mocked fixes flagged', () => {
+            const decoded = decodeSegment(encodeSegment([
+                point(37.7749, -122.4194, 1000, { mocked: true }),
+                point(37.7750, -122.4194, 2000),
+            ]));
+            expect(decoded[0].mocked).toBe(true);
+            expect(decoded[1]).not.toHaveProperty('mocked');
+        });
+
+        it('should stop at characters outside the encoding', () => {
+            const encoded = encodeSegment(straightTrack(3));
+            expect(decodeSegment(encoded + ' garbage')).toHaveLength(3);
+        });
+    });
+
+    describe('encodeTrack / decodeTrack', () => {
+        it('should round-trip segments, empty ones included', () => {
+            const segments = [straightTrack(5), [], straightTrack(3, 37.78)];
+            const encoded = encodeTrack(segments);
+            expect(isEncodedTrack(encoded)).toBe(true);
+
+            const decoded = decodeTrack(JSON.parse(JSON.stringify(encoded)));
+            expect(decoded.map(s => s.length)).toEqual([5, 0, 3]);
+            expect(decoded[2][0].lat).toBeCloseTo(37.78, 6);
+        });
+
+        it('should keep mocked through a stored track', () => {
+            const segments = [straightTrack(3).map((p, i) => (i === 1 ? { ...p, mocked: true } : p))];
+            const decoded = decodeTrack(JSON.parse(JSON.stringify(encodeTrack(segments))));
+            expect(decoded[0].map(p => p.mocked === true)).toEqual([false, true, false]);
+        });
+
+        it('should read version 1 tracks, which carry no flags', () => {
+            const decoded = decodeTrack({ format: 'conqr-track', version: 1, segments: ['gbr`gAnk{nhFo}@uNuAwFgE?o}@???'] });
+            expect(decoded[0]).toHaveLength(2);
+            expect(decoded[0][0]).toMatchObject({ lat: 37.7749, lng: -122.4194, timestamp: 1000, speed: 2.5, accuracy: 4.2, altitude: 12.3 });
+            expect(decoded[0][1]).toMatchObject({ lat: 37.775, timestamp: 2000, speed: null });
+            expect(decoded[0][1]).not.toHaveProperty('mocked');
+        });
+
+        it('should read legacy arrays and JSON strings as they are', () => {
+            const legacy = [straightTrack(2)];
+            expect(decodeTrack(legacy)).toBe(legacy);
+            expect(decodeTrack(JSON.stringify(legacy))).toEqual(legacy);
+            expect(decodeTrack(JSON.stringify(encodeTrack(legacy)))[0]).toHaveLength(2);
+        });
+
+        it('should give an empty track for anything unreadable', () => {
+            expect(decodeTrack(null)).toEqual([]);
+            expect(decodeTrack('not json')).toEqual([]);
+            expect(decodeTrack({ format: 'other' })).toEqual([]);
+        });
+    });
+
+    describe('simplifyPath', () => {
+        it('should collapse a straight line to its ends', () => {
+            const line = straightTrack(200);
+            const simplified = simplifyPath(line, 1);
+            expect(simplified).toEqual([line[0], line[199]]);
+        });
+
+        it('should keep corners beyond the tolerance', () => {
+            // 100m east, then 100m north
+            const east = Array.from({ length: 11 }, (_, i) => point(37.7749, -122.4194 + i * 0.000113, i * 1000));
+            const north = Array.from({ length: 10 }, (_, i) => point(37.7749 + (i + 1) * 0.00009, east[10].lng, (11 + i) * 1000));
+            const simplified = simplifyPath([...east, ...north], 2);
+            expect(simplified).toEqual([east[0], east[10], north[9]]);
+        });
+
+        it('should keep wiggles only when they exceed the tolerance', () => {
+            // Zig-zag ~3m either side of a line north
+            const zigzag = Array.from({ length: 50 }, (_, i) =>
+                point(37.7749 + i * 0.0001, -122.4194 + (i % 2 ? 0.000034 : -0.000034), i * 1000));
+            expect(simplifyPath(zigzag, 10)).toHaveLength(2);
+            expect(simplifyPath(zigzag, 1).length).toBeGreaterThan(40);
+        });
+
+        it('should handle long tracks without recursion limits', () => {
+            const long = Array.from({ length: 50000 }, (_, i) =>
+                point(37.7749 + i * 0.00001, -122.4194 + Math.sin(i / 50) * 0.001, i * 1000));
+            const simplified = simplifyPath(long, 5);
+            expect(simplified.length).toBeGreaterThan(2);
+            expect(simplified.length).toBeLessThan(long.length / 5);
+        });
+
+        it('should simplify each segment on its own', () => {
+            const simplified = simplifyTrack([straightTrack(10), straightTrack(10, 37.78)], 1);
+            expect(simplified.map(s => s.length)).toEqual([2, 2]);
+        });
+    });
+});
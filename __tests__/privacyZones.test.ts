@@ -0,0 +1,70 @@
+import { GPSPoint, PrivacyZone, TerritoryRing } from '../lib/types';
+import { clipToPrivacyZones, isInPrivacyZone, polygonOverlapsPrivacyZone } from '../utils/privacyZones';
+
+const METERS_PER_DEGREE_LAT = 111320;
+const HOME = { lat: 37.7749, lng: -122.4194 };
+
+const home: PrivacyZone = { id: 'zone-1', userId: 'user-1', center: HOME, radius: 200 };
+
+// Fixes every 50 m heading north from `startNorth` meters past home
+const northFrom = (startNorth: number, count: number): GPSPoint[] =>
+  Array.from({ length: count }, (_, i) => ({
+    lat: HOME.lat + (startNorth + i * 50) / METERS_PER_DEGREE_LAT,
+    lng: HOME.lng,
+    timestamp: i * 20000,
+    speed: 2.5,
+    accuracy: 5,
+    altitude: null,
+  }));
+
+// A square ring `size` meters across with its south-west corner `offset` meters north-east of home
+const square = (offset: number, size: number): TerritoryRing => {
+  const lat = (m: number) => HOME.lat + m / METERS_PER_DEGREE_LAT;
+  const lng = (m: number) => HOME.lng + m / (METERS_PER_DEGREE_LAT * Math.cos((HOME.lat * Math.PI) / 180));
+  return [
+    [lng(offset), lat(offset)],
+    [lng(offset + size), lat(offset)],
+    [lng(offset + size), lat(offset + size)],
+    [lng(offset), lat(offset + size)],
+    [lng(offset), lat(offset)],
+  ];
+};
+
+describe('privacy zones', () => {
+  it('tells whether a position is inside a zone', () => {
+    expect(isInPrivacyZone(HOME, [home])).toBe(true);
+    expect(isInPrivacyZone(northFrom(150, 1)[0], [home])).toBe(true);
+    expect(isInPrivacyZone(northFrom(250, 1)[0], [home])).toBe(false);
+    expect(isInPrivacyZone(HOME, [])).toBe(false);
+  });
+
+  it('clips the start and end of a route that leaves from home', () => {
+    const outAndBack = [...northFrom(0, 20), ...northFrom(0, 20).reverse()];
+    const clipped = clipToPrivacyZones([outAndBack], [home]);
+    expect(clipped).toHaveLength(1);
+    expect(clipped[0].every(p => !isInPrivacyZone(p, [home]))).toBe(true);
+    expect(clipped[0].length).toBe(outAndBack.length - 10);
+  });
+
+  it('splits a segment that passes through a zone', () => {
+    const through = northFrom(-600, 25); // -600 m to +600 m
+    const clipped = clipToPrivacyZones([through], [home]);
+    expect(clipped).toHaveLength(2);
+    expect(clipped[0][clipped[0].length - 1].lat).toBeLessThan(HOME.lat);
+    expect(clipped[1][0].lat).toBeGreaterThan(HOME.lat);
+  });
+
+  it('drops pieces too short to draw and leaves tracks alone without zones', () => {
+    const track = [northFrom(150, 3)]; // 150, 200, 250 m: only the last is outside
+    expect(clipToPrivacyZones(track, [home])).toEqual([]);
+    expect(clipToPrivacyZones(track, [])).toBe(track);
+  });
+
+  it('finds territories that cover or come near a zone', () => {
+    expect(polygonOverlapsPrivacyZone(square(-300, 600), [home])).toBe(true); // home inside
+    expect(polygonOverlapsPrivacyZone(square(100, 400), [home])).toBe(true); // corner ~141 m away
+    expect(polygonOverlapsPrivacyZone(square(300, 400), [home])).toBe(false); // corner ~424 m away
+    expect(polygonOverlapsPrivacyZone([[square(-300, 600)]], [home])).toBe(true);
+    expect(polygonOverlapsPrivacyZone(square(-300, 600), [])).toBe(false);
+  });
+});
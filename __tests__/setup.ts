@@ -44,6 +44,9 @@ jest.mock('../lib/supabase', () => ({
       })),
       insert: jest.fn(() => ({ error: null })),
       upsert: jest.fn(() => ({ error: null })),
+      update: jest.fn(() => ({
+        eq: jest.fn(() => ({ error: null }))
+      })),
       delete: jest.fn(() => ({
         eq: jest.fn(() => ({ error: null }))
       })),
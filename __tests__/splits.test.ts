@@ -0,0 +1,69 @@
+import { createSplitAccumulator, findSplitExtremes, closeLaps, splitPace } from '../utils/splits';
+import { ActivitySplit } from '../lib/types';
+
+const split = (distance: number, duration: number, endTime = 0): ActivitySplit => ({ distance, duration, endTime });
+
+describe('splits', () => {
+    describe('createSplitAccumulator', () => {
+        it('should close a split at each boundary with interpolated time', () => {
+            const acc = createSplitAccumulator('km');
+            expect(acc.add(600, 300_000, 300_000)).toEqual([]);
+            // Boundary is 400m into this 800m step, i.e. halfway through it
+            const closed = acc.add(800, 400_000, 700_000);
+            expect(closed).toEqual([split(1000, 500, 500_000)]);
+            expect(acc.finish()).toEqual([split(1000, 500, 500_000), split(400, 200, 700_000)]);
+        });
+
+        it('should close several splits from one long step', () => {
+            const acc = createSplitAccumulator('km');
+            expect(acc.add(2500, 1_000_000, 1_000_000)).toHaveLength(2);
+            expect(acc.completed.map(s => s.duration)).toEqual([400, 400]);
+        });
+
+        it('should use mile boundaries', () => {
+            const acc = createSplitAccumulator('mi');
+            expect(acc.add(1500, 600_000, 600_000)).toEqual([]);
+            expect(acc.add(200, 60_000, 660_000)).toHaveLength(1);
+        });
+
+        it('should ignore empty steps', () => {
+            const acc = createSplitAccumulator('km');
+            acc.add(0, 5000, 5000);
+            acc.add(NaN, 5000, 10000);
+            expect(acc.finish()).toEqual([]);
+        });
+    });
+
+    describe('findSplitExtremes', () => {
+        it('should pick the fastest and slowest full splits', () => {
+            const splits = [split(1000, 300), split(1000, 280), split(1000, 330), split(200, 30)];
+            expect(findSplitExtremes(splits, 'km', 1000)).toEqual({ fastest: 1, slowest: 2 });
+        });
+
+        it('should not rank a single split', () => {
+            expect(findSplitExtremes([split(1000, 300), split(400, 100)], 'km', 1000))
+                .toEqual({ fastest: -1, slowest: -1 });
+        });
+
+        it('should express pace per unit', () => {
+            expect(splitPace(split(1000, 300), 'km')).toBe(300);
+            expect(splitPace(split(1000, 300), 'mi')).toBeCloseTo(482.8, 1);
+            expect(splitPace(split(0, 0), 'km')).toBe(0);
+        });
+    });
+
+    describe('closeLaps', () => {
+        it('should append the open lap', () => {
+            const laps = closeLaps([split(800, 240, 1000)], 1500, 500, 2000);
+            expect(laps).toEqual([split(800, 240, 1000), split(700, 260, 2000)]);
+        });
+
+        it('should stay empty without manual laps', () => {
+            expect(closeLaps([], 1500, 500, 2000)).toEqual([]);
+        });
+
+        it('should not add an empty trailing lap', () => {
+            expect(closeLaps([split(1500, 500, 2000)], 1500, 500, 2000)).toHaveLength(1);
+        });
+    });
+});
@@ -0,0 +1,99 @@
+import { GPSPoint } from '../lib/types';
+import { analyzeTrack, SUSPICION_FLAG_SCORE } from '../utils/spoofing';
+
+const METERS_PER_DEGREE_LAT = 111320;
+
+// Realistic fixes: speed and accuracy wobble the way a real receiver's do
+const track = (
+  seconds: number,
+  speed: number,
+  options: { startAt?: number; startNorth?: number; intervalMs?: number; jitter?: boolean } = {}
+): GPSPoint[] => {
+  const intervalMs = options.intervalMs ?? 2000;
+  const startAt = options.startAt ?? 0;
+  const jitter = options.jitter ?? true;
+  const points: GPSPoint[] = [];
+  let north = options.startNorth ?? 0;
+  for (let t = 0, i = 0; t <= seconds * 1000; t += intervalMs, i++) {
+    if (i > 0) north += speed * (intervalMs / 1000);
+    points.push({
+      lat: 37.7749 + north / METERS_PER_DEGREE_LAT,
+      lng: -122.4194,
+      timestamp: startAt + t,
+      speed: jitter ? speed + Math.sin(i) * 0.3 : speed,
+      accuracy: jitter ? 4 + (i % 5) : 5,
+      altitude: null,
+    });
+  }
+  return points;
+};
+
+const codes = (segments: GPSPoint[][], type: 'WALK' | 'RUN' | 'RIDE' = 'RUN') =>
+  analyzeTrack(segments, type).reasons.map(r => r.code);
+
+describe('analyzeTrack', () => {
+  it('passes an ordinary run', () => {
+    const result = analyzeTrack([track(600, 3)], 'RUN');
+    expect(result.reasons).toEqual([]);
+    expect(result.score).toBe(0);
+    expect(result.flagged).toBe(false);
+  });
+
+  it('flags fixes from a mock location provider', () => {
+    const points = track(300, 3).map(p => ({ ...p, mocked: true }));
+    const result = analyzeTrack([points], 'RUN');
+    expect(result.reasons.map(r => r.code)).toEqual(['mock_location']);
+    expect(result.flagged).toBe(true);
+  });
+
+  it('weighs a single mocked fix less than a mocked track', () => {
+    const points = track(600, 3);
+    points[10] = { ...points[10], mocked: true };
+    const result = analyzeTrack([points], 'RUN');
+    expect(result.reasons[0].code).toBe('mock_location');
+    expect(result.flagged).toBe(false);
+  });
+
+  it('finds teleports within and across segments', () => {
+    const first = track(120, 3);
+    first[30] = { ...first[30], lat: first[30].lat + 1000 / METERS_PER_DEGREE_LAT };
+    expect(codes([first])).toEqual(['teleport']);
+
+    const a = track(120, 3);
+    const b = track(120, 3, { startAt: 125000, startNorth: 5000 });
+    expect(codes([a, b])).toEqual(['teleport']);
+
+    // A short hop across a long pause is just walking around
+    const c = track(120, 3, { startAt: 400000, startNorth: 360 + 150 });
+    expect(codes([a, c])).toEqual([]);
+  });
+
+  it('flags sustained vehicle speed but not a short burst', () => {
+    const drive = track(240, 15, { startAt: 302000, startNorth: 900 });
+    const result = analyzeTrack([[...track(300, 3), ...drive]], 'RUN');
+    expect(result.reasons.map(r => r.code)).toEqual(['vehicle_speed']);
+    expect(result.reasons[0].weight).toBeGreaterThan(0.5);
+
+    const burst = track(20, 15, { startAt: 302000, startNorth: 900 });
+    expect(codes([[...track(300, 3), ...burst]])).toEqual([]);
+
+    // The same speeds are a normal ride
+    expect(codes([track(600, 12)], 'RIDE')).toEqual([]);
+  });
+
+  it('flags accuracy and speed that never change, together enough to flag', () => {
+    const result = analyzeTrack([track(300, 3, { jitter: false })], 'RUN');
+    expect(result.reasons.map(r => r.code).sort()).toEqual(['constant_accuracy', 'constant_speed']);
+    expect(result.score).toBeGreaterThanOrEqual(SUSPICION_FLAG_SCORE);
+    expect(result.flagged).toBe(true);
+  });
+
+  it('needs enough fixes before calling anything constant', () => {
+    expect(codes([track(60, 3, { jitter: false })])).toEqual([]);
+  });
+
+  it('handles empty and malformed input', () => {
+    expect(analyzeTrack([], 'WALK')).toEqual({ score: 0, reasons: [], flagged: false });
+    expect(analyzeTrack([[], [{ lat: NaN, lng: 0, timestamp: 0, speed: null, accuracy: null, altitude: null }]], 'WALK').flagged).toBe(false);
+  });
+});
@@ -0,0 +1,73 @@
+import {
+    isMultiPolygon, toMultiPolygon, fromMultiPolygon, outerRings, allRings, hasPolygon,
+} from '../utils/territoryGeometry';
+import { territoryPolygonToSvg } from '../utils/shareCardUtils';
+import { TerritoryMultiPolygon, TerritoryRing } from '../lib/types';
+
+const square = (cLng: number, cLat: number, half: number): TerritoryRing => [
+    [cLng - half, cLat - half],
+    [cLng + half, cLat - half],
+    [cLng + half, cLat + half],
+    [cLng - half, cLat + half],
+    [cLng - half, cLat - half],
+];
+
+const ring = square(-122.42, 37.77, 0.002);
+const hole = square(-122.42, 37.77, 0.0005);
+const island = square(-122.41, 37.77, 0.001);
+const multi: TerritoryMultiPolygon = [[ring, hole], [island]];
+
+describe('territoryGeometry', () => {
+    it('should tell the two shapes apart', () => {
+        expect(isMultiPolygon(ring)).toBe(false);
+        expect(isMultiPolygon(multi)).toBe(true);
+        expect(isMultiPolygon([])).toBe(false);
+    });
+
+    it('should wrap a single ring as a one-part MultiPolygon', () => {
+        expect(toMultiPolygon(ring)).toEqual([[ring]]);
+        expect(toMultiPolygon(multi)).toEqual(multi);
+    });
+
+    it('should drop invalid positions, degenerate holes and parts without an outer ring', () => {
+        const messy: any = [
+            [[...ring.slice(0, 2), [NaN, 1], ...ring.slice(2)], [[0, 0], [1, 1]]],
+            [[[0, 0], [1, 1]]],
+        ];
+        expect(toMultiPolygon(messy)).toEqual([[ring]]);
+        expect(toMultiPolygon(null)).toEqual([]);
+        expect(hasPolygon([[0, 0], [1, 1]])).toBe(false);
+    });
+
+    it('should collapse a single part without holes back to a ring', () => {
+        expect(fromMultiPolygon([[ring]])).toEqual(ring);
+        expect(fromMultiPolygon([[ring, hole]])).toEqual([[ring, hole]]);
+        expect(fromMultiPolygon(multi)).toEqual(multi);
+    });
+
+    it('should list outer rings and all rings', () => {
+        expect(outerRings(multi)).toEqual([ring, island]);
+        expect(allRings(multi)).toEqual([ring, hole, island]);
+        expect(outerRings(ring)).toEqual([ring]);
+    });
+
+    describe('territoryPolygonToSvg', () => {
+        it('should draw one closed subpath per ring', () => {
+            const { path } = territoryPolygonToSvg(multi, 300, 200);
+            expect(path.match(/M/g)).toHaveLength(3);
+            expect(path.match(/Z/g)).toHaveLength(3);
+        });
+
+        it('should handle a legacy single ring', () => {
+            const { path, center } = territoryPolygonToSvg(ring, 300, 200);
+            expect(path.startsWith('M')).toBe(true);
+            expect(path.match(/M/g)).toHaveLength(1);
+            expect(center.x).toBeCloseTo(150, 0);
+            expect(center.y).toBeCloseTo(100, 0);
+        });
+
+        it('should return an empty path when there is nothing to draw', () => {
+            expect(territoryPolygonToSvg([], 300, 200)).toEqual({ path: '', center: { x: 150, y: 100 } });
+        });
+    });
+});
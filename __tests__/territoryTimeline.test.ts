@@ -0,0 +1,55 @@
+import { TerritoryClaimEvent } from '../lib/types';
+import { buildTerritoryTimeline, timelineUserIds } from '../utils/territoryTimeline';
+
+const territory = (history: TerritoryClaimEvent[]) => ({
+  ownerId: 'owner',
+  activityId: 'act-latest',
+  claimedAt: 5000,
+  history,
+});
+
+describe('buildTerritoryTimeline', () => {
+  it('orders events oldest first and tells claims, extensions and invasions apart', () => {
+    const timeline = buildTerritoryTimeline(territory([
+      { claimedBy: 'owner', claimedAt: 3000, activityId: 'act-2' },
+      { previousOwnerId: 'owner', claimedBy: 'rival', claimedAt: 2000, activityId: 'rival-1' },
+      { claimedBy: 'owner', claimedAt: 1000, activityId: 'act-1' },
+    ]));
+
+    expect(timeline.map(e => [e.kind, e.activityId])).toEqual([
+      ['claimed', 'act-1'],
+      ['invaded', 'rival-1'],
+      ['extended', 'act-2'],
+    ]);
+  });
+
+  it('keeps an event once when merged histories repeat it', () => {
+    const event = { claimedBy: 'owner', claimedAt: 1000, activityId: 'act-1' };
+    expect(buildTerritoryTimeline(territory([event, { ...event }]))).toHaveLength(1);
+  });
+
+  it('skips malformed events', () => {
+    const timeline = buildTerritoryTimeline(territory([
+      { claimedBy: 'owner', claimedAt: 1000, activityId: 'act-1' },
+      { claimedBy: '', claimedAt: 2000, activityId: 'act-2' },
+      { claimedBy: 'owner', claimedAt: NaN, activityId: 'act-3' },
+    ]));
+    expect(timeline.map(e => e.activityId)).toEqual(['act-1']);
+  });
+
+  it('falls back to the claim that made the territory when there is no history', () => {
+    expect(buildTerritoryTimeline(territory([]))).toEqual([
+      { claimedBy: 'owner', claimedAt: 5000, activityId: 'act-latest', kind: 'claimed' },
+    ]);
+  });
+});
+
+describe('timelineUserIds', () => {
+  it('lists claimants and previous owners once each', () => {
+    const timeline = buildTerritoryTimeline(territory([
+      { claimedBy: 'owner', claimedAt: 1000, activityId: 'act-1' },
+      { previousOwnerId: 'owner', claimedBy: 'rival', claimedAt: 2000, activityId: 'rival-1' },
+    ]));
+    expect(timelineUserIds(timeline)).toEqual(['owner', 'rival']);
+  });
+});
@@ -0,0 +1,357 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+    View, Text, StyleSheet, Modal, TouchableOpacity, ScrollView, Switch,
+    PanResponder, LayoutChangeEvent, ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { X } from 'lucide-react-native';
+import { Activity, ActivityEdit } from '../lib/types';
+import { ActivityService } from '../services/ActivityService';
+import { formatDistance, formatDuration } from '../utils/shareCardUtils';
+
+interface ActivityTrimEditorProps {
+    visible: boolean;
+    activity: Activity;
+    saving?: boolean;
+    onCancel: () => void;
+    onSave: (edit: ActivityEdit) => void;
+}
+
+const HANDLE_WIDTH = 28;
+const TIMELINE_HEIGHT = 48;
+// Handles never cross: at least this much of the activity stays selected
+const MIN_RANGE_MS = 5000;
+
+const formatClock = (timestamp: number): string =>
+    new Date(timestamp).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+export default function ActivityTrimEditor({
+    visible,
+    activity,
+    saving = false,
+    onCancel,
+    onSave,
+}: ActivityTrimEditorProps) {
+    const segments = useMemo(
+        () => (activity.polylines || []).map((segment, index) => ({ segment, index })).filter(s => s.segment.length > 0),
+        [activity]
+    );
+    const first = segments[0]?.segment[0]?.timestamp ?? activity.startTime;
+    const lastSegment = segments[segments.length - 1]?.segment;
+    const last = lastSegment ? lastSegment[lastSegment.length - 1].timestamp : (activity.endTime ?? first);
+    const span = Math.max(1, last - first);
+
+    const [range, setRange] = useState({ start: first, end: last });
+    const [dropped, setDropped] = useState<number[]>([]);
+    const [width, setWidth] = useState(0);
+
+    // Start over from the whole activity each time the editor opens
+    useEffect(() => {
+        if (visible) {
+            setRange({ start: first, end: last });
+            setDropped([]);
+        }
+    }, [visible, first, last]);
+
+    // PanResponders are made once, so they read the latest values through refs
+    const live = useRef({ range, width, first, last, span });
+    live.current = { range, width, first, last, span };
+
+    const makeHandle = (edge: 'start' | 'end') => {
+        let grabbedAt = 0;
+        return PanResponder.create({
+            onStartShouldSetPanResponder: () => true,
+            onMoveShouldSetPanResponder: () => true,
+            onPanResponderGrant: () => {
+                grabbedAt = live.current.range[edge];
+            },
+            onPanResponderMove: (_, gesture) => {
+                const { width: w, first: lo, last: hi, span: total } = live.current;
+                if (w <= 0) return;
+                const moved = grabbedAt + (gesture.dx / w) * total;
+                setRange(current => edge === 'start'
+                    ? { ...current, start: Math.min(Math.max(lo, moved), current.end - MIN_RANGE_MS) }
+                    : { ...current, end: Math.max(Math.min(hi, moved), current.start + MIN_RANGE_MS) });
+            },
+        });
+    };
+    const startHandle = useRef(makeHandle('start')).current;
+    const endHandle = useRef(makeHandle('end')).current;
+
+    const edit: ActivityEdit = useMemo(
+        () => ({ startTime: Math.round(range.start), endTime: Math.round(range.end), droppedSegments: dropped }),
+        [range, dropped]
+    );
+    const preview = useMemo(() => ActivityService.applyEdit(activity, edit), [activity, edit]);
+    const unchanged = range.start <= first && range.end >= last && dropped.length === 0;
+
+    const toggleSegment = (index: number) =>
+        setDropped(current => current.includes(index) ? current.filter(i => i !== index) : [...current, index]);
+
+    const x = (timestamp: number) => ((timestamp - first) / span) * width;
+    const onLayout = (e: LayoutChangeEvent) => setWidth(e.nativeEvent.layout.width);
+
+    return (
+        <Modal visible={visible} animationType="slide" onRequestClose={onCancel}>
+            <SafeAreaView style={styles.container}>
+                <View style={styles.header}>
+                    <TouchableOpacity style={styles.closeBtn} onPress={onCancel}>
+                        <X color="#1A1A1A" size={24} />
+                    </TouchableOpacity>
+                    <Text style={styles.headerTitle}>Trim Activity</Text>
+                    <View style={styles.closeBtn} />
+                </View>
+
+                <ScrollView contentContainerStyle={styles.content}>
+                    <Text style={styles.hint}>
+                        Drag the handles to cut off the start or end, and switch off any segment to drop it.
+                    </Text>
+
+                    <View style={styles.timeline} onLayout={onLayout}>
+                        {width > 0 && segments.map(({ segment, index }) => {
+                            const left = x(segment[0].timestamp);
+                            const right = x(segment[segment.length - 1].timestamp);
+                            return (
+                                <View
+                                    key={index}
+                                    style={[
+                                        styles.segmentBar,
+                                        dropped.includes(index) && styles.segmentDropped,
+                                        { left, width: Math.max(2, right - left) },
+                                    ]}
+                                />
+                            );
+                        })}
+                        {width > 0 && (
+                            <>
+                                <View style={[styles.trimmed, { left: 0, width: x(range.start) }]} />
+                                <View style={[styles.trimmed, { left: x(range.end), right: 0 }]} />
+                                <View
+                                    {...startHandle.panHandlers}
+                                    style={[styles.handle, { left: x(range.start) - HANDLE_WIDTH / 2 }]}
+                                >
+                                    <View style={styles.handleGrip} />
+                                </View>
+                                <View
+                                    {...endHandle.panHandlers}
+                                    style={[styles.handle, { left: x(range.end) - HANDLE_WIDTH / 2 }]}
+                                >
+                                    <View style={styles.handleGrip} />
+                                </View>
+                            </>
+                        )}
+                    </View>
+                    <View style={styles.timeRow}>
+                        <Text style={styles.timeText}>{formatClock(range.start)}</Text>
+                        <Text style={styles.timeText}>{formatClock(range.end)}</Text>
+                    </View>
+
+                    {segments.length > 1 && (
+                        <View style={styles.segmentList}>
+                            <Text style={styles.sectionTitle}>Segments</Text>
+                            {segments.map(({ segment, index }, i) => (
+                                <View key={index} style={styles.segmentRow}>
+                                    <View style={styles.segmentInfo}>
+                                        <Text style={styles.segmentName}>Segment {i + 1}</Text>
+                                        <Text style={styles.segmentMeta}>
+                                            {formatClock(segment[0].timestamp)} – {formatClock(segment[segment.length - 1].timestamp)}
+                                            {' · '}
+                                            {formatDistance(ActivityService.calculateDistance(segment))}
+                                        </Text>
+                                    </View>
+                                    <Switch
+                                        value={!dropped.includes(index)}
+                                        onValueChange={() => toggleSegment(index)}
+                                        trackColor={{ true: '#E65100', false: '#E0E0E0' }}
+                                    />
+                                </View>
+                            ))}
+                        </View>
+                    )}
+
+                    <View style={styles.summary}>
+                        {preview ? (
+                            <>
+                                <View style={styles.summaryItem}>
+                                    <Text style={styles.summaryValue}>{formatDistance(preview.distance)}</Text>
+                                    <Text style={styles.summaryLabel}>was {formatDistance(activity.distance)}</Text>
+                                </View>
+                                <View style={styles.summaryItem}>
+                                    <Text style={styles.summaryValue}>{formatDuration(preview.duration)}</Text>
+                                    <Text style={styles.summaryLabel}>was {formatDuration(activity.duration)}</Text>
+                                </View>
+                            </>
+                        ) : (
+                            <Text style={styles.invalidText}>Too little would be left to save as an activity.</Text>
+                        )}
+                    </View>
+                </ScrollView>
+
+                <View style={styles.actions}>
+                    <TouchableOpacity
+                        style={[styles.saveBtn, (!preview || unchanged || saving) && styles.saveBtnDisabled]}
+                        disabled={!preview || unchanged || saving}
+                        onPress={() => onSave(edit)}
+                    >
+                        {saving ? (
+                            <ActivityIndicator color="#FFFFFF" />
+                        ) : (
+                            <Text style={styles.saveBtnText}>Save Changes</Text>
+                        )}
+                    </TouchableOpacity>
+                </View>
+            </SafeAreaView>
+        </Modal>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        backgroundColor: '#FFFFFF',
+    },
+    header: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        paddingHorizontal: 20,
+        paddingVertical: 16,
+    },
+    closeBtn: {
+        width: 40,
+        height: 40,
+        alignItems: 'center',
+        justifyContent: 'center',
+    },
+    headerTitle: {
+        color: '#1A1A1A',
+        fontSize: 18,
+        fontWeight: '600',
+    },
+    content: {
+        paddingHorizontal: 20,
+        paddingBottom: 20,
+    },
+    hint: {
+        fontSize: 14,
+        color: '#666666',
+        marginBottom: 24,
+    },
+    timeline: {
+        height: TIMELINE_HEIGHT,
+        marginHorizontal: HANDLE_WIDTH / 2,
+        backgroundColor: '#F5F5F5',
+        borderRadius: 8,
+    },
+    segmentBar: {
+        position: 'absolute',
+        top: 12,
+        bottom: 12,
+        backgroundColor: '#E65100',
+        borderRadius: 4,
+    },
+    segmentDropped: {
+        backgroundColor: '#BDBDBD',
+    },
+    trimmed: {
+        position: 'absolute',
+        top: 0,
+        bottom: 0,
+        backgroundColor: 'rgba(255, 255, 255, 0.7)',
+    },
+    handle: {
+        position: 'absolute',
+        top: -4,
+        bottom: -4,
+        width: HANDLE_WIDTH,
+        alignItems: 'center',
+        justifyContent: 'center',
+    },
+    handleGrip: {
+        width: 8,
+        height: '100%',
+        borderRadius: 4,
+        backgroundColor: '#1A1A1A',
+    },
+    timeRow: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        marginTop: 8,
+    },
+    timeText: {
+        fontSize: 12,
+        color: '#999999',
+    },
+    segmentList: {
+        marginTop: 28,
+    },
+    sectionTitle: {
+        fontSize: 16,
+        fontWeight: '600',
+        color: '#1A1A1A',
+        marginBottom: 8,
+    },
+    segmentRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingVertical: 10,
+        borderBottomWidth: 1,
+        borderBottomColor: '#F0F0F0',
+    },
+    segmentInfo: {
+        flex: 1,
+    },
+    segmentName: {
+        fontSize: 15,
+        color: '#1A1A1A',
+    },
+    segmentMeta: {
+        fontSize: 12,
+        color: '#999999',
+        marginTop: 2,
+    },
+    summary: {
+        flexDirection: 'row',
+        justifyContent: 'space-around',
+        marginTop: 28,
+        padding: 16,
+        backgroundColor: '#FFF3E0',
+        borderRadius: 12,
+    },
+    summaryItem: {
+        alignItems: 'center',
+    },
+    summaryValue: {
+        fontSize: 20,
+        fontWeight: '700',
+        color: '#1A1A1A',
+    },
+    summaryLabel: {
+        fontSize: 12,
+        color: '#999999',
+        marginTop: 2,
+    },
+    invalidText: {
+        fontSize: 14,
+        color: '#D32F2F',
+    },
+    actions: {
+        paddingHorizontal: 20,
+        paddingVertical: 16,
+    },
+    saveBtn: {
+        alignItems: 'center',
+        justifyContent: 'center',
+        backgroundColor: '#E65100',
+        paddingVertical: 16,
+        borderRadius: 14,
+    },
+    saveBtnDisabled: {
+        opacity: 0.4,
+    },
+    saveBtnText: {
+        color: '#FFFFFF',
+        fontSize: 16,
+        fontWeight: '600',
+    },
+});
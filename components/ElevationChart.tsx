@@ -0,0 +1,77 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, StyleSheet, LayoutChangeEvent } from 'react-native';
+import Svg, { Path, Line } from 'react-native-svg';
+import { ElevationSample } from '../lib/types';
+
+interface ElevationChartProps {
+    profile: ElevationSample[];
+    height?: number;
+    color?: string;
+}
+
+// Flat routes still get a visible line instead of noise blown up to full height
+const MIN_ELEVATION_RANGE_M = 20;
+
+export default function ElevationChart({ profile, height = 120, color = '#E65100' }: ElevationChartProps) {
+    const [width, setWidth] = useState(0);
+
+    const chart = useMemo(() => {
+        if (width <= 0 || profile.length < 2) return null;
+
+        const startDistance = profile[0].distance;
+        const totalDistance = Math.max(1, profile[profile.length - 1].distance - startDistance);
+        let low = Infinity;
+        let high = -Infinity;
+        for (const sample of profile) {
+            low = Math.min(low, sample.elevation);
+            high = Math.max(high, sample.elevation);
+        }
+        const padding = Math.max(0, MIN_ELEVATION_RANGE_M - (high - low)) / 2;
+        low -= padding;
+        high += padding;
+
+        const x = (sample: ElevationSample) => ((sample.distance - startDistance) / totalDistance) * width;
+        const y = (sample: ElevationSample) => height - ((sample.elevation - low) / (high - low)) * height;
+
+        const line = profile.map((s, i) => `${i === 0 ? 'M' : 'L'}${x(s).toFixed(1)},${y(s).toFixed(1)}`).join(' ');
+        const area = `${line} L${width.toFixed(1)},${height} L0,${height} Z`;
+        return { line, area, low, high };
+    }, [profile, width, height]);
+
+    const onLayout = (e: LayoutChangeEvent) => setWidth(e.nativeEvent.layout.width);
+
+    return (
+        <View>
+            <View style={[styles.chartArea, { height }]} onLayout={onLayout}>
+                {chart && (
+                    <Svg width={width} height={height}>
+                        <Line x1={0} y1={height} x2={width} y2={height} stroke="#E0E0E0" strokeWidth={1} />
+                        <Path d={chart.area} fill={color} fillOpacity={0.15} />
+                        <Path d={chart.line} fill="none" stroke={color} strokeWidth={2} strokeLinejoin="round" />
+                    </Svg>
+                )}
+            </View>
+            {chart && (
+                <View style={styles.axisRow}>
+                    <Text style={styles.axisText}>{Math.round(chart.low)}m</Text>
+                    <Text style={styles.axisText}>{Math.round(chart.high)}m</Text>
+                </View>
+            )}
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    chartArea: {
+        width: '100%',
+    },
+    axisRow: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        marginTop: 4,
+    },
+    axisText: {
+        fontSize: 11,
+        color: '#999999',
+    },
+});
@@ -1,7 +1,9 @@
 import * as React from 'react';
 import { View, StyleSheet, ActivityIndicator } from 'react-native';
 import { WebView } from 'react-native-webview';
-import { GPSPoint, Territory } from '../lib/types';
+import { GPSPoint, Territory, TerritoryRing } from '../lib/types';
+import { GameEngine } from '../services/GameEngine';
+import { hasPolygon, toMultiPolygon } from '../utils/territoryGeometry';
 
 export interface MapContainerHandle {
     centerOnUser: () => void;
@@ -9,11 +11,18 @@ export interface MapContainerHandle {
     fitBounds: (bounds: [[number, number], [number, number]], padding?: number) => void;
 }
 
+export interface MapPreview {
+    polygon: TerritoryRing; // [lng, lat]
+    label?: string;
+}
+
 interface MapContainerProps {
     location: GPSPoint | null;
     path: GPSPoint[];
     territories?: Territory[];
+    preview?: MapPreview | null; // live claim preview, drawn dashed over everything else
     currentUserId?: string;
+    currentTeamId?: string; // teammates' territories are drawn solid, like the viewer's own
     style?: any;
     onReady?: () => void;
     onTerritoryPress?: (territory: { id: string; ownerId: string; ownerName: string }) => void;
@@ -51,6 +60,17 @@ const MAP_HTML = `
         .leaflet-marker-pane {
             will-change: transform;
         }
+        /* Live claim preview area */
+        .preview-label {
+            background: rgba(0, 0, 0, 0.7);
+            color: #fff;
+            border: none;
+            box-shadow: none;
+            font-weight: 600;
+        }
+        .preview-label::before {
+            display: none;
+        }
         /* User marker */
         .user-marker-container {
             position: relative;
@@ -228,6 +248,34 @@ const MAP_HTML = `
                 }
             };
 
+            var previewLayer = null;
+            window.updatePreview = function(coords, label) {
+                if (!map) return;
+                if (!coords || coords.length < 3) {
+                    if (previewLayer) { map.removeLayer(previewLayer); previewLayer = null; }
+                    return;
+                }
+                if (previewLayer) {
+                    previewLayer.setLatLngs(coords);
+                } else {
+                    previewLayer = L.polygon(coords, {
+                        color: '#FC4C02',
+                        weight: 2,
+                        opacity: 0.9,
+                        fillColor: '#FC4C02',
+                        fillOpacity: 0.12,
+                        dashArray: '6 6',
+                        interactive: false
+                    }).addTo(map);
+                }
+                if (label) {
+                    if (previewLayer.getTooltip()) previewLayer.setTooltipContent(label);
+                    else previewLayer.bindTooltip(label, { permanent: true, direction: 'center', className: 'preview-label' });
+                } else if (previewLayer.getTooltip()) {
+                    previewLayer.unbindTooltip();
+                }
+            };
+
             window.clearPath = function() {
                 if (pathLine) { map.removeLayer(pathLine); pathLine = null; }
                 if (startMarker) { map.removeLayer(startMarker); startMarker = null; }
@@ -253,8 +301,10 @@ const MAP_HTML = `
             };
 
             var currentUserId = null;
-            window.setCurrentUser = function(userId) {
+            var currentTeamId = null;
+            window.setCurrentUser = function(userId, teamId) {
                 currentUserId = userId;
+                currentTeamId = teamId || null;
             };
 
             window.updateTerritories = function(territories) {
@@ -273,21 +323,31 @@ const MAP_HTML = `
 
                 // Add or keep existing territories
                 territories.forEach(function(t) {
-                    if (!t.polygon || t.polygon.length <= 2) return;
-                    // Skip if already rendered
-                    if (territoryLayerMap[t.id]) return;
+                    // polygon is a list of parts, each [outer, ...holes] in [lat, lng]
+                    if (!t.polygon || t.polygon.length === 0) return;
 
                     var isOwn = currentUserId && t.ownerId === currentUserId;
-                    var color = isOwn ? '#FC4C02' : userColor(t.ownerId);
-
-                    var poly = L.polygon(t.polygon, {
+                    var isTeammate = !isOwn && currentTeamId && t.teamId === currentTeamId;
+                    // Team members share their team's color
+                    var color = isOwn ? '#FC4C02' : (t.teamColor || userColor(t.ownerId));
+                    // Decayed territories fade out; never fully, so they stay tappable
+                    var strength = typeof t.strength === 'number' ? Math.max(0.25, t.strength) : 1;
+                    var style = {
                         color: color,
                         weight: isOwn ? 3 : 1.5,
-                        opacity: isOwn ? 1 : 0.6,
+                        opacity: (isOwn ? 1 : 0.6) * strength,
                         fillColor: color,
-                        fillOpacity: isOwn ? 0.3 : 0.15,
-                        dashArray: isOwn ? null : '4 2'
-                    }).addTo(map);
+                        fillOpacity: (isOwn ? 0.3 : 0.15) * strength,
+                        dashArray: isOwn || isTeammate ? null : '4 2'
+                    };
+
+                    // Already rendered: only restyle, strength may have changed
+                    if (territoryLayerMap[t.id]) {
+                        territoryLayerMap[t.id].setStyle(style);
+                        return;
+                    }
+
+                    var poly = L.polygon(t.polygon, style).addTo(map);
 
                     poly.on('click', function() {
                         window.ReactNativeWebView.postMessage(JSON.stringify({
@@ -308,7 +368,7 @@ const MAP_HTML = `
 `;
 
 function MapContainerComponent(
-    { location, path, territories = [], currentUserId, style, onReady, onTerritoryPress }: MapContainerProps,
+    { location, path, territories = [], preview = null, currentUserId, currentTeamId, style, onReady, onTerritoryPress }: MapContainerProps,
     ref: React.Ref<MapContainerHandle>
 ) {
     const webViewRef = React.useRef<WebView>(null);
@@ -320,6 +380,7 @@ function MapContainerComponent(
     const lastLocationRef = React.useRef<string>('');
     const lastPathLengthRef = React.useRef<number>(0);
     const lastTerritoriesRef = React.useRef<string>('');
+    const lastPreviewRef = React.useRef<string>('');
 
     // Throttle refs
     const locationThrottleRef = React.useRef<number>(0);
@@ -402,34 +463,54 @@ function MapContainerComponent(
         }
     }, [path, isReady, injectScript]);
 
+    // Update live claim preview
+    React.useEffect(() => {
+        if (!isReady) return;
+        const coords = JSON.stringify(preview ? preview.polygon.map(c => [c[1], c[0]]) : []);
+        const label = JSON.stringify(preview?.label || '');
+        const key = `${coords}|${label}`;
+        if (key === lastPreviewRef.current) return;
+
+        lastPreviewRef.current = key;
+        injectScript(`window.updatePreview && window.updatePreview(${coords}, ${label})`);
+    }, [preview, isReady, injectScript]);
+
     // Set current user ID
     React.useEffect(() => {
         if (!isReady || !currentUserId) return;
-        injectScript(`window.setCurrentUser && window.setCurrentUser(${JSON.stringify(currentUserId)})`);
-    }, [currentUserId, isReady, injectScript]);
+        injectScript(`window.setCurrentUser && window.setCurrentUser(${JSON.stringify(currentUserId)}, ${JSON.stringify(currentTeamId || null)})`);
+    }, [currentUserId, currentTeamId, isReady, injectScript]);
 
     // Update territories
     React.useEffect(() => {
         if (!isReady || !territories) return;
 
-        const validTerritories = territories.filter(t =>
-            t && t.id && Array.isArray(t.polygon) && t.polygon.length > 2
+        const validTerritories = territories.filter(t => t && t.id && hasPolygon(t.polygon));
+        const now = Date.now();
+        const strengths = validTerritories.map(t =>
+            Math.round(GameEngine.getTerritoryStrength(t, now) * 20) / 20
         );
-        const key = validTerritories.map(t => `${t.id}-${t.ownerId}`).join(',');
+        // The viewer's team is part of the key: joining or leaving one restyles teammates
+        const key = (currentTeamId || '') + '|' + validTerritories
+            .map((t, i) => `${t.id}-${t.ownerId}-${t.teamColor || ''}-${strengths[i]}`)
+            .join(',');
         if (key === lastTerritoriesRef.current) return;
 
         lastTerritoriesRef.current = key;
-        const data = JSON.stringify(validTerritories.map(t => ({
+        const data = JSON.stringify(validTerritories.map((t, i) => ({
             id: t.id,
             ownerId: t.ownerId,
             ownerName: t.ownerName || null,
+            teamId: t.teamId || null,
+            teamColor: t.teamColor || null,
+            strength: strengths[i],
             center: t.center ? [t.center.lat, t.center.lng] : null,
-            polygon: t.polygon
-                .filter(c => Array.isArray(c) && c.length >= 2 && !isNaN(c[0]) && !isNaN(c[1]))
-                .map(c => [c[1], c[0]])
+            polygon: toMultiPolygon(t.polygon).map(part =>
+                part.map(ring => ring.map(c => [c[1], c[0]]))
+            )
         })));
         injectScript(`window.updateTerritories && window.updateTerritories(${data})`);
-    }, [territories, isReady, injectScript]);
+    }, [territories, currentTeamId, isReady, injectScript]);
 
     // Cleanup
     React.useEffect(() => {
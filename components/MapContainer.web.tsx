@@ -1,6 +1,8 @@
 import * as React from 'react';
 import { View, StyleSheet, ActivityIndicator } from 'react-native';
-import { GPSPoint, Territory } from '../lib/types';
+import { GPSPoint, Territory, TerritoryRing } from '../lib/types';
+import { GameEngine } from '../services/GameEngine';
+import { toMultiPolygon } from '../utils/territoryGeometry';
 
 export interface MapContainerHandle {
     centerOnUser: () => void;
@@ -10,14 +12,16 @@ interface MapContainerProps {
     location: GPSPoint | null;
     path: GPSPoint[];
     territories?: Territory[];
+    preview?: { polygon: TerritoryRing; label?: string } | null;
     currentUserId?: string;
+    currentTeamId?: string;
     style?: any;
 }
 
 const DARK_TILE_URL = 'https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}{r}.png';
 
 function MapContainerComponent(
-    { location, path, territories = [], currentUserId, style }: MapContainerProps,
+    { location, path, territories = [], preview = null, currentUserId, currentTeamId, style }: MapContainerProps,
     ref: React.Ref<MapContainerHandle>
 ) {
     const mapRef = React.useRef<HTMLDivElement>(null);
@@ -26,6 +30,7 @@ function MapContainerComponent(
     const polylineRef = React.useRef<any>(null);
     const startMarkerRef = React.useRef<any>(null);
     const territoryLayerMapRef = React.useRef<Map<string, any>>(new Map());
+    const previewLayerRef = React.useRef<any>(null);
     const [leaflet, setLeaflet] = React.useState<any>(null);
     const [isLoading, setIsLoading] = React.useState(true);
 
@@ -180,6 +185,39 @@ function MapContainerComponent(
         }
     }, [leaflet, path]);
 
+    // Update live claim preview
+    React.useEffect(() => {
+        if (!leaflet || !mapInstanceRef.current) return;
+
+        if (!preview || preview.polygon.length < 3) {
+            if (previewLayerRef.current) { previewLayerRef.current.remove(); previewLayerRef.current = null; }
+            return;
+        }
+
+        const latLngs = preview.polygon.map(c => [c[1], c[0]]);
+        if (previewLayerRef.current) {
+            previewLayerRef.current.setLatLngs(latLngs);
+        } else {
+            previewLayerRef.current = leaflet.polygon(latLngs, {
+                color: '#FC4C02',
+                weight: 2,
+                opacity: 0.9,
+                fillColor: '#FC4C02',
+                fillOpacity: 0.12,
+                dashArray: '6 6',
+                interactive: false,
+            }).addTo(mapInstanceRef.current);
+        }
+
+        const layer = previewLayerRef.current;
+        if (preview.label) {
+            if (layer.getTooltip()) layer.setTooltipContent(preview.label);
+            else layer.bindTooltip(preview.label, { permanent: true, direction: 'center', className: 'preview-label' });
+        } else if (layer.getTooltip()) {
+            layer.unbindTooltip();
+        }
+    }, [leaflet, preview]);
+
     // Deterministic color palette for user territories (matches native MapContainer)
     const userColor = React.useCallback((userId: string | undefined) => {
         const USER_COLORS = [
@@ -213,27 +251,37 @@ function MapContainerComponent(
             }
         }
 
-        // Add new territories (skip already-rendered ones)
+        // Add new territories; already-rendered ones are only restyled as they decay
+        const now = Date.now();
         territories.forEach(territory => {
-            if (!territory.polygon || territory.polygon.length <= 2) return;
-            if (layerMap.has(territory.id)) return;
+            const parts = toMultiPolygon(territory.polygon);
+            if (parts.length === 0) return;
 
             const isOwn = currentUserId && territory.ownerId === currentUserId;
-            const color = isOwn ? '#FC4C02' : userColor(territory.ownerId);
-
-            const latLngs = territory.polygon
-                .filter(c => Array.isArray(c) && c.length >= 2 && !isNaN(c[0]) && !isNaN(c[1]))
-                .map(c => [c[1], c[0]]);
-            const polygon = leaflet.polygon(latLngs, {
+            const isTeammate = !isOwn && !!currentTeamId && territory.teamId === currentTeamId;
+            // Team members share their team's color
+            const color = isOwn ? '#FC4C02' : (territory.teamColor || userColor(territory.ownerId));
+            const strength = Math.max(0.25, GameEngine.getTerritoryStrength(territory, now));
+            const polygonStyle = {
                 color: color,
                 weight: 2,
-                opacity: 0.8,
+                opacity: 0.8 * strength,
                 fillColor: color,
-                fillOpacity: isOwn ? 0.2 : 0.12,
-            }).addTo(map);
+                fillOpacity: (isOwn || isTeammate ? 0.2 : 0.12) * strength,
+            };
+
+            const rendered = layerMap.get(territory.id);
+            if (rendered) {
+                rendered.setStyle(polygonStyle);
+                return;
+            }
+
+            // Leaflet takes nested parts → [outer, ...holes] in [lat, lng]
+            const latLngs = parts.map(part => part.map(ring => ring.map(c => [c[1], c[0]])));
+            const polygon = leaflet.polygon(latLngs, polygonStyle).addTo(map);
             layerMap.set(territory.id, polygon);
         });
-    }, [leaflet, territories, currentUserId]);
+    }, [leaflet, territories, currentUserId, currentTeamId]);
 
     return (
         <View style={[styles.container, style]}>
@@ -246,6 +294,7 @@ function MapContainerComponent(
             <style>{`
                 .user-marker, .start-marker { background: transparent !important; border: none !important; }
                 .leaflet-marker-icon { transition: transform 0.2s ease-out !important; }
+                .preview-label { background: rgba(0,0,0,0.7); color: #fff; border: none; box-shadow: none; font-weight: 600; }
             `}</style>
         </View>
     );
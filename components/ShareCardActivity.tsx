@@ -3,25 +3,27 @@ import { View, Text, StyleSheet, Image } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import Svg, { Polyline as SvgPolyline, Circle } from 'react-native-svg';
 import { Activity, Territory } from '../lib/types';
+import { simplifyTrack, ROUTE_PREVIEW_TOLERANCE_M } from '../utils/polyline';
 import {
     SHARE_CARD_WIDTH, SHARE_CARD_HEIGHT, BRAND_COLOR,
     ROUTE_COLOR, ROUTE_GLOW_COLOR, START_COLOR, END_COLOR,
     DOWNLOAD_TEXT, DOWNLOAD_URL,
-    formatDistance, formatDuration, formatPace, formatArea, formatDate,
-    gpsPointsToSvgPath, flattenPolylines,
+    formatDistance, formatDuration, formatPace, formatArea, formatDate, formatElevation,
+    hasElevationGain, gpsPointsToSvgPath, flattenPolylines,
 } from '../utils/shareCardUtils';
 
 interface ShareCardActivityProps {
     activity: Activity;
     territory?: Territory;
+    showElevation?: boolean;
 }
 
 const SVG_ROUTE_WIDTH = SHARE_CARD_WIDTH - 120; // 60px padding each side
 const SVG_ROUTE_HEIGHT = 680;
 
-export default function ShareCardActivity({ activity, territory }: ShareCardActivityProps) {
+export default function ShareCardActivity({ activity, territory, showElevation = true }: ShareCardActivityProps) {
     const flatPath = useMemo(
-        () => flattenPolylines(activity.polylines || []),
+        () => flattenPolylines(simplifyTrack(activity.polylines || [], ROUTE_PREVIEW_TOLERANCE_M)),
         [activity.polylines]
     );
 
@@ -34,6 +36,9 @@ export default function ShareCardActivity({ activity, territory }: ShareCardActi
     const distance = formatDistance(activity.distance);
     const duration = formatDuration(activity.duration);
     const date = formatDate(activity.startTime);
+    const elevationGain = showElevation && hasElevationGain(activity)
+        ? formatElevation(activity.elevationGain!)
+        : null;
 
     return (
         <View style={styles.card}>
@@ -124,6 +129,15 @@ export default function ShareCardActivity({ activity, territory }: ShareCardActi
                         <Text style={styles.statValue}>{pace}</Text>
                         <Text style={styles.statLabel}>PACE /KM</Text>
                     </View>
+                    {elevationGain && (
+                        <>
+                            <View style={styles.statDivider} />
+                            <View style={styles.statItem}>
+                                <Text style={styles.statValue}>{elevationGain}</Text>
+                                <Text style={styles.statLabel}>ELEV GAIN</Text>
+                            </View>
+                        </>
+                    )}
                 </View>
 
                 {/* Territory section (conditional) */}
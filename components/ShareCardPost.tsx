@@ -1,7 +1,7 @@
 import React, { useMemo } from 'react';
 import { View, Text, StyleSheet, Image } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
-import Svg, { Polyline as SvgPolyline, Circle, Polygon as SvgPolygon } from 'react-native-svg';
+import Svg, { Polyline as SvgPolyline, Circle, Path } from 'react-native-svg';
 import { Post } from '../lib/types';
 import {
     SHARE_CARD_WIDTH, SHARE_CARD_HEIGHT, BRAND_COLOR, BRAND_COLOR_LIGHT,
@@ -183,8 +183,9 @@ export default function ShareCardPost({ post }: ShareCardPostProps) {
                                     height={SVG_HEIGHT_TERRITORY}
                                     viewBox={`0 0 ${SVG_WIDTH} ${SVG_HEIGHT_TERRITORY}`}
                                 >
-                                    <SvgPolygon
-                                        points={territorySvgData.points}
+                                    <Path
+                                        d={territorySvgData.path}
+                                        fillRule="evenodd"
                                         fill={BRAND_COLOR_LIGHT}
                                         stroke={BRAND_COLOR}
                                         strokeWidth={4}
@@ -1,7 +1,7 @@
 import React, { useMemo } from 'react';
 import { View, Text, StyleSheet, Image } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
-import Svg, { Polygon as SvgPolygon } from 'react-native-svg';
+import Svg, { Path } from 'react-native-svg';
 import { Territory } from '../lib/types';
 import {
     SHARE_CARD_WIDTH, SHARE_CARD_HEIGHT, BRAND_COLOR, BRAND_COLOR_LIGHT,
@@ -57,14 +57,15 @@ export default function ShareCardTerritory({ territory }: ShareCardTerritoryProp
 
                 {/* Territory polygon SVG */}
                 <View style={styles.polygonContainer}>
-                    {territory.polygon && territory.polygon.length > 2 ? (
+                    {svgData.path ? (
                         <Svg
                             width={SVG_WIDTH}
                             height={SVG_HEIGHT}
                             viewBox={`0 0 ${SVG_WIDTH} ${SVG_HEIGHT}`}
                         >
-                            <SvgPolygon
-                                points={svgData.points}
+                            <Path
+                                d={svgData.path}
+                                fillRule="evenodd"
                                 fill={BRAND_COLOR_LIGHT}
                                 stroke={BRAND_COLOR}
                                 strokeWidth={4}
@@ -1,4 +1,4 @@
-import React, { useRef, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import {
     View, Text, StyleSheet, Modal, TouchableOpacity,
     Dimensions, ActivityIndicator, Alert, Share,
@@ -7,10 +7,14 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { X, Share2, Image as ImageIcon, Link } from 'lucide-react-native';
 import { Activity, Territory, Post } from '../lib/types';
 import { ImageShareService } from '../services/ImageShareService';
+import { PrivacyZoneService } from '../services/PrivacyZoneService';
 import ShareCardActivity from './ShareCardActivity';
 import ShareCardTerritory from './ShareCardTerritory';
 import ShareCardPost from './ShareCardPost';
-import { SHARE_CARD_WIDTH, SHARE_CARD_HEIGHT, DOWNLOAD_URL, formatDistance, formatDuration, formatPace, formatArea } from '../utils/shareCardUtils';
+import {
+    SHARE_CARD_WIDTH, SHARE_CARD_HEIGHT, DOWNLOAD_URL,
+    formatDistance, formatDuration, formatPace, formatArea, formatElevation, hasElevationGain,
+} from '../utils/shareCardUtils';
 
 // Try to import ViewShot - may not be available if native module isn't in the build
 let ViewShot: any = null;
@@ -45,6 +49,27 @@ export default function SharePreviewModal({
 }: SharePreviewModalProps) {
     const viewShotRef = useRef<any>(null);
     const [sharing, setSharing] = useState(false);
+    // Cards draw routes with the user's privacy zones clipped out; nothing is
+    // shown or shared until that's done
+    const [shared, setShared] = useState<{ activity?: Activity; post?: Post } | null>(null);
+
+    useEffect(() => {
+        if (!visible) return;
+        let cancelled = false;
+        setShared(null);
+        (async () => {
+            try {
+                const clippedActivity = activity ? await PrivacyZoneService.clipActivity(activity) : undefined;
+                const clippedPost = post?.activity
+                    ? { ...post, activity: await PrivacyZoneService.clipActivity(post.activity) }
+                    : post;
+                if (!cancelled) setShared({ activity: clippedActivity, post: clippedPost });
+            } catch (err) {
+                console.error('[Share] Failed to apply privacy zones:', err);
+            }
+        })();
+        return () => { cancelled = true; };
+    }, [visible, activity, post]);
 
     const buildShareMessage = (): string => {
         const lines: string[] = [];
@@ -54,6 +79,9 @@ export default function SharePreviewModal({
             lines.push(`Distance: ${formatDistance(activity.distance)}`);
             lines.push(`Duration: ${formatDuration(activity.duration)}`);
             lines.push(`Pace: ${formatPace(activity.averageSpeed || 0)} /km`);
+            if (hasElevationGain(activity)) {
+                lines.push(`Elevation gain: ${formatElevation(activity.elevationGain!)}`);
+            }
             if (territory) {
                 lines.push(`Territory: ${territory.name || 'Unnamed'} (${formatArea(territory.area)})`);
             }
@@ -130,16 +158,16 @@ export default function SharePreviewModal({
 
     if (!visible) return null;
 
-    const hasContent = cardType === 'activity' ? !!activity : cardType === 'territory' ? !!territory : !!post;
+    const hasContent = cardType === 'activity' ? !!shared?.activity : cardType === 'territory' ? !!territory : !!shared?.post;
 
     const cardContent = (
         <>
-            {cardType === 'activity' && activity ? (
-                <ShareCardActivity activity={activity} territory={territory} />
+            {cardType === 'activity' && shared?.activity ? (
+                <ShareCardActivity activity={shared.activity} territory={territory} />
             ) : cardType === 'territory' && territory ? (
                 <ShareCardTerritory territory={territory} />
-            ) : cardType === 'post' && post ? (
-                <ShareCardPost post={post} />
+            ) : cardType === 'post' && shared?.post ? (
+                <ShareCardPost post={shared.post} />
             ) : null}
         </>
     );
@@ -23,6 +23,7 @@ module.exports = {
     '^@react-native-async-storage/async-storage$': '<rootDir>/__tests__/__mocks__/async-storage.ts',
     '^expo-location$': '<rootDir>/__tests__/__mocks__/expo-location.ts',
     '^expo-keep-awake$': '<rootDir>/__tests__/__mocks__/expo-keep-awake.ts',
+    '^expo-task-manager$': '<rootDir>/__tests__/__mocks__/expo-task-manager.ts',
     '^react-native$': '<rootDir>/__tests__/__mocks__/react-native.ts',
   },
   setupFilesAfterEnv: ['<rootDir>/__tests__/setup.ts'],
@@ -5,16 +5,25 @@ export type AnalyticsEventType =
     | 'screen_view'
     // Features
     | 'activity_started'
+    | 'activity_paused'
+    | 'activity_resumed'
+    | 'activity_type_switched'
     | 'activity_completed'
     | 'activity_saved'
+    | 'activity_exported'
+    | 'activity_trimmed'
+    | 'activity_visibility_changed'
+    | 'activity_imported'
     | 'territory_claimed'
     | 'territory_invaded'
+    | 'territory_claim_rejected'
     | 'post_created'
     | 'post_liked'
     | 'comment_added'
     | 'friend_request_sent'
     | 'friend_request_accepted'
     | 'share_initiated'
+    | 'privacy_zone_added'
     // Errors
     | 'error'
     | 'crash';
@@ -1,5 +1,6 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { Activity, Territory, UserProfile } from './types';
+import { Activity, GPSPoint, Territory, UserProfile } from './types';
+import { encodeTrack, decodeTrack, isEncodedTrack, EncodedTrack } from '../utils/polyline';
 
 // Helper to safely parse JSON with error handling
 const safeJsonParse = <T>(json: string | null, fallback: T[] = []): T[] => {
@@ -31,12 +32,47 @@ const withLock = async <T>(key: string, fn: () => Promise<T>): Promise<T> => {
     }
 };
 
-const createStore = <T extends { id: string | number }>(key: string) => ({
+/**
+ * Converts items between their in-memory shape T and stored shape S. `toStored`
+ * must accept items already in stored form (and pass them through), since
+ * items written by older versions are re-saved alongside new ones.
+ */
+interface StoreCodec<T, S> {
+    toStored: (item: T | S) => S;
+    fromStored: (item: S) => T;
+}
+
+const identityCodec = <T>(): StoreCodec<T, T> => ({
+    toStored: item => item,
+    fromStored: item => item,
+});
+
+// An activity as stored: encoded track, or a legacy GPSPoint[][] one written
+// before tracks were encoded
+type StoredActivity = Omit<Activity, 'polylines'> & { polylines: EncodedTrack | GPSPoint[][] };
+
+// Activity tracks are stored encoded; legacy GPSPoint[][] tracks are re-encoded
+// the next time anything in the store is written
+const activityCodec: StoreCodec<Activity, StoredActivity> = {
+    toStored: activity => isEncodedTrack(activity.polylines)
+        ? activity
+        : { ...activity, polylines: encodeTrack(decodeTrack(activity.polylines)) },
+    fromStored: activity => ({ ...activity, polylines: decodeTrack(activity.polylines) }),
+};
+
+const writeItems = <T, S>(key: string, codec: StoreCodec<T, S>, items: (T | S)[]) =>
+    AsyncStorage.setItem(key, JSON.stringify(items.map(codec.toStored)));
+
+const createStore = <T extends { id: string | number }, S extends { id: string | number } = T>(
+    key: string,
+    codec: StoreCodec<T, S>
+) => ({
     get: async (id: string | number): Promise<T | undefined> => {
         try {
             const items = await AsyncStorage.getItem(key);
-            const parsed = safeJsonParse<T>(items);
-            return parsed.find((item: T) => item.id === id);
+            const parsed = safeJsonParse<S>(items);
+            const item = parsed.find((i: S) => i.id === id);
+            return item ? codec.fromStored(item) : undefined;
         } catch (err) {
             console.error(`db.${key}.get error:`, err);
             return undefined;
@@ -46,11 +82,11 @@ const createStore = <T extends { id: string | number }>(key: string) => ({
         await withLock(key, async () => {
             try {
                 const items = await AsyncStorage.getItem(key);
-                const parsed = safeJsonParse<T>(items);
-                const index = parsed.findIndex((i: T) => i.id === item.id);
+                const parsed: (T | S)[] = safeJsonParse<S>(items);
+                const index = parsed.findIndex(i => i.id === item.id);
                 if (index > -1) parsed[index] = item;
                 else parsed.push(item);
-                await AsyncStorage.setItem(key, JSON.stringify(parsed));
+                await writeItems(key, codec, parsed);
             } catch (err) {
                 console.error(`db.${key}.put error:`, err);
                 throw err;
@@ -66,7 +102,7 @@ const createStore = <T extends { id: string | number }>(key: string) => ({
         await withLock(key, async () => {
             try {
                 const items = await AsyncStorage.getItem(key);
-                const parsed = safeJsonParse<T>(items);
+                const parsed: (T | S)[] = safeJsonParse<S>(items);
                 const idMap = new Map(parsed.map((item, idx) => [item.id, idx]));
 
                 for (const item of newItems) {
@@ -79,7 +115,7 @@ const createStore = <T extends { id: string | number }>(key: string) => ({
                     }
                 }
 
-                await AsyncStorage.setItem(key, JSON.stringify(parsed));
+                await writeItems(key, codec, parsed);
             } catch (err) {
                 console.error(`db.${key}.bulkPut error:`, err);
                 throw err;
@@ -90,9 +126,9 @@ const createStore = <T extends { id: string | number }>(key: string) => ({
         await withLock(key, async () => {
             try {
                 const items = await AsyncStorage.getItem(key);
-                const parsed = safeJsonParse<T>(items);
+                const parsed: (T | S)[] = safeJsonParse<S>(items);
                 parsed.push(item);
-                await AsyncStorage.setItem(key, JSON.stringify(parsed));
+                await writeItems(key, codec, parsed);
             } catch (err) {
                 console.error(`db.${key}.add error:`, err);
                 throw err;
@@ -102,7 +138,7 @@ const createStore = <T extends { id: string | number }>(key: string) => ({
     toArray: async (): Promise<T[]> => {
         try {
             const items = await AsyncStorage.getItem(key);
-            return safeJsonParse<T>(items);
+            return safeJsonParse<S>(items).map(codec.fromStored);
         } catch (err) {
             console.error(`db.${key}.toArray error:`, err);
             return [];
@@ -112,11 +148,12 @@ const createStore = <T extends { id: string | number }>(key: string) => ({
         await withLock(key, async () => {
             try {
                 const items = await AsyncStorage.getItem(key);
-                const parsed = safeJsonParse<T>(items);
-                const index = parsed.findIndex((i: T) => i.id === id);
+                const parsed = safeJsonParse<S>(items);
+                const index = parsed.findIndex((i: S) => i.id === id);
                 if (index > -1) {
-                    parsed[index] = { ...parsed[index], ...updates };
-                    await AsyncStorage.setItem(key, JSON.stringify(parsed));
+                    // Updates are in the in-memory shape, so apply them to the decoded item
+                    parsed[index] = codec.toStored({ ...codec.fromStored(parsed[index]), ...updates });
+                    await writeItems(key, codec, parsed);
                 }
             } catch (err) {
                 console.error(`db.${key}.update error:`, err);
@@ -128,9 +165,9 @@ const createStore = <T extends { id: string | number }>(key: string) => ({
         await withLock(key, async () => {
             try {
                 const items = await AsyncStorage.getItem(key);
-                const parsed = safeJsonParse<T>(items);
-                const filtered = parsed.filter((i: T) => i.id !== id);
-                await AsyncStorage.setItem(key, JSON.stringify(filtered));
+                const parsed = safeJsonParse<S>(items);
+                const filtered = parsed.filter((i: S) => i.id !== id);
+                await writeItems(key, codec, filtered);
             } catch (err) {
                 console.error(`db.${key}.delete error:`, err);
                 throw err;
@@ -152,8 +189,9 @@ const createStore = <T extends { id: string | number }>(key: string) => ({
             first: async (): Promise<T | undefined> => {
                 try {
                     const items = await AsyncStorage.getItem(key);
-                    const parsed = safeJsonParse<T>(items);
-                    return parsed.find((i: any) => i[field] === value);
+                    const parsed = safeJsonParse<S>(items);
+                    const item = parsed.find((i: any) => i[field] === value);
+                    return item ? codec.fromStored(item) : undefined;
                 } catch (err) {
                     console.error(`db.${key}.where.equals.first error:`, err);
                     return undefined;
@@ -164,9 +202,9 @@ const createStore = <T extends { id: string | number }>(key: string) => ({
 });
 
 const db = {
-    users: createStore<UserProfile>('conqr_users'),
-    activities: createStore<Activity>('conqr_activities'),
-    territories: createStore<Territory>('conqr_territories'),
+    users: createStore('conqr_users', identityCodec<UserProfile>()),
+    activities: createStore('conqr_activities', activityCodec),
+    territories: createStore('conqr_territories', identityCodec<Territory>()),
 };
 
 export { db };
@@ -8,6 +8,20 @@ export interface UserProfile {
   bio?: string;
   avatarUrl?: string; // or base64
   createdAt: number;
+  defaultActivityVisibility?: ActivityVisibility; // given to new activities
+}
+
+// Who can see an activity besides its owner: everyone, accepted friends, or nobody
+export type ActivityVisibility = 'public' | 'friends' | 'private';
+
+// An area around e.g. home that the user's routes are hidden in for everyone
+// but them. Owner-only: the zones themselves would give away what they hide.
+export interface PrivacyZone {
+  id: string; // UUID
+  userId: string;
+  name?: string;
+  center: { lat: number; lng: number };
+  radius: number; // meters
 }
 
 export interface GPSPoint {
@@ -17,6 +31,7 @@ export interface GPSPoint {
   speed: number | null; // m/s
   accuracy: number | null; // meters
   altitude: number | null;
+  mocked?: boolean; // reported by a mock location provider (Android); only set when true
 }
 
 export interface Activity {
@@ -26,13 +41,108 @@ export interface Activity {
   startTime: number;
   endTime?: number;
   distance: number; // meters
-  duration: number; // seconds
+  duration: number; // seconds of moving time (pauses excluded)
+  elapsedTime?: number; // seconds from start to end, pauses included
+  pausedDuration?: number; // seconds spent paused (manual + auto-pause)
   polylines: GPSPoint[][]; // Array of segments (handling pauses/auto-resume)
   isSynced: boolean;
   territoryId?: string; // Links to territory if loop was closed
   averageSpeed?: number; // m/s
+  splits?: ActivitySplit[]; // automatic per-km or per-mile splits; the last may be partial
+  splitUnit?: SplitUnit;
+  laps?: ActivitySplit[]; // manual laps, in order
+  elevationGain?: number; // meters of smoothed ascent
+  elevationLoss?: number; // meters of smoothed descent
+  maxElevation?: number; // meters
+  minElevation?: number; // meters
+  elevationProfile?: ElevationSample[]; // downsampled, for charts
+  trackingProfile?: TrackingProfile; // GPS sampling profile it was recorded with
+  gpsQuality?: GpsQuality;
+  suspicion?: ActivitySuspicion; // anti-cheat verdict on the track
+  visibility?: ActivityVisibility; // unset on activities saved before visibility existed: public
 }
 
+// A trim of a saved activity: fixes outside [startTime, endTime] and the
+// dropped segments are removed, and everything derived is recomputed
+export interface ActivityEdit {
+  startTime: number;
+  endTime: number;
+  droppedSegments?: number[]; // indexes into the activity's polylines
+}
+
+export type SplitUnit = 'km' | 'mi';
+
+export type TrackingProfile = 'high_accuracy' | 'balanced' | 'battery_saver';
+
+// How good the GPS fixes were over a recording, e.g. to tell a rough
+// territory shape from noisy GPS apart from one sampled sparsely
+export interface GpsQuality {
+  fixCount: number; // fixes received while recording
+  rejectedCount: number; // dropped as inaccurate or as spikes
+  meanAccuracy: number | null; // meters, over fixes that report one
+  p90Accuracy: number | null; // meters
+  meanInterval: number | null; // seconds between fixes
+  maxGap: number; // seconds, longest stretch without a fix while recording
+}
+
+export type SuspicionReasonCode =
+  | 'mock_location'
+  | 'teleport'
+  | 'vehicle_speed'
+  | 'constant_accuracy'
+  | 'constant_speed';
+
+export interface SuspicionReason {
+  code: SuspicionReasonCode;
+  weight: number; // 0–1 contribution to the score
+  detail: string; // human-readable evidence, for reviewers
+}
+
+// Activity-level anti-cheat verdict. Territory from a flagged activity is
+// held for review instead of being claimed.
+export interface ActivitySuspicion {
+  score: number; // 0–1
+  reasons: SuspicionReason[];
+  flagged: boolean;
+}
+
+export type TerritoryReviewStatus = 'pending' | 'approved' | 'rejected' | 'applied';
+
+// A territory claim held back because its activity was flagged
+export interface TerritoryReview {
+  id: string;
+  userId: string;
+  activityId: string;
+  territoryId: string; // id the territory gets if the claim is approved
+  ownerUsername?: string;
+  name?: string;
+  track: GPSPoint[][];
+  suspicion: ActivitySuspicion;
+  status: TerritoryReviewStatus;
+  createdAt: number;
+  reviewedAt?: number;
+}
+
+// One split or lap. Pace is duration over distance.
+export interface ActivitySplit {
+  distance: number; // meters
+  duration: number; // seconds of moving time
+  endTime: number; // when the split was completed or the lap button pressed
+}
+
+// One point of an elevation profile
+export interface ElevationSample {
+  distance: number; // meters from the start
+  elevation: number; // smoothed, meters
+  grade: number; // percent, positive uphill
+}
+
+export type TerritoryRing = [number, number][]; // [lng, lat] for GeoJSON/MapLibre compatibility
+export type TerritoryMultiPolygon = TerritoryRing[][]; // GeoJSON MultiPolygon: parts → [outer, ...holes]
+
+// A single outer ring, or a MultiPolygon once a territory has been split or holed
+export type TerritoryPolygon = TerritoryRing | TerritoryMultiPolygon;
+
 export interface Territory {
   id: string; // UUID
   name: string;
@@ -43,8 +153,11 @@ export interface Territory {
   area: number; // square meters
   perimeter: number; // meters
   center: { lat: number; lng: number };
-  polygon: [number, number][]; // [lng, lat] for GeoJSON/MapLibre compatibility
+  polygon: TerritoryPolygon;
   history: TerritoryClaimEvent[];
+  lastDefendedAt?: number; // last claim or re-walk by the owner; strength decays from here
+  teamId?: string; // owner's team; teammates' territories don't invade each other
+  teamColor?: string;
 }
 
 export interface TerritoryClaimEvent {
@@ -65,6 +178,17 @@ export interface TerritoryInvasion {
   territoryWasDestroyed: boolean;
   createdAt: number;
   seen: boolean;
+  lostCenter?: { lat: number; lng: number }; // center of the ground taken; missing on older invasions
+}
+
+// Ground a territory won from one other user, summed over its invasions of theirs
+export interface TerritoryConquest {
+  userId: string;
+  username?: string;
+  area: number; // m² at the time it was taken; some may since have been lost
+  invasionCount: number;
+  destroyedCount: number; // territories of theirs it took in full
+  lastTakenAt: number;
 }
 
 export interface ConquerResult {
@@ -73,6 +197,44 @@ export interface ConquerResult {
   deletedTerritoryIds: string[];
   invasions: TerritoryInvasion[];
   totalConqueredArea: number;
+  mergedTerritoryIds: string[]; // the owner's territories folded into newTerritory
+  rejectedReason?: string; // set when the server refused the claim and the preview was rolled back; UNDER_REVIEW when held for review, PRIVACY_ZONE when it reaches into a privacy zone
+  claimViolation?: ClaimRuleViolation; // set with rejectedReason when the server found the loop breaks a claim rule
+}
+
+// Shape a loop must have to claim territory. Read from app_settings (claim_rules)
+// so the thresholds can be tuned without a release.
+export interface ClaimRules {
+  minCompactness: number; // Polsby-Popper score 4πA/P²: 1 for a circle, near 0 for a sliver
+  minWidth: number; // m; diameter of the largest circle that fits inside the loop
+  maxAreaByType: Record<ActivityType, number>; // m²
+  maxPerimeterToDistance: number; // boundary length over the distance actually covered
+}
+
+export type ClaimRuleReason = 'TOO_LARGE_FOR_TYPE' | 'PERIMETER_EXCEEDS_DISTANCE' | 'NOT_COMPACT' | 'TOO_NARROW';
+
+// Why a loop broke the claim rules, with the measured value and the limit it missed
+export interface ClaimRuleViolation {
+  reason: ClaimRuleReason;
+  value: number;
+  limit: number;
+}
+
+// One territory a live preview would cut into if the loop closed now
+export interface ConquestForecast {
+  territoryId: string;
+  ownerId: string;
+  ownerName?: string;
+  overlapArea: number; // m² taken; the whole territory when destroyed
+  destroyed: boolean;
+}
+
+// Live preview of the claim while recording
+export interface TerritoryPreview {
+  polygon: TerritoryRing;
+  area: number; // m²
+  forecast: ConquestForecast[];
+  forecastArea: number; // m² taken from other players in total
 }
 
 export type PostType = 'text' | 'activity_share' | 'territory_share';
@@ -120,3 +282,31 @@ export interface FriendWithProfile {
   profile: UserProfile;
 }
 
+
+export type TeamRole = 'owner' | 'admin' | 'member';
+
+// Players who hold ground together. A user is in one team at most.
+export interface Team {
+  id: string; // UUID
+  name: string;
+  color: string; // #RRGGBB, drawn on the map for every member's territory
+  createdAt: number;
+}
+
+export interface TeamMember {
+  teamId: string;
+  userId: string;
+  username?: string;
+  avatarUrl?: string;
+  role: TeamRole;
+  joinedAt: number;
+}
+
+export interface TeamLeaderboardEntry {
+  teamId: string;
+  name: string;
+  color: string;
+  memberCount: number;
+  totalArea: number; // decay-weighted, like the player leaderboard
+  territoryCount: number;
+}
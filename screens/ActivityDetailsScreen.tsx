@@ -1,16 +1,28 @@
 import React, { useEffect, useState, useMemo, useRef } from 'react';
-import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator, ScrollView } from 'react-native';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator, ScrollView, Alert } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { StatusBar } from 'expo-status-bar';
-import { ArrowLeft, MapPin, Clock, Zap, Mountain, Map, ChevronRight, Share2 } from 'lucide-react-native';
-import { Activity, Territory, GPSPoint } from '../lib/types';
-import { ActivityService } from '../services/ActivityService';
-import { getDistance } from 'geolib';
+import { ArrowLeft, MapPin, Clock, Zap, Mountain, Map, ChevronRight, Share2, Download, Scissors } from 'lucide-react-native';
+import { Activity, ActivityEdit, ActivityVisibility, Territory, ActivitySplit, SplitUnit } from '../lib/types';
+import { ActivityService, EDIT_UNDO_WINDOW_MS } from '../services/ActivityService';
 import { TerritoryService } from '../services/TerritoryService';
+import { FriendService } from '../services/FriendService';
+import { ExportService, ExportFormat } from '../services/ExportService';
+import { AnalyticsService } from '../services/AnalyticsService';
 import { supabase } from '../lib/supabase';
 import MapContainer, { MapContainerHandle } from '../components/MapContainer';
 import SharePreviewModal from '../components/SharePreviewModal';
+import ElevationChart from '../components/ElevationChart';
+import ActivityTrimEditor from '../components/ActivityTrimEditor';
+import { showToast } from '../components/Toast';
 import { useScreenTracking } from '../lib/useScreenTracking';
+import { findSplitExtremes, SPLIT_DISTANCE_M } from '../utils/splits';
+import { TRACKING_PROFILES } from '../utils/trackingProfiles';
+import { simplifyTrack } from '../utils/polyline';
+import { ACTIVITY_VISIBILITIES, DEFAULT_ACTIVITY_VISIBILITY } from '../utils/activityVisibility';
+
+// The map only needs the shape; this keeps long activities light to render
+const MAP_SIMPLIFY_TOLERANCE_M = 1;
 
 interface ActivityDetailsScreenProps {
   navigation: any;
@@ -29,11 +41,18 @@ export default function ActivityDetailsScreen({ navigation, route }: ActivityDet
   const [loading, setLoading] = useState(true);
   const [isMapReady, setIsMapReady] = useState(false);
   const [showShareModal, setShowShareModal] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
   const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [showTrimEditor, setShowTrimEditor] = useState(false);
+  const [isSavingEdit, setIsSavingEdit] = useState(false);
+  const [canUndoEdit, setCanUndoEdit] = useState(false);
+  const [isHidden, setIsHidden] = useState(false);
+  const [isSavingVisibility, setIsSavingVisibility] = useState(false);
   const mapRef = useRef<MapContainerHandle>(null);
+  const undoTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   const flatPath = useMemo(
-    () => ActivityService.flattenPolylines(activity?.polylines || []),
+    () => ActivityService.flattenPolylines(simplifyTrack(activity?.polylines || [], MAP_SIMPLIFY_TOLERANCE_M)),
     [activity]
   );
 
@@ -42,6 +61,33 @@ export default function ActivityDetailsScreen({ navigation, route }: ActivityDet
     [flatPath]
   );
 
+  // Activities saved before splits were recorded get them computed from the track
+  const splitUnit: SplitUnit = activity?.splitUnit || 'km';
+  const splits = useMemo<ActivitySplit[]>(
+    () => activity?.splits ?? ActivityService.calculateSplits(activity?.polylines || [], splitUnit),
+    [activity, splitUnit]
+  );
+
+  const splitExtremes = useMemo(
+    () => findSplitExtremes(splits, splitUnit, SPLIT_DISTANCE_M[splitUnit]),
+    [splits, splitUnit]
+  );
+
+  // Stored stats when the activity has them, otherwise worked out from the track
+  const elevation = useMemo(() => {
+    if (!activity) return null;
+    if (typeof activity.elevationGain === 'number' && activity.elevationProfile) {
+      return {
+        gain: activity.elevationGain,
+        loss: activity.elevationLoss ?? 0,
+        max: activity.maxElevation ?? 0,
+        min: activity.minElevation ?? 0,
+        profile: activity.elevationProfile,
+      };
+    }
+    return ActivityService.calculateElevation(activity.polylines || []);
+  }, [activity]);
+
   // Auto-fit map to route bounds when map is ready
   useEffect(() => {
     if (routeBounds && isMapReady && mapRef.current) {
@@ -55,6 +101,10 @@ export default function ActivityDetailsScreen({ navigation, route }: ActivityDet
     }
   }, [routeBounds, isMapReady]);
 
+  useEffect(() => () => {
+    if (undoTimer.current) clearTimeout(undoTimer.current);
+  }, []);
+
   useEffect(() => {
     const initUser = async () => {
       const { data: { session } } = await supabase.auth.getSession();
@@ -72,6 +122,13 @@ export default function ActivityDetailsScreen({ navigation, route }: ActivityDet
 
       try {
         const activityData = await ActivityService.getActivity(activityId);
+
+        // The server already withholds what the caller can't see; this also
+        // covers a copy cached before the owner changed who can see it
+        if (activityData && !(await FriendService.canViewActivity(activityData))) {
+          setIsHidden(true);
+          return;
+        }
         setActivity(activityData);
 
         if (activityData?.territoryId) {
@@ -89,69 +146,99 @@ export default function ActivityDetailsScreen({ navigation, route }: ActivityDet
     loadData();
   }, [activityId]);
 
-  // Calculate pace from average speed (m/s to min/km)
-  const calculatePace = (speedMs: number): string => {
-    if (!speedMs || speedMs <= 0) return '--:--';
-    const paceSecondsPerKm = 1000 / speedMs;
-    const minutes = Math.floor(paceSecondsPerKm / 60);
-    const seconds = Math.floor(paceSecondsPerKm % 60);
-    return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+  const exportActivity = async (format: ExportFormat) => {
+    if (!activity || isExporting) return;
+    setIsExporting(true);
+    try {
+      await ExportService.shareActivityFile(activity, format);
+      AnalyticsService.trackEvent('activity_exported', { format, activityType: activity.type });
+    } catch (err) {
+      console.error('Failed to export activity:', err);
+      Alert.alert('Export Failed', 'Could not export this activity. Please try again.');
+    } finally {
+      setIsExporting(false);
+    }
   };
 
-  // Calculate incline/elevation gain from GPS points
-  // Uses smoothing and threshold filtering to handle GPS altitude noise
-  const calculateElevation = (polylines: GPSPoint[][]): { gain: number; loss: number; avgIncline: number } => {
-    let totalGain = 0;
-    let totalLoss = 0;
-    let totalDistance = 0;
-    const ALTITUDE_THRESHOLD_M = 2;
-    const SMOOTHING_WINDOW = 5;
-
-    for (const segment of polylines) {
-      const altPoints: { altitude: number; lat: number; lng: number }[] = [];
-      for (const point of segment) {
-        if (point.altitude !== null && point.altitude !== undefined && !isNaN(point.altitude)) {
-          altPoints.push({ altitude: point.altitude, lat: point.lat, lng: point.lng });
-        }
-      }
-      if (altPoints.length < 2) continue;
-
-      // Smooth altitudes with moving average to reduce GPS noise
-      const smoothed: number[] = [];
-      for (let i = 0; i < altPoints.length; i++) {
-        const start = Math.max(0, i - Math.floor(SMOOTHING_WINDOW / 2));
-        const end = Math.min(altPoints.length, i + Math.floor(SMOOTHING_WINDOW / 2) + 1);
-        let sum = 0;
-        for (let j = start; j < end; j++) sum += altPoints[j].altitude;
-        smoothed.push(sum / (end - start));
+  const handleExportPress = () => {
+    Alert.alert(
+      'Export Route',
+      'Choose a file format for other training apps.',
+      [
+        { text: 'GPX', onPress: () => exportActivity('gpx') },
+        { text: 'TCX', onPress: () => exportActivity('tcx') },
+        { text: 'Cancel', style: 'cancel' },
+      ]
+    );
+  };
+
+  const saveEdit = async (edit: ActivityEdit) => {
+    if (!activity || isSavingEdit) return;
+    setIsSavingEdit(true);
+    try {
+      const edited = await ActivityService.editActivity(activity, edit);
+      if (!edited) {
+        Alert.alert('Could Not Trim', 'Too little of the activity would be left to save.');
+        return;
       }
+      setActivity(edited);
+      setShowTrimEditor(false);
+      AnalyticsService.trackEvent('activity_trimmed', { activityType: edited.type });
+
+      // The undo bar stays up for as long as the edit can be undone
+      if (undoTimer.current) clearTimeout(undoTimer.current);
+      setCanUndoEdit(true);
+      undoTimer.current = setTimeout(() => setCanUndoEdit(false), EDIT_UNDO_WINDOW_MS);
+    } catch (err) {
+      console.error('Failed to trim activity:', err);
+      Alert.alert('Could Not Trim', 'Your changes could not be saved. Please try again.');
+    } finally {
+      setIsSavingEdit(false);
+    }
+  };
 
-      // Accumulate gain/loss only when change exceeds threshold
-      let lastSignificant = smoothed[0];
-      for (let i = 1; i < smoothed.length; i++) {
-        const diff = smoothed[i] - lastSignificant;
-        if (Math.abs(diff) >= ALTITUDE_THRESHOLD_M) {
-          if (diff > 0) totalGain += diff;
-          else totalLoss += Math.abs(diff);
-          lastSignificant = smoothed[i];
-        }
+  const undoEdit = async () => {
+    if (!activity) return;
+    if (undoTimer.current) clearTimeout(undoTimer.current);
+    setCanUndoEdit(false);
+    try {
+      const restored = await ActivityService.undoActivityEdit(activity.id);
+      if (restored) {
+        setActivity(restored);
+        showToast('Trim undone', 'success');
+      } else {
+        showToast('Too late to undo this trim', 'error');
       }
+    } catch (err) {
+      console.error('Failed to undo activity edit:', err);
+      showToast('Could not undo this trim', 'error');
+    }
+  };
 
-      // Use proper geodesic distance calculation
-      for (let i = 1; i < altPoints.length; i++) {
-        try {
-          const d = getDistance(
-            { latitude: altPoints[i - 1].lat, longitude: altPoints[i - 1].lng },
-            { latitude: altPoints[i].lat, longitude: altPoints[i].lng }
-          );
-          if (d > 0 && d < 1000) totalDistance += d;
-        } catch {}
+  const changeVisibility = async (visibility: ActivityVisibility) => {
+    if (!activity || isSavingVisibility || visibility === (activity.visibility ?? DEFAULT_ACTIVITY_VISIBILITY)) return;
+    setIsSavingVisibility(true);
+    try {
+      const updated = await ActivityService.setActivityVisibility(activity, visibility);
+      if (updated) {
+        setActivity(updated);
+        AnalyticsService.trackEvent('activity_visibility_changed', { visibility });
       }
+    } catch (err) {
+      console.error('Failed to change activity visibility:', err);
+      showToast('Could not change who can see this activity', 'error');
+    } finally {
+      setIsSavingVisibility(false);
     }
+  };
 
-    // Average incline as total climb over total horizontal distance
-    const avgIncline = totalDistance > 0 ? (totalGain / totalDistance) * 100 : 0;
-    return { gain: totalGain, loss: totalLoss, avgIncline };
+  // Calculate pace from average speed (m/s to min/km)
+  const calculatePace = (speedMs: number): string => {
+    if (!speedMs || speedMs <= 0) return '--:--';
+    const paceSecondsPerKm = 1000 / speedMs;
+    const minutes = Math.floor(paceSecondsPerKm / 60);
+    const seconds = Math.floor(paceSecondsPerKm % 60);
+    return `${minutes}:${seconds.toString().padStart(2, '0')}`;
   };
 
   // Format distance
@@ -199,7 +286,7 @@ export default function ActivityDetailsScreen({ navigation, route }: ActivityDet
   };
 
   // Get incline level label based on smoothed/filtered elevation data
-  const getInclineLevel = (avgIncline: number, gain: number): { label: string; color: string } => {
+  const getInclineLevel = (gain: number): { label: string; color: string } => {
     if (gain < 10) {
       return { label: 'Flat', color: '#4CAF50' };
     } else if (gain < 30) {
@@ -224,7 +311,7 @@ export default function ActivityDetailsScreen({ navigation, route }: ActivityDet
   if (!activity) {
     return (
       <View style={[styles.container, styles.center]}>
-        <Text style={styles.errorText}>Activity not found</Text>
+        <Text style={styles.errorText}>{isHidden ? 'This activity is private' : 'Activity not found'}</Text>
         <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
           <Text style={styles.backButtonText}>Go Back</Text>
         </TouchableOpacity>
@@ -233,8 +320,7 @@ export default function ActivityDetailsScreen({ navigation, route }: ActivityDet
   }
 
   const pace = calculatePace(activity.averageSpeed || 0);
-  const elevation = calculateElevation(activity.polylines || []);
-  const inclineLevel = getInclineLevel(elevation.avgIncline, elevation.gain);
+  const inclineLevel = getInclineLevel(elevation?.gain ?? 0);
 
   return (
     <View style={styles.container}>
@@ -300,6 +386,9 @@ export default function ActivityDetailsScreen({ navigation, route }: ActivityDet
               </View>
               <Text style={styles.statValue}>{formatDuration(activity.duration)}</Text>
               <Text style={styles.statLabel}>Duration</Text>
+              {!!activity.pausedDuration && activity.pausedDuration > 0 && (
+                <Text style={styles.statSubLabel}>+{formatDuration(activity.pausedDuration)} paused</Text>
+              )}
             </View>
 
             <View style={styles.statCard}>
@@ -311,20 +400,138 @@ export default function ActivityDetailsScreen({ navigation, route }: ActivityDet
             </View>
           </View>
 
-          <View style={styles.elevationSection}>
-            <Text style={styles.sectionTitle}>Elevation</Text>
-            <View style={styles.elevationRow}>
-              <View style={styles.elevationItem}>
-                <Text style={styles.elevationValue}>+{Math.round(elevation.gain)}m</Text>
-                <Text style={styles.elevationLabel}>Gain</Text>
+          {elevation && (
+            <View style={styles.elevationSection}>
+              <Text style={styles.sectionTitle}>Elevation</Text>
+              <View style={styles.elevationRow}>
+                <View style={styles.elevationItem}>
+                  <Text style={styles.elevationValue}>+{Math.round(elevation.gain)}m</Text>
+                  <Text style={styles.elevationLabel}>Gain</Text>
+                </View>
+                <View style={styles.elevationDivider} />
+                <View style={styles.elevationItem}>
+                  <Text style={styles.elevationValue}>-{Math.round(elevation.loss)}m</Text>
+                  <Text style={styles.elevationLabel}>Loss</Text>
+                </View>
+                <View style={styles.elevationDivider} />
+                <View style={styles.elevationItem}>
+                  <Text style={styles.elevationValue}>{Math.round(elevation.max)}m</Text>
+                  <Text style={styles.elevationLabel}>Max</Text>
+                </View>
+                <View style={styles.elevationDivider} />
+                <View style={styles.elevationItem}>
+                  <Text style={styles.elevationValue}>{Math.round(elevation.min)}m</Text>
+                  <Text style={styles.elevationLabel}>Min</Text>
+                </View>
               </View>
-              <View style={styles.elevationDivider} />
-              <View style={styles.elevationItem}>
-                <Text style={styles.elevationValue}>-{Math.round(elevation.loss)}m</Text>
-                <Text style={styles.elevationLabel}>Loss</Text>
+              {elevation.profile.length > 1 && (
+                <View style={styles.elevationChart}>
+                  <ElevationChart profile={elevation.profile} />
+                  <Text style={styles.elevationLabel}>
+                    Steepest climb {Math.round(Math.max(0, ...elevation.profile.map(s => s.grade)))}%
+                  </Text>
+                </View>
+              )}
+            </View>
+          )}
+
+          {splits.length > 0 && (
+            <View style={styles.elevationSection}>
+              <Text style={styles.sectionTitle}>Splits</Text>
+              <View style={styles.splitHeaderRow}>
+                <Text style={[styles.splitHeaderText, styles.splitIndexCol]}>{splitUnit === 'mi' ? 'Mile' : 'Km'}</Text>
+                <Text style={[styles.splitHeaderText, styles.splitValueCol]}>Pace</Text>
+                <Text style={[styles.splitHeaderText, styles.splitValueCol]}>Time</Text>
               </View>
+              {splits.map((split, index) => {
+                const isFastest = index === splitExtremes.fastest;
+                const isSlowest = index === splitExtremes.slowest;
+                const isPartial = split.distance < SPLIT_DISTANCE_M[splitUnit];
+                return (
+                  <View
+                    key={index}
+                    style={[styles.splitRow, isFastest && styles.splitRowFastest, isSlowest && styles.splitRowSlowest]}
+                  >
+                    <Text style={[styles.splitText, styles.splitIndexCol]}>
+                      {isPartial
+                        ? (split.distance / SPLIT_DISTANCE_M[splitUnit]).toFixed(2)
+                        : index + 1}
+                    </Text>
+                    <Text style={[styles.splitText, styles.splitValueCol, isFastest && styles.splitTextFastest]}>
+                      {ActivityService.calculatePace(split.duration > 0 ? split.distance / split.duration : 0, splitUnit)} /{splitUnit}
+                    </Text>
+                    <Text style={[styles.splitText, styles.splitValueCol]}>{formatDuration(split.duration)}</Text>
+                  </View>
+                );
+              })}
             </View>
-          </View>
+          )}
+
+          {activity.laps && activity.laps.length > 0 && (
+            <View style={styles.elevationSection}>
+              <Text style={styles.sectionTitle}>Laps</Text>
+              <View style={styles.splitHeaderRow}>
+                <Text style={[styles.splitHeaderText, styles.splitIndexCol]}>Lap</Text>
+                <Text style={[styles.splitHeaderText, styles.splitValueCol]}>Distance</Text>
+                <Text style={[styles.splitHeaderText, styles.splitValueCol]}>Time</Text>
+                <Text style={[styles.splitHeaderText, styles.splitValueCol]}>Pace</Text>
+              </View>
+              {activity.laps.map((lap, index) => (
+                <View key={index} style={styles.splitRow}>
+                  <Text style={[styles.splitText, styles.splitIndexCol]}>{index + 1}</Text>
+                  <Text style={[styles.splitText, styles.splitValueCol]}>{formatDistance(lap.distance)}</Text>
+                  <Text style={[styles.splitText, styles.splitValueCol]}>{formatDuration(lap.duration)}</Text>
+                  <Text style={[styles.splitText, styles.splitValueCol]}>
+                    {ActivityService.calculatePace(lap.duration > 0 ? lap.distance / lap.duration : 0, splitUnit)}
+                  </Text>
+                </View>
+              ))}
+            </View>
+          )}
+
+          {(activity.trackingProfile || activity.gpsQuality || activity.suspicion?.flagged) && (
+            <View style={styles.elevationSection}>
+              <Text style={styles.sectionTitle}>GPS</Text>
+              {activity.trackingProfile && (
+                <View style={styles.splitRow}>
+                  <Text style={styles.splitText}>Profile</Text>
+                  <Text style={[styles.splitText, styles.splitValueCol]}>{TRACKING_PROFILES[activity.trackingProfile].label}</Text>
+                </View>
+              )}
+              {activity.gpsQuality?.meanAccuracy != null && (
+                <View style={styles.splitRow}>
+                  <Text style={styles.splitText}>Accuracy</Text>
+                  <Text style={[styles.splitText, styles.splitValueCol]}>
+                    ±{Math.round(activity.gpsQuality.meanAccuracy)}m avg
+                    {activity.gpsQuality.p90Accuracy != null ? ` · 90% within ${activity.gpsQuality.p90Accuracy}m` : ''}
+                  </Text>
+                </View>
+              )}
+              {activity.gpsQuality && activity.gpsQuality.fixCount > 0 && (
+                <View style={styles.splitRow}>
+                  <Text style={styles.splitText}>Fixes</Text>
+                  <Text style={[styles.splitText, styles.splitValueCol]}>
+                    {activity.gpsQuality.fixCount - activity.gpsQuality.rejectedCount} of {activity.gpsQuality.fixCount} kept
+                    {activity.gpsQuality.meanInterval != null ? ` · every ${activity.gpsQuality.meanInterval.toFixed(1)}s` : ''}
+                  </Text>
+                </View>
+              )}
+              {activity.gpsQuality && activity.gpsQuality.maxGap > 0 && (
+                <View style={styles.splitRow}>
+                  <Text style={styles.splitText}>Longest gap</Text>
+                  <Text style={[styles.splitText, styles.splitValueCol]}>{formatDuration(activity.gpsQuality.maxGap)}</Text>
+                </View>
+              )}
+              {activity.suspicion?.flagged && (
+                <View style={styles.splitRow}>
+                  <Text style={styles.splitText}>Review</Text>
+                  <Text style={[styles.splitText, styles.splitValueCol]}>
+                    Flagged · {activity.suspicion.reasons.map(r => r.detail).join('; ')}
+                  </Text>
+                </View>
+              )}
+            </View>
+          )}
 
           {territory ? (
             <View style={styles.territorySection}>
@@ -332,12 +539,7 @@ export default function ActivityDetailsScreen({ navigation, route }: ActivityDet
               <TouchableOpacity
                 style={styles.territoryCard}
                 activeOpacity={0.7}
-                onPress={() => {
-                  navigation.navigate('Home', {
-                    focusTerritoryLat: territory.center.lat,
-                    focusTerritoryLng: territory.center.lng,
-                  });
-                }}
+                onPress={() => navigation.navigate('TerritoryDetails', { territoryId: territory.id })}
               >
                 <View style={styles.territoryIcon}>
                   <Map color="#E65100" size={28} />
@@ -360,8 +562,87 @@ export default function ActivityDetailsScreen({ navigation, route }: ActivityDet
               </View>
             </View>
           )}
+
+          {currentUserId === activity.userId && (
+            <View style={styles.elevationSection}>
+              <Text style={styles.sectionTitle}>Visibility</Text>
+              <View style={styles.visibilityRow}>
+                {(Object.keys(ACTIVITY_VISIBILITIES) as ActivityVisibility[]).map((option) => {
+                  const selected = option === (activity.visibility ?? DEFAULT_ACTIVITY_VISIBILITY);
+                  return (
+                    <TouchableOpacity
+                      key={option}
+                      style={[styles.visibilityOption, selected && styles.visibilityOptionSelected]}
+                      onPress={() => changeVisibility(option)}
+                      disabled={isSavingVisibility}
+                      activeOpacity={0.7}
+                    >
+                      <Text style={[styles.visibilityOptionText, selected && styles.visibilityOptionTextSelected]}>
+                        {ACTIVITY_VISIBILITIES[option].label}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+              <Text style={styles.visibilityHint}>
+                {ACTIVITY_VISIBILITIES[activity.visibility ?? DEFAULT_ACTIVITY_VISIBILITY].description}
+              </Text>
+            </View>
+          )}
+
+          {currentUserId === activity.userId && flatPath.length > 0 && (
+            ActivityService.canEditActivity(activity) ? (
+              <TouchableOpacity
+                style={styles.trimButton}
+                activeOpacity={0.7}
+                onPress={() => setShowTrimEditor(true)}
+              >
+                <Scissors color="#E65100" size={20} />
+                <Text style={styles.exportButtonText}>Trim Activity</Text>
+              </TouchableOpacity>
+            ) : (
+              <Text style={styles.editLockedText}>
+                {activity.territoryId
+                  ? 'This activity claimed territory, so its route can no longer be trimmed.'
+                  : 'This activity is flagged for review, so its route stays as recorded.'}
+              </Text>
+            )
+          )}
+
+          {currentUserId === activity.userId && flatPath.length > 0 && (
+            <TouchableOpacity
+              style={styles.exportButton}
+              activeOpacity={0.7}
+              onPress={handleExportPress}
+              disabled={isExporting}
+            >
+              {isExporting ? (
+                <ActivityIndicator color="#E65100" size="small" />
+              ) : (
+                <Download color="#E65100" size={20} />
+              )}
+              <Text style={styles.exportButtonText}>Export GPX / TCX</Text>
+            </TouchableOpacity>
+          )}
         </ScrollView>
       </SafeAreaView>
+      {canUndoEdit && (
+        <View style={styles.undoBar}>
+          <Text style={styles.undoText}>Activity trimmed</Text>
+          <TouchableOpacity onPress={undoEdit}>
+            <Text style={styles.undoAction}>UNDO</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+      {currentUserId === activity.userId && (
+        <ActivityTrimEditor
+          visible={showTrimEditor}
+          activity={activity}
+          saving={isSavingEdit}
+          onCancel={() => setShowTrimEditor(false)}
+          onSave={saveEdit}
+        />
+      )}
       <SharePreviewModal
         visible={showShareModal}
         onClose={() => setShowShareModal(false)}
@@ -465,6 +746,11 @@ const styles = StyleSheet.create({
     fontSize: 13,
     color: '#666666',
   },
+  statSubLabel: {
+    fontSize: 11,
+    color: '#999999',
+    marginTop: 2,
+  },
   elevationSection: {
     backgroundColor: '#F5F5F5',
     borderRadius: 16,
@@ -495,11 +781,55 @@ const styles = StyleSheet.create({
     fontSize: 13,
     color: '#666666',
   },
+  elevationChart: {
+    marginTop: 16,
+  },
   elevationDivider: {
     width: 1,
     height: 40,
     backgroundColor: '#E0E0E0',
   },
+  splitHeaderRow: {
+    flexDirection: 'row',
+    paddingHorizontal: 8,
+    paddingBottom: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E0E0E0',
+  },
+  splitHeaderText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#999999',
+    textTransform: 'uppercase',
+  },
+  splitRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 8,
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  splitRowFastest: {
+    backgroundColor: 'rgba(76, 175, 80, 0.12)',
+  },
+  splitRowSlowest: {
+    backgroundColor: 'rgba(244, 67, 54, 0.08)',
+  },
+  splitIndexCol: {
+    width: 48,
+  },
+  splitValueCol: {
+    flex: 1,
+    textAlign: 'right',
+  },
+  splitText: {
+    fontSize: 14,
+    color: '#1A1A1A',
+  },
+  splitTextFastest: {
+    fontWeight: '700',
+    color: '#2E7D32',
+  },
   territorySection: {
     marginBottom: 24,
   },
@@ -541,6 +871,90 @@ const styles = StyleSheet.create({
   noTerritorySection: {
     marginBottom: 24,
   },
+  exportButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderColor: '#E65100',
+    borderRadius: 16,
+    paddingVertical: 14,
+    marginBottom: 32,
+  },
+  trimButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderColor: '#E65100',
+    borderRadius: 16,
+    paddingVertical: 14,
+    marginBottom: 12,
+  },
+  visibilityRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  visibilityOption: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderRadius: 10,
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+  },
+  visibilityOptionSelected: {
+    backgroundColor: '#E65100',
+    borderColor: '#E65100',
+  },
+  visibilityOptionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#666666',
+  },
+  visibilityOptionTextSelected: {
+    color: '#FFFFFF',
+  },
+  visibilityHint: {
+    fontSize: 12,
+    color: '#999999',
+    marginTop: 8,
+  },
+  editLockedText: {
+    fontSize: 13,
+    color: '#999999',
+    textAlign: 'center',
+    marginBottom: 12,
+  },
+  undoBar: {
+    position: 'absolute',
+    left: 20,
+    right: 20,
+    bottom: 32,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: '#1A1A1A',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+  },
+  undoText: {
+    fontSize: 14,
+    color: '#FFFFFF',
+  },
+  undoAction: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#FF9800',
+  },
+  exportButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#E65100',
+    marginLeft: 8,
+  },
   noTerritoryCard: {
     backgroundColor: '#F5F5F5',
     borderRadius: 16,
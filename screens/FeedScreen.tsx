@@ -12,7 +12,7 @@ import {
   X, Send, MapPin, Clock, Map, Trash2, Activity,
   Footprints, Bike, PersonStanding, MoreHorizontal, Flag
 } from 'lucide-react-native';
-import Svg, { Polyline as SvgPolyline, Circle, Polygon as SvgPolygon, Line, Rect, Defs, LinearGradient, Stop } from 'react-native-svg';
+import Svg, { Polyline as SvgPolyline, Circle, Path, Line, Rect, Defs, LinearGradient, Stop } from 'react-native-svg';
 import { useFocusEffect } from '@react-navigation/native';
 import BottomTabBar from '../components/BottomTabBar';
 import SharePreviewModal from '../components/SharePreviewModal';
@@ -29,6 +29,7 @@ import {
   gpsPointsToSvgPath, territoryPolygonToSvg, flattenPolylines,
   formatDistance, formatDuration, formatPace, formatArea,
 } from '../utils/shareCardUtils';
+import { ACTIVITY_VISIBILITIES } from '../utils/activityVisibility';
 
 const SCREEN_WIDTH = Dimensions.get('window').width;
 const CARD_MAP_WIDTH = SCREEN_WIDTH - 72; // 20px list padding * 2 + 16px card padding * 2
@@ -496,9 +497,8 @@ export default function FeedScreen({ navigation }: FeedScreenProps) {
 
   // Render inline SVG territory polygon for territory posts
   const renderTerritoryMap = (territory: Territory) => {
-    if (!territory.polygon || territory.polygon.length < 3) return null;
-
     const svgData = territoryPolygonToSvg(territory.polygon, CARD_MAP_WIDTH, CARD_MAP_HEIGHT);
+    if (!svgData.path) return null;
 
     return (
       <TouchableOpacity
@@ -529,24 +529,27 @@ export default function FeedScreen({ navigation }: FeedScreenProps) {
             {/* Grid lines for depth */}
             {renderMapGrid()}
             {/* Outer glow */}
-            <SvgPolygon
-              points={svgData.points}
+            <Path
+              d={svgData.path}
+              fillRule="evenodd"
               fill="none"
               stroke="rgba(252, 76, 2, 0.15)"
               strokeWidth={8}
               strokeLinejoin="round"
             />
             {/* Filled polygon */}
-            <SvgPolygon
-              points={svgData.points}
+            <Path
+              d={svgData.path}
+              fillRule="evenodd"
               fill="url(#territoryFill)"
               stroke="rgba(252, 76, 2, 0.5)"
               strokeWidth={3}
               strokeLinejoin="round"
             />
             {/* Crisp border */}
-            <SvgPolygon
-              points={svgData.points}
+            <Path
+              d={svgData.path}
+              fillRule="evenodd"
               fill="none"
               stroke="#FC4C02"
               strokeWidth={1.5}
@@ -909,6 +912,7 @@ export default function FeedScreen({ navigation }: FeedScreenProps) {
                       <Activity size={16} color={selectedActivityId === act.id ? '#E65100' : '#666666'} />
                       <Text style={[styles.attachItemText, selectedActivityId === act.id && styles.attachItemTextSelected]}>
                         {act.type} - {formatDistance(act.distance)} - {Math.floor(act.duration / 60)}min
+                        {act.visibility && act.visibility !== 'public' ? ` (${ACTIVITY_VISIBILITIES[act.visibility].label})` : ''}
                       </Text>
                     </TouchableOpacity>
                   ))
@@ -1,26 +1,38 @@
 import * as React from 'react';
-import { View, Text, StyleSheet, Modal, TouchableOpacity, ScrollView, ActivityIndicator, Platform, Linking } from 'react-native';
+import { View, Text, StyleSheet, Modal, TouchableOpacity, ScrollView, ActivityIndicator, Platform, Linking, AppState } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { StatusBar } from 'expo-status-bar';
-import { useFocusEffect } from '@react-navigation/native';
-import { Swords, ShieldAlert, X, User, UserPlus, MapPin, Check, Zap, Crosshair, Map, Clock, Settings } from 'lucide-react-native';
+import { useFocusEffect, useIsFocused } from '@react-navigation/native';
+import { Swords, ShieldAlert, X, User, UserPlus, MapPin, Check, Zap, Crosshair, Map, Clock, Settings, History } from 'lucide-react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import * as Haptics from 'expo-haptics';
 import MapContainer, { MapContainerHandle } from '../components/MapContainer';
 import BottomTabBar from '../components/BottomTabBar';
 import { Territory, GPSPoint, TerritoryInvasion } from '../lib/types';
 import { TerritoryService } from '../services/TerritoryService';
+import { InvasionAlertService } from '../services/InvasionAlertService';
 import { ActivityService } from '../services/ActivityService';
 import { FriendService } from '../services/FriendService';
 import { LocationService } from '../services/LocationService';
 import { EventModeService } from '../services/EventModeService';
+import { TeamService } from '../services/TeamService';
+import { TrackingStore } from '../services/TrackingStore';
 import { supabase } from '../lib/supabase';
 import { useScreenTracking } from '../lib/useScreenTracking';
 import { showToast } from '../components/Toast';
+import { hasPolygon } from '../utils/territoryGeometry';
 
 const ONBOARDING_KEY = 'conqr_onboarding_shown_v1';
 const LOCATION_DISCLOSURE_KEY = 'conqr_location_disclosure_v1';
 
+// Realtime rows carry the owner's team but not its color; take it from a
+// teammate's territory already on the map
+const withTeamColor = (territory: Territory, known: Territory[]): Territory => {
+  if (!territory.teamId || territory.teamColor) return territory;
+  const teamColor = known.find(t => t.teamId === territory.teamId)?.teamColor;
+  return teamColor ? { ...territory, teamColor } : territory;
+};
+
 interface HomeScreenProps {
   navigation: any;
   route?: {
@@ -36,6 +48,7 @@ export default function HomeScreen({ navigation, route }: HomeScreenProps) {
   const [location, setLocation] = React.useState<GPSPoint | null>(null);
   const [territories, setTerritories] = React.useState<Territory[]>([]);
   const [currentUserId, setCurrentUserId] = React.useState<string | undefined>(undefined);
+  const [currentTeamId, setCurrentTeamId] = React.useState<string | undefined>(undefined);
   const [eventModeActive, setEventModeActive] = React.useState(false);
   const [eventName, setEventName] = React.useState<string | null>(null);
   const [eventCountdown, setEventCountdown] = React.useState<string | null>(null);
@@ -66,6 +79,7 @@ export default function HomeScreen({ navigation, route }: HomeScreenProps) {
   // Territory popup state
   const [territoryPopup, setTerritoryPopup] = React.useState<{
     visible: boolean;
+    territoryId: string;
     ownerId: string;
     ownerName: string;
     territoryName: string;
@@ -73,7 +87,7 @@ export default function HomeScreen({ navigation, route }: HomeScreenProps) {
     claimedAt: number;
     isOwnTerritory: boolean;
     friendStatus: 'none' | 'pending' | 'accepted' | 'loading';
-  }>({ visible: false, ownerId: '', ownerName: '', territoryName: '', territoryArea: 0, claimedAt: 0, isOwnTerritory: false, friendStatus: 'none' });
+  }>({ visible: false, territoryId: '', ownerId: '', ownerName: '', territoryName: '', territoryArea: 0, claimedAt: 0, isOwnTerritory: false, friendStatus: 'none' });
   const [sendingRequest, setSendingRequest] = React.useState(false);
 
   const formatArea = (sqMeters: number): string => {
@@ -100,6 +114,13 @@ export default function HomeScreen({ navigation, route }: HomeScreenProps) {
     });
   }, []);
 
+  // An activity was cut short by the app being killed — RecordScreen offers recovery
+  React.useEffect(() => {
+    TrackingStore.hasInterruptedSession().then((interrupted) => {
+      if (interrupted) navigation.navigate('Record');
+    }).catch(() => {});
+  }, [navigation]);
+
   const dismissOnboarding = () => {
     setShowOnboarding(false);
     AsyncStorage.setItem(ONBOARDING_KEY, 'true').catch(() => {});
@@ -143,6 +164,7 @@ export default function HomeScreen({ navigation, route }: HomeScreenProps) {
 
     setTerritoryPopup({
       visible: true,
+      territoryId: territory.id,
       ownerId: territory.ownerId,
       ownerName: territory.ownerName || 'Unknown',
       territoryName: fullTerritory?.name || '',
@@ -191,6 +213,11 @@ export default function HomeScreen({ navigation, route }: HomeScreenProps) {
     }
   };
 
+  const handleViewTerritory = () => {
+    setTerritoryPopup(prev => ({ ...prev, visible: false }));
+    navigation.navigate('TerritoryDetails', { territoryId: territoryPopup.territoryId });
+  };
+
   // Reload territories on focus, with staleness guard to avoid redundant fetches
   // Also sync any pending activities in background to ensure data reaches the cloud
   useFocusEffect(
@@ -199,6 +226,9 @@ export default function HomeScreen({ navigation, route }: HomeScreenProps) {
       ActivityService.syncPendingActivities().catch(err => {
         console.error('Failed to sync pending activities:', err);
       });
+      TeamService.getMembership()
+        .then(membership => setCurrentTeamId(membership?.team.id))
+        .catch(() => {});
 
       const STALENESS_MS = 60_000;
       if (Date.now() - lastFetchTimeRef.current < STALENESS_MS && territories.length > 0) {
@@ -220,6 +250,10 @@ export default function HomeScreen({ navigation, route }: HomeScreenProps) {
           const { data: { session } } = await supabase.auth.getSession();
           if (session?.user) {
             setCurrentUserId(session.user.id);
+            // A claim held for review gets applied once an admin approves it
+            const approvedClaim = await TerritoryService.claimApprovedReview(session.user.id);
+            if (approvedClaim) showToast('A held territory was approved and claimed!', 'success');
+
             // Fetch all territories to show everyone's claimed areas
             const allTerritories = await TerritoryService.getAllTerritories();
             setTerritories(allTerritories);
@@ -363,7 +397,7 @@ export default function HomeScreen({ navigation, route }: HomeScreenProps) {
     // Merge into state
     setTerritories(prev => {
       const existingIds = new Set(prev.map(t => t.id));
-      const newOnes = pending.filter(t => !existingIds.has(t.id));
+      const newOnes = pending.filter(t => !existingIds.has(t.id)).map(t => withTeamColor(t, prev));
       return newOnes.length > 0 ? [...newOnes, ...prev] : prev;
     });
   }, []);
@@ -384,19 +418,22 @@ export default function HomeScreen({ navigation, route }: HomeScreenProps) {
 
           const center = typeof row.center === 'string' ? JSON.parse(row.center) : row.center;
           const polygon = typeof row.polygon === 'string' ? JSON.parse(row.polygon) : row.polygon;
-          if (!Array.isArray(polygon) || polygon.length < 3) return;
+          if (!hasPolygon(polygon)) return;
 
+          const claimedAt = row.claimed_at ? new Date(row.claimed_at).getTime() : Date.now();
           const newTerritory: Territory = {
             id: row.id,
             name: row.name || '',
             ownerId: row.owner_id,
             activityId: row.activity_id || '',
-            claimedAt: row.claimed_at ? new Date(row.claimed_at).getTime() : Date.now(),
+            claimedAt,
             area: typeof row.area === 'number' ? row.area : 0,
             perimeter: typeof row.perimeter === 'number' ? row.perimeter : 0,
             center: center || { lat: 0, lng: 0 },
             polygon,
             history: [],
+            lastDefendedAt: row.last_defended_at ? new Date(row.last_defended_at).getTime() : claimedAt,
+            teamId: row.team_id || undefined,
           };
 
           // Check username cache first
@@ -405,7 +442,7 @@ export default function HomeScreen({ navigation, route }: HomeScreenProps) {
             newTerritory.ownerName = cached;
             setTerritories(prev => {
               if (prev.some(t => t.id === newTerritory.id)) return prev;
-              return [newTerritory, ...prev];
+              return [withTeamColor(newTerritory, prev), ...prev];
             });
           } else {
             // Queue for batched resolution
@@ -435,6 +472,43 @@ export default function HomeScreen({ navigation, route }: HomeScreenProps) {
     };
   }, [currentUserId, flushRealtimeTerritories]);
 
+  // Live invasion alerts: shown here while the app is open, as a
+  // notification digest while it's in the background
+  const isFocused = useIsFocused();
+  const isFocusedRef = React.useRef(isFocused);
+  isFocusedRef.current = isFocused;
+
+  React.useEffect(() => {
+    if (!currentUserId) return;
+    InvasionAlertService.prepare();
+
+    const unsubscribe = TerritoryService.subscribeToInvasions(currentUserId, async (invasion) => {
+      if (await InvasionAlertService.notify(invasion)) return;
+      if (isFocusedRef.current) {
+        setInvasionModal(prev => ({
+          visible: true,
+          invasions: prev.visible ? [...prev.invasions.filter(inv => inv.id !== invasion.id), invasion] : [invasion],
+        }));
+      } else {
+        showToast(`${invasion.invaderUsername || 'Someone'} invaded your territory!`, 'error');
+      }
+    });
+
+    // Back in the app, show what landed in the background here instead
+    const appStateSub = AppState.addEventListener('change', async (state) => {
+      if (state !== 'active') return;
+      await InvasionAlertService.cancelPending();
+      if (!isFocusedRef.current) return;
+      const invasions = await TerritoryService.getUnseenInvasions(currentUserId);
+      if (invasions.length > 0) showInvasionAlert(invasions);
+    });
+
+    return () => {
+      unsubscribe();
+      appStateSub.remove();
+    };
+  }, [currentUserId]);
+
   // Center map on territory when navigated with focus params
   const focusLat = route?.params?.focusTerritoryLat;
   const focusLng = route?.params?.focusTerritoryLng;
@@ -526,6 +600,7 @@ export default function HomeScreen({ navigation, route }: HomeScreenProps) {
             path={[]}
             territories={territories}
             currentUserId={currentUserId}
+            currentTeamId={currentTeamId}
             style={styles.map}
             onTerritoryPress={handleTerritoryPress}
           />
@@ -673,6 +748,14 @@ export default function HomeScreen({ navigation, route }: HomeScreenProps) {
               </View>
             )}
 
+            <TouchableOpacity
+              style={[styles.popupActionBtn, styles.popupActionBtnHistory]}
+              onPress={handleViewTerritory}
+            >
+              <History color="#E65100" size={16} />
+              <Text style={styles.popupActionTextHistory}>Territory History</Text>
+            </TouchableOpacity>
+
             {!territoryPopup.isOwnTerritory && (
               <View style={styles.popupActions}>
                 {territoryPopup.friendStatus === 'loading' ? (
@@ -1093,6 +1176,16 @@ const styles = StyleSheet.create({
     fontSize: 15,
     fontWeight: '600',
   },
+  popupActionBtnHistory: {
+    marginTop: 16,
+    borderWidth: 1,
+    borderColor: '#E65100',
+  },
+  popupActionTextHistory: {
+    color: '#E65100',
+    fontSize: 15,
+    fontWeight: '600',
+  },
 
   // Invasion modal
   invasionBackdrop: {
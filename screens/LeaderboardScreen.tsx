@@ -2,15 +2,18 @@ import React, { useEffect, useState, useCallback, useRef } from 'react';
 import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator, ScrollView, RefreshControl, Image, Modal, Dimensions, Share, Alert } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { StatusBar } from 'expo-status-bar';
-import { Trophy, User, Crown, Medal, Share2, X, Link, Image as ImageIcon, Zap, Calendar, ChevronDown, ChevronRight } from 'lucide-react-native';
+import { Trophy, User, Crown, Medal, Share2, X, Link, Image as ImageIcon, Zap, Calendar, ChevronDown, ChevronRight, Users } from 'lucide-react-native';
 import { useFocusEffect } from '@react-navigation/native';
 import BottomTabBar from '../components/BottomTabBar';
 import ShareCardLeaderboard from '../components/ShareCardLeaderboard';
 import { ImageShareService } from '../services/ImageShareService';
 import { TerritoryService } from '../services/TerritoryService';
+import { GameEngine } from '../services/GameEngine';
 import { AuthService } from '../services/AuthService';
 import { EventModeService, EventInfo } from '../services/EventModeService';
+import { TeamService, TeamMembership } from '../services/TeamService';
 import { supabase } from '../lib/supabase';
+import { Territory, TeamLeaderboardEntry } from '../lib/types';
 import { useScreenTracking } from '../lib/useScreenTracking';
 import { SHARE_CARD_WIDTH, SHARE_CARD_HEIGHT, DOWNLOAD_URL } from '../utils/shareCardUtils';
 
@@ -33,7 +36,7 @@ interface LeaderboardScreenProps {
 }
 
 type TimePeriod = 'week' | 'month' | 'year' | 'all';
-type LeaderboardTab = TimePeriod | 'events';
+type LeaderboardTab = TimePeriod | 'teams' | 'events';
 
 interface LeaderboardEntry {
   userId: string;
@@ -66,20 +69,25 @@ function getStartDate(period: TimePeriod): number | null {
   }
 }
 
+type LeaderboardTerritory = Pick<Territory, 'ownerId' | 'ownerName' | 'area' | 'claimedAt' | 'lastDefendedAt'>;
+
+/** Totals use decayed area as of `asOf`, so a finished event keeps the standings it ended with. */
 function buildLeaderboardFromTerritories(
-  territories: { ownerId: string; ownerName?: string; area: number; claimedAt: number }[],
+  territories: LeaderboardTerritory[],
+  asOf: number = Date.now(),
 ): LeaderboardEntry[] {
   const userMap = new Map<string, LeaderboardEntry>();
   for (const t of territories) {
+    const area = GameEngine.getEffectiveArea(t, asOf);
     const existing = userMap.get(t.ownerId);
     if (existing) {
-      existing.totalArea += t.area;
+      existing.totalArea += area;
       existing.territoryCount += 1;
     } else {
       userMap.set(t.ownerId, {
         userId: t.ownerId,
         username: t.ownerName || 'Unknown',
-        totalArea: t.area,
+        totalArea: area,
         territoryCount: 1,
       });
     }
@@ -113,6 +121,7 @@ const TAB_LABELS: Record<LeaderboardTab, string> = {
   month: 'Month',
   year: 'Year',
   all: 'All Time',
+  teams: 'Teams',
   events: 'Events',
 };
 
@@ -128,6 +137,8 @@ export default function LeaderboardScreen({ navigation }: LeaderboardScreenProps
   const [shareModalVisible, setShareModalVisible] = useState(false);
   const [sharing, setSharing] = useState(false);
   const [eventModeActive, setEventModeActive] = useState(false);
+  const [teamLeaderboard, setTeamLeaderboard] = useState<TeamLeaderboardEntry[]>([]);
+  const [teamMembership, setTeamMembership] = useState<TeamMembership | null>(null);
   const viewShotRef = useRef<any>(null);
 
   // Event-specific state
@@ -143,7 +154,7 @@ export default function LeaderboardScreen({ navigation }: LeaderboardScreenProps
   const [eventCountdown, setEventCountdown] = useState<string | null>(null);
   const [eventExpired, setEventExpired] = useState(false);
   // Cache all territories for event leaderboard building
-  const allTerritoriesRef = useRef<{ ownerId: string; ownerName?: string; area: number; claimedAt: number }[]>([]);
+  const allTerritoriesRef = useRef<LeaderboardTerritory[]>([]);
 
   // Fetch generation counter — incremented on every new fetch so stale responses are discarded
   const fetchGenRef = useRef(0);
@@ -184,6 +195,7 @@ export default function LeaderboardScreen({ navigation }: LeaderboardScreenProps
           ownerName: t.ownerName,
           area: t.area,
           claimedAt: t.claimedAt,
+          lastDefendedAt: t.lastDefendedAt,
         }));
 
         // Fetch avatars for unique users
@@ -223,6 +235,14 @@ export default function LeaderboardScreen({ navigation }: LeaderboardScreenProps
           setEventLeaderboard([]);
           setEventParticipantCount(0);
         }
+      } else if (activeTab === 'teams') {
+        const [teams, membership] = await Promise.all([
+          TeamService.getLeaderboard(null, 100),
+          TeamService.getMembership(),
+        ]);
+        if (fetchId !== fetchGenRef.current) return;
+        setTeamLeaderboard(teams);
+        setTeamMembership(membership);
       } else {
         // Regular period-based leaderboard — use server-side aggregation RPC
         const startDate = getStartDate(activeTab as TimePeriod);
@@ -257,6 +277,8 @@ export default function LeaderboardScreen({ navigation }: LeaderboardScreenProps
       if (fetchId === fetchGenRef.current) {
         if (activeTab === 'events') {
           setEventLeaderboard([]);
+        } else if (activeTab === 'teams') {
+          setTeamLeaderboard([]);
         } else {
           setLeaderboard([]);
         }
@@ -353,6 +375,7 @@ export default function LeaderboardScreen({ navigation }: LeaderboardScreenProps
           ownerName: t.ownerName,
           area: t.area,
           claimedAt: t.claimedAt,
+          lastDefendedAt: t.lastDefendedAt,
         }));
       }
 
@@ -365,7 +388,7 @@ export default function LeaderboardScreen({ navigation }: LeaderboardScreenProps
             t => t.claimedAt >= startTime && t.claimedAt <= endTime &&
               participants.includes(t.ownerId)
           );
-      setPastEventLeaderboard(buildLeaderboardFromTerritories(eventTerritories));
+      setPastEventLeaderboard(buildLeaderboardFromTerritories(eventTerritories, endTime));
     } catch (err) {
       console.error('Failed to load past event leaderboard:', err);
       setPastEventLeaderboard([]);
@@ -431,6 +454,7 @@ export default function LeaderboardScreen({ navigation }: LeaderboardScreenProps
     if (tab === 'events') {
       return currentEvent ? currentEvent.name : 'Events';
     }
+    if (tab === 'teams') return 'Teams';
     return PERIOD_LABELS[tab as TimePeriod];
   };
 
@@ -559,6 +583,81 @@ export default function LeaderboardScreen({ navigation }: LeaderboardScreenProps
     });
   };
 
+  const renderTeamsContent = () => {
+    return (
+      <>
+        <TouchableOpacity
+          style={styles.myTeamCard}
+          onPress={() => navigation.navigate('Team')}
+          activeOpacity={0.7}
+        >
+          <View style={[styles.teamSwatch, { backgroundColor: teamMembership?.team.color || '#E65100' }]}>
+            <Users color="#FFFFFF" size={18} />
+          </View>
+          <View style={styles.userInfo}>
+            <Text style={styles.username} numberOfLines={1}>
+              {teamMembership ? teamMembership.team.name : 'Create or join a team'}
+            </Text>
+            <Text style={styles.territoryCount}>
+              {teamMembership ? 'Your team' : 'Compete with your club against other teams'}
+            </Text>
+          </View>
+          <ChevronRight color="#999999" size={18} />
+        </TouchableOpacity>
+
+        {teamLeaderboard.length === 0 ? (
+          <View style={styles.emptyState}>
+            <Users color="#CCCCCC" size={48} />
+            <Text style={styles.emptyText}>No team territory yet</Text>
+            <Text style={styles.emptySubtext}>Territory held by team members counts for their team</Text>
+          </View>
+        ) : (
+          teamLeaderboard.map((entry, index) => {
+            const rank = index + 1;
+            const isMyTeam = entry.teamId === teamMembership?.team.id;
+            return (
+              <TouchableOpacity
+                key={entry.teamId}
+                style={[
+                  styles.leaderboardRow,
+                  rank <= 3 && styles.topThreeRow,
+                  isMyTeam && styles.currentUserRow,
+                ]}
+                onPress={() => navigation.navigate('Team', { teamId: entry.teamId })}
+                activeOpacity={0.7}
+              >
+                <View style={styles.rankBadge}>
+                  {renderRankBadge(rank)}
+                </View>
+
+                <View style={[styles.teamSwatch, { backgroundColor: entry.color }]}>
+                  <Users color="#FFFFFF" size={18} />
+                </View>
+
+                <View style={styles.userInfo}>
+                  <Text style={[styles.username, isMyTeam && styles.currentUserText]} numberOfLines={1}>
+                    {entry.name}{isMyTeam ? ' (Your team)' : ''}
+                  </Text>
+                  <Text style={styles.territoryCount}>
+                    {entry.memberCount} {entry.memberCount === 1 ? 'member' : 'members'}
+                    {' \u00B7 '}
+                    {entry.territoryCount} {entry.territoryCount === 1 ? 'territory' : 'territories'}
+                  </Text>
+                </View>
+
+                <View style={styles.areaContainer}>
+                  <Text style={[styles.areaValue, rank <= 3 && styles.topThreeArea]}>
+                    {formatArea(entry.totalArea)}
+                  </Text>
+                </View>
+              </TouchableOpacity>
+            );
+          })
+        )}
+      </>
+    );
+  };
+
   const renderEventsContent = () => {
     return (
       <>
@@ -692,6 +791,8 @@ export default function LeaderboardScreen({ navigation }: LeaderboardScreenProps
   }
 
   const displayBoard = getDisplayLeaderboard();
+  // The share card ranks players, so the team board has nothing to share
+  const shareDisabled = tab === 'teams' || displayBoard.length === 0;
 
   return (
     <View style={styles.container}>
@@ -712,10 +813,10 @@ export default function LeaderboardScreen({ navigation }: LeaderboardScreenProps
           <TouchableOpacity
             style={styles.shareHeaderBtn}
             onPress={() => setShareModalVisible(true)}
-            disabled={tab === 'events' ? eventLeaderboard.length === 0 : leaderboard.length === 0}
+            disabled={shareDisabled}
           >
             <Share2
-              color={(tab === 'events' ? eventLeaderboard.length === 0 : leaderboard.length === 0) ? '#CCCCCC' : '#1A1A1A'}
+              color={shareDisabled ? '#CCCCCC' : '#1A1A1A'}
               size={22}
             />
           </TouchableOpacity>
@@ -727,7 +828,7 @@ export default function LeaderboardScreen({ navigation }: LeaderboardScreenProps
           style={styles.periodTabsScroll}
           contentContainerStyle={styles.periodTabsContent}
         >
-          {(['week', 'month', 'year', 'all', 'events'] as LeaderboardTab[]).map((t) => (
+          {(['week', 'month', 'year', 'all', 'teams', 'events'] as LeaderboardTab[]).map((t) => (
             <TouchableOpacity
               key={t}
               style={[styles.periodTab, tab === t && styles.periodTabActive]}
@@ -757,6 +858,8 @@ export default function LeaderboardScreen({ navigation }: LeaderboardScreenProps
         >
           {tab === 'events' ? (
             renderEventsContent()
+          ) : tab === 'teams' ? (
+            renderTeamsContent()
           ) : (
             <>
               {displayBoard.length === 0 ? (
@@ -1025,6 +1128,24 @@ const styles = StyleSheet.create({
   userAvatar: {
     marginRight: 12,
   },
+  teamSwatch: {
+    width: 42,
+    height: 42,
+    borderRadius: 21,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 12,
+  },
+  myTeamCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 14,
+    paddingHorizontal: 14,
+    borderRadius: 14,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#F0F0F0',
+  },
   avatarImage: {
     width: 42,
     height: 42,
@@ -2,17 +2,26 @@ import React, { useEffect, useState, useCallback, useMemo } from 'react';
 import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator, Image, ScrollView, RefreshControl, TextInput, Alert, ActionSheetIOS, Platform, Switch, Modal, KeyboardAvoidingView } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { StatusBar } from 'expo-status-bar';
-import { User, Pencil, Check, X, ChevronRight, Footprints, Bike, PersonStanding, LogOut, Trash2, Shield, Camera, Zap, Users } from 'lucide-react-native';
+import { User, Pencil, Check, X, ChevronRight, Footprints, Bike, PersonStanding, LogOut, Trash2, Shield, Camera, Zap, Users, Upload, MapPin, EyeOff, Globe, Lock, Flag } from 'lucide-react-native';
 import { useFocusEffect } from '@react-navigation/native';
+import { File } from 'expo-file-system';
 import BottomTabBar from '../components/BottomTabBar';
 import { supabase } from '../lib/supabase';
 import { AuthService } from '../services/AuthService';
 import { ActivityService } from '../services/ActivityService';
 import { TerritoryService } from '../services/TerritoryService';
 import { EventModeService } from '../services/EventModeService';
-import { UserProfile, Activity as ActivityType } from '../lib/types';
+import { ImportService } from '../services/ImportService';
+import { AnalyticsService } from '../services/AnalyticsService';
+import { PrivacyZoneService } from '../services/PrivacyZoneService';
+import { InvasionAlertService } from '../services/InvasionAlertService';
+import { LocationService } from '../services/LocationService';
+import { UserProfile, Activity as ActivityType, ActivityVisibility, PrivacyZone } from '../lib/types';
 import { useScreenTracking } from '../lib/useScreenTracking';
 import { formatDistance, formatDuration } from '../utils/shareCardUtils';
+import { PRIVACY_ZONE_RADII_M } from '../utils/privacyZones';
+import { describeClaimRuleViolation } from '../utils/claimRules';
+import { ACTIVITY_VISIBILITIES, DEFAULT_ACTIVITY_VISIBILITY } from '../utils/activityVisibility';
 
 interface ProfileScreenProps {
   navigation: any;
@@ -39,6 +48,9 @@ export default function ProfileScreen({ navigation }: ProfileScreenProps) {
   const [isDevUser, setIsDevUser] = useState(false);
   const [eventModeEnabled, setEventModeEnabled] = useState(false);
   const [togglingEventMode, setTogglingEventMode] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [privacyZones, setPrivacyZones] = useState<PrivacyZone[]>([]);
+  const [addingZone, setAddingZone] = useState(false);
   const [eventNameModalVisible, setEventNameModalVisible] = useState(false);
   const [eventNameInput, setEventNameInput] = useState('');
   const [eventDuration, setEventDuration] = useState(120); // minutes
@@ -66,6 +78,8 @@ export default function ProfileScreen({ navigation }: ProfileScreenProps) {
         const userTerritories = await TerritoryService.getUserTerritories(session.user.id);
         setTerritoryCount(userTerritories.length);
 
+        setPrivacyZones(await PrivacyZoneService.getZones());
+
         const isDev = EventModeService.isDevUser(session.user.email);
         setIsDevUser(isDev);
         if (isDev) {
@@ -104,6 +118,7 @@ export default function ProfileScreen({ navigation }: ProfileScreenProps) {
   }, [fetchData]);
 
   const handleSignOut = async () => {
+    await InvasionAlertService.unregister();
     await supabase.auth.signOut();
   };
 
@@ -162,10 +177,139 @@ export default function ProfileScreen({ navigation }: ProfileScreenProps) {
     );
   };
 
+  const addPrivacyZoneHere = async (radius: number) => {
+    setAddingZone(true);
+    try {
+      const position = await LocationService.getCurrentPosition();
+      if (!position) {
+        Alert.alert('Location Unavailable', 'Allow location access to place a privacy zone where you are.');
+        return;
+      }
+      const zone = await PrivacyZoneService.addZone({ lat: position.lat, lng: position.lng }, radius);
+      if (!zone) {
+        Alert.alert('Error', 'Could not save the privacy zone. Please try again.');
+        return;
+      }
+      setPrivacyZones(prev => [...prev, zone]);
+      AnalyticsService.trackEvent('privacy_zone_added', { radius });
+    } finally {
+      setAddingZone(false);
+    }
+  };
+
+  const handleAddPrivacyZone = () => {
+    if (addingZone) return;
+    Alert.alert(
+      'Add Privacy Zone',
+      'Your routes will be hidden within this distance of where you are now, for everyone but you.',
+      [
+        ...PRIVACY_ZONE_RADII_M.map(radius => ({ text: `${radius} m`, onPress: () => addPrivacyZoneHere(radius) })),
+        { text: 'Cancel', style: 'cancel' as const },
+      ]
+    );
+  };
+
+  const handleRemovePrivacyZone = (zone: PrivacyZone) => {
+    Alert.alert(
+      'Remove Privacy Zone',
+      'Routes through this area will be visible to others again.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            if (await PrivacyZoneService.removeZone(zone.id)) {
+              setPrivacyZones(prev => prev.filter(z => z.id !== zone.id));
+            } else {
+              Alert.alert('Error', 'Could not remove the privacy zone. Please try again.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleDefaultVisibility = async (visibility: ActivityVisibility) => {
+    const previous = profile?.defaultActivityVisibility;
+    setProfile(prev => prev ? { ...prev, defaultActivityVisibility: visibility } : prev);
+    try {
+      await AuthService.setDefaultActivityVisibility(visibility);
+    } catch (err) {
+      console.error('Failed to change default activity visibility:', err);
+      setProfile(prev => prev ? { ...prev, defaultActivityVisibility: previous } : prev);
+      Alert.alert('Error', 'Could not change who sees your activities. Please try again.');
+    }
+  };
+
   const handlePrivacyPolicy = () => {
     navigation.navigate('PrivacyPolicy');
   };
 
+  const handleImportActivity = async () => {
+    if (importing) return;
+
+    let file: File;
+    try {
+      const picked = await File.pickFileAsync();
+      const pickedFile = Array.isArray(picked) ? picked[0] : picked;
+      if (!pickedFile) return;
+      file = new File(pickedFile.uri);
+    } catch {
+      return; // picker cancelled
+    }
+
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session?.user) {
+      Alert.alert('Sign In Required', 'Please sign in to import activities.');
+      return;
+    }
+
+    setImporting(true);
+    try {
+      // FIT is binary; GPX and TCX are XML text
+      const content = file.name.toLowerCase().endsWith('.fit') ? await file.bytes() : await file.text();
+      const result = await ImportService.importFile(file.name, content, session.user.id);
+
+      if (!result.success || !result.activity) {
+        Alert.alert('Import Failed', result.message || 'This file could not be imported.');
+        return;
+      }
+
+      AnalyticsService.trackEvent('activity_imported', {
+        activityType: result.activity.type,
+        distance: result.activity.distance,
+        claimedTerritory: !!result.territory,
+      });
+
+      let message = `${result.activity.type} of ${formatDistance(result.activity.distance)} imported.`;
+      if (result.territory) {
+        message += result.conqueredArea
+          ? ' Your loop claimed territory and invaded a rival!'
+          : ' Your loop claimed territory!';
+      } else if (result.territorySkipped === 'TOO_OLD') {
+        message += ' It is too old to claim territory.';
+      } else if (result.territorySkipped === 'REJECTED') {
+        message += " Its loop couldn't be verified, so no territory was claimed.";
+      } else if (result.territorySkipped === 'UNDER_REVIEW') {
+        message += ' Its territory is held for review and will be claimed if the track checks out.';
+      } else if (result.territorySkipped === 'PRIVACY_ZONE') {
+        message += ' Its loop reaches into one of your privacy zones, so no territory was claimed.';
+      } else if (result.territorySkipped === 'CLAIM_FAILED') {
+        message += " The server couldn't be reached, so no territory was claimed.";
+      } else if (result.territorySkipped === 'CLAIM_RULES' && result.claimViolation) {
+        message += ' ' + describeClaimRuleViolation(result.claimViolation, result.activity.type);
+      }
+      Alert.alert('Activity Imported', message);
+      fetchData();
+    } catch (err) {
+      console.error('Import activity error:', err);
+      Alert.alert('Import Failed', 'Something went wrong importing this file.');
+    } finally {
+      setImporting(false);
+    }
+  };
+
   const handleToggleEventMode = (newValue: boolean) => {
     if (togglingEventMode) return;
 
@@ -590,15 +734,87 @@ export default function ProfileScreen({ navigation }: ProfileScreenProps) {
             </View>
           )}
 
+          {/* Activity Visibility */}
+          <View style={styles.section}>
+            <Text style={styles.sectionLabel}>Who Sees New Activities</Text>
+            <View style={styles.card}>
+              {(Object.keys(ACTIVITY_VISIBILITIES) as ActivityVisibility[]).map((option, i) => {
+                const selected = option === (profile?.defaultActivityVisibility ?? DEFAULT_ACTIVITY_VISIBILITY);
+                const Icon = option === 'public' ? Globe : option === 'friends' ? Users : Lock;
+                return (
+                  <React.Fragment key={option}>
+                    {i > 0 && <View style={styles.menuDivider} />}
+                    <TouchableOpacity style={styles.menuRow} onPress={() => handleDefaultVisibility(option)} activeOpacity={0.6}>
+                      <Icon color={selected ? '#E65100' : '#999999'} size={18} />
+                      <View style={styles.visibilityText}>
+                        <Text style={[styles.menuText, selected && styles.menuTextActive]}>{ACTIVITY_VISIBILITIES[option].label}</Text>
+                        <Text style={styles.visibilityDescription}>{ACTIVITY_VISIBILITIES[option].description}</Text>
+                      </View>
+                      {selected && <Check color="#E65100" size={16} />}
+                    </TouchableOpacity>
+                  </React.Fragment>
+                );
+              })}
+            </View>
+          </View>
+
+          {/* Privacy Zones */}
+          <View style={styles.section}>
+            <Text style={styles.sectionLabel}>Privacy Zones</Text>
+            <View style={styles.card}>
+              <Text style={styles.zoneHint}>
+                Routes inside these zones are hidden from everyone but you, and no territory can be claimed there.
+              </Text>
+              {privacyZones.map((zone, i) => (
+                <React.Fragment key={zone.id}>
+                  <View style={styles.menuDivider} />
+                  <View style={styles.menuRow}>
+                    <EyeOff color="#999999" size={18} />
+                    <Text style={styles.menuText}>{zone.name || `Zone ${i + 1}`} · {zone.radius} m</Text>
+                    <TouchableOpacity onPress={() => handleRemovePrivacyZone(zone)} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+                      <X color="#CCCCCC" size={16} />
+                    </TouchableOpacity>
+                  </View>
+                </React.Fragment>
+              ))}
+              <View style={styles.menuDivider} />
+              <TouchableOpacity style={styles.menuRow} onPress={handleAddPrivacyZone} disabled={addingZone} activeOpacity={0.6}>
+                <MapPin color="#999999" size={18} />
+                <Text style={styles.menuText}>Add Zone at My Location</Text>
+                {addingZone ? (
+                  <ActivityIndicator size="small" color="#E65100" />
+                ) : (
+                  <ChevronRight color="#CCCCCC" size={16} />
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+
           {/* Settings */}
           <View style={styles.section}>
             <View style={styles.card}>
+              <TouchableOpacity style={styles.menuRow} onPress={handleImportActivity} disabled={importing} activeOpacity={0.6}>
+                <Upload color="#999999" size={18} />
+                <Text style={styles.menuText}>Import Activity (GPX, TCX, FIT)</Text>
+                {importing ? (
+                  <ActivityIndicator size="small" color="#E65100" />
+                ) : (
+                  <ChevronRight color="#CCCCCC" size={16} />
+                )}
+              </TouchableOpacity>
+              <View style={styles.menuDivider} />
               <TouchableOpacity style={styles.menuRow} onPress={() => navigation.navigate('Friends')} activeOpacity={0.6}>
                 <Users color="#999999" size={18} />
                 <Text style={styles.menuText}>Friends</Text>
                 <ChevronRight color="#CCCCCC" size={16} />
               </TouchableOpacity>
               <View style={styles.menuDivider} />
+              <TouchableOpacity style={styles.menuRow} onPress={() => navigation.navigate('Team')} activeOpacity={0.6}>
+                <Flag color="#999999" size={18} />
+                <Text style={styles.menuText}>Team</Text>
+                <ChevronRight color="#CCCCCC" size={16} />
+              </TouchableOpacity>
+              <View style={styles.menuDivider} />
               <TouchableOpacity style={styles.menuRow} onPress={handlePrivacyPolicy} activeOpacity={0.6}>
                 <Shield color="#999999" size={18} />
                 <Text style={styles.menuText}>Privacy Policy</Text>
@@ -978,6 +1194,20 @@ const styles = StyleSheet.create({
   menuTextDanger: {
     color: '#FF3B30',
   },
+  visibilityText: {
+    flex: 1,
+  },
+  visibilityDescription: {
+    fontSize: 12,
+    color: '#999999',
+    marginTop: 2,
+  },
+  zoneHint: {
+    fontSize: 13,
+    color: '#999999',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
   menuDivider: {
     height: 1,
     backgroundColor: '#F0F0F0',
@@ -1,32 +1,43 @@
 import * as React from 'react';
-import { View, Text, StyleSheet, TouchableOpacity, Alert, Modal, Animated, Easing, Platform, TextInput, Linking } from 'react-native';
+import { View, Text, StyleSheet, TouchableOpacity, Alert, Modal, Animated, Easing, Platform, TextInput, Linking, Switch, AppState } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { StatusBar } from 'expo-status-bar';
-import { Footprints, Bike, PersonStanding, Trophy, MapPin, Clock, Gauge, Map, X, Swords, Share2, Settings } from 'lucide-react-native';
-import MapContainer, { MapContainerHandle } from '../components/MapContainer';
+import { Footprints, Bike, PersonStanding, Trophy, MapPin, Clock, Gauge, Map, X, Swords, Share2, Settings, Pause, Play, Flag, Crosshair } from 'lucide-react-native';
+import MapContainer, { MapContainerHandle, MapPreview } from '../components/MapContainer';
 import BottomTabBar from '../components/BottomTabBar';
 import { LocationService } from '../services/LocationService';
 import { GameEngine } from '../services/GameEngine';
 import { TerritoryService } from '../services/TerritoryService';
 import { ActivityService } from '../services/ActivityService';
 import { AuthService } from '../services/AuthService';
-import { TrackingStore } from '../services/TrackingStore';
-import { GPSPoint, ActivityType, Territory, Activity, ConquerResult } from '../lib/types';
+import { TrackingStore, InterruptedSession } from '../services/TrackingStore';
+import { GPSPoint, ActivityType, Territory, Activity, ConquerResult, ActivitySplit, SplitUnit, TerritoryPreview, TrackingProfile, GpsQuality, UserProfile, ClaimRuleViolation } from '../lib/types';
 import SharePreviewModal from '../components/SharePreviewModal';
 import { supabase } from '../lib/supabase';
 import { v4 as uuidv4 } from 'uuid';
 import { useScreenTracking } from '../lib/useScreenTracking';
 import { AnalyticsService } from '../services/AnalyticsService';
 import { EventModeService } from '../services/EventModeService';
+import { TeamService } from '../services/TeamService';
 import * as Haptics from 'expo-haptics';
 import { getDistance } from 'geolib';
-import { Crosshair } from 'lucide-react-native';
 import { showToast } from '../components/Toast';
+import { closeLaps } from '../utils/splits';
+import { TRACKING_PROFILES } from '../utils/trackingProfiles';
+import { trackGpsQuality } from '../utils/gpsQuality';
+import { analyzeTrack } from '../utils/spoofing';
+import { DEFAULT_ACTIVITY_VISIBILITY } from '../utils/activityVisibility';
+import { describeClaimRuleViolation } from '../utils/claimRules';
+import { formatArea } from '../utils/shareCardUtils';
+import { createTerritoryPreview, TerritoryPreviewTracker } from '../services/TerritoryPreview';
 
 interface RecordScreenProps {
   navigation: any;
 }
 
+const activityLabel = (type: ActivityType): string =>
+  type === 'RUN' ? 'Run' : type === 'RIDE' ? 'Ride' : 'Walk';
+
 export default function RecordScreen({ navigation }: RecordScreenProps) {
   useScreenTracking('Record');
 
@@ -38,6 +49,11 @@ export default function RecordScreen({ navigation }: RecordScreenProps) {
   // Tracking state — synced from TrackingStore (persists across navigation)
   const [path, setPath] = React.useState<GPSPoint[]>(TrackingStore.path);
   const [isTracking, setIsTracking] = React.useState(TrackingStore.isTracking);
+  const [isPaused, setIsPaused] = React.useState(TrackingStore.isPaused);
+  const [pauseReason, setPauseReason] = React.useState(TrackingStore.pauseReason);
+  const [autoPauseEnabled, setAutoPauseEnabled] = React.useState(TrackingStore.autoPauseSettings.enabled);
+  const [splitUnit, setSplitUnit] = React.useState<SplitUnit>(TrackingStore.splitUnit);
+  const [trackingProfile, setTrackingProfile] = React.useState<TrackingProfile>(TrackingStore.trackingProfile);
   const [activityType, setActivityType] = React.useState<ActivityType | null>(TrackingStore.activityType);
   const [trackingStartTime, setTrackingStartTime] = React.useState<number | null>(TrackingStore.startTime);
   const [currentDistance, setCurrentDistance] = React.useState(TrackingStore.runningDistance);
@@ -62,12 +78,16 @@ export default function RecordScreen({ navigation }: RecordScreenProps) {
   }>({ visible: false, title: '', distance: '', duration: '', pace: '' });
 
   const [distanceToStart, setDistanceToStart] = React.useState<number | null>(null);
+  const [claimPreview, setClaimPreview] = React.useState<TerritoryPreview | null>(null);
+  const claimPreviewRef = React.useRef<TerritoryPreviewTracker | null>(null);
   const [territoryNameInput, setTerritoryNameInput] = React.useState('');
   const [inEventMode, setInEventMode] = React.useState(false);
   const pendingTerritoryRef = React.useRef<Territory | null>(null);
 
   const mapRef = React.useRef<MapContainerHandle>(null);
   const timerRef = React.useRef<NodeJS.Timeout | null>(null);
+  // saveRecording is recreated every render; recovery reaches the latest one through this
+  const saveRecordingRef = React.useRef<typeof saveRecording | null>(null);
 
   // Load territories on mount
   React.useEffect(() => {
@@ -94,6 +114,9 @@ export default function RecordScreen({ navigation }: RecordScreenProps) {
   React.useEffect(() => {
     const syncFromStore = () => {
       setIsTracking(TrackingStore.isTracking);
+      setIsPaused(TrackingStore.isPaused);
+      setPauseReason(TrackingStore.pauseReason);
+      setAutoPauseEnabled(TrackingStore.autoPauseSettings.enabled);
       setPath(TrackingStore.path);
       setCurrentDistance(TrackingStore.runningDistance);
       setActivityType(TrackingStore.activityType);
@@ -103,13 +126,147 @@ export default function RecordScreen({ navigation }: RecordScreenProps) {
     // Sync initial state (handles returning to screen during active tracking)
     syncFromStore();
     if (TrackingStore.isTracking && TrackingStore.startTime) {
-      setElapsedTime(Math.floor((Date.now() - TrackingStore.startTime) / 1000));
+      setElapsedTime(Math.floor(TrackingStore.movingDuration / 1000));
     }
 
     const unsubscribe = TrackingStore.subscribe(syncFromStore);
     return unsubscribe;
   }, []);
 
+  const recoverInterruptedSession = React.useCallback(async (session: InterruptedSession, action: 'resume' | 'save' | 'discard') => {
+    if (action === 'discard') {
+      await TrackingStore.discardInterruptedSession();
+      return;
+    }
+
+    if (action === 'resume') {
+      await TrackingStore.resumeInterruptedSession(session);
+      showToast('Recording resumed', 'info');
+      return;
+    }
+
+    setIsSaving(true);
+    let userId: string;
+    try {
+      const { data: { session: authSession } } = await supabase.auth.getSession();
+      if (!authSession?.user?.id) {
+        Alert.alert('Sign In Required', 'Please sign in to save activities.');
+        setIsSaving(false);
+        return;
+      }
+      userId = authSession.user.id;
+    } catch {
+      Alert.alert('Error', 'Could not verify sign-in status. Please try again.');
+      setIsSaving(false);
+      return;
+    }
+
+    // The recording ends at the last fix we have, not at relaunch time
+    const lastSegment = session.segments[session.segments.length - 1];
+    const lastPoint = lastSegment?.[lastSegment.length - 1];
+    const endTime = lastPoint?.timestamp || session.checkpointedAt;
+
+    // Close the lap that was open when the app was killed
+    const movingSeconds = Math.max(0, (endTime - session.startTime - session.pausedDuration) / 1000);
+    const laps = closeLaps(session.laps, session.runningDistance, movingSeconds, endTime);
+
+    const gpsQuality = trackGpsQuality(session.segments).summary();
+    const saved = await saveRecordingRef.current!({ ...session, laps, gpsQuality }, userId, endTime);
+    if (saved) {
+      await TrackingStore.discardInterruptedSession();
+    }
+  }, []);
+
+  // Offer to resume or save a session that was cut short by the app being killed
+  React.useEffect(() => {
+    if (TrackingStore.isTracking) return;
+    let cancelled = false;
+
+    TrackingStore.loadInterruptedSession().then((session) => {
+      if (cancelled || !session) return;
+      const label = session.activityType === 'RUN' ? 'run' : session.activityType === 'RIDE' ? 'ride' : 'walk';
+      const distanceKm = (session.runningDistance / 1000).toFixed(2);
+      Alert.alert(
+        'Unfinished Activity',
+        `Your ${label} (${distanceKm} km) was interrupted. Resume recording or save what was recorded?`,
+        [
+          { text: 'Discard', style: 'destructive', onPress: () => { recoverInterruptedSession(session, 'discard'); } },
+          { text: 'Save', onPress: () => { recoverInterruptedSession(session, 'save'); } },
+          { text: 'Resume', onPress: () => { recoverInterruptedSession(session, 'resume'); } },
+        ],
+        { cancelable: false }
+      );
+    }).catch(() => {});
+
+    return () => { cancelled = true; };
+  }, [recoverInterruptedSession]);
+
+  // Flush buffered points when the app is backgrounded — the OS may kill it there —
+  // and pick up whatever the background task recorded once we're back
+  React.useEffect(() => {
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (!TrackingStore.isTracking) return;
+      if (state === 'active') {
+        TrackingStore.replayBackgroundPoints().catch(() => {});
+      } else {
+        TrackingStore.flushCheckpoint().catch(() => {});
+      }
+    });
+    return () => subscription.remove();
+  }, []);
+
+  // Auto-pause settings + event feedback
+  React.useEffect(() => {
+    TrackingStore.loadAutoPauseSettings()
+      .then(settings => setAutoPauseEnabled(settings.enabled))
+      .catch(() => {});
+    TrackingStore.loadSplitUnit()
+      .then(setSplitUnit)
+      .catch(() => {});
+    TrackingStore.loadTrackingProfile()
+      .then(setTrackingProfile)
+      .catch(() => {});
+
+    const unsubscribe = TrackingStore.onEvent((event) => {
+      if (event.type === 'autoPause') {
+        if (Platform.OS !== 'web') Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+        showToast('Auto-paused', 'info');
+        AnalyticsService.trackEvent('activity_paused', { auto: true });
+      } else if (event.type === 'autoResume') {
+        if (Platform.OS !== 'web') Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+        showToast('Resumed', 'info');
+        AnalyticsService.trackEvent('activity_resumed', {
+          auto: true,
+          pausedSeconds: Math.round(event.pausedMs / 1000),
+        });
+      } else if (event.type === 'split') {
+        if (Platform.OS !== 'web') Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+        const pace = ActivityService.calculatePace(event.split.distance / event.split.duration, event.unit);
+        showToast(`${event.unit === 'mi' ? 'Mile' : 'Km'} ${event.index + 1} · ${pace} /${event.unit}`, 'info');
+      } else if (event.type === 'typeSuggestion') {
+        const current = TrackingStore.activityType;
+        if (!current) return;
+        const suggested = event.suggestion.type;
+        if (Platform.OS !== 'web') Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+        Alert.alert(
+          `Switch to ${activityLabel(suggested)}?`,
+          `Your speed looks more like a ${activityLabel(suggested).toLowerCase()} than a ${activityLabel(current).toLowerCase()}. Switching keeps your whole route and stops fast points being dropped.`,
+          [
+            { text: `Keep ${activityLabel(current)}`, style: 'cancel', onPress: () => TrackingStore.dismissTypeSuggestion() },
+            {
+              text: `Switch to ${activityLabel(suggested)}`,
+              onPress: () => {
+                TrackingStore.changeActivityType(suggested);
+                AnalyticsService.trackEvent('activity_type_switched', { from: current, to: suggested });
+              },
+            },
+          ]
+        );
+      }
+    });
+    return unsubscribe;
+  }, []);
+
   // Location subscription for map display only (separate from tracking)
   React.useEffect(() => {
     let unsubscribe: (() => void) | undefined;
@@ -142,6 +299,36 @@ export default function RecordScreen({ navigation }: RecordScreenProps) {
     };
   }, []);
 
+  // Live claim preview: one tracker per session, checked against nearby territories
+  React.useEffect(() => {
+    if (!isTracking) {
+      claimPreviewRef.current = null;
+      setClaimPreview(null);
+      return;
+    }
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const { data: { session } } = await supabase.auth.getSession();
+        if (cancelled || !session?.user) return;
+        const membership = await TeamService.getMembership();
+        if (cancelled) return;
+        const tracker = createTerritoryPreview({ ownerId: session.user.id, teamId: membership?.team.id });
+        claimPreviewRef.current = tracker;
+        // Event mode claims never cut into anyone, so there's nothing to forecast
+        if (!inEventMode) {
+          const territories = await TerritoryService.getAllTerritories();
+          if (!cancelled) tracker.setTerritories(territories);
+        }
+      } catch (err) {
+        console.error('Failed to set up claim preview:', err);
+      }
+    })();
+
+    return () => { cancelled = true; };
+  }, [isTracking, inEventMode]);
+
   // Timer for elapsed time and speed (recomputed locally)
   React.useEffect(() => {
     if (timerRef.current) {
@@ -151,7 +338,8 @@ export default function RecordScreen({ navigation }: RecordScreenProps) {
 
     if (isTracking && trackingStartTime) {
       const updateStats = () => {
-        const elapsed = Math.floor((Date.now() - trackingStartTime) / 1000);
+        // Moving time — paused stretches don't count towards duration or pace
+        const elapsed = Math.floor(TrackingStore.movingDuration / 1000);
         setElapsedTime(elapsed);
 
         const storePath = TrackingStore.path;
@@ -181,6 +369,11 @@ export default function RecordScreen({ navigation }: RecordScreenProps) {
         } else {
           setDistanceToStart(null);
         }
+
+        // Throttled inside the tracker; returns the last preview between recomputes
+        if (claimPreviewRef.current && !TrackingStore.isPaused) {
+          setClaimPreview(claimPreviewRef.current.update(storePath));
+        }
       };
 
       updateStats();
@@ -195,6 +388,239 @@ export default function RecordScreen({ navigation }: RecordScreenProps) {
     };
   }, [isTracking, trackingStartTime]);
 
+  /**
+   * Turn a finished (or recovered) recording into a saved activity, claiming
+   * territory if the loop closed. Resolves false if the save itself failed.
+   */
+  const saveRecording = async (
+    recording: {
+      segments: GPSPoint[][];
+      activityType: ActivityType | null;
+      startTime: number | null;
+      pausedDuration: number;
+      splits?: ActivitySplit[];
+      splitUnit?: SplitUnit;
+      laps?: ActivitySplit[];
+      trackingProfile?: TrackingProfile;
+      gpsQuality?: GpsQuality;
+    },
+    userId: string,
+    endTime: number
+  ): Promise<boolean> => {
+    let saved = false;
+    const segments = recording.segments;
+    const currentActivityType = recording.activityType;
+    const startTime = recording.startTime || endTime;
+
+    // Non-destructive timeout: warn the user but don't cancel the save.
+    // The finally block handles cleanup when the save actually completes.
+    const SLOW_SAVE_WARN_MS = 15000;
+    let slowSaveWarned = false;
+    const saveTimeout = setTimeout(() => {
+      slowSaveWarned = true;
+      Alert.alert("Saving to Cloud", "Your activity is uploading. Please keep the app open — this usually takes a few more seconds.");
+    }, SLOW_SAVE_WARN_MS);
+
+    try {
+      const activityId = uuidv4();
+
+      const distance = ActivityService.calculateSegmentsDistance(segments);
+      const elapsedTime = Math.round((endTime - startTime) / 1000);
+      const duration = Math.max(0, Math.round((endTime - startTime - recording.pausedDuration) / 1000));
+      const averageSpeed = ActivityService.calculateSegmentsAverageSpeed(segments);
+      const currentArea = GameEngine.calculateArea(segments);
+
+      const suspicion = analyzeTrack(segments, currentActivityType || 'WALK');
+
+      let savedTerritory: Territory | null = null;
+      let conqueredArea = 0;
+      let claimRejected = false;
+      let claimFailed = false;
+      let claimHeld = false;
+      let claimInPrivacyZone = false;
+      let claimViolation: ClaimRuleViolation | null = null;
+      let claimable: Territory | null = null;
+      const { isClosed } = GameEngine.checkLoopClosure(segments);
+
+      let currentProfile: UserProfile | null = null;
+      try {
+        currentProfile = await AuthService.getCurrentProfile();
+      } catch { /* proceed without ownerName and with the default visibility */ }
+
+      if (isClosed && currentArea > 0) {
+        const territory = GameEngine.processTerritory(segments, userId, activityId);
+        if (territory) {
+          // Slivers, bridged boundaries and loops too big for the activity don't claim
+          claimViolation = GameEngine.checkClaimRules(
+            territory, segments, currentActivityType || 'WALK', await TerritoryService.getClaimRules()
+          );
+          if (claimViolation) {
+            AnalyticsService.trackEvent('territory_claim_rejected', {
+              reason: claimViolation.reason,
+              previewArea: territory.area,
+            });
+          }
+        }
+        if (territory && !claimViolation) claimable = territory;
+      }
+
+      const activity: Activity = {
+        id: activityId,
+        userId,
+        type: currentActivityType || 'WALK',
+        startTime,
+        endTime,
+        distance,
+        duration,
+        elapsedTime,
+        pausedDuration: Math.round(recording.pausedDuration / 1000),
+        polylines: segments,
+        isSynced: false,
+        averageSpeed,
+        splits: recording.splits ?? ActivityService.calculateSplits(segments, recording.splitUnit || 'km'),
+        splitUnit: recording.splitUnit || 'km',
+        laps: recording.laps && recording.laps.length > 0 ? recording.laps : undefined,
+        ...ActivityService.elevationFields(segments),
+        trackingProfile: recording.trackingProfile,
+        gpsQuality: recording.gpsQuality,
+        suspicion,
+        // New activities get the visibility the user picked as their default
+        visibility: currentProfile?.defaultActivityVisibility ?? DEFAULT_ACTIVITY_VISIBILITY
+      };
+
+      // The server claims from the uploaded track, so a claim waits for the upload
+      const savedActivity = await ActivityService.saveActivity(activity, { awaitSync: !!claimable });
+      saved = true;
+
+      if (savedActivity && claimable) {
+        let username: string | undefined;
+        if (currentProfile?.username) {
+          claimable.ownerName = currentProfile.username;
+          username = currentProfile.username;
+        }
+
+        // Fetch all territories to check for overlaps
+        let allTerritories: Territory[] = [];
+        try {
+          allTerritories = await TerritoryService.getAllTerritories();
+        } catch (err) {
+          console.error('Failed to fetch territories for overlap check:', err);
+        }
+
+        // Use conquering flow
+        const conquerResult = await TerritoryService.saveTerritoryWithConquering(
+          claimable, allTerritories, segments, username, suspicion
+        );
+
+        if (conquerResult.rejectedReason === 'UNDER_REVIEW') {
+          claimHeld = true;
+        } else if (conquerResult.rejectedReason === 'PRIVACY_ZONE') {
+          claimInPrivacyZone = true;
+        } else if (conquerResult.rejectedReason === 'CLAIM_FAILED') {
+          claimFailed = true;
+        } else if (conquerResult.claimViolation) {
+          claimViolation = conquerResult.claimViolation;
+        } else if (conquerResult.rejectedReason) {
+          // The server couldn't verify the loop; the preview has been rolled back
+          claimRejected = true;
+        } else {
+          savedTerritory = conquerResult.newTerritory;
+          conqueredArea = conquerResult.totalConqueredArea;
+          activity.territoryId = savedTerritory.id;
+
+          AnalyticsService.trackEvent('territory_claimed', {
+            area: savedTerritory?.area,
+            conqueredArea,
+            hadInvasion: conqueredArea > 0,
+          });
+
+          // Update local territory state to reflect modifications
+          setSavedTerritories(prev => {
+            let updated = [...prev];
+            // Remove deleted territories and those merged into the new one
+            updated = updated.filter(t =>
+              !conquerResult.deletedTerritoryIds.includes(t.id) &&
+              !conquerResult.mergedTerritoryIds.includes(t.id)
+            );
+            // Update modified territories
+            for (const mod of conquerResult.modifiedTerritories) {
+              const idx = updated.findIndex(t => t.id === mod.id);
+              if (idx >= 0) updated[idx] = mod;
+            }
+            // Add new territory
+            if (savedTerritory) updated.unshift(savedTerritory);
+            return updated;
+          });
+        }
+      }
+
+      AnalyticsService.trackEvent('activity_saved');
+      AnalyticsService.trackEvent('activity_completed', {
+        activityType: currentActivityType,
+        distance,
+        duration,
+        loopClosed: !!savedTerritory,
+      });
+
+      // Store completed data for share card (before reset clears state)
+      setCompletedActivity(activity);
+      setCompletedTerritory(savedTerritory || null);
+
+      if (savedActivity) {
+        const durationFormatted = ActivityService.formatDuration(duration);
+        const paceUnit = recording.splitUnit || 'km';
+        const paceFormatted = averageSpeed > 0 ? ActivityService.calculatePace(averageSpeed, paceUnit) : '--:--';
+
+        if (savedTerritory) {
+          if (Platform.OS !== 'web') Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+          pendingTerritoryRef.current = savedTerritory;
+          setTerritoryNameInput('');
+          setSuccessModal({
+            visible: true,
+            title: conqueredArea > 0 ? 'Territory Invaded!' : 'Territory Conquered!',
+            distance: `${(distance / 1000).toFixed(2)} km`,
+            duration: durationFormatted,
+            pace: `${paceFormatted} /${paceUnit}`,
+            territory: `${(savedTerritory.area / 1000000).toFixed(4)} km²`,
+            conquered: conqueredArea > 0
+              ? `${(conqueredArea / 1000000).toFixed(4)} km²`
+              : undefined,
+          });
+        } else {
+          setSuccessModal({
+            visible: true,
+            title: 'Activity Saved!',
+            distance: `${(distance / 1000).toFixed(2)} km`,
+            duration: durationFormatted,
+            pace: `${paceFormatted} /${paceUnit}`,
+            message: claimHeld
+              ? 'Your territory is held for review and will be claimed if the track checks out.'
+              : claimInPrivacyZone
+                ? 'Your loop reaches into one of your privacy zones, so no territory was claimed.'
+                : claimViolation
+                  ? describeClaimRuleViolation(claimViolation, currentActivityType || 'WALK')
+                  : claimRejected
+                    ? "Your loop couldn't be verified, so no territory was claimed."
+                    : claimFailed
+                      ? "Couldn't reach the server to claim your territory. Your activity is saved."
+                      : 'Close your loop to claim territory!'
+          });
+        }
+      } else {
+        Alert.alert("Activity Too Short", "You need to cover more distance to save an activity. Try walking or running for at least a minute.");
+      }
+    } catch {
+      showToast('Failed to save activity. Check your connection.', 'error');
+    } finally {
+      clearTimeout(saveTimeout);
+      setIsSaving(false);
+      resetTrackingState();
+    }
+    return saved;
+  };
+
+  saveRecordingRef.current = saveRecording;
+
   const handleStartPress = async () => {
     if (locationError) {
       Alert.alert("Location Required", "Please enable location access to use CONQR.");
@@ -227,152 +653,12 @@ export default function RecordScreen({ navigation }: RecordScreenProps) {
       }
 
       // Stop tracking — get final accumulated state from the store
+      await TrackingStore.replayBackgroundPoints();
       const trackingResult = TrackingStore.stop();
-
-      const currentPath = trackingResult.path;
-      const currentActivityType = trackingResult.activityType;
-      const startTime = trackingResult.startTime || Date.now();
-      const endTime = Date.now();
-
-      // Non-destructive timeout: warn the user but don't cancel the save.
-      // The finally block handles cleanup when the save actually completes.
-      const SLOW_SAVE_WARN_MS = 15000;
-      let slowSaveWarned = false;
-      const saveTimeout = setTimeout(() => {
-        slowSaveWarned = true;
-        Alert.alert("Saving to Cloud", "Your activity is uploading. Please keep the app open — this usually takes a few more seconds.");
-      }, SLOW_SAVE_WARN_MS);
-
-      try {
-        const activityId = uuidv4();
-
-        const distance = ActivityService.calculateDistance(currentPath);
-        const duration = Math.round((endTime - startTime) / 1000);
-        const averageSpeed = ActivityService.calculateAverageSpeed(currentPath);
-        const currentArea = GameEngine.calculateArea(currentPath);
-
-        let savedTerritory: Territory | null = null;
-        let conqueredArea = 0;
-        const { isClosed } = GameEngine.checkLoopClosure(currentPath);
-
-        if (isClosed && currentArea > 0) {
-          const territory = GameEngine.processTerritory(currentPath, userId, activityId);
-          if (territory) {
-            let username: string | undefined;
-            try {
-              const currentProfile = await AuthService.getCurrentProfile();
-              if (currentProfile?.username) {
-                territory.ownerName = currentProfile.username;
-                username = currentProfile.username;
-              }
-            } catch { /* proceed without ownerName */ }
-
-            // Fetch all territories to check for overlaps
-            let allTerritories: Territory[] = [];
-            try {
-              allTerritories = await TerritoryService.getAllTerritories();
-            } catch (err) {
-              console.error('Failed to fetch territories for overlap check:', err);
-            }
-
-            // Use conquering flow
-            const conquerResult = await TerritoryService.saveTerritoryWithConquering(
-              territory, allTerritories, username
-            );
-
-            savedTerritory = conquerResult.newTerritory;
-            conqueredArea = conquerResult.totalConqueredArea;
-
-            AnalyticsService.trackEvent('territory_claimed', {
-              area: savedTerritory?.area,
-              conqueredArea,
-              hadInvasion: conqueredArea > 0,
-            });
-
-            // Update local territory state to reflect modifications
-            setSavedTerritories(prev => {
-              let updated = [...prev];
-              // Remove deleted territories
-              updated = updated.filter(t => !conquerResult.deletedTerritoryIds.includes(t.id));
-              // Update modified territories
-              for (const mod of conquerResult.modifiedTerritories) {
-                const idx = updated.findIndex(t => t.id === mod.id);
-                if (idx >= 0) updated[idx] = mod;
-              }
-              // Add new territory
-              if (savedTerritory) updated.unshift(savedTerritory);
-              return updated;
-            });
-          }
-        }
-
-        const activity: Activity = {
-          id: activityId,
-          userId,
-          type: currentActivityType || 'WALK',
-          startTime,
-          endTime,
-          distance,
-          duration,
-          polylines: [currentPath],
-          isSynced: false,
-          territoryId: savedTerritory?.id,
-          averageSpeed
-        };
-
-        const savedActivity = await ActivityService.saveActivity(activity);
-
-        AnalyticsService.trackEvent('activity_saved');
-        AnalyticsService.trackEvent('activity_completed', {
-          activityType: currentActivityType,
-          distance,
-          duration,
-          loopClosed: !!savedTerritory,
-        });
-
-        // Store completed data for share card (before reset clears state)
-        setCompletedActivity(activity);
-        setCompletedTerritory(savedTerritory || null);
-
-        if (savedActivity) {
-          const durationFormatted = ActivityService.formatDuration(duration);
-          const paceFormatted = averageSpeed > 0 ? ActivityService.calculatePace(averageSpeed) : '--:--';
-
-          if (savedTerritory) {
-            if (Platform.OS !== 'web') Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-            pendingTerritoryRef.current = savedTerritory;
-            setTerritoryNameInput('');
-            setSuccessModal({
-              visible: true,
-              title: conqueredArea > 0 ? 'Territory Invaded!' : 'Territory Conquered!',
-              distance: `${(distance / 1000).toFixed(2)} km`,
-              duration: durationFormatted,
-              pace: `${paceFormatted} /km`,
-              territory: `${(savedTerritory.area / 1000000).toFixed(4)} km²`,
-              conquered: conqueredArea > 0
-                ? `${(conqueredArea / 1000000).toFixed(4)} km²`
-                : undefined,
-            });
-          } else {
-            setSuccessModal({
-              visible: true,
-              title: 'Activity Saved!',
-              distance: `${(distance / 1000).toFixed(2)} km`,
-              duration: durationFormatted,
-              pace: `${paceFormatted} /km`,
-              message: 'Close your loop to claim territory!'
-            });
-          }
-        } else {
-          Alert.alert("Activity Too Short", "You need to cover more distance to save an activity. Try walking or running for at least a minute.");
-        }
-      } catch {
-        showToast('Failed to save activity. Check your connection.', 'error');
-      } finally {
-        clearTimeout(saveTimeout);
-        setIsSaving(false);
-        resetTrackingState();
+      if (trackingResult.typeCorrectedFrom && trackingResult.activityType) {
+        showToast(`Saved as a ${activityLabel(trackingResult.activityType).toLowerCase()} — your speed didn't match a ${activityLabel(trackingResult.typeCorrectedFrom).toLowerCase()}`, 'info');
       }
+      await saveRecording(trackingResult, userId, Date.now());
     } else {
       setShowActivityPicker(true);
     }
@@ -398,6 +684,31 @@ export default function RecordScreen({ navigation }: RecordScreenProps) {
     setSuccessModal(prev => ({ ...prev, visible: false }));
   };
 
+  const handlePauseToggle = () => {
+    if (!isTracking || isSaving) return;
+    if (Platform.OS !== 'web') {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    }
+    if (TrackingStore.isPaused) {
+      TrackingStore.resume();
+      AnalyticsService.trackEvent('activity_resumed');
+    } else {
+      TrackingStore.pause();
+      AnalyticsService.trackEvent('activity_paused');
+    }
+  };
+
+  const handleLapPress = () => {
+    if (!isTracking || isSaving || isPaused) return;
+    const lap = TrackingStore.lap();
+    if (!lap) return;
+    if (Platform.OS !== 'web') {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    }
+    const pace = ActivityService.calculatePace(lap.distance / Math.max(1, lap.duration), splitUnit);
+    showToast(`Lap ${TrackingStore.laps.length} · ${(lap.distance / 1000).toFixed(2)} km · ${pace} /${splitUnit}`, 'info');
+  };
+
   const resetTrackingState = () => {
     setElapsedTime(0);
     setCurrentSpeed(0);
@@ -409,8 +720,7 @@ export default function RecordScreen({ navigation }: RecordScreenProps) {
     setCurrentSpeed(0);
     await TrackingStore.start(type);
     AnalyticsService.trackEvent('activity_started', { activityType: type });
-    const label = type === 'RUN' ? 'Run' : type === 'RIDE' ? 'Ride' : 'Walk';
-    showToast(`Recording ${label}...`, 'info');
+    showToast(`Recording ${activityLabel(type)}...`, 'info');
   };
 
   const formatDuration = (seconds: number): string => {
@@ -444,6 +754,13 @@ export default function RecordScreen({ navigation }: RecordScreenProps) {
     }
   };
 
+  const mapPreview = React.useMemo<MapPreview | null>(
+    () => (isTracking && claimPreview
+      ? { polygon: claimPreview.polygon, label: formatArea(claimPreview.area) }
+      : null),
+    [isTracking, claimPreview]
+  );
+
   return (
     <View style={styles.container}>
       <StatusBar style="dark" />
@@ -455,6 +772,7 @@ export default function RecordScreen({ navigation }: RecordScreenProps) {
               location={location}
               path={path}
               territories={savedTerritories}
+              preview={mapPreview}
               style={styles.map}
             />
             {locationError && (
@@ -476,7 +794,15 @@ export default function RecordScreen({ navigation }: RecordScreenProps) {
                 <Text style={styles.eventModeBannerText}>Event Mode · No territory overlap</Text>
               </View>
             )}
-            {isTracking && distanceToStart !== null && (
+            {isTracking && isPaused && (
+              <View style={styles.pausedBanner}>
+                <Pause color="#FFFFFF" size={14} />
+                <Text style={styles.pausedBannerText}>
+                  {pauseReason === 'auto' ? 'Auto-paused · move to resume' : 'Paused'}
+                </Text>
+              </View>
+            )}
+            {isTracking && !isPaused && distanceToStart !== null && (
               <View style={[
                 styles.distanceToStartPill,
                 distanceToStart <= 200 && styles.distanceToStartClose,
@@ -492,6 +818,17 @@ export default function RecordScreen({ navigation }: RecordScreenProps) {
                 </Text>
               </View>
             )}
+            {isTracking && !isPaused && claimPreview && claimPreview.forecast.length > 0 && (
+              <View style={[styles.forecastPill, inEventMode && { top: 80 }]}>
+                <Swords color="#FFFFFF" size={13} />
+                <Text style={styles.forecastText}>
+                  {`Takes ${formatArea(claimPreview.forecastArea)} from ${claimPreview.forecast.length} ${claimPreview.forecast.length === 1 ? 'territory' : 'territories'}`}
+                  {claimPreview.forecast.some(f => f.destroyed)
+                    ? ` · ${claimPreview.forecast.filter(f => f.destroyed).length} wiped out`
+                    : ''}
+                </Text>
+              </View>
+            )}
             <TouchableOpacity
               style={styles.recenterButton}
               onPress={() => mapRef.current?.centerOnUser()}
@@ -525,7 +862,29 @@ export default function RecordScreen({ navigation }: RecordScreenProps) {
             </View>
           </View>
 
-          <View style={styles.statsContainer}>
+          <View style={[styles.statsContainer, isTracking && styles.buttonRow]}>
+            {isTracking && (
+              <TouchableOpacity
+                style={[styles.pauseButton, isSaving && styles.savingButton]}
+                onPress={handlePauseToggle}
+                disabled={isSaving}
+                activeOpacity={0.8}
+              >
+                {isPaused
+                  ? <Play color="#FFFFFF" size={22} />
+                  : <Pause color="#FFFFFF" size={22} />}
+              </TouchableOpacity>
+            )}
+            {isTracking && (
+              <TouchableOpacity
+                style={[styles.pauseButton, (isSaving || isPaused) && styles.savingButton]}
+                onPress={handleLapPress}
+                disabled={isSaving || isPaused}
+                activeOpacity={0.8}
+              >
+                <Flag color="#FFFFFF" size={20} />
+              </TouchableOpacity>
+            )}
             <TouchableOpacity
               style={[
                 styles.startButton,
@@ -591,6 +950,66 @@ export default function RecordScreen({ navigation }: RecordScreenProps) {
               <Text style={styles.activityName}>Ride</Text>
             </TouchableOpacity>
 
+            <View style={styles.autoPauseRow}>
+              <View style={styles.autoPauseInfo}>
+                <Text style={styles.autoPauseTitle}>Auto-pause</Text>
+                <Text style={styles.autoPauseHint}>Pause when you stop moving</Text>
+              </View>
+              <Switch
+                value={autoPauseEnabled}
+                onValueChange={(enabled) => {
+                  setAutoPauseEnabled(enabled);
+                  TrackingStore.configureAutoPause({ enabled }).catch(() => {});
+                }}
+                trackColor={{ false: '#E0E0E0', true: '#E65100' }}
+                thumbColor="#FFFFFF"
+              />
+            </View>
+
+            <View style={styles.autoPauseRow}>
+              <View style={styles.autoPauseInfo}>
+                <Text style={styles.autoPauseTitle}>Splits</Text>
+                <Text style={styles.autoPauseHint}>Automatic split every {splitUnit === 'mi' ? 'mile' : 'kilometre'}</Text>
+              </View>
+              <View style={styles.splitUnitToggle}>
+                {(['km', 'mi'] as SplitUnit[]).map(unit => (
+                  <TouchableOpacity
+                    key={unit}
+                    style={[styles.splitUnitOption, splitUnit === unit && styles.splitUnitOptionActive]}
+                    onPress={() => {
+                      setSplitUnit(unit);
+                      TrackingStore.configureSplitUnit(unit).catch(() => {});
+                    }}
+                  >
+                    <Text style={[styles.splitUnitText, splitUnit === unit && styles.splitUnitTextActive]}>{unit}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+
+            <View style={styles.autoPauseRow}>
+              <View style={styles.autoPauseInfo}>
+                <Text style={styles.autoPauseTitle}>GPS</Text>
+                <Text style={styles.autoPauseHint}>{TRACKING_PROFILES[trackingProfile].description}</Text>
+              </View>
+              <View style={styles.splitUnitToggle}>
+                {(Object.keys(TRACKING_PROFILES) as TrackingProfile[]).map(profile => (
+                  <TouchableOpacity
+                    key={profile}
+                    style={[styles.splitUnitOption, styles.profileOption, trackingProfile === profile && styles.splitUnitOptionActive]}
+                    onPress={() => {
+                      setTrackingProfile(profile);
+                      TrackingStore.configureTrackingProfile(profile).catch(() => {});
+                    }}
+                  >
+                    <Text style={[styles.splitUnitText, trackingProfile === profile && styles.splitUnitTextActive]}>
+                      {TRACKING_PROFILES[profile].shortLabel}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+
             <TouchableOpacity
               style={styles.cancelBtn}
               onPress={() => setShowActivityPicker(false)}
@@ -773,6 +1192,24 @@ const styles = StyleSheet.create({
     fontSize: 13,
     fontWeight: '600',
   },
+  pausedBanner: {
+    position: 'absolute',
+    top: 12,
+    alignSelf: 'center',
+    backgroundColor: 'rgba(0,0,0,0.7)',
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 6,
+    paddingHorizontal: 14,
+    borderRadius: 16,
+    zIndex: 10,
+  },
+  pausedBannerText: {
+    color: '#FFFFFF',
+    fontSize: 13,
+    fontWeight: '600',
+  },
   distanceToStartPill: {
     position: 'absolute',
     top: 12,
@@ -793,6 +1230,23 @@ const styles = StyleSheet.create({
   distanceToStartTextClose: {
     color: '#FFFFFF',
   },
+  forecastPill: {
+    position: 'absolute',
+    top: 48,
+    alignSelf: 'center',
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    backgroundColor: 'rgba(230, 81, 0, 0.9)',
+    paddingVertical: 6,
+    paddingHorizontal: 14,
+    borderRadius: 16,
+  },
+  forecastText: {
+    color: '#FFFFFF',
+    fontSize: 13,
+    fontWeight: '600',
+  },
   recenterButton: {
     position: 'absolute',
     bottom: 140,
@@ -859,6 +1313,17 @@ const styles = StyleSheet.create({
     letterSpacing: 0.8,
     fontWeight: '600',
   },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 10,
+  },
+  pauseButton: {
+    width: 56,
+    borderRadius: 14,
+    backgroundColor: '#1A1A1A',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
   startButton: {
     backgroundColor: '#E65100',
     paddingVertical: 16,
@@ -871,6 +1336,7 @@ const styles = StyleSheet.create({
     elevation: 6,
   },
   stopButton: {
+    flex: 1,
     backgroundColor: '#FF3B30',
   },
   savingButton: {
@@ -930,6 +1396,51 @@ const styles = StyleSheet.create({
     fontWeight: '500',
     color: '#1A1A1A',
   },
+  autoPauseRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F0F0F0',
+  },
+  autoPauseInfo: {
+    flex: 1,
+  },
+  autoPauseTitle: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#1A1A1A',
+  },
+  autoPauseHint: {
+    fontSize: 13,
+    color: '#999999',
+    marginTop: 2,
+  },
+  splitUnitToggle: {
+    flexDirection: 'row',
+    backgroundColor: '#F0F0F0',
+    borderRadius: 10,
+    padding: 2,
+  },
+  splitUnitOption: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 8,
+  },
+  splitUnitOptionActive: {
+    backgroundColor: '#E65100',
+  },
+  splitUnitText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#666666',
+  },
+  splitUnitTextActive: {
+    color: '#FFFFFF',
+  },
+  profileOption: {
+    paddingHorizontal: 8,
+  },
   cancelBtn: {
     marginTop: 16,
     paddingVertical: 16,
@@ -0,0 +1,573 @@
+import React, { useCallback, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator, ScrollView, TextInput, Alert, Share } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { StatusBar } from 'expo-status-bar';
+import { useFocusEffect } from '@react-navigation/native';
+import { ArrowLeft, Users, User, Share2, MoreHorizontal, UserMinus, LogOut, Check } from 'lucide-react-native';
+import { Team, TeamMember, TeamRole } from '../lib/types';
+import { TeamService, TeamMembership } from '../services/TeamService';
+import { supabase } from '../lib/supabase';
+import { useScreenTracking } from '../lib/useScreenTracking';
+import { DOWNLOAD_URL } from '../utils/shareCardUtils';
+import {
+  TEAM_COLORS,
+  TEAM_NAME_MAX_LENGTH,
+  TEAM_NAME_MIN_LENGTH,
+  TEAM_ROLE_LABELS,
+  canRemoveTeamMember,
+  normalizeTeamName,
+} from '../utils/teams';
+
+interface TeamScreenProps {
+  navigation: any;
+  route?: {
+    params?: {
+      teamId?: string; // another team to look at; the user's own by default
+    };
+  };
+}
+
+export default function TeamScreen({ navigation, route }: TeamScreenProps) {
+  useScreenTracking('Team');
+  const requestedTeamId = route?.params?.teamId;
+  const [membership, setMembership] = useState<TeamMembership | null>(null);
+  const [team, setTeam] = useState<Team | null>(null);
+  const [members, setMembers] = useState<TeamMember[]>([]);
+  const [inviteCode, setInviteCode] = useState<string | null>(null);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [newColor, setNewColor] = useState(TEAM_COLORS[0]);
+  const [joinCode, setJoinCode] = useState('');
+
+  const isOwnTeam = !!team && membership?.team.id === team.id;
+  const myRole: TeamRole | undefined = isOwnTeam ? membership?.role : undefined;
+
+  const loadTeam = useCallback(async () => {
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      setCurrentUserId(session?.user?.id || null);
+
+      const mine = await TeamService.getMembership();
+      setMembership(mine);
+
+      const teamId = requestedTeamId || mine?.team.id;
+      if (!teamId) {
+        setTeam(null);
+        setMembers([]);
+        setInviteCode(null);
+        return;
+      }
+
+      const own = mine?.team.id === teamId;
+      const [teamData, memberList, code] = await Promise.all([
+        own ? Promise.resolve(mine!.team) : TeamService.getTeam(teamId),
+        TeamService.getMembers(teamId),
+        own ? TeamService.getInviteCode(teamId) : Promise.resolve(null),
+      ]);
+      setTeam(teamData);
+      setMembers(memberList);
+      setInviteCode(code);
+    } catch (err) {
+      console.error('Failed to load team:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [requestedTeamId]);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadTeam();
+    }, [loadTeam])
+  );
+
+  const runAction = async (title: string, action: () => Promise<unknown>) => {
+    setBusy(true);
+    try {
+      await action();
+      await loadTeam();
+    } catch (err: any) {
+      Alert.alert(title, err?.message || 'Something went wrong. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCreate = () => {
+    const name = normalizeTeamName(newName);
+    if (!name) {
+      Alert.alert('Team Name', `Team names must be ${TEAM_NAME_MIN_LENGTH} to ${TEAM_NAME_MAX_LENGTH} characters.`);
+      return;
+    }
+    runAction('Could Not Create Team', async () => {
+      await TeamService.createTeam(name, newColor);
+      setNewName('');
+    });
+  };
+
+  const handleJoin = (code: string) => {
+    if (!code.trim()) return;
+    runAction('Could Not Join Team', async () => {
+      await TeamService.joinTeam(code);
+      setJoinCode('');
+    });
+  };
+
+  const handleLeave = () => {
+    if (!team) return;
+    const others = members.filter(m => m.userId !== currentUserId);
+    const message = myRole === 'owner' && others.length > 0
+      ? 'The team will pass to your longest-serving admin, or member if there are none.'
+      : myRole === 'owner'
+        ? 'You are the last member, so the team will be deleted.'
+        : 'Your territories will no longer count for the team.';
+    Alert.alert(`Leave ${team.name}?`, message, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Leave', style: 'destructive', onPress: () => runAction('Could Not Leave Team', () => TeamService.leaveTeam()) },
+    ]);
+  };
+
+  const handleShareInvite = async () => {
+    if (!team || !inviteCode) return;
+    try {
+      await Share.share({
+        message: `Join my team ${team.name} on Conqr with the code ${inviteCode}\n\nDownload Conqr Beta: ${DOWNLOAD_URL}`,
+      });
+    } catch {
+      // User cancelled
+    }
+  };
+
+  const handleChangeRole = (member: TeamMember) => {
+    const name = member.username || 'this member';
+    const toggle: TeamRole = member.role === 'admin' ? 'member' : 'admin';
+    Alert.alert(name, `${TEAM_ROLE_LABELS[member.role]} of ${team?.name}`, [
+      {
+        text: toggle === 'admin' ? 'Make Admin' : 'Make Member',
+        onPress: () => runAction('Could Not Change Role', () => TeamService.setMemberRole(member.userId, toggle)),
+      },
+      {
+        text: 'Make Owner',
+        onPress: () => Alert.alert(
+          `Make ${name} the owner?`,
+          'You will become an admin and can no longer change roles.',
+          [
+            { text: 'Cancel', style: 'cancel' },
+            { text: 'Make Owner', onPress: () => runAction('Could Not Change Role', () => TeamService.setMemberRole(member.userId, 'owner')) },
+          ]
+        ),
+      },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
+  const handleRemove = (member: TeamMember) => {
+    Alert.alert(`Remove ${member.username || 'this member'}?`, 'Their territories will no longer count for the team.', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Remove', style: 'destructive', onPress: () => runAction('Could Not Remove Member', () => TeamService.removeMember(member.userId)) },
+    ]);
+  };
+
+  const openProfile = (userId: string) => {
+    if (userId === currentUserId) {
+      navigation.navigate('Profile');
+    } else {
+      navigation.navigate('UserProfile', { userId });
+    }
+  };
+
+  if (loading) {
+    return (
+      <View style={[styles.container, styles.center]}>
+        <ActivityIndicator color="#E65100" size="large" />
+      </View>
+    );
+  }
+
+  const renderNoTeam = () => (
+    <>
+      <Text style={styles.intro}>
+        Claim ground together with your club or friends. Teammates&apos; territories don&apos;t invade each other,
+        and everything you hold counts toward the team leaderboard.
+      </Text>
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Join a Team</Text>
+        <View style={styles.inputRow}>
+          <TextInput
+            style={[styles.input, styles.codeInput]}
+            value={joinCode}
+            onChangeText={setJoinCode}
+            placeholder="Invite code"
+            placeholderTextColor="#BBBBBB"
+            autoCapitalize="characters"
+            autoCorrect={false}
+            maxLength={8}
+          />
+          <TouchableOpacity
+            style={[styles.primaryBtn, (busy || !joinCode.trim()) && styles.primaryBtnDisabled]}
+            onPress={() => handleJoin(joinCode)}
+            disabled={busy || !joinCode.trim()}
+          >
+            <Text style={styles.primaryBtnText}>Join</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Create a Team</Text>
+        <TextInput
+          style={styles.input}
+          value={newName}
+          onChangeText={setNewName}
+          placeholder="Team name"
+          placeholderTextColor="#BBBBBB"
+          maxLength={TEAM_NAME_MAX_LENGTH}
+        />
+        <Text style={styles.fieldLabel}>Color on the map</Text>
+        <View style={styles.colorRow}>
+          {TEAM_COLORS.map(color => (
+            <TouchableOpacity
+              key={color}
+              style={[styles.colorSwatch, { backgroundColor: color }]}
+              onPress={() => setNewColor(color)}
+              activeOpacity={0.7}
+            >
+              {newColor === color && <Check color="#FFFFFF" size={16} />}
+            </TouchableOpacity>
+          ))}
+        </View>
+        <TouchableOpacity
+          style={[styles.primaryBtn, styles.primaryBtnWide, busy && styles.primaryBtnDisabled]}
+          onPress={handleCreate}
+          disabled={busy}
+        >
+          {busy ? <ActivityIndicator size="small" color="#FFFFFF" /> : <Text style={styles.primaryBtnText}>Create Team</Text>}
+        </TouchableOpacity>
+      </View>
+    </>
+  );
+
+  const renderTeam = (shown: Team) => (
+    <>
+      <View style={styles.teamHeader}>
+        <View style={[styles.teamBadge, { backgroundColor: shown.color }]}>
+          <Users color="#FFFFFF" size={28} />
+        </View>
+        <Text style={styles.teamName}>{shown.name}</Text>
+        <Text style={styles.teamMeta}>
+          {members.length} {members.length === 1 ? 'member' : 'members'}
+          {myRole ? ` · You're ${TEAM_ROLE_LABELS[myRole].toLowerCase()}` : ''}
+        </Text>
+      </View>
+
+      {isOwnTeam && inviteCode && (
+        <View style={styles.inviteCard}>
+          <View style={styles.inviteInfo}>
+            <Text style={styles.inviteLabel}>Invite code</Text>
+            <Text style={styles.inviteCode} selectable>{inviteCode}</Text>
+          </View>
+          <TouchableOpacity style={styles.inviteShareBtn} onPress={handleShareInvite}>
+            <Share2 color="#E65100" size={18} />
+            <Text style={styles.inviteShareText}>Invite</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Members</Text>
+        {members.map(member => {
+          const isMe = member.userId === currentUserId;
+          return (
+            <TouchableOpacity
+              key={member.userId}
+              style={styles.memberRow}
+              onPress={() => openProfile(member.userId)}
+              activeOpacity={0.7}
+            >
+              <View style={styles.memberAvatar}>
+                <User color={shown.color} size={18} />
+              </View>
+              <View style={styles.memberInfo}>
+                <Text style={styles.memberName} numberOfLines={1}>
+                  {member.username || 'User ' + member.userId.substring(0, 6)}{isMe ? ' (You)' : ''}
+                </Text>
+                <Text style={styles.memberRole}>{TEAM_ROLE_LABELS[member.role]}</Text>
+              </View>
+              {!isMe && myRole === 'owner' && (
+                <TouchableOpacity style={styles.memberAction} onPress={() => handleChangeRole(member)} disabled={busy}>
+                  <MoreHorizontal color="#999999" size={20} />
+                </TouchableOpacity>
+              )}
+              {!isMe && canRemoveTeamMember(myRole, member.role) && (
+                <TouchableOpacity style={styles.memberAction} onPress={() => handleRemove(member)} disabled={busy}>
+                  <UserMinus color="#D32F2F" size={20} />
+                </TouchableOpacity>
+              )}
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      {isOwnTeam && (
+        <TouchableOpacity style={styles.leaveBtn} onPress={handleLeave} disabled={busy}>
+          <LogOut color="#D32F2F" size={18} />
+          <Text style={styles.leaveBtnText}>Leave Team</Text>
+        </TouchableOpacity>
+      )}
+
+      {!membership && (
+        <Text style={styles.hint}>Ask a member for the invite code to join this team.</Text>
+      )}
+    </>
+  );
+
+  return (
+    <View style={styles.container}>
+      <StatusBar style="dark" />
+      <SafeAreaView style={styles.safeArea} edges={['top']}>
+        <View style={styles.header}>
+          <TouchableOpacity style={styles.backBtn} onPress={() => navigation.goBack()}>
+            <ArrowLeft color="#1A1A1A" size={24} />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Team</Text>
+          <View style={styles.backBtn} />
+        </View>
+
+        <ScrollView style={styles.content} showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+          {team ? renderTeam(team) : requestedTeamId ? (
+            <Text style={styles.emptyText}>This team no longer exists.</Text>
+          ) : renderNoTeam()}
+          <View style={styles.bottomPadding} />
+        </ScrollView>
+      </SafeAreaView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+  },
+  center: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  safeArea: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F0F0F0',
+  },
+  backBtn: {
+    padding: 8,
+    minWidth: 40,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1A1A1A',
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  intro: {
+    fontSize: 14,
+    lineHeight: 20,
+    color: '#666666',
+    marginBottom: 24,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1A1A1A',
+    marginBottom: 12,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  input: {
+    backgroundColor: '#F5F5F5',
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    fontSize: 15,
+    color: '#1A1A1A',
+  },
+  codeInput: {
+    flex: 1,
+    letterSpacing: 2,
+  },
+  fieldLabel: {
+    fontSize: 13,
+    color: '#666666',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  colorRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 10,
+    marginBottom: 16,
+  },
+  colorSwatch: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  primaryBtn: {
+    backgroundColor: '#E65100',
+    borderRadius: 12,
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  primaryBtnWide: {
+    paddingVertical: 14,
+  },
+  primaryBtnDisabled: {
+    opacity: 0.5,
+  },
+  primaryBtnText: {
+    color: '#FFFFFF',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  teamHeader: {
+    alignItems: 'center',
+    marginBottom: 24,
+  },
+  teamBadge: {
+    width: 64,
+    height: 64,
+    borderRadius: 32,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: 12,
+  },
+  teamName: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: '#1A1A1A',
+  },
+  teamMeta: {
+    fontSize: 13,
+    color: '#999999',
+    marginTop: 4,
+  },
+  inviteCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'rgba(230, 81, 0, 0.08)',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 24,
+  },
+  inviteInfo: {
+    flex: 1,
+  },
+  inviteLabel: {
+    fontSize: 12,
+    color: '#666666',
+  },
+  inviteCode: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#1A1A1A',
+    letterSpacing: 2,
+    marginTop: 2,
+  },
+  inviteShareBtn: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#E65100',
+  },
+  inviteShareText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#E65100',
+  },
+  memberRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F0F0F0',
+  },
+  memberAvatar: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: '#F5F5F5',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 12,
+  },
+  memberInfo: {
+    flex: 1,
+  },
+  memberName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1A1A1A',
+  },
+  memberRole: {
+    fontSize: 12,
+    color: '#999999',
+    marginTop: 2,
+  },
+  memberAction: {
+    padding: 8,
+  },
+  leaveBtn: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderColor: '#D32F2F',
+    borderRadius: 16,
+    paddingVertical: 14,
+    gap: 8,
+  },
+  leaveBtnText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#D32F2F',
+  },
+  hint: {
+    fontSize: 13,
+    color: '#999999',
+    textAlign: 'center',
+  },
+  emptyText: {
+    fontSize: 15,
+    color: '#999999',
+    textAlign: 'center',
+    marginTop: 40,
+  },
+  bottomPadding: {
+    height: 40,
+  },
+});
@@ -0,0 +1,533 @@
+import React, { useEffect, useState, useMemo, useRef } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator, ScrollView } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { StatusBar } from 'expo-status-bar';
+import { ArrowLeft, Map, Ruler, User, Flag, Swords, ChevronRight, MapPin } from 'lucide-react-native';
+import { Territory, TerritoryConquest } from '../lib/types';
+import { TerritoryService } from '../services/TerritoryService';
+import { supabase } from '../lib/supabase';
+import MapContainer, { MapContainerHandle } from '../components/MapContainer';
+import { useScreenTracking } from '../lib/useScreenTracking';
+import { formatArea, formatDistance } from '../utils/shareCardUtils';
+import { outerRings } from '../utils/territoryGeometry';
+import { buildTerritoryTimeline, timelineUserIds, TerritoryTimelineEntry } from '../utils/territoryTimeline';
+
+interface TerritoryDetailsScreenProps {
+  navigation: any;
+  route?: {
+    params?: {
+      territoryId?: string;
+    };
+  };
+}
+
+const formatDate = (timestamp: number): string =>
+  new Date(timestamp).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+
+export default function TerritoryDetailsScreen({ navigation, route }: TerritoryDetailsScreenProps) {
+  useScreenTracking('TerritoryDetails');
+  const territoryId = route?.params?.territoryId;
+  const [territory, setTerritory] = useState<Territory | null>(null);
+  const [usernames, setUsernames] = useState<Record<string, string>>({});
+  const [conquests, setConquests] = useState<TerritoryConquest[]>([]);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [isMapReady, setIsMapReady] = useState(false);
+  const mapRef = useRef<MapContainerHandle>(null);
+
+  const timeline = useMemo(
+    () => (territory ? buildTerritoryTimeline(territory) : []),
+    [territory]
+  );
+
+  const bounds = useMemo(() => {
+    const points = outerRings(territory?.polygon).flat();
+    if (points.length === 0) return null;
+    const lats = points.map(p => p[1]);
+    const lngs = points.map(p => p[0]);
+    return [
+      [Math.min(...lats), Math.min(...lngs)],
+      [Math.max(...lats), Math.max(...lngs)],
+    ] as [[number, number], [number, number]];
+  }, [territory]);
+
+  // Auto-fit map to the territory when map is ready
+  useEffect(() => {
+    if (bounds && isMapReady && mapRef.current) {
+      const timer = setTimeout(() => {
+        mapRef.current?.fitBounds(bounds, 40);
+      }, 100);
+      return () => clearTimeout(timer);
+    }
+  }, [bounds, isMapReady]);
+
+  useEffect(() => {
+    const loadData = async () => {
+      if (!territoryId) {
+        setLoading(false);
+        return;
+      }
+
+      try {
+        const { data: { session } } = await supabase.auth.getSession();
+        setCurrentUserId(session?.user?.id || null);
+
+        const territoryData = await TerritoryService.getTerritoryById(territoryId);
+        setTerritory(territoryData);
+        if (!territoryData) return;
+
+        // Fetch independently so a missing breakdown doesn't hide the timeline
+        const [namesResult, conquestsResult] = await Promise.allSettled([
+          TerritoryService.getUsernames([
+            territoryData.ownerId,
+            ...timelineUserIds(buildTerritoryTimeline(territoryData)),
+          ]),
+          TerritoryService.getTerritoryConquests(territoryId),
+        ]);
+
+        if (namesResult.status === 'fulfilled') {
+          setUsernames(namesResult.value);
+        } else {
+          console.error('Failed to load usernames:', namesResult.reason);
+        }
+
+        if (conquestsResult.status === 'fulfilled') {
+          setConquests(conquestsResult.value);
+        } else {
+          console.error('Failed to load conquests:', conquestsResult.reason);
+        }
+      } catch (err) {
+        console.error('Failed to load territory:', err);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadData();
+  }, [territoryId]);
+
+  const nameOf = (userId: string, fallback?: string): string => {
+    if (userId === currentUserId) return 'You';
+    return usernames[userId] || fallback || 'Someone';
+  };
+
+  const openProfile = (userId: string) => {
+    if (userId === currentUserId) {
+      navigation.navigate('Profile');
+    } else {
+      navigation.navigate('UserProfile', { userId });
+    }
+  };
+
+  const describeEntry = (entry: TerritoryTimelineEntry): string => {
+    switch (entry.kind) {
+      case 'invaded':
+        return `took ground from ${nameOf(entry.previousOwnerId!)}`;
+      case 'extended':
+        return 'extended it';
+      default:
+        return 'claimed it';
+    }
+  };
+
+  if (loading) {
+    return (
+      <View style={[styles.container, styles.center]}>
+        <ActivityIndicator color="#E65100" size="large" />
+      </View>
+    );
+  }
+
+  if (!territory) {
+    return (
+      <View style={[styles.container, styles.center]}>
+        <Text style={styles.errorText}>Territory not found</Text>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <Text style={styles.backButtonText}>Go Back</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <StatusBar style="dark" />
+      <SafeAreaView style={styles.safeArea} edges={['top']}>
+        <View style={styles.header}>
+          <TouchableOpacity style={styles.backBtn} onPress={() => navigation.goBack()}>
+            <ArrowLeft color="#1A1A1A" size={24} />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Territory</Text>
+          <View style={styles.backBtn} />
+        </View>
+
+        <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+          <View style={styles.mapSection}>
+            <MapContainer
+              ref={mapRef}
+              location={null}
+              path={[]}
+              territories={[territory]}
+              currentUserId={currentUserId || undefined}
+              style={styles.mapView}
+              onReady={() => setIsMapReady(true)}
+            />
+          </View>
+
+          <Text style={styles.territoryName}>{territory.name || 'Unnamed Territory'}</Text>
+
+          <TouchableOpacity
+            style={styles.ownerRow}
+            onPress={() => openProfile(territory.ownerId)}
+            activeOpacity={0.7}
+          >
+            <View style={styles.ownerAvatar}>
+              <User color="#E65100" size={20} />
+            </View>
+            <View style={styles.ownerInfo}>
+              <Text style={styles.ownerLabel}>Held by</Text>
+              <Text style={styles.ownerName} numberOfLines={1}>{nameOf(territory.ownerId)}</Text>
+            </View>
+            <ChevronRight color="#999999" size={20} />
+          </TouchableOpacity>
+
+          <View style={styles.statsRow}>
+            <View style={styles.statCard}>
+              <Map color="#E65100" size={20} />
+              <Text style={styles.statValue}>{formatArea(territory.area)}</Text>
+              <Text style={styles.statLabel}>Area</Text>
+            </View>
+            <View style={styles.statCard}>
+              <Ruler color="#E65100" size={20} />
+              <Text style={styles.statValue}>{formatDistance(territory.perimeter)}</Text>
+              <Text style={styles.statLabel}>Perimeter</Text>
+            </View>
+          </View>
+
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>History</Text>
+            {timeline.map((entry, index) => (
+              <View key={`${entry.activityId}-${entry.claimedAt}-${index}`} style={styles.timelineRow}>
+                <View style={styles.timelineMarker}>
+                  <View style={[styles.timelineDot, entry.kind === 'invaded' && styles.timelineDotInvaded]}>
+                    {entry.kind === 'invaded'
+                      ? <Swords color="#FFFFFF" size={12} />
+                      : <Flag color="#FFFFFF" size={12} />}
+                  </View>
+                  {index < timeline.length - 1 && <View style={styles.timelineLine} />}
+                </View>
+                <View style={styles.timelineBody}>
+                  <Text style={styles.timelineText}>
+                    <Text style={styles.timelineUser} onPress={() => openProfile(entry.claimedBy)}>
+                      {nameOf(entry.claimedBy)}
+                    </Text>
+                    {' '}{describeEntry(entry)}
+                  </Text>
+                  <View style={styles.timelineMeta}>
+                    <Text style={styles.timelineDate}>{formatDate(entry.claimedAt)}</Text>
+                    {!!entry.activityId && (
+                      <TouchableOpacity
+                        onPress={() => navigation.navigate('ActivityDetails', { activityId: entry.activityId })}
+                      >
+                        <Text style={styles.timelineLink}>View activity</Text>
+                      </TouchableOpacity>
+                    )}
+                  </View>
+                </View>
+              </View>
+            ))}
+          </View>
+
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Won From</Text>
+            {conquests.length === 0 ? (
+              <Text style={styles.emptyText}>None of this was taken from other players.</Text>
+            ) : (
+              conquests.map(conquest => {
+                const share = territory.area > 0 ? Math.min(1, conquest.area / territory.area) : 0;
+                return (
+                  <TouchableOpacity
+                    key={conquest.userId}
+                    style={styles.conquestRow}
+                    onPress={() => openProfile(conquest.userId)}
+                    activeOpacity={0.7}
+                  >
+                    <View style={styles.conquestHeader}>
+                      <Text style={styles.conquestName} numberOfLines={1}>
+                        {nameOf(conquest.userId, conquest.username)}
+                      </Text>
+                      <Text style={styles.conquestArea}>{formatArea(conquest.area)}</Text>
+                    </View>
+                    <View style={styles.conquestBar}>
+                      <View style={[styles.conquestBarFill, { width: `${Math.round(share * 100)}%` }]} />
+                    </View>
+                    <Text style={styles.conquestMeta}>
+                      {conquest.invasionCount} {conquest.invasionCount === 1 ? 'claim' : 'claims'}
+                      {conquest.destroyedCount > 0 ? ` · ${conquest.destroyedCount} taken in full` : ''}
+                      {' · last '}{formatDate(conquest.lastTakenAt)}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })
+            )}
+          </View>
+
+          <TouchableOpacity
+            style={styles.mapButton}
+            onPress={() => navigation.navigate('Home', {
+              focusTerritoryLat: territory.center.lat,
+              focusTerritoryLng: territory.center.lng,
+            })}
+          >
+            <MapPin color="#E65100" size={18} />
+            <Text style={styles.mapButtonText}>Show on Map</Text>
+          </TouchableOpacity>
+        </ScrollView>
+      </SafeAreaView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+  },
+  center: {
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  safeArea: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F0F0F0',
+  },
+  backBtn: {
+    padding: 8,
+    minWidth: 40,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1A1A1A',
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  mapSection: {
+    height: 250,
+    marginBottom: 20,
+    marginHorizontal: -20,
+    marginTop: -20,
+    overflow: 'hidden',
+    backgroundColor: '#000',
+  },
+  mapView: {
+    flex: 1,
+  },
+  territoryName: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: '#1A1A1A',
+    marginBottom: 16,
+  },
+  ownerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#F5F5F5',
+    borderRadius: 16,
+    padding: 12,
+    marginBottom: 16,
+  },
+  ownerAvatar: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(230, 81, 0, 0.1)',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 12,
+  },
+  ownerInfo: {
+    flex: 1,
+  },
+  ownerLabel: {
+    fontSize: 12,
+    color: '#999999',
+  },
+  ownerName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1A1A1A',
+  },
+  statsRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 24,
+  },
+  statCard: {
+    flex: 1,
+    backgroundColor: 'rgba(230, 81, 0, 0.08)',
+    borderRadius: 16,
+    padding: 16,
+  },
+  statValue: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#1A1A1A',
+    marginTop: 8,
+  },
+  statLabel: {
+    fontSize: 13,
+    color: '#666666',
+  },
+  section: {
+    marginBottom: 24,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1A1A1A',
+    marginBottom: 12,
+  },
+  timelineRow: {
+    flexDirection: 'row',
+  },
+  timelineMarker: {
+    width: 24,
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  timelineDot: {
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+    backgroundColor: '#E65100',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  timelineDotInvaded: {
+    backgroundColor: '#D32F2F',
+  },
+  timelineLine: {
+    flex: 1,
+    width: 2,
+    backgroundColor: '#F0F0F0',
+    marginVertical: 2,
+  },
+  timelineBody: {
+    flex: 1,
+    paddingBottom: 16,
+  },
+  timelineText: {
+    fontSize: 15,
+    color: '#1A1A1A',
+    marginTop: 2,
+  },
+  timelineUser: {
+    fontWeight: '600',
+    color: '#E65100',
+  },
+  timelineMeta: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginTop: 4,
+  },
+  timelineDate: {
+    fontSize: 12,
+    color: '#999999',
+  },
+  timelineLink: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#E65100',
+  },
+  conquestRow: {
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F0F0F0',
+  },
+  conquestHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  conquestName: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1A1A1A',
+    marginRight: 12,
+  },
+  conquestArea: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: '#E65100',
+  },
+  conquestBar: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: '#F5F5F5',
+    overflow: 'hidden',
+  },
+  conquestBarFill: {
+    height: '100%',
+    backgroundColor: '#E65100',
+  },
+  conquestMeta: {
+    fontSize: 12,
+    color: '#999999',
+    marginTop: 6,
+  },
+  emptyText: {
+    fontSize: 13,
+    color: '#999999',
+    marginTop: 8,
+  },
+  mapButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderColor: '#E65100',
+    borderRadius: 16,
+    paddingVertical: 14,
+    marginBottom: 32,
+  },
+  mapButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#E65100',
+    marginLeft: 8,
+  },
+  errorText: {
+    fontSize: 16,
+    color: '#666666',
+    marginBottom: 16,
+  },
+  backButton: {
+    backgroundColor: '#E65100',
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 8,
+  },
+  backButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -8,7 +8,10 @@ import { ReportBlockService } from '../services/ReportBlockService';
 import { showToast } from '../components/Toast';
 import { ActivityService } from '../services/ActivityService';
 import { TerritoryService } from '../services/TerritoryService';
-import { UserProfile, Activity as ActivityType, Territory } from '../lib/types';
+import { FriendService } from '../services/FriendService';
+import { UserProfile, Activity as ActivityType, Territory, FriendshipStatus } from '../lib/types';
+import { supabase } from '../lib/supabase';
+import { canViewActivity } from '../utils/activityVisibility';
 import { useScreenTracking } from '../lib/useScreenTracking';
 
 interface UserProfileScreenProps {
@@ -30,6 +33,8 @@ export default function UserProfileScreen({ navigation, route }: UserProfileScre
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [allTimeRank, setAllTimeRank] = useState<number | null>(null);
+  const [isOwnProfile, setIsOwnProfile] = useState(false);
+  const [friendshipStatus, setFriendshipStatus] = useState<FriendshipStatus>('none');
 
   const loadData = async () => {
     if (!userId) {
@@ -38,13 +43,23 @@ export default function UserProfileScreen({ navigation, route }: UserProfileScre
     }
 
     try {
+      const { data: { session } } = await supabase.auth.getSession();
+      const viewerId = session?.user?.id || null;
+      setIsOwnProfile(viewerId === userId);
+
       // Fetch independently so one failure doesn't break the others
-      const [profileResult, activitiesResult, territoriesResult] = await Promise.allSettled([
+      const [profileResult, activitiesResult, territoriesResult, friendshipResult] = await Promise.allSettled([
         AuthService.getUserProfile(userId),
         ActivityService.getUserActivities(userId, false),
-        TerritoryService.getUserTerritories(userId)
+        TerritoryService.getUserTerritories(userId),
+        viewerId && viewerId !== userId
+          ? FriendService.getFriendshipStatus(viewerId, userId)
+          : Promise.resolve({ status: 'none' as FriendshipStatus })
       ]);
 
+      const friendship = friendshipResult.status === 'fulfilled' ? friendshipResult.value.status : 'none';
+      setFriendshipStatus(friendship);
+
       if (profileResult.status === 'fulfilled') {
         setProfile(profileResult.value);
       } else {
@@ -52,7 +67,9 @@ export default function UserProfileScreen({ navigation, route }: UserProfileScre
       }
 
       if (activitiesResult.status === 'fulfilled') {
-        setActivities(activitiesResult.value);
+        // The server already leaves out what this viewer may not see; the
+        // same rule is applied here against the friendship looked up above
+        setActivities(activitiesResult.value.filter(a => canViewActivity(a, viewerId, friendship)));
       } else {
         console.error('Failed to load activities:', activitiesResult.reason);
       }
@@ -272,14 +289,7 @@ export default function UserProfileScreen({ navigation, route }: UserProfileScre
                   key={territory.id}
                   style={styles.territoryCard}
                   activeOpacity={0.7}
-                  onPress={() => {
-                    if (territory.center && territory.center.lat && territory.center.lng) {
-                      navigation.navigate('Home', {
-                        focusTerritoryLat: territory.center.lat,
-                        focusTerritoryLng: territory.center.lng,
-                      });
-                    }
-                  }}
+                  onPress={() => navigation.navigate('TerritoryDetails', { territoryId: territory.id })}
                 >
                   <View style={styles.territoryIcon}>
                     <MapPin color="#E65100" size={20} />
@@ -299,6 +309,11 @@ export default function UserProfileScreen({ navigation, route }: UserProfileScre
 
           <View style={styles.activitiesSection}>
             <Text style={styles.sectionTitle}>Recent Activities</Text>
+            {!isOwnProfile && friendshipStatus !== 'accepted' && (
+              <Text style={styles.visibilityHint}>
+                Activities {profile.username} shares with friends only show up once you&apos;re friends.
+              </Text>
+            )}
 
             {activities.length === 0 ? (
               <View style={styles.noActivities}>
@@ -505,6 +520,12 @@ const styles = StyleSheet.create({
     color: '#1A1A1A',
     marginBottom: 16,
   },
+  visibilityHint: {
+    fontSize: 13,
+    color: '#999999',
+    marginTop: -8,
+    marginBottom: 16,
+  },
   noActivities: {
     alignItems: 'center',
     paddingVertical: 32,
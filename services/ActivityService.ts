@@ -1,8 +1,14 @@
-import { Activity, GPSPoint, ActivityType } from '../lib/types';
+import { Activity, ActivityEdit, ActivityVisibility, GPSPoint, ActivityType, ActivitySplit, SplitUnit } from '../lib/types';
 import { supabase } from '../lib/supabase';
 import { db } from '../lib/db';
 import { getDistance } from 'geolib';
 import { retryWithBackoff } from '../lib/retry';
+import { createSplitAccumulator, SPLIT_DISTANCE_M } from '../utils/splits';
+import { computeElevation, AltitudeSample, ElevationStats } from '../utils/elevation';
+import { isTrackingProfile } from '../utils/trackingProfiles';
+import { SUSPICION_FLAG_SCORE } from '../utils/spoofing';
+import { encodeTrack, decodeTrack, simplifyTrack, ROUTE_PREVIEW_TOLERANCE_M } from '../utils/polyline';
+import { isActivityVisibility } from '../utils/activityVisibility';
 
 // Timeout helper for async operations
 const withTimeout = <T>(promise: Promise<T>, timeoutMs: number, errorMsg: string): Promise<T> => {
@@ -17,6 +23,103 @@ const withTimeout = <T>(promise: Promise<T>, timeoutMs: number, errorMsg: string
 const MIN_DISTANCE_METERS = 10; // Must move at least 10 meters
 const MIN_DURATION_SECONDS = 5; // Must be at least 5 seconds
 const MIN_GPS_POINTS = 2; // Must have at least 2 GPS points
+// Legacy JSON tracks re-encoded per fetch of the user's own activities
+const LEGACY_REENCODE_BATCH = 10;
+
+/** How long an edit to an activity can be undone (ms). */
+export const EDIT_UNDO_WINDOW_MS = 15000;
+
+// The activity as it was before its latest edit, while that can still be undone
+const pendingUndos = new Map<string, { original: Activity; expiresAt: number }>();
+
+/**
+ * Map an Activity to its Supabase row shape
+ */
+const toCloudActivityRow = (activity: Activity) => ({
+    id: activity.id,
+    user_id: activity.userId,
+    type: activity.type,
+    start_time: new Date(activity.startTime).toISOString(),
+    end_time: activity.endTime ? new Date(activity.endTime).toISOString() : null,
+    distance: activity.distance,
+    duration: activity.duration,
+    elapsed_time: activity.elapsedTime ?? null,
+    paused_duration: activity.pausedDuration ?? null,
+    polylines: encodeTrack(activity.polylines),
+    route_preview: encodeTrack(simplifyTrack(activity.polylines, ROUTE_PREVIEW_TOLERANCE_M)),
+    is_synced: true,
+    territory_id: activity.territoryId || null,
+    average_speed: activity.averageSpeed ?? null,
+    splits: activity.splits ?? null,
+    split_unit: activity.splitUnit ?? null,
+    laps: activity.laps ?? null,
+    elevation_gain: activity.elevationGain ?? null,
+    elevation_loss: activity.elevationLoss ?? null,
+    max_elevation: activity.maxElevation ?? null,
+    min_elevation: activity.minElevation ?? null,
+    elevation_profile: activity.elevationProfile ?? null,
+    tracking_profile: activity.trackingProfile ?? null,
+    gps_quality: activity.gpsQuality ?? null,
+    suspicion_score: activity.suspicion?.score ?? null,
+    suspicion_reasons: activity.suspicion?.reasons ?? null,
+    // Left out when unset so a sync never overrides what the server holds
+    ...(activity.visibility ? { visibility: activity.visibility } : {})
+});
+
+const hasAltitude = (point: GPSPoint): boolean =>
+    typeof point.altitude === 'number' && !isNaN(point.altitude);
+
+/**
+ * Visit each plausible step along a path: consecutive valid points, skipping
+ * zero-length hops, jumps of 500m or more and GPS spikes.
+ */
+const forEachValidStep = (
+    path: GPSPoint[],
+    onStep: (distance: number, from: GPSPoint, to: GPSPoint) => void
+): void => {
+    let lastValid: GPSPoint | null = null;
+
+    for (let i = 0; i < path.length; i++) {
+        const point = path[i];
+
+        // Validate coordinates exist and are real numbers (not NaN)
+        if (!point ||
+            typeof point.lat !== 'number' || typeof point.lng !== 'number' ||
+            isNaN(point.lat) || isNaN(point.lng)) {
+            continue;
+        }
+
+        if (lastValid) {
+            try {
+                const dist = getDistance(
+                    { latitude: lastValid.lat, longitude: lastValid.lng },
+                    { latitude: point.lat, longitude: point.lng }
+                );
+                // Skip unrealistic segments
+                if (dist <= 0 || dist >= 500) {
+                    // Don't update lastValid — skip this point entirely
+                    continue;
+                }
+
+                // Check implied speed between points to reject GPS spikes
+                const timeDelta = (point.timestamp - lastValid.timestamp) / 1000;
+                if (timeDelta > 0 && timeDelta < 120) {
+                    const impliedSpeed = dist / timeDelta;
+                    // 25 m/s = 90 km/h — anything above is a GPS artifact
+                    if (impliedSpeed > 25) {
+                        continue;
+                    }
+                }
+
+                onStep(dist, lastValid, point);
+            } catch (err) {
+                console.error('Error calculating distance between points:', err);
+            }
+        }
+
+        lastValid = point;
+    }
+};
 
 export const ActivityService = {
     /**
@@ -27,48 +130,7 @@ export const ActivityService = {
         if (!Array.isArray(path) || path.length < 2) return 0;
 
         let totalDistance = 0;
-        let lastValid: GPSPoint | null = null;
-
-        for (let i = 0; i < path.length; i++) {
-            const point = path[i];
-
-            // Validate coordinates exist and are real numbers (not NaN)
-            if (!point ||
-                typeof point.lat !== 'number' || typeof point.lng !== 'number' ||
-                isNaN(point.lat) || isNaN(point.lng)) {
-                continue;
-            }
-
-            if (lastValid) {
-                try {
-                    const dist = getDistance(
-                        { latitude: lastValid.lat, longitude: lastValid.lng },
-                        { latitude: point.lat, longitude: point.lng }
-                    );
-                    // Skip unrealistic segments
-                    if (dist <= 0 || dist >= 500) {
-                        // Don't update lastValid — skip this point entirely
-                        continue;
-                    }
-
-                    // Check implied speed between points to reject GPS spikes
-                    const timeDelta = (point.timestamp - lastValid.timestamp) / 1000;
-                    if (timeDelta > 0 && timeDelta < 120) {
-                        const impliedSpeed = dist / timeDelta;
-                        // 25 m/s = 90 km/h — anything above is a GPS artifact
-                        if (impliedSpeed > 25) {
-                            continue;
-                        }
-                    }
-
-                    totalDistance += dist;
-                } catch (err) {
-                    console.error('Error calculating distance between points:', err);
-                }
-            }
-
-            lastValid = point;
-        }
+        forEachValidStep(path, dist => { totalDistance += dist; });
         return totalDistance;
     },
 
@@ -102,13 +164,112 @@ export const ActivityService = {
     },
 
     /**
-     * Calculate current pace (min/km) from speed (m/s)
+     * Total distance across activity segments.
+     * Each segment is measured on its own so pause gaps never count as travel.
+     */
+    calculateSegmentsDistance(polylines: GPSPoint[][]): number {
+        if (!Array.isArray(polylines)) return 0;
+        return polylines.reduce((sum, segment) => sum + this.calculateDistance(segment), 0);
+    },
+
+    /**
+     * Moving time (seconds) across activity segments — the sum of each
+     * segment's first-to-last timestamp span, so time spent paused is excluded.
+     */
+    calculateMovingDuration(polylines: GPSPoint[][]): number {
+        if (!Array.isArray(polylines)) return 0;
+        let totalMs = 0;
+        for (const segment of polylines) {
+            if (!Array.isArray(segment) || segment.length < 2) continue;
+            const first = segment[0]?.timestamp;
+            const last = segment[segment.length - 1]?.timestamp;
+            if (typeof first === 'number' && typeof last === 'number' && last > first) {
+                totalMs += last - first;
+            }
+        }
+        return totalMs / 1000;
+    },
+
+    /**
+     * Average moving speed (m/s) across activity segments.
+     * Falls back to the single-path calculation for one-segment activities.
+     */
+    calculateSegmentsAverageSpeed(polylines: GPSPoint[][]): number {
+        if (!Array.isArray(polylines)) return 0;
+        const segments = polylines.filter(seg => Array.isArray(seg) && seg.length > 0);
+        if (segments.length === 0) return 0;
+        if (segments.length === 1) return this.calculateAverageSpeed(segments[0]);
+
+        const distance = this.calculateSegmentsDistance(segments);
+        const duration = this.calculateMovingDuration(segments);
+        if (distance > 0 && duration > 0) return distance / duration;
+        return 0;
+    },
+
+    /**
+     * Automatic per-km or per-mile splits from activity segments, using the
+     * same step filtering as calculateDistance. Time between segments is
+     * paused time and never counts. The last split may be partial.
+     */
+    calculateSplits(polylines: GPSPoint[][], unit: SplitUnit = 'km'): ActivitySplit[] {
+        if (!Array.isArray(polylines)) return [];
+        const splits = createSplitAccumulator(unit);
+        for (const segment of polylines) {
+            if (!Array.isArray(segment) || segment.length < 2) continue;
+            forEachValidStep(segment, (dist, from, to) => {
+                splits.add(dist, to.timestamp - from.timestamp, to.timestamp);
+            });
+        }
+        return splits.finish();
+    },
+
+    /**
+     * Smoothed ascent, descent, max/min and a grade profile from the fix
+     * altitudes, placed along the same filtered distance as calculateDistance.
+     * Null when the track carries no usable altitude.
+     */
+    calculateElevation(polylines: GPSPoint[][]): ElevationStats | null {
+        if (!Array.isArray(polylines)) return null;
+        const runs: AltitudeSample[][] = [];
+        let distance = 0;
+
+        for (const segment of polylines) {
+            if (!Array.isArray(segment)) continue;
+            const run: AltitudeSample[] = [];
+            forEachValidStep(segment, (dist, from, to) => {
+                if (run.length === 0 && hasAltitude(from)) run.push({ distance, altitude: from.altitude! });
+                distance += dist;
+                if (hasAltitude(to)) run.push({ distance, altitude: to.altitude! });
+            });
+            runs.push(run);
+        }
+
+        return computeElevation(runs);
+    },
+
+    /**
+     * The Activity elevation fields for a track, empty when it has no altitude
+     */
+    elevationFields(polylines: GPSPoint[][]): Pick<Activity, 'elevationGain' | 'elevationLoss' | 'maxElevation' | 'minElevation' | 'elevationProfile'> {
+        const stats = this.calculateElevation(polylines);
+        if (!stats) return {};
+        return {
+            elevationGain: stats.gain,
+            elevationLoss: stats.loss,
+            maxElevation: stats.max,
+            minElevation: stats.min,
+            elevationProfile: stats.profile
+        };
+    },
+
+    /**
+     * Calculate current pace (min/km, or min/mi) from speed (m/s)
      */
-    calculatePace(speedMs: number): string {
+    calculatePace(speedMs: number, unit: SplitUnit = 'km'): string {
         if (speedMs <= 0) return '--:--';
-        const paceSecondsPerKm = 1000 / speedMs;
-        const minutes = Math.floor(paceSecondsPerKm / 60);
-        const seconds = Math.floor(paceSecondsPerKm % 60);
+        const paceSeconds = SPLIT_DISTANCE_M[unit] / speedMs;
+        const minutes = Math.floor(paceSeconds / 60);
+        const seconds = Math.floor(paceSeconds % 60);
         return `${minutes}:${seconds.toString().padStart(2, '0')}`;
     },
 
@@ -136,8 +297,7 @@ export const ActivityService = {
             return false;
         }
 
-        const polylines = activity.polylines;
-        const path = Array.isArray(polylines) && polylines.length > 0 ? polylines[0] : [];
+        const path = this.flattenPolylines(activity.polylines as GPSPoint[][]);
         const distance = typeof activity.distance === 'number' ? activity.distance : 0;
         const duration = typeof activity.duration === 'number' ? activity.duration : 0;
 
@@ -182,11 +342,62 @@ export const ActivityService = {
         return Math.round(met * weight * hours);
     },
 
+    /**
+     * Whether an activity's track can still be edited. Once it has claimed
+     * territory the conquest is applied and the track it came from is locked;
+     * a flagged track stays as recorded for whoever reviews its claim.
+     */
+    canEditActivity(activity: Activity): boolean {
+        return !activity.territoryId && !activity.suspicion?.flagged;
+    },
+
+    /**
+     * The activity cut down to the edit's time range without its dropped
+     * segments, with distance, durations, speed, splits and elevation
+     * recomputed. Null if what's left isn't a valid activity.
+     */
+    applyEdit(activity: Activity, edit: ActivityEdit): Activity | null {
+        const dropped = new Set(edit.droppedSegments ?? []);
+        const polylines = (activity.polylines || [])
+            .map((segment, i) => dropped.has(i)
+                ? []
+                : segment.filter(p => p.timestamp >= edit.startTime && p.timestamp <= edit.endTime))
+            .filter(segment => segment.length > 0);
+        if (polylines.length === 0) return null;
+
+        const lastSegment = polylines[polylines.length - 1];
+        const startTime = polylines[0][0].timestamp;
+        const endTime = lastSegment[lastSegment.length - 1].timestamp;
+        const duration = Math.round(this.calculateMovingDuration(polylines));
+        const elapsedTime = Math.round((endTime - startTime) / 1000);
+        const splitUnit = activity.splitUnit || 'km';
+
+        const edited: Activity = {
+            ...activity,
+            startTime,
+            endTime,
+            polylines,
+            distance: this.calculateSegmentsDistance(polylines),
+            duration,
+            elapsedTime,
+            pausedDuration: Math.max(0, elapsedTime - duration),
+            averageSpeed: this.calculateSegmentsAverageSpeed(polylines),
+            splits: this.calculateSplits(polylines, splitUnit),
+            splitUnit,
+            laps: undefined, // lap presses can't be re-cut from the track
+            ...this.elevationFields(polylines),
+            isSynced: false,
+        };
+        return this.isValidActivity(edited) ? edited : null;
+    },
+
     /**
      * Save an activity to local storage and sync to cloud
      * Returns null if activity doesn't meet minimum requirements
+     * With awaitSync the cloud sync finishes (or fails) before this returns,
+     * which a territory claim needs since the server claims from the upload
      */
-    async saveActivity(activity: Activity): Promise<Activity | null> {
+    async saveActivity(activity: Activity, options: { awaitSync?: boolean } = {}): Promise<Activity | null> {
         const SAVE_TIMEOUT_MS = 10000; // 10 second timeout for save operations
         const SYNC_TIMEOUT_MS = 15000; // 15 second timeout for cloud sync
 
@@ -196,7 +407,7 @@ export const ActivityService = {
                 id: activity.id,
                 distance: activity.distance,
                 duration: activity.duration,
-                points: activity.polylines?.[0]?.length || 0
+                points: this.flattenPolylines(activity.polylines).length
             });
             return null;
         }
@@ -216,9 +427,9 @@ export const ActivityService = {
             throw localErr; // Re-throw to signal save failed
         }
 
-        // Sync to Supabase in background (non-blocking)
+        // Sync to Supabase in background (non-blocking unless awaitSync)
         // Use direct async IIFE instead of setTimeout for more reliable execution
-        (async () => {
+        const sync = (async () => {
             try {
                 const sessionPromise = supabase.auth.getSession();
                 const { data: { session } } = await withTimeout(
@@ -235,19 +446,7 @@ export const ActivityService = {
                 const syncResult = await retryWithBackoff(async () => {
                     const result = await supabase
                         .from('activities')
-                        .upsert({
-                            id: activity.id,
-                            user_id: activity.userId,
-                            type: activity.type,
-                            start_time: new Date(activity.startTime).toISOString(),
-                            end_time: activity.endTime ? new Date(activity.endTime).toISOString() : null,
-                            distance: activity.distance,
-                            duration: activity.duration,
-                            polylines: JSON.stringify(activity.polylines),
-                            is_synced: true,
-                            territory_id: activity.territoryId || null,
-                            average_speed: activity.averageSpeed ?? null
-                        });
+                        .upsert(toCloudActivityRow(activity));
                     if (result.error) throw result.error;
                     return result;
                 }).catch(err => ({ error: err as any }));
@@ -265,26 +464,123 @@ export const ActivityService = {
                 await db.activities.update(activity.id, { isSynced: false }).catch(() => {});
             }
         })();
+        if (options.awaitSync) await sync;
 
         return activity;
     },
 
     /**
-     * Safely parse polylines from cloud data
+     * Trim an activity and save it, keeping the original so the edit can be
+     * undone for EDIT_UNDO_WINDOW_MS. Null if the activity is locked or the
+     * edit leaves nothing valid. The suspicion verdict is kept as recorded:
+     * cutting out part of a track doesn't make the rest of it more honest.
+     */
+    async editActivity(activity: Activity, edit: ActivityEdit): Promise<Activity | null> {
+        if (!this.canEditActivity(activity)) {
+            console.error('Activity has claimed territory and can no longer be edited:', activity.id);
+            return null;
+        }
+        const edited = this.applyEdit(activity, edit);
+        if (!edited) return null;
+
+        const saved = await this.saveActivity(edited);
+        if (saved) {
+            pendingUndos.set(activity.id, { original: activity, expiresAt: Date.now() + EDIT_UNDO_WINDOW_MS });
+        }
+        return saved;
+    },
+
+    /**
+     * Restore an activity to how it was before its latest edit, while the
+     * undo window is open. Null once it has closed.
+     */
+    async undoActivityEdit(activityId: string): Promise<Activity | null> {
+        const pending = pendingUndos.get(activityId);
+        pendingUndos.delete(activityId);
+        if (!pending || pending.expiresAt <= Date.now()) return null;
+        return this.saveActivity({ ...pending.original, isSynced: false });
+    },
+
+    /**
+     * Change who can see an activity. Unlike a trim this is allowed at any
+     * time: it doesn't touch the track or anything claimed with it.
+     */
+    async setActivityVisibility(activity: Activity, visibility: ActivityVisibility): Promise<Activity | null> {
+        return this.saveActivity({ ...activity, visibility, isSynced: false });
+    },
+
+    /**
+     * Safely parse polylines from cloud data, encoded or in the legacy JSON form
      */
     _parsePolylines(polylines: any): GPSPoint[][] {
-        if (!polylines) return [];
-        if (Array.isArray(polylines)) return polylines;
-        if (typeof polylines === 'string') {
+        return decodeTrack(polylines);
+    },
+
+    /**
+     * Rewrite a few of the user's own rows still holding a legacy JSON track
+     * in the encoded form, with a route preview. Runs in the background on
+     * each fetch so old accounts migrate without one big upload.
+     */
+    async _reencodeLegacyRows(rows: any[]): Promise<void> {
+        const legacy = rows
+            .filter(row => Array.isArray(row.polylines) || typeof row.polylines === 'string')
+            .slice(0, LEGACY_REENCODE_BATCH);
+        for (const row of legacy) {
             try {
-                const parsed = JSON.parse(polylines);
-                return Array.isArray(parsed) ? parsed : [];
+                const polylines = this._parsePolylines(row.polylines);
+                const { error } = await supabase
+                    .from('activities')
+                    .update({
+                        polylines: encodeTrack(polylines),
+                        route_preview: encodeTrack(simplifyTrack(polylines, ROUTE_PREVIEW_TOLERANCE_M)),
+                    })
+                    .eq('id', row.id)
+                    .eq('user_id', row.user_id);
+                if (error) throw error;
             } catch (err) {
-                console.error('Failed to parse polylines:', err);
-                return [];
+                console.error('Failed to re-encode activity track:', row.id, err);
+                return;
             }
         }
-        return [];
+    },
+
+    /**
+     * Map a Supabase activities row to the local Activity shape
+     */
+    _mapCloudActivity(a: any): Activity {
+        return {
+            id: a.id,
+            userId: a.user_id,
+            type: a.type || 'WALK',
+            startTime: new Date(a.start_time).getTime(),
+            endTime: a.end_time ? new Date(a.end_time).getTime() : undefined,
+            distance: a.distance || 0,
+            duration: a.duration || 0,
+            elapsedTime: typeof a.elapsed_time === 'number' ? a.elapsed_time : undefined,
+            pausedDuration: typeof a.paused_duration === 'number' ? a.paused_duration : undefined,
+            polylines: this._parsePolylines(a.polylines),
+            isSynced: true,
+            territoryId: a.territory_id || undefined,
+            averageSpeed: a.average_speed || undefined,
+            splits: Array.isArray(a.splits) ? a.splits : undefined,
+            splitUnit: a.split_unit === 'mi' || a.split_unit === 'km' ? a.split_unit : undefined,
+            laps: Array.isArray(a.laps) ? a.laps : undefined,
+            elevationGain: typeof a.elevation_gain === 'number' ? a.elevation_gain : undefined,
+            elevationLoss: typeof a.elevation_loss === 'number' ? a.elevation_loss : undefined,
+            maxElevation: typeof a.max_elevation === 'number' ? a.max_elevation : undefined,
+            minElevation: typeof a.min_elevation === 'number' ? a.min_elevation : undefined,
+            elevationProfile: Array.isArray(a.elevation_profile) ? a.elevation_profile : undefined,
+            trackingProfile: isTrackingProfile(a.tracking_profile) ? a.tracking_profile : undefined,
+            gpsQuality: a.gps_quality && typeof a.gps_quality === 'object' ? a.gps_quality : undefined,
+            suspicion: typeof a.suspicion_score === 'number'
+                ? {
+                    score: a.suspicion_score,
+                    reasons: Array.isArray(a.suspicion_reasons) ? a.suspicion_reasons : [],
+                    flagged: a.suspicion_score >= SUSPICION_FLAG_SCORE,
+                }
+                : undefined,
+            visibility: isActivityVisibility(a.visibility) ? a.visibility : undefined
+        };
     },
 
     /**
@@ -331,19 +627,7 @@ export const ActivityService = {
                 }
 
                 if (data && data.length > 0) {
-                    const activities = data.map((a: any) => ({
-                        id: a.id,
-                        userId: a.user_id,
-                        type: a.type || 'WALK',
-                        startTime: new Date(a.start_time).getTime(),
-                        endTime: a.end_time ? new Date(a.end_time).getTime() : undefined,
-                        distance: a.distance || 0,
-                        duration: a.duration || 0,
-                        polylines: this._parsePolylines(a.polylines),
-                        isSynced: true,
-                        territoryId: a.territory_id || undefined,
-                        averageSpeed: a.average_speed || undefined
-                    }));
+                    const activities = data.map((a: any) => this._mapCloudActivity(a));
 
                     // Cache other users' activities locally for detail view access
                     try {
@@ -382,19 +666,8 @@ export const ActivityService = {
             }
 
             if (data && data.length > 0) {
-                const cloudActivities: Activity[] = data.map((a: any) => ({
-                    id: a.id,
-                    userId: a.user_id,
-                    type: a.type || 'WALK',
-                    startTime: new Date(a.start_time).getTime(),
-                    endTime: a.end_time ? new Date(a.end_time).getTime() : undefined,
-                    distance: a.distance || 0,
-                    duration: a.duration || 0,
-                    polylines: this._parsePolylines(a.polylines),
-                    isSynced: true,
-                    territoryId: a.territory_id || undefined,
-                    averageSpeed: a.average_speed || undefined
-                }));
+                const cloudActivities: Activity[] = data.map((a: any) => this._mapCloudActivity(a));
+                this._reencodeLegacyRows(data).catch(() => {});
 
                 // Cache cloud activities locally using a single bulk write
                 try {
@@ -469,19 +742,7 @@ export const ActivityService = {
                 const syncResult = await retryWithBackoff(async () => {
                     const result = await supabase
                         .from('activities')
-                        .upsert({
-                            id: activity.id,
-                            user_id: activity.userId,
-                            type: activity.type,
-                            start_time: new Date(activity.startTime).toISOString(),
-                            end_time: activity.endTime ? new Date(activity.endTime).toISOString() : null,
-                            distance: activity.distance,
-                            duration: activity.duration,
-                            polylines: JSON.stringify(activity.polylines),
-                            is_synced: true,
-                            territory_id: activity.territoryId || null,
-                            average_speed: activity.averageSpeed ?? null
-                        });
+                        .upsert(toCloudActivityRow(activity));
                     if (result.error) throw result.error;
                     return result;
                 }).catch(err => ({ error: err as any }));
@@ -582,38 +843,34 @@ export const ActivityService = {
             if (activity) {
                 // Ensure polylines are properly parsed (belt and suspenders)
                 activity.polylines = this._parsePolylines(activity.polylines);
-                return activity;
+
+                // Someone else's activity may have been hidden since it was
+                // cached, so theirs are checked with the server when online
+                const { data: { session } } = await supabase.auth.getSession();
+                if (!session?.user || activity.userId === session.user.id) return activity;
             }
 
-            // Fallback to cloud query (needed for viewing other users' activity details)
+            // Fallback to cloud query (needed for viewing other users' activity details).
+            // Other users' tracks come back with their privacy zones clipped out,
+            // and not at all when their visibility keeps the caller out.
             try {
                 const { data, error } = await supabase
-                    .from('activities')
-                    .select('*')
-                    .eq('id', activityId)
-                    .single();
-
-                if (error || !data) return null;
-
-                const cloudActivity: Activity = {
-                    id: data.id,
-                    userId: data.user_id,
-                    type: data.type || 'WALK',
-                    startTime: new Date(data.start_time).getTime(),
-                    endTime: data.end_time ? new Date(data.end_time).getTime() : undefined,
-                    distance: data.distance || 0,
-                    duration: data.duration || 0,
-                    polylines: this._parsePolylines(data.polylines),
-                    isSynced: true,
-                    territoryId: data.territory_id || undefined,
-                    averageSpeed: data.average_speed || undefined
-                };
+                    .rpc('get_shared_activities', { p_ids: [activityId] });
+                if (error) return activity ?? null;
+
+                const row = Array.isArray(data) ? data[0] : null;
+                if (!row) {
+                    if (activity) await db.activities.delete(activityId).catch(() => {});
+                    return null;
+                }
+
+                const cloudActivity: Activity = this._mapCloudActivity(row);
 
                 // Cache locally for future access
                 await db.activities.put(cloudActivity).catch(() => {});
                 return cloudActivity;
             } catch {
-                return null;
+                return activity ?? null;
             }
         } catch (err) {
             console.error('Failed to get activity:', err);
@@ -4,7 +4,8 @@ import { makeRedirectUri } from 'expo-auth-session';
 import { Alert } from 'react-native';
 import { db } from '../lib/db';
 import { supabase } from '../lib/supabase';
-import { UserProfile } from '../lib/types';
+import { ActivityVisibility, UserProfile } from '../lib/types';
+import { isActivityVisibility } from '../utils/activityVisibility';
 
 
 try {
@@ -237,11 +238,13 @@ export const AuthService = {
         const userEmail = session.user.email;
         const avatarUrl = session.user.user_metadata?.avatar_url;
 
-        // Preserve existing createdAt if the user already has a local profile
+        // Preserve existing createdAt and settings if the user already has a local profile
         let existingCreatedAt: number | undefined;
+        let existingVisibility: ActivityVisibility | undefined;
         try {
             const existingProfile = await db.users.get(userId);
             existingCreatedAt = existingProfile?.createdAt;
+            existingVisibility = existingProfile?.defaultActivityVisibility;
         } catch {}
 
         // Save locally FIRST (offline-first)
@@ -251,7 +254,8 @@ export const AuthService = {
             username: updates.username || '',
             bio: updates.bio || '',
             avatarUrl: updates.avatarUrl || avatarUrl,
-            createdAt: existingCreatedAt || Date.now()
+            createdAt: existingCreatedAt || Date.now(),
+            defaultActivityVisibility: existingVisibility
         };
         await db.users.put(profile);
 
@@ -278,6 +282,28 @@ export const AuthService = {
         return profile;
     },
 
+    /**
+     * Set who new activities are visible to. Activities already saved keep
+     * their own setting.
+     */
+    async setDefaultActivityVisibility(visibility: ActivityVisibility): Promise<void> {
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session?.user) {
+            throw new Error('Must be signed in to update profile');
+        }
+
+        const userId = session.user.id;
+        await db.users.update(userId, { defaultActivityVisibility: visibility });
+
+        const { error } = await supabase
+            .from('users')
+            .update({ default_activity_visibility: visibility })
+            .eq('id', userId);
+        if (error) {
+            console.error('Failed to sync activity visibility to cloud:', error);
+        }
+    },
+
     async getCurrentProfile(): Promise<UserProfile | null> {
         // Check local DB FIRST (offline-first), filtered by current session user
         try {
@@ -316,7 +342,10 @@ export const AuthService = {
                     email: data.email,
                     bio: data.bio,
                     avatarUrl: data.avatar_url,
-                    createdAt: new Date(data.created_at).getTime()
+                    createdAt: new Date(data.created_at).getTime(),
+                    defaultActivityVisibility: isActivityVisibility(data.default_activity_visibility)
+                        ? data.default_activity_visibility
+                        : undefined
                 };
             }
         } catch (err) {
@@ -0,0 +1,223 @@
+import * as Sharing from 'expo-sharing';
+import { cacheDirectory, writeAsStringAsync } from 'expo-file-system/legacy';
+import { getDistance } from 'geolib';
+import { Activity, ActivityType, GPSPoint } from '../lib/types';
+import { PrivacyZoneService } from './PrivacyZoneService';
+
+export type ExportFormat = 'gpx' | 'tcx';
+
+const FORMAT_INFO: Record<ExportFormat, { mimeType: string; UTI: string }> = {
+    gpx: { mimeType: 'application/gpx+xml', UTI: 'com.topografix.gpx' },
+    tcx: { mimeType: 'application/vnd.garmin.tcx+xml', UTI: 'public.xml' },
+};
+
+// GPX <type> and TCX Sport values other tools recognise
+const GPX_TYPE: Record<ActivityType, string> = {
+    WALK: 'walking',
+    RUN: 'running',
+    RIDE: 'cycling',
+};
+
+const TCX_SPORT: Record<ActivityType, string> = {
+    WALK: 'Other', // TCX only knows Running, Biking and Other
+    RUN: 'Running',
+    RIDE: 'Biking',
+};
+
+const ACTIVITY_NAME: Record<ActivityType, string> = {
+    WALK: 'Walk',
+    RUN: 'Run',
+    RIDE: 'Ride',
+};
+
+export const escapeXml = (value: string): string =>
+    value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
+
+const isValidPoint = (p: GPSPoint): boolean =>
+    !!p && typeof p.lat === 'number' && typeof p.lng === 'number' &&
+    !isNaN(p.lat) && !isNaN(p.lng);
+
+const hasTime = (p: GPSPoint): boolean =>
+    typeof p.timestamp === 'number' && isFinite(p.timestamp) && p.timestamp > 0;
+
+const hasValue = (value: number | null | undefined): value is number =>
+    typeof value === 'number' && isFinite(value);
+
+const isoTime = (ms: number): string => new Date(ms).toISOString();
+
+/** Segments with invalid points removed and empty segments dropped. */
+const exportSegments = (activity: Activity): GPSPoint[][] =>
+    (activity.polylines || [])
+        .map(segment => (Array.isArray(segment) ? segment.filter(isValidPoint) : []))
+        .filter(segment => segment.length > 0);
+
+export const activityName = (activity: Activity): string =>
+    `${ACTIVITY_NAME[activity.type] || 'Activity'} on Conqr`;
+
+export const exportFileName = (activity: Activity, format: ExportFormat): string => {
+    const date = new Date(activity.startTime).toISOString().slice(0, 10);
+    return `conqr-${(activity.type || 'activity').toLowerCase()}-${date}.${format}`;
+};
+
+/**
+ * Serialize an activity to GPX 1.1. Each recorded segment becomes its own
+ * <trkseg>, so pauses survive the round trip. Speed (m/s) goes in the Garmin
+ * TrackPointExtension, which Strava, Garmin Connect and most editors read.
+ */
+export const toGPX = (activity: Activity): string => {
+    const lines: string[] = [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<gpx version="1.1" creator="Conqr"',
+        '  xmlns="http://www.topografix.com/GPX/1/1"',
+        '  xmlns:gpxtpx="http://www.garmin.com/xmlschemas/TrackPointExtension/v2"',
+        '  xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"',
+        '  xsi:schemaLocation="http://www.topografix.com/GPX/1/1 http://www.topografix.com/GPX/1/1/gpx.xsd">',
+        '  <metadata>',
+        `    <name>${escapeXml(activityName(activity))}</name>`,
+        `    <time>${isoTime(activity.startTime)}</time>`,
+        '  </metadata>',
+        '  <trk>',
+        `    <name>${escapeXml(activityName(activity))}</name>`,
+        `    <type>${GPX_TYPE[activity.type] || 'other'}</type>`,
+    ];
+
+    for (const segment of exportSegments(activity)) {
+        lines.push('    <trkseg>');
+        for (const point of segment) {
+            lines.push(`      <trkpt lat="${point.lat}" lon="${point.lng}">`);
+            if (hasValue(point.altitude)) lines.push(`        <ele>${point.altitude}</ele>`);
+            if (hasTime(point)) lines.push(`        <time>${isoTime(point.timestamp)}</time>`);
+            if (hasValue(point.speed)) {
+                lines.push('        <extensions>');
+                lines.push('          <gpxtpx:TrackPointExtension>');
+                lines.push(`            <gpxtpx:speed>${point.speed}</gpxtpx:speed>`);
+                lines.push('          </gpxtpx:TrackPointExtension>');
+                lines.push('        </extensions>');
+            }
+            lines.push('      </trkpt>');
+        }
+        lines.push('    </trkseg>');
+    }
+
+    lines.push('  </trk>');
+    lines.push('</gpx>');
+    return lines.join('\n') + '\n';
+};
+
+/**
+ * Serialize an activity to TCX (Training Center XML v2). The activity is one
+ * lap with a <Track> per segment. TCX requires a time on every trackpoint, so
+ * points without one are skipped. DistanceMeters is cumulative and never
+ * bridges the gap between segments.
+ */
+export const toTCX = (activity: Activity): string => {
+    const segments = exportSegments(activity)
+        .map(segment => segment.filter(hasTime))
+        .filter(segment => segment.length > 0);
+
+    let maxSpeed = 0;
+    for (const segment of segments) {
+        for (const point of segment) {
+            if (hasValue(point.speed) && point.speed > maxSpeed) maxSpeed = point.speed;
+        }
+    }
+
+    const lines: string[] = [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<TrainingCenterDatabase',
+        '  xmlns="http://www.garmin.com/xmlschemas/TrainingCenterDatabase/v2"',
+        '  xmlns:ns3="http://www.garmin.com/xmlschemas/ActivityExtension/v2"',
+        '  xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"',
+        '  xsi:schemaLocation="http://www.garmin.com/xmlschemas/TrainingCenterDatabase/v2 http://www.garmin.com/xmlschemas/TrainingCenterDatabasev2.xsd">',
+        '  <Activities>',
+        `    <Activity Sport="${TCX_SPORT[activity.type] || 'Other'}">`,
+        `      <Id>${isoTime(activity.startTime)}</Id>`,
+        `      <Lap StartTime="${isoTime(activity.startTime)}">`,
+        `        <TotalTimeSeconds>${Math.round(activity.duration || 0)}</TotalTimeSeconds>`,
+        `        <DistanceMeters>${(activity.distance || 0).toFixed(1)}</DistanceMeters>`,
+        `        <MaximumSpeed>${maxSpeed.toFixed(2)}</MaximumSpeed>`,
+        '        <Calories>0</Calories>',
+        '        <Intensity>Active</Intensity>',
+        '        <TriggerMethod>Manual</TriggerMethod>',
+    ];
+
+    let cumulative = 0;
+    for (const segment of segments) {
+        lines.push('        <Track>');
+        let prev: GPSPoint | null = null;
+        for (const point of segment) {
+            if (prev) {
+                try {
+                    cumulative += getDistance(
+                        { latitude: prev.lat, longitude: prev.lng },
+                        { latitude: point.lat, longitude: point.lng }
+                    );
+                } catch { /* keep previous total */ }
+            }
+            prev = point;
+
+            lines.push('          <Trackpoint>');
+            lines.push(`            <Time>${isoTime(point.timestamp)}</Time>`);
+            lines.push('            <Position>');
+            lines.push(`              <LatitudeDegrees>${point.lat}</LatitudeDegrees>`);
+            lines.push(`              <LongitudeDegrees>${point.lng}</LongitudeDegrees>`);
+            lines.push('            </Position>');
+            if (hasValue(point.altitude)) {
+                lines.push(`            <AltitudeMeters>${point.altitude}</AltitudeMeters>`);
+            }
+            lines.push(`            <DistanceMeters>${cumulative.toFixed(1)}</DistanceMeters>`);
+            if (hasValue(point.speed)) {
+                lines.push('            <Extensions>');
+                lines.push('              <ns3:TPX>');
+                lines.push(`                <ns3:Speed>${point.speed}</ns3:Speed>`);
+                lines.push('              </ns3:TPX>');
+                lines.push('            </Extensions>');
+            }
+            lines.push('          </Trackpoint>');
+        }
+        lines.push('        </Track>');
+    }
+
+    lines.push('      </Lap>');
+    lines.push(`      <Notes>${escapeXml(activityName(activity))}</Notes>`);
+    lines.push('    </Activity>');
+    lines.push('  </Activities>');
+    lines.push('</TrainingCenterDatabase>');
+    return lines.join('\n') + '\n';
+};
+
+export const ExportService = {
+    serialize(activity: Activity, format: ExportFormat): string {
+        return format === 'gpx' ? toGPX(activity) : toTCX(activity);
+    },
+
+    /**
+     * Write the activity to a file in the cache directory and open the native
+     * share sheet. Fixes inside the user's privacy zones are left out.
+     */
+    async shareActivityFile(activity: Activity, format: ExportFormat): Promise<void> {
+        const isAvailable = await Sharing.isAvailableAsync();
+        if (!isAvailable) {
+            throw new Error('Sharing not available on this device');
+        }
+        if (!cacheDirectory) {
+            throw new Error('No cache directory available for export');
+        }
+
+        const shared = await PrivacyZoneService.clipActivity(activity);
+        const uri = `${cacheDirectory}${exportFileName(activity, format)}`;
+        await writeAsStringAsync(uri, this.serialize(shared, format));
+
+        const { mimeType, UTI } = FORMAT_INFO[format];
+        await Sharing.shareAsync(uri, {
+            mimeType,
+            dialogTitle: `Export ${format.toUpperCase()}`,
+            UTI,
+        });
+    },
+};
@@ -1,20 +1,8 @@
 import { supabase } from '../lib/supabase';
-import { Post, PostComment, PostType, Activity, Territory, GPSPoint } from '../lib/types';
+import { Post, PostComment, PostType, Activity, Territory } from '../lib/types';
 import { ReportBlockService } from './ReportBlockService';
-
-const parsePolylines = (polylines: any): GPSPoint[][] => {
-    if (!polylines) return [];
-    if (Array.isArray(polylines)) return polylines;
-    if (typeof polylines === 'string') {
-        try {
-            const parsed = JSON.parse(polylines);
-            return Array.isArray(parsed) ? parsed : [];
-        } catch {
-            return [];
-        }
-    }
-    return [];
-};
+import { decodeTrack } from '../utils/polyline';
+import { isActivityVisibility } from '../utils/activityVisibility';
 
 const mapActivity = (a: any): Activity => ({
     id: a.id,
@@ -24,10 +12,11 @@ const mapActivity = (a: any): Activity => ({
     endTime: a.end_time ? new Date(a.end_time).getTime() : undefined,
     distance: a.distance || 0,
     duration: a.duration || 0,
-    polylines: parsePolylines(a.polylines),
+    polylines: decodeTrack(a.route_preview ?? a.polylines),
     isSynced: true,
     territoryId: a.territory_id || undefined,
     averageSpeed: a.average_speed || undefined,
+    visibility: isActivityVisibility(a.visibility) ? a.visibility : undefined,
 });
 
 const mapTerritory = (t: any): Territory => ({
@@ -77,9 +66,16 @@ const mapComment = (row: any): PostComment => ({
     createdAt: new Date(row.created_at).getTime(),
 });
 
+/**
+ * The activities and territories posts link to. Activities the caller may not
+ * see (by their visibility) are left out and listed in hiddenActivityIds, so
+ * their posts can be dropped rather than shown as an empty card. Posts whose
+ * activity has been deleted are kept.
+ */
 async function fetchLinkedData(posts: any[]): Promise<{
     activitiesMap: Map<string, Activity>;
     territoriesMap: Map<string, Territory>;
+    hiddenActivityIds: Set<string>;
 }> {
     const activityIds = posts
         .filter((p: any) => p.post_type === 'activity_share' && p.activity_id)
@@ -91,20 +87,31 @@ async function fetchLinkedData(posts: any[]): Promise<{
 
     const activitiesMap = new Map<string, Activity>();
     const territoriesMap = new Map<string, Territory>();
+    const hiddenActivityIds = new Set<string>();
 
     const promises: Promise<void>[] = [];
 
     if (activityIds.length > 0) {
         promises.push(
             (async () => {
-                const { data } = await supabase
-                    .from('activities')
-                    .select('*')
-                    .in('id', activityIds);
-                if (data) {
-                    for (const a of data) {
-                        activitiesMap.set(a.id, mapActivity(a));
-                    }
+                // Feed cards only draw the route, so the simplified preview is
+                // fetched instead of the full track where a row has one. Other
+                // users' routes come back with their privacy zones clipped out.
+                const { data, error } = await supabase
+                    .rpc('get_shared_activities', { p_ids: activityIds, p_preview_only: true });
+                if (error || !Array.isArray(data)) return;
+                for (const a of data) {
+                    activitiesMap.set(a.id, mapActivity(a));
+                }
+            })(),
+            (async () => {
+                // A missing activity may just have been deleted, so only the
+                // ids the server says it withholds hide their posts
+                const { data, error } = await supabase
+                    .rpc('get_hidden_activity_ids', { p_ids: activityIds });
+                if (error || !Array.isArray(data)) return;
+                for (const id of data) {
+                    hiddenActivityIds.add(id);
                 }
             })()
         );
@@ -127,7 +134,7 @@ async function fetchLinkedData(posts: any[]): Promise<{
     }
 
     await Promise.all(promises);
-    return { activitiesMap, territoriesMap };
+    return { activitiesMap, territoriesMap, hiddenActivityIds };
 }
 
 export const FeedService = {
@@ -183,6 +190,7 @@ export const FeedService = {
 
             return posts
                 .filter((row: any) => !blockedSet.has(row.user_id))
+                .filter((row: any) => !linkedData.hiddenActivityIds.has(row.activity_id))
                 .map((row: any) =>
                     mapPost(row, currentUserId, likes, commentCounts, linkedData.activitiesMap, linkedData.territoriesMap)
                 );
@@ -409,9 +417,11 @@ export const FeedService = {
                 }
             }
 
-            return posts.map((row: any) =>
-                mapPost(row, currentUserId, likes, commentCounts, linkedData.activitiesMap, linkedData.territoriesMap)
-            );
+            return posts
+                .filter((row: any) => !linkedData.hiddenActivityIds.has(row.activity_id))
+                .map((row: any) =>
+                    mapPost(row, currentUserId, likes, commentCounts, linkedData.activitiesMap, linkedData.territoriesMap)
+                );
         } catch (err) {
             console.error('Failed to fetch user posts:', err);
             return [];
@@ -1,5 +1,6 @@
 import { supabase } from '../lib/supabase';
-import { Friendship, FriendWithProfile, FriendshipStatus, UserProfile } from '../lib/types';
+import { Activity, Friendship, FriendWithProfile, FriendshipStatus, UserProfile } from '../lib/types';
+import { canViewActivity } from '../utils/activityVisibility';
 
 const mapFriendship = (row: any): Friendship => ({
     id: row.id,
@@ -202,4 +203,18 @@ export const FriendService = {
 
         return { status: 'none' };
     },
+
+    /**
+     * Whether the signed-in user may see an activity. The friendship is only
+     * looked up for friends-only activities of someone else.
+     */
+    async canViewActivity(activity: Pick<Activity, 'userId' | 'visibility'>): Promise<boolean> {
+        const { data: { session } } = await supabase.auth.getSession();
+        const viewerId = session?.user?.id || null;
+        if (!viewerId || viewerId === activity.userId || activity.visibility !== 'friends') {
+            return canViewActivity(activity, viewerId, 'none');
+        }
+        const { status } = await this.getFriendshipStatus(viewerId, activity.userId);
+        return canViewActivity(activity, viewerId, status);
+    },
 };
@@ -1,6 +1,16 @@
-import { GPSPoint, ActivityType, Territory, TerritoryInvasion, ConquerResult } from '../lib/types';
+import {
+    GPSPoint, ActivityType, Territory, TerritoryInvasion, ConquerResult,
+    TerritoryPolygon, TerritoryMultiPolygon, TerritoryRing, TerritoryPreview, ConquestForecast,
+    ClaimRules, ClaimRuleViolation,
+} from '../lib/types';
 import { getDistance } from 'geolib';
-import { polygon, area, unkinkPolygon, rewind, centroid, length, lineString, intersect, difference, featureCollection } from '@turf/turf';
+import {
+    polygon, multiPolygon, area, unkinkPolygon, rewind, centroid, length, lineString,
+    intersect, difference, union, booleanIntersects, featureCollection,
+} from '@turf/turf';
+import { closeRing, toMultiPolygon, fromMultiPolygon } from '../utils/territoryGeometry';
+import { isSameTeam } from '../utils/teams';
+import { DEFAULT_CLAIM_RULES, evaluateClaimRules } from '../utils/claimRules';
 import { v4 as uuidv4 } from 'uuid';
 
 // Constraints
@@ -10,6 +20,105 @@ const SPEED_LIMITS = {
     RIDE: { min: 10 / 3.6, max: 50 / 3.6 }
 };
 
+// Max gap (m) allowed between the end of one segment and the start of the next
+// when stitching a paused activity into a single loop. Anything larger means
+// the user moved while paused, so the straight-line bridge can't count.
+const MAX_SEGMENT_GAP_M = 200;
+
+// Territory decay. A claim holds full strength for a grace period after it was
+// last defended, then halves every half-life down to a floor so it never
+// disappears on its own. Re-walking a loop that covers most of an owned
+// territory counts as defending it (see mergeOwnTerritories).
+export const TERRITORY_DECAY = {
+    GRACE_DAYS: 7,
+    HALF_LIFE_DAYS: 14,
+    MIN_STRENGTH: 0.1,
+    REFRESH_COVERAGE: 0.7, // fraction of the merged territory the new loop must cover
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Pieces of a split territory smaller than this are GPS noise and dropped,
+// as are holes under a square meter. Matches the minimum claimable area.
+const MIN_FRAGMENT_AREA_M2 = 10;
+const MIN_HOLE_AREA_M2 = 1;
+
+/** Turf MultiPolygon for either territory shape, or null if nothing is drawable. */
+const toTurfPolygon = (territoryPolygon: TerritoryPolygon) => {
+    const parts = toMultiPolygon(territoryPolygon);
+    if (parts.length === 0) return null;
+    return multiPolygon(parts.map(part => part.map(closeRing)));
+};
+
+/**
+ * The parts of a difference() or union() worth keeping: every part above the
+ * noise threshold, wound consistently, with its meaningful holes. Largest first.
+ */
+const significantParts = (shape: NonNullable<ReturnType<typeof difference>>): TerritoryMultiPolygon => {
+    const parts = shape.geometry.type === 'MultiPolygon'
+        ? shape.geometry.coordinates
+        : [shape.geometry.coordinates];
+
+    return parts
+        .map(part => (rewind(polygon(part)) as ReturnType<typeof polygon>).geometry.coordinates as TerritoryRing[])
+        .map(([outer, ...holes]) => [
+            outer,
+            ...holes.filter(hole => area(polygon([hole])) >= MIN_HOLE_AREA_M2),
+        ])
+        .map(part => ({ part, partArea: area(polygon(part)) }))
+        .filter(({ partArea }) => partArea >= MIN_FRAGMENT_AREA_M2)
+        .sort((a, b) => b.partArea - a.partArea)
+        .map(({ part }) => part);
+};
+
+/** Area, perimeter (holes included) and a center on the largest part. */
+const partStats = (parts: TerritoryMultiPolygon): Pick<Territory, 'area' | 'perimeter' | 'center'> => {
+    const center = centroid(polygon(parts[0]));
+    return {
+        area: parts.reduce((sum, part) => sum + area(polygon(part)), 0),
+        perimeter: parts
+            .flat()
+            .reduce((sum, ring) => sum + length(lineString(ring), { units: 'meters' }), 0),
+        center: {
+            lat: center.geometry.coordinates[1],
+            lng: center.geometry.coordinates[0],
+        },
+    };
+};
+
+/**
+ * The polygon a loop claims: the track closed back to its start, untangled
+ * where it crosses itself, keeping the largest ring. Null if nothing valid.
+ */
+const claimPolygon = (coords: number[][]) => {
+    if (coords[0][0] !== coords[coords.length - 1][0] || coords[0][1] !== coords[coords.length - 1][1]) {
+        coords = [...coords, coords[0]];
+    }
+    if (coords.length < 4) return null;
+
+    let turfPoly = polygon([coords]);
+    const unkinked = unkinkPolygon(turfPoly);
+
+    if (unkinked.features.length > 0) {
+        let maxArea = 0;
+        let maxFeature = unkinked.features[0];
+
+        for (const feature of unkinked.features) {
+            const featureArea = area(feature);
+            if (featureArea > maxArea) {
+                maxArea = featureArea;
+                maxFeature = feature;
+            }
+        }
+        turfPoly = maxFeature as any;
+    }
+
+    return rewind(turfPoly) as typeof turfPoly;
+};
+
+const isSegmentList = (path: GPSPoint[] | GPSPoint[][]): path is GPSPoint[][] =>
+    Array.isArray(path) && path.length > 0 && Array.isArray(path[0]);
+
 export const GameEngine = {
     validateSpeed(point: GPSPoint, type: ActivityType) {
         if (point.speed === null || point.speed === undefined) return { valid: true };
@@ -26,7 +135,65 @@ export const GameEngine = {
         return { valid: true };
     },
 
-    checkLoopClosure(path: GPSPoint[]): { isClosed: boolean, distance: number } {
+    /**
+     * Join activity segments into one continuous track.
+     * Returns null if any pause gap is too wide to bridge honestly.
+     */
+    stitchSegments(segments: GPSPoint[][]): GPSPoint[] | null {
+        if (!Array.isArray(segments)) return null;
+        const nonEmpty = segments.filter(seg => Array.isArray(seg) && seg.length > 0);
+        const track: GPSPoint[] = [];
+
+        for (const segment of nonEmpty) {
+            if (track.length > 0) {
+                const last = track[track.length - 1];
+                const first = segment[0];
+                try {
+                    const gap = getDistance(
+                        { latitude: last.lat, longitude: last.lng },
+                        { latitude: first.lat, longitude: first.lng }
+                    );
+                    if (gap > MAX_SEGMENT_GAP_M) return null;
+                } catch {
+                    return null;
+                }
+            }
+            track.push(...segment);
+        }
+
+        return track;
+    },
+
+    /** Accept either a flat path or a list of segments and return a single track. */
+    toTrack(path: GPSPoint[] | GPSPoint[][]): GPSPoint[] | null {
+        if (!Array.isArray(path)) return null;
+        return isSegmentList(path) ? this.stitchSegments(path) : path;
+    },
+
+    /** When the territory was last claimed or re-walked by its owner. */
+    getLastDefendedAt(territory: Pick<Territory, 'claimedAt' | 'lastDefendedAt'>): number {
+        return territory.lastDefendedAt || territory.claimedAt || 0;
+    },
+
+    /** Current strength of a territory, from 1 (freshly defended) down to TERRITORY_DECAY.MIN_STRENGTH. */
+    getTerritoryStrength(territory: Pick<Territory, 'claimedAt' | 'lastDefendedAt'>, now: number = Date.now()): number {
+        const lastDefended = this.getLastDefendedAt(territory);
+        if (!lastDefended) return 1;
+
+        const decayDays = (now - lastDefended) / DAY_MS - TERRITORY_DECAY.GRACE_DAYS;
+        if (decayDays <= 0) return 1;
+
+        const strength = Math.pow(0.5, decayDays / TERRITORY_DECAY.HALF_LIFE_DAYS);
+        return Math.max(TERRITORY_DECAY.MIN_STRENGTH, strength);
+    },
+
+    /** Area weighted by strength, used for leaderboard totals. */
+    getEffectiveArea(territory: Pick<Territory, 'area' | 'claimedAt' | 'lastDefendedAt'>, now: number = Date.now()): number {
+        return (territory.area || 0) * this.getTerritoryStrength(territory, now);
+    },
+
+    checkLoopClosure(pathOrSegments: GPSPoint[] | GPSPoint[][]): { isClosed: boolean, distance: number } {
+        const path = this.toTrack(pathOrSegments);
         if (!Array.isArray(path) || path.length < 10) {
             return { isClosed: false, distance: Infinity };
         }
@@ -55,7 +222,8 @@ export const GameEngine = {
         }
     },
 
-    calculateArea(path: GPSPoint[]): number {
+    calculateArea(pathOrSegments: GPSPoint[] | GPSPoint[][]): number {
+        const path = this.toTrack(pathOrSegments);
         if (!Array.isArray(path) || path.length < 3) return 0;
 
         // Filter out invalid points
@@ -78,7 +246,8 @@ export const GameEngine = {
         }
     },
 
-    processTerritory(path: GPSPoint[], ownerId: string, activityId: string): Territory | null {
+    processTerritory(pathOrSegments: GPSPoint[] | GPSPoint[][], ownerId: string, activityId: string): Territory | null {
+        const path = this.toTrack(pathOrSegments);
         if (!Array.isArray(path) || path.length < 10) return null;
         if (!this.checkLoopClosure(path).isClosed) return null;
 
@@ -92,29 +261,9 @@ export const GameEngine = {
 
         const coords = validPath.map(p => [p.lng, p.lat]);
 
-        if (coords[0][0] !== coords[coords.length - 1][0] || coords[0][1] !== coords[coords.length - 1][1]) {
-            coords.push(coords[0]);
-        }
-
         try {
-            let turfPoly = polygon([coords]);
-            const unkinked = unkinkPolygon(turfPoly);
-
-            if (unkinked.features.length > 0) {
-                let maxArea = 0;
-                let maxFeature = unkinked.features[0];
-
-                for (const feature of unkinked.features) {
-                    const featureArea = area(feature);
-                    if (featureArea > maxArea) {
-                        maxArea = featureArea;
-                        maxFeature = feature;
-                    }
-                }
-                turfPoly = maxFeature as any;
-            }
-
-            turfPoly = rewind(turfPoly) as any;
+            const turfPoly = claimPolygon(coords);
+            if (!turfPoly) return null;
             const polyArea = area(turfPoly);
 
             if (polyArea < 10) return null;
@@ -131,21 +280,23 @@ export const GameEngine = {
             const perimeterLine = lineString(finalCoords);
             const perimeterLength = length(perimeterLine, { units: 'meters' });
 
+            const now = Date.now();
             return {
                 id: uuidv4(),
                 name: '',
                 ownerId,
                 activityId,
-                claimedAt: Date.now(),
+                claimedAt: now,
                 area: polyArea,
                 perimeter: perimeterLength,
                 center,
                 polygon: finalCoords as [number, number][],
                 history: [{
                     claimedBy: ownerId,
-                    claimedAt: Date.now(),
+                    claimedAt: now,
                     activityId
-                }]
+                }],
+                lastDefendedAt: now
             };
         } catch (e) {
             console.error('Invalid polygon', e);
@@ -153,6 +304,103 @@ export const GameEngine = {
         }
     },
 
+    /**
+     * Check a territory from processTerritory against the claim rules: not
+     * too big for the activity type, a boundary mostly covered on foot or
+     * wheel rather than bridged, and compact and wide enough not to be a
+     * sliver. Returns the first rule it breaks, or null when it may claim.
+     */
+    checkClaimRules(
+        territory: Pick<Territory, 'area' | 'perimeter' | 'polygon'>,
+        pathOrSegments: GPSPoint[] | GPSPoint[][],
+        activityType: ActivityType,
+        rules: ClaimRules = DEFAULT_CLAIM_RULES
+    ): ClaimRuleViolation | null {
+        const segments = isSegmentList(pathOrSegments) ? pathOrSegments : [pathOrSegments];
+        let distance = 0;
+        for (const segment of segments) {
+            for (let i = 1; i < segment.length; i++) {
+                const a = segment[i - 1];
+                const b = segment[i];
+                if (!a || !b || isNaN(a.lat) || isNaN(a.lng) || isNaN(b.lat) || isNaN(b.lng)) continue;
+                distance += getDistance(
+                    { latitude: a.lat, longitude: a.lng },
+                    { latitude: b.lat, longitude: b.lng },
+                    0.1
+                );
+            }
+        }
+
+        return evaluateClaimRules({
+            area: territory.area,
+            perimeter: territory.perimeter,
+            distance,
+            ring: toMultiPolygon(territory.polygon)[0]?.[0] ?? [],
+        }, activityType, rules);
+    },
+
+    /**
+     * What the path would claim if the loop were closed right now: the same
+     * polygon processTerritory builds, without requiring the end to be near
+     * the start. Null until the path encloses a claimable area.
+     */
+    previewTerritory(path: GPSPoint[]): Pick<TerritoryPreview, 'polygon' | 'area'> | null {
+        if (!Array.isArray(path)) return null;
+        const coords = path
+            .filter(p => p && typeof p.lng === 'number' && typeof p.lat === 'number' && !isNaN(p.lng) && !isNaN(p.lat))
+            .map(p => [p.lng, p.lat]);
+        if (coords.length < 3) return null;
+
+        try {
+            const turfPoly = claimPolygon(coords);
+            if (!turfPoly) return null;
+            const polyArea = area(turfPoly);
+            if (polyArea < 10) return null;
+            return { polygon: turfPoly.geometry.coordinates[0] as TerritoryRing, area: polyArea };
+        } catch {
+            // Degenerate while the path is still short or straight
+            return null;
+        }
+    },
+
+    /**
+     * Which of other players' territories a claim of `ring` would cut into,
+     * and by how much, as resolveOverlaps would decide it. The owner's own
+     * territories are left out; merging them doesn't take anything.
+     */
+    forecastConquest(
+        ring: TerritoryRing,
+        ownerId: string,
+        territories: Territory[],
+        teamId?: string
+    ): ConquestForecast[] {
+        const now = Date.now();
+        const candidate: Territory = {
+            id: 'preview',
+            name: '',
+            ownerId,
+            activityId: 'preview',
+            claimedAt: now,
+            area: 0,
+            perimeter: 0,
+            center: { lat: 0, lng: 0 },
+            polygon: ring,
+            history: [],
+            teamId,
+        };
+        const others = territories.filter(t => t.ownerId !== ownerId);
+        const { invasions } = this.resolveOverlaps(candidate, others);
+        const byId = new Map(others.map(t => [t.id, t]));
+
+        return invasions.map(invasion => ({
+            territoryId: invasion.invadedTerritoryId,
+            ownerId: invasion.invadedUserId,
+            ownerName: byId.get(invasion.invadedTerritoryId)?.ownerName,
+            overlapArea: invasion.overlapArea,
+            destroyed: invasion.territoryWasDestroyed,
+        }));
+    },
+
     resolveOverlaps(
         newTerritory: Territory,
         existingTerritories: Territory[],
@@ -164,41 +412,30 @@ export const GameEngine = {
             deletedTerritoryIds: [],
             invasions: [],
             totalConqueredArea: 0,
+            mergedTerritoryIds: [],
         };
 
         // Build the new territory's Turf polygon
-        const newCoords: number[][] = [...newTerritory.polygon];
-        if (newCoords.length < 3) return result;
-
-        // Ensure ring is closed
-        if (newCoords[0][0] !== newCoords[newCoords.length - 1][0] ||
-            newCoords[0][1] !== newCoords[newCoords.length - 1][1]) {
-            newCoords.push(newCoords[0]);
-        }
-
         let newPoly;
         try {
-            newPoly = polygon([newCoords]);
+            newPoly = toTurfPolygon(newTerritory.polygon);
         } catch (e) {
             console.error('Failed to create polygon for new territory:', e);
             return result;
         }
+        if (!newPoly) return result;
+
+        const now = newTerritory.claimedAt || Date.now();
 
-        // Only process other users' territories
+        // Only process other users' territories, and not teammates'
         const otherTerritories = existingTerritories.filter(
-            t => t.ownerId !== newTerritory.ownerId
+            t => t.ownerId !== newTerritory.ownerId && !isSameTeam(t, newTerritory)
         );
 
         for (const existing of otherTerritories) {
-            if (!existing.polygon || existing.polygon.length < 3) continue;
-
             try {
-                const existCoords: number[][] = [...existing.polygon];
-                if (existCoords[0][0] !== existCoords[existCoords.length - 1][0] ||
-                    existCoords[0][1] !== existCoords[existCoords.length - 1][1]) {
-                    existCoords.push(existCoords[0]);
-                }
-                const existPoly = polygon([existCoords]);
+                const existPoly = toTurfPolygon(existing.polygon);
+                if (!existPoly) continue;
 
                 // Check for intersection
                 const overlap = intersect(featureCollection([newPoly, existPoly]));
@@ -207,10 +444,16 @@ export const GameEngine = {
                 const overlapArea = area(overlap);
                 if (overlapArea < 1) continue; // GPS noise, skip
 
-                // Subtract new territory from existing
-                const diff = difference(featureCollection([existPoly, newPoly]));
+                // A decayed territory collapses once the invader covers the share
+                // of it that its strength still holds; at full strength that's all of it.
+                const strength = this.getTerritoryStrength(existing, now);
+                const collapsed = existing.area > 0 && overlapArea >= existing.area * strength;
 
-                if (!diff) {
+                // Subtract new territory from existing, keeping every fragment that isn't noise
+                const diff = collapsed ? null : difference(featureCollection([existPoly, newPoly]));
+                const fragments = diff ? significantParts(diff) : [];
+
+                if (fragments.length === 0) {
                     // Existing territory fully consumed
                     result.deletedTerritoryIds.push(existing.id);
                     result.totalConqueredArea += existing.area;
@@ -228,41 +471,11 @@ export const GameEngine = {
                         seen: false,
                     });
                 } else {
-                    // Territory was partially consumed
-                    let remainingCoords: number[][];
-
-                    if (diff.geometry.type === 'MultiPolygon') {
-                        // Pick the largest fragment
-                        let maxArea = 0;
-                        let maxRing: number[][] = [];
-                        for (const ring of diff.geometry.coordinates) {
-                            const ringPoly = polygon(ring as number[][][]);
-                            const ringArea = area(ringPoly);
-                            if (ringArea > maxArea) {
-                                maxArea = ringArea;
-                                maxRing = ring[0] as number[][];
-                            }
-                        }
-                        remainingCoords = maxRing;
-                    } else {
-                        remainingCoords = diff.geometry.coordinates[0] as number[][];
-                    }
-
-                    // Recalculate stats for modified territory
-                    const modifiedPoly = rewind(polygon([remainingCoords]));
-                    const modifiedArea = area(modifiedPoly);
-                    const modifiedCenter = centroid(modifiedPoly);
-                    const modifiedPerimeter = length(lineString(remainingCoords), { units: 'meters' });
-
+                    // Territory was partially consumed, possibly split into several parts
                     const modifiedTerritory: Territory = {
                         ...existing,
-                        polygon: remainingCoords as [number, number][],
-                        area: modifiedArea,
-                        perimeter: modifiedPerimeter,
-                        center: {
-                            lat: modifiedCenter.geometry.coordinates[1],
-                            lng: modifiedCenter.geometry.coordinates[0],
-                        },
+                        polygon: fromMultiPolygon(fragments),
+                        ...partStats(fragments),
                         history: [
                             ...(existing.history || []),
                             {
@@ -296,6 +509,76 @@ export const GameEngine = {
             }
         }
 
+        // Fold the owner's territories this claim overlaps or touches into it
+        const merge = this.mergeOwnTerritories(newTerritory, existingTerritories);
+        result.newTerritory = merge.territory;
+        result.mergedTerritoryIds = merge.mergedTerritoryIds;
+
         return result;
+    },
+
+    /**
+     * Union a new claim with the owner's territories that it overlaps or touches.
+     * The merged territory keeps the new claim's id and claim time, plus the
+     * combined history of everything folded in. It only counts as defended
+     * by this claim when the new loop covers most of the merged whole;
+     * otherwise it keeps the oldest defend time of its parts, so tacking a
+     * small loop onto an old holding doesn't reset that holding's decay.
+     */
+    mergeOwnTerritories(
+        newTerritory: Territory,
+        existingTerritories: Territory[]
+    ): { territory: Territory; mergedTerritoryIds: string[] } {
+        const unchanged = { territory: newTerritory, mergedTerritoryIds: [] as string[] };
+
+        const newPoly = toTurfPolygon(newTerritory.polygon);
+        if (!newPoly) return unchanged;
+
+        const touching: { own: Territory; ownPoly: NonNullable<ReturnType<typeof toTurfPolygon>> }[] = [];
+        for (const own of existingTerritories) {
+            if (own.ownerId !== newTerritory.ownerId || own.id === newTerritory.id) continue;
+            try {
+                const ownPoly = toTurfPolygon(own.polygon);
+                if (ownPoly && booleanIntersects(newPoly, ownPoly)) {
+                    touching.push({ own, ownPoly });
+                }
+            } catch (e) {
+                console.error('Error checking own territory for merge:', own.id, e);
+            }
+        }
+        if (touching.length === 0) return unchanged;
+
+        try {
+            const merged = union(featureCollection([newPoly, ...touching.map(t => t.ownPoly)]));
+            const parts = merged ? significantParts(merged) : [];
+            if (parts.length === 0) return unchanged;
+
+            const history = [
+                ...touching.flatMap(t => t.own.history || []),
+                ...(newTerritory.history || []),
+            ].sort((a, b) => a.claimedAt - b.claimedAt);
+
+            const stats = partStats(parts);
+            const claimedAt = this.getLastDefendedAt(newTerritory) || Date.now();
+            const rewalked = stats.area > 0 && area(newPoly) / stats.area >= TERRITORY_DECAY.REFRESH_COVERAGE;
+            const lastDefendedAt = rewalked
+                ? claimedAt
+                : Math.min(claimedAt, ...touching.map(t => this.getLastDefendedAt(t.own) || claimedAt));
+
+            return {
+                territory: {
+                    ...newTerritory,
+                    name: newTerritory.name || touching.find(t => t.own.name)?.own.name || '',
+                    polygon: fromMultiPolygon(parts),
+                    ...stats,
+                    history,
+                    lastDefendedAt,
+                },
+                mergedTerritoryIds: touching.map(t => t.own.id),
+            };
+        } catch (e) {
+            console.error('Error merging own territories:', e);
+            return unchanged;
+        }
     }
 };
@@ -0,0 +1,681 @@
+import { Activity, ActivityType, ClaimRuleViolation, GPSPoint, Territory, UserProfile } from '../lib/types';
+import { supabase } from '../lib/supabase';
+import { getDistance } from 'geolib';
+import { v4 as uuidv4 } from 'uuid';
+import { GameEngine } from './GameEngine';
+import { ActivityService } from './ActivityService';
+import { TerritoryService } from './TerritoryService';
+import { AuthService } from './AuthService';
+import { analyzeTrack } from '../utils/spoofing';
+import { DEFAULT_ACTIVITY_VISIBILITY } from '../utils/activityVisibility';
+
+export type ImportFormat = 'gpx' | 'tcx' | 'fit';
+
+/** A track as read from a file, before any validation. */
+export interface ParsedTrack {
+    format: ImportFormat;
+    segments: GPSPoint[][];
+    activityType: ActivityType | null; // null if the file doesn't say
+    name?: string;
+}
+
+export type ImportRejectReason =
+    | 'UNSUPPORTED_FORMAT'
+    | 'PARSE_ERROR'
+    | 'NO_POINTS'
+    | 'MISSING_TIMESTAMPS'
+    | 'TIMESTAMPS_OUT_OF_ORDER'
+    | 'FUTURE_TIMESTAMPS'
+    | 'SPEED_VIOLATION'
+    | 'OVERLAPS_EXISTING'
+    | 'INVALID_ACTIVITY';
+
+export interface TrackValidation {
+    valid: boolean;
+    reason?: ImportRejectReason;
+    message?: string;
+}
+
+export interface ImportResult {
+    success: boolean;
+    reason?: ImportRejectReason;
+    message?: string;
+    activity?: Activity;
+    territory?: Territory | null;
+    conqueredArea?: number;
+    /** Set when the loop closed but was too old to claim, broke the claim rules, the server refused or couldn't be reached, or it's held for review. */
+    territorySkipped?: 'TOO_OLD' | 'REJECTED' | 'UNDER_REVIEW' | 'PRIVACY_ZONE' | 'CLAIM_RULES' | 'CLAIM_FAILED';
+    claimViolation?: ClaimRuleViolation; // set with CLAIM_RULES
+}
+
+export interface ImportOptions {
+    activityType?: ActivityType; // override what the file says
+    maxImportAgeDays?: number;   // override the app_settings value
+}
+
+// ── Anti-cheat thresholds ──────────────────────────────────────────────────
+const SPEED_WINDOW_MS = 10_000;          // measure speed over >=10s to ride out GPS jitter
+const MAX_SPEED_VIOLATION_RATIO = 0.05;  // tolerate a few noisy fixes, not a drive
+const MAX_CLOCK_SKEW_MS = 10 * 60_000;   // device clocks drift; 10 min ahead is the limit
+
+// Territory can only be claimed from recent imports (days). Configurable
+// through the `import_max_age_days` app setting.
+const DEFAULT_MAX_IMPORT_AGE_DAYS = 7;
+const MAX_AGE_CACHE_TTL_MS = 5 * 60_000;
+let cachedMaxAgeDays: number | null = null;
+let maxAgeCacheTimestamp = 0;
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+const decodeXml = (value: string): string =>
+    value
+        .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&amp;/g, '&');
+
+/** Inner text of the first <tag>, ignoring any namespace prefix. */
+const tagText = (xml: string, tag: string): string | null => {
+    const match = xml.match(new RegExp(`<(?:[\\w-]+:)?${tag}\\b[^>]*>([\\s\\S]*?)</(?:[\\w-]+:)?${tag}>`));
+    return match ? decodeXml(match[1].trim()) : null;
+};
+
+/** Inner XML of every <tag> block, ignoring any namespace prefix. */
+const tagBlocks = (xml: string, tag: string): string[] => {
+    const re = new RegExp(`<(?:[\\w-]+:)?${tag}\\b[^>]*>([\\s\\S]*?)</(?:[\\w-]+:)?${tag}>`, 'g');
+    return Array.from(xml.matchAll(re), m => m[1]);
+};
+
+const attrValue = (attrs: string, name: string): string | null => {
+    const match = attrs.match(new RegExp(`\\b${name}\\s*=\\s*["']([^"']*)["']`));
+    return match ? match[1] : null;
+};
+
+const toNumber = (value: string | null): number | null => {
+    if (value === null || value.trim() === '') return null;
+    const n = Number(value);
+    return isFinite(n) ? n : null;
+};
+
+const toTimestamp = (value: string | null): number => {
+    if (!value) return 0;
+    const ms = Date.parse(value);
+    return isNaN(ms) ? 0 : ms;
+};
+
+const isValidCoordinate = (lat: number | null, lng: number | null): boolean =>
+    lat !== null && lng !== null &&
+    lat >= -90 && lat <= 90 && lng >= -180 && lng <= 180;
+
+/** Map free-text activity labels (GPX <type>, TCX Sport, Strava codes) to our types. */
+export const activityTypeFromLabel = (label: string | null | undefined): ActivityType | null => {
+    if (!label) return null;
+    const value = label.trim().toLowerCase();
+    if (value === '9' || value.includes('run')) return 'RUN';
+    if (value === '1' || value.includes('ride') || value.includes('cycl') || value.includes('bik')) return 'RIDE';
+    if (value === '10' || value.includes('walk') || value.includes('hik')) return 'WALK';
+    return null;
+};
+
+/** Guess the activity type from moving speed when the file doesn't say. */
+export const inferActivityType = (segments: GPSPoint[][]): ActivityType => {
+    const speed = ActivityService.calculateSegmentsAverageSpeed(segments);
+    if (speed < 2) return 'WALK';
+    if (speed < 5) return 'RUN';
+    return 'RIDE';
+};
+
+// ── GPX ────────────────────────────────────────────────────────────────────
+
+export const parseGPX = (xml: string): ParsedTrack => {
+    if (!/<gpx\b/.test(xml)) throw new Error('Not a GPX document');
+
+    const segments: GPSPoint[][] = [];
+    const trkptRe = /<trkpt\b([^>]*?)(?:\/>|>([\s\S]*?)<\/trkpt>)/g;
+
+    for (const trk of tagBlocks(xml, 'trk')) {
+        for (const seg of tagBlocks(trk, 'trkseg')) {
+            const points: GPSPoint[] = [];
+            for (const match of seg.matchAll(trkptRe)) {
+                const attrs = match[1];
+                const body = match[2] || '';
+                const lat = toNumber(attrValue(attrs, 'lat'));
+                const lng = toNumber(attrValue(attrs, 'lon'));
+                if (!isValidCoordinate(lat, lng)) continue;
+
+                points.push({
+                    lat: lat as number,
+                    lng: lng as number,
+                    timestamp: toTimestamp(tagText(body, 'time')),
+                    speed: toNumber(tagText(body, 'speed')),
+                    accuracy: null,
+                    altitude: toNumber(tagText(body, 'ele')),
+                });
+            }
+            if (points.length > 0) segments.push(points);
+        }
+    }
+
+    const trk = tagBlocks(xml, 'trk')[0] || '';
+    return {
+        format: 'gpx',
+        segments,
+        activityType: activityTypeFromLabel(tagText(trk, 'type')),
+        name: tagText(trk, 'name') || tagText(xml, 'name') || undefined,
+    };
+};
+
+// ── TCX ────────────────────────────────────────────────────────────────────
+
+export const parseTCX = (xml: string): ParsedTrack => {
+    if (!/<TrainingCenterDatabase\b/.test(xml)) throw new Error('Not a TCX document');
+
+    const segments: GPSPoint[][] = [];
+    for (const track of tagBlocks(xml, 'Track')) {
+        const points: GPSPoint[] = [];
+        for (const tp of tagBlocks(track, 'Trackpoint')) {
+            const position = tagText(tp, 'Position');
+            if (!position) continue; // time-only points (e.g. pauses on a watch)
+            const lat = toNumber(tagText(position, 'LatitudeDegrees'));
+            const lng = toNumber(tagText(position, 'LongitudeDegrees'));
+            if (!isValidCoordinate(lat, lng)) continue;
+
+            points.push({
+                lat: lat as number,
+                lng: lng as number,
+                timestamp: toTimestamp(tagText(tp, 'Time')),
+                speed: toNumber(tagText(tp, 'Speed')),
+                accuracy: null,
+                altitude: toNumber(tagText(tp, 'AltitudeMeters')),
+            });
+        }
+        if (points.length > 0) segments.push(points);
+    }
+
+    const sport = xml.match(/<Activity\b[^>]*\bSport\s*=\s*["']([^"']*)["']/);
+    return {
+        format: 'tcx',
+        segments,
+        activityType: activityTypeFromLabel(sport ? sport[1] : null),
+        name: tagText(xml, 'Notes') || undefined,
+    };
+};
+
+// ── FIT ────────────────────────────────────────────────────────────────────
+// Just enough of the FIT protocol to pull out record (GPS), event (timer
+// start/stop) and sport messages. Developer fields are skipped.
+
+const FIT_EPOCH_MS = Date.UTC(1989, 11, 31, 0, 0, 0);
+const SEMICIRCLES_TO_DEGREES = 180 / 2 ** 31;
+
+const FIT_MESG_SPORT = 12;
+const FIT_MESG_SESSION = 18;
+const FIT_MESG_RECORD = 20;
+const FIT_MESG_EVENT = 21;
+
+const FIT_FIELD_TIMESTAMP = 253;
+
+// FIT sport enum → our types
+const FIT_SPORT: Record<number, ActivityType> = {
+    1: 'RUN',
+    2: 'RIDE',
+    11: 'WALK',
+    17: 'WALK', // hiking
+};
+
+interface FitFieldDef { num: number; size: number; baseType: number }
+interface FitDefinition { globalNum: number; littleEndian: boolean; fields: FitFieldDef[]; devSize: number }
+
+const FIT_SIGNED_BASE_TYPES = new Set([0x01, 0x83, 0x85, 0x8E]);
+
+const readFitValue = (view: DataView, offset: number, field: FitFieldDef, littleEndian: boolean): number | null => {
+    const signed = FIT_SIGNED_BASE_TYPES.has(field.baseType);
+    let value: number;
+    switch (field.size) {
+        case 1:
+            value = signed ? view.getInt8(offset) : view.getUint8(offset);
+            if (value === (signed ? 0x7F : 0xFF)) return null;
+            return value;
+        case 2:
+            value = signed ? view.getInt16(offset, littleEndian) : view.getUint16(offset, littleEndian);
+            if (value === (signed ? 0x7FFF : 0xFFFF)) return null;
+            return value;
+        case 4:
+            value = signed ? view.getInt32(offset, littleEndian) : view.getUint32(offset, littleEndian);
+            if (value === (signed ? 0x7FFFFFFF : 0xFFFFFFFF)) return null;
+            return value;
+        default:
+            return null; // arrays, strings and 64-bit values aren't needed
+    }
+};
+
+export const parseFIT = (bytes: Uint8Array): ParsedTrack => {
+    if (bytes.length < 12) throw new Error('Not a FIT file');
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const headerSize = view.getUint8(0);
+    const dataSize = view.getUint32(4, true);
+    const signature = String.fromCharCode(bytes[8], bytes[9], bytes[10], bytes[11]);
+    if (signature !== '.FIT' || (headerSize !== 12 && headerSize !== 14)) {
+        throw new Error('Not a FIT file');
+    }
+    const end = Math.min(bytes.length, headerSize + dataSize);
+
+    const definitions: Record<number, FitDefinition> = {};
+    const segments: GPSPoint[][] = [];
+    let current: GPSPoint[] = [];
+    let lastTimestamp = 0; // FIT seconds, for compressed timestamp headers
+    let activityType: ActivityType | null = null;
+    let offset = headerSize;
+
+    const closeSegment = () => {
+        if (current.length > 0) segments.push(current);
+        current = [];
+    };
+
+    while (offset < end) {
+        const header = view.getUint8(offset++);
+
+        // Compressed timestamp header: data message with a 5-bit time offset
+        let compressedTimestamp: number | null = null;
+        let localType: number;
+        let isDefinition = false;
+        let hasDevFields = false;
+        if (header & 0x80) {
+            localType = (header >> 5) & 0x03;
+            const timeOffset = header & 0x1F;
+            let ts = (lastTimestamp & ~0x1F) + timeOffset;
+            if (timeOffset < (lastTimestamp & 0x1F)) ts += 0x20;
+            compressedTimestamp = ts;
+        } else {
+            localType = header & 0x0F;
+            isDefinition = (header & 0x40) !== 0;
+            hasDevFields = (header & 0x20) !== 0;
+        }
+
+        if (isDefinition) {
+            const littleEndian = view.getUint8(offset + 1) === 0;
+            const globalNum = view.getUint16(offset + 2, littleEndian);
+            const fieldCount = view.getUint8(offset + 4);
+            offset += 5;
+            const fields: FitFieldDef[] = [];
+            for (let i = 0; i < fieldCount; i++) {
+                fields.push({
+                    num: view.getUint8(offset),
+                    size: view.getUint8(offset + 1),
+                    baseType: view.getUint8(offset + 2),
+                });
+                offset += 3;
+            }
+            let devSize = 0;
+            if (hasDevFields) {
+                const devCount = view.getUint8(offset++);
+                for (let i = 0; i < devCount; i++) {
+                    devSize += view.getUint8(offset + 1);
+                    offset += 3;
+                }
+            }
+            definitions[localType] = { globalNum, littleEndian, fields, devSize };
+            continue;
+        }
+
+        const def = definitions[localType];
+        if (!def) throw new Error(`FIT data message without definition (local type ${localType})`);
+
+        const values: Record<number, number | null> = {};
+        for (const field of def.fields) {
+            values[field.num] = readFitValue(view, offset, field, def.littleEndian);
+            offset += field.size;
+        }
+        offset += def.devSize;
+
+        const timestamp = values[FIT_FIELD_TIMESTAMP] ?? compressedTimestamp;
+        if (typeof timestamp === 'number') lastTimestamp = timestamp;
+
+        if (def.globalNum === FIT_MESG_RECORD) {
+            const latSemi = values[0];
+            const lngSemi = values[1];
+            if (typeof latSemi !== 'number' || typeof lngSemi !== 'number') continue;
+            const lat = latSemi * SEMICIRCLES_TO_DEGREES;
+            const lng = lngSemi * SEMICIRCLES_TO_DEGREES;
+            if (!isValidCoordinate(lat, lng)) continue;
+
+            const altitudeRaw = values[78] ?? values[2]; // enhanced_altitude, altitude
+            const speedRaw = values[73] ?? values[6];    // enhanced_speed, speed
+            current.push({
+                lat,
+                lng,
+                timestamp: typeof timestamp === 'number' ? FIT_EPOCH_MS + timestamp * 1000 : 0,
+                speed: typeof speedRaw === 'number' ? speedRaw / 1000 : null,
+                accuracy: null,
+                altitude: typeof altitudeRaw === 'number' ? altitudeRaw / 5 - 500 : null,
+            });
+        } else if (def.globalNum === FIT_MESG_EVENT) {
+            // event 0 = timer; event_type 1 = stop, 4 = stop_all
+            if (values[0] === 0 && (values[1] === 1 || values[1] === 4)) closeSegment();
+        } else if (def.globalNum === FIT_MESG_SESSION || def.globalNum === FIT_MESG_SPORT) {
+            const sportField = def.globalNum === FIT_MESG_SESSION ? 5 : 0;
+            const sport = values[sportField];
+            if (typeof sport === 'number' && FIT_SPORT[sport]) activityType = FIT_SPORT[sport];
+        }
+    }
+    closeSegment();
+
+    return { format: 'fit', segments, activityType };
+};
+
+// ── Detection ──────────────────────────────────────────────────────────────
+
+export const detectFormat = (fileName: string, content: string | Uint8Array): ImportFormat | null => {
+    const ext = fileName.split('.').pop()?.toLowerCase();
+    if (ext === 'gpx' || ext === 'tcx' || ext === 'fit') return ext;
+
+    if (typeof content !== 'string') {
+        if (content.length >= 12 &&
+            String.fromCharCode(content[8], content[9], content[10], content[11]) === '.FIT') {
+            return 'fit';
+        }
+        return null;
+    }
+    if (/<gpx\b/.test(content)) return 'gpx';
+    if (/<TrainingCenterDatabase\b/.test(content)) return 'tcx';
+    return null;
+};
+
+const decodeText = (content: string | Uint8Array): string => {
+    if (typeof content === 'string') return content;
+    if (typeof TextDecoder !== 'undefined') return new TextDecoder('utf-8').decode(content);
+    // Coordinates and timestamps are ASCII, so a byte-wise decode is enough
+    let text = '';
+    for (let i = 0; i < content.length; i++) text += String.fromCharCode(content[i]);
+    return text;
+};
+
+// ── Validation ─────────────────────────────────────────────────────────────
+
+const distanceBetween = (a: GPSPoint, b: GPSPoint): number => {
+    try {
+        return getDistance(
+            { latitude: a.lat, longitude: a.lng },
+            { latitude: b.lat, longitude: b.lng }
+        );
+    } catch {
+        return 0;
+    }
+};
+
+/** Drop exact duplicate fixes (same time and place), which many exporters emit. */
+const dropDuplicatePoints = (segments: GPSPoint[][]): GPSPoint[][] =>
+    segments
+        .map(segment => segment.filter((p, i) => {
+            const prev = segment[i - 1];
+            return !prev || prev.timestamp !== p.timestamp || prev.lat !== p.lat || prev.lng !== p.lng;
+        }))
+        .filter(segment => segment.length > 0);
+
+/**
+ * Anti-cheat checks for an imported track. Timestamps must exist, strictly
+ * increase and not be in the future; speed is checked with
+ * GameEngine.validateSpeed against both the recorded speed and the speed
+ * implied by displacement over a ~10s window.
+ */
+export const validateTrack = (
+    segments: GPSPoint[][],
+    type: ActivityType,
+    now: number = Date.now()
+): TrackValidation => {
+    const points = ActivityService.flattenPolylines(segments);
+    if (points.length === 0) {
+        return { valid: false, reason: 'NO_POINTS', message: 'The file has no GPS points.' };
+    }
+
+    if (points.some(p => !(typeof p.timestamp === 'number' && isFinite(p.timestamp) && p.timestamp > 0))) {
+        return { valid: false, reason: 'MISSING_TIMESTAMPS', message: 'Every point needs a timestamp.' };
+    }
+
+    for (let i = 1; i < points.length; i++) {
+        if (points[i].timestamp <= points[i - 1].timestamp) {
+            return {
+                valid: false,
+                reason: 'TIMESTAMPS_OUT_OF_ORDER',
+                message: 'Point timestamps go backwards or repeat.',
+            };
+        }
+    }
+
+    if (points[points.length - 1].timestamp > now + MAX_CLOCK_SKEW_MS) {
+        return { valid: false, reason: 'FUTURE_TIMESTAMPS', message: 'The track ends in the future.' };
+    }
+
+    let violations = 0;
+    for (const segment of segments) {
+        let windowStart = 0;
+        for (let i = 0; i < segment.length; i++) {
+            const point = segment[i];
+            let failed = point.speed !== null && !GameEngine.validateSpeed(point, type).valid;
+
+            // Slide the window start to the latest point at least SPEED_WINDOW_MS back
+            while (windowStart + 1 < i && point.timestamp - segment[windowStart + 1].timestamp >= SPEED_WINDOW_MS) {
+                windowStart++;
+            }
+            const anchor = segment[windowStart];
+            const dt = (point.timestamp - anchor.timestamp) / 1000;
+            if (!failed && i > 0 && dt * 1000 >= SPEED_WINDOW_MS) {
+                const impliedSpeed = distanceBetween(anchor, point) / dt;
+                failed = !GameEngine.validateSpeed({ ...point, speed: impliedSpeed }, type).valid;
+            }
+            if (failed) violations++;
+        }
+    }
+
+    if (violations / points.length > MAX_SPEED_VIOLATION_RATIO) {
+        return {
+            valid: false,
+            reason: 'SPEED_VIOLATION',
+            message: `Too fast for a ${type.toLowerCase()} in ${violations} of ${points.length} points.`,
+        };
+    }
+
+    return { valid: true };
+};
+
+// ── Service ────────────────────────────────────────────────────────────────
+
+export const ImportService = {
+    /** Parse a GPX, TCX or FIT file into segments. Throws if it can't be read. */
+    parseFile(fileName: string, content: string | Uint8Array): ParsedTrack {
+        const format = detectFormat(fileName, content);
+        if (format === 'fit') {
+            if (typeof content === 'string') throw new Error('FIT files must be read as bytes');
+            return parseFIT(content);
+        }
+        if (format === 'gpx') return parseGPX(decodeText(content));
+        if (format === 'tcx') return parseTCX(decodeText(content));
+        throw new Error('Unsupported file format');
+    },
+
+    /** Max age (days) of an imported activity that may still claim territory. */
+    async getMaxImportAgeDays(): Promise<number> {
+        const now = Date.now();
+        if (cachedMaxAgeDays !== null && (now - maxAgeCacheTimestamp) < MAX_AGE_CACHE_TTL_MS) {
+            return cachedMaxAgeDays;
+        }
+
+        try {
+            const { data, error } = await supabase
+                .from('app_settings')
+                .select('value')
+                .eq('key', 'import_max_age_days')
+                .single();
+
+            if (error || !data) return cachedMaxAgeDays ?? DEFAULT_MAX_IMPORT_AGE_DAYS;
+
+            const days = Number(data.value);
+            cachedMaxAgeDays = isFinite(days) && days >= 0 ? days : DEFAULT_MAX_IMPORT_AGE_DAYS;
+            maxAgeCacheTimestamp = now;
+            return cachedMaxAgeDays;
+        } catch (err) {
+            console.error('Import max age fetch error:', err);
+            return cachedMaxAgeDays ?? DEFAULT_MAX_IMPORT_AGE_DAYS;
+        }
+    },
+
+    /**
+     * Import an activity file for a user. The track is validated first; a
+     * closed loop then claims territory exactly like a live recording, as long
+     * as the activity is newer than the max import age.
+     */
+    async importFile(
+        fileName: string,
+        content: string | Uint8Array,
+        userId: string,
+        options: ImportOptions = {}
+    ): Promise<ImportResult> {
+        if (!detectFormat(fileName, content)) {
+            return { success: false, reason: 'UNSUPPORTED_FORMAT', message: 'Only GPX, TCX and FIT files can be imported.' };
+        }
+
+        let parsed: ParsedTrack;
+        try {
+            parsed = this.parseFile(fileName, content);
+        } catch (err) {
+            console.error('Failed to parse import file:', err);
+            return { success: false, reason: 'PARSE_ERROR', message: 'The file could not be read.' };
+        }
+
+        const segments = dropDuplicatePoints(parsed.segments);
+        if (segments.length === 0) {
+            return { success: false, reason: 'NO_POINTS', message: 'The file has no GPS points.' };
+        }
+
+        const type = options.activityType || parsed.activityType || inferActivityType(segments);
+        const now = Date.now();
+        const validation = validateTrack(segments, type, now);
+        if (!validation.valid) {
+            return { success: false, reason: validation.reason, message: validation.message };
+        }
+
+        const lastSegment = segments[segments.length - 1];
+        const startTime = segments[0][0].timestamp;
+        const endTime = lastSegment[lastSegment.length - 1].timestamp;
+
+        // Re-importing the same run (or one overlapping a recorded activity)
+        // would let the same ground be claimed twice.
+        try {
+            const existing = await ActivityService.getUserActivities(userId);
+            const overlaps = existing.some(a => {
+                const aEnd = a.endTime ?? a.startTime + (a.elapsedTime ?? a.duration) * 1000;
+                return a.startTime < endTime && aEnd > startTime;
+            });
+            if (overlaps) {
+                return {
+                    success: false,
+                    reason: 'OVERLAPS_EXISTING',
+                    message: 'You already have an activity at this time.',
+                };
+            }
+        } catch (err) {
+            console.error('Failed to check for overlapping activities:', err);
+        }
+
+        const activityId = uuidv4();
+        const distance = ActivityService.calculateSegmentsDistance(segments);
+        const elapsedTime = Math.round((endTime - startTime) / 1000);
+        const duration = Math.round(ActivityService.calculateMovingDuration(segments));
+
+        let profile: UserProfile | null = null;
+        try {
+            profile = await AuthService.getCurrentProfile();
+        } catch { /* proceed without ownerName and with the default visibility */ }
+
+        const activity: Activity = {
+            id: activityId,
+            userId,
+            type,
+            startTime,
+            endTime,
+            distance,
+            duration,
+            elapsedTime,
+            pausedDuration: Math.max(0, elapsedTime - duration),
+            polylines: segments,
+            isSynced: false,
+            averageSpeed: ActivityService.calculateSegmentsAverageSpeed(segments),
+            splits: ActivityService.calculateSplits(segments, 'km'),
+            splitUnit: 'km',
+            ...ActivityService.elevationFields(segments),
+            suspicion: analyzeTrack(segments, type),
+            visibility: profile?.defaultActivityVisibility ?? DEFAULT_ACTIVITY_VISIBILITY,
+        };
+
+        if (!ActivityService.isValidActivity(activity)) {
+            return { success: false, reason: 'INVALID_ACTIVITY', message: 'The activity is too short to import.' };
+        }
+
+        let territory: Territory | null = null;
+        let conqueredArea = 0;
+        let territorySkipped: ImportResult['territorySkipped'];
+        let claimViolation: ClaimRuleViolation | undefined;
+        let claimable: Territory | null = null;
+
+        const { isClosed } = GameEngine.checkLoopClosure(segments);
+        if (isClosed && GameEngine.calculateArea(segments) > 0) {
+            const maxAgeDays = options.maxImportAgeDays ?? await this.getMaxImportAgeDays();
+            if (now - endTime > maxAgeDays * 24 * 60 * 60 * 1000) {
+                territorySkipped = 'TOO_OLD';
+            } else {
+                const processed = GameEngine.processTerritory(segments, userId, activityId);
+                if (processed) {
+                    claimViolation = GameEngine.checkClaimRules(
+                        processed, segments, type, await TerritoryService.getClaimRules()
+                    ) ?? undefined;
+                }
+                if (claimViolation) {
+                    territorySkipped = 'CLAIM_RULES';
+                } else {
+                    claimable = processed;
+                }
+            }
+        }
+
+        // The server claims from the uploaded track, so a claim waits for the upload
+        const saved = await ActivityService.saveActivity(activity, { awaitSync: !!claimable });
+        if (!saved) {
+            return { success: false, reason: 'INVALID_ACTIVITY', message: 'The activity is too short to import.' };
+        }
+
+        if (claimable) {
+            let username: string | undefined;
+            if (profile?.username) {
+                claimable.ownerName = profile.username;
+                username = profile.username;
+            }
+
+            let allTerritories: Territory[] = [];
+            try {
+                allTerritories = await TerritoryService.getAllTerritories();
+            } catch (err) {
+                console.error('Failed to fetch territories for overlap check:', err);
+            }
+
+            const conquerResult = await TerritoryService.saveTerritoryWithConquering(
+                claimable, allTerritories, segments, username, activity.suspicion
+            );
+            if (conquerResult.claimViolation) {
+                territorySkipped = 'CLAIM_RULES';
+                claimViolation = conquerResult.claimViolation;
+            } else if (conquerResult.rejectedReason) {
+                const reason = conquerResult.rejectedReason;
+                territorySkipped = reason === 'UNDER_REVIEW' || reason === 'PRIVACY_ZONE' ||
+                    reason === 'TOO_OLD' || reason === 'CLAIM_FAILED' ? reason : 'REJECTED';
+            } else {
+                territory = conquerResult.newTerritory;
+                conqueredArea = conquerResult.totalConqueredArea;
+                saved.territoryId = territory.id;
+            }
+        }
+
+        return { success: true, activity: saved, territory, conqueredArea, territorySkipped, claimViolation };
+    },
+};
@@ -0,0 +1,202 @@
+import { AppState, Platform } from 'react-native';
+import * as Notifications from 'expo-notifications';
+import { supabase } from '../lib/supabase';
+import { TerritoryInvasion } from '../lib/types';
+import { TerritoryService } from './TerritoryService';
+import { InvasionDigestBatch, buildInvasionDigest, cancelDigest, queueInvasion } from '../utils/invasionDigest';
+
+const CHANNEL_ID = 'invasions';
+// Every digest reuses this id, so a later one replaces the one still waiting
+const DIGEST_NOTIFICATION_ID = 'invasion-digest';
+
+export interface InvasionAlertFocus {
+    focusTerritoryLat: number;
+    focusTerritoryLng: number;
+}
+
+/** What the server puts in a digest push for the app to open on. */
+interface InvasionDigestData {
+    type: 'invasion_digest';
+    focusTerritoryLat: number;
+    focusTerritoryLng: number;
+}
+
+let batch: InvasionDigestBatch | null = null;
+let permissionGranted: boolean | null = null;
+// Set once this device can get digests pushed from the server
+let pushToken: string | null = null;
+
+/**
+ * Where the lost ground is. Invasions from before the server recorded it
+ * fall back to what's left of the territory that was hit.
+ */
+const findLostArea = async (invasion: TerritoryInvasion): Promise<InvasionAlertFocus | null> => {
+    if (invasion.lostCenter) {
+        return { focusTerritoryLat: invasion.lostCenter.lat, focusTerritoryLng: invasion.lostCenter.lng };
+    }
+    if (!invasion.invadedTerritoryId) return null;
+    const territory = await TerritoryService.getTerritoryById(invasion.invadedTerritoryId);
+    return territory ? { focusTerritoryLat: territory.center.lat, focusTerritoryLng: territory.center.lng } : null;
+};
+
+/** Register this device's Expo push token for the signed-in user. */
+const registerPushToken = async (): Promise<void> => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) return;
+
+    const { data: token } = await Notifications.getExpoPushTokenAsync();
+    const { error } = await supabase.rpc('register_push_token', { p_token: token, p_platform: Platform.OS });
+    if (error) throw error;
+    pushToken = token;
+};
+
+const toFocus = (response: Notifications.NotificationResponse | null): InvasionAlertFocus | null => {
+    const data: Partial<InvasionDigestData> | undefined = response?.notification.request.content.data;
+    if (data?.type !== 'invasion_digest') return null;
+    const { focusTerritoryLat, focusTerritoryLng } = data;
+    if (typeof focusTerritoryLat !== 'number' || typeof focusTerritoryLng !== 'number') return null;
+    return { focusTerritoryLat, focusTerritoryLng };
+};
+
+export const InvasionAlertService = {
+    /**
+     * Ask for permission to notify, set up the Android channel and register
+     * this device for the digests the server pushes.
+     */
+    async prepare(): Promise<boolean> {
+        if (Platform.OS === 'web') return false;
+        if (permissionGranted !== null) return permissionGranted;
+
+        try {
+            if (Platform.OS === 'android') {
+                await Notifications.setNotificationChannelAsync(CHANNEL_ID, {
+                    name: 'Territory invasions',
+                    importance: Notifications.AndroidImportance.HIGH,
+                });
+            }
+
+            let { status, canAskAgain } = await Notifications.getPermissionsAsync();
+            if (status !== 'granted' && canAskAgain) {
+                ({ status } = await Notifications.requestPermissionsAsync());
+            }
+            permissionGranted = status === 'granted';
+        } catch (err) {
+            console.error('Failed to set up invasion alerts:', err);
+            permissionGranted = false;
+        }
+
+        if (permissionGranted) {
+            try {
+                await registerPushToken();
+            } catch (err) {
+                // Alerts still go out locally while the app is running
+                console.error('Failed to register for invasion pushes:', err);
+            }
+        }
+        return permissionGranted;
+    },
+
+    /** Stop pushing alerts for the signed-in user to this device, before signing out. */
+    async unregister(): Promise<void> {
+        if (!pushToken) return;
+        const token = pushToken;
+        pushToken = null;
+        permissionGranted = null;
+        try {
+            const { error } = await supabase.from('push_tokens').delete().eq('token', token);
+            if (error) throw error;
+        } catch (err) {
+            console.error('Failed to unregister invasion pushes:', err);
+        }
+    },
+
+    /**
+     * Notify about an invasion that landed while the app is in the
+     * background. Returns false when the app is open and the caller should
+     * show it instead. A registered device leaves the alert to the server;
+     * otherwise it's scheduled here. Either way invasions landing close
+     * together go out as one digest, and digests are rate limited.
+     */
+    async notify(invasion: TerritoryInvasion): Promise<boolean> {
+        if (AppState.currentState === 'active') {
+            await this.cancelPending();
+            return false;
+        }
+        if (!(await this.prepare())) return true;
+        if (pushToken) return true;
+
+        batch = queueInvasion(batch, invasion, Date.now());
+        const { invasions, sendAt } = batch;
+        const digest = buildInvasionDigest(invasions);
+        if (!digest) return true;
+
+        try {
+            const focus = await findLostArea(digest.focus);
+            // Another invasion may have started a newer digest meanwhile
+            if (batch?.sendAt !== sendAt || batch.invasions.length !== invasions.length) return true;
+
+            await Notifications.scheduleNotificationAsync({
+                identifier: DIGEST_NOTIFICATION_ID,
+                content: {
+                    title: digest.title,
+                    body: digest.body,
+                    data: { type: 'invasion_digest', invasionIds: invasions.map(i => i.id), ...focus },
+                },
+                trigger: {
+                    type: Notifications.SchedulableTriggerInputTypes.DATE,
+                    date: sendAt,
+                    channelId: CHANNEL_ID,
+                },
+            });
+        } catch (err) {
+            console.error('Failed to schedule invasion alert:', err);
+        }
+        return true;
+    },
+
+    /**
+     * Drop a digest that hasn't gone out yet, for when the app is in the
+     * foreground and shows the invasions itself. The last digest sent still
+     * holds back the next one.
+     */
+    async cancelPending(): Promise<void> {
+        if (pushToken) {
+            try {
+                const { error } = await supabase.rpc('skip_pending_invasion_push');
+                if (error) throw error;
+            } catch (err) {
+                console.error('Failed to skip pending invasion push:', err);
+            }
+        }
+
+        if (!batch || Date.now() >= batch.sendAt) return;
+        batch = cancelDigest(batch);
+        try {
+            await Notifications.cancelScheduledNotificationAsync(DIGEST_NOTIFICATION_ID);
+        } catch (err) {
+            console.error('Failed to cancel invasion alert:', err);
+        }
+    },
+
+    /**
+     * Call the handler with the lost area whenever an invasion alert is
+     * tapped, including the one that launched the app. Returns a function
+     * that stops listening.
+     */
+    onAlertOpened(handler: (focus: InvasionAlertFocus) => void): () => void {
+        if (Platform.OS === 'web') return () => {};
+
+        const open = (response: Notifications.NotificationResponse | null) => {
+            const focus = toFocus(response);
+            if (!focus) return;
+            Notifications.clearLastNotificationResponse();
+            handler(focus);
+        };
+
+        Notifications.getLastNotificationResponseAsync()
+            .then(open)
+            .catch(err => console.error('Failed to read launch notification:', err));
+        const subscription = Notifications.addNotificationResponseReceivedListener(open);
+        return () => subscription.remove();
+    },
+};
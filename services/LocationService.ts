@@ -1,11 +1,22 @@
 import * as Location from 'expo-location';
 import * as TaskManager from 'expo-task-manager';
 import { Platform } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
 import { GPSPoint } from '../lib/types';
+import { SamplingConfig, sameSampling } from '../utils/trackingProfiles';
 
 type LocationCallback = (point: GPSPoint) => void;
 type ErrorCallback = (err: Error) => void;
 
+/**
+ * Where fixes come from when not from the device GPS, e.g. a replayed trace.
+ * Delivers through the same callbacks so everything downstream is unchanged.
+ */
+export interface LocationSource {
+    start(onLocation: LocationCallback, onError: ErrorCallback): void | Promise<void>;
+    stop(): void;
+}
+
 interface TrackedCallback {
     onLocation: LocationCallback;
     onError?: ErrorCallback;
@@ -13,6 +24,41 @@ interface TrackedCallback {
 
 const BACKGROUND_LOCATION_TASK = 'conqr-background-location';
 
+// Points delivered to the background task are also appended here, so they
+// survive a suspended or restarted JS context until TrackingStore replays them.
+const BACKGROUND_BUFFER_KEY = 'conqr_background_points';
+const MAX_BUFFERED_POINTS = 10000; // ~8h at the background update interval
+
+// Used when nobody has asked for anything else, e.g. the map following the
+// user outside a recording
+const DEFAULT_SAMPLING: SamplingConfig = {
+    accuracy: Location.Accuracy.BestForNavigation,
+    timeInterval: 800,
+    distanceInterval: 1,
+};
+// The background task never samples faster than this
+const MIN_BACKGROUND_INTERVAL_MS = 3000;
+const MIN_BACKGROUND_DISTANCE_M = 5;
+
+const toGPSPoint = (location: Location.LocationObject): GPSPoint | null => {
+    if (!location?.coords ||
+        typeof location.coords.latitude !== 'number' ||
+        typeof location.coords.longitude !== 'number' ||
+        isNaN(location.coords.latitude) || isNaN(location.coords.longitude)) {
+        return null;
+    }
+    const point: GPSPoint = {
+        lat: location.coords.latitude,
+        lng: location.coords.longitude,
+        timestamp: location.timestamp || Date.now(),
+        speed: location.coords.speed ?? null,
+        accuracy: location.coords.accuracy ?? null,
+        altitude: location.coords.altitude ?? null,
+    };
+    if (location.mocked) point.mocked = true;
+    return point;
+};
+
 // Register the background task at module level (required by expo-task-manager)
 TaskManager.defineTask(BACKGROUND_LOCATION_TASK, async ({ data, error }: any) => {
     if (error) {
@@ -20,30 +66,24 @@ TaskManager.defineTask(BACKGROUND_LOCATION_TASK, async ({ data, error }: any) =>
         return;
     }
     if (data?.locations) {
+        const points: GPSPoint[] = [];
         for (const location of data.locations) {
             try {
-                if (!location?.coords ||
-                    typeof location.coords.latitude !== 'number' ||
-                    typeof location.coords.longitude !== 'number' ||
-                    isNaN(location.coords.latitude) || isNaN(location.coords.longitude)) {
-                    continue;
-                }
-
-                const point: GPSPoint = {
-                    lat: location.coords.latitude,
-                    lng: location.coords.longitude,
-                    timestamp: location.timestamp || Date.now(),
-                    speed: location.coords.speed ?? null,
-                    accuracy: location.coords.accuracy ?? null,
-                    altitude: location.coords.altitude ?? null,
-                };
-
-                LocationService.lastKnownLocation = point;
-                LocationService.notifyListeners(point);
+                const point = toGPSPoint(location);
+                if (point) points.push(point);
             } catch (err) {
                 console.error('[BackgroundLocation] Error processing point:', err);
             }
         }
+
+        // Persist before delivering — if this context dies mid-delivery the
+        // points are still waiting for the next replay.
+        await LocationService.bufferBackgroundPoints(points);
+
+        for (const point of points) {
+            LocationService.lastKnownLocation = point;
+            LocationService.notifyListeners(point);
+        }
     }
 });
 
@@ -55,6 +95,45 @@ export const LocationService = {
     startPromise: null as Promise<void> | null,
     backgroundStarted: false,
     lastNotifiedTimestamp: 0,
+    bufferQueue: Promise.resolve() as Promise<unknown>,
+    source: null as LocationSource | null,
+    sampling: DEFAULT_SAMPLING as SamplingConfig,
+    samplingQueue: Promise.resolve() as Promise<unknown>,
+
+    /**
+     * Replace the device GPS with another source, or pass null to go back to
+     * it. Takes effect the next time tracking starts.
+     */
+    setSource(source: LocationSource | null) {
+        if (this.subscription) {
+            console.warn('Location source changed while tracking; it applies from the next start');
+        }
+        this.source = source;
+    },
+
+    /**
+     * Change how often and how precisely the device GPS is sampled, or pass
+     * null to go back to the default. A running foreground watch is restarted
+     * with the new options; the background task picks them up on its next start.
+     */
+    setSampling(config: SamplingConfig | null): Promise<void> {
+        const next = config ?? DEFAULT_SAMPLING;
+        const run = this.samplingQueue.then(async () => {
+            if (sameSampling(this.sampling, next)) return;
+            this.sampling = next;
+            // Nothing to restart for a replay source or while a start is in flight
+            if (!this.subscription || this.source || this.isStarting) return;
+            try {
+                const previous = this.subscription;
+                this.subscription = await this.watchForeground();
+                previous.remove();
+            } catch (err) {
+                console.error('Failed to apply location sampling:', err);
+            }
+        });
+        this.samplingQueue = run.catch(() => {});
+        return run;
+    },
 
     async startTracking(onLocation: LocationCallback, onError?: ErrorCallback): Promise<() => void> {
         const callbackEntry: TrackedCallback = { onLocation, onError };
@@ -101,6 +180,11 @@ export const LocationService = {
     },
 
     async initializeTracking(onError?: ErrorCallback): Promise<void> {
+        if (this.source) {
+            await this.startSource(this.source);
+            return;
+        }
+
         try {
             const { status } = await Location.requestForegroundPermissionsAsync();
             if (status !== 'granted') {
@@ -109,39 +193,8 @@ export const LocationService = {
                 return;
             }
 
-            // Foreground subscription — high frequency while app is active
-            this.subscription = await Location.watchPositionAsync(
-                {
-                    accuracy: Location.Accuracy.BestForNavigation,
-                    timeInterval: 800,
-                    distanceInterval: 1,
-                },
-                (location) => {
-                    try {
-                        if (!location?.coords ||
-                            typeof location.coords.latitude !== 'number' ||
-                            typeof location.coords.longitude !== 'number' ||
-                            isNaN(location.coords.latitude) || isNaN(location.coords.longitude)) {
-                            console.warn('Invalid location data received:', location);
-                            return;
-                        }
-
-                        const point: GPSPoint = {
-                            lat: location.coords.latitude,
-                            lng: location.coords.longitude,
-                            timestamp: location.timestamp || Date.now(),
-                            speed: location.coords.speed ?? null,
-                            accuracy: location.coords.accuracy ?? null,
-                            altitude: location.coords.altitude ?? null
-                        };
-
-                        this.lastKnownLocation = point;
-                        this.notifyListeners(point);
-                    } catch (err) {
-                        console.error('Error processing location:', err);
-                    }
-                }
-            );
+            // Foreground subscription — sampled as configured while app is active
+            this.subscription = await this.watchForeground();
 
             // Background location — keeps tracking when app is backgrounded
             await this.startBackgroundTracking();
@@ -151,6 +204,44 @@ export const LocationService = {
         }
     },
 
+    /** Watch the device GPS in the foreground with the current sampling. */
+    watchForeground(): Promise<Location.LocationSubscription> {
+        const { accuracy, timeInterval, distanceInterval } = this.sampling;
+        return Location.watchPositionAsync(
+            { accuracy, timeInterval, distanceInterval },
+            (location) => {
+                try {
+                    const point = toGPSPoint(location);
+                    if (!point) {
+                        console.warn('Invalid location data received:', location);
+                        return;
+                    }
+                    this.lastKnownLocation = point;
+                    this.notifyListeners(point);
+                } catch (err) {
+                    console.error('Error processing location:', err);
+                }
+            }
+        );
+    },
+
+    /** Start a non-GPS source. No permissions and no background task needed. */
+    async startSource(source: LocationSource): Promise<void> {
+        try {
+            await source.start(
+                (point) => {
+                    this.lastKnownLocation = point;
+                    this.notifyListeners(point);
+                },
+                (err) => this.notifyError(err)
+            );
+            this.subscription = { remove: () => source.stop() } as Location.LocationSubscription;
+        } catch (err: any) {
+            console.error('Failed to start location source:', err);
+            this.notifyError(err);
+        }
+    },
+
     async startBackgroundTracking(): Promise<void> {
         try {
             // Request background permission (required on iOS; Android uses foreground service)
@@ -168,9 +259,9 @@ export const LocationService = {
             }
 
             await Location.startLocationUpdatesAsync(BACKGROUND_LOCATION_TASK, {
-                accuracy: Location.Accuracy.High,
-                timeInterval: 3000,
-                distanceInterval: 5,
+                accuracy: this.sampling.accuracy,
+                timeInterval: Math.max(MIN_BACKGROUND_INTERVAL_MS, this.sampling.timeInterval),
+                distanceInterval: Math.max(MIN_BACKGROUND_DISTANCE_M, this.sampling.distanceInterval),
                 foregroundService: {
                     notificationTitle: 'Conqr is tracking your activity',
                     notificationBody: 'Recording your route in the background',
@@ -201,6 +292,67 @@ export const LocationService = {
         }
     },
 
+    /** Serialize buffer reads/writes so an append never races a drain. */
+    withBufferLock<T>(task: () => Promise<T>): Promise<T> {
+        const run = this.bufferQueue.then(task, task);
+        this.bufferQueue = run.catch(() => {});
+        return run;
+    },
+
+    /**
+     * Append background task points to the durable buffer. Keeps only the
+     * newest MAX_BUFFERED_POINTS so a forgotten session can't grow unbounded.
+     */
+    async bufferBackgroundPoints(points: GPSPoint[]): Promise<void> {
+        if (points.length === 0) return;
+        try {
+            await this.withBufferLock(async () => {
+                const stored = await AsyncStorage.getItem(BACKGROUND_BUFFER_KEY);
+                const buffered: GPSPoint[] = stored ? JSON.parse(stored) : [];
+                buffered.push(...points);
+                const trimmed = buffered.length > MAX_BUFFERED_POINTS
+                    ? buffered.slice(buffered.length - MAX_BUFFERED_POINTS)
+                    : buffered;
+                await AsyncStorage.setItem(BACKGROUND_BUFFER_KEY, JSON.stringify(trimmed));
+            });
+        } catch (err) {
+            console.error('[BackgroundLocation] Failed to buffer points:', err);
+        }
+    },
+
+    /**
+     * Take all buffered background points, sorted by timestamp, and clear the
+     * buffer. Returns an empty array if the buffer is missing or unreadable.
+     */
+    async drainBackgroundPoints(): Promise<GPSPoint[]> {
+        try {
+            return await this.withBufferLock(async () => {
+                const stored = await AsyncStorage.getItem(BACKGROUND_BUFFER_KEY);
+                if (!stored) return [];
+                await AsyncStorage.removeItem(BACKGROUND_BUFFER_KEY);
+                const buffered: GPSPoint[] = JSON.parse(stored);
+                if (!Array.isArray(buffered)) return [];
+                return buffered
+                    .filter(p => p && typeof p.timestamp === 'number' &&
+                        typeof p.lat === 'number' && typeof p.lng === 'number' &&
+                        !isNaN(p.lat) && !isNaN(p.lng))
+                    .sort((a, b) => a.timestamp - b.timestamp);
+            });
+        } catch (err) {
+            console.error('[BackgroundLocation] Failed to drain buffered points:', err);
+            return [];
+        }
+    },
+
+    /** Drop any buffered background points (e.g. left over from an old session). */
+    async clearBackgroundPoints(): Promise<void> {
+        try {
+            await this.withBufferLock(() => AsyncStorage.removeItem(BACKGROUND_BUFFER_KEY));
+        } catch (err) {
+            console.error('[BackgroundLocation] Failed to clear buffered points:', err);
+        }
+    },
+
     createUnsubscribe(callbackEntry: TrackedCallback): () => void {
         return () => {
             this.callbacks = this.callbacks.filter(cb => cb !== callbackEntry);
@@ -275,5 +427,21 @@ export const LocationService = {
      */
     getLastKnownLocation(): GPSPoint | null {
         return this.lastKnownLocation;
+    },
+
+    /**
+     * One accurate fix without starting tracking, e.g. to place a privacy
+     * zone. Null if permission is denied or no fix comes.
+     */
+    async getCurrentPosition(): Promise<GPSPoint | null> {
+        try {
+            const { status } = await Location.requestForegroundPermissionsAsync();
+            if (status !== 'granted') return null;
+            const location = await Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.High });
+            return toGPSPoint(location);
+        } catch (err) {
+            console.error('Failed to get current position:', err);
+            return null;
+        }
     }
 };
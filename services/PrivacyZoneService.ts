@@ -0,0 +1,115 @@
+import { supabase } from '../lib/supabase';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Activity, PrivacyZone, TerritoryPolygon } from '../lib/types';
+import { clipToPrivacyZones, polygonOverlapsPrivacyZone } from '../utils/privacyZones';
+
+// Kept on the device too, so routes shared offline are still clipped
+const ZONES_STORAGE_KEY = 'conqr_privacy_zones';
+
+let cachedZones: { userId: string; zones: PrivacyZone[] } | null = null;
+
+const mapZone = (row: any): PrivacyZone => ({
+    id: row.id,
+    userId: row.user_id,
+    name: row.name || undefined,
+    center: { lat: row.lat, lng: row.lng },
+    radius: row.radius,
+});
+
+const storeZones = async (userId: string, zones: PrivacyZone[]) => {
+    cachedZones = { userId, zones };
+    await AsyncStorage.setItem(`${ZONES_STORAGE_KEY}:${userId}`, JSON.stringify(zones)).catch(() => {});
+};
+
+export const PrivacyZoneService = {
+    /**
+     * The current user's zones, from the server when reachable and otherwise
+     * from the copy stored with the last successful fetch.
+     */
+    async getZones(): Promise<PrivacyZone[]> {
+        const { data: { session } } = await supabase.auth.getSession();
+        const userId = session?.user?.id;
+        if (!userId) return [];
+        if (cachedZones?.userId === userId) return cachedZones.zones;
+
+        try {
+            const { data, error } = await supabase
+                .from('privacy_zones')
+                .select('*')
+                .eq('user_id', userId)
+                .order('created_at', { ascending: true });
+            if (error) throw error;
+            const zones = (data || []).map(mapZone);
+            await storeZones(userId, zones);
+            return zones;
+        } catch (err) {
+            console.error('Failed to fetch privacy zones:', err);
+            try {
+                const stored = await AsyncStorage.getItem(`${ZONES_STORAGE_KEY}:${userId}`);
+                return stored ? JSON.parse(stored) : [];
+            } catch {
+                return [];
+            }
+        }
+    },
+
+    async addZone(center: { lat: number; lng: number }, radius: number, name?: string): Promise<PrivacyZone | null> {
+        try {
+            const { data: { session } } = await supabase.auth.getSession();
+            if (!session?.user) return null;
+            const userId = session.user.id;
+
+            const { data, error } = await supabase
+                .from('privacy_zones')
+                .insert({ user_id: userId, name: name || null, lat: center.lat, lng: center.lng, radius })
+                .select()
+                .single();
+            if (error) throw error;
+
+            const zone = mapZone(data);
+            const zones = await this.getZones();
+            await storeZones(userId, [...zones.filter(z => z.id !== zone.id), zone]);
+            return zone;
+        } catch (err) {
+            console.error('Failed to add privacy zone:', err);
+            return null;
+        }
+    },
+
+    async removeZone(zoneId: string): Promise<boolean> {
+        try {
+            const { data: { session } } = await supabase.auth.getSession();
+            if (!session?.user) return false;
+            const userId = session.user.id;
+
+            const { error } = await supabase
+                .from('privacy_zones')
+                .delete()
+                .eq('id', zoneId)
+                .eq('user_id', userId);
+            if (error) throw error;
+
+            const zones = await this.getZones();
+            await storeZones(userId, zones.filter(z => z.id !== zoneId));
+            return true;
+        } catch (err) {
+            console.error('Failed to remove privacy zone:', err);
+            return false;
+        }
+    },
+
+    /**
+     * The activity as anyone else may see it. Only the owner's own activities
+     * need clipping here: everyone else's come from the server already clipped.
+     */
+    async clipActivity(activity: Activity): Promise<Activity> {
+        const zones = (await this.getZones()).filter(z => z.userId === activity.userId);
+        if (zones.length === 0) return activity;
+        return { ...activity, polylines: clipToPrivacyZones(activity.polylines, zones) };
+    },
+
+    /** Whether a territory outline would reach into one of the current user's zones. */
+    async overlapsZone(polygon: TerritoryPolygon): Promise<boolean> {
+        return polygonOverlapsPrivacyZone(polygon, await this.getZones());
+    },
+};
@@ -0,0 +1,181 @@
+import { GPSPoint } from '../lib/types';
+import { LocationSource } from './LocationService';
+import { parseGPX } from './ImportService';
+import { REPLAY_TRACES, ReplayTraceName } from '../utils/replayTraces';
+
+/** A stretch of a trace, in ms from its first fix. */
+export interface ReplayWindow {
+    startMs: number;
+    endMs: number;
+}
+
+export interface ReplayOptions {
+    speed?: number; // playback multiplier, clamped to 1–50
+    noiseMeters?: number; // standard deviation of random position error per fix
+    accuracy?: number; // reported accuracy in meters for fixes that carry none
+    degraded?: ReplayWindow[]; // stretches where accuracy drops, e.g. under tree cover
+    degradedAccuracy?: number; // reported accuracy in degraded stretches; position noise grows to match
+    dropoutRate?: number; // 0–1 chance that any single fix is lost
+    dropouts?: ReplayWindow[]; // stretches with no fixes at all, e.g. a tunnel
+    seed?: number; // makes noise and dropouts repeatable
+    startAt?: number; // timestamp the first fix is rebased to; defaults to when playback starts
+    onComplete?: () => void;
+}
+
+export const MIN_REPLAY_SPEED = 1;
+export const MAX_REPLAY_SPEED = 50;
+const DEFAULT_ACCURACY_M = 5;
+const DEFAULT_DEGRADED_ACCURACY_M = 50;
+const METERS_PER_DEGREE_LAT = 111320;
+
+// Small seeded PRNG (mulberry32) so a replay with a seed is identical every run
+const createRandom = (seed: number) => {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+// Standard normal sample via Box–Muller
+const gaussian = (random: () => number): number => {
+    const u = Math.max(random(), Number.EPSILON);
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+};
+
+const inWindow = (offsetMs: number, windows: ReplayWindow[] | undefined): boolean =>
+    !!windows && windows.some(w => offsetMs >= w.startMs && offsetMs < w.endMs);
+
+/**
+ * Turn a clean trace into the fixes a replay delivers: timestamps rebased onto
+ * `startAt`, dropouts removed, and noise and accuracy applied. Fix spacing in
+ * time is kept as recorded at every playback speed, so pace and anti-cheat
+ * checks see the original speeds.
+ */
+export const prepareReplay = (trace: GPSPoint[], options: ReplayOptions = {}, startAt: number = 0): GPSPoint[] => {
+    if (trace.length === 0) return [];
+    const random = createRandom(options.seed ?? Date.now());
+    const firstTimestamp = trace[0].timestamp;
+    const baseAccuracy = options.accuracy ?? DEFAULT_ACCURACY_M;
+    const degradedAccuracy = options.degradedAccuracy ?? DEFAULT_DEGRADED_ACCURACY_M;
+    const baseNoise = options.noiseMeters ?? 0;
+    const result: GPSPoint[] = [];
+
+    for (const point of trace) {
+        const offsetMs = point.timestamp - firstTimestamp;
+        if (inWindow(offsetMs, options.dropouts)) continue;
+        if (options.dropoutRate && random() < options.dropoutRate) continue;
+
+        const degraded = inWindow(offsetMs, options.degraded);
+        const accuracy = degraded ? degradedAccuracy : (point.accuracy ?? baseAccuracy);
+        // Reported accuracy is roughly a 1.5σ radius
+        const noise = degraded ? Math.max(baseNoise, degradedAccuracy / 1.5) : baseNoise;
+
+        let { lat, lng } = point;
+        if (noise > 0) {
+            const metersPerDegreeLng = METERS_PER_DEGREE_LAT * Math.cos((lat * Math.PI) / 180);
+            lat += (gaussian(random) * noise) / METERS_PER_DEGREE_LAT;
+            lng += (gaussian(random) * noise) / metersPerDegreeLng;
+        }
+
+        result.push({ ...point, lat, lng, accuracy, timestamp: startAt + offsetMs });
+    }
+
+    return result;
+};
+
+/**
+ * Read a trace from a JSON array of GPS points (or `{ points }`) or a GPX
+ * document. Fixes without a usable timestamp are spaced one second apart.
+ */
+export const parseReplayTrace = (content: string): GPSPoint[] => {
+    let points: GPSPoint[];
+    if (/<gpx\b/.test(content)) {
+        points = parseGPX(content).segments.flat();
+    } else {
+        const parsed = JSON.parse(content);
+        points = Array.isArray(parsed) ? parsed : parsed?.points;
+        if (!Array.isArray(points)) throw new Error('Not a replay trace');
+    }
+
+    const valid = points.filter(p =>
+        p && typeof p.lat === 'number' && typeof p.lng === 'number' && !isNaN(p.lat) && !isNaN(p.lng));
+    const timed = valid.every((p, i) =>
+        typeof p.timestamp === 'number' && !isNaN(p.timestamp) && (i === 0 || p.timestamp > valid[i - 1].timestamp));
+
+    return valid.map((p, i) => ({
+        lat: p.lat,
+        lng: p.lng,
+        timestamp: timed ? p.timestamp : i * 1000,
+        speed: p.speed ?? null,
+        accuracy: p.accuracy ?? null,
+        altitude: p.altitude ?? null,
+    }));
+};
+
+/**
+ * A location source that plays a recorded trace back through the same
+ * callbacks as the device GPS, at `speed`× real time. Install it with
+ * LocationService.setSource before tracking starts.
+ */
+export const createReplayLocationSource = (trace: GPSPoint[], options: ReplayOptions = {}): LocationSource => {
+    const speed = Math.min(MAX_REPLAY_SPEED, Math.max(MIN_REPLAY_SPEED, options.speed ?? 1));
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const stop = () => {
+        if (timer) clearTimeout(timer);
+        timer = null;
+    };
+
+    return {
+        start(onLocation) {
+            stop();
+            const fixes = prepareReplay(trace, options, options.startAt ?? Date.now());
+            let index = 0;
+
+            const deliverNext = () => {
+                timer = null;
+                const fix = fixes[index++];
+                try {
+                    onLocation(fix);
+                } catch (err) {
+                    console.error('[Replay] Error delivering fix:', err);
+                }
+                if (index >= fixes.length) {
+                    options.onComplete?.();
+                    return;
+                }
+                timer = setTimeout(deliverNext, (fixes[index].timestamp - fix.timestamp) / speed);
+            };
+
+            if (fixes.length === 0) {
+                options.onComplete?.();
+                return;
+            }
+            timer = setTimeout(deliverNext, 0);
+        },
+        stop,
+    };
+};
+
+/**
+ * Replay source configured from the environment, for simulated runs in dev
+ * builds: EXPO_PUBLIC_REPLAY_TRACE names a built-in trace and
+ * EXPO_PUBLIC_REPLAY_SPEED sets the playback speed. Null when unset.
+ */
+export const replaySourceFromEnv = (): LocationSource | null => {
+    const name = process.env.EXPO_PUBLIC_REPLAY_TRACE as ReplayTraceName | undefined;
+    if (!name) return null;
+    const trace = REPLAY_TRACES[name];
+    if (!trace) {
+        console.warn(`[Replay] Unknown trace "${name}"; expected one of ${Object.keys(REPLAY_TRACES).join(', ')}`);
+        return null;
+    }
+    return createReplayLocationSource(trace(), {
+        speed: Number(process.env.EXPO_PUBLIC_REPLAY_SPEED) || 1,
+        noiseMeters: 2,
+    });
+};
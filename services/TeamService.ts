@@ -0,0 +1,214 @@
+import { supabase } from '../lib/supabase';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Team, TeamLeaderboardEntry, TeamMember, TeamRole } from '../lib/types';
+
+// Kept on the device too, so claims made offline still spare teammates
+const TEAM_STORAGE_KEY = 'conqr_team';
+const CACHE_TTL_MS = 60_000;
+
+export interface TeamMembership {
+    team: Team;
+    role: TeamRole;
+}
+
+let cachedMembership: { userId: string; membership: TeamMembership | null; fetchedAt: number } | null = null;
+
+const mapTeam = (row: any): Team => ({
+    id: row.id,
+    name: row.name,
+    color: row.color,
+    createdAt: row.created_at ? new Date(row.created_at).getTime() : Date.now(),
+});
+
+const mapMember = (row: any): TeamMember => ({
+    teamId: row.team_id,
+    userId: row.user_id,
+    username: row.users?.username || undefined,
+    avatarUrl: row.users?.avatar_url || undefined,
+    role: row.role,
+    joinedAt: row.joined_at ? new Date(row.joined_at).getTime() : Date.now(),
+});
+
+const storeMembership = async (userId: string, membership: TeamMembership | null) => {
+    cachedMembership = { userId, membership, fetchedAt: Date.now() };
+    await AsyncStorage.setItem(`${TEAM_STORAGE_KEY}:${userId}`, JSON.stringify(membership)).catch(() => {});
+};
+
+const forgetMembership = () => {
+    cachedMembership = null;
+};
+
+/** The team RPCs raise readable messages; turn the ones users can act on into errors to show. */
+const toTeamError = (error: any, fallback: string): Error => {
+    const msg: string = error?.message || '';
+    if (msg.includes('Already in a team')) return new Error('You are already in a team. Leave it first.');
+    if (msg.includes('already taken')) return new Error('That team name is already taken');
+    if (msg.includes('Team name must be')) return new Error('Team names must be 3 to 30 characters');
+    if (msg.includes('Invite code not found')) return new Error('No team has that invite code');
+    if (msg.includes('full')) return new Error('That team is full');
+    if (msg.includes('Unauthorized')) return new Error("You don't have permission to do that");
+    console.error(`${fallback}:`, error);
+    return new Error(`${fallback}. Please try again.`);
+};
+
+export const TeamService = {
+    /**
+     * The current user's team and role, or null when they aren't in one.
+     * Falls back to the copy stored with the last successful fetch.
+     */
+    async getMembership(): Promise<TeamMembership | null> {
+        const { data: { session } } = await supabase.auth.getSession();
+        const userId = session?.user?.id;
+        if (!userId) return null;
+        if (cachedMembership?.userId === userId && Date.now() - cachedMembership.fetchedAt < CACHE_TTL_MS) {
+            return cachedMembership.membership;
+        }
+
+        try {
+            const { data, error } = await supabase
+                .from('team_members')
+                .select('role, teams(*)')
+                .eq('user_id', userId)
+                .maybeSingle();
+            if (error) throw error;
+            const membership = data?.teams ? { team: mapTeam(data.teams), role: data.role as TeamRole } : null;
+            await storeMembership(userId, membership);
+            return membership;
+        } catch (err) {
+            console.error('Failed to fetch team membership:', err);
+            if (cachedMembership?.userId === userId) return cachedMembership.membership;
+            try {
+                const stored = await AsyncStorage.getItem(`${TEAM_STORAGE_KEY}:${userId}`);
+                return stored ? JSON.parse(stored) : null;
+            } catch {
+                return null;
+            }
+        }
+    },
+
+    async getTeam(teamId: string): Promise<Team | null> {
+        try {
+            const { data, error } = await supabase
+                .from('teams')
+                .select('*')
+                .eq('id', teamId)
+                .maybeSingle();
+            if (error) throw error;
+            return data ? mapTeam(data) : null;
+        } catch (err) {
+            console.error('Failed to fetch team:', err);
+            return null;
+        }
+    },
+
+    /** Members of a team, owner first, then admins, then by when they joined. */
+    async getMembers(teamId: string): Promise<TeamMember[]> {
+        try {
+            const { data, error } = await supabase
+                .from('team_members')
+                .select('*, users(username, avatar_url)')
+                .eq('team_id', teamId)
+                .order('joined_at', { ascending: true });
+            if (error) throw error;
+            const rank: Record<TeamRole, number> = { owner: 0, admin: 1, member: 2 };
+            return (data || [])
+                .map(mapMember)
+                .sort((a: TeamMember, b: TeamMember) => rank[a.role] - rank[b.role] || a.joinedAt - b.joinedAt);
+        } catch (err) {
+            console.error('Failed to fetch team members:', err);
+            return [];
+        }
+    },
+
+    /** The code others join with. Only readable by the team's own members. */
+    async getInviteCode(teamId: string): Promise<string | null> {
+        try {
+            const { data, error } = await supabase
+                .from('team_invites')
+                .select('code')
+                .eq('team_id', teamId)
+                .maybeSingle();
+            if (error) throw error;
+            return data?.code || null;
+        } catch (err) {
+            console.error('Failed to fetch team invite code:', err);
+            return null;
+        }
+    },
+
+    /** Create a team led by the current user. Throws with a message to show. */
+    async createTeam(name: string, color: string): Promise<Team> {
+        const { data: teamId, error } = await supabase.rpc('create_team', {
+            p_name: name.trim(),
+            p_color: color,
+        });
+        if (error) throw toTeamError(error, 'Failed to create team');
+        forgetMembership();
+
+        const team = await this.getTeam(teamId);
+        return team || { id: teamId, name: name.trim(), color: color.toUpperCase(), createdAt: Date.now() };
+    },
+
+    /** Join a team by invite code. Throws with a message to show. */
+    async joinTeam(code: string): Promise<Team> {
+        const { data: teamId, error } = await supabase.rpc('join_team', { p_code: code.trim() });
+        if (error) throw toTeamError(error, 'Failed to join team');
+        forgetMembership();
+
+        const team = await this.getTeam(teamId);
+        if (!team) throw new Error('Joined, but the team could not be loaded');
+        return team;
+    },
+
+    /**
+     * Leave the current team. An owner hands it to the longest-serving admin
+     * or member; the last one out deletes it.
+     */
+    async leaveTeam(): Promise<void> {
+        const { error } = await supabase.rpc('leave_team');
+        if (error) throw toTeamError(error, 'Failed to leave team');
+        forgetMembership();
+    },
+
+    /** Change a teammate's role (owner only). Making them owner hands the team over. */
+    async setMemberRole(userId: string, role: TeamRole): Promise<void> {
+        const { error } = await supabase.rpc('set_team_member_role', {
+            p_user_id: userId,
+            p_role: role,
+        });
+        if (error) throw toTeamError(error, 'Failed to change role');
+        if (role === 'owner') forgetMembership();
+    },
+
+    async removeMember(userId: string): Promise<void> {
+        const { error } = await supabase.rpc('remove_team_member', { p_user_id: userId });
+        if (error) throw toTeamError(error, 'Failed to remove member');
+    },
+
+    /** Teams ranked by the decay-weighted area their members hold. */
+    async getLeaderboard(since: string | null = null, limit: number = 100): Promise<TeamLeaderboardEntry[]> {
+        try {
+            const { data, error } = await supabase.rpc('get_team_leaderboard', {
+                p_since: since,
+                p_limit: limit,
+            });
+
+            if (error) {
+                console.error('Team leaderboard RPC failed:', error);
+                return [];
+            }
+
+            return (data || []).map((row: any) => ({
+                teamId: row.team_id,
+                name: row.name || 'Unknown team',
+                color: row.color,
+                memberCount: typeof row.member_count === 'number' ? row.member_count : 0,
+                totalArea: typeof row.total_area === 'number' ? row.total_area : 0,
+                territoryCount: typeof row.territory_count === 'number' ? row.territory_count : 0,
+            }));
+        } catch (err) {
+            console.error('Team leaderboard RPC error:', err);
+            return [];
+        }
+    },
+};
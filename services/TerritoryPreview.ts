@@ -0,0 +1,150 @@
+import { GPSPoint, Territory, TerritoryPreview } from '../lib/types';
+import { GameEngine } from './GameEngine';
+import { getDistance } from 'geolib';
+import { bbox, polygon } from '@turf/turf';
+import { outerRings } from '../utils/territoryGeometry';
+import { isSameTeam } from '../utils/teams';
+
+type BBox = [number, number, number, number]; // minLng, minLat, maxLng, maxLat
+
+export interface TerritoryPreviewOptions {
+    ownerId: string;
+    teamId?: string; // teammates' territories aren't invaded, so they're left out of the forecast
+    intervalMs?: number; // least time between polygon recomputes
+    forecastIntervalMs?: number; // least time between overlap forecasts, which cost more
+    maxVertices?: number; // the simplified track is thinned past this
+}
+
+const DEFAULT_INTERVAL_MS = 2000;
+const DEFAULT_FORECAST_INTERVAL_MS = 6000;
+const DEFAULT_MAX_VERTICES = 300;
+// A new vertex needs to be this far from the last kept one. Doubles every time
+// the track is thinned, so the vertex count stays bounded on long activities.
+const INITIAL_SPACING_M = 8;
+
+const bboxesOverlap = (a: BBox, b: BBox): boolean =>
+    a[0] <= b[2] && b[0] <= a[2] && a[1] <= b[3] && b[1] <= a[3];
+
+const territoryBBox = (territory: Territory): BBox | null => {
+    const rings = outerRings(territory.polygon);
+    if (rings.length === 0) return null;
+    const box: BBox = [Infinity, Infinity, -Infinity, -Infinity];
+    for (const ring of rings) {
+        for (const [lng, lat] of ring) {
+            box[0] = Math.min(box[0], lng);
+            box[1] = Math.min(box[1], lat);
+            box[2] = Math.max(box[2], lng);
+            box[3] = Math.max(box[3], lat);
+        }
+    }
+    return box;
+};
+
+/**
+ * Live claim preview for a recording in progress. Feed it the growing path
+ * on every tick; it only looks at points it hasn't seen, keeps a thinned copy
+ * of the track, and recomputes the polygon and the conquest forecast on a
+ * throttle, so a long activity costs the same per tick as a short one.
+ */
+export const createTerritoryPreview = (options: TerritoryPreviewOptions) => {
+    const intervalMs = options.intervalMs ?? DEFAULT_INTERVAL_MS;
+    const forecastIntervalMs = options.forecastIntervalMs ?? DEFAULT_FORECAST_INTERVAL_MS;
+    const maxVertices = options.maxVertices ?? DEFAULT_MAX_VERTICES;
+
+    let vertices: GPSPoint[] = [];
+    let spacing = INITIAL_SPACING_M;
+    let seen = 0; // points of the path already folded into `vertices`
+    let dirty = false;
+    let lastComputedAt = -Infinity;
+    let lastForecastAt = -Infinity;
+    let forecastStale = false;
+    let candidates: { territory: Territory; box: BBox }[] = [];
+    let current: TerritoryPreview | null = null;
+
+    const addPoint = (point: GPSPoint) => {
+        if (!point || isNaN(point.lat) || isNaN(point.lng)) return;
+        const last = vertices[vertices.length - 1];
+        if (last) {
+            const d = getDistance(
+                { latitude: last.lat, longitude: last.lng },
+                { latitude: point.lat, longitude: point.lng }
+            );
+            if (d < spacing) return;
+        }
+        vertices.push(point);
+        dirty = true;
+
+        // Thin to every other vertex, keeping the start, and widen the spacing
+        if (vertices.length > maxVertices) {
+            vertices = vertices.filter((_, i) => i % 2 === 0);
+            spacing *= 2;
+        }
+    };
+
+    const withForecast = (preview: TerritoryPreview): TerritoryPreview => {
+        const box = bbox(polygon([preview.polygon])) as BBox;
+        const nearby = candidates.filter(c => bboxesOverlap(c.box, box)).map(c => c.territory);
+        const forecast = nearby.length > 0
+            ? GameEngine.forecastConquest(preview.polygon, options.ownerId, nearby, options.teamId)
+            : [];
+        return { ...preview, forecast, forecastArea: forecast.reduce((sum, f) => sum + f.overlapArea, 0) };
+    };
+
+    return {
+        /** Territories the forecast is checked against. Other owners' only matter, not teammates'. */
+        setTerritories(territories: Territory[]) {
+            candidates = territories
+                .filter(t => t && t.ownerId !== options.ownerId && !isSameTeam(t, options))
+                .map(territory => ({ territory, box: territoryBBox(territory) }))
+                .filter((c): c is { territory: Territory; box: BBox } => c.box !== null);
+            forecastStale = true;
+            lastForecastAt = -Infinity;
+        },
+
+        /**
+         * Fold in new points from `path` and recompute if the throttle allows.
+         * Returns the latest preview, which may be from an earlier tick.
+         */
+        update(path: GPSPoint[], now: number = Date.now()): TerritoryPreview | null {
+            if (path.length < seen) this.reset();
+            for (let i = seen; i < path.length; i++) addPoint(path[i]);
+            seen = path.length;
+
+            if (dirty && now - lastComputedAt >= intervalMs) {
+                lastComputedAt = now;
+                dirty = false;
+                const shape = GameEngine.previewTerritory(vertices);
+                // Keep showing the last forecast until the next one is due
+                current = shape
+                    ? { ...shape, forecast: current?.forecast ?? [], forecastArea: current?.forecastArea ?? 0 }
+                    : null;
+                forecastStale = true;
+            }
+
+            if (current && forecastStale && now - lastForecastAt >= forecastIntervalMs) {
+                lastForecastAt = now;
+                forecastStale = false;
+                current = withForecast(current);
+            }
+            return current;
+        },
+
+        get current() { return current; },
+
+        /** Number of vertices the preview is built from. */
+        get vertexCount() { return vertices.length; },
+
+        reset() {
+            vertices = [];
+            spacing = INITIAL_SPACING_M;
+            seen = 0;
+            dirty = false;
+            lastComputedAt = -Infinity;
+            lastForecastAt = -Infinity;
+            forecastStale = false;
+            current = null;
+        },
+    };
+};
+
+export type TerritoryPreviewTracker = ReturnType<typeof createTerritoryPreview>;
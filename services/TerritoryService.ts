@@ -1,10 +1,20 @@
-import { Territory, TerritoryClaimEvent, TerritoryInvasion, ConquerResult } from '../lib/types';
+import {
+    Territory, TerritoryClaimEvent, TerritoryInvasion, TerritoryConquest, ConquerResult, TerritoryPolygon, GPSPoint,
+    ActivitySuspicion, TerritoryReview, TerritoryReviewStatus, ClaimRules,
+} from '../lib/types';
 import { supabase } from '../lib/supabase';
 import { db } from '../lib/db';
 import { GameEngine } from './GameEngine';
 import { AnalyticsService } from './AnalyticsService';
 import { EventModeService } from './EventModeService';
+import { PrivacyZoneService } from './PrivacyZoneService';
+import { TeamService } from './TeamService';
 import { retryWithBackoff } from '../lib/retry';
+import { DEFAULT_CLAIM_RULES, parseClaimRuleViolation, parseClaimRules } from '../utils/claimRules';
+
+const CLAIM_RULES_CACHE_TTL_MS = 5 * 60_000;
+let cachedClaimRules: ClaimRules | null = null;
+let claimRulesCacheTimestamp = 0;
 
 /**
  * Safely parse JSON data from cloud
@@ -23,6 +33,42 @@ const safeParseJson = <T>(data: any, fallback: T): T => {
     return fallback;
 };
 
+const toSegments = (track: GPSPoint[] | GPSPoint[][]): GPSPoint[][] =>
+    track.length > 0 && !Array.isArray(track[0]) ? [track as GPSPoint[]] : (track as GPSPoint[][]);
+
+/** A claim that wasn't made: nothing is conquered and no preview is saved. */
+const unclaimed = (territory: Territory, rejectedReason: string): ConquerResult => ({
+    newTerritory: territory,
+    modifiedTerritories: [],
+    deletedTerritoryIds: [],
+    invasions: [],
+    totalConqueredArea: 0,
+    mergedTerritoryIds: [],
+    rejectedReason,
+});
+
+const mapCloudReview = (r: any): TerritoryReview => {
+    const score = typeof r.suspicion_score === 'number' ? r.suspicion_score : 0;
+    return {
+        id: r.id,
+        userId: r.user_id,
+        activityId: r.activity_id,
+        territoryId: r.territory_id,
+        ownerUsername: r.owner_username || undefined,
+        name: r.name || undefined,
+        track: toSegments(safeParseJson<GPSPoint[] | GPSPoint[][]>(r.track, [])),
+        // Held for review whatever the score: the server queues tracks on its own checks
+        suspicion: {
+            score,
+            reasons: safeParseJson(r.suspicion_reasons, []),
+            flagged: true,
+        },
+        status: r.status,
+        createdAt: r.created_at ? new Date(r.created_at).getTime() : Date.now(),
+        reviewedAt: r.reviewed_at ? new Date(r.reviewed_at).getTime() : undefined,
+    };
+};
+
 /**
  * Validate a territory object has required fields
  */
@@ -41,19 +87,24 @@ const isValidTerritory = (t: any): boolean => {
 const mapCloudTerritory = (t: any): Territory | null => {
     try {
         const center = safeParseJson<{ lat: number; lng: number }>(t.center, { lat: 0, lng: 0 });
-        const polygon = safeParseJson<[number, number][]>(t.polygon, []);
+        const polygon = safeParseJson<TerritoryPolygon>(t.polygon, []);
+
+        const claimedAt = t.claimed_at ? new Date(t.claimed_at).getTime() : Date.now();
 
         const territory: Territory = {
             id: t.id,
             name: t.name || '',
             ownerId: t.owner_id,
             activityId: t.activity_id || '',
-            claimedAt: t.claimed_at ? new Date(t.claimed_at).getTime() : Date.now(),
+            claimedAt,
             area: typeof t.area === 'number' ? t.area : 0,
             perimeter: typeof t.perimeter === 'number' ? t.perimeter : 0,
             center,
             polygon,
-            history: safeParseJson<TerritoryClaimEvent[]>(t.history, [])
+            history: safeParseJson<TerritoryClaimEvent[]>(t.history, []),
+            lastDefendedAt: t.last_defended_at ? new Date(t.last_defended_at).getTime() : claimedAt,
+            teamId: t.team_id || undefined,
+            teamColor: t.teams?.color || undefined
         };
 
         if (!isValidTerritory(territory)) {
@@ -68,6 +119,62 @@ const mapCloudTerritory = (t: any): Territory | null => {
     }
 };
 
+/**
+ * Map a cloud invasion row to local format
+ */
+const mapCloudInvasion = (inv: any): TerritoryInvasion => ({
+    id: inv.id,
+    invadedUserId: inv.invaded_user_id,
+    invaderUserId: inv.invader_user_id,
+    invaderUsername: inv.invader_username || 'Someone',
+    invadedTerritoryId: inv.invaded_territory_id,
+    newTerritoryId: inv.new_territory_id,
+    overlapArea: inv.overlap_area,
+    territoryWasDestroyed: inv.territory_was_destroyed,
+    createdAt: new Date(inv.created_at).getTime(),
+    seen: inv.seen,
+    ...(inv.lost_center ? { lostCenter: inv.lost_center } : {}),
+});
+
+const mapCloudConquest = (c: any): TerritoryConquest => ({
+    userId: c.user_id,
+    username: c.username || undefined,
+    area: typeof c.area === 'number' ? c.area : 0,
+    invasionCount: Number(c.invasion_count) || 0,
+    destroyedCount: Number(c.destroyed_count) || 0,
+    lastTakenAt: c.last_taken_at ? new Date(c.last_taken_at).getTime() : 0,
+});
+
+// Display name for a user whose username can't be resolved
+const fallbackUsername = (userId: string): string => 'User ' + userId.substring(0, 6);
+
+/**
+ * Batch-fetch usernames by user id. Users without one are left out.
+ */
+const fetchUsernames = async (userIds: string[]): Promise<Map<string, string>> => {
+    const userMap = new Map<string, string>();
+    const ids = [...new Set(userIds.filter(Boolean))];
+    if (ids.length === 0) return userMap;
+
+    const { data: users, error } = await supabase
+        .from('users')
+        .select('id, username')
+        .in('id', ids);
+
+    if (error) {
+        console.error('Error fetching owner usernames:', error);
+    }
+
+    if (users && users.length > 0) {
+        for (const u of users) {
+            if (u.username) {
+                userMap.set(u.id, u.username);
+            }
+        }
+    }
+    return userMap;
+};
+
 /**
  * Batch-fetch usernames for territories missing ownerName.
  * Sets a fallback display name if username can't be resolved.
@@ -76,31 +183,13 @@ const resolveOwnerNames = async (territories: Territory[]): Promise<void> => {
     const missing = territories.filter(t => !t.ownerName && t.ownerId);
     if (missing.length === 0) return;
 
-    const ownerIds = [...new Set(missing.map(t => t.ownerId))];
     try {
-        const { data: users, error } = await supabase
-            .from('users')
-            .select('id, username')
-            .in('id', ownerIds);
-
-        if (error) {
-            console.error('Error fetching owner usernames:', error);
-        }
-
-        const userMap = new Map<string, string>();
-        if (users && users.length > 0) {
-            for (const u of users) {
-                if (u.username) {
-                    userMap.set(u.id, u.username);
-                }
-            }
-        }
+        const userMap = await fetchUsernames(missing.map(t => t.ownerId));
 
         for (const territory of territories) {
             if (!territory.ownerName && territory.ownerId) {
-                const username = userMap.get(territory.ownerId);
                 // Always set a display name - use username if found, otherwise a short fallback
-                territory.ownerName = username || ('User ' + territory.ownerId.substring(0, 6));
+                territory.ownerName = userMap.get(territory.ownerId) || fallbackUsername(territory.ownerId);
             }
         }
     } catch (err) {
@@ -108,7 +197,7 @@ const resolveOwnerNames = async (territories: Territory[]): Promise<void> => {
         // Even on complete failure, set fallback names so labels still appear
         for (const territory of territories) {
             if (!territory.ownerName && territory.ownerId) {
-                territory.ownerName = 'User ' + territory.ownerId.substring(0, 6);
+                territory.ownerName = fallbackUsername(territory.ownerId);
             }
         }
     }
@@ -119,7 +208,7 @@ export const TerritoryService = {
         try {
             const { data, error } = await supabase
                 .from('territories')
-                .select('*')
+                .select('*, teams(color)')
                 .eq('id', territoryId)
                 .single();
 
@@ -131,6 +220,51 @@ export const TerritoryService = {
         }
     },
 
+    /**
+     * Display names for the given users, with a short fallback for any whose
+     * username can't be resolved.
+     */
+    async getUsernames(userIds: string[]): Promise<Record<string, string>> {
+        let userMap = new Map<string, string>();
+        try {
+            userMap = await fetchUsernames(userIds);
+        } catch (err) {
+            console.error('Failed to resolve usernames:', err);
+        }
+        const names: Record<string, string> = {};
+        for (const id of userIds) {
+            if (id) names[id] = userMap.get(id) || fallbackUsername(id);
+        }
+        return names;
+    },
+
+    /**
+     * Who a territory's ground was won from, largest share first. Built from
+     * territory_invasions on the server, where other users' rows aren't readable.
+     */
+    async getTerritoryConquests(territoryId: string): Promise<TerritoryConquest[]> {
+        try {
+            const { data, error } = await supabase.rpc('get_territory_conquests', {
+                p_territory_id: territoryId,
+            });
+
+            if (error) {
+                console.error('Failed to fetch territory conquests:', error);
+                return [];
+            }
+
+            return (data || []).map(mapCloudConquest);
+        } catch (err) {
+            console.error('Territory conquests fetch error:', err);
+            return [];
+        }
+    },
+
+    /**
+     * Save a territory locally and its name to the cloud. Territories are only
+     * created on the server by claim_territory; a name is all the owner can
+     * change afterwards.
+     */
     async saveTerritory(territory: Territory): Promise<Territory> {
         // Validate territory before saving
         if (!isValidTerritory(territory)) {
@@ -150,18 +284,8 @@ export const TerritoryService = {
             const { error } = await retryWithBackoff(async () => {
                 const result = await supabase
                     .from('territories')
-                    .upsert({
-                        id: territory.id,
-                        owner_id: territory.ownerId,
-                        activity_id: territory.activityId,
-                        name: territory.name || null,
-                        claimed_at: new Date(territory.claimedAt).toISOString(),
-                        area: territory.area,
-                        perimeter: territory.perimeter,
-                        center: { lat: territory.center.lat, lng: territory.center.lng },
-                        polygon: territory.polygon,
-                        history: territory.history || []
-                    });
+                    .update({ name: territory.name || null })
+                    .eq('id', territory.id);
                 if (result.error) throw result.error;
                 return result;
             }).catch(err => ({ error: err }));
@@ -190,7 +314,7 @@ export const TerritoryService = {
         try {
             const { data, error } = await supabase
                 .from('territories')
-                .select('*, users!owner_id(username)')
+                .select('*, users!owner_id(username), teams(color)')
                 .eq('owner_id', userId)
                 .order('claimed_at', { ascending: false });
 
@@ -245,7 +369,7 @@ export const TerritoryService = {
             // Fetch territories with owner usernames using v2 FK hint syntax
             const { data, error } = await supabase
                 .from('territories')
-                .select('*, users!owner_id(username)')
+                .select('*, users!owner_id(username), teams(color)')
                 .order('claimed_at', { ascending: false })
                 .limit(3000);
 
@@ -315,7 +439,7 @@ export const TerritoryService = {
         try {
             const { data, error } = await supabase
                 .from('territories')
-                .select('id, owner_id, area, claimed_at, users!owner_id(username)')
+                .select('id, owner_id, area, claimed_at, last_defended_at, users!owner_id(username)')
                 .order('claimed_at', { ascending: false })
                 .limit(3000);
 
@@ -327,18 +451,20 @@ export const TerritoryService = {
             const territories: Territory[] = data
                 .map((t: any) => {
                     const username = t.users?.username || t.user?.username;
+                    const claimedAt = t.claimed_at ? new Date(t.claimed_at).getTime() : Date.now();
                     return {
                         id: t.id,
                         name: '',
                         ownerId: t.owner_id,
                         ownerName: username || undefined,
                         activityId: '',
-                        claimedAt: t.claimed_at ? new Date(t.claimed_at).getTime() : Date.now(),
+                        claimedAt,
                         area: typeof t.area === 'number' ? t.area : 0,
                         perimeter: 0,
                         center: { lat: 0, lng: 0 },
                         polygon: [],
-                        history: []
+                        history: [],
+                        lastDefendedAt: t.last_defended_at ? new Date(t.last_defended_at).getTime() : claimedAt
                     } as Territory;
                 })
                 .filter((t: Territory) => t.area > 0);
@@ -414,124 +540,353 @@ export const TerritoryService = {
         }
     },
 
+    /** Thresholds a loop must meet to claim (see GameEngine.checkClaimRules). */
+    async getClaimRules(): Promise<ClaimRules> {
+        const now = Date.now();
+        if (cachedClaimRules && (now - claimRulesCacheTimestamp) < CLAIM_RULES_CACHE_TTL_MS) {
+            return cachedClaimRules;
+        }
+
+        try {
+            const { data, error } = await supabase
+                .from('app_settings')
+                .select('value')
+                .eq('key', 'claim_rules')
+                .single();
+
+            if (error || !data) return cachedClaimRules ?? DEFAULT_CLAIM_RULES;
+
+            cachedClaimRules = parseClaimRules(data.value);
+            claimRulesCacheTimestamp = now;
+            return cachedClaimRules;
+        } catch (err) {
+            console.error('Claim rules fetch error:', err);
+            return cachedClaimRules ?? DEFAULT_CLAIM_RULES;
+        }
+    },
+
+    /**
+     * Claim a territory. The conquering result is computed locally and saved
+     * right away as an optimistic preview, then the server recomputes it from
+     * the track stored on the activity, which must be uploaded first, and the
+     * local state is reconciled with its answer. If the server can't be
+     * reached the preview is undone and the result has rejectedReason
+     * CLAIM_FAILED.
+     */
     async saveTerritoryWithConquering(
         territory: Territory,
         allTerritories: Territory[],
-        invaderUsername?: string
+        track: GPSPoint[] | GPSPoint[][],
+        invaderUsername?: string,
+        suspicion?: ActivitySuspicion
     ): Promise<ConquerResult> {
-        // In event mode (user has joined the event), skip conquering — territories coexist
-        const eventMode = await EventModeService.isUserInEventMode();
-        if (eventMode) {
-            AnalyticsService.trackEvent('territory_claimed', {
-                area: territory.area,
-                perimeter: territory.perimeter,
-                invasionCount: 0,
-                eventMode: true,
+        // Territories are public and an outline can't be clipped without
+        // changing what's owned, so nothing is claimed near a privacy zone
+        if (await PrivacyZoneService.overlapsZone(territory.polygon)) {
+            AnalyticsService.trackEvent('territory_claim_rejected', {
+                reason: 'PRIVACY_ZONE',
+                previewArea: territory.area,
             });
+            return unclaimed(territory, 'PRIVACY_ZONE');
+        }
 
-            await this.saveTerritory(territory);
-            return {
+        // A flagged activity conquers nothing until a reviewer approves it
+        if (suspicion?.flagged) {
+            await this.holdClaimForReview(territory, track, suspicion, invaderUsername);
+            AnalyticsService.trackEvent('territory_claim_rejected', {
+                reason: 'UNDER_REVIEW',
+                previewArea: territory.area,
+                suspicionScore: suspicion.score,
+            });
+            return unclaimed(territory, 'UNDER_REVIEW');
+        }
+
+        // Teammates' territories are left alone, here and on the server
+        const membership = await TeamService.getMembership();
+        if (membership) {
+            territory.teamId = membership.team.id;
+            territory.teamColor = membership.team.color;
+        }
+
+        // In event mode (user has joined the event), skip conquering — territories
+        // coexist. The server decides this too; the preview just matches it.
+        const eventMode = await EventModeService.isUserInEventMode();
+        const preview: ConquerResult = eventMode
+            ? {
                 newTerritory: territory,
                 modifiedTerritories: [],
                 deletedTerritoryIds: [],
                 invasions: [],
                 totalConqueredArea: 0,
-            };
+                mergedTerritoryIds: [],
+            }
+            : GameEngine.resolveOverlaps(territory, allTerritories, invaderUsername);
+
+        // Save locally first so the map updates straight away
+        await this.applyConquerResult(preview);
+
+        // Without the server's answer nothing was claimed; reconciling this
+        // undoes the preview
+        let response: any = { success: false, reason: 'CLAIM_FAILED' };
+        try {
+            const { data: { session } } = await supabase.auth.getSession();
+            if (!session?.user) {
+                console.log('No session, territory not claimed');
+            } else {
+                // The server claims from the track uploaded with the activity
+                const { data, error } = await retryWithBackoff(async () => {
+                    const rpcResponse = await supabase.rpc('claim_territory', {
+                        p_territory_id: territory.id,
+                        p_activity_id: territory.activityId,
+                        p_owner_username: invaderUsername || null,
+                        p_name: territory.name || null,
+                    });
+                    if (rpcResponse.error) throw rpcResponse.error;
+                    return rpcResponse;
+                }).catch(err => ({ data: null, error: err }));
+
+                if (error) {
+                    console.error('Claim RPC failed, undoing local preview:', error);
+                } else {
+                    response = data;
+                }
+            }
+        } catch (err) {
+            console.error('Territory conquer sync error:', err);
         }
 
-        const conquerResult = GameEngine.resolveOverlaps(
-            territory, allTerritories, invaderUsername
-        );
+        const result = await this.reconcileConquerResult(preview, response, allTerritories);
+
+        if (result.rejectedReason) {
+            AnalyticsService.trackEvent('territory_claim_rejected', {
+                reason: result.rejectedReason,
+                previewArea: territory.area,
+            });
+            return result;
+        }
+
+        // The activity has claimed now, so it can't claim again or be edited
+        await db.activities.update(territory.activityId, { territoryId: result.newTerritory.id }).catch(() => {});
 
         AnalyticsService.trackEvent('territory_claimed', {
             area: territory.area,
             perimeter: territory.perimeter,
-            invasionCount: conquerResult.invasions.length,
+            invasionCount: result.invasions.length,
+            mergedCount: result.mergedTerritoryIds.length,
+            ...(eventMode ? { eventMode: true } : {}),
         });
 
-        for (const inv of conquerResult.invasions) {
+        for (const inv of result.invasions) {
             AnalyticsService.trackEvent('territory_invaded', {
                 overlapArea: inv.overlapArea,
                 territoryWasDestroyed: inv.territoryWasDestroyed,
             });
         }
 
-        // Save locally first (offline-first)
-        await db.territories.put(territory);
+        return result;
+    },
 
-        for (const mod of conquerResult.modifiedTerritories) {
-            await db.territories.put(mod);
+    /**
+     * Queue a claim for an admin to review instead of applying it. Returns
+     * false if it couldn't be queued; the claim is held back either way.
+     */
+    async holdClaimForReview(
+        territory: Territory,
+        track: GPSPoint[] | GPSPoint[][],
+        suspicion: ActivitySuspicion,
+        ownerUsername?: string
+    ): Promise<boolean> {
+        try {
+            const { data: { session } } = await supabase.auth.getSession();
+            if (!session?.user) {
+                console.log('No session, held claim not queued for review');
+                return false;
+            }
+
+            const { error } = await retryWithBackoff(async () => {
+                const response = await supabase.from('territory_reviews').insert({
+                    user_id: session.user.id,
+                    activity_id: territory.activityId,
+                    territory_id: territory.id,
+                    owner_username: ownerUsername || null,
+                    name: territory.name || null,
+                    track: toSegments(track),
+                    suspicion_score: suspicion.score,
+                    suspicion_reasons: suspicion.reasons,
+                });
+                if (response.error) throw response.error;
+                return response;
+            }).catch(err => ({ error: err }));
+
+            if (error) {
+                console.error('Failed to queue claim for review:', error);
+                return false;
+            }
+            return true;
+        } catch (err) {
+            console.error('Claim review queue error:', err);
+            return false;
         }
+    },
 
-        for (const delId of conquerResult.deletedTerritoryIds) {
-            await db.territories.delete(delId);
+    /** Held claims, newest first: the user's own, or every one for admins. */
+    async getClaimReviews(status?: TerritoryReviewStatus): Promise<TerritoryReview[]> {
+        try {
+            let query = supabase.from('territory_reviews').select('*');
+            if (status) query = query.eq('status', status);
+            const { data, error } = await query.order('created_at', { ascending: false });
+            if (error) {
+                console.error('Failed to fetch claim reviews:', error);
+                return [];
+            }
+            return (data || []).map(mapCloudReview);
+        } catch (err) {
+            console.error('Claim reviews fetch error:', err);
+            return [];
         }
+    },
 
-        // Sync to cloud
+    /** Approve or reject a held claim (admin only). */
+    async resolveClaimReview(reviewId: string, approve: boolean): Promise<TerritoryReview | null> {
         try {
-            const { data: { session } } = await supabase.auth.getSession();
-            if (!session?.user) {
-                console.log('No session, conquering saved locally only');
-                return conquerResult;
+            const { data, error } = await supabase.rpc('review_territory_claim', {
+                p_review_id: reviewId,
+                p_approve: approve,
+            });
+            if (error) {
+                console.error('Failed to resolve claim review:', error);
+                return null;
             }
+            return data ? mapCloudReview(data) : null;
+        } catch (err) {
+            console.error('Claim review error:', err);
+            return null;
+        }
+    },
 
-            const hasConquering = conquerResult.modifiedTerritories.length > 0 ||
-                conquerResult.deletedTerritoryIds.length > 0;
+    /**
+     * Claim the user's oldest approved review, if any. One per call: the
+     * server allows one claim every 30 seconds. Returns the claimed territory.
+     */
+    async claimApprovedReview(userId: string): Promise<Territory | null> {
+        const approved = (await this.getClaimReviews('approved'))
+            .filter(review => review.userId === userId);
+        const review = approved[approved.length - 1];
+        if (!review) return null;
+
+        const territory = GameEngine.processTerritory(review.track, userId, review.activityId);
+        if (!territory) {
+            console.error('Approved claim has no territory to claim:', review.id);
+            return null;
+        }
+        territory.id = review.territoryId;
+        if (review.name) territory.name = review.name;
+        if (review.ownerUsername) territory.ownerName = review.ownerUsername;
 
-            if (hasConquering) {
-                // Use atomic RPC for territory + conquering
-                const { error } = await retryWithBackoff(async () => {
-                    const result = await supabase.rpc('conquer_territory', {
-                        p_new_territory_id: territory.id,
-                        p_owner_id: territory.ownerId,
-                        p_owner_username: invaderUsername || null,
-                        p_activity_id: territory.activityId,
-                        p_name: territory.name || null,
-                        p_claimed_at: new Date(territory.claimedAt).toISOString(),
-                        p_area: territory.area,
-                        p_perimeter: territory.perimeter,
-                        p_center: { lat: territory.center.lat, lng: territory.center.lng },
-                        p_polygon: territory.polygon,
-                        p_history: territory.history || [],
-                        p_modified_territories: conquerResult.modifiedTerritories.map(t => ({
-                            id: t.id,
-                            polygon: JSON.stringify(t.polygon),
-                            area: t.area,
-                            perimeter: t.perimeter,
-                            center: JSON.stringify({ lat: t.center.lat, lng: t.center.lng }),
-                            history: JSON.stringify(t.history || []),
-                        })),
-                        p_deleted_territory_ids: conquerResult.deletedTerritoryIds,
-                        p_invasions: conquerResult.invasions.map(inv => ({
-                            invaded_user_id: inv.invadedUserId,
-                            invader_user_id: inv.invaderUserId,
-                            invader_username: inv.invaderUsername || null,
-                            invaded_territory_id: inv.invadedTerritoryId,
-                            new_territory_id: inv.newTerritoryId,
-                            overlap_area: inv.overlapArea,
-                            territory_was_destroyed: inv.territoryWasDestroyed,
-                        })),
-                    });
-                    if (result.error) throw result.error;
-                    return result;
-                }).catch(err => ({ error: err }));
+        let allTerritories: Territory[] = [];
+        try {
+            allTerritories = await this.getAllTerritories();
+        } catch (err) {
+            console.error('Failed to fetch territories for overlap check:', err);
+        }
 
-                if (error) {
-                    console.error('Conquer RPC failed, falling back:', error);
-                    await this.saveTerritory(territory);
-                } else {
-                    console.log('Territory conquered and synced:', territory.id);
-                }
-            } else {
-                // No conquering needed, use normal save
-                await this.saveTerritory(territory);
+        const result = await this.saveTerritoryWithConquering(
+            territory, allTerritories, review.track, review.ownerUsername
+        );
+        if (result.rejectedReason) return null;
+        return result.newTerritory;
+    },
+
+    /** Write a conquering result to the local database. */
+    async applyConquerResult(result: ConquerResult): Promise<void> {
+        await db.territories.put(result.newTerritory);
+
+        for (const mod of result.modifiedTerritories) {
+            await db.territories.put(mod);
+        }
+
+        for (const delId of [...result.deletedTerritoryIds, ...result.mergedTerritoryIds]) {
+            await db.territories.delete(delId);
+        }
+    },
+
+    /**
+     * Replace the local preview with the server's authoritative claim_territory
+     * result. Territories the preview changed but the server didn't are
+     * restored from their state before the claim. A rejected claim undoes the
+     * preview entirely.
+     */
+    async reconcileConquerResult(
+        preview: ConquerResult,
+        response: any,
+        previousTerritories: Territory[]
+    ): Promise<ConquerResult> {
+        const previous = new Map(previousTerritories.map(t => [t.id, t]));
+        const previewTouched = [
+            ...preview.modifiedTerritories.map(t => t.id),
+            ...preview.deletedTerritoryIds,
+            ...preview.mergedTerritoryIds,
+        ];
+
+        const restore = async (ids: string[]) => {
+            for (const id of ids) {
+                const original = previous.get(id);
+                if (original) await db.territories.put(original);
             }
-        } catch (err) {
-            console.error('Territory conquer sync error:', err);
-            // Territory is already saved locally
+        };
+
+        if (!response?.success) {
+            console.warn('Territory claim rejected by server:', response?.reason);
+            await db.territories.delete(preview.newTerritory.id);
+            await restore(previewTouched);
+            const claimViolation = parseClaimRuleViolation(response);
+            return {
+                newTerritory: preview.newTerritory,
+                modifiedTerritories: [],
+                deletedTerritoryIds: [],
+                invasions: [],
+                totalConqueredArea: 0,
+                mergedTerritoryIds: [],
+                rejectedReason: response?.reason || 'REJECTED',
+                ...(claimViolation ? { claimViolation } : {}),
+            };
         }
 
-        return conquerResult;
+        const newTerritory = mapCloudTerritory(response.territory);
+        if (!newTerritory) {
+            console.error('Invalid territory in claim response, keeping local preview');
+            return preview;
+        }
+        newTerritory.ownerName = preview.newTerritory.ownerName;
+        newTerritory.teamColor = preview.newTerritory.teamColor;
+
+        const modifiedTerritories = (Array.isArray(response.modified_territories) ? response.modified_territories : [])
+            .map(mapCloudTerritory)
+            .filter((t: Territory | null): t is Territory => t !== null)
+            .map((t: Territory) => ({
+                ...t,
+                ownerName: previous.get(t.id)?.ownerName,
+                teamColor: previous.get(t.id)?.teamColor,
+            }));
+
+        const result: ConquerResult = {
+            newTerritory,
+            modifiedTerritories,
+            deletedTerritoryIds: Array.isArray(response.deleted_territory_ids) ? response.deleted_territory_ids : [],
+            invasions: (Array.isArray(response.invasions) ? response.invasions : []).map(mapCloudInvasion),
+            totalConqueredArea: typeof response.total_conquered_area === 'number' ? response.total_conquered_area : 0,
+            mergedTerritoryIds: Array.isArray(response.merged_territory_ids) ? response.merged_territory_ids : [],
+        };
+
+        const serverTouched = new Set([
+            ...result.modifiedTerritories.map(t => t.id),
+            ...result.deletedTerritoryIds,
+            ...result.mergedTerritoryIds,
+        ]);
+        await restore(previewTouched.filter(id => !serverTouched.has(id)));
+        await this.applyConquerResult(result);
+
+        return result;
     },
 
     async getUnseenInvasions(userId: string): Promise<TerritoryInvasion[]> {
@@ -550,24 +905,44 @@ export const TerritoryService = {
 
             if (!data) return [];
 
-            return data.map((inv: any) => ({
-                id: inv.id,
-                invadedUserId: inv.invaded_user_id,
-                invaderUserId: inv.invader_user_id,
-                invaderUsername: inv.invader_username || 'Someone',
-                invadedTerritoryId: inv.invaded_territory_id,
-                newTerritoryId: inv.new_territory_id,
-                overlapArea: inv.overlap_area,
-                territoryWasDestroyed: inv.territory_was_destroyed,
-                createdAt: new Date(inv.created_at).getTime(),
-                seen: inv.seen,
-            }));
+            return data.map(mapCloudInvasion);
         } catch (err) {
             console.error('Invasion fetch error:', err);
             return [];
         }
     },
 
+    /**
+     * Realtime feed of new invasions of the user's territory. Returns a
+     * function that ends the subscription.
+     */
+    subscribeToInvasions(userId: string, onInvasion: (invasion: TerritoryInvasion) => void): () => void {
+        const channel = supabase
+            .channel(`invasions-${userId}`)
+            .on(
+                'postgres_changes',
+                {
+                    event: 'INSERT',
+                    schema: 'public',
+                    table: 'territory_invasions',
+                    filter: `invaded_user_id=eq.${userId}`,
+                },
+                (payload: any) => {
+                    try {
+                        if (!payload.new?.id) return;
+                        onInvasion(mapCloudInvasion(payload.new));
+                    } catch (err) {
+                        console.error('[Realtime] Failed to process invasion:', err);
+                    }
+                }
+            )
+            .subscribe();
+
+        return () => {
+            supabase.removeChannel(channel);
+        };
+    },
+
     async markInvasionsSeen(invasionIds: string[]): Promise<void> {
         if (invasionIds.length === 0) return;
         try {
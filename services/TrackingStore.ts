@@ -4,12 +4,23 @@
  * this store keeps the location subscription alive and continues recording the path.
  * When RecordScreen remounts, it reads the accumulated state from here.
  */
-import { GPSPoint, ActivityType } from '../lib/types';
+import { GPSPoint, ActivityType, ActivitySplit, SplitUnit, TrackingProfile, GpsQuality } from '../lib/types';
 import { LocationService } from './LocationService';
 import { WakeLockService } from './WakeLockService';
 import { GameEngine } from './GameEngine';
 import { EventModeService } from './EventModeService';
+import { createSplitAccumulator, closeLaps } from '../utils/splits';
+import { createGpsQualityTracker, trackGpsQuality } from '../utils/gpsQuality';
+import { createActivityClassifier, TypeAssessment } from '../utils/activityClassifier';
+import {
+    SamplingConfig,
+    DEFAULT_TRACKING_PROFILE,
+    isTrackingProfile,
+    samplingFor,
+    sameSampling,
+} from '../utils/trackingProfiles';
 import { getDistance } from 'geolib';
+import AsyncStorage from '@react-native-async-storage/async-storage';
 
 const STILLNESS_WINDOW_MS = 3000;
 const STILLNESS_THRESHOLD_M = 3;
@@ -17,6 +28,49 @@ const MIN_POINT_DISTANCE_M = 3;
 const MAX_ACCURACY_METERS = 30;
 const MAX_SEGMENT_DISTANCE_M = 500;
 
+// Auto-pause: close the segment after this long without moving, and reopen it
+// once the user is clearly moving again (speed or displacement from the anchor).
+const DEFAULT_AUTO_PAUSE_DELAY_MS = 10000;
+const MIN_AUTO_PAUSE_DELAY_MS = 3000;
+const AUTO_RESUME_SPEED_MS = 0.8;
+const AUTO_RESUME_DISTANCE_M = 10;
+const AUTO_PAUSE_SETTINGS_KEY = 'conqr_auto_pause_settings';
+const SPLIT_UNIT_KEY = 'conqr_split_unit';
+const TRACKING_PROFILE_KEY = 'conqr_tracking_profile';
+
+// Sparse fixes need a longer look back to tell standing still from moving: the
+// stillness window covers at least this many of the latest fix intervals
+const STILLNESS_WINDOW_INTERVALS = 2.5;
+// Speed-driven sampling changes wait this long after the last one; stopping
+// and moving off apply straight away
+const SAMPLING_CHANGE_MIN_GAP_MS = 15000;
+
+export type PauseReason = 'manual' | 'auto';
+
+export interface AutoPauseSettings {
+    enabled: boolean;
+    delayMs: number; // how long the user must be still before auto-pausing
+}
+
+/** A session recovered from storage after the app was killed mid-recording. */
+export interface InterruptedSession {
+    activityType: ActivityType;
+    startTime: number;
+    segments: GPSPoint[][];
+    runningDistance: number;
+    pausedDuration: number; // ms paused up to the last checkpoint
+    checkpointedAt: number; // wall time of the last checkpoint
+    laps: ActivitySplit[]; // laps closed before the checkpoint
+    splitUnit: SplitUnit;
+    trackingProfile: TrackingProfile;
+}
+
+export type TrackingEvent =
+    | { type: 'autoPause'; at: number }
+    | { type: 'autoResume'; at: number; pausedMs: number }
+    | { type: 'split'; at: number; split: ActivitySplit; index: number; unit: SplitUnit }
+    | { type: 'typeSuggestion'; at: number; suggestion: TypeAssessment };
+
 // Max plausible speed (m/s) for outlier rejection between consecutive points
 const MAX_IMPLIED_SPEED: Record<ActivityType, number> = {
     WALK: 4,      // ~14 km/h (generous for GPS noise on fast walkers)
@@ -69,11 +123,49 @@ function kalmanStep(
 let _isTracking = false;
 let _activityType: ActivityType | null = null;
 let _startTime: number | null = null;
-let _path: GPSPoint[] = [];
+// Recorded segments — a new one is opened on every resume so paused gaps are
+// never bridged by distance, speed or polyline rendering.
+let _segments: GPSPoint[][] = [[]];
+let _path: GPSPoint[] = _segments[0]; // current (last) segment
+let _isPaused = false;
+let _pauseReason: PauseReason | null = null;
+let _pausedAt: number | null = null;
+let _pausedDuration = 0; // ms spent paused, excluding an in-progress pause
 let _runningDistance = 0;
 let _recentPositions: { lat: number; lng: number; time: number }[] = [];
 let _locationUnsubscribe: (() => void) | null = null;
 let _listeners: Set<() => void> = new Set();
+let _eventListeners: Set<(event: TrackingEvent) => void> = new Set();
+
+// Auto-pause state
+let _autoPause: AutoPauseSettings = { enabled: true, delayMs: DEFAULT_AUTO_PAUSE_DELAY_MS };
+let _stillSince: number | null = null; // point time the current still stretch began
+let _autoPauseAnchor: { lat: number; lng: number } | null = null;
+
+// Splits and laps. The split unit is a preference; each session keeps the
+// unit it started with.
+let _splitUnit: SplitUnit = 'km';
+let _splits = createSplitAccumulator(_splitUnit);
+let _laps: ActivitySplit[] = [];
+
+// GPS sampling. The profile is a preference; each session keeps the profile it
+// started with, and the sampling within it follows speed and stillness.
+let _trackingProfile: TrackingProfile = DEFAULT_TRACKING_PROFILE;
+let _sessionProfile: TrackingProfile = _trackingProfile;
+let _sampling: SamplingConfig | null = null;
+let _samplingStill = false;
+let _samplingChangedAt = 0;
+let _gpsQuality = createGpsQualityTracker();
+
+// Activity type detection. Raw fixes are kept per segment so that switching
+// type can rebuild the path with the new type's limits instead of losing the
+// fixes the old type rejected.
+let _classifier = createActivityClassifier();
+let _rawSegments: GPSPoint[][] = [[]];
+let _typeSuggestion: TypeAssessment | null = null;
+let _dismissedTypes: Set<ActivityType> = new Set();
+let _typeConfirmed = false; // the user switched type by hand; never auto-correct
+let _isRebuilding = false;
 
 // Rolling speed for real-time pace display (distance over last N seconds)
 const ROLLING_SPEED_WINDOW_MS = 12000; // 12 second rolling window
@@ -85,23 +177,176 @@ let _kLat: KalmanState | null = null;
 let _kLng: KalmanState | null = null;
 let _lastPointTimestamp = 0;
 
+// Newest raw fix timestamp handed to the pipeline. Points reach us both live
+// and replayed from the background buffer, so anything at or before this is
+// a duplicate (or arrived too late to slot into the filter in order).
+let _lastSeenTimestamp = 0;
+let _isReplaying = false;
+
+// The background task delivers every fix, including ones the app got live at
+// slightly different times. A buffered fix older than the newest one seen is
+// only merged into a gap this long between live fixes, which means the watch
+// was suspended; no sampling interval comes close.
+const LATE_FIX_MIN_GAP_MS = 30000;
+
+// ── Crash-safe checkpointing ────────────────────────────────────────────────
+// The session is persisted as a small metadata record plus append-only chunks
+// of points, so each checkpoint only writes what's new since the last one.
+const SESSION_KEY = 'conqr_tracking_session';
+const SESSION_CHUNK_PREFIX = 'conqr_tracking_session_chunk_';
+const CHECKPOINT_BATCH_SIZE = 10;       // flush once this many points are pending
+const CHECKPOINT_MAX_DELAY_MS = 15000;  // ...or when points trickle in slowly
+
+interface SessionMeta {
+    version: 1;
+    activityType: ActivityType;
+    startTime: number;
+    runningDistance: number;
+    pausedDuration: number;
+    isPaused: boolean;
+    pauseReason: PauseReason | null;
+    pausedAt: number | null;
+    chunkCount: number;
+    checkpointedAt: number;
+    laps?: ActivitySplit[];
+    splitUnit?: SplitUnit;
+    trackingProfile?: TrackingProfile;
+}
+
+// `replace` drops what earlier chunks hold for the segment, after it was rebuilt
+type SessionChunk = { segment: number; points: GPSPoint[]; replace?: boolean }[];
+
+let _pendingPoints: { segment: number; point: GPSPoint }[] = [];
+let _replacedSegment: number | null = null;
+let _chunkCount = 0;
+let _lastCheckpointAt = 0;
+let _persistQueue: Promise<void> = Promise.resolve();
+
 function notifyListeners() {
+    if (_isReplaying) return;
     for (const fn of _listeners) {
         try { fn(); } catch {}
     }
 }
 
+function emitEvent(event: TrackingEvent) {
+    // Replayed history shouldn't raise "Auto-paused" toasts after the fact
+    if (_isReplaying) return;
+    for (const fn of _eventListeners) {
+        try { fn(event); } catch {}
+    }
+}
+
+function enterPause(reason: PauseReason, at: number) {
+    _isPaused = true;
+    _pauseReason = reason;
+    _pausedAt = at;
+    _recentPositions = [];
+    _rollingSpeedPoints = [];
+    _rollingSpeed = 0;
+    _stillSince = null;
+}
+
+function exitPause(now: number = Date.now()) {
+    _pausedDuration = currentPausedDuration(now);
+    _isPaused = false;
+    _pauseReason = null;
+    _pausedAt = null;
+    _autoPauseAnchor = null;
+    _stillSince = null;
+    // Only open a new segment if the current one has points; pausing twice
+    // without moving shouldn't leave empty segments behind.
+    if (_path.length > 0) {
+        _path = [];
+        _segments.push(_path);
+    }
+    openRawSegment();
+    // The user may resume somewhere else entirely — don't let the filter
+    // drag the first new fix towards the pre-pause position.
+    resetKalmanState();
+    _gpsQuality.breakGap();
+}
+
+/** While auto-paused, decide whether this raw fix means the user is moving again. */
+function isMovingAgain(point: GPSPoint, accuracy: number): boolean {
+    if (point.speed !== null && point.speed >= AUTO_RESUME_SPEED_MS) return true;
+    if (!_autoPauseAnchor) return false;
+    try {
+        const d = getDistance(
+            { latitude: _autoPauseAnchor.lat, longitude: _autoPauseAnchor.lng },
+            { latitude: point.lat, longitude: point.lng }
+        );
+        return d > Math.max(AUTO_RESUME_DISTANCE_M, accuracy);
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Keep the GPS sampling in line with the session's profile, the current speed
+ * and whether the user is standing still.
+ */
+function adaptSampling(now: number = Date.now()) {
+    if (!_isTracking || !_activityType || _isReplaying) return;
+    const still = _isPaused || _stillSince !== null;
+    const next = samplingFor(_sessionProfile, _activityType, _rollingSpeed, still);
+    if (_sampling && sameSampling(_sampling, next)) return;
+    if (_sampling && still === _samplingStill && now - _samplingChangedAt < SAMPLING_CHANGE_MIN_GAP_MS) return;
+
+    _sampling = next;
+    _samplingStill = still;
+    _samplingChangedAt = now;
+    LocationService.setSampling(next).catch(err => console.error('Failed to adapt GPS sampling:', err));
+}
+
 function handleTrackingPoint(point: GPSPoint) {
+    processTrackingPoint(point);
+    adaptSampling();
+}
+
+function processTrackingPoint(point: GPSPoint) {
     if (!_isTracking || !_activityType) return;
+    if (point.timestamp) {
+        if (point.timestamp <= _lastSeenTimestamp) return;
+        _lastSeenTimestamp = point.timestamp;
+    }
+    if (_isPaused && _pauseReason === 'manual') return;
+
+    // Stillness, auto-pause and pace run on fix time rather than wall time so
+    // replayed background points behave exactly as if they had arrived live.
+    const pointTime = point.timestamp || Date.now();
 
     // ── 1. Hard accuracy gate ───────────────────────────────────────────
-    if (point.accuracy !== null && point.accuracy > MAX_ACCURACY_METERS) return;
+    if (point.accuracy !== null && point.accuracy > MAX_ACCURACY_METERS) {
+        if (!_isPaused) _gpsQuality.add(pointTime, point.accuracy, false);
+        return;
+    }
     const accuracy = point.accuracy ?? 10; // default assumption when unknown
 
+    // ── 1b. Auto-resume — keep watching while auto-paused ───────────────
+    if (_isPaused) {
+        if (!isMovingAgain(point, accuracy)) return;
+        const pausedMs = _pausedAt !== null ? pointTime - _pausedAt : 0;
+        exitPause(pointTime);
+        checkpoint(true);
+        emitEvent({ type: 'autoResume', at: pointTime, pausedMs });
+        // Fall through: this fix becomes the first point of the new segment
+    }
+
+    // ── 1c. Activity type evidence — before any type-specific check ─────
+    if (!_isRebuilding) {
+        _rawSegments[_rawSegments.length - 1].push(point);
+        _classifier.add(point);
+        checkTypeSuggestion(pointTime);
+    }
+
     // ── 2. Speed validation — actually reject overspeed points ──────────
     if (point.speed !== null) {
         const validation = GameEngine.validateSpeed(point, _activityType);
-        if (!validation.valid) return;
+        if (!validation.valid) {
+            _gpsQuality.add(pointTime, point.accuracy, false);
+            return;
+        }
     }
 
     // ── 3. Outlier rejection: implied speed between consecutive points ──
@@ -116,15 +361,18 @@ function handleTrackingPoint(point: GPSPoint) {
                 );
                 const impliedSpeed = d / timeDelta;
                 const maxSpeed = MAX_IMPLIED_SPEED[_activityType] || 15;
-                if (impliedSpeed > maxSpeed) return; // GPS spike, discard
+                if (impliedSpeed > maxSpeed) { // GPS spike, discard
+                    _gpsQuality.add(pointTime, point.accuracy, false);
+                    return;
+                }
             } catch { /* allow on error */ }
         }
     }
+    _gpsQuality.add(pointTime, point.accuracy, true);
 
     // ── 4. Kalman smoothing ─────────────────────────────────────────────
-    const now = point.timestamp || Date.now();
     const dt = _lastPointTimestamp > 0
-        ? Math.max(0.1, (now - _lastPointTimestamp) / 1000)
+        ? Math.max(0.1, (pointTime - _lastPointTimestamp) / 1000)
         : 1;
 
     // Process noise: how much we expect position to move per second (degrees²/s)
@@ -147,7 +395,7 @@ function handleTrackingPoint(point: GPSPoint) {
         smoothedLng = _kLng.x;
     }
 
-    _lastPointTimestamp = now;
+    _lastPointTimestamp = pointTime;
 
     const smoothedPoint: GPSPoint = {
         ...point,
@@ -156,9 +404,9 @@ function handleTrackingPoint(point: GPSPoint) {
     };
 
     // ── 5. Stillness detection ──────────────────────────────────────────
-    const wallTime = Date.now();
-    _recentPositions.push({ lat: smoothedLat, lng: smoothedLng, time: wallTime });
-    _recentPositions = _recentPositions.filter(p => wallTime - p.time < STILLNESS_WINDOW_MS);
+    _recentPositions.push({ lat: smoothedLat, lng: smoothedLng, time: pointTime });
+    const windowMs = Math.max(STILLNESS_WINDOW_MS, dt * 1000 * STILLNESS_WINDOW_INTERVALS);
+    _recentPositions = _recentPositions.filter(p => pointTime - p.time < windowMs);
 
     if (point.speed !== null && point.speed >= 0.8) {
         // Clearly moving
@@ -175,9 +423,24 @@ function handleTrackingPoint(point: GPSPoint) {
             } catch { /* ignore */ }
         }
         if (maxDisplacement < STILLNESS_THRESHOLD_M) {
-            if (point.speed === null || point.speed < 0.3) return;
+            if (point.speed === null || point.speed < 0.3) {
+                // ── 5b. Auto-pause once the user has been still long enough ──
+                if (_stillSince === null) _stillSince = oldest.time;
+                if (_autoPause.enabled && pointTime - _stillSince >= _autoPause.delayMs) {
+                    // Backdate the pause to when stillness began so the wait
+                    // before triggering doesn't count as moving time.
+                    const pausedAt = _stillSince;
+                    enterPause('auto', pausedAt);
+                    _autoPauseAnchor = { lat: smoothedLat, lng: smoothedLng };
+                    checkpoint(true);
+                    emitEvent({ type: 'autoPause', at: pausedAt });
+                    notifyListeners();
+                }
+                return;
+            }
         }
     }
+    _stillSince = null;
 
     // ── 6. Minimum distance filter + distance accumulation ──────────────
     if (_path.length > 0) {
@@ -195,18 +458,28 @@ function handleTrackingPoint(point: GPSPoint) {
             if (d > 0 && d < MAX_SEGMENT_DISTANCE_M) {
                 _runningDistance += d;
 
+                // ── Automatic splits ──
+                for (const split of _splits.add(d, pointTime - last.timestamp, pointTime)) {
+                    emitEvent({
+                        type: 'split',
+                        at: split.endTime,
+                        split,
+                        index: _splits.completed.length - 1,
+                        unit: _splits.unit,
+                    });
+                }
+
                 // ── Update rolling speed for real-time pace ──
-                const now = Date.now();
-                _rollingSpeedPoints.push({ dist: d, time: now });
+                _rollingSpeedPoints.push({ dist: d, time: pointTime });
                 // Prune old entries outside the window
                 _rollingSpeedPoints = _rollingSpeedPoints.filter(
-                    p => now - p.time < ROLLING_SPEED_WINDOW_MS
+                    p => pointTime - p.time < ROLLING_SPEED_WINDOW_MS
                 );
                 // Compute rolling speed: total distance in window / time span
                 // Exclude the oldest point's distance — it was accumulated before the window start
                 if (_rollingSpeedPoints.length >= 2) {
                     const windowDist = _rollingSpeedPoints.slice(1).reduce((s, p) => s + p.dist, 0);
-                    const windowTime = (now - _rollingSpeedPoints[0].time) / 1000;
+                    const windowTime = (pointTime - _rollingSpeedPoints[0].time) / 1000;
                     if (windowTime > 0 && windowDist > 0) {
                         _rollingSpeed = windowDist / windowTime;
                     }
@@ -231,7 +504,221 @@ function handleTrackingPoint(point: GPSPoint) {
     }
 
     _path.push(smoothedPoint);
+    _pendingPoints.push({ segment: _segments.length - 1, point: smoothedPoint });
+    checkpoint();
+    notifyListeners();
+}
+
+/**
+ * Slot buffered fixes from before the newest one seen into the raw fixes of
+ * the stretch they were recorded in, in time order. Only fixes inside a gap
+ * of at least LATE_FIX_MIN_GAP_MS between live fixes are taken; the rest
+ * duplicate what arrived live. Returns the indexes of the raw segments that
+ * took fixes.
+ */
+function mergeLateFixes(points: GPSPoint[]): number[] {
+    const gapFixes = new Map<number, GPSPoint[]>();
+    for (const point of points) {
+        if (point.accuracy !== null && point.accuracy > MAX_ACCURACY_METERS) continue;
+        const segment = _rawSegments.findIndex(fixes =>
+            fixes.length > 0 &&
+            fixes[0].timestamp < point.timestamp &&
+            point.timestamp < fixes[fixes.length - 1].timestamp
+        );
+        if (segment < 0) continue;
+
+        const fixes = _rawSegments[segment];
+        const next = fixes.findIndex(f => f.timestamp >= point.timestamp);
+        if (fixes[next].timestamp === point.timestamp) continue;
+        if (fixes[next].timestamp - fixes[next - 1].timestamp < LATE_FIX_MIN_GAP_MS) continue;
+
+        if (!gapFixes.has(segment)) gapFixes.set(segment, []);
+        gapFixes.get(segment)!.push(point);
+    }
+    if (gapFixes.size === 0) return [];
+
+    for (const [segment, late] of gapFixes) {
+        _rawSegments[segment] = [..._rawSegments[segment], ...late].sort((a, b) => a.timestamp - b.timestamp);
+    }
+
+    // The classifier saw the stretch with a hole in it
+    _classifier = createActivityClassifier();
+    _rawSegments.forEach(fixes => {
+        _classifier.breakGap();
+        for (const fix of fixes) _classifier.add(fix);
+    });
+    return [...gapFixes.keys()];
+}
+
+/**
+ * Feed buffered background fixes through the normal pipeline, oldest first.
+ * A live fix can land before the buffer is drained, so fixes from a
+ * suspended stretch older than the newest one seen are merged into the
+ * segment they belong to, which is rebuilt from its raw fixes. Returns how
+ * many points were fed.
+ */
+function replayPoints(points: GPSPoint[]): number {
+    if (!_isTracking || _startTime === null) return 0;
+    const startTime = _startTime;
+    const inSession = points
+        .filter(p => p.timestamp >= startTime)
+        .sort((a, b) => a.timestamp - b.timestamp);
+    const lastSeen = _lastSeenTimestamp;
+    const rawCount = _rawSegments.reduce((sum, fixes) => sum + fixes.length, 0);
+    const mergedSegments = mergeLateFixes(inSession.filter(p => p.timestamp <= lastSeen));
+    const merged = _rawSegments.reduce((sum, fixes) => sum + fixes.length, 0) - rawCount;
+    const unseen = inSession.filter(p => p.timestamp > lastSeen);
+    if (merged === 0 && unseen.length === 0) return 0;
+
+    if (mergedSegments.length > 0) {
+        // The current stretch is the one a suspended watch leaves gaps in;
+        // anything further back takes a full rebuild
+        if (mergedSegments.every(segment => segment === _rawSegments.length - 1)) rebuildCurrentSegment();
+        else rebuildFromRawFixes();
+    }
+    _isReplaying = true;
+    try {
+        for (const point of unseen) handleTrackingPoint(point);
+    } finally {
+        _isReplaying = false;
+    }
     notifyListeners();
+    return merged + unseen.length;
+}
+
+function replayBackgroundBuffer(): Promise<number> {
+    return LocationService.drainBackgroundPoints()
+        .then(replayPoints)
+        .catch(err => {
+            console.error('Failed to replay background points:', err);
+            return 0;
+        });
+}
+
+/** Serialize storage writes so chunks and metadata land in order. */
+function enqueuePersist(task: () => Promise<void>): Promise<void> {
+    _persistQueue = _persistQueue
+        .then(task)
+        .catch(err => console.error('Tracking checkpoint error:', err));
+    return _persistQueue;
+}
+
+function groupPendingPoints(pending: { segment: number; point: GPSPoint }[]): SessionChunk {
+    const chunk: SessionChunk = [];
+    if (_replacedSegment !== null) {
+        chunk.push({ segment: _replacedSegment, points: [], replace: true });
+        _replacedSegment = null;
+    }
+    for (const { segment, point } of pending) {
+        const last = chunk[chunk.length - 1];
+        if (last && last.segment === segment) last.points.push(point);
+        else chunk.push({ segment, points: [point] });
+    }
+    return chunk;
+}
+
+/**
+ * Persist points recorded since the last checkpoint. Without `force`, this only
+ * writes once a batch has built up, keeping storage I/O off the per-point path.
+ */
+function checkpoint(force = false): Promise<void> {
+    if (!_isTracking || !_activityType || _startTime === null) return Promise.resolve();
+
+    const now = Date.now();
+    if (!force &&
+        _pendingPoints.length < CHECKPOINT_BATCH_SIZE &&
+        now - _lastCheckpointAt < CHECKPOINT_MAX_DELAY_MS) {
+        return Promise.resolve();
+    }
+
+    // The background task buffers every fix, including ones we already got
+    // live — drain it at checkpoint cadence so it never grows large.
+    if (!force && !_isReplaying) replayBackgroundBuffer();
+
+    const chunk = groupPendingPoints(_pendingPoints);
+    _pendingPoints = [];
+    _lastCheckpointAt = now;
+
+    const chunkIndex = _chunkCount;
+    if (chunk.length > 0) _chunkCount++;
+
+    const meta: SessionMeta = {
+        version: 1,
+        activityType: _activityType,
+        startTime: _startTime,
+        runningDistance: _runningDistance,
+        pausedDuration: _pausedDuration,
+        isPaused: _isPaused,
+        pauseReason: _pauseReason,
+        pausedAt: _pausedAt,
+        chunkCount: _chunkCount,
+        checkpointedAt: now,
+        laps: _laps,
+        splitUnit: _splits.unit,
+        trackingProfile: _sessionProfile,
+    };
+
+    return enqueuePersist(async () => {
+        // Chunk first, then metadata: a kill between the two leaves an orphan
+        // chunk that restore ignores, never metadata pointing at missing data.
+        if (chunk.length > 0) {
+            await AsyncStorage.setItem(SESSION_CHUNK_PREFIX + chunkIndex, JSON.stringify(chunk));
+        }
+        await AsyncStorage.setItem(SESSION_KEY, JSON.stringify(meta));
+    });
+}
+
+function clearCheckpoint(): Promise<void> {
+    _pendingPoints = [];
+    _replacedSegment = null;
+    _chunkCount = 0;
+    _lastCheckpointAt = 0;
+    return enqueuePersist(async () => {
+        const keys = await AsyncStorage.getAllKeys();
+        const sessionKeys = keys.filter(k => k === SESSION_KEY || k.startsWith(SESSION_CHUNK_PREFIX));
+        if (sessionKeys.length > 0) await AsyncStorage.multiRemove(sessionKeys);
+    });
+}
+
+async function readInterruptedSession(): Promise<InterruptedSession | null> {
+    const raw = await AsyncStorage.getItem(SESSION_KEY);
+    if (!raw) return null;
+
+    const meta: SessionMeta = JSON.parse(raw);
+    if (!meta || meta.version !== 1 || !meta.activityType || typeof meta.startTime !== 'number') {
+        return null;
+    }
+
+    const chunkKeys = Array.from({ length: meta.chunkCount || 0 }, (_, i) => SESSION_CHUNK_PREFIX + i);
+    const entries = chunkKeys.length > 0 ? await AsyncStorage.multiGet(chunkKeys) : [];
+
+    const segments: GPSPoint[][] = [];
+    for (const [, value] of entries) {
+        if (!value) continue;
+        const chunk: SessionChunk = JSON.parse(value);
+        for (const { segment, points, replace } of chunk) {
+            while (segments.length <= segment) segments.push([]);
+            if (replace) segments[segment] = [];
+            segments[segment].push(...points);
+        }
+    }
+
+    // A pause that was still running at the last checkpoint counts up to that checkpoint
+    const openPause = meta.isPaused && meta.pausedAt !== null
+        ? Math.max(0, meta.checkpointedAt - meta.pausedAt)
+        : 0;
+
+    return {
+        activityType: meta.activityType,
+        startTime: meta.startTime,
+        segments: segments.filter(seg => seg.length > 0),
+        runningDistance: meta.runningDistance || 0,
+        pausedDuration: (meta.pausedDuration || 0) + openPause,
+        checkpointedAt: meta.checkpointedAt,
+        laps: Array.isArray(meta.laps) ? meta.laps : [],
+        splitUnit: meta.splitUnit === 'mi' ? 'mi' : 'km',
+        trackingProfile: isTrackingProfile(meta.trackingProfile) ? meta.trackingProfile : DEFAULT_TRACKING_PROFILE,
+    };
 }
 
 function resetKalmanState() {
@@ -240,16 +727,285 @@ function resetKalmanState() {
     _lastPointTimestamp = 0;
 }
 
+function resetSegments() {
+    _segments = [[]];
+    _path = _segments[0];
+    _isPaused = false;
+    _pauseReason = null;
+    _pausedAt = null;
+    _pausedDuration = 0;
+    _stillSince = null;
+    _autoPauseAnchor = null;
+}
+
+function currentPausedDuration(now: number = Date.now()): number {
+    return _pausedDuration + (_isPaused && _pausedAt !== null ? now - _pausedAt : 0);
+}
+
+function currentMovingDuration(now: number = Date.now()): number {
+    if (!_startTime) return 0;
+    return Math.max(0, now - _startTime - currentPausedDuration(now));
+}
+
+/** The lap in progress: everything since the last lap was closed. */
+function currentLap(now: number): ActivitySplit {
+    const lappedDistance = _laps.reduce((sum, lap) => sum + lap.distance, 0);
+    const lappedDuration = _laps.reduce((sum, lap) => sum + lap.duration, 0);
+    return {
+        distance: Math.max(0, _runningDistance - lappedDistance),
+        duration: Math.max(0, currentMovingDuration(now) / 1000 - lappedDuration),
+        endTime: now,
+    };
+}
+
+function resetSplits(unit: SplitUnit = _splitUnit) {
+    _splits = createSplitAccumulator(unit);
+    _laps = [];
+}
+
+/** Rebuild split progress from recorded segments, e.g. after restoring a session. */
+function rebuildSplits(unit: SplitUnit) {
+    _splits = createSplitAccumulator(unit);
+    for (const segment of _segments) {
+        for (let i = 1; i < segment.length; i++) {
+            try {
+                const d = getDistance(
+                    { latitude: segment[i - 1].lat, longitude: segment[i - 1].lng },
+                    { latitude: segment[i].lat, longitude: segment[i].lng }
+                );
+                if (d > 0 && d < MAX_SEGMENT_DISTANCE_M) {
+                    _splits.add(d, segment[i].timestamp - segment[i - 1].timestamp, segment[i].timestamp);
+                }
+            } catch { /* skip */ }
+        }
+    }
+}
+
+function resetSampling(profile: TrackingProfile) {
+    _sessionProfile = profile;
+    _sampling = null;
+    _samplingStill = false;
+    _samplingChangedAt = 0;
+    _gpsQuality = createGpsQualityTracker();
+}
+
+/** Hand the GPS back to its default sampling once nothing is being recorded. */
+function releaseSampling() {
+    _sampling = null;
+    LocationService.setSampling(null).catch(() => {});
+}
+
+function resetTypeDetection() {
+    _classifier = createActivityClassifier();
+    _rawSegments = [[]];
+    _typeSuggestion = null;
+    _dismissedTypes = new Set();
+    _typeConfirmed = false;
+}
+
+/** Start a new raw segment alongside a new path segment. */
+function openRawSegment() {
+    if (_rawSegments[_rawSegments.length - 1].length > 0) _rawSegments.push([]);
+    _classifier.breakGap();
+}
+
+/** Raise a type suggestion once the recent speeds clearly don't fit the type. */
+function checkTypeSuggestion(at: number) {
+    if (!_activityType || _typeSuggestion) return;
+    const suggestion = _classifier.suggest(_activityType);
+    if (!suggestion || _dismissedTypes.has(suggestion.type)) return;
+    _typeSuggestion = suggestion;
+    emitEvent({ type: 'typeSuggestion', at, suggestion });
+}
+
+/**
+ * Run every raw fix through the pipeline again, e.g. after the activity type
+ * changed. Segment boundaries, pauses, laps and GPS quality stay as recorded;
+ * path, distance and splits come out as if the new type had been picked.
+ */
+function rebuildFromRawFixes() {
+    const pause = {
+        isPaused: _isPaused,
+        pauseReason: _pauseReason,
+        pausedAt: _pausedAt,
+        pausedDuration: _pausedDuration,
+        anchor: _autoPauseAnchor,
+    };
+    const autoPause = _autoPause;
+    const quality = _gpsQuality;
+    const lastSeen = _lastSeenTimestamp;
+
+    resetSegments();
+    _splits = createSplitAccumulator(_splits.unit);
+    _runningDistance = 0;
+    _rollingSpeedPoints = [];
+    _rollingSpeed = 0;
+    _gpsQuality = createGpsQualityTracker();
+    // The pauses already happened where they happened
+    _autoPause = { ...autoPause, enabled: false };
+    clearCheckpoint();
+
+    _isReplaying = true;
+    _isRebuilding = true;
+    try {
+        _rawSegments.forEach((fixes, i) => {
+            if (i > 0 && _path.length > 0) {
+                _path = [];
+                _segments.push(_path);
+            }
+            resetKalmanState();
+            _recentPositions = [];
+            _stillSince = null;
+            _lastSeenTimestamp = 0;
+            for (const fix of fixes) processTrackingPoint(fix);
+        });
+    } finally {
+        _isReplaying = false;
+        _isRebuilding = false;
+        _autoPause = autoPause;
+        _gpsQuality = quality;
+        _lastSeenTimestamp = lastSeen;
+        _isPaused = pause.isPaused;
+        _pauseReason = pause.pauseReason;
+        _pausedAt = pause.pausedAt;
+        _pausedDuration = pause.pausedDuration;
+        _autoPauseAnchor = pause.anchor;
+    }
+    checkpoint(true);
+}
+
+/** Length of a path segment as distance was counted while recording it. */
+function segmentDistance(segment: GPSPoint[]): number {
+    let distance = 0;
+    for (let i = 1; i < segment.length; i++) {
+        try {
+            const d = getDistance(
+                { latitude: segment[i - 1].lat, longitude: segment[i - 1].lng },
+                { latitude: segment[i].lat, longitude: segment[i].lng }
+            );
+            if (d > 0 && d < MAX_SEGMENT_DISTANCE_M) distance += d;
+        } catch { /* skip */ }
+    }
+    return distance;
+}
+
+/**
+ * Run the current stretch's raw fixes through the pipeline again after late
+ * fixes were merged into them, leaving earlier segments and their
+ * checkpoints alone. The current path segment is always made of just the
+ * current raw segment's fixes, since a segment is only opened on resume.
+ */
+function rebuildCurrentSegment() {
+    const pause = {
+        isPaused: _isPaused,
+        pauseReason: _pauseReason,
+        pausedAt: _pausedAt,
+        anchor: _autoPauseAnchor,
+    };
+    const autoPause = _autoPause;
+    const quality = _gpsQuality;
+    const lastSeen = _lastSeenTimestamp;
+    const segment = _segments.length - 1;
+
+    _runningDistance -= segmentDistance(_path);
+    _path.length = 0;
+    _pendingPoints = _pendingPoints.filter(p => p.segment !== segment);
+    _replacedSegment = segment;
+    _rollingSpeedPoints = [];
+    _rollingSpeed = 0;
+    _recentPositions = [];
+    _stillSince = null;
+    _isPaused = false;
+    _pauseReason = null;
+    _gpsQuality = createGpsQualityTracker();
+    _autoPause = { ...autoPause, enabled: false };
+    resetKalmanState();
+
+    _isReplaying = true;
+    _isRebuilding = true;
+    try {
+        _lastSeenTimestamp = 0;
+        for (const fix of _rawSegments[_rawSegments.length - 1]) processTrackingPoint(fix);
+    } finally {
+        _isReplaying = false;
+        _isRebuilding = false;
+        _autoPause = autoPause;
+        _gpsQuality = quality;
+        _lastSeenTimestamp = lastSeen;
+        _isPaused = pause.isPaused;
+        _pauseReason = pause.pauseReason;
+        _pausedAt = pause.pausedAt;
+        _autoPauseAnchor = pause.anchor;
+    }
+    rebuildSplits(_splits.unit);
+    checkpoint(true);
+}
+
+function switchActivityType(type: ActivityType) {
+    _activityType = type;
+    _typeSuggestion = null;
+    rebuildFromRawFixes();
+}
+
+/**
+ * Correct the type at the end of a recording the user never confirmed, when
+ * the whole speed profile says it was something else. Returns the type it
+ * was corrected from, or null.
+ */
+function autoCorrectType(): ActivityType | null {
+    if (!_isTracking || !_activityType || _typeConfirmed) return null;
+    const correction = _classifier.correction(_activityType);
+    if (!correction || _dismissedTypes.has(correction.type)) return null;
+    const from = _activityType;
+    switchActivityType(correction.type);
+    return from;
+}
+
+function flattenSegments(): GPSPoint[] {
+    return _segments.length === 1 ? _segments[0] : ([] as GPSPoint[]).concat(..._segments);
+}
+
+function nonEmptySegments(): GPSPoint[][] {
+    return _segments.filter(seg => seg.length > 0).map(seg => [...seg]);
+}
+
 export const TrackingStore = {
     get isTracking() { return _isTracking; },
     get activityType() { return _activityType; },
     get startTime() { return _startTime; },
-    get path() { return _path; },
+    get isPaused() { return _isPaused; },
+    /** Why recording is paused — null while recording. */
+    get pauseReason() { return _pauseReason; },
+    get autoPauseSettings(): AutoPauseSettings { return { ..._autoPause }; },
+    /** All recorded points across segments, flattened for map display. */
+    get path() { return flattenSegments(); },
+    /** Recorded segments — one per uninterrupted stretch between pauses. */
+    get segments() { return _segments; },
     get runningDistance() { return _runningDistance; },
+    /** Total time spent paused (ms), including a pause still in progress. */
+    get pausedDuration() { return currentPausedDuration(); },
+    /** Wall-clock time since start (ms), pauses included. */
+    get elapsedDuration() { return _startTime ? Date.now() - _startTime : 0; },
+    /** Time spent actually recording (ms), pauses excluded. */
+    get movingDuration() { return currentMovingDuration(); },
+    /** Unit for automatic splits in new sessions. */
+    get splitUnit() { return _splitUnit; },
+    /** Automatic splits completed so far in this session. */
+    get splits() { return _splits.completed; },
+    /** Laps closed so far in this session. */
+    get laps() { return [..._laps]; },
+    /** GPS sampling profile for new sessions. */
+    get trackingProfile() { return _trackingProfile; },
+    /** Profile the current session is recording with. */
+    get sessionTrackingProfile() { return _sessionProfile; },
+    /** GPS quality of the current session so far. */
+    get gpsQuality(): GpsQuality { return _gpsQuality.summary(); },
+    /** A type the recent speeds point to instead of the picked one, until switched or dismissed. */
+    get typeSuggestion(): TypeAssessment | null { return _typeSuggestion; },
     /** Rolling speed (m/s) computed from distance covered in last ~12 seconds.
      *  Returns 0 if the most recent data point is older than the rolling window (stale). */
     get rollingSpeed() {
-        if (_rollingSpeedPoints.length === 0) return 0;
+        if (_isPaused || _rollingSpeedPoints.length === 0) return 0;
         const newest = _rollingSpeedPoints[_rollingSpeedPoints.length - 1];
         if (Date.now() - newest.time > ROLLING_SPEED_WINDOW_MS) return 0;
         return _rollingSpeed;
@@ -261,23 +1017,158 @@ export const TrackingStore = {
         return () => { _listeners.delete(listener); };
     },
 
+    /** Subscribe to discrete tracking events (auto-pause/resume). Returns unsubscribe function. */
+    onEvent(listener: (event: TrackingEvent) => void): () => void {
+        _eventListeners.add(listener);
+        return () => { _eventListeners.delete(listener); };
+    },
+
+    /** Update auto-pause settings and persist them for future sessions. */
+    async configureAutoPause(settings: Partial<AutoPauseSettings>): Promise<void> {
+        _autoPause = {
+            enabled: settings.enabled ?? _autoPause.enabled,
+            delayMs: Math.max(MIN_AUTO_PAUSE_DELAY_MS, settings.delayMs ?? _autoPause.delayMs),
+        };
+        // Turning auto-pause off mid-pause resumes immediately
+        if (!_autoPause.enabled && _isPaused && _pauseReason === 'auto') {
+            exitPause();
+        }
+        notifyListeners();
+        try {
+            await AsyncStorage.setItem(AUTO_PAUSE_SETTINGS_KEY, JSON.stringify(_autoPause));
+        } catch (err) {
+            console.error('Failed to save auto-pause settings:', err);
+        }
+    },
+
+    /** Load persisted auto-pause settings. Falls back to defaults on error. */
+    async loadAutoPauseSettings(): Promise<AutoPauseSettings> {
+        try {
+            const stored = await AsyncStorage.getItem(AUTO_PAUSE_SETTINGS_KEY);
+            if (stored) {
+                const parsed = JSON.parse(stored);
+                _autoPause = {
+                    enabled: typeof parsed.enabled === 'boolean' ? parsed.enabled : _autoPause.enabled,
+                    delayMs: typeof parsed.delayMs === 'number'
+                        ? Math.max(MIN_AUTO_PAUSE_DELAY_MS, parsed.delayMs)
+                        : _autoPause.delayMs,
+                };
+            }
+        } catch (err) {
+            console.error('Failed to load auto-pause settings:', err);
+        }
+        return { ..._autoPause };
+    },
+
+    /** Set the unit for automatic splits and persist it. Applies from the next session. */
+    async configureSplitUnit(unit: SplitUnit): Promise<void> {
+        _splitUnit = unit;
+        notifyListeners();
+        try {
+            await AsyncStorage.setItem(SPLIT_UNIT_KEY, unit);
+        } catch (err) {
+            console.error('Failed to save split unit:', err);
+        }
+    },
+
+    /** Load the persisted split unit. Falls back to km. */
+    async loadSplitUnit(): Promise<SplitUnit> {
+        try {
+            const stored = await AsyncStorage.getItem(SPLIT_UNIT_KEY);
+            if (stored === 'km' || stored === 'mi') _splitUnit = stored;
+        } catch (err) {
+            console.error('Failed to load split unit:', err);
+        }
+        return _splitUnit;
+    },
+
+    /** Set the GPS sampling profile and persist it. Applies from the next session. */
+    async configureTrackingProfile(profile: TrackingProfile): Promise<void> {
+        _trackingProfile = profile;
+        notifyListeners();
+        try {
+            await AsyncStorage.setItem(TRACKING_PROFILE_KEY, profile);
+        } catch (err) {
+            console.error('Failed to save tracking profile:', err);
+        }
+    },
+
+    /** Load the persisted tracking profile. Falls back to balanced. */
+    async loadTrackingProfile(): Promise<TrackingProfile> {
+        try {
+            const stored = await AsyncStorage.getItem(TRACKING_PROFILE_KEY);
+            if (isTrackingProfile(stored)) _trackingProfile = stored;
+        } catch (err) {
+            console.error('Failed to load tracking profile:', err);
+        }
+        return _trackingProfile;
+    },
+
+    /**
+     * Close the current lap and start a new one. Returns the closed lap, or
+     * null while paused or if nothing has been covered since the last one.
+     */
+    lap(): ActivitySplit | null {
+        if (!_isTracking || _isPaused) return null;
+        const lap = currentLap(Date.now());
+        if (lap.distance <= 0) return null;
+        _laps.push(lap);
+        checkpoint(true);
+        notifyListeners();
+        return lap;
+    },
+
+    /**
+     * Switch the activity type mid-recording. The path so far is rebuilt from
+     * the raw fixes with the new type's limits, so nothing the old type
+     * rejected is lost. A switch by hand is final: no auto-correction on stop.
+     */
+    changeActivityType(type: ActivityType): void {
+        if (!_isTracking || !_activityType || type === _activityType) return;
+        _typeConfirmed = true;
+        switchActivityType(type);
+        _samplingChangedAt = 0;
+        adaptSampling();
+        notifyListeners();
+    },
+
+    /** Keep the picked type; the dismissed suggestion isn't raised again or auto-applied. */
+    dismissTypeSuggestion(): void {
+        if (!_typeSuggestion) return;
+        _dismissedTypes.add(_typeSuggestion.type);
+        _typeSuggestion = null;
+        notifyListeners();
+    },
+
     /** Start a new tracking session. Creates its own location subscription. */
     async start(type: ActivityType): Promise<void> {
         _isTracking = true;
         _activityType = type;
         _startTime = Date.now();
-        _path = [];
+        resetSegments();
+        resetSplits();
         _runningDistance = 0;
         _recentPositions = [];
         _rollingSpeedPoints = [];
         _rollingSpeed = 0;
+        _lastSeenTimestamp = 0;
         resetKalmanState();
+        resetSampling(_trackingProfile);
+        resetTypeDetection();
+
+        // Drop any stale checkpoint and write the new session's metadata right away
+        clearCheckpoint();
+        checkpoint(true);
+        LocationService.clearBackgroundPoints().catch(() => {});
 
         // Force fresh event mode check at activity boundaries (#4)
         EventModeService.clearCache();
 
         WakeLockService.request().catch(() => {});
 
+        // Sampling is set before the subscription so the first watch uses it
+        adaptSampling();
+
         // Start a dedicated location subscription for path recording
         if (!_locationUnsubscribe) {
             _locationUnsubscribe = await LocationService.startTracking(
@@ -289,31 +1180,211 @@ export const TrackingStore = {
         notifyListeners();
     },
 
+    /**
+     * Pause recording. Incoming points are ignored until resume(), and the
+     * rolling speed window is cleared so the pause doesn't bleed into pace.
+     */
+    pause(): void {
+        if (!_isTracking) return;
+        if (_isPaused) {
+            // Promote an auto-pause to manual so movement won't resume it
+            _pauseReason = 'manual';
+            _autoPauseAnchor = null;
+            checkpoint(true);
+            notifyListeners();
+            return;
+        }
+        enterPause('manual', Date.now());
+        adaptSampling();
+        checkpoint(true);
+        notifyListeners();
+    },
+
+    /** Resume recording into a fresh segment. */
+    resume(): void {
+        if (!_isTracking || !_isPaused) return;
+        const now = Date.now();
+        // Buffered fixes from during the pause must not be replayed into the new segment
+        _lastSeenTimestamp = Math.max(_lastSeenTimestamp, now);
+        exitPause(now);
+        adaptSampling(now);
+        checkpoint(true);
+        notifyListeners();
+    },
+
+    /** Write any buffered points now (e.g. when the app is backgrounded). */
+    flushCheckpoint(): Promise<void> {
+        return checkpoint(true);
+    },
+
+    /**
+     * Replay points the background location task buffered while the JS
+     * context was suspended. Call when the app returns to the foreground and
+     * before stopping. Returns how many points were fed to the pipeline.
+     */
+    async replayBackgroundPoints(): Promise<number> {
+        if (!_isTracking) return 0;
+        return replayBackgroundBuffer();
+    },
+
+    /** True if a previous session was killed before it could be stopped. */
+    async hasInterruptedSession(): Promise<boolean> {
+        if (_isTracking) return false;
+        try {
+            return (await AsyncStorage.getItem(SESSION_KEY)) !== null;
+        } catch {
+            return false;
+        }
+    },
+
+    /** Load the interrupted session, or null if there is none (or it's unreadable). */
+    async loadInterruptedSession(): Promise<InterruptedSession | null> {
+        if (_isTracking) return null;
+        try {
+            await _persistQueue;
+            return await readInterruptedSession();
+        } catch (err) {
+            console.error('Failed to load interrupted tracking session:', err);
+            return null;
+        }
+    },
+
+    /** Throw away an interrupted session (after it's been saved or discarded). */
+    async discardInterruptedSession(): Promise<void> {
+        if (_isTracking) return;
+        await clearCheckpoint();
+    },
+
+    /**
+     * Continue recording an interrupted session. Points the background task
+     * buffered after the last checkpoint are replayed into the last segment;
+     * the time nothing was recorded is counted as paused, and live recording
+     * continues in a new segment.
+     */
+    async resumeInterruptedSession(session: InterruptedSession): Promise<void> {
+        if (_isTracking) return;
+
+        const buffered = await LocationService.drainBackgroundPoints();
+
+        _isTracking = true;
+        _activityType = session.activityType;
+        _startTime = session.startTime;
+        _segments = session.segments.map(seg => [...seg]);
+        if (_segments.length === 0) _segments.push([]);
+        _path = _segments[_segments.length - 1];
+        _isPaused = false;
+        _pauseReason = null;
+        _pausedAt = null;
+        _pausedDuration = session.pausedDuration;
+        _stillSince = null;
+        _autoPauseAnchor = null;
+        _runningDistance = session.runningDistance;
+        _laps = [...(session.laps || [])];
+        rebuildSplits(session.splitUnit || 'km');
+        resetSampling(session.trackingProfile || _trackingProfile);
+        _gpsQuality = trackGpsQuality(_segments);
+        // Restored points stand in for the raw fixes, which aren't checkpointed
+        resetTypeDetection();
+        _rawSegments = _segments.map(seg => [...seg]);
+        for (const segment of _rawSegments) {
+            _classifier.breakGap();
+            for (const point of segment) _classifier.add(point);
+        }
+        _recentPositions = [];
+        _rollingSpeedPoints = [];
+        _rollingSpeed = 0;
+        _lastSeenTimestamp = _path.length > 0 ? _path[_path.length - 1].timestamp : 0;
+        resetKalmanState();
+
+        // Rewrite the checkpoint from scratch so chunk numbering starts clean
+        clearCheckpoint();
+        session.segments.forEach((points, segment) => {
+            for (const point of points) _pendingPoints.push({ segment, point });
+        });
+
+        replayPoints(buffered);
+
+        // Whatever the replay didn't cover was dead time. An auto-pause opened
+        // during the replay already accounts for it.
+        if (!_isPaused) {
+            const recordedUntil = Math.max(session.checkpointedAt, _lastSeenTimestamp);
+            _pausedDuration += Math.max(0, Date.now() - recordedUntil);
+        }
+        if (_path.length > 0) {
+            _path = [];
+            _segments.push(_path);
+        }
+        openRawSegment();
+        resetKalmanState();
+        checkpoint(true);
+
+        EventModeService.clearCache();
+        WakeLockService.request().catch(() => {});
+        adaptSampling();
+
+        if (!_locationUnsubscribe) {
+            _locationUnsubscribe = await LocationService.startTracking(
+                handleTrackingPoint,
+                (error) => console.error('Tracking location error:', error?.message)
+            );
+        }
+
+        notifyListeners();
+    },
+
     /** Stop tracking and return the final accumulated state. */
-    stop(): { path: GPSPoint[]; activityType: ActivityType | null; startTime: number | null; runningDistance: number } {
+    stop(): {
+        path: GPSPoint[];
+        segments: GPSPoint[][];
+        activityType: ActivityType | null;
+        startTime: number | null;
+        runningDistance: number;
+        pausedDuration: number;
+        splits: ActivitySplit[];
+        splitUnit: SplitUnit;
+        laps: ActivitySplit[];
+        trackingProfile: TrackingProfile;
+        gpsQuality: GpsQuality;
+        typeCorrectedFrom: ActivityType | null;
+    } {
+        const typeCorrectedFrom = autoCorrectType();
+        const now = Date.now();
         const result = {
-            path: [..._path],
+            path: [...flattenSegments()],
+            segments: nonEmptySegments(),
             activityType: _activityType,
             startTime: _startTime,
             runningDistance: _runningDistance,
+            pausedDuration: currentPausedDuration(now),
+            splits: _splits.finish(),
+            splitUnit: _splits.unit,
+            laps: closeLaps(_laps, _runningDistance, currentMovingDuration(now) / 1000, now),
+            trackingProfile: _sessionProfile,
+            gpsQuality: _gpsQuality.summary(),
+            typeCorrectedFrom,
         };
 
         _isTracking = false;
         _activityType = null;
         _startTime = null;
-        _path = [];
+        resetSegments();
+        resetSplits();
         _runningDistance = 0;
         _recentPositions = [];
         _rollingSpeedPoints = [];
         _rollingSpeed = 0;
+        _lastSeenTimestamp = 0;
         resetKalmanState();
+        resetTypeDetection();
 
         // Clean up the tracking location subscription
         if (_locationUnsubscribe) {
             _locationUnsubscribe();
             _locationUnsubscribe = null;
         }
+        releaseSampling();
 
+        clearCheckpoint();
         WakeLockService.release().catch(() => {});
         notifyListeners();
         return result;
@@ -324,18 +1395,23 @@ export const TrackingStore = {
         _isTracking = false;
         _activityType = null;
         _startTime = null;
-        _path = [];
+        resetSegments();
+        resetSplits();
         _runningDistance = 0;
         _recentPositions = [];
         _rollingSpeedPoints = [];
         _rollingSpeed = 0;
+        _lastSeenTimestamp = 0;
         resetKalmanState();
+        resetTypeDetection();
 
         if (_locationUnsubscribe) {
             _locationUnsubscribe();
             _locationUnsubscribe = null;
         }
+        releaseSampling();
 
+        clearCheckpoint();
         WakeLockService.release().catch(() => {});
         notifyListeners();
     },
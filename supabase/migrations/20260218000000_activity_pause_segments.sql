@@ -0,0 +1,43 @@
+-- Pause/resume support: activities now store moving time in `duration`
+-- and wall-clock time (pauses included) in `elapsed_time`.
+-- ========================================
+
+ALTER TABLE public.activities
+    ADD COLUMN IF NOT EXISTS elapsed_time float;
+
+-- Existing rows were recorded without pauses, so elapsed == moving time
+UPDATE public.activities
+SET elapsed_time = duration
+WHERE elapsed_time IS NULL;
+
+-- Non-owner branch lists columns explicitly; include the new one so the
+-- row shape still matches SETOF public.activities.
+CREATE OR REPLACE FUNCTION public.get_user_activities(target_user_id uuid)
+RETURNS SETOF public.activities
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF auth.uid() = target_user_id THEN
+        RETURN QUERY
+        SELECT * FROM public.activities
+        WHERE user_id = target_user_id
+        ORDER BY start_time DESC;
+    ELSE
+        RETURN QUERY
+        SELECT
+            id, user_id, type, start_time, end_time,
+            distance, duration,
+            '[]'::jsonb AS polylines,
+            is_synced, territory_id, average_speed,
+            elapsed_time
+        FROM public.activities
+        WHERE user_id = target_user_id
+        ORDER BY start_time DESC;
+    END IF;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_user_activities(uuid) FROM anon;
+GRANT EXECUTE ON FUNCTION public.get_user_activities(uuid) TO authenticated;
@@ -0,0 +1,6 @@
+-- Activity import: how old an imported activity may be and still claim territory
+-- ========================================
+
+INSERT INTO public.app_settings (key, value)
+VALUES ('import_max_age_days', '7'::jsonb)
+ON CONFLICT (key) DO NOTHING;
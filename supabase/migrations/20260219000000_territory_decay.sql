@@ -0,0 +1,70 @@
+-- Territory decay: track when each territory was last defended and weight
+-- leaderboard totals by strength. Must match TERRITORY_DECAY in GameEngine.
+-- ========================================
+
+ALTER TABLE public.territories
+    ADD COLUMN IF NOT EXISTS last_defended_at timestamptz DEFAULT now();
+
+UPDATE public.territories
+SET last_defended_at = claimed_at
+WHERE claimed_at IS NOT NULL;
+
+-- Full strength for 7 days, then halves every 14 days, never below 0.1
+CREATE OR REPLACE FUNCTION public.territory_strength(p_last_defended_at timestamptz)
+RETURNS float
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT CASE
+        WHEN p_last_defended_at IS NULL THEN 1.0
+        ELSE GREATEST(
+            0.1,
+            LEAST(
+                1.0,
+                power(0.5, GREATEST(0, EXTRACT(EPOCH FROM (now() - p_last_defended_at)) / 86400.0 - 7) / 14.0)
+            )
+        )
+    END::float;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_leaderboard(
+    p_since timestamptz DEFAULT NULL,
+    p_limit int DEFAULT 50
+)
+RETURNS TABLE(
+    user_id uuid,
+    username text,
+    avatar_url text,
+    total_area float,
+    territory_count bigint
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF p_limit IS NULL OR p_limit < 1 THEN
+        p_limit := 50;
+    ELSIF p_limit > 500 THEN
+        p_limit := 500;
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        t.owner_id AS user_id,
+        u.username,
+        u.avatar_url,
+        COALESCE(SUM(t.area * public.territory_strength(COALESCE(t.last_defended_at, t.claimed_at))), 0)::float AS total_area,
+        COUNT(t.id) AS territory_count
+    FROM public.territories t
+    JOIN public.users u ON u.id = t.owner_id
+    WHERE (p_since IS NULL OR t.claimed_at >= p_since)
+    GROUP BY t.owner_id, u.username, u.avatar_url
+    ORDER BY total_area DESC
+    LIMIT p_limit;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_leaderboard(timestamptz, int) FROM anon;
+GRANT EXECUTE ON FUNCTION public.get_leaderboard(timestamptz, int) TO authenticated;
@@ -0,0 +1,231 @@
+-- Multi-part territories: a territory split by an invasion keeps every
+-- fragment, and holes survive. territories.polygon is either a single
+-- [lng, lat] ring (as before) or GeoJSON MultiPolygon coordinates.
+-- conquer_territory validates point counts for both shapes.
+-- ========================================
+
+CREATE OR REPLACE FUNCTION public.territory_polygon_point_count(p_polygon jsonb)
+RETURNS int
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT CASE
+        WHEN p_polygon IS NULL OR jsonb_typeof(p_polygon) != 'array' THEN 0
+        -- Single ring: [[lng, lat], ...]
+        WHEN jsonb_typeof(p_polygon->0->0) = 'number' THEN jsonb_array_length(p_polygon)
+        -- MultiPolygon: [[[[lng, lat], ...] outer, ...holes], ...parts]
+        ELSE COALESCE((
+            SELECT SUM(jsonb_array_length(ring))::int
+            FROM jsonb_array_elements(p_polygon) AS part,
+                 jsonb_array_elements(CASE WHEN jsonb_typeof(part) = 'array' THEN part ELSE '[]'::jsonb END) AS ring
+            WHERE jsonb_typeof(ring) = 'array'
+        ), 0)
+    END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.conquer_territory(
+    p_new_territory_id uuid,
+    p_owner_id uuid,
+    p_owner_username text,
+    p_activity_id uuid,
+    p_name text,
+    p_claimed_at timestamptz,
+    p_area float,
+    p_perimeter float,
+    p_center jsonb,
+    p_polygon jsonb,
+    p_history jsonb,
+    p_modified_territories jsonb DEFAULT '[]'::jsonb,
+    p_deleted_territory_ids uuid[] DEFAULT '{}'::uuid[],
+    p_invasions jsonb DEFAULT '[]'::jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    mod_territory jsonb;
+    invasion jsonb;
+    del_id uuid;
+    last_claim timestamptz;
+    polygon_length int;
+    center_lat float;
+    center_lng float;
+    mod_id uuid;
+    del_owner uuid;
+    mod_owner uuid;
+    inv_territory_owner uuid;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    IF p_owner_id != auth.uid() THEN
+        RAISE EXCEPTION 'Unauthorized: can only conquer territories as yourself';
+    END IF;
+
+    -- Rate limiting: max 1 territory claim per 30 seconds
+    SELECT MAX(claimed_at) INTO last_claim
+    FROM public.territories
+    WHERE owner_id = auth.uid();
+
+    IF last_claim IS NOT NULL AND (now() - last_claim) < interval '30 seconds' THEN
+        RAISE EXCEPTION 'Rate limited: wait at least 30 seconds between territory claims';
+    END IF;
+
+    -- Input validation
+    IF p_area IS NULL OR p_area < 0 THEN
+        RAISE EXCEPTION 'Invalid area: must be non-negative';
+    END IF;
+    IF p_area > 10000000 THEN
+        RAISE EXCEPTION 'Invalid area: exceeds maximum of 10 km²';
+    END IF;
+    IF p_perimeter IS NOT NULL AND p_perimeter < 0 THEN
+        RAISE EXCEPTION 'Invalid perimeter: must be non-negative';
+    END IF;
+    IF p_perimeter IS NOT NULL AND p_perimeter > 100000 THEN
+        RAISE EXCEPTION 'Invalid perimeter: exceeds maximum of 100 km';
+    END IF;
+    IF p_polygon IS NULL OR jsonb_typeof(p_polygon) != 'array' THEN
+        RAISE EXCEPTION 'Invalid polygon: must be a JSON array';
+    END IF;
+    polygon_length := public.territory_polygon_point_count(p_polygon);
+    IF polygon_length < 3 THEN
+        RAISE EXCEPTION 'Invalid polygon: must have at least 3 points';
+    END IF;
+    IF polygon_length > 50000 THEN
+        RAISE EXCEPTION 'Invalid polygon: too many points (max 50000)';
+    END IF;
+    IF p_center IS NULL OR jsonb_typeof(p_center) != 'object' THEN
+        RAISE EXCEPTION 'Invalid center: must be a JSON object with lat/lng';
+    END IF;
+    center_lat := (p_center->>'lat')::float;
+    center_lng := (p_center->>'lng')::float;
+    IF center_lat IS NULL OR center_lat < -90 OR center_lat > 90 THEN
+        RAISE EXCEPTION 'Invalid center latitude';
+    END IF;
+    IF center_lng IS NULL OR center_lng < -180 OR center_lng > 180 THEN
+        RAISE EXCEPTION 'Invalid center longitude';
+    END IF;
+
+    -- Validate modified territories: must exist and NOT belong to caller
+    IF jsonb_array_length(p_modified_territories) > 0 THEN
+        FOR mod_territory IN SELECT * FROM jsonb_array_elements(p_modified_territories)
+        LOOP
+            mod_id := (mod_territory->>'id')::uuid;
+            SELECT owner_id INTO mod_owner FROM public.territories WHERE id = mod_id;
+            IF mod_owner IS NULL THEN
+                RAISE EXCEPTION 'Modified territory % does not exist', mod_id;
+            END IF;
+            IF mod_owner = auth.uid() THEN
+                RAISE EXCEPTION 'Cannot modify your own territory during conquering';
+            END IF;
+        END LOOP;
+    END IF;
+
+    -- Validate deleted territories: must exist and NOT belong to caller
+    IF array_length(p_deleted_territory_ids, 1) IS NOT NULL THEN
+        FOREACH del_id IN ARRAY p_deleted_territory_ids
+        LOOP
+            SELECT owner_id INTO del_owner FROM public.territories WHERE id = del_id;
+            IF del_owner IS NULL THEN
+                RAISE EXCEPTION 'Deleted territory % does not exist', del_id;
+            END IF;
+            IF del_owner = auth.uid() THEN
+                RAISE EXCEPTION 'Cannot delete your own territory during conquering';
+            END IF;
+        END LOOP;
+    END IF;
+
+    -- Modified territory area can only shrink, and what remains must be a valid shape
+    IF jsonb_array_length(p_modified_territories) > 0 THEN
+        FOR mod_territory IN SELECT * FROM jsonb_array_elements(p_modified_territories)
+        LOOP
+            mod_id := (mod_territory->>'id')::uuid;
+            DECLARE
+                current_area float;
+                new_area float;
+                mod_points int;
+            BEGIN
+                SELECT area INTO current_area FROM public.territories WHERE id = mod_id;
+                new_area := (mod_territory->>'area')::float;
+                IF new_area IS NOT NULL AND current_area IS NOT NULL AND new_area > current_area THEN
+                    RAISE EXCEPTION 'Territory area can only shrink during conquering';
+                END IF;
+                mod_points := public.territory_polygon_point_count((mod_territory->>'polygon')::jsonb);
+                IF mod_points < 3 OR mod_points > 50000 THEN
+                    RAISE EXCEPTION 'Invalid polygon for modified territory %', mod_id;
+                END IF;
+            END;
+        END LOOP;
+    END IF;
+
+    -- Validate invasions
+    IF jsonb_array_length(p_invasions) > 0 THEN
+        FOR invasion IN SELECT * FROM jsonb_array_elements(p_invasions)
+        LOOP
+            IF (invasion->>'invader_user_id')::uuid != auth.uid() THEN
+                RAISE EXCEPTION 'Invasion invader_user_id must match authenticated user';
+            END IF;
+            IF (invasion->>'new_territory_id')::uuid != p_new_territory_id THEN
+                RAISE EXCEPTION 'Invasion new_territory_id must match territory being created';
+            END IF;
+            SELECT owner_id INTO inv_territory_owner
+            FROM public.territories
+            WHERE id = (invasion->>'invaded_territory_id')::uuid;
+            IF inv_territory_owner IS NULL THEN
+                RAISE EXCEPTION 'Invaded territory does not exist';
+            END IF;
+            IF inv_territory_owner != (invasion->>'invaded_user_id')::uuid THEN
+                RAISE EXCEPTION 'invaded_user_id does not match actual territory owner';
+            END IF;
+        END LOOP;
+    END IF;
+
+    -- Insert the new territory
+    INSERT INTO public.territories (id, owner_id, name, activity_id, claimed_at, area, perimeter, center, polygon, history)
+    VALUES (p_new_territory_id, p_owner_id, p_name, p_activity_id, p_claimed_at, p_area, p_perimeter, p_center, p_polygon, p_history);
+
+    -- Update modified (shrunk) territories
+    FOR mod_territory IN SELECT * FROM jsonb_array_elements(p_modified_territories)
+    LOOP
+        UPDATE public.territories
+        SET polygon = (mod_territory->>'polygon')::jsonb,
+            area = (mod_territory->>'area')::float,
+            perimeter = (mod_territory->>'perimeter')::float,
+            center = (mod_territory->>'center')::jsonb,
+            history = (mod_territory->>'history')::jsonb
+        WHERE id = (mod_territory->>'id')::uuid;
+    END LOOP;
+
+    -- Delete fully consumed territories
+    FOREACH del_id IN ARRAY p_deleted_territory_ids
+    LOOP
+        DELETE FROM public.territories WHERE id = del_id;
+    END LOOP;
+
+    -- Insert invasion notifications
+    FOR invasion IN SELECT * FROM jsonb_array_elements(p_invasions)
+    LOOP
+        INSERT INTO public.territory_invasions (
+            invaded_user_id, invader_user_id, invader_username,
+            invaded_territory_id, new_territory_id,
+            overlap_area, territory_was_destroyed
+        ) VALUES (
+            (invasion->>'invaded_user_id')::uuid,
+            (invasion->>'invader_user_id')::uuid,
+            invasion->>'invader_username',
+            (invasion->>'invaded_territory_id')::uuid,
+            (invasion->>'new_territory_id')::uuid,
+            (invasion->>'overlap_area')::float,
+            COALESCE((invasion->>'territory_was_destroyed')::boolean, false)
+        );
+    END LOOP;
+
+    RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.conquer_territory(uuid, uuid, text, uuid, text, timestamptz, float, float, jsonb, jsonb, jsonb, jsonb, uuid[], jsonb) FROM anon;
+GRANT EXECUTE ON FUNCTION public.conquer_territory(uuid, uuid, text, uuid, text, timestamptz, float, float, jsonb, jsonb, jsonb, jsonb, uuid[], jsonb) TO authenticated;
@@ -0,0 +1,132 @@
+-- ========================================
+-- Merge own territories: a new claim that touches the owner's existing
+-- territories is folded into them client-side (GameEngine.mergeOwnTerritories).
+-- This one-off maintenance pass does the same for holdings saved before that,
+-- so no owner keeps overlapping rows that double-count on the leaderboard.
+-- ========================================
+
+CREATE EXTENSION IF NOT EXISTS postgis WITH SCHEMA extensions;
+
+-- Territory polygon jsonb (single [lng, lat] ring or MultiPolygon coordinates) as a geometry
+CREATE OR REPLACE FUNCTION public.territory_polygon_geometry(p_polygon jsonb)
+RETURNS extensions.geometry
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public, extensions
+AS $$
+DECLARE
+    coords jsonb := p_polygon;
+BEGIN
+    -- Rows written through conquer_territory may hold the polygon as a JSON string
+    IF jsonb_typeof(coords) = 'string' THEN
+        coords := (coords #>> '{}')::jsonb;
+    END IF;
+
+    IF public.territory_polygon_point_count(coords) < 3 THEN
+        RETURN NULL;
+    END IF;
+
+    RETURN ST_MakeValid(ST_SetSRID(ST_GeomFromGeoJSON(jsonb_build_object(
+        'type', CASE WHEN jsonb_typeof(coords->0->0) = 'number' THEN 'Polygon' ELSE 'MultiPolygon' END,
+        'coordinates', CASE WHEN jsonb_typeof(coords->0->0) = 'number' THEN jsonb_build_array(coords) ELSE coords END
+    )), 4326));
+EXCEPTION WHEN OTHERS THEN
+    RETURN NULL;
+END;
+$$;
+
+-- Geometry back to territory polygon jsonb: a lone ring for one part without holes, else MultiPolygon
+CREATE OR REPLACE FUNCTION public.territory_geometry_polygon(p_geom extensions.geometry)
+RETURNS jsonb
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public, extensions
+AS $$
+    WITH multi AS (
+        SELECT (ST_AsGeoJSON(ST_Multi(ST_CollectionExtract(p_geom, 3)))::jsonb)->'coordinates' AS coords
+    )
+    SELECT CASE
+        WHEN jsonb_array_length(coords) = 1 AND jsonb_array_length(coords->0) = 1 THEN coords->0->0
+        ELSE coords
+    END
+    FROM multi;
+$$;
+
+CREATE OR REPLACE FUNCTION public.dedupe_owner_territories()
+RETURNS int
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+    cluster record;
+    merged_geom geometry;
+    survivor_id uuid;
+    merged_count int := 0;
+BEGIN
+    FOR cluster IN
+        WITH shapes AS (
+            SELECT id, owner_id, claimed_at, public.territory_polygon_geometry(polygon) AS geom
+            FROM public.territories
+            WHERE owner_id IS NOT NULL
+        ),
+        clustered AS (
+            SELECT id, owner_id, claimed_at, geom,
+                   ST_ClusterDBSCAN(geom, eps := 0, minpoints := 1) OVER (PARTITION BY owner_id) AS cluster_id
+            FROM shapes
+            WHERE geom IS NOT NULL AND NOT ST_IsEmpty(geom)
+        )
+        SELECT owner_id,
+               array_agg(id ORDER BY claimed_at DESC NULLS LAST) AS ids,
+               ST_Union(geom) AS geom
+        FROM clustered
+        GROUP BY owner_id, cluster_id
+        HAVING count(*) > 1
+    LOOP
+        merged_geom := ST_CollectionExtract(ST_MakeValid(cluster.geom), 3);
+        survivor_id := cluster.ids[1];
+
+        -- The most recent claim survives and absorbs the rest of its cluster
+        UPDATE public.territories AS t
+        SET polygon = public.territory_geometry_polygon(merged_geom),
+            area = ST_Area(merged_geom::geography),
+            perimeter = ST_Perimeter(merged_geom::geography),
+            center = jsonb_build_object(
+                'lat', ST_Y(ST_PointOnSurface(merged_geom)),
+                'lng', ST_X(ST_PointOnSurface(merged_geom))
+            ),
+            claimed_at = agg.claimed_at,
+            last_defended_at = agg.last_defended_at,
+            history = agg.history
+        FROM (
+            SELECT max(claimed_at) AS claimed_at,
+                   min(COALESCE(last_defended_at, claimed_at)) AS last_defended_at,
+                   COALESCE((
+                       SELECT jsonb_agg(event ORDER BY (event->>'claimedAt')::numeric)
+                       FROM public.territories AS src,
+                            jsonb_array_elements(
+                                CASE WHEN jsonb_typeof(src.history) = 'array' THEN src.history ELSE '[]'::jsonb END
+                            ) AS event
+                       WHERE src.id = ANY(cluster.ids)
+                   ), '[]'::jsonb) AS history
+            FROM public.territories
+            WHERE id = ANY(cluster.ids)
+        ) AS agg
+        WHERE t.id = survivor_id;
+
+        UPDATE public.activities
+        SET territory_id = survivor_id
+        WHERE territory_id = ANY(cluster.ids[2:]);
+
+        DELETE FROM public.territories WHERE id = ANY(cluster.ids[2:]);
+
+        merged_count := merged_count + array_length(cluster.ids, 1) - 1;
+    END LOOP;
+
+    RETURN merged_count;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.dedupe_owner_territories() FROM PUBLIC, anon, authenticated;
+
+SELECT public.dedupe_owner_territories();
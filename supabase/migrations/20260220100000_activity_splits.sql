@@ -0,0 +1,40 @@
+-- Splits and laps: per-km/mile splits and manual laps, each a jsonb array of
+-- {distance, duration, endTime}. Split times show a pace profile, not the route,
+-- so they stay visible to other users.
+-- ========================================
+
+ALTER TABLE public.activities
+    ADD COLUMN IF NOT EXISTS splits jsonb,
+    ADD COLUMN IF NOT EXISTS split_unit text,
+    ADD COLUMN IF NOT EXISTS laps jsonb;
+
+CREATE OR REPLACE FUNCTION public.get_user_activities(target_user_id uuid)
+RETURNS SETOF public.activities
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF auth.uid() = target_user_id THEN
+        RETURN QUERY
+        SELECT * FROM public.activities
+        WHERE user_id = target_user_id
+        ORDER BY start_time DESC;
+    ELSE
+        RETURN QUERY
+        SELECT
+            id, user_id, type, start_time, end_time,
+            distance, duration,
+            '[]'::jsonb AS polylines,
+            is_synced, territory_id, average_speed,
+            elapsed_time, paused_duration,
+            splits, split_unit, laps
+        FROM public.activities
+        WHERE user_id = target_user_id
+        ORDER BY start_time DESC;
+    END IF;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_user_activities(uuid) FROM anon;
+GRANT EXECUTE ON FUNCTION public.get_user_activities(uuid) TO authenticated;
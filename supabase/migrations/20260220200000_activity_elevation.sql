@@ -0,0 +1,43 @@
+-- Elevation: smoothed ascent/descent, max/min elevation and a downsampled
+-- profile of {distance, elevation, grade} samples for charts
+-- ========================================
+
+ALTER TABLE public.activities
+    ADD COLUMN IF NOT EXISTS elevation_gain float,
+    ADD COLUMN IF NOT EXISTS elevation_loss float,
+    ADD COLUMN IF NOT EXISTS max_elevation float,
+    ADD COLUMN IF NOT EXISTS min_elevation float,
+    ADD COLUMN IF NOT EXISTS elevation_profile jsonb;
+
+CREATE OR REPLACE FUNCTION public.get_user_activities(target_user_id uuid)
+RETURNS SETOF public.activities
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF auth.uid() = target_user_id THEN
+        RETURN QUERY
+        SELECT * FROM public.activities
+        WHERE user_id = target_user_id
+        ORDER BY start_time DESC;
+    ELSE
+        RETURN QUERY
+        SELECT
+            id, user_id, type, start_time, end_time,
+            distance, duration,
+            '[]'::jsonb AS polylines,
+            is_synced, territory_id, average_speed,
+            elapsed_time, paused_duration,
+            splits, split_unit, laps,
+            elevation_gain, elevation_loss, max_elevation, min_elevation,
+            elevation_profile
+        FROM public.activities
+        WHERE user_id = target_user_id
+        ORDER BY start_time DESC;
+    END IF;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_user_activities(uuid) FROM anon;
+GRANT EXECUTE ON FUNCTION public.get_user_activities(uuid) TO authenticated;
@@ -0,0 +1,41 @@
+-- GPS sampling: the tracking profile an activity was recorded with and
+-- per-activity GPS quality stats, to tell power-saving shapes from noisy ones
+-- ========================================
+
+ALTER TABLE public.activities
+    ADD COLUMN IF NOT EXISTS tracking_profile text
+        CHECK (tracking_profile IN ('high_accuracy', 'balanced', 'battery_saver')),
+    ADD COLUMN IF NOT EXISTS gps_quality jsonb;
+
+CREATE OR REPLACE FUNCTION public.get_user_activities(target_user_id uuid)
+RETURNS SETOF public.activities
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF auth.uid() = target_user_id THEN
+        RETURN QUERY
+        SELECT * FROM public.activities
+        WHERE user_id = target_user_id
+        ORDER BY start_time DESC;
+    ELSE
+        RETURN QUERY
+        SELECT
+            id, user_id, type, start_time, end_time,
+            distance, duration,
+            '[]'::jsonb AS polylines,
+            is_synced, territory_id, average_speed,
+            elapsed_time, paused_duration,
+            splits, split_unit, laps,
+            elevation_gain, elevation_loss, max_elevation, min_elevation,
+            elevation_profile, tracking_profile, gps_quality
+        FROM public.activities
+        WHERE user_id = target_user_id
+        ORDER BY start_time DESC;
+    END IF;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_user_activities(uuid) FROM anon;
+GRANT EXECUTE ON FUNCTION public.get_user_activities(uuid) TO authenticated;
@@ -0,0 +1,127 @@
+-- Compact activity tracks: polylines now holds {format: 'conqr-track',
+-- version: 1, segments: [text]} with each segment in the app's encoded form
+-- (see utils/polyline.ts), and route_preview a simplified copy in the same form
+-- for feeds and cards. Rows written before this keep their JSON arrays; the
+-- app reads both and re-encodes the owner's rows as it fetches them.
+-- activity_track() gives server-side code one readable shape for either.
+-- ========================================
+
+ALTER TABLE public.activities
+    ADD COLUMN IF NOT EXISTS route_preview jsonb;
+
+-- Other users' activities come back without the route, preview included
+CREATE OR REPLACE FUNCTION public.get_user_activities(target_user_id uuid)
+RETURNS SETOF public.activities
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF auth.uid() = target_user_id THEN
+        RETURN QUERY
+        SELECT * FROM public.activities
+        WHERE user_id = target_user_id
+        ORDER BY start_time DESC;
+    ELSE
+        RETURN QUERY
+        SELECT
+            id, user_id, type, start_time, end_time,
+            distance, duration,
+            '[]'::jsonb AS polylines,
+            is_synced, territory_id, average_speed,
+            elapsed_time, paused_duration,
+            splits, split_unit, laps,
+            elevation_gain, elevation_loss, max_elevation, min_elevation,
+            elevation_profile, tracking_profile, gps_quality,
+            NULL::jsonb AS route_preview
+        FROM public.activities
+        WHERE user_id = target_user_id
+        ORDER BY start_time DESC;
+    END IF;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_user_activities(uuid) FROM anon;
+GRANT EXECUTE ON FUNCTION public.get_user_activities(uuid) TO authenticated;
+
+-- One encoded segment to a jsonb array of {lat, lng, timestamp, speed, accuracy, altitude}
+CREATE OR REPLACE FUNCTION public.decode_track_segment(p_encoded text)
+RETURNS jsonb
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+    vals numeric[] := '{}';
+    points jsonb[] := '{}';
+    acc numeric := 0;
+    factor numeric := 1;
+    chunk int;
+    v numeric;
+    lat numeric := 0;
+    lng numeric := 0;
+    ts numeric := 0;
+BEGIN
+    IF p_encoded IS NULL THEN
+        RETURN '[]'::jsonb;
+    END IF;
+
+    FOR i IN 1..length(p_encoded) LOOP
+        chunk := ascii(substr(p_encoded, i, 1)) - 63;
+        IF chunk < 0 OR chunk > 63 THEN
+            EXIT;
+        END IF;
+        acc := acc + (chunk % 32) * factor;
+        factor := factor * 32;
+        CONTINUE WHEN chunk >= 32;
+
+        -- Undo the zigzag
+        v := CASE WHEN acc % 2 = 0 THEN acc / 2 ELSE -(acc + 1) / 2 END;
+        vals := vals || v;
+        acc := 0;
+        factor := 1;
+        CONTINUE WHEN array_length(vals, 1) < 6;
+
+        lat := lat + vals[1];
+        lng := lng + vals[2];
+        ts := ts + vals[3];
+        points := points || jsonb_build_object(
+            'lat', lat / 1e6,
+            'lng', lng / 1e6,
+            'timestamp', ts,
+            'speed', CASE WHEN vals[4] = 0 THEN NULL WHEN vals[4] > 0 THEN (vals[4] - 1) / 100 ELSE vals[4] / 100 END,
+            'accuracy', CASE WHEN vals[5] = 0 THEN NULL WHEN vals[5] > 0 THEN (vals[5] - 1) / 10 ELSE vals[5] / 10 END,
+            'altitude', CASE WHEN vals[6] = 0 THEN NULL WHEN vals[6] > 0 THEN (vals[6] - 1) / 10 ELSE vals[6] / 10 END
+        );
+        vals := '{}';
+    END LOOP;
+
+    RETURN to_jsonb(points);
+END;
+$$;
+
+-- A stored track in any form (encoded, JSON array, or JSON array held as a string) as segments of points
+CREATE OR REPLACE FUNCTION public.activity_track(p_polylines jsonb)
+RETURNS jsonb
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+    SELECT CASE
+        WHEN p_polylines IS NULL THEN '[]'::jsonb
+        WHEN jsonb_typeof(p_polylines) = 'object' AND p_polylines->>'format' = 'conqr-track' THEN
+            COALESCE(
+                (SELECT jsonb_agg(public.decode_track_segment(seg.value) ORDER BY seg.ord)
+                 FROM jsonb_array_elements_text(p_polylines->'segments') WITH ORDINALITY AS seg(value, ord)),
+                '[]'::jsonb
+            )
+        WHEN jsonb_typeof(p_polylines) = 'string' THEN (p_polylines #>> '{}')::jsonb
+        WHEN jsonb_typeof(p_polylines) = 'array' THEN p_polylines
+        ELSE '[]'::jsonb
+    END;
+$$;
+
+REVOKE ALL ON FUNCTION public.decode_track_segment(text) FROM anon;
+REVOKE ALL ON FUNCTION public.activity_track(jsonb) FROM anon;
+GRANT EXECUTE ON FUNCTION public.decode_track_segment(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.activity_track(jsonb) TO authenticated;
@@ -0,0 +1,240 @@
+-- ========================================
+-- Anti-cheat review. Activities carry the app's suspicion verdict (see
+-- utils/spoofing.ts), and territory from a flagged activity goes to
+-- territory_reviews instead of being claimed. claim_territory now refuses
+-- claims with an open or rejected review, queues tracks with teleports it
+-- finds itself, and only claims an approved review's own track. The previous
+-- claim_territory carries on as claim_territory_unreviewed, callable only
+-- from here.
+-- ========================================
+
+ALTER TABLE public.activities
+    ADD COLUMN IF NOT EXISTS suspicion_score float,
+    ADD COLUMN IF NOT EXISTS suspicion_reasons jsonb;
+
+CREATE TABLE IF NOT EXISTS public.territory_reviews (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    activity_id uuid NOT NULL UNIQUE,
+    territory_id uuid NOT NULL,
+    owner_username text,
+    name text,
+    track jsonb NOT NULL,
+    suspicion_score float NOT NULL DEFAULT 0,
+    suspicion_reasons jsonb NOT NULL DEFAULT '[]'::jsonb,
+    status text NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'approved', 'rejected', 'applied')),
+    created_at timestamptz NOT NULL DEFAULT now(),
+    reviewed_at timestamptz,
+    reviewed_by uuid REFERENCES public.users(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_territory_reviews_status ON public.territory_reviews(status, created_at);
+CREATE INDEX IF NOT EXISTS idx_territory_reviews_user ON public.territory_reviews(user_id);
+
+ALTER TABLE public.territory_reviews ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can queue own claims for review"
+    ON public.territory_reviews FOR INSERT
+    WITH CHECK (auth.uid() = user_id AND status = 'pending' AND reviewed_at IS NULL AND reviewed_by IS NULL);
+
+CREATE POLICY "Users and admins can read reviews"
+    ON public.territory_reviews FOR SELECT
+    USING (
+        auth.uid() = user_id OR
+        auth.uid() IN (SELECT user_id FROM public.admin_users)
+    );
+
+-- Jumps of over 100 m faster than 50 m/s between consecutive fixes of a
+-- segment, or between segments more than 200 m apart. Mirrors the teleport
+-- rule in utils/spoofing.ts.
+CREATE OR REPLACE FUNCTION public.track_teleport_count(p_track jsonb)
+RETURNS int
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public, extensions
+AS $$
+    WITH fixes AS (
+        SELECT seg.ord AS segment_index, pt.ord AS point_index,
+               ST_SetSRID(ST_MakePoint((pt.value->>'lng')::float, (pt.value->>'lat')::float), 4326)::geography AS geog,
+               CASE WHEN jsonb_typeof(pt.value->'timestamp') = 'number' THEN (pt.value->>'timestamp')::float END AS ts
+        FROM jsonb_array_elements(
+                 CASE WHEN jsonb_typeof(p_track->0) = 'object' THEN jsonb_build_array(p_track) ELSE p_track END
+             ) WITH ORDINALITY AS seg(value, ord),
+             jsonb_array_elements(
+                 CASE WHEN jsonb_typeof(seg.value) = 'array' THEN seg.value ELSE '[]'::jsonb END
+             ) WITH ORDINALITY AS pt(value, ord)
+        WHERE jsonb_typeof(pt.value->'lat') = 'number'
+          AND jsonb_typeof(pt.value->'lng') = 'number'
+          AND (pt.value->>'lat')::float BETWEEN -90 AND 90
+          AND (pt.value->>'lng')::float BETWEEN -180 AND 180
+    ),
+    steps AS (
+        SELECT segment_index = lag(segment_index) OVER w AS same_segment,
+               ST_Distance(geog, lag(geog) OVER w) AS d,
+               (ts - lag(ts) OVER w) / 1000.0 AS dt
+        FROM fixes
+        WINDOW w AS (ORDER BY segment_index, point_index)
+    )
+    SELECT count(*)::int
+    FROM steps
+    WHERE dt IS NOT NULL
+      AND d > CASE WHEN same_segment THEN 100 ELSE 200 END
+      AND (dt <= 0 OR d / dt > 50);
+$$;
+
+ALTER FUNCTION public.claim_territory(uuid, uuid, text, text, jsonb) RENAME TO claim_territory_unreviewed;
+REVOKE ALL ON FUNCTION public.claim_territory_unreviewed(uuid, uuid, text, text, jsonb) FROM PUBLIC, anon, authenticated;
+
+-- Claim territory, unless the activity's claim is held for review
+CREATE OR REPLACE FUNCTION public.claim_territory(
+    p_territory_id uuid,
+    p_activity_id uuid,
+    p_owner_username text,
+    p_name text,
+    p_track jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+    uid uuid := auth.uid();
+    review public.territory_reviews;
+    has_review boolean;
+    teleports int;
+    result jsonb;
+BEGIN
+    IF uid IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    SELECT * INTO review
+    FROM public.territory_reviews
+    WHERE activity_id = p_activity_id AND user_id = uid
+    FOR UPDATE;
+    has_review := FOUND;
+
+    IF has_review AND review.status = 'rejected' THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'REVIEW_REJECTED');
+    END IF;
+    IF has_review AND review.status <> 'approved' THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'UNDER_REVIEW');
+    END IF;
+
+    IF NOT has_review AND p_track IS NOT NULL AND jsonb_typeof(p_track) = 'array' THEN
+        teleports := public.track_teleport_count(p_track);
+        IF teleports > 0 THEN
+            INSERT INTO public.territory_reviews (
+                user_id, activity_id, territory_id, owner_username, name, track,
+                suspicion_score, suspicion_reasons
+            ) VALUES (
+                uid, p_activity_id, p_territory_id, p_owner_username, NULLIF(p_name, ''), p_track,
+                LEAST(0.9, 0.45 * teleports),
+                jsonb_build_array(jsonb_build_object(
+                    'code', 'teleport',
+                    'weight', LEAST(0.9, 0.45 * teleports),
+                    'detail', format('Server found %s jump(s) faster than 50 m/s', teleports)
+                ))
+            );
+            RETURN jsonb_build_object('success', false, 'reason', 'UNDER_REVIEW');
+        END IF;
+    END IF;
+
+    -- An approved claim is the reviewed track, whatever the client sends now
+    IF has_review THEN
+        result := public.claim_territory_unreviewed(
+            review.territory_id, p_activity_id, review.owner_username, review.name, review.track
+        );
+    ELSE
+        result := public.claim_territory_unreviewed(
+            p_territory_id, p_activity_id, p_owner_username, p_name, p_track
+        );
+    END IF;
+
+    IF has_review AND (result->>'success')::boolean THEN
+        UPDATE public.territory_reviews SET status = 'applied' WHERE id = review.id;
+        UPDATE public.activities
+        SET territory_id = review.territory_id
+        WHERE id = p_activity_id AND user_id = uid;
+    END IF;
+
+    RETURN result;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.claim_territory(uuid, uuid, text, text, jsonb) FROM anon;
+GRANT EXECUTE ON FUNCTION public.claim_territory(uuid, uuid, text, text, jsonb) TO authenticated;
+
+-- Approve or reject a held claim (admin only). Approved claims are applied
+-- by the owner's app the next time it syncs.
+CREATE OR REPLACE FUNCTION public.review_territory_claim(
+    p_review_id uuid,
+    p_approve boolean
+)
+RETURNS public.territory_reviews
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    reviewed public.territory_reviews;
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM public.admin_users WHERE user_id = auth.uid()) THEN
+        RAISE EXCEPTION 'Unauthorized: admin access required';
+    END IF;
+
+    UPDATE public.territory_reviews
+    SET status = CASE WHEN p_approve THEN 'approved' ELSE 'rejected' END,
+        reviewed_at = now(),
+        reviewed_by = auth.uid()
+    WHERE id = p_review_id AND status = 'pending'
+    RETURNING * INTO reviewed;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'No pending review %', p_review_id;
+    END IF;
+    RETURN reviewed;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.review_territory_claim(uuid, boolean) FROM anon;
+GRANT EXECUTE ON FUNCTION public.review_territory_claim(uuid, boolean) TO authenticated;
+
+-- Other users' activities come back without the route or the anti-cheat verdict
+CREATE OR REPLACE FUNCTION public.get_user_activities(target_user_id uuid)
+RETURNS SETOF public.activities
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF auth.uid() = target_user_id THEN
+        RETURN QUERY
+        SELECT * FROM public.activities
+        WHERE user_id = target_user_id
+        ORDER BY start_time DESC;
+    ELSE
+        RETURN QUERY
+        SELECT
+            id, user_id, type, start_time, end_time,
+            distance, duration,
+            '[]'::jsonb AS polylines,
+            is_synced, territory_id, average_speed,
+            elapsed_time, paused_duration,
+            splits, split_unit, laps,
+            elevation_gain, elevation_loss, max_elevation, min_elevation,
+            elevation_profile, tracking_profile, gps_quality,
+            NULL::jsonb AS route_preview,
+            NULL::float AS suspicion_score,
+            NULL::jsonb AS suspicion_reasons
+        FROM public.activities
+        WHERE user_id = target_user_id
+        ORDER BY start_time DESC;
+    END IF;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_user_activities(uuid) FROM anon;
+GRANT EXECUTE ON FUNCTION public.get_user_activities(uuid) TO authenticated;
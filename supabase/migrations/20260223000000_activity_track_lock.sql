@@ -0,0 +1,28 @@
+-- ========================================
+-- Activities can be trimmed after saving, but not once they have claimed
+-- territory: the conquest was worked out from the track as recorded. Edits
+-- to such an activity's time range or distance are refused; re-encoding its
+-- track or linking it to the territory still goes through.
+-- ========================================
+
+CREATE OR REPLACE FUNCTION public.lock_claimed_activity_track()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    IF OLD.territory_id IS NOT NULL AND (
+        NEW.start_time IS DISTINCT FROM OLD.start_time OR
+        NEW.end_time IS DISTINCT FROM OLD.end_time OR
+        NEW.distance IS DISTINCT FROM OLD.distance
+    ) THEN
+        RAISE EXCEPTION 'Activity % has claimed territory and its track can no longer be edited', OLD.id;
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS lock_claimed_activity_track ON public.activities;
+CREATE TRIGGER lock_claimed_activity_track
+    BEFORE UPDATE ON public.activities
+    FOR EACH ROW EXECUTE PROCEDURE public.lock_claimed_activity_track();
@@ -0,0 +1,260 @@
+-- ========================================
+-- Privacy zones: circles (e.g. around home) that a user's routes are clipped
+-- out of for everyone but them. The zones are readable by their owner only,
+-- since they'd give away what they hide. Other users' activities can no
+-- longer be selected directly; get_shared_activities() returns them with the
+-- owner's zones clipped out of the track and route preview. Territories are
+-- public game state and can't be clipped without changing what's owned, so
+-- claim_territory refuses loops that reach into the claimant's zones.
+-- ========================================
+
+CREATE TABLE IF NOT EXISTS public.privacy_zones (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    name text,
+    lat float NOT NULL CHECK (lat BETWEEN -90 AND 90),
+    lng float NOT NULL CHECK (lng BETWEEN -180 AND 180),
+    radius float NOT NULL CHECK (radius BETWEEN 50 AND 5000),
+    created_at timestamptz NOT NULL DEFAULT now(),
+    CONSTRAINT privacy_zones_name_length CHECK (char_length(name) <= 50)
+);
+
+CREATE INDEX IF NOT EXISTS idx_privacy_zones_user ON public.privacy_zones(user_id);
+
+ALTER TABLE public.privacy_zones ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own privacy zones"
+    ON public.privacy_zones FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can add own privacy zones"
+    ON public.privacy_zones FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own privacy zones"
+    ON public.privacy_zones FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own privacy zones"
+    ON public.privacy_zones FOR DELETE USING (auth.uid() = user_id);
+
+-- Other users' tracks only come through get_user_activities and
+-- get_shared_activities, which strip or clip them
+DROP POLICY IF EXISTS "Activities are viewable by everyone" ON public.activities;
+
+CREATE POLICY "Users can view own activities"
+    ON public.activities FOR SELECT USING (auth.uid() = user_id);
+
+-- A stored track (any form activity_track() reads) as JSON segments with the
+-- user's zones clipped out. A segment passing through a zone is split, and
+-- pieces under two fixes are dropped. Mirrors utils/privacyZones.ts.
+CREATE OR REPLACE FUNCTION public.privacy_clip_track(p_track jsonb, p_user_id uuid)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+STRICT
+SET search_path = public, extensions
+AS $$
+    WITH segments AS (
+        SELECT seg.ord AS segment_index, seg.value AS points
+        FROM jsonb_array_elements(
+                 CASE WHEN jsonb_typeof(public.activity_track(p_track)->0) = 'object'
+                      THEN jsonb_build_array(public.activity_track(p_track))
+                      ELSE public.activity_track(p_track) END
+             ) WITH ORDINALITY AS seg(value, ord)
+        WHERE jsonb_typeof(seg.value) = 'array'
+    ),
+    fixes AS (
+        SELECT s.segment_index, pt.ord AS point_index, pt.value AS point,
+               EXISTS (
+                   SELECT 1 FROM public.privacy_zones z
+                   WHERE z.user_id = p_user_id
+                     AND ST_DWithin(
+                         ST_SetSRID(ST_MakePoint((pt.value->>'lng')::float, (pt.value->>'lat')::float), 4326)::geography,
+                         ST_SetSRID(ST_MakePoint(z.lng, z.lat), 4326)::geography,
+                         z.radius
+                     )
+               ) AS hidden
+        FROM segments s,
+             jsonb_array_elements(s.points) WITH ORDINALITY AS pt(value, ord)
+        WHERE jsonb_typeof(pt.value->'lat') = 'number'
+          AND jsonb_typeof(pt.value->'lng') = 'number'
+    ),
+    runs AS (
+        -- Each hidden fix starts a new run of visible ones
+        SELECT segment_index, point_index, point, hidden,
+               count(*) FILTER (WHERE hidden) OVER (PARTITION BY segment_index ORDER BY point_index) AS run
+        FROM fixes
+    ),
+    pieces AS (
+        SELECT segment_index, run, jsonb_agg(point ORDER BY point_index) AS points, count(*) AS fix_count
+        FROM runs
+        WHERE NOT hidden
+        GROUP BY segment_index, run
+    )
+    SELECT COALESCE(jsonb_agg(points ORDER BY segment_index, run) FILTER (WHERE fix_count >= 2), '[]'::jsonb)
+    FROM pieces;
+$$;
+
+-- Not callable directly: probing it with made-up tracks would map out other users' zones
+REVOKE ALL ON FUNCTION public.privacy_clip_track(jsonb, uuid) FROM PUBLIC, anon, authenticated;
+
+-- Activities by id, as the caller may see them: their own in full, anyone
+-- else's with the owner's privacy zones clipped out and without the
+-- anti-cheat verdict. With p_preview_only the full track is left out
+-- wherever there's a route preview to draw instead.
+CREATE OR REPLACE FUNCTION public.get_shared_activities(p_ids uuid[], p_preview_only boolean DEFAULT false)
+RETURNS SETOF public.activities
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT
+        a.id, a.user_id, a.type, a.start_time, a.end_time,
+        a.distance, a.duration,
+        CASE
+            WHEN p_preview_only AND a.route_preview IS NOT NULL THEN NULL
+            WHEN a.user_id = auth.uid() THEN a.polylines
+            ELSE public.privacy_clip_track(a.polylines, a.user_id)
+        END AS polylines,
+        a.is_synced, a.territory_id, a.average_speed,
+        a.elapsed_time, a.paused_duration,
+        a.splits, a.split_unit, a.laps,
+        a.elevation_gain, a.elevation_loss, a.max_elevation, a.min_elevation,
+        a.elevation_profile, a.tracking_profile, a.gps_quality,
+        CASE
+            WHEN a.user_id = auth.uid() THEN a.route_preview
+            ELSE public.privacy_clip_track(a.route_preview, a.user_id)
+        END AS route_preview,
+        CASE WHEN a.user_id = auth.uid() THEN a.suspicion_score END AS suspicion_score,
+        CASE WHEN a.user_id = auth.uid() THEN a.suspicion_reasons END AS suspicion_reasons
+    FROM public.activities a
+    WHERE a.id = ANY(p_ids)
+    LIMIT 200;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_shared_activities(uuid[], boolean) FROM anon;
+GRANT EXECUTE ON FUNCTION public.get_shared_activities(uuid[], boolean) TO authenticated;
+
+-- Whether the loop a track closes covers or comes within one of the user's
+-- zones. Mirrors polygonOverlapsPrivacyZone in utils/privacyZones.ts.
+CREATE OR REPLACE FUNCTION public.claim_overlaps_privacy_zone(p_track jsonb, p_user_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SET search_path = public, extensions
+AS $$
+DECLARE
+    track geometry;
+    claim geometry;
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM public.privacy_zones WHERE user_id = p_user_id) THEN
+        RETURN false;
+    END IF;
+
+    SELECT ST_MakeLine(geom ORDER BY segment_index, point_index) INTO track
+    FROM public.activity_track_points(p_track);
+    IF track IS NULL OR ST_NPoints(track) < 3 THEN
+        RETURN false;
+    END IF;
+
+    -- Tracks that don't make a polygon are refused by the claim itself
+    BEGIN
+        claim := ST_MakeValid(ST_MakePolygon(ST_AddPoint(track, ST_StartPoint(track))));
+    EXCEPTION WHEN OTHERS THEN
+        RETURN false;
+    END;
+
+    RETURN EXISTS (
+        SELECT 1 FROM public.privacy_zones z
+        WHERE z.user_id = p_user_id
+          AND ST_DWithin(claim::geography, ST_SetSRID(ST_MakePoint(z.lng, z.lat), 4326)::geography, z.radius)
+    );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.claim_overlaps_privacy_zone(jsonb, uuid) FROM PUBLIC, anon, authenticated;
+
+-- Claim territory, unless the activity's claim is held for review or the
+-- loop reaches into one of the claimant's privacy zones
+CREATE OR REPLACE FUNCTION public.claim_territory(
+    p_territory_id uuid,
+    p_activity_id uuid,
+    p_owner_username text,
+    p_name text,
+    p_track jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+    uid uuid := auth.uid();
+    review public.territory_reviews;
+    has_review boolean;
+    teleports int;
+    result jsonb;
+BEGIN
+    IF uid IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    SELECT * INTO review
+    FROM public.territory_reviews
+    WHERE activity_id = p_activity_id AND user_id = uid
+    FOR UPDATE;
+    has_review := FOUND;
+
+    IF has_review AND review.status = 'rejected' THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'REVIEW_REJECTED');
+    END IF;
+    IF has_review AND review.status <> 'approved' THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'UNDER_REVIEW');
+    END IF;
+
+    IF public.claim_overlaps_privacy_zone(CASE WHEN has_review THEN review.track ELSE p_track END, uid) THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'PRIVACY_ZONE');
+    END IF;
+
+    IF NOT has_review AND p_track IS NOT NULL AND jsonb_typeof(p_track) = 'array' THEN
+        teleports := public.track_teleport_count(p_track);
+        IF teleports > 0 THEN
+            INSERT INTO public.territory_reviews (
+                user_id, activity_id, territory_id, owner_username, name, track,
+                suspicion_score, suspicion_reasons
+            ) VALUES (
+                uid, p_activity_id, p_territory_id, p_owner_username, NULLIF(p_name, ''), p_track,
+                LEAST(0.9, 0.45 * teleports),
+                jsonb_build_array(jsonb_build_object(
+                    'code', 'teleport',
+                    'weight', LEAST(0.9, 0.45 * teleports),
+                    'detail', format('Server found %s jump(s) faster than 50 m/s', teleports)
+                ))
+            );
+            RETURN jsonb_build_object('success', false, 'reason', 'UNDER_REVIEW');
+        END IF;
+    END IF;
+
+    -- An approved claim is the reviewed track, whatever the client sends now
+    IF has_review THEN
+        result := public.claim_territory_unreviewed(
+            review.territory_id, p_activity_id, review.owner_username, review.name, review.track
+        );
+    ELSE
+        result := public.claim_territory_unreviewed(
+            p_territory_id, p_activity_id, p_owner_username, p_name, p_track
+        );
+    END IF;
+
+    IF has_review AND (result->>'success')::boolean THEN
+        UPDATE public.territory_reviews SET status = 'applied' WHERE id = review.id;
+        UPDATE public.activities
+        SET territory_id = review.territory_id
+        WHERE id = p_activity_id AND user_id = uid;
+    END IF;
+
+    RETURN result;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.claim_territory(uuid, uuid, text, text, jsonb) FROM anon;
+GRANT EXECUTE ON FUNCTION public.claim_territory(uuid, uuid, text, text, jsonb) TO authenticated;
@@ -0,0 +1,156 @@
+-- ========================================
+-- Activity visibility. Each activity is visible to everyone, to the owner's
+-- accepted friends, or to the owner only, starting from a default on their
+-- profile. get_user_activities and get_shared_activities leave out what the
+-- caller may not see, and posts sharing such an activity are hidden with it.
+-- Activities saved before this, or by older app versions, stay public.
+-- ========================================
+
+ALTER TABLE public.users
+    ADD COLUMN IF NOT EXISTS default_activity_visibility text NOT NULL DEFAULT 'public'
+        CHECK (default_activity_visibility IN ('public', 'friends', 'private'));
+
+ALTER TABLE public.activities
+    ADD COLUMN IF NOT EXISTS visibility text NOT NULL DEFAULT 'public'
+        CHECK (visibility IN ('public', 'friends', 'private'));
+
+-- Whether two users are friends: a request either way that was accepted
+CREATE OR REPLACE FUNCTION public.are_friends(p_user_a uuid, p_user_b uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM public.friendships
+        WHERE status = 'accepted'
+          AND ((requester_id = p_user_a AND addressee_id = p_user_b)
+            OR (requester_id = p_user_b AND addressee_id = p_user_a))
+    );
+$$;
+
+-- Not callable directly: it would show anyone's friendships
+REVOKE ALL ON FUNCTION public.are_friends(uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+-- Whether the caller may see an activity with this owner and visibility.
+-- Mirrors canViewActivity in utils/activityVisibility.ts.
+CREATE OR REPLACE FUNCTION public.can_view_activity(p_owner_id uuid, p_visibility text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT CASE
+        WHEN auth.uid() IS NOT NULL AND auth.uid() = p_owner_id THEN true
+        WHEN p_visibility = 'public' THEN true
+        WHEN p_visibility = 'friends' THEN
+            auth.uid() IS NOT NULL AND public.are_friends(auth.uid(), p_owner_id)
+        ELSE false
+    END;
+$$;
+
+-- Whether the caller may see the activity a post shares. Posts without one,
+-- or whose activity has been deleted, are unaffected.
+CREATE OR REPLACE FUNCTION public.can_view_post_activity(p_activity_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT COALESCE(
+        (SELECT public.can_view_activity(a.user_id, a.visibility)
+         FROM public.activities a
+         WHERE a.id = p_activity_id),
+        true
+    );
+$$;
+
+DROP POLICY IF EXISTS "Posts are viewable by everyone" ON public.posts;
+
+CREATE POLICY "Posts are viewable by their activity's audience"
+    ON public.posts FOR SELECT
+    USING (auth.uid() = user_id OR public.can_view_post_activity(activity_id));
+
+-- Other users' activities come back without the route or the anti-cheat
+-- verdict, and only those their visibility lets the caller see
+CREATE OR REPLACE FUNCTION public.get_user_activities(target_user_id uuid)
+RETURNS SETOF public.activities
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF auth.uid() = target_user_id THEN
+        RETURN QUERY
+        SELECT * FROM public.activities
+        WHERE user_id = target_user_id
+        ORDER BY start_time DESC;
+    ELSE
+        RETURN QUERY
+        SELECT
+            id, user_id, type, start_time, end_time,
+            distance, duration,
+            '[]'::jsonb AS polylines,
+            is_synced, territory_id, average_speed,
+            elapsed_time, paused_duration,
+            splits, split_unit, laps,
+            elevation_gain, elevation_loss, max_elevation, min_elevation,
+            elevation_profile, tracking_profile, gps_quality,
+            NULL::jsonb AS route_preview,
+            NULL::float AS suspicion_score,
+            NULL::jsonb AS suspicion_reasons,
+            visibility
+        FROM public.activities
+        WHERE user_id = target_user_id
+          AND public.can_view_activity(user_id, visibility)
+        ORDER BY start_time DESC;
+    END IF;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_user_activities(uuid) FROM anon;
+GRANT EXECUTE ON FUNCTION public.get_user_activities(uuid) TO authenticated;
+
+-- Activities by id, as the caller may see them: their own in full, anyone
+-- else's with the owner's privacy zones clipped out and without the
+-- anti-cheat verdict, and none the owner's visibility keeps them out of.
+-- With p_preview_only the full track is left out wherever there's a route
+-- preview to draw instead.
+CREATE OR REPLACE FUNCTION public.get_shared_activities(p_ids uuid[], p_preview_only boolean DEFAULT false)
+RETURNS SETOF public.activities
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT
+        a.id, a.user_id, a.type, a.start_time, a.end_time,
+        a.distance, a.duration,
+        CASE
+            WHEN p_preview_only AND a.route_preview IS NOT NULL THEN NULL
+            WHEN a.user_id = auth.uid() THEN a.polylines
+            ELSE public.privacy_clip_track(a.polylines, a.user_id)
+        END AS polylines,
+        a.is_synced, a.territory_id, a.average_speed,
+        a.elapsed_time, a.paused_duration,
+        a.splits, a.split_unit, a.laps,
+        a.elevation_gain, a.elevation_loss, a.max_elevation, a.min_elevation,
+        a.elevation_profile, a.tracking_profile, a.gps_quality,
+        CASE
+            WHEN a.user_id = auth.uid() THEN a.route_preview
+            ELSE public.privacy_clip_track(a.route_preview, a.user_id)
+        END AS route_preview,
+        CASE WHEN a.user_id = auth.uid() THEN a.suspicion_score END AS suspicion_score,
+        CASE WHEN a.user_id = auth.uid() THEN a.suspicion_reasons END AS suspicion_reasons,
+        a.visibility
+    FROM public.activities a
+    WHERE a.id = ANY(p_ids)
+      AND public.can_view_activity(a.user_id, a.visibility)
+    LIMIT 200;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_shared_activities(uuid[], boolean) FROM anon;
+GRANT EXECUTE ON FUNCTION public.get_shared_activities(uuid[], boolean) TO authenticated;
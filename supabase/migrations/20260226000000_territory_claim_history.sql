@@ -0,0 +1,218 @@
+-- ========================================
+-- Territory claim history. Conquests are kept with the territory that won
+-- them when it is folded into a later claim or merged by maintenance, so the
+-- territory details screen can show how much of it was taken from whom.
+-- Conquests credited to territories merged before this aren't recovered.
+-- ========================================
+
+-- Merge each owner's overlapping or touching territories into one (maintenance, service role only)
+CREATE OR REPLACE FUNCTION public.dedupe_owner_territories()
+RETURNS int
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+    cluster record;
+    merged_geom geometry;
+    survivor_id uuid;
+    merged_count int := 0;
+BEGIN
+    FOR cluster IN
+        WITH shapes AS (
+            SELECT id, owner_id, claimed_at, public.territory_polygon_geometry(polygon) AS geom
+            FROM public.territories
+            WHERE owner_id IS NOT NULL
+        ),
+        clustered AS (
+            SELECT id, owner_id, claimed_at, geom,
+                   ST_ClusterDBSCAN(geom, eps := 0, minpoints := 1) OVER (PARTITION BY owner_id) AS cluster_id
+            FROM shapes
+            WHERE geom IS NOT NULL AND NOT ST_IsEmpty(geom)
+        )
+        SELECT owner_id,
+               array_agg(id ORDER BY claimed_at DESC NULLS LAST) AS ids,
+               ST_Union(geom) AS geom
+        FROM clustered
+        GROUP BY owner_id, cluster_id
+        HAVING count(*) > 1
+    LOOP
+        merged_geom := ST_CollectionExtract(ST_MakeValid(cluster.geom), 3);
+        survivor_id := cluster.ids[1];
+
+        -- The most recent claim survives and absorbs the rest of its cluster
+        UPDATE public.territories AS t
+        SET polygon = public.territory_geometry_polygon(merged_geom),
+            area = ST_Area(merged_geom::geography),
+            perimeter = ST_Perimeter(merged_geom::geography),
+            center = jsonb_build_object(
+                'lat', ST_Y(ST_PointOnSurface(merged_geom)),
+                'lng', ST_X(ST_PointOnSurface(merged_geom))
+            ),
+            claimed_at = agg.claimed_at,
+            last_defended_at = agg.last_defended_at,
+            history = agg.history
+        FROM (
+            SELECT max(claimed_at) AS claimed_at,
+                   min(COALESCE(last_defended_at, claimed_at)) AS last_defended_at,
+                   COALESCE((
+                       SELECT jsonb_agg(event ORDER BY (event->>'claimedAt')::numeric)
+                       FROM public.territories AS src,
+                            jsonb_array_elements(
+                                CASE WHEN jsonb_typeof(src.history) = 'array' THEN src.history ELSE '[]'::jsonb END
+                            ) AS event
+                       WHERE src.id = ANY(cluster.ids)
+                   ), '[]'::jsonb) AS history
+            FROM public.territories
+            WHERE id = ANY(cluster.ids)
+        ) AS agg
+        WHERE t.id = survivor_id;
+
+        UPDATE public.activities
+        SET territory_id = survivor_id
+        WHERE territory_id = ANY(cluster.ids[2:]);
+
+        UPDATE public.territory_invasions
+        SET new_territory_id = survivor_id
+        WHERE new_territory_id = ANY(cluster.ids[2:]);
+
+        DELETE FROM public.territories WHERE id = ANY(cluster.ids[2:]);
+
+        merged_count := merged_count + array_length(cluster.ids, 1) - 1;
+    END LOOP;
+
+    RETURN merged_count;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.dedupe_owner_territories() FROM PUBLIC, anon, authenticated;
+
+-- Claim territory, unless the activity's claim is held for review or the
+-- loop reaches into one of the claimant's privacy zones
+CREATE OR REPLACE FUNCTION public.claim_territory(
+    p_territory_id uuid,
+    p_activity_id uuid,
+    p_owner_username text,
+    p_name text,
+    p_track jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+    uid uuid := auth.uid();
+    review public.territory_reviews;
+    has_review boolean;
+    teleports int;
+    result jsonb;
+BEGIN
+    IF uid IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    SELECT * INTO review
+    FROM public.territory_reviews
+    WHERE activity_id = p_activity_id AND user_id = uid
+    FOR UPDATE;
+    has_review := FOUND;
+
+    IF has_review AND review.status = 'rejected' THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'REVIEW_REJECTED');
+    END IF;
+    IF has_review AND review.status <> 'approved' THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'UNDER_REVIEW');
+    END IF;
+
+    IF public.claim_overlaps_privacy_zone(CASE WHEN has_review THEN review.track ELSE p_track END, uid) THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'PRIVACY_ZONE');
+    END IF;
+
+    IF NOT has_review AND p_track IS NOT NULL AND jsonb_typeof(p_track) = 'array' THEN
+        teleports := public.track_teleport_count(p_track);
+        IF teleports > 0 THEN
+            INSERT INTO public.territory_reviews (
+                user_id, activity_id, territory_id, owner_username, name, track,
+                suspicion_score, suspicion_reasons
+            ) VALUES (
+                uid, p_activity_id, p_territory_id, p_owner_username, NULLIF(p_name, ''), p_track,
+                LEAST(0.9, 0.45 * teleports),
+                jsonb_build_array(jsonb_build_object(
+                    'code', 'teleport',
+                    'weight', LEAST(0.9, 0.45 * teleports),
+                    'detail', format('Server found %s jump(s) faster than 50 m/s', teleports)
+                ))
+            );
+            RETURN jsonb_build_object('success', false, 'reason', 'UNDER_REVIEW');
+        END IF;
+    END IF;
+
+    -- An approved claim is the reviewed track, whatever the client sends now
+    IF has_review THEN
+        result := public.claim_territory_unreviewed(
+            review.territory_id, p_activity_id, review.owner_username, review.name, review.track
+        );
+    ELSE
+        result := public.claim_territory_unreviewed(
+            p_territory_id, p_activity_id, p_owner_username, p_name, p_track
+        );
+    END IF;
+
+    IF has_review AND (result->>'success')::boolean THEN
+        UPDATE public.territory_reviews SET status = 'applied' WHERE id = review.id;
+        UPDATE public.activities
+        SET territory_id = review.territory_id
+        WHERE id = p_activity_id AND user_id = uid;
+    END IF;
+
+    -- Ground won by territories folded into this one now counts as won by it
+    IF (result->>'success')::boolean THEN
+        UPDATE public.territory_invasions
+        SET new_territory_id = (result->'territory'->>'id')::uuid
+        WHERE new_territory_id IN (
+            SELECT jsonb_array_elements_text(result->'merged_territory_ids')::uuid
+        );
+    END IF;
+
+    RETURN result;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.claim_territory(uuid, uuid, text, text, jsonb) FROM anon;
+GRANT EXECUTE ON FUNCTION public.claim_territory(uuid, uuid, text, text, jsonb) TO authenticated;
+
+-- Ground a territory won from other users, per user it was taken from.
+-- Invasion rows are only readable by the two users involved; these totals
+-- are public like the territory itself.
+CREATE OR REPLACE FUNCTION public.get_territory_conquests(p_territory_id uuid)
+RETURNS TABLE(
+    user_id uuid,
+    username text,
+    area float,
+    invasion_count bigint,
+    destroyed_count bigint,
+    last_taken_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT
+        i.invaded_user_id AS user_id,
+        u.username,
+        COALESCE(SUM(i.overlap_area), 0)::float AS area,
+        COUNT(*) AS invasion_count,
+        COUNT(*) FILTER (WHERE i.territory_was_destroyed) AS destroyed_count,
+        MAX(i.created_at) AS last_taken_at
+    FROM public.territory_invasions i
+    LEFT JOIN public.users u ON u.id = i.invaded_user_id
+    WHERE i.new_territory_id = p_territory_id
+      AND i.invaded_user_id IS NOT NULL
+    GROUP BY i.invaded_user_id, u.username
+    ORDER BY area DESC;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_territory_conquests(uuid) FROM anon;
+GRANT EXECUTE ON FUNCTION public.get_territory_conquests(uuid) TO authenticated;
@@ -0,0 +1,3 @@
+-- Enable Realtime on territory_invasions for live invasion alerts. Clients
+-- only receive the rows the select policy lets them read.
+ALTER PUBLICATION supabase_realtime ADD TABLE public.territory_invasions;
@@ -0,0 +1,591 @@
+-- ========================================
+-- Teams: players who hold ground as a group, like a running club. A user is
+-- in one team at most. Teammates' territories overlap without invading each
+-- other, and get_team_leaderboard ranks teams by the decay-weighted area
+-- their members hold. Teams are only changed through the RPCs below, which
+-- check roles. Each territory carries its owner's team_id, kept in step by
+-- triggers, so the map and claim_territory don't need to look it up.
+-- ========================================
+
+CREATE TABLE IF NOT EXISTS public.teams (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    name text NOT NULL,
+    color text NOT NULL CHECK (color ~ '^#[0-9A-F]{6}$'),
+    created_by uuid REFERENCES public.users(id) ON DELETE SET NULL,
+    created_at timestamptz NOT NULL DEFAULT now(),
+    CONSTRAINT teams_name_length CHECK (char_length(name) BETWEEN 3 AND 30)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_teams_name ON public.teams(lower(name));
+
+ALTER TABLE public.teams ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Teams are viewable by everyone"
+    ON public.teams FOR SELECT USING (true);
+
+CREATE TABLE IF NOT EXISTS public.team_members (
+    team_id uuid NOT NULL REFERENCES public.teams(id) ON DELETE CASCADE,
+    user_id uuid NOT NULL UNIQUE REFERENCES public.users(id) ON DELETE CASCADE,
+    role text NOT NULL DEFAULT 'member' CHECK (role IN ('owner', 'admin', 'member')),
+    joined_at timestamptz NOT NULL DEFAULT now(),
+    PRIMARY KEY (team_id, user_id)
+);
+
+ALTER TABLE public.team_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Team members are viewable by everyone"
+    ON public.team_members FOR SELECT USING (true);
+
+-- Kept apart from teams so only members can read them
+CREATE TABLE IF NOT EXISTS public.team_invites (
+    team_id uuid PRIMARY KEY REFERENCES public.teams(id) ON DELETE CASCADE,
+    code text NOT NULL UNIQUE
+);
+
+ALTER TABLE public.team_invites ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can read their team's invite code"
+    ON public.team_invites FOR SELECT
+    USING (EXISTS (
+        SELECT 1 FROM public.team_members m
+        WHERE m.team_id = team_invites.team_id AND m.user_id = auth.uid()
+    ));
+
+ALTER TABLE public.territories
+    ADD COLUMN IF NOT EXISTS team_id uuid REFERENCES public.teams(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_territories_team ON public.territories(team_id) WHERE team_id IS NOT NULL;
+
+-- A territory always belongs to its owner's team, whatever the client sends
+CREATE OR REPLACE FUNCTION public.set_territory_team()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    NEW.team_id := (SELECT team_id FROM public.team_members WHERE user_id = NEW.owner_id);
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_territory_team
+    BEFORE INSERT OR UPDATE OF owner_id, team_id ON public.territories
+    FOR EACH ROW EXECUTE PROCEDURE public.set_territory_team();
+
+-- Joining or leaving a team takes the member's territories along
+CREATE OR REPLACE FUNCTION public.sync_member_territories_team()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF TG_OP = 'DELETE' THEN
+        UPDATE public.territories SET team_id = NULL WHERE owner_id = OLD.user_id;
+    ELSE
+        UPDATE public.territories SET team_id = NEW.team_id WHERE owner_id = NEW.user_id;
+    END IF;
+    RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_member_territories_team
+    AFTER INSERT OR DELETE ON public.team_members
+    FOR EACH ROW EXECUTE PROCEDURE public.sync_member_territories_team();
+
+-- Teammates' territories overlap without invading each other
+-- Claim territory from a raw activity track. Rejections the client should
+-- roll back come back as {success: false, reason}; abuse raises. Only called
+-- through claim_territory, which holds back claims under review.
+CREATE OR REPLACE FUNCTION public.claim_territory_unreviewed(
+    p_territory_id uuid,
+    p_activity_id uuid,
+    p_owner_username text,
+    p_name text,
+    p_track jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+    uid uuid := auth.uid();
+    claim_team uuid;
+    now_ms bigint := floor(EXTRACT(EPOCH FROM now()) * 1000);
+    last_claim timestamptz;
+    point_count int;
+    max_gap float;
+    track geometry;
+    claim geometry;
+    claim_area float;
+    claim_perimeter float;
+    existing record;
+    overlap_area float;
+    remaining geometry;
+    inv public.territory_invasions;
+    invasions jsonb := '[]'::jsonb;
+    modified_ids uuid[] := '{}';
+    deleted_ids uuid[] := '{}';
+    merged_ids uuid[] := '{}';
+    total_conquered float := 0;
+    merged geometry;
+    merged_name text := NULLIF(p_name, '');
+    merged_history jsonb;
+    defended_at timestamptz := now();
+    claimed public.territories;
+BEGIN
+    IF uid IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    -- Rate limiting: max 1 territory claim per 30 seconds
+    SELECT MAX(claimed_at) INTO last_claim
+    FROM public.territories
+    WHERE owner_id = uid;
+
+    IF last_claim IS NOT NULL AND (now() - last_claim) < interval '30 seconds' THEN
+        RAISE EXCEPTION 'Rate limited: wait at least 30 seconds between territory claims';
+    END IF;
+
+    IF p_track IS NULL OR jsonb_typeof(p_track) != 'array' THEN
+        RAISE EXCEPTION 'Invalid track: must be a JSON array of segments';
+    END IF;
+    IF EXISTS (SELECT 1 FROM public.territories WHERE id = p_territory_id) THEN
+        RAISE EXCEPTION 'Territory % already exists', p_territory_id;
+    END IF;
+
+    -- Stitch the segments; a pause gap wider than 200 m can't be bridged honestly
+    SELECT count(*), ST_MakeLine(geom ORDER BY segment_index, point_index)
+    INTO point_count, track
+    FROM public.activity_track_points(p_track);
+
+    IF point_count > 50000 THEN
+        RAISE EXCEPTION 'Invalid track: too many points (max 50000)';
+    END IF;
+    IF point_count < 10 THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'TOO_FEW_POINTS');
+    END IF;
+
+    SELECT max(ST_Distance(previous_last::geography, first_point::geography)) INTO max_gap
+    FROM (
+        SELECT first_point, lag(last_point) OVER (ORDER BY segment_index) AS previous_last
+        FROM (
+            SELECT segment_index,
+                   (array_agg(geom ORDER BY point_index))[1] AS first_point,
+                   (array_agg(geom ORDER BY point_index DESC))[1] AS last_point
+            FROM public.activity_track_points(p_track)
+            GROUP BY segment_index
+        ) AS ends
+    ) AS gaps;
+
+    IF max_gap > 200 THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'PAUSE_GAP_TOO_WIDE');
+    END IF;
+    IF ST_Distance(ST_StartPoint(track)::geography, ST_EndPoint(track)::geography) > 200 THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'LOOP_NOT_CLOSED');
+    END IF;
+
+    -- Close the loop and keep its largest piece, like GameEngine.processTerritory
+    SELECT d.geom INTO claim
+    FROM ST_Dump(ST_CollectionExtract(
+        ST_MakeValid(ST_MakePolygon(ST_AddPoint(track, ST_StartPoint(track)))), 3
+    )) AS d
+    ORDER BY ST_Area(d.geom::geography) DESC
+    LIMIT 1;
+
+    claim_area := COALESCE(ST_Area(claim::geography), 0);
+    claim_perimeter := COALESCE(ST_Perimeter(claim::geography), 0);
+
+    IF claim_area < 10 THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'TOO_SMALL');
+    END IF;
+    IF claim_area > 10000000 OR claim_perimeter > 100000 THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'TOO_LARGE');
+    END IF;
+
+    -- Invade other owners' territories, leaving teammates' alone
+    SELECT team_id INTO claim_team FROM public.team_members WHERE user_id = uid;
+
+    FOR existing IN
+        SELECT * FROM public.territories
+        WHERE owner_id IS DISTINCT FROM uid
+          AND (claim_team IS NULL OR team_id IS DISTINCT FROM claim_team)
+          AND geom && claim
+          AND ST_Intersects(geom, claim)
+        FOR UPDATE
+    LOOP
+        overlap_area := COALESCE(ST_Area(ST_CollectionExtract(ST_Intersection(existing.geom, claim), 3)::geography), 0);
+        CONTINUE WHEN overlap_area < 1; -- GPS noise
+
+        -- A decayed territory collapses once the invader covers the share of it
+        -- that its strength still holds; at full strength that's all of it
+        IF COALESCE(existing.area, 0) > 0 AND overlap_area >= existing.area *
+            public.territory_strength(COALESCE(existing.last_defended_at, existing.claimed_at)) THEN
+            remaining := NULL;
+        ELSE
+            remaining := public.territory_significant_parts(ST_Difference(existing.geom, claim));
+        END IF;
+
+        IF remaining IS NULL THEN
+            DELETE FROM public.territories WHERE id = existing.id;
+            deleted_ids := deleted_ids || existing.id;
+            overlap_area := COALESCE(existing.area, overlap_area);
+        ELSE
+            UPDATE public.territories
+            SET polygon = public.territory_geometry_polygon(remaining),
+                area = ST_Area(remaining::geography),
+                perimeter = ST_Perimeter(remaining::geography),
+                center = public.territory_geometry_center(remaining),
+                history = CASE WHEN jsonb_typeof(history) = 'array' THEN history ELSE '[]'::jsonb END
+                    || jsonb_build_array(jsonb_build_object(
+                        'previousOwnerId', existing.owner_id,
+                        'claimedBy', uid,
+                        'claimedAt', now_ms,
+                        'activityId', p_activity_id
+                    ))
+            WHERE id = existing.id;
+            modified_ids := modified_ids || existing.id;
+        END IF;
+        total_conquered := total_conquered + overlap_area;
+
+        INSERT INTO public.territory_invasions (
+            invaded_user_id, invader_user_id, invader_username,
+            invaded_territory_id, new_territory_id,
+            overlap_area, territory_was_destroyed
+        ) VALUES (
+            existing.owner_id, uid, p_owner_username,
+            existing.id, p_territory_id,
+            overlap_area, remaining IS NULL
+        )
+        RETURNING * INTO inv;
+        invasions := invasions || jsonb_build_array(to_jsonb(inv));
+    END LOOP;
+
+    -- Fold in the owner's territories the claim overlaps or touches. Only the
+    -- ones the loop re-walked (70% coverage) count as defended again.
+    merged := claim;
+    merged_history := jsonb_build_array(jsonb_build_object(
+        'claimedBy', uid, 'claimedAt', now_ms, 'activityId', p_activity_id
+    ));
+
+    FOR existing IN
+        SELECT * FROM public.territories
+        WHERE owner_id = uid
+          AND geom && claim
+          AND ST_Intersects(geom, claim)
+        ORDER BY claimed_at
+        FOR UPDATE
+    LOOP
+        IF COALESCE(existing.area, 0) <= 0 OR
+            ST_Area(ST_CollectionExtract(ST_Intersection(existing.geom, claim), 3)::geography) / existing.area < 0.7 THEN
+            defended_at := LEAST(defended_at, COALESCE(existing.last_defended_at, existing.claimed_at, now()));
+        END IF;
+        merged := ST_Union(merged, existing.geom);
+        merged_name := COALESCE(merged_name, NULLIF(existing.name, ''));
+        merged_history := merged_history ||
+            CASE WHEN jsonb_typeof(existing.history) = 'array' THEN existing.history ELSE '[]'::jsonb END;
+        merged_ids := merged_ids || existing.id;
+    END LOOP;
+
+    IF array_length(merged_ids, 1) IS NOT NULL THEN
+        merged := COALESCE(public.territory_significant_parts(merged), claim);
+        SELECT jsonb_agg(event ORDER BY (event->>'claimedAt')::numeric) INTO merged_history
+        FROM jsonb_array_elements(merged_history) AS event;
+
+        UPDATE public.activities
+        SET territory_id = p_territory_id
+        WHERE territory_id = ANY(merged_ids);
+
+        DELETE FROM public.territories WHERE id = ANY(merged_ids);
+    END IF;
+
+    INSERT INTO public.territories (
+        id, owner_id, name, activity_id, claimed_at, area, perimeter,
+        center, polygon, history, last_defended_at
+    ) VALUES (
+        p_territory_id, uid, merged_name, p_activity_id, now(),
+        ST_Area(merged::geography), ST_Perimeter(merged::geography),
+        public.territory_geometry_center(merged), public.territory_geometry_polygon(merged),
+        merged_history, defended_at
+    )
+    RETURNING * INTO claimed;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'territory', to_jsonb(claimed) - 'geom',
+        'modified_territories', COALESCE((
+            SELECT jsonb_agg(to_jsonb(t) - 'geom')
+            FROM public.territories AS t
+            WHERE t.id = ANY(modified_ids)
+        ), '[]'::jsonb),
+        'deleted_territory_ids', to_jsonb(deleted_ids),
+        'merged_territory_ids', to_jsonb(merged_ids),
+        'invasions', invasions,
+        'total_conquered_area', total_conquered
+    );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.claim_territory_unreviewed(uuid, uuid, text, text, jsonb) FROM PUBLIC, anon, authenticated;
+
+-- Team leaderboard: decay-weighted area held by each team's members
+CREATE OR REPLACE FUNCTION public.get_team_leaderboard(
+    p_since timestamptz DEFAULT NULL,
+    p_limit int DEFAULT 50
+)
+RETURNS TABLE(
+    team_id uuid,
+    name text,
+    color text,
+    member_count bigint,
+    total_area float,
+    territory_count bigint
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF p_limit IS NULL OR p_limit < 1 THEN
+        p_limit := 50;
+    ELSIF p_limit > 500 THEN
+        p_limit := 500;
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        tm.id AS team_id,
+        tm.name,
+        tm.color,
+        (SELECT COUNT(*) FROM public.team_members m WHERE m.team_id = tm.id) AS member_count,
+        COALESCE(SUM(t.area * public.territory_strength(COALESCE(t.last_defended_at, t.claimed_at))), 0)::float AS total_area,
+        COUNT(t.id) AS territory_count
+    FROM public.territories t
+    JOIN public.teams tm ON tm.id = t.team_id
+    WHERE (p_since IS NULL OR t.claimed_at >= p_since)
+    GROUP BY tm.id, tm.name, tm.color
+    ORDER BY total_area DESC
+    LIMIT p_limit;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_team_leaderboard(timestamptz, int) FROM anon;
+GRANT EXECUTE ON FUNCTION public.get_team_leaderboard(timestamptz, int) TO authenticated;
+
+-- Create a team with the caller as its owner. Returns the new team's id.
+CREATE OR REPLACE FUNCTION public.create_team(p_name text, p_color text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    uid uuid := auth.uid();
+    v_name text := btrim(p_name);
+    v_team_id uuid;
+BEGIN
+    IF uid IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+    IF EXISTS (SELECT 1 FROM public.team_members WHERE user_id = uid) THEN
+        RAISE EXCEPTION 'Already in a team: leave it first';
+    END IF;
+    IF v_name IS NULL OR char_length(v_name) NOT BETWEEN 3 AND 30 THEN
+        RAISE EXCEPTION 'Team name must be 3 to 30 characters';
+    END IF;
+    IF p_color IS NULL OR p_color !~ '^#[0-9A-Fa-f]{6}$' THEN
+        RAISE EXCEPTION 'Invalid team color';
+    END IF;
+    IF EXISTS (SELECT 1 FROM public.teams WHERE lower(name) = lower(v_name)) THEN
+        RAISE EXCEPTION 'Team name is already taken';
+    END IF;
+
+    INSERT INTO public.teams (name, color, created_by)
+    VALUES (v_name, upper(p_color), uid)
+    RETURNING id INTO v_team_id;
+
+    INSERT INTO public.team_members (team_id, user_id, role)
+    VALUES (v_team_id, uid, 'owner');
+
+    INSERT INTO public.team_invites (team_id, code)
+    VALUES (v_team_id, upper(substr(md5(gen_random_uuid()::text), 1, 8)));
+
+    RETURN v_team_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.create_team(text, text) FROM anon;
+GRANT EXECUTE ON FUNCTION public.create_team(text, text) TO authenticated;
+
+-- Join a team by its invite code (atomic with advisory lock, member cap).
+-- Returns the team's id.
+CREATE OR REPLACE FUNCTION public.join_team(p_code text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    uid uuid := auth.uid();
+    v_team_id uuid;
+    v_max_members int := 50;
+BEGIN
+    IF uid IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+    IF EXISTS (SELECT 1 FROM public.team_members WHERE user_id = uid) THEN
+        RAISE EXCEPTION 'Already in a team: leave it first';
+    END IF;
+
+    SELECT team_id INTO v_team_id
+    FROM public.team_invites
+    WHERE code = upper(btrim(p_code));
+
+    IF v_team_id IS NULL THEN
+        RAISE EXCEPTION 'Invite code not found';
+    END IF;
+
+    PERFORM pg_advisory_xact_lock(hashtext('team:' || v_team_id::text));
+
+    IF (SELECT COUNT(*) FROM public.team_members WHERE team_id = v_team_id) >= v_max_members THEN
+        RAISE EXCEPTION 'Team is full (% members max)', v_max_members;
+    END IF;
+
+    INSERT INTO public.team_members (team_id, user_id, role)
+    VALUES (v_team_id, uid, 'member');
+
+    RETURN v_team_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.join_team(text) FROM anon;
+GRANT EXECUTE ON FUNCTION public.join_team(text) TO authenticated;
+
+-- Leave the caller's team. An owner hands the team to the longest-serving
+-- admin, or else member; the last one out deletes it.
+CREATE OR REPLACE FUNCTION public.leave_team()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    uid uuid := auth.uid();
+    me public.team_members;
+    v_successor uuid;
+BEGIN
+    IF uid IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    SELECT * INTO me FROM public.team_members WHERE user_id = uid;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Not in a team';
+    END IF;
+
+    PERFORM pg_advisory_xact_lock(hashtext('team:' || me.team_id::text));
+
+    DELETE FROM public.team_members WHERE user_id = uid;
+
+    IF me.role = 'owner' THEN
+        SELECT m.user_id INTO v_successor
+        FROM public.team_members m
+        WHERE m.team_id = me.team_id
+        ORDER BY (m.role = 'admin') DESC, m.joined_at
+        LIMIT 1;
+
+        IF v_successor IS NULL THEN
+            DELETE FROM public.teams WHERE id = me.team_id;
+        ELSE
+            UPDATE public.team_members SET role = 'owner' WHERE user_id = v_successor;
+        END IF;
+    END IF;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.leave_team() FROM anon;
+GRANT EXECUTE ON FUNCTION public.leave_team() TO authenticated;
+
+-- Change a teammate's role (owner only). Making someone owner hands the team
+-- over and leaves the caller an admin.
+CREATE OR REPLACE FUNCTION public.set_team_member_role(p_user_id uuid, p_role text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    uid uuid := auth.uid();
+    me public.team_members;
+BEGIN
+    IF uid IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+    IF p_role IS NULL OR p_role NOT IN ('owner', 'admin', 'member') THEN
+        RAISE EXCEPTION 'Invalid role: %', p_role;
+    END IF;
+    IF p_user_id = uid THEN
+        RAISE EXCEPTION 'Cannot change your own role';
+    END IF;
+
+    SELECT * INTO me FROM public.team_members WHERE user_id = uid;
+    IF NOT FOUND OR me.role != 'owner' THEN
+        RAISE EXCEPTION 'Unauthorized: only the team owner can change roles';
+    END IF;
+
+    PERFORM pg_advisory_xact_lock(hashtext('team:' || me.team_id::text));
+
+    UPDATE public.team_members
+    SET role = p_role
+    WHERE user_id = p_user_id AND team_id = me.team_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Not a member of your team';
+    END IF;
+
+    IF p_role = 'owner' THEN
+        UPDATE public.team_members SET role = 'admin' WHERE user_id = uid;
+    END IF;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.set_team_member_role(uuid, text) FROM anon;
+GRANT EXECUTE ON FUNCTION public.set_team_member_role(uuid, text) TO authenticated;
+
+-- Remove a teammate. The owner can remove anyone else, admins only members.
+CREATE OR REPLACE FUNCTION public.remove_team_member(p_user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    uid uuid := auth.uid();
+    me public.team_members;
+    target public.team_members;
+BEGIN
+    IF uid IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+    IF p_user_id = uid THEN
+        RAISE EXCEPTION 'Use leave_team to leave your own team';
+    END IF;
+
+    SELECT * INTO me FROM public.team_members WHERE user_id = uid;
+    SELECT * INTO target FROM public.team_members WHERE user_id = p_user_id;
+    IF me.team_id IS NULL OR target.team_id IS DISTINCT FROM me.team_id THEN
+        RAISE EXCEPTION 'Not a member of your team';
+    END IF;
+    IF me.role = 'member' OR (me.role = 'admin' AND target.role != 'member') THEN
+        RAISE EXCEPTION 'Unauthorized: you cannot remove this member';
+    END IF;
+
+    DELETE FROM public.team_members WHERE user_id = p_user_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.remove_team_member(uuid) FROM anon;
+GRANT EXECUTE ON FUNCTION public.remove_team_member(uuid) TO authenticated;
@@ -0,0 +1,17 @@
+-- ========================================
+-- Claim rules: the shape a loop must have to claim territory
+-- ========================================
+-- Checked by the client (GameEngine.checkClaimRules) before claiming.
+--   minCompactness          Polsby-Popper score 4πA/P², 1 for a circle
+--   minWidth                m, diameter of the largest circle inside the loop
+--   maxAreaByType           m² per activity type
+--   maxPerimeterToDistance  boundary length over the distance actually covered
+
+INSERT INTO public.app_settings (key, value)
+VALUES ('claim_rules', jsonb_build_object(
+    'minCompactness', 0.12,
+    'minWidth', 20,
+    'maxAreaByType', jsonb_build_object('WALK', 3000000, 'RUN', 6000000, 'RIDE', 10000000),
+    'maxPerimeterToDistance', 1.5
+))
+ON CONFLICT (key) DO NOTHING;
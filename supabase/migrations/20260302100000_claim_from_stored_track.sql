@@ -0,0 +1,498 @@
+-- ========================================
+-- Claims come from the activity's stored track
+-- ========================================
+-- claim_territory used to build the territory from a track the client sent
+-- next to the activity id, without checking its timestamps or speeds, and
+-- the insert policy on territories let a client skip the RPC altogether.
+-- Now claim_territory is the only way to create a territory. It claims from
+-- the track saved on the caller's activity, checked like
+-- ImportService.validateTrack, once per activity. Event mode is decided here
+-- too: a user who joined the running event claims without invading or
+-- merging, so event claims go through the same RPC.
+
+DROP POLICY IF EXISTS "Authenticated users can create territories" ON public.territories;
+
+-- Owners may still rename their territories, but nothing else about them
+REVOKE INSERT, UPDATE ON public.territories FROM anon, authenticated;
+GRANT UPDATE (name) ON public.territories TO authenticated;
+
+-- Why a stored track can't claim territory, or NULL when it may: missing,
+-- repeated or backwards timestamps, a track ending in the future or older
+-- than import_max_age_days, or more than 5% of fixes too fast for the
+-- activity type by recorded speed or by displacement over ~10 s. Mirrors
+-- validateTrack in services/ImportService.ts and SPEED_LIMITS in
+-- services/GameEngine.ts.
+CREATE OR REPLACE FUNCTION public.track_claim_problem(p_track jsonb, p_type text)
+RETURNS text
+LANGUAGE plpgsql
+STABLE
+SET search_path = public, extensions
+AS $$
+DECLARE
+    now_ms float := EXTRACT(EPOCH FROM now()) * 1000;
+    max_speed float := CASE p_type WHEN 'RUN' THEN 25 / 3.6 WHEN 'RIDE' THEN 50 / 3.6 ELSE 7 / 3.6 END;
+    max_age_days float;
+    segs bigint[];
+    geogs geography[];
+    stamps float[];
+    speeds float[];
+    n int;
+    anchor int;
+    failed boolean;
+    violations int := 0;
+BEGIN
+    SELECT array_agg(seg.ord ORDER BY seg.ord, pt.ord),
+           array_agg(ST_SetSRID(ST_MakePoint((pt.value->>'lng')::float, (pt.value->>'lat')::float), 4326)::geography
+                     ORDER BY seg.ord, pt.ord),
+           array_agg(CASE WHEN jsonb_typeof(pt.value->'timestamp') = 'number' THEN (pt.value->>'timestamp')::float END
+                     ORDER BY seg.ord, pt.ord),
+           array_agg(CASE WHEN jsonb_typeof(pt.value->'speed') = 'number' THEN (pt.value->>'speed')::float END
+                     ORDER BY seg.ord, pt.ord)
+    INTO segs, geogs, stamps, speeds
+    FROM jsonb_array_elements(
+             CASE WHEN jsonb_typeof(p_track->0) = 'object' THEN jsonb_build_array(p_track) ELSE p_track END
+         ) WITH ORDINALITY AS seg(value, ord),
+         jsonb_array_elements(
+             CASE WHEN jsonb_typeof(seg.value) = 'array' THEN seg.value ELSE '[]'::jsonb END
+         ) WITH ORDINALITY AS pt(value, ord)
+    WHERE jsonb_typeof(pt.value->'lat') = 'number'
+      AND jsonb_typeof(pt.value->'lng') = 'number'
+      AND (pt.value->>'lat')::float BETWEEN -90 AND 90
+      AND (pt.value->>'lng')::float BETWEEN -180 AND 180;
+
+    n := COALESCE(array_length(stamps, 1), 0);
+    IF n = 0 THEN
+        RETURN 'TOO_FEW_POINTS';
+    END IF;
+
+    FOR i IN 1..n LOOP
+        IF stamps[i] IS NULL OR stamps[i] <= 0 THEN
+            RETURN 'MISSING_TIMESTAMPS';
+        END IF;
+        IF i > 1 AND stamps[i] <= stamps[i - 1] THEN
+            RETURN 'TIMESTAMPS_OUT_OF_ORDER';
+        END IF;
+    END LOOP;
+
+    IF stamps[n] > now_ms + 10 * 60000 THEN
+        RETURN 'FUTURE_TIMESTAMPS';
+    END IF;
+
+    SELECT CASE WHEN jsonb_typeof(value) = 'number' THEN (value #>> '{}')::float END INTO max_age_days
+    FROM public.app_settings
+    WHERE key = 'import_max_age_days';
+    IF stamps[n] < now_ms - COALESCE(max_age_days, 7) * 86400000 THEN
+        RETURN 'TOO_OLD';
+    END IF;
+
+    FOR i IN 1..n LOOP
+        IF i = 1 OR segs[i] <> segs[i - 1] THEN
+            anchor := i;
+        END IF;
+        failed := speeds[i] IS NOT NULL AND speeds[i] > max_speed;
+
+        -- Slide the anchor to the latest fix at least 10 s back
+        WHILE anchor + 1 < i AND stamps[i] - stamps[anchor + 1] >= 10000 LOOP
+            anchor := anchor + 1;
+        END LOOP;
+        IF NOT failed AND i > anchor AND stamps[i] - stamps[anchor] >= 10000 THEN
+            failed := ST_Distance(geogs[anchor], geogs[i]) / ((stamps[i] - stamps[anchor]) / 1000) > max_speed;
+        END IF;
+
+        IF failed THEN
+            violations := violations + 1;
+        END IF;
+    END LOOP;
+
+    IF violations::float / n > 0.05 THEN
+        RETURN 'SPEED_VIOLATION';
+    END IF;
+
+    RETURN NULL;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.track_claim_problem(jsonb, text) FROM PUBLIC, anon, authenticated;
+
+-- Whether the user has joined the running event, where territories coexist
+-- instead of conquering. Mirrors EventModeService.isUserInEventMode.
+CREATE OR REPLACE FUNCTION public.user_in_event_mode(p_user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1
+        FROM public.app_settings AS mode, public.app_settings AS event
+        WHERE mode.key = 'event_mode' AND mode.value = 'true'::jsonb
+          AND event.key = 'current_event' AND jsonb_typeof(event.value) = 'object'
+          AND EXISTS (
+              SELECT 1 FROM public.app_settings
+              WHERE key = 'event_join:' || (event.value->>'id') || ':' || p_user_id::text
+          )
+          AND (
+              event.value->>'durationMinutes' IS NULL OR event.value->>'startedAt' IS NULL OR
+              now() <= (event.value->>'startedAt')::timestamptz
+                  + make_interval(mins => (event.value->>'durationMinutes')::int)
+          )
+    );
+$$;
+
+REVOKE ALL ON FUNCTION public.user_in_event_mode(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Claim territory from an activity track. Rejections the client should
+-- roll back come back as {success: false, reason}; abuse raises. Only called
+-- through claim_territory, which holds back claims under review. In event
+-- mode the claim invades and merges nothing.
+CREATE OR REPLACE FUNCTION public.claim_territory_unreviewed(
+    p_territory_id uuid,
+    p_activity_id uuid,
+    p_owner_username text,
+    p_name text,
+    p_track jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+    uid uuid := auth.uid();
+    event_mode boolean := public.user_in_event_mode(uid);
+    claim_team uuid;
+    now_ms bigint := floor(EXTRACT(EPOCH FROM now()) * 1000);
+    last_claim timestamptz;
+    point_count int;
+    max_gap float;
+    track geometry;
+    claim geometry;
+    claim_area float;
+    claim_perimeter float;
+    existing record;
+    overlap_area float;
+    remaining geometry;
+    inv public.territory_invasions;
+    invasions jsonb := '[]'::jsonb;
+    modified_ids uuid[] := '{}';
+    deleted_ids uuid[] := '{}';
+    merged_ids uuid[] := '{}';
+    total_conquered float := 0;
+    merged geometry;
+    merged_name text := NULLIF(p_name, '');
+    merged_history jsonb;
+    claimed public.territories;
+BEGIN
+    IF uid IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    -- Rate limiting: max 1 territory claim per 30 seconds
+    SELECT MAX(claimed_at) INTO last_claim
+    FROM public.territories
+    WHERE owner_id = uid;
+
+    IF last_claim IS NOT NULL AND (now() - last_claim) < interval '30 seconds' THEN
+        RAISE EXCEPTION 'Rate limited: wait at least 30 seconds between territory claims';
+    END IF;
+
+    IF p_track IS NULL OR jsonb_typeof(p_track) != 'array' THEN
+        RAISE EXCEPTION 'Invalid track: must be a JSON array of segments';
+    END IF;
+    IF EXISTS (SELECT 1 FROM public.territories WHERE id = p_territory_id) THEN
+        RAISE EXCEPTION 'Territory % already exists', p_territory_id;
+    END IF;
+
+    -- Stitch the segments; a pause gap wider than 200 m can't be bridged honestly
+    SELECT count(*), ST_MakeLine(geom ORDER BY segment_index, point_index)
+    INTO point_count, track
+    FROM public.activity_track_points(p_track);
+
+    IF point_count > 50000 THEN
+        RAISE EXCEPTION 'Invalid track: too many points (max 50000)';
+    END IF;
+    IF point_count < 10 THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'TOO_FEW_POINTS');
+    END IF;
+
+    SELECT max(ST_Distance(previous_last::geography, first_point::geography)) INTO max_gap
+    FROM (
+        SELECT first_point, lag(last_point) OVER (ORDER BY segment_index) AS previous_last
+        FROM (
+            SELECT segment_index,
+                   (array_agg(geom ORDER BY point_index))[1] AS first_point,
+                   (array_agg(geom ORDER BY point_index DESC))[1] AS last_point
+            FROM public.activity_track_points(p_track)
+            GROUP BY segment_index
+        ) AS ends
+    ) AS gaps;
+
+    IF max_gap > 200 THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'PAUSE_GAP_TOO_WIDE');
+    END IF;
+    IF ST_Distance(ST_StartPoint(track)::geography, ST_EndPoint(track)::geography) > 200 THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'LOOP_NOT_CLOSED');
+    END IF;
+
+    -- Close the loop and keep its largest piece, like GameEngine.processTerritory
+    SELECT d.geom INTO claim
+    FROM ST_Dump(ST_CollectionExtract(
+        ST_MakeValid(ST_MakePolygon(ST_AddPoint(track, ST_StartPoint(track)))), 3
+    )) AS d
+    ORDER BY ST_Area(d.geom::geography) DESC
+    LIMIT 1;
+
+    claim_area := COALESCE(ST_Area(claim::geography), 0);
+    claim_perimeter := COALESCE(ST_Perimeter(claim::geography), 0);
+
+    IF claim_area < 10 THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'TOO_SMALL');
+    END IF;
+    IF claim_area > 10000000 OR claim_perimeter > 100000 THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'TOO_LARGE');
+    END IF;
+
+    -- Invade other owners' territories, leaving teammates' alone
+    SELECT team_id INTO claim_team FROM public.team_members WHERE user_id = uid;
+
+    FOR existing IN
+        SELECT * FROM public.territories
+        WHERE NOT event_mode
+          AND owner_id IS DISTINCT FROM uid
+          AND (claim_team IS NULL OR team_id IS DISTINCT FROM claim_team)
+          AND geom && claim
+          AND ST_Intersects(geom, claim)
+        FOR UPDATE
+    LOOP
+        overlap_area := COALESCE(ST_Area(ST_CollectionExtract(ST_Intersection(existing.geom, claim), 3)::geography), 0);
+        CONTINUE WHEN overlap_area < 1; -- GPS noise
+
+        -- A decayed territory collapses once the invader covers the share of it
+        -- that its strength still holds; at full strength that's all of it
+        IF COALESCE(existing.area, 0) > 0 AND overlap_area >= existing.area *
+            public.territory_strength(COALESCE(existing.last_defended_at, existing.claimed_at)) THEN
+            remaining := NULL;
+        ELSE
+            remaining := public.territory_significant_parts(ST_Difference(existing.geom, claim));
+        END IF;
+
+        IF remaining IS NULL THEN
+            DELETE FROM public.territories WHERE id = existing.id;
+            deleted_ids := deleted_ids || existing.id;
+            overlap_area := COALESCE(existing.area, overlap_area);
+        ELSE
+            UPDATE public.territories
+            SET polygon = public.territory_geometry_polygon(remaining),
+                area = ST_Area(remaining::geography),
+                perimeter = ST_Perimeter(remaining::geography),
+                center = public.territory_geometry_center(remaining),
+                history = CASE WHEN jsonb_typeof(history) = 'array' THEN history ELSE '[]'::jsonb END
+                    || jsonb_build_array(jsonb_build_object(
+                        'previousOwnerId', existing.owner_id,
+                        'claimedBy', uid,
+                        'claimedAt', now_ms,
+                        'activityId', p_activity_id
+                    ))
+            WHERE id = existing.id;
+            modified_ids := modified_ids || existing.id;
+        END IF;
+        total_conquered := total_conquered + overlap_area;
+
+        INSERT INTO public.territory_invasions (
+            invaded_user_id, invader_user_id, invader_username,
+            invaded_territory_id, new_territory_id,
+            overlap_area, territory_was_destroyed
+        ) VALUES (
+            existing.owner_id, uid, p_owner_username,
+            existing.id, p_territory_id,
+            overlap_area, remaining IS NULL
+        )
+        RETURNING * INTO inv;
+        invasions := invasions || jsonb_build_array(to_jsonb(inv));
+    END LOOP;
+
+    -- Fold in the owner's territories the claim overlaps or touches. The
+    -- merged whole is one territory now, defended as of this claim.
+    merged := claim;
+    merged_history := jsonb_build_array(jsonb_build_object(
+        'claimedBy', uid, 'claimedAt', now_ms, 'activityId', p_activity_id
+    ));
+
+    FOR existing IN
+        SELECT * FROM public.territories
+        WHERE NOT event_mode
+          AND owner_id = uid
+          AND geom && claim
+          AND ST_Intersects(geom, claim)
+        ORDER BY claimed_at
+        FOR UPDATE
+    LOOP
+        merged := ST_Union(merged, existing.geom);
+        merged_name := COALESCE(merged_name, NULLIF(existing.name, ''));
+        merged_history := merged_history ||
+            CASE WHEN jsonb_typeof(existing.history) = 'array' THEN existing.history ELSE '[]'::jsonb END;
+        merged_ids := merged_ids || existing.id;
+    END LOOP;
+
+    IF array_length(merged_ids, 1) IS NOT NULL THEN
+        merged := COALESCE(public.territory_significant_parts(merged), claim);
+        SELECT jsonb_agg(event ORDER BY (event->>'claimedAt')::numeric) INTO merged_history
+        FROM jsonb_array_elements(merged_history) AS event;
+
+        UPDATE public.activities
+        SET territory_id = p_territory_id
+        WHERE territory_id = ANY(merged_ids);
+
+        DELETE FROM public.territories WHERE id = ANY(merged_ids);
+    END IF;
+
+    INSERT INTO public.territories (
+        id, owner_id, name, activity_id, claimed_at, area, perimeter,
+        center, polygon, history, last_defended_at
+    ) VALUES (
+        p_territory_id, uid, merged_name, p_activity_id, now(),
+        ST_Area(merged::geography), ST_Perimeter(merged::geography),
+        public.territory_geometry_center(merged), public.territory_geometry_polygon(merged),
+        merged_history, now()
+    )
+    RETURNING * INTO claimed;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'territory', to_jsonb(claimed) - 'geom',
+        'modified_territories', COALESCE((
+            SELECT jsonb_agg(to_jsonb(t) - 'geom')
+            FROM public.territories AS t
+            WHERE t.id = ANY(modified_ids)
+        ), '[]'::jsonb),
+        'deleted_territory_ids', to_jsonb(deleted_ids),
+        'merged_territory_ids', to_jsonb(merged_ids),
+        'invasions', invasions,
+        'total_conquered_area', total_conquered
+    );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.claim_territory_unreviewed(uuid, uuid, text, text, jsonb) FROM PUBLIC, anon, authenticated;
+
+DROP FUNCTION IF EXISTS public.claim_territory(uuid, uuid, text, text, jsonb);
+
+-- Claim territory from the track stored on one of the caller's activities,
+-- unless the activity has already claimed, its claim is held for review, the
+-- track fails the anti-cheat checks or the loop reaches into one of the
+-- claimant's privacy zones
+CREATE OR REPLACE FUNCTION public.claim_territory(
+    p_territory_id uuid,
+    p_activity_id uuid,
+    p_owner_username text,
+    p_name text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+    uid uuid := auth.uid();
+    activity public.activities;
+    stored_track jsonb;
+    problem text;
+    review public.territory_reviews;
+    has_review boolean;
+    teleports int;
+    result jsonb;
+BEGIN
+    IF uid IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    SELECT * INTO activity
+    FROM public.activities
+    WHERE id = p_activity_id AND user_id = uid
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'ACTIVITY_NOT_FOUND');
+    END IF;
+    IF activity.territory_id IS NOT NULL THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'ALREADY_CLAIMED');
+    END IF;
+
+    SELECT * INTO review
+    FROM public.territory_reviews
+    WHERE activity_id = p_activity_id AND user_id = uid
+    FOR UPDATE;
+    has_review := FOUND;
+
+    IF has_review AND review.status = 'rejected' THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'REVIEW_REJECTED');
+    END IF;
+    IF has_review AND review.status <> 'approved' THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'UNDER_REVIEW');
+    END IF;
+
+    -- Whatever the client previewed, the claim is the track it uploaded
+    stored_track := public.activity_track(activity.polylines);
+
+    problem := public.track_claim_problem(stored_track, activity.type);
+    IF problem IS NOT NULL THEN
+        RETURN jsonb_build_object('success', false, 'reason', problem);
+    END IF;
+
+    IF public.claim_overlaps_privacy_zone(stored_track, uid) THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'PRIVACY_ZONE');
+    END IF;
+
+    IF NOT has_review THEN
+        teleports := public.track_teleport_count(stored_track);
+        IF teleports > 0 THEN
+            INSERT INTO public.territory_reviews (
+                user_id, activity_id, territory_id, owner_username, name, track,
+                suspicion_score, suspicion_reasons
+            ) VALUES (
+                uid, p_activity_id, p_territory_id, p_owner_username, NULLIF(p_name, ''), stored_track,
+                LEAST(0.9, 0.45 * teleports),
+                jsonb_build_array(jsonb_build_object(
+                    'code', 'teleport',
+                    'weight', LEAST(0.9, 0.45 * teleports),
+                    'detail', format('Server found %s jump(s) faster than 50 m/s', teleports)
+                ))
+            );
+            RETURN jsonb_build_object('success', false, 'reason', 'UNDER_REVIEW');
+        END IF;
+    END IF;
+
+    -- An approved claim keeps the territory id and name it was reviewed under
+    IF has_review THEN
+        result := public.claim_territory_unreviewed(
+            review.territory_id, p_activity_id, review.owner_username, review.name, stored_track
+        );
+    ELSE
+        result := public.claim_territory_unreviewed(
+            p_territory_id, p_activity_id, p_owner_username, p_name, stored_track
+        );
+    END IF;
+
+    IF (result->>'success')::boolean THEN
+        IF has_review THEN
+            UPDATE public.territory_reviews SET status = 'applied' WHERE id = review.id;
+        END IF;
+
+        UPDATE public.activities
+        SET territory_id = (result->'territory'->>'id')::uuid
+        WHERE id = p_activity_id;
+
+        -- Ground won by territories folded into this one now counts as won by it
+        UPDATE public.territory_invasions
+        SET new_territory_id = (result->'territory'->>'id')::uuid
+        WHERE new_territory_id IN (
+            SELECT jsonb_array_elements_text(result->'merged_territory_ids')::uuid
+        );
+    END IF;
+
+    RETURN result;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.claim_territory(uuid, uuid, text, text) FROM anon;
+GRANT EXECUTE ON FUNCTION public.claim_territory(uuid, uuid, text, text) TO authenticated;
@@ -0,0 +1,490 @@
+-- ========================================
+-- Invasion alerts pushed from the server
+-- ========================================
+-- Invasion digests used to be scheduled by the app from its Realtime
+-- subscription, so nothing arrived once the app was suspended or closed.
+-- Devices now register an Expo push token, and send_invasion_digests, run
+-- every minute by pg_cron, pushes each user a digest of the invasions they
+-- haven't seen. Each invasion records the center of the ground it took, for
+-- the alert to open the map on.
+
+CREATE EXTENSION IF NOT EXISTS pg_net WITH SCHEMA extensions;
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+ALTER TABLE public.territory_invasions
+    ADD COLUMN IF NOT EXISTS lost_center jsonb, -- {lat, lng} of the ground taken
+    ADD COLUMN IF NOT EXISTS pushed_at timestamptz; -- when a digest covered it, or it was shown in the app
+
+CREATE INDEX IF NOT EXISTS idx_territory_invasions_unpushed
+    ON public.territory_invasions(invaded_user_id) WHERE pushed_at IS NULL;
+
+-- A device's Expo push token belongs to whoever signed in on it last
+CREATE TABLE IF NOT EXISTS public.push_tokens (
+    token text PRIMARY KEY,
+    user_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    platform text,
+    updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_push_tokens_user ON public.push_tokens(user_id);
+
+ALTER TABLE public.push_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own push tokens"
+    ON public.push_tokens FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own push tokens"
+    ON public.push_tokens FOR DELETE USING (auth.uid() = user_id);
+
+-- When each user's last digest went out (service role only)
+CREATE TABLE IF NOT EXISTS public.invasion_push_state (
+    user_id uuid PRIMARY KEY REFERENCES public.users(id) ON DELETE CASCADE,
+    last_sent_at timestamptz NOT NULL
+);
+
+ALTER TABLE public.invasion_push_state ENABLE ROW LEVEL SECURITY;
+
+-- Claim territory from an activity track. Rejections the client should
+-- roll back come back as {success: false, reason}; abuse raises. Only called
+-- through claim_territory, which holds back claims under review. In event
+-- mode the claim invades and merges nothing.
+CREATE OR REPLACE FUNCTION public.claim_territory_unreviewed(
+    p_territory_id uuid,
+    p_activity_id uuid,
+    p_owner_username text,
+    p_name text,
+    p_track jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+    uid uuid := auth.uid();
+    event_mode boolean := public.user_in_event_mode(uid);
+    claim_team uuid;
+    now_ms bigint := floor(EXTRACT(EPOCH FROM now()) * 1000);
+    last_claim timestamptz;
+    point_count int;
+    max_gap float;
+    track geometry;
+    claim geometry;
+    claim_area float;
+    claim_perimeter float;
+    existing record;
+    overlap_area float;
+    lost geometry;
+    remaining geometry;
+    inv public.territory_invasions;
+    invasions jsonb := '[]'::jsonb;
+    modified_ids uuid[] := '{}';
+    deleted_ids uuid[] := '{}';
+    merged_ids uuid[] := '{}';
+    total_conquered float := 0;
+    merged geometry;
+    merged_name text := NULLIF(p_name, '');
+    merged_history jsonb;
+    claimed public.territories;
+BEGIN
+    IF uid IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    -- Rate limiting: max 1 territory claim per 30 seconds
+    SELECT MAX(claimed_at) INTO last_claim
+    FROM public.territories
+    WHERE owner_id = uid;
+
+    IF last_claim IS NOT NULL AND (now() - last_claim) < interval '30 seconds' THEN
+        RAISE EXCEPTION 'Rate limited: wait at least 30 seconds between territory claims';
+    END IF;
+
+    IF p_track IS NULL OR jsonb_typeof(p_track) != 'array' THEN
+        RAISE EXCEPTION 'Invalid track: must be a JSON array of segments';
+    END IF;
+    IF EXISTS (SELECT 1 FROM public.territories WHERE id = p_territory_id) THEN
+        RAISE EXCEPTION 'Territory % already exists', p_territory_id;
+    END IF;
+
+    -- Stitch the segments; a pause gap wider than 200 m can't be bridged honestly
+    SELECT count(*), ST_MakeLine(geom ORDER BY segment_index, point_index)
+    INTO point_count, track
+    FROM public.activity_track_points(p_track);
+
+    IF point_count > 50000 THEN
+        RAISE EXCEPTION 'Invalid track: too many points (max 50000)';
+    END IF;
+    IF point_count < 10 THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'TOO_FEW_POINTS');
+    END IF;
+
+    SELECT max(ST_Distance(previous_last::geography, first_point::geography)) INTO max_gap
+    FROM (
+        SELECT first_point, lag(last_point) OVER (ORDER BY segment_index) AS previous_last
+        FROM (
+            SELECT segment_index,
+                   (array_agg(geom ORDER BY point_index))[1] AS first_point,
+                   (array_agg(geom ORDER BY point_index DESC))[1] AS last_point
+            FROM public.activity_track_points(p_track)
+            GROUP BY segment_index
+        ) AS ends
+    ) AS gaps;
+
+    IF max_gap > 200 THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'PAUSE_GAP_TOO_WIDE');
+    END IF;
+    IF ST_Distance(ST_StartPoint(track)::geography, ST_EndPoint(track)::geography) > 200 THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'LOOP_NOT_CLOSED');
+    END IF;
+
+    -- Close the loop and keep its largest piece, like GameEngine.processTerritory
+    SELECT d.geom INTO claim
+    FROM ST_Dump(ST_CollectionExtract(
+        ST_MakeValid(ST_MakePolygon(ST_AddPoint(track, ST_StartPoint(track)))), 3
+    )) AS d
+    ORDER BY ST_Area(d.geom::geography) DESC
+    LIMIT 1;
+
+    claim_area := COALESCE(ST_Area(claim::geography), 0);
+    claim_perimeter := COALESCE(ST_Perimeter(claim::geography), 0);
+
+    IF claim_area < 10 THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'TOO_SMALL');
+    END IF;
+    IF claim_area > 10000000 OR claim_perimeter > 100000 THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'TOO_LARGE');
+    END IF;
+
+    -- Invade other owners' territories, leaving teammates' alone
+    SELECT team_id INTO claim_team FROM public.team_members WHERE user_id = uid;
+
+    FOR existing IN
+        SELECT * FROM public.territories
+        WHERE NOT event_mode
+          AND owner_id IS DISTINCT FROM uid
+          AND (claim_team IS NULL OR team_id IS DISTINCT FROM claim_team)
+          AND geom && claim
+          AND ST_Intersects(geom, claim)
+        FOR UPDATE
+    LOOP
+        lost := ST_CollectionExtract(ST_Intersection(existing.geom, claim), 3);
+        overlap_area := COALESCE(ST_Area(lost::geography), 0);
+        CONTINUE WHEN overlap_area < 1; -- GPS noise
+
+        -- A decayed territory collapses once the invader covers the share of it
+        -- that its strength still holds; at full strength that's all of it
+        IF COALESCE(existing.area, 0) > 0 AND overlap_area >= existing.area *
+            public.territory_strength(COALESCE(existing.last_defended_at, existing.claimed_at)) THEN
+            remaining := NULL;
+        ELSE
+            remaining := public.territory_significant_parts(ST_Difference(existing.geom, claim));
+        END IF;
+
+        IF remaining IS NULL THEN
+            DELETE FROM public.territories WHERE id = existing.id;
+            deleted_ids := deleted_ids || existing.id;
+            overlap_area := COALESCE(existing.area, overlap_area);
+        ELSE
+            UPDATE public.territories
+            SET polygon = public.territory_geometry_polygon(remaining),
+                area = ST_Area(remaining::geography),
+                perimeter = ST_Perimeter(remaining::geography),
+                center = public.territory_geometry_center(remaining),
+                history = CASE WHEN jsonb_typeof(history) = 'array' THEN history ELSE '[]'::jsonb END
+                    || jsonb_build_array(jsonb_build_object(
+                        'previousOwnerId', existing.owner_id,
+                        'claimedBy', uid,
+                        'claimedAt', now_ms,
+                        'activityId', p_activity_id
+                    ))
+            WHERE id = existing.id;
+            modified_ids := modified_ids || existing.id;
+        END IF;
+        total_conquered := total_conquered + overlap_area;
+
+        INSERT INTO public.territory_invasions (
+            invaded_user_id, invader_user_id, invader_username,
+            invaded_territory_id, new_territory_id,
+            overlap_area, territory_was_destroyed, lost_center
+        ) VALUES (
+            existing.owner_id, uid, p_owner_username,
+            existing.id, p_territory_id,
+            overlap_area, remaining IS NULL, public.territory_geometry_center(lost)
+        )
+        RETURNING * INTO inv;
+        invasions := invasions || jsonb_build_array(to_jsonb(inv));
+    END LOOP;
+
+    -- Fold in the owner's territories the claim overlaps or touches. The
+    -- merged whole is one territory now, defended as of this claim.
+    merged := claim;
+    merged_history := jsonb_build_array(jsonb_build_object(
+        'claimedBy', uid, 'claimedAt', now_ms, 'activityId', p_activity_id
+    ));
+
+    FOR existing IN
+        SELECT * FROM public.territories
+        WHERE NOT event_mode
+          AND owner_id = uid
+          AND geom && claim
+          AND ST_Intersects(geom, claim)
+        ORDER BY claimed_at
+        FOR UPDATE
+    LOOP
+        merged := ST_Union(merged, existing.geom);
+        merged_name := COALESCE(merged_name, NULLIF(existing.name, ''));
+        merged_history := merged_history ||
+            CASE WHEN jsonb_typeof(existing.history) = 'array' THEN existing.history ELSE '[]'::jsonb END;
+        merged_ids := merged_ids || existing.id;
+    END LOOP;
+
+    IF array_length(merged_ids, 1) IS NOT NULL THEN
+        merged := COALESCE(public.territory_significant_parts(merged), claim);
+        SELECT jsonb_agg(event ORDER BY (event->>'claimedAt')::numeric) INTO merged_history
+        FROM jsonb_array_elements(merged_history) AS event;
+
+        UPDATE public.activities
+        SET territory_id = p_territory_id
+        WHERE territory_id = ANY(merged_ids);
+
+        DELETE FROM public.territories WHERE id = ANY(merged_ids);
+    END IF;
+
+    INSERT INTO public.territories (
+        id, owner_id, name, activity_id, claimed_at, area, perimeter,
+        center, polygon, history, last_defended_at
+    ) VALUES (
+        p_territory_id, uid, merged_name, p_activity_id, now(),
+        ST_Area(merged::geography), ST_Perimeter(merged::geography),
+        public.territory_geometry_center(merged), public.territory_geometry_polygon(merged),
+        merged_history, now()
+    )
+    RETURNING * INTO claimed;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'territory', to_jsonb(claimed) - 'geom',
+        'modified_territories', COALESCE((
+            SELECT jsonb_agg(to_jsonb(t) - 'geom')
+            FROM public.territories AS t
+            WHERE t.id = ANY(modified_ids)
+        ), '[]'::jsonb),
+        'deleted_territory_ids', to_jsonb(deleted_ids),
+        'merged_territory_ids', to_jsonb(merged_ids),
+        'invasions', invasions,
+        'total_conquered_area', total_conquered
+    );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.claim_territory_unreviewed(uuid, uuid, text, text, jsonb) FROM PUBLIC, anon, authenticated;
+
+-- Mirrors formatArea in utils/shareCardUtils.ts
+CREATE OR REPLACE FUNCTION public.format_area(p_sq_meters float)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT CASE
+        WHEN p_sq_meters < 10000 THEN round(p_sq_meters::numeric)::text || ' m²'
+        ELSE to_char(p_sq_meters / 10000, 'FM999999990.00') || ' ha'
+    END;
+$$;
+
+-- One notification for a batch of invasions, grouped by invader: a single
+-- invasion is told as it happened, several as a summary of who took how
+-- much. Mirrors buildInvasionDigest in utils/invasionDigest.ts, with the
+-- biggest loss as focus.
+CREATE OR REPLACE FUNCTION public.invasion_digest(p_invasion_ids uuid[])
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+    focus public.territory_invasions;
+    invasion_count int;
+    territory_count int;
+    total_area float;
+    names text[];
+    others int;
+    who text;
+BEGIN
+    SELECT * INTO focus
+    FROM public.territory_invasions
+    WHERE id = ANY(p_invasion_ids)
+    ORDER BY overlap_area DESC NULLS LAST, created_at
+    LIMIT 1;
+
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    SELECT count(*), count(DISTINCT invaded_territory_id), COALESCE(sum(overlap_area), 0)
+    INTO invasion_count, territory_count, total_area
+    FROM public.territory_invasions
+    WHERE id = ANY(p_invasion_ids);
+
+    SELECT array_agg(name ORDER BY area DESC) INTO names
+    FROM (
+        SELECT COALESCE((array_agg(NULLIF(invader_username, '') ORDER BY created_at))[1], 'Someone') AS name,
+               sum(COALESCE(overlap_area, 0)) AS area
+        FROM public.territory_invasions
+        WHERE id = ANY(p_invasion_ids)
+        GROUP BY invader_user_id
+    ) AS invaders;
+
+    IF invasion_count = 1 THEN
+        RETURN jsonb_build_object(
+            'title', 'Territory invaded!',
+            'body', CASE WHEN focus.territory_was_destroyed
+                THEN names[1] || ' took one of your territories'
+                ELSE names[1] || ' took ' || public.format_area(focus.overlap_area) || ' of your territory'
+            END,
+            'focus', to_jsonb(focus)
+        );
+    END IF;
+
+    others := array_length(names, 1) - 2;
+    who := CASE
+        WHEN others < 0 THEN names[1]
+        WHEN others = 0 THEN names[1] || ' and ' || names[2]
+        ELSE names[1] || ', ' || names[2] || ' and ' || others || CASE WHEN others = 1 THEN ' other' ELSE ' others' END
+    END;
+
+    RETURN jsonb_build_object(
+        'title', 'Under attack!',
+        'body', who || ' took ' || public.format_area(total_area) || ' from ' ||
+            CASE WHEN territory_count = 1 THEN 'one of your territories' ELSE territory_count || ' of your territories' END,
+        'focus', to_jsonb(focus)
+    );
+END;
+$$;
+
+-- Push each user a digest of the invasions they haven't seen once the first
+-- has waited 30 s for others landing with it, and no sooner than 15 min
+-- after their last digest, like queueInvasion in utils/invasionDigest.ts.
+-- Goes through Expo's push service to every device the user registered; a
+-- tapped alert opens the map on the ground lost in the biggest invasion.
+-- Returns how many digests were sent.
+CREATE OR REPLACE FUNCTION public.send_invasion_digests()
+RETURNS int
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+    target record;
+    digest jsonb;
+    focus_center jsonb;
+    messages jsonb;
+    sent int := 0;
+BEGIN
+    FOR target IN
+        SELECT i.invaded_user_id AS user_id, array_agg(i.id) AS invasion_ids
+        FROM public.territory_invasions AS i
+        LEFT JOIN public.invasion_push_state AS s ON s.user_id = i.invaded_user_id
+        WHERE i.pushed_at IS NULL
+          AND NOT COALESCE(i.seen, false)
+          AND i.invaded_user_id IS NOT NULL
+        GROUP BY i.invaded_user_id, s.last_sent_at
+        HAVING min(i.created_at) <= now() - interval '30 seconds'
+           AND (s.last_sent_at IS NULL OR s.last_sent_at <= now() - interval '15 minutes')
+    LOOP
+        digest := public.invasion_digest(target.invasion_ids);
+
+        -- Invasions from before lost_center was recorded fall back to what's
+        -- left of the territory they hit
+        focus_center := COALESCE(
+            digest->'focus'->'lost_center',
+            (SELECT center FROM public.territories WHERE id = (digest->'focus'->>'invaded_territory_id')::uuid)
+        );
+
+        SELECT jsonb_agg(jsonb_build_object(
+            'to', t.token,
+            'title', digest->>'title',
+            'body', digest->>'body',
+            'sound', 'default',
+            'channelId', 'invasions',
+            'data', jsonb_build_object(
+                'type', 'invasion_digest',
+                'invasionIds', to_jsonb(target.invasion_ids),
+                'focusTerritoryLat', (focus_center->>'lat')::float,
+                'focusTerritoryLng', (focus_center->>'lng')::float
+            )
+        ))
+        INTO messages
+        FROM public.push_tokens AS t
+        WHERE t.user_id = target.user_id;
+
+        IF messages IS NOT NULL THEN
+            PERFORM net.http_post(
+                url := 'https://exp.host/--/api/v2/push/send',
+                body := messages,
+                headers := jsonb_build_object('Content-Type', 'application/json')
+            );
+
+            INSERT INTO public.invasion_push_state (user_id, last_sent_at)
+            VALUES (target.user_id, now())
+            ON CONFLICT (user_id) DO UPDATE SET last_sent_at = EXCLUDED.last_sent_at;
+            sent := sent + 1;
+        END IF;
+
+        UPDATE public.territory_invasions
+        SET pushed_at = now()
+        WHERE id = ANY(target.invasion_ids);
+    END LOOP;
+
+    RETURN sent;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.format_area(float) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.invasion_digest(uuid[]) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.send_invasion_digests() FROM PUBLIC, anon, authenticated;
+
+-- The app is showing the caller's invasions itself, so the digest waiting
+-- for them is dropped. Their last digest time stays, so the next one still
+-- waits out the 15 minutes.
+CREATE OR REPLACE FUNCTION public.skip_pending_invasion_push()
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    UPDATE public.territory_invasions
+    SET pushed_at = now()
+    WHERE invaded_user_id = auth.uid() AND pushed_at IS NULL;
+$$;
+
+REVOKE ALL ON FUNCTION public.skip_pending_invasion_push() FROM anon;
+GRANT EXECUTE ON FUNCTION public.skip_pending_invasion_push() TO authenticated;
+
+-- Push invasion alerts for the caller to this device, taking the token over
+-- from whoever was signed in on it before
+CREATE OR REPLACE FUNCTION public.register_push_token(p_token text, p_platform text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+    IF p_token IS NULL OR p_token !~ '^Expo(nent)?PushToken\[.+\]$' THEN
+        RAISE EXCEPTION 'Invalid push token';
+    END IF;
+
+    INSERT INTO public.push_tokens (token, user_id, platform, updated_at)
+    VALUES (p_token, auth.uid(), p_platform, now())
+    ON CONFLICT (token) DO UPDATE
+    SET user_id = EXCLUDED.user_id, platform = EXCLUDED.platform, updated_at = EXCLUDED.updated_at;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.register_push_token(text, text) FROM anon;
+GRANT EXECUTE ON FUNCTION public.register_push_token(text, text) TO authenticated;
+
+SELECT cron.schedule('send-invasion-digests', '* * * * *', 'SELECT public.send_invasion_digests()');
@@ -0,0 +1,343 @@
+-- ========================================
+-- Claim rules enforced by the server
+-- ========================================
+-- The claim rules (app_settings claim_rules) were only checked by the app,
+-- so a modified client could still claim slivers, bridged boundaries and
+-- loops too big for the activity. claim_territory_unreviewed now checks
+-- them itself, with the same defaults as utils/claimRules.ts, and rejects
+-- with the rule's reason, value and limit.
+
+-- A positive number from a setting, or the fallback when it's missing or
+-- anything else. Mirrors positive in utils/claimRules.ts.
+CREATE OR REPLACE FUNCTION public.positive_setting(p_value jsonb, p_fallback float)
+RETURNS float
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT CASE
+        WHEN jsonb_typeof(p_value) = 'number' AND (p_value #>> '{}')::float > 0 THEN (p_value #>> '{}')::float
+        ELSE p_fallback
+    END;
+$$;
+
+-- The first claim rule the loop breaks, as {reason, value, limit}, or NULL
+-- when it may claim. Mirrors evaluateClaimRules in utils/claimRules.ts: the
+-- distance covered leaves out pause gaps, and the width is the diameter of
+-- the largest circle inside the outer ring on a local flat projection.
+CREATE OR REPLACE FUNCTION public.claim_rule_violation(p_claim extensions.geometry, p_track jsonb, p_type text)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SET search_path = public, extensions
+AS $$
+DECLARE
+    rules jsonb;
+    activity_type text := CASE WHEN p_type IN ('WALK', 'RUN', 'RIDE') THEN p_type ELSE 'WALK' END;
+    max_area float;
+    max_ratio float;
+    min_compactness float;
+    min_width float;
+    claim_area float := COALESCE(ST_Area(p_claim::geography), 0);
+    claim_perimeter float := COALESCE(ST_Perimeter(p_claim::geography), 0);
+    covered float;
+    ratio float;
+    compactness float;
+    outline geometry;
+    radius float;
+    width float;
+BEGIN
+    SELECT value INTO rules FROM public.app_settings WHERE key = 'claim_rules';
+    IF jsonb_typeof(rules) IS DISTINCT FROM 'object' THEN
+        rules := '{}'::jsonb;
+    END IF;
+
+    max_area := public.positive_setting(
+        CASE WHEN jsonb_typeof(rules->'maxAreaByType') = 'object' THEN rules->'maxAreaByType'->activity_type END,
+        CASE activity_type WHEN 'RUN' THEN 6000000 WHEN 'RIDE' THEN 10000000 ELSE 3000000 END
+    );
+    max_ratio := public.positive_setting(rules->'maxPerimeterToDistance', 1.5);
+    min_compactness := public.positive_setting(rules->'minCompactness', 0.12);
+    min_width := public.positive_setting(rules->'minWidth', 20);
+
+    IF claim_area > max_area THEN
+        RETURN jsonb_build_object('reason', 'TOO_LARGE_FOR_TYPE', 'value', claim_area, 'limit', max_area);
+    END IF;
+
+    SELECT COALESCE(sum(ST_Distance(previous::geography, geom::geography)), 0) INTO covered
+    FROM (
+        SELECT geom, lag(geom) OVER (PARTITION BY segment_index ORDER BY point_index) AS previous
+        FROM public.activity_track_points(p_track)
+    ) AS steps
+    WHERE previous IS NOT NULL;
+
+    -- Nothing covered leaves the ratio unbounded, which JSON can't carry
+    ratio := CASE WHEN covered > 0 THEN claim_perimeter / covered END;
+    IF ratio IS NULL OR ratio > max_ratio THEN
+        RETURN jsonb_build_object('reason', 'PERIMETER_EXCEEDS_DISTANCE', 'value', ratio, 'limit', max_ratio);
+    END IF;
+
+    compactness := CASE WHEN claim_perimeter > 0 THEN 4 * pi() * claim_area / (claim_perimeter * claim_perimeter) ELSE 0 END;
+    IF compactness < min_compactness THEN
+        RETURN jsonb_build_object('reason', 'NOT_COMPACT', 'value', compactness, 'limit', min_compactness);
+    END IF;
+
+    outline := ST_MakePolygon(ST_ExteriorRing(p_claim));
+    SELECT mic.radius INTO radius
+    FROM ST_MaximumInscribedCircle(ST_Scale(outline, cos(radians(ST_Y(ST_Centroid(outline)))), 1)) AS mic;
+    width := 2 * radians(COALESCE(radius, 0)) * 6371008.8;
+    IF width < min_width THEN
+        RETURN jsonb_build_object('reason', 'TOO_NARROW', 'value', width, 'limit', min_width);
+    END IF;
+
+    RETURN NULL;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.positive_setting(jsonb, float) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.claim_rule_violation(extensions.geometry, jsonb, text) FROM PUBLIC, anon, authenticated;
+
+-- Claim territory from an activity track. Rejections the client should
+-- roll back come back as {success: false, reason}; abuse raises. Only called
+-- through claim_territory, which holds back claims under review. Loops that
+-- break the claim rules are rejected. In event mode the claim invades and
+-- merges nothing.
+CREATE OR REPLACE FUNCTION public.claim_territory_unreviewed(
+    p_territory_id uuid,
+    p_activity_id uuid,
+    p_owner_username text,
+    p_name text,
+    p_track jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+    uid uuid := auth.uid();
+    event_mode boolean := public.user_in_event_mode(uid);
+    claim_team uuid;
+    now_ms bigint := floor(EXTRACT(EPOCH FROM now()) * 1000);
+    last_claim timestamptz;
+    point_count int;
+    max_gap float;
+    track geometry;
+    claim geometry;
+    claim_area float;
+    claim_perimeter float;
+    existing record;
+    overlap_area float;
+    lost geometry;
+    remaining geometry;
+    inv public.territory_invasions;
+    invasions jsonb := '[]'::jsonb;
+    modified_ids uuid[] := '{}';
+    deleted_ids uuid[] := '{}';
+    merged_ids uuid[] := '{}';
+    total_conquered float := 0;
+    merged geometry;
+    merged_name text := NULLIF(p_name, '');
+    merged_history jsonb;
+    claimed public.territories;
+    rule_violation jsonb;
+BEGIN
+    IF uid IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    -- Rate limiting: max 1 territory claim per 30 seconds
+    SELECT MAX(claimed_at) INTO last_claim
+    FROM public.territories
+    WHERE owner_id = uid;
+
+    IF last_claim IS NOT NULL AND (now() - last_claim) < interval '30 seconds' THEN
+        RAISE EXCEPTION 'Rate limited: wait at least 30 seconds between territory claims';
+    END IF;
+
+    IF p_track IS NULL OR jsonb_typeof(p_track) != 'array' THEN
+        RAISE EXCEPTION 'Invalid track: must be a JSON array of segments';
+    END IF;
+    IF EXISTS (SELECT 1 FROM public.territories WHERE id = p_territory_id) THEN
+        RAISE EXCEPTION 'Territory % already exists', p_territory_id;
+    END IF;
+
+    -- Stitch the segments; a pause gap wider than 200 m can't be bridged honestly
+    SELECT count(*), ST_MakeLine(geom ORDER BY segment_index, point_index)
+    INTO point_count, track
+    FROM public.activity_track_points(p_track);
+
+    IF point_count > 50000 THEN
+        RAISE EXCEPTION 'Invalid track: too many points (max 50000)';
+    END IF;
+    IF point_count < 10 THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'TOO_FEW_POINTS');
+    END IF;
+
+    SELECT max(ST_Distance(previous_last::geography, first_point::geography)) INTO max_gap
+    FROM (
+        SELECT first_point, lag(last_point) OVER (ORDER BY segment_index) AS previous_last
+        FROM (
+            SELECT segment_index,
+                   (array_agg(geom ORDER BY point_index))[1] AS first_point,
+                   (array_agg(geom ORDER BY point_index DESC))[1] AS last_point
+            FROM public.activity_track_points(p_track)
+            GROUP BY segment_index
+        ) AS ends
+    ) AS gaps;
+
+    IF max_gap > 200 THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'PAUSE_GAP_TOO_WIDE');
+    END IF;
+    IF ST_Distance(ST_StartPoint(track)::geography, ST_EndPoint(track)::geography) > 200 THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'LOOP_NOT_CLOSED');
+    END IF;
+
+    -- Close the loop and keep its largest piece, like GameEngine.processTerritory
+    SELECT d.geom INTO claim
+    FROM ST_Dump(ST_CollectionExtract(
+        ST_MakeValid(ST_MakePolygon(ST_AddPoint(track, ST_StartPoint(track)))), 3
+    )) AS d
+    ORDER BY ST_Area(d.geom::geography) DESC
+    LIMIT 1;
+
+    claim_area := COALESCE(ST_Area(claim::geography), 0);
+    claim_perimeter := COALESCE(ST_Perimeter(claim::geography), 0);
+
+    IF claim_area < 10 THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'TOO_SMALL');
+    END IF;
+    IF claim_area > 10000000 OR claim_perimeter > 100000 THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'TOO_LARGE');
+    END IF;
+
+    -- The shape rules the app checks before claiming
+    rule_violation := public.claim_rule_violation(
+        claim, p_track, (SELECT type FROM public.activities WHERE id = p_activity_id)
+    );
+    IF rule_violation IS NOT NULL THEN
+        RETURN jsonb_build_object('success', false) || rule_violation;
+    END IF;
+
+    -- Invade other owners' territories, leaving teammates' alone
+    SELECT team_id INTO claim_team FROM public.team_members WHERE user_id = uid;
+
+    FOR existing IN
+        SELECT * FROM public.territories
+        WHERE NOT event_mode
+          AND owner_id IS DISTINCT FROM uid
+          AND (claim_team IS NULL OR team_id IS DISTINCT FROM claim_team)
+          AND geom && claim
+          AND ST_Intersects(geom, claim)
+        FOR UPDATE
+    LOOP
+        lost := ST_CollectionExtract(ST_Intersection(existing.geom, claim), 3);
+        overlap_area := COALESCE(ST_Area(lost::geography), 0);
+        CONTINUE WHEN overlap_area < 1; -- GPS noise
+
+        -- A decayed territory collapses once the invader covers the share of it
+        -- that its strength still holds; at full strength that's all of it
+        IF COALESCE(existing.area, 0) > 0 AND overlap_area >= existing.area *
+            public.territory_strength(COALESCE(existing.last_defended_at, existing.claimed_at)) THEN
+            remaining := NULL;
+        ELSE
+            remaining := public.territory_significant_parts(ST_Difference(existing.geom, claim));
+        END IF;
+
+        IF remaining IS NULL THEN
+            DELETE FROM public.territories WHERE id = existing.id;
+            deleted_ids := deleted_ids || existing.id;
+            overlap_area := COALESCE(existing.area, overlap_area);
+        ELSE
+            UPDATE public.territories
+            SET polygon = public.territory_geometry_polygon(remaining),
+                area = ST_Area(remaining::geography),
+                perimeter = ST_Perimeter(remaining::geography),
+                center = public.territory_geometry_center(remaining),
+                history = CASE WHEN jsonb_typeof(history) = 'array' THEN history ELSE '[]'::jsonb END
+                    || jsonb_build_array(jsonb_build_object(
+                        'previousOwnerId', existing.owner_id,
+                        'claimedBy', uid,
+                        'claimedAt', now_ms,
+                        'activityId', p_activity_id
+                    ))
+            WHERE id = existing.id;
+            modified_ids := modified_ids || existing.id;
+        END IF;
+        total_conquered := total_conquered + overlap_area;
+
+        INSERT INTO public.territory_invasions (
+            invaded_user_id, invader_user_id, invader_username,
+            invaded_territory_id, new_territory_id,
+            overlap_area, territory_was_destroyed, lost_center
+        ) VALUES (
+            existing.owner_id, uid, p_owner_username,
+            existing.id, p_territory_id,
+            overlap_area, remaining IS NULL, public.territory_geometry_center(lost)
+        )
+        RETURNING * INTO inv;
+        invasions := invasions || jsonb_build_array(to_jsonb(inv));
+    END LOOP;
+
+    -- Fold in the owner's territories the claim overlaps or touches. The
+    -- merged whole is one territory now, defended as of this claim.
+    merged := claim;
+    merged_history := jsonb_build_array(jsonb_build_object(
+        'claimedBy', uid, 'claimedAt', now_ms, 'activityId', p_activity_id
+    ));
+
+    FOR existing IN
+        SELECT * FROM public.territories
+        WHERE NOT event_mode
+          AND owner_id = uid
+          AND geom && claim
+          AND ST_Intersects(geom, claim)
+        ORDER BY claimed_at
+        FOR UPDATE
+    LOOP
+        merged := ST_Union(merged, existing.geom);
+        merged_name := COALESCE(merged_name, NULLIF(existing.name, ''));
+        merged_history := merged_history ||
+            CASE WHEN jsonb_typeof(existing.history) = 'array' THEN existing.history ELSE '[]'::jsonb END;
+        merged_ids := merged_ids || existing.id;
+    END LOOP;
+
+    IF array_length(merged_ids, 1) IS NOT NULL THEN
+        merged := COALESCE(public.territory_significant_parts(merged), claim);
+        SELECT jsonb_agg(event ORDER BY (event->>'claimedAt')::numeric) INTO merged_history
+        FROM jsonb_array_elements(merged_history) AS event;
+
+        UPDATE public.activities
+        SET territory_id = p_territory_id
+        WHERE territory_id = ANY(merged_ids);
+
+        DELETE FROM public.territories WHERE id = ANY(merged_ids);
+    END IF;
+
+    INSERT INTO public.territories (
+        id, owner_id, name, activity_id, claimed_at, area, perimeter,
+        center, polygon, history, last_defended_at
+    ) VALUES (
+        p_territory_id, uid, merged_name, p_activity_id, now(),
+        ST_Area(merged::geography), ST_Perimeter(merged::geography),
+        public.territory_geometry_center(merged), public.territory_geometry_polygon(merged),
+        merged_history, now()
+    )
+    RETURNING * INTO claimed;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'territory', to_jsonb(claimed) - 'geom',
+        'modified_territories', COALESCE((
+            SELECT jsonb_agg(to_jsonb(t) - 'geom')
+            FROM public.territories AS t
+            WHERE t.id = ANY(modified_ids)
+        ), '[]'::jsonb),
+        'deleted_territory_ids', to_jsonb(deleted_ids),
+        'merged_territory_ids', to_jsonb(merged_ids),
+        'invasions', invasions,
+        'total_conquered_area', total_conquered
+    );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.claim_territory_unreviewed(uuid, uuid, text, text, jsonb) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,69 @@
+-- ========================================
+-- Team leaderboard counts shared ground once
+-- ========================================
+-- get_team_leaderboard summed the area of every teammate territory, so
+-- ground that teammates' territories share (they never invade each other)
+-- counted once per territory on it, and stacking claims inflated a team's
+-- rank. Each piece of ground now counts once, at its strongest.
+
+-- Teams ranked by the decay-weighted area they hold. Teammates don't invade
+-- each other, so their territories can overlap: each piece of ground counts
+-- once, at the strength of the strongest teammate territory on it.
+CREATE OR REPLACE FUNCTION public.get_team_leaderboard(
+    p_since timestamptz DEFAULT NULL,
+    p_limit int DEFAULT 50
+)
+RETURNS TABLE(
+    team_id uuid,
+    name text,
+    color text,
+    member_count bigint,
+    total_area float,
+    territory_count bigint
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+BEGIN
+    IF p_limit IS NULL OR p_limit < 1 THEN
+        p_limit := 50;
+    ELSIF p_limit > 500 THEN
+        p_limit := 500;
+    END IF;
+
+    RETURN QUERY
+    WITH held AS (
+        SELECT t.id, t.team_id, t.geom,
+               public.territory_strength(COALESCE(t.last_defended_at, t.claimed_at)) AS strength
+        FROM public.territories t
+        WHERE t.team_id IS NOT NULL
+          AND (p_since IS NULL OR t.claimed_at >= p_since)
+    ),
+    -- Each territory's ground that no stronger teammate territory already counts
+    uncovered AS (
+        SELECT h.id, h.team_id, h.strength,
+               COALESCE(ST_Area(ST_Difference(h.geom, (
+                   SELECT ST_Union(s.geom)
+                   FROM held s
+                   WHERE s.team_id = h.team_id
+                     AND s.geom && h.geom
+                     AND (s.strength > h.strength OR (s.strength = h.strength AND s.id < h.id))
+               ))::geography), ST_Area(h.geom::geography), 0) AS area
+        FROM held h
+    )
+    SELECT
+        tm.id AS team_id,
+        tm.name,
+        tm.color,
+        (SELECT COUNT(*) FROM public.team_members m WHERE m.team_id = tm.id) AS member_count,
+        COALESCE(SUM(u.area * u.strength), 0)::float AS total_area,
+        COUNT(u.id) AS territory_count
+    FROM uncovered u
+    JOIN public.teams tm ON tm.id = u.team_id
+    GROUP BY tm.id, tm.name, tm.color
+    ORDER BY total_area DESC
+    LIMIT p_limit;
+END;
+$$;
@@ -0,0 +1,15 @@
+-- ========================================
+-- Reviews can only be queued for the caller's own activities
+-- ========================================
+-- The insert policy only checked user_id, and activity_id is unique, so
+-- anyone could queue a review for someone else's activity first and block
+-- that activity's claim.
+
+DROP POLICY IF EXISTS "Users can queue own claims for review" ON public.territory_reviews;
+
+CREATE POLICY "Users can queue own claims for review"
+    ON public.territory_reviews FOR INSERT
+    WITH CHECK (
+        auth.uid() = user_id AND status = 'pending' AND reviewed_at IS NULL AND reviewed_by IS NULL
+        AND EXISTS (SELECT 1 FROM public.activities a WHERE a.id = activity_id AND a.user_id = auth.uid())
+    );
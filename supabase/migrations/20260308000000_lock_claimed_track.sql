@@ -0,0 +1,68 @@
+-- ========================================
+-- Claimed activities keep their track
+-- ========================================
+-- lock_claimed_activity_track only refused edits to the time range and
+-- distance, so the stored track, type and duration of an activity that had
+-- claimed territory could still be rewritten, and claim_territory and
+-- reviews read that track. Those are locked too; rewriting a legacy JSON
+-- track in the encoded form still goes through, as long as it decodes to
+-- the same fixes.
+
+-- Whether two stored tracks (any form activity_track() reads) hold the same
+-- fixes, up to the rounding of the encoded form: a legacy JSON track and its
+-- re-encoding compare equal.
+CREATE OR REPLACE FUNCTION public.same_activity_track(p_old jsonb, p_new jsonb)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+    WITH tracks AS (
+        SELECT which, CASE WHEN jsonb_typeof(track->0) = 'object' THEN jsonb_build_array(track) ELSE track END AS segments
+        FROM (VALUES ('old', public.activity_track(p_old)), ('new', public.activity_track(p_new))) AS t(which, track)
+    ),
+    fixes AS (
+        SELECT t.which, seg.ord AS segment_index, pt.ord AS point_index, pt.value AS point
+        FROM tracks t,
+             jsonb_array_elements(t.segments) WITH ORDINALITY AS seg(value, ord),
+             jsonb_array_elements(CASE WHEN jsonb_typeof(seg.value) = 'array' THEN seg.value ELSE '[]'::jsonb END)
+                 WITH ORDINALITY AS pt(value, ord)
+    )
+    SELECT NOT EXISTS (
+        SELECT 1
+        FROM (SELECT * FROM fixes WHERE which = 'old') AS o
+        FULL JOIN (SELECT * FROM fixes WHERE which = 'new') AS n USING (segment_index, point_index)
+        WHERE o.point IS NULL OR n.point IS NULL
+           OR abs((o.point->>'lat')::float - (n.point->>'lat')::float) > 1e-6
+           OR abs((o.point->>'lng')::float - (n.point->>'lng')::float) > 1e-6
+           OR round((o.point->>'timestamp')::numeric) IS DISTINCT FROM round((n.point->>'timestamp')::numeric)
+           OR abs(COALESCE((o.point->>'speed')::float, 0) - COALESCE((n.point->>'speed')::float, 0)) > 0.01
+    );
+$$;
+
+-- Called by the lock_claimed_activity_track trigger as the updating user
+REVOKE ALL ON FUNCTION public.same_activity_track(jsonb, jsonb) FROM anon;
+GRANT EXECUTE ON FUNCTION public.same_activity_track(jsonb, jsonb) TO authenticated;
+
+-- Refuse edits to the track, type, duration, time range or distance of an
+-- activity that has claimed territory. Re-encoding the same track is allowed.
+CREATE OR REPLACE FUNCTION public.lock_claimed_activity_track()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    IF OLD.territory_id IS NOT NULL AND (
+        NEW.start_time IS DISTINCT FROM OLD.start_time OR
+        NEW.end_time IS DISTINCT FROM OLD.end_time OR
+        NEW.distance IS DISTINCT FROM OLD.distance OR
+        NEW.duration IS DISTINCT FROM OLD.duration OR
+        NEW.type IS DISTINCT FROM OLD.type OR
+        (NEW.polylines IS DISTINCT FROM OLD.polylines AND
+            NOT public.same_activity_track(OLD.polylines, NEW.polylines))
+    ) THEN
+        RAISE EXCEPTION 'Activity % has claimed territory and its track can no longer be edited', OLD.id;
+    END IF;
+    RETURN NEW;
+END;
+$$;
@@ -0,0 +1,25 @@
+-- ========================================
+-- Report which shared activities are withheld for visibility
+-- ========================================
+-- The feed took every id get_shared_activities left out as hidden, which
+-- also dropped posts whose activity had been deleted. Those posts should
+-- stay, as can_view_post_activity already lets them.
+
+-- Of these activity ids, the ones the caller may not see by their owner's
+-- visibility. Ids with no activity behind them are not listed.
+CREATE OR REPLACE FUNCTION public.get_hidden_activity_ids(p_ids uuid[])
+RETURNS SETOF uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT a.id
+    FROM public.activities a
+    WHERE a.id = ANY(p_ids)
+      AND NOT public.can_view_activity(a.user_id, a.visibility)
+    LIMIT 200;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_hidden_activity_ids(uuid[]) FROM anon;
+GRANT EXECUTE ON FUNCTION public.get_hidden_activity_ids(uuid[]) TO authenticated;
@@ -0,0 +1,125 @@
+-- ========================================
+-- Keep mocked fixes flagged in encoded tracks
+-- ========================================
+-- Encoded tracks dropped GPSPoint.mocked, so a mock location provider's
+-- fixes looked like real ones once stored. Version 2 tracks carry a flags
+-- value per point; version 1 tracks still decode, without the flag.
+-- decode_track_segment takes the version, so the one-argument form goes.
+
+DROP FUNCTION IF EXISTS public.decode_track_segment(text);
+
+-- One encoded segment to a jsonb array of {lat, lng, timestamp, speed, accuracy, altitude},
+-- plus mocked: true on mocked fixes. Version 1 segments carry no flags value.
+CREATE OR REPLACE FUNCTION public.decode_track_segment(p_encoded text, p_version int)
+RETURNS jsonb
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+    vals numeric[] := '{}';
+    points jsonb[] := '{}';
+    acc numeric := 0;
+    factor numeric := 1;
+    chunk int;
+    v numeric;
+    lat numeric := 0;
+    lng numeric := 0;
+    ts numeric := 0;
+    values_per_point int := CASE WHEN p_version = 1 THEN 6 ELSE 7 END;
+BEGIN
+    IF p_encoded IS NULL THEN
+        RETURN '[]'::jsonb;
+    END IF;
+
+    FOR i IN 1..length(p_encoded) LOOP
+        chunk := ascii(substr(p_encoded, i, 1)) - 63;
+        IF chunk < 0 OR chunk > 63 THEN
+            EXIT;
+        END IF;
+        acc := acc + (chunk % 32) * factor;
+        factor := factor * 32;
+        CONTINUE WHEN chunk >= 32;
+
+        -- Undo the zigzag
+        v := CASE WHEN acc % 2 = 0 THEN acc / 2 ELSE -(acc + 1) / 2 END;
+        vals := vals || v;
+        acc := 0;
+        factor := 1;
+        CONTINUE WHEN array_length(vals, 1) < values_per_point;
+
+        lat := lat + vals[1];
+        lng := lng + vals[2];
+        ts := ts + vals[3];
+        points := points || jsonb_build_object(
+            'lat', lat / 1e6,
+            'lng', lng / 1e6,
+            'timestamp', ts,
+            'speed', CASE WHEN vals[4] = 0 THEN NULL WHEN vals[4] > 0 THEN (vals[4] - 1) / 100 ELSE vals[4] / 100 END,
+            'accuracy', CASE WHEN vals[5] = 0 THEN NULL WHEN vals[5] > 0 THEN (vals[5] - 1) / 10 ELSE vals[5] / 10 END,
+            'altitude', CASE WHEN vals[6] = 0 THEN NULL WHEN vals[6] > 0 THEN (vals[6] - 1) / 10 ELSE vals[6] / 10 END
+        ) || CASE WHEN values_per_point > 6 AND vals[7]::int & 1 = 1
+                  THEN jsonb_build_object('mocked', true) ELSE '{}'::jsonb END;
+        vals := '{}';
+    END LOOP;
+
+    RETURN to_jsonb(points);
+END;
+$$;
+
+-- A stored track in any form (encoded, JSON array, or JSON array held as a string) as segments of points
+CREATE OR REPLACE FUNCTION public.activity_track(p_polylines jsonb)
+RETURNS jsonb
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+    SELECT CASE
+        WHEN p_polylines IS NULL THEN '[]'::jsonb
+        WHEN jsonb_typeof(p_polylines) = 'object' AND p_polylines->>'format' = 'conqr-track' THEN
+            COALESCE(
+                (SELECT jsonb_agg(public.decode_track_segment(seg.value, COALESCE((p_polylines->>'version')::int, 1)) ORDER BY seg.ord)
+                 FROM jsonb_array_elements_text(p_polylines->'segments') WITH ORDINALITY AS seg(value, ord)),
+                '[]'::jsonb
+            )
+        WHEN jsonb_typeof(p_polylines) = 'string' THEN (p_polylines #>> '{}')::jsonb
+        WHEN jsonb_typeof(p_polylines) = 'array' THEN p_polylines
+        ELSE '[]'::jsonb
+    END;
+$$;
+
+REVOKE ALL ON FUNCTION public.decode_track_segment(text, int) FROM anon;
+GRANT EXECUTE ON FUNCTION public.decode_track_segment(text, int) TO authenticated;
+
+-- Whether two stored tracks (any form activity_track() reads) hold the same
+-- fixes, up to the rounding of the encoded form: a legacy JSON track and its
+-- re-encoding compare equal.
+CREATE OR REPLACE FUNCTION public.same_activity_track(p_old jsonb, p_new jsonb)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+    WITH tracks AS (
+        SELECT which, CASE WHEN jsonb_typeof(track->0) = 'object' THEN jsonb_build_array(track) ELSE track END AS segments
+        FROM (VALUES ('old', public.activity_track(p_old)), ('new', public.activity_track(p_new))) AS t(which, track)
+    ),
+    fixes AS (
+        SELECT t.which, seg.ord AS segment_index, pt.ord AS point_index, pt.value AS point
+        FROM tracks t,
+             jsonb_array_elements(t.segments) WITH ORDINALITY AS seg(value, ord),
+             jsonb_array_elements(CASE WHEN jsonb_typeof(seg.value) = 'array' THEN seg.value ELSE '[]'::jsonb END)
+                 WITH ORDINALITY AS pt(value, ord)
+    )
+    SELECT NOT EXISTS (
+        SELECT 1
+        FROM (SELECT * FROM fixes WHERE which = 'old') AS o
+        FULL JOIN (SELECT * FROM fixes WHERE which = 'new') AS n USING (segment_index, point_index)
+        WHERE o.point IS NULL OR n.point IS NULL
+           OR abs((o.point->>'lat')::float - (n.point->>'lat')::float) > 1e-6
+           OR abs((o.point->>'lng')::float - (n.point->>'lng')::float) > 1e-6
+           OR round((o.point->>'timestamp')::numeric) IS DISTINCT FROM round((n.point->>'timestamp')::numeric)
+           OR abs(COALESCE((o.point->>'speed')::float, 0) - COALESCE((n.point->>'speed')::float, 0)) > 0.01
+           OR COALESCE((o.point->>'mocked')::boolean, false) <> COALESCE((n.point->>'mocked')::boolean, false)
+    );
+$$;
@@ -1,6 +1,10 @@
 -- Conqr Database Schema (current hardened state as of 2026-02-17)
 -- ========================================
 
+CREATE EXTENSION IF NOT EXISTS postgis WITH SCHEMA extensions;
+CREATE EXTENSION IF NOT EXISTS pg_net WITH SCHEMA extensions;
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
 -- ========================================
 -- Users
 -- ========================================
@@ -11,6 +15,8 @@ CREATE TABLE public.users (
     bio text,
     avatar_url text,
     created_at timestamptz DEFAULT now(),
+    default_activity_visibility text NOT NULL DEFAULT 'public'
+        CHECK (default_activity_visibility IN ('public', 'friends', 'private')),
     CONSTRAINT users_bio_length CHECK (char_length(bio) <= 500),
     CONSTRAINT users_username_length CHECK (char_length(username) <= 50)
 );
@@ -43,6 +49,53 @@ CREATE POLICY "Authenticated users can read admin_users"
     ON public.admin_users FOR SELECT
     USING (auth.role() = 'authenticated');
 
+-- ========================================
+-- Teams (written only through the team RPCs)
+-- ========================================
+CREATE TABLE public.teams (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    name text NOT NULL,
+    color text NOT NULL CHECK (color ~ '^#[0-9A-F]{6}$'),
+    created_by uuid REFERENCES public.users(id) ON DELETE SET NULL,
+    created_at timestamptz NOT NULL DEFAULT now(),
+    CONSTRAINT teams_name_length CHECK (char_length(name) BETWEEN 3 AND 30)
+);
+
+CREATE UNIQUE INDEX idx_teams_name ON public.teams(lower(name));
+
+ALTER TABLE public.teams ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Teams are viewable by everyone"
+    ON public.teams FOR SELECT USING (true);
+
+CREATE TABLE public.team_members (
+    team_id uuid NOT NULL REFERENCES public.teams(id) ON DELETE CASCADE,
+    user_id uuid NOT NULL UNIQUE REFERENCES public.users(id) ON DELETE CASCADE,
+    role text NOT NULL DEFAULT 'member' CHECK (role IN ('owner', 'admin', 'member')),
+    joined_at timestamptz NOT NULL DEFAULT now(),
+    PRIMARY KEY (team_id, user_id)
+);
+
+ALTER TABLE public.team_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Team members are viewable by everyone"
+    ON public.team_members FOR SELECT USING (true);
+
+-- Kept apart from teams so only members can read them
+CREATE TABLE public.team_invites (
+    team_id uuid PRIMARY KEY REFERENCES public.teams(id) ON DELETE CASCADE,
+    code text NOT NULL UNIQUE
+);
+
+ALTER TABLE public.team_invites ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can read their team's invite code"
+    ON public.team_invites FOR SELECT
+    USING (EXISTS (
+        SELECT 1 FROM public.team_members m
+        WHERE m.team_id = team_invites.team_id AND m.user_id = auth.uid()
+    ));
+
 -- ========================================
 -- Territories
 -- ========================================
@@ -54,9 +107,11 @@ CREATE TABLE public.territories (
     area float,
     perimeter float,
     center jsonb,
-    polygon jsonb,
+    polygon jsonb, -- [lng, lat] ring, or MultiPolygon coordinates for split territories
     activity_id uuid,
     history jsonb,
+    last_defended_at timestamptz DEFAULT now(),
+    team_id uuid REFERENCES public.teams(id) ON DELETE SET NULL, -- owner's team, kept in step by triggers
     CONSTRAINT territories_name_length CHECK (char_length(name) <= 100)
 );
 
@@ -65,15 +120,18 @@ ALTER TABLE public.territories ENABLE ROW LEVEL SECURITY;
 CREATE POLICY "Territories are viewable by everyone"
     ON public.territories FOR SELECT USING (true);
 
-CREATE POLICY "Authenticated users can create territories"
-    ON public.territories FOR INSERT WITH CHECK (auth.uid() = owner_id);
-
 CREATE POLICY "Users can update own territories"
     ON public.territories FOR UPDATE USING (auth.uid() = owner_id);
 
 CREATE POLICY "Users can delete own territories"
     ON public.territories FOR DELETE USING (auth.uid() = owner_id);
 
+-- Territories are only created by claim_territory; owners may rename them
+REVOKE INSERT, UPDATE ON public.territories FROM anon, authenticated;
+GRANT UPDATE (name) ON public.territories TO authenticated;
+
+CREATE INDEX idx_territories_team ON public.territories(team_id) WHERE team_id IS NOT NULL;
+
 -- ========================================
 -- Activities
 -- ========================================
@@ -88,13 +146,32 @@ CREATE TABLE public.activities (
     polylines jsonb,
     is_synced boolean DEFAULT false,
     territory_id uuid,
-    average_speed float
+    average_speed float,
+    elapsed_time float,
+    paused_duration float,
+    splits jsonb,
+    split_unit text,
+    laps jsonb,
+    elevation_gain float,
+    elevation_loss float,
+    max_elevation float,
+    min_elevation float,
+    elevation_profile jsonb,
+    tracking_profile text CHECK (tracking_profile IN ('high_accuracy', 'balanced', 'battery_saver')),
+    gps_quality jsonb,
+    route_preview jsonb,
+    suspicion_score float,
+    suspicion_reasons jsonb,
+    visibility text NOT NULL DEFAULT 'public'
+        CHECK (visibility IN ('public', 'friends', 'private'))
 );
 
 ALTER TABLE public.activities ENABLE ROW LEVEL SECURITY;
 
-CREATE POLICY "Activities are viewable by everyone"
-    ON public.activities FOR SELECT USING (true);
+-- Other users' tracks only come through get_user_activities and
+-- get_shared_activities, which strip or clip them
+CREATE POLICY "Users can view own activities"
+    ON public.activities FOR SELECT USING (auth.uid() = user_id);
 
 CREATE POLICY "Users can insert own activities"
     ON public.activities FOR INSERT WITH CHECK (auth.uid() = user_id);
@@ -105,6 +182,75 @@ CREATE POLICY "Users can update own activities"
 CREATE POLICY "Users can delete own activities"
     ON public.activities FOR DELETE USING (auth.uid() = user_id);
 
+-- ========================================
+-- Privacy Zones (owner-only; routes are clipped out of them for others)
+-- ========================================
+CREATE TABLE public.privacy_zones (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    name text,
+    lat float NOT NULL CHECK (lat BETWEEN -90 AND 90),
+    lng float NOT NULL CHECK (lng BETWEEN -180 AND 180),
+    radius float NOT NULL CHECK (radius BETWEEN 50 AND 5000),
+    created_at timestamptz NOT NULL DEFAULT now(),
+    CONSTRAINT privacy_zones_name_length CHECK (char_length(name) <= 50)
+);
+
+CREATE INDEX idx_privacy_zones_user ON public.privacy_zones(user_id);
+
+ALTER TABLE public.privacy_zones ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own privacy zones"
+    ON public.privacy_zones FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can add own privacy zones"
+    ON public.privacy_zones FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own privacy zones"
+    ON public.privacy_zones FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own privacy zones"
+    ON public.privacy_zones FOR DELETE USING (auth.uid() = user_id);
+
+-- ========================================
+-- Territory Reviews (claims from flagged activities, held for an admin)
+-- ========================================
+CREATE TABLE public.territory_reviews (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    activity_id uuid NOT NULL UNIQUE,
+    territory_id uuid NOT NULL,
+    owner_username text,
+    name text,
+    track jsonb NOT NULL,
+    suspicion_score float NOT NULL DEFAULT 0,
+    suspicion_reasons jsonb NOT NULL DEFAULT '[]'::jsonb,
+    status text NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'approved', 'rejected', 'applied')),
+    created_at timestamptz NOT NULL DEFAULT now(),
+    reviewed_at timestamptz,
+    reviewed_by uuid REFERENCES public.users(id)
+);
+
+CREATE INDEX idx_territory_reviews_status ON public.territory_reviews(status, created_at);
+CREATE INDEX idx_territory_reviews_user ON public.territory_reviews(user_id);
+
+ALTER TABLE public.territory_reviews ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can queue own claims for review"
+    ON public.territory_reviews FOR INSERT
+    WITH CHECK (
+        auth.uid() = user_id AND status = 'pending' AND reviewed_at IS NULL AND reviewed_by IS NULL
+        AND EXISTS (SELECT 1 FROM public.activities a WHERE a.id = activity_id AND a.user_id = auth.uid())
+    );
+
+CREATE POLICY "Users and admins can read reviews"
+    ON public.territory_reviews FOR SELECT
+    USING (
+        auth.uid() = user_id OR
+        auth.uid() IN (SELECT user_id FROM public.admin_users)
+    );
+
 -- ========================================
 -- Territory Invasions
 -- ========================================
@@ -118,9 +264,14 @@ CREATE TABLE public.territory_invasions (
     overlap_area float,
     territory_was_destroyed boolean DEFAULT false,
     seen boolean DEFAULT false,
-    created_at timestamptz DEFAULT now()
+    created_at timestamptz DEFAULT now(),
+    lost_center jsonb, -- {lat, lng} of the ground taken
+    pushed_at timestamptz -- when a digest covered it, or it was shown in the app
 );
 
+CREATE INDEX idx_territory_invasions_unpushed
+    ON public.territory_invasions(invaded_user_id) WHERE pushed_at IS NULL;
+
 ALTER TABLE public.territory_invasions ENABLE ROW LEVEL SECURITY;
 
 CREATE POLICY "Users can view own invasions"
@@ -131,6 +282,34 @@ CREATE POLICY "Users can update own invasion notifications"
     ON public.territory_invasions FOR UPDATE
     USING (auth.uid() = invaded_user_id);
 
+-- ========================================
+-- Push Tokens (a device's Expo token belongs to whoever signed in on it last)
+-- ========================================
+CREATE TABLE public.push_tokens (
+    token text PRIMARY KEY,
+    user_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    platform text,
+    updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_push_tokens_user ON public.push_tokens(user_id);
+
+ALTER TABLE public.push_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own push tokens"
+    ON public.push_tokens FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own push tokens"
+    ON public.push_tokens FOR DELETE USING (auth.uid() = user_id);
+
+-- When each user's last invasion digest went out (service role only)
+CREATE TABLE public.invasion_push_state (
+    user_id uuid PRIMARY KEY REFERENCES public.users(id) ON DELETE CASCADE,
+    last_sent_at timestamptz NOT NULL
+);
+
+ALTER TABLE public.invasion_push_state ENABLE ROW LEVEL SECURITY;
+
 -- ========================================
 -- Friendships
 -- ========================================
@@ -166,6 +345,63 @@ CREATE POLICY "Users can delete own friendships"
     ON public.friendships FOR DELETE
     USING (auth.uid() = requester_id OR auth.uid() = addressee_id);
 
+-- ========================================
+-- Activity Visibility (public / friends / private)
+-- ========================================
+-- Whether two users are friends: a request either way that was accepted
+CREATE OR REPLACE FUNCTION public.are_friends(p_user_a uuid, p_user_b uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM public.friendships
+        WHERE status = 'accepted'
+          AND ((requester_id = p_user_a AND addressee_id = p_user_b)
+            OR (requester_id = p_user_b AND addressee_id = p_user_a))
+    );
+$$;
+
+-- Not callable directly: it would show anyone's friendships
+REVOKE ALL ON FUNCTION public.are_friends(uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+-- Whether the caller may see an activity with this owner and visibility.
+-- Mirrors canViewActivity in utils/activityVisibility.ts.
+CREATE OR REPLACE FUNCTION public.can_view_activity(p_owner_id uuid, p_visibility text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT CASE
+        WHEN auth.uid() IS NOT NULL AND auth.uid() = p_owner_id THEN true
+        WHEN p_visibility = 'public' THEN true
+        WHEN p_visibility = 'friends' THEN
+            auth.uid() IS NOT NULL AND public.are_friends(auth.uid(), p_owner_id)
+        ELSE false
+    END;
+$$;
+
+-- Whether the caller may see the activity a post shares. Posts without one,
+-- or whose activity has been deleted, are unaffected.
+CREATE OR REPLACE FUNCTION public.can_view_post_activity(p_activity_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT COALESCE(
+        (SELECT public.can_view_activity(a.user_id, a.visibility)
+         FROM public.activities a
+         WHERE a.id = p_activity_id),
+        true
+    );
+$$;
+
 -- ========================================
 -- Posts (Community Feed)
 -- ========================================
@@ -182,8 +418,9 @@ CREATE TABLE public.posts (
 
 ALTER TABLE public.posts ENABLE ROW LEVEL SECURITY;
 
-CREATE POLICY "Posts are viewable by everyone"
-    ON public.posts FOR SELECT USING (true);
+CREATE POLICY "Posts are viewable by their activity's audience"
+    ON public.posts FOR SELECT
+    USING (auth.uid() = user_id OR public.can_view_post_activity(activity_id));
 
 CREATE POLICY "Users can create own posts"
     ON public.posts FOR INSERT WITH CHECK (auth.uid() = user_id);
@@ -315,7 +552,73 @@ CREATE TRIGGER on_auth_user_created
     AFTER INSERT ON auth.users
     FOR EACH ROW EXECUTE PROCEDURE public.handle_new_user();
 
--- Get user activities (strips polylines for non-owner callers)
+-- Refuse edits to the track, type, duration, time range or distance of an
+-- activity that has claimed territory. Re-encoding the same track is allowed.
+CREATE OR REPLACE FUNCTION public.lock_claimed_activity_track()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    IF OLD.territory_id IS NOT NULL AND (
+        NEW.start_time IS DISTINCT FROM OLD.start_time OR
+        NEW.end_time IS DISTINCT FROM OLD.end_time OR
+        NEW.distance IS DISTINCT FROM OLD.distance OR
+        NEW.duration IS DISTINCT FROM OLD.duration OR
+        NEW.type IS DISTINCT FROM OLD.type OR
+        (NEW.polylines IS DISTINCT FROM OLD.polylines AND
+            NOT public.same_activity_track(OLD.polylines, NEW.polylines))
+    ) THEN
+        RAISE EXCEPTION 'Activity % has claimed territory and its track can no longer be edited', OLD.id;
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER lock_claimed_activity_track
+    BEFORE UPDATE ON public.activities
+    FOR EACH ROW EXECUTE PROCEDURE public.lock_claimed_activity_track();
+
+-- A territory always belongs to its owner's team, whatever the client sends
+CREATE OR REPLACE FUNCTION public.set_territory_team()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    NEW.team_id := (SELECT team_id FROM public.team_members WHERE user_id = NEW.owner_id);
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_territory_team
+    BEFORE INSERT OR UPDATE OF owner_id, team_id ON public.territories
+    FOR EACH ROW EXECUTE PROCEDURE public.set_territory_team();
+
+-- Joining or leaving a team takes the member's territories along
+CREATE OR REPLACE FUNCTION public.sync_member_territories_team()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF TG_OP = 'DELETE' THEN
+        UPDATE public.territories SET team_id = NULL WHERE owner_id = OLD.user_id;
+    ELSE
+        UPDATE public.territories SET team_id = NEW.team_id WHERE owner_id = NEW.user_id;
+    END IF;
+    RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_member_territories_team
+    AFTER INSERT OR DELETE ON public.team_members
+    FOR EACH ROW EXECUTE PROCEDURE public.sync_member_territories_team();
+
+-- Get user activities (strips polylines for non-owner callers and leaves
+-- out activities their visibility hides from the caller)
 CREATE OR REPLACE FUNCTION public.get_user_activities(target_user_id uuid)
 RETURNS SETOF public.activities
 LANGUAGE plpgsql
@@ -334,9 +637,18 @@ BEGIN
             id, user_id, type, start_time, end_time,
             distance, duration,
             '[]'::jsonb AS polylines,
-            is_synced, territory_id, average_speed
+            is_synced, territory_id, average_speed,
+            elapsed_time, paused_duration,
+            splits, split_unit, laps,
+            elevation_gain, elevation_loss, max_elevation, min_elevation,
+            elevation_profile, tracking_profile, gps_quality,
+            NULL::jsonb AS route_preview,
+            NULL::float AS suspicion_score,
+            NULL::jsonb AS suspicion_reasons,
+            visibility
         FROM public.activities
         WHERE user_id = target_user_id
+          AND public.can_view_activity(user_id, visibility)
         ORDER BY start_time DESC;
     END IF;
 END;
@@ -345,7 +657,25 @@ $$;
 REVOKE ALL ON FUNCTION public.get_user_activities(uuid) FROM anon;
 GRANT EXECUTE ON FUNCTION public.get_user_activities(uuid) TO authenticated;
 
--- Get leaderboard (capped limit)
+-- Territory strength: full for 7 days after last defended, then halves every 14 days (floor 0.1)
+CREATE OR REPLACE FUNCTION public.territory_strength(p_last_defended_at timestamptz)
+RETURNS float
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT CASE
+        WHEN p_last_defended_at IS NULL THEN 1.0
+        ELSE GREATEST(
+            0.1,
+            LEAST(
+                1.0,
+                power(0.5, GREATEST(0, EXTRACT(EPOCH FROM (now() - p_last_defended_at)) / 86400.0 - 7) / 14.0)
+            )
+        )
+    END::float;
+$$;
+
+-- Get leaderboard (capped limit, decay-weighted area)
 CREATE OR REPLACE FUNCTION public.get_leaderboard(
     p_since timestamptz DEFAULT NULL,
     p_limit int DEFAULT 50
@@ -374,7 +704,7 @@ BEGIN
         t.owner_id AS user_id,
         u.username,
         u.avatar_url,
-        COALESCE(SUM(t.area), 0)::float AS total_area,
+        COALESCE(SUM(t.area * public.territory_strength(COALESCE(t.last_defended_at, t.claimed_at))), 0)::float AS total_area,
         COUNT(t.id) AS territory_count
     FROM public.territories t
     JOIN public.users u ON u.id = t.owner_id
@@ -388,284 +718,1543 @@ $$;
 REVOKE ALL ON FUNCTION public.get_leaderboard(timestamptz, int) FROM anon;
 GRANT EXECUTE ON FUNCTION public.get_leaderboard(timestamptz, int) TO authenticated;
 
--- Toggle event mode (admin only)
-CREATE OR REPLACE FUNCTION public.toggle_event_mode(p_enabled boolean)
-RETURNS void
+-- Teams ranked by the decay-weighted area they hold. Teammates don't invade
+-- each other, so their territories can overlap: each piece of ground counts
+-- once, at the strength of the strongest teammate territory on it.
+CREATE OR REPLACE FUNCTION public.get_team_leaderboard(
+    p_since timestamptz DEFAULT NULL,
+    p_limit int DEFAULT 50
+)
+RETURNS TABLE(
+    team_id uuid,
+    name text,
+    color text,
+    member_count bigint,
+    total_area float,
+    territory_count bigint
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+BEGIN
+    IF p_limit IS NULL OR p_limit < 1 THEN
+        p_limit := 50;
+    ELSIF p_limit > 500 THEN
+        p_limit := 500;
+    END IF;
+
+    RETURN QUERY
+    WITH held AS (
+        SELECT t.id, t.team_id, t.geom,
+               public.territory_strength(COALESCE(t.last_defended_at, t.claimed_at)) AS strength
+        FROM public.territories t
+        WHERE t.team_id IS NOT NULL
+          AND (p_since IS NULL OR t.claimed_at >= p_since)
+    ),
+    -- Each territory's ground that no stronger teammate territory already counts
+    uncovered AS (
+        SELECT h.id, h.team_id, h.strength,
+               COALESCE(ST_Area(ST_Difference(h.geom, (
+                   SELECT ST_Union(s.geom)
+                   FROM held s
+                   WHERE s.team_id = h.team_id
+                     AND s.geom && h.geom
+                     AND (s.strength > h.strength OR (s.strength = h.strength AND s.id < h.id))
+               ))::geography), ST_Area(h.geom::geography), 0) AS area
+        FROM held h
+    )
+    SELECT
+        tm.id AS team_id,
+        tm.name,
+        tm.color,
+        (SELECT COUNT(*) FROM public.team_members m WHERE m.team_id = tm.id) AS member_count,
+        COALESCE(SUM(u.area * u.strength), 0)::float AS total_area,
+        COUNT(u.id) AS territory_count
+    FROM uncovered u
+    JOIN public.teams tm ON tm.id = u.team_id
+    GROUP BY tm.id, tm.name, tm.color
+    ORDER BY total_area DESC
+    LIMIT p_limit;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_team_leaderboard(timestamptz, int) FROM anon;
+GRANT EXECUTE ON FUNCTION public.get_team_leaderboard(timestamptz, int) TO authenticated;
+
+-- Create a team with the caller as its owner. Returns the new team's id.
+CREATE OR REPLACE FUNCTION public.create_team(p_name text, p_color text)
+RETURNS uuid
 LANGUAGE plpgsql
 SECURITY DEFINER
 SET search_path = public
 AS $$
+DECLARE
+    uid uuid := auth.uid();
+    v_name text := btrim(p_name);
+    v_team_id uuid;
 BEGIN
-    IF auth.uid() IS NULL THEN
+    IF uid IS NULL THEN
         RAISE EXCEPTION 'Not authenticated';
     END IF;
-
-    IF NOT EXISTS (SELECT 1 FROM public.admin_users WHERE user_id = auth.uid()) THEN
-        RAISE EXCEPTION 'Unauthorized: admin access required';
+    IF EXISTS (SELECT 1 FROM public.team_members WHERE user_id = uid) THEN
+        RAISE EXCEPTION 'Already in a team: leave it first';
+    END IF;
+    IF v_name IS NULL OR char_length(v_name) NOT BETWEEN 3 AND 30 THEN
+        RAISE EXCEPTION 'Team name must be 3 to 30 characters';
+    END IF;
+    IF p_color IS NULL OR p_color !~ '^#[0-9A-Fa-f]{6}$' THEN
+        RAISE EXCEPTION 'Invalid team color';
+    END IF;
+    IF EXISTS (SELECT 1 FROM public.teams WHERE lower(name) = lower(v_name)) THEN
+        RAISE EXCEPTION 'Team name is already taken';
     END IF;
 
-    INSERT INTO public.app_settings (key, value)
-    VALUES ('event_mode', to_jsonb(p_enabled))
-    ON CONFLICT (key) DO UPDATE SET value = to_jsonb(p_enabled);
+    INSERT INTO public.teams (name, color, created_by)
+    VALUES (v_name, upper(p_color), uid)
+    RETURNING id INTO v_team_id;
+
+    INSERT INTO public.team_members (team_id, user_id, role)
+    VALUES (v_team_id, uid, 'owner');
+
+    INSERT INTO public.team_invites (team_id, code)
+    VALUES (v_team_id, upper(substr(md5(gen_random_uuid()::text), 1, 8)));
+
+    RETURN v_team_id;
 END;
 $$;
 
-REVOKE ALL ON FUNCTION public.toggle_event_mode(boolean) FROM anon;
-GRANT EXECUTE ON FUNCTION public.toggle_event_mode(boolean) TO authenticated;
+REVOKE ALL ON FUNCTION public.create_team(text, text) FROM anon;
+GRANT EXECUTE ON FUNCTION public.create_team(text, text) TO authenticated;
 
--- Conquer territory (hardened with ownership validation)
-CREATE OR REPLACE FUNCTION public.conquer_territory(
-    p_new_territory_id uuid,
-    p_owner_id uuid,
-    p_owner_username text,
-    p_activity_id uuid,
-    p_name text,
-    p_claimed_at timestamptz,
-    p_area float,
-    p_perimeter float,
-    p_center jsonb,
-    p_polygon jsonb,
-    p_history jsonb,
-    p_modified_territories jsonb DEFAULT '[]'::jsonb,
-    p_deleted_territory_ids uuid[] DEFAULT '{}'::uuid[],
-    p_invasions jsonb DEFAULT '[]'::jsonb
-)
-RETURNS jsonb
+-- Join a team by its invite code (atomic with advisory lock, member cap).
+-- Returns the team's id.
+CREATE OR REPLACE FUNCTION public.join_team(p_code text)
+RETURNS uuid
 LANGUAGE plpgsql
 SECURITY DEFINER
 SET search_path = public
 AS $$
 DECLARE
-    mod_territory jsonb;
-    invasion jsonb;
-    del_id uuid;
-    last_claim timestamptz;
-    polygon_length int;
-    center_lat float;
-    center_lng float;
-    mod_id uuid;
-    del_owner uuid;
-    mod_owner uuid;
-    inv_territory_owner uuid;
+    uid uuid := auth.uid();
+    v_team_id uuid;
+    v_max_members int := 50;
 BEGIN
-    IF auth.uid() IS NULL THEN
+    IF uid IS NULL THEN
         RAISE EXCEPTION 'Not authenticated';
     END IF;
-
-    IF p_owner_id != auth.uid() THEN
-        RAISE EXCEPTION 'Unauthorized: can only conquer territories as yourself';
+    IF EXISTS (SELECT 1 FROM public.team_members WHERE user_id = uid) THEN
+        RAISE EXCEPTION 'Already in a team: leave it first';
     END IF;
 
-    -- Rate limiting: max 1 territory claim per 30 seconds
-    SELECT MAX(claimed_at) INTO last_claim
-    FROM public.territories
-    WHERE owner_id = auth.uid();
+    SELECT team_id INTO v_team_id
+    FROM public.team_invites
+    WHERE code = upper(btrim(p_code));
 
-    IF last_claim IS NOT NULL AND (now() - last_claim) < interval '30 seconds' THEN
-        RAISE EXCEPTION 'Rate limited: wait at least 30 seconds between territory claims';
+    IF v_team_id IS NULL THEN
+        RAISE EXCEPTION 'Invite code not found';
     END IF;
 
-    -- Input validation
-    IF p_area IS NULL OR p_area < 0 THEN
-        RAISE EXCEPTION 'Invalid area: must be non-negative';
-    END IF;
-    IF p_area > 10000000 THEN
-        RAISE EXCEPTION 'Invalid area: exceeds maximum of 10 km²';
-    END IF;
-    IF p_perimeter IS NOT NULL AND p_perimeter < 0 THEN
-        RAISE EXCEPTION 'Invalid perimeter: must be non-negative';
-    END IF;
-    IF p_perimeter IS NOT NULL AND p_perimeter > 100000 THEN
-        RAISE EXCEPTION 'Invalid perimeter: exceeds maximum of 100 km';
-    END IF;
-    IF p_polygon IS NULL OR jsonb_typeof(p_polygon) != 'array' THEN
-        RAISE EXCEPTION 'Invalid polygon: must be a JSON array';
-    END IF;
-    polygon_length := jsonb_array_length(p_polygon);
-    IF polygon_length < 3 THEN
-        RAISE EXCEPTION 'Invalid polygon: must have at least 3 points';
-    END IF;
-    IF polygon_length > 50000 THEN
-        RAISE EXCEPTION 'Invalid polygon: too many points (max 50000)';
-    END IF;
-    IF p_center IS NULL OR jsonb_typeof(p_center) != 'object' THEN
-        RAISE EXCEPTION 'Invalid center: must be a JSON object with lat/lng';
-    END IF;
-    center_lat := (p_center->>'lat')::float;
-    center_lng := (p_center->>'lng')::float;
-    IF center_lat IS NULL OR center_lat < -90 OR center_lat > 90 THEN
-        RAISE EXCEPTION 'Invalid center latitude';
-    END IF;
-    IF center_lng IS NULL OR center_lng < -180 OR center_lng > 180 THEN
-        RAISE EXCEPTION 'Invalid center longitude';
-    END IF;
+    PERFORM pg_advisory_xact_lock(hashtext('team:' || v_team_id::text));
 
-    -- Validate modified territories: must exist and NOT belong to caller
-    IF jsonb_array_length(p_modified_territories) > 0 THEN
-        FOR mod_territory IN SELECT * FROM jsonb_array_elements(p_modified_territories)
-        LOOP
-            mod_id := (mod_territory->>'id')::uuid;
-            SELECT owner_id INTO mod_owner FROM public.territories WHERE id = mod_id;
-            IF mod_owner IS NULL THEN
-                RAISE EXCEPTION 'Modified territory % does not exist', mod_id;
-            END IF;
-            IF mod_owner = auth.uid() THEN
-                RAISE EXCEPTION 'Cannot modify your own territory during conquering';
-            END IF;
-        END LOOP;
+    IF (SELECT COUNT(*) FROM public.team_members WHERE team_id = v_team_id) >= v_max_members THEN
+        RAISE EXCEPTION 'Team is full (% members max)', v_max_members;
     END IF;
 
-    -- Validate deleted territories: must exist and NOT belong to caller
-    IF array_length(p_deleted_territory_ids, 1) IS NOT NULL THEN
-        FOREACH del_id IN ARRAY p_deleted_territory_ids
-        LOOP
-            SELECT owner_id INTO del_owner FROM public.territories WHERE id = del_id;
-            IF del_owner IS NULL THEN
-                RAISE EXCEPTION 'Deleted territory % does not exist', del_id;
-            END IF;
-            IF del_owner = auth.uid() THEN
-                RAISE EXCEPTION 'Cannot delete your own territory during conquering';
-            END IF;
-        END LOOP;
-    END IF;
+    INSERT INTO public.team_members (team_id, user_id, role)
+    VALUES (v_team_id, uid, 'member');
 
-    -- Modified territory area can only shrink
-    IF jsonb_array_length(p_modified_territories) > 0 THEN
-        FOR mod_territory IN SELECT * FROM jsonb_array_elements(p_modified_territories)
-        LOOP
-            mod_id := (mod_territory->>'id')::uuid;
-            DECLARE
-                current_area float;
-                new_area float;
-            BEGIN
-                SELECT area INTO current_area FROM public.territories WHERE id = mod_id;
-                new_area := (mod_territory->>'area')::float;
-                IF new_area IS NOT NULL AND current_area IS NOT NULL AND new_area > current_area THEN
-                    RAISE EXCEPTION 'Territory area can only shrink during conquering';
-                END IF;
-            END;
-        END LOOP;
-    END IF;
+    RETURN v_team_id;
+END;
+$$;
 
-    -- Validate invasions
-    IF jsonb_array_length(p_invasions) > 0 THEN
-        FOR invasion IN SELECT * FROM jsonb_array_elements(p_invasions)
-        LOOP
-            IF (invasion->>'invader_user_id')::uuid != auth.uid() THEN
-                RAISE EXCEPTION 'Invasion invader_user_id must match authenticated user';
-            END IF;
-            IF (invasion->>'new_territory_id')::uuid != p_new_territory_id THEN
-                RAISE EXCEPTION 'Invasion new_territory_id must match territory being created';
-            END IF;
-            SELECT owner_id INTO inv_territory_owner
-            FROM public.territories
-            WHERE id = (invasion->>'invaded_territory_id')::uuid;
-            IF inv_territory_owner IS NULL THEN
-                RAISE EXCEPTION 'Invaded territory does not exist';
-            END IF;
-            IF inv_territory_owner != (invasion->>'invaded_user_id')::uuid THEN
-                RAISE EXCEPTION 'invaded_user_id does not match actual territory owner';
-            END IF;
-        END LOOP;
+REVOKE ALL ON FUNCTION public.join_team(text) FROM anon;
+GRANT EXECUTE ON FUNCTION public.join_team(text) TO authenticated;
+
+-- Leave the caller's team. An owner hands the team to the longest-serving
+-- admin, or else member; the last one out deletes it.
+CREATE OR REPLACE FUNCTION public.leave_team()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    uid uuid := auth.uid();
+    me public.team_members;
+    v_successor uuid;
+BEGIN
+    IF uid IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
     END IF;
 
-    -- Insert the new territory
-    INSERT INTO public.territories (id, owner_id, name, activity_id, claimed_at, area, perimeter, center, polygon, history)
-    VALUES (p_new_territory_id, p_owner_id, p_name, p_activity_id, p_claimed_at, p_area, p_perimeter, p_center, p_polygon, p_history);
+    SELECT * INTO me FROM public.team_members WHERE user_id = uid;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Not in a team';
+    END IF;
 
-    -- Update modified (shrunk) territories
-    FOR mod_territory IN SELECT * FROM jsonb_array_elements(p_modified_territories)
-    LOOP
-        UPDATE public.territories
-        SET polygon = (mod_territory->>'polygon')::jsonb,
-            area = (mod_territory->>'area')::float,
-            perimeter = (mod_territory->>'perimeter')::float,
-            center = (mod_territory->>'center')::jsonb,
-            history = (mod_territory->>'history')::jsonb
-        WHERE id = (mod_territory->>'id')::uuid;
-    END LOOP;
+    PERFORM pg_advisory_xact_lock(hashtext('team:' || me.team_id::text));
 
-    -- Delete fully consumed territories
-    FOREACH del_id IN ARRAY p_deleted_territory_ids
-    LOOP
-        DELETE FROM public.territories WHERE id = del_id;
-    END LOOP;
+    DELETE FROM public.team_members WHERE user_id = uid;
 
-    -- Insert invasion notifications
-    FOR invasion IN SELECT * FROM jsonb_array_elements(p_invasions)
-    LOOP
-        INSERT INTO public.territory_invasions (
-            invaded_user_id, invader_user_id, invader_username,
-            invaded_territory_id, new_territory_id,
-            overlap_area, territory_was_destroyed
-        ) VALUES (
-            (invasion->>'invaded_user_id')::uuid,
-            (invasion->>'invader_user_id')::uuid,
-            invasion->>'invader_username',
-            (invasion->>'invaded_territory_id')::uuid,
-            (invasion->>'new_territory_id')::uuid,
-            (invasion->>'overlap_area')::float,
-            COALESCE((invasion->>'territory_was_destroyed')::boolean, false)
-        );
-    END LOOP;
+    IF me.role = 'owner' THEN
+        SELECT m.user_id INTO v_successor
+        FROM public.team_members m
+        WHERE m.team_id = me.team_id
+        ORDER BY (m.role = 'admin') DESC, m.joined_at
+        LIMIT 1;
 
-    RETURN jsonb_build_object('success', true);
+        IF v_successor IS NULL THEN
+            DELETE FROM public.teams WHERE id = me.team_id;
+        ELSE
+            UPDATE public.team_members SET role = 'owner' WHERE user_id = v_successor;
+        END IF;
+    END IF;
 END;
 $$;
 
-REVOKE ALL ON FUNCTION public.conquer_territory(uuid, uuid, text, uuid, text, timestamptz, float, float, jsonb, jsonb, jsonb, jsonb, uuid[], jsonb) FROM anon;
-GRANT EXECUTE ON FUNCTION public.conquer_territory(uuid, uuid, text, uuid, text, timestamptz, float, float, jsonb, jsonb, jsonb, jsonb, uuid[], jsonb) TO authenticated;
+REVOKE ALL ON FUNCTION public.leave_team() FROM anon;
+GRANT EXECUTE ON FUNCTION public.leave_team() TO authenticated;
 
--- Join event (atomic with advisory lock, participant cap)
-CREATE OR REPLACE FUNCTION public.join_event(
-    p_event_id text,
-    p_user_id uuid
-)
-RETURNS jsonb
+-- Change a teammate's role (owner only). Making someone owner hands the team
+-- over and leaves the caller an admin.
+CREATE OR REPLACE FUNCTION public.set_team_member_role(p_user_id uuid, p_role text)
+RETURNS void
 LANGUAGE plpgsql
 SECURITY DEFINER
 SET search_path = public
 AS $$
 DECLARE
-    v_key text;
-    v_prefix text;
-    v_count int;
-    v_max_participants int := 100;
-    v_event_value jsonb;
-    v_duration_minutes int;
-    v_started_at timestamptz;
-    v_end_time timestamptz;
+    uid uuid := auth.uid();
+    me public.team_members;
 BEGIN
-    IF auth.uid() IS NULL THEN
+    IF uid IS NULL THEN
         RAISE EXCEPTION 'Not authenticated';
     END IF;
-    IF auth.uid() != p_user_id THEN
-        RAISE EXCEPTION 'Unauthorized: can only join as yourself';
+    IF p_role IS NULL OR p_role NOT IN ('owner', 'admin', 'member') THEN
+        RAISE EXCEPTION 'Invalid role: %', p_role;
+    END IF;
+    IF p_user_id = uid THEN
+        RAISE EXCEPTION 'Cannot change your own role';
     END IF;
 
-    PERFORM pg_advisory_xact_lock(hashtext(p_event_id));
+    SELECT * INTO me FROM public.team_members WHERE user_id = uid;
+    IF NOT FOUND OR me.role != 'owner' THEN
+        RAISE EXCEPTION 'Unauthorized: only the team owner can change roles';
+    END IF;
 
-    SELECT value INTO v_event_value
-    FROM public.app_settings
-    WHERE key = 'current_event';
+    PERFORM pg_advisory_xact_lock(hashtext('team:' || me.team_id::text));
 
-    IF v_event_value IS NULL OR v_event_value = 'null'::jsonb THEN
-        RAISE EXCEPTION 'Event not found or has ended';
-    END IF;
-    IF v_event_value->>'id' != p_event_id THEN
-        RAISE EXCEPTION 'Event not found or has ended';
+    UPDATE public.team_members
+    SET role = p_role
+    WHERE user_id = p_user_id AND team_id = me.team_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Not a member of your team';
     END IF;
 
-    v_duration_minutes := (v_event_value->>'durationMinutes')::int;
-    v_started_at := (v_event_value->>'startedAt')::timestamptz;
-    IF v_duration_minutes IS NOT NULL AND v_started_at IS NOT NULL THEN
-        v_end_time := v_started_at + (v_duration_minutes || ' minutes')::interval;
-        IF now() > v_end_time THEN
-            RAISE EXCEPTION 'Event has ended';
-        END IF;
+    IF p_role = 'owner' THEN
+        UPDATE public.team_members SET role = 'admin' WHERE user_id = uid;
     END IF;
+END;
+$$;
 
-    v_prefix := 'event_join:' || p_event_id || ':';
+REVOKE ALL ON FUNCTION public.set_team_member_role(uuid, text) FROM anon;
+GRANT EXECUTE ON FUNCTION public.set_team_member_role(uuid, text) TO authenticated;
+
+-- Remove a teammate. The owner can remove anyone else, admins only members.
+CREATE OR REPLACE FUNCTION public.remove_team_member(p_user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    uid uuid := auth.uid();
+    me public.team_members;
+    target public.team_members;
+BEGIN
+    IF uid IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+    IF p_user_id = uid THEN
+        RAISE EXCEPTION 'Use leave_team to leave your own team';
+    END IF;
+
+    SELECT * INTO me FROM public.team_members WHERE user_id = uid;
+    SELECT * INTO target FROM public.team_members WHERE user_id = p_user_id;
+    IF me.team_id IS NULL OR target.team_id IS DISTINCT FROM me.team_id THEN
+        RAISE EXCEPTION 'Not a member of your team';
+    END IF;
+    IF me.role = 'member' OR (me.role = 'admin' AND target.role != 'member') THEN
+        RAISE EXCEPTION 'Unauthorized: you cannot remove this member';
+    END IF;
+
+    DELETE FROM public.team_members WHERE user_id = p_user_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.remove_team_member(uuid) FROM anon;
+GRANT EXECUTE ON FUNCTION public.remove_team_member(uuid) TO authenticated;
+
+-- Toggle event mode (admin only)
+CREATE OR REPLACE FUNCTION public.toggle_event_mode(p_enabled boolean)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM public.admin_users WHERE user_id = auth.uid()) THEN
+        RAISE EXCEPTION 'Unauthorized: admin access required';
+    END IF;
+
+    INSERT INTO public.app_settings (key, value)
+    VALUES ('event_mode', to_jsonb(p_enabled))
+    ON CONFLICT (key) DO UPDATE SET value = to_jsonb(p_enabled);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.toggle_event_mode(boolean) FROM anon;
+GRANT EXECUTE ON FUNCTION public.toggle_event_mode(boolean) TO authenticated;
+
+-- Count [lng, lat] positions in a territory polygon (single ring or MultiPolygon)
+CREATE OR REPLACE FUNCTION public.territory_polygon_point_count(p_polygon jsonb)
+RETURNS int
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT CASE
+        WHEN p_polygon IS NULL OR jsonb_typeof(p_polygon) != 'array' THEN 0
+        -- Single ring: [[lng, lat], ...]
+        WHEN jsonb_typeof(p_polygon->0->0) = 'number' THEN jsonb_array_length(p_polygon)
+        -- MultiPolygon: [[[[lng, lat], ...] outer, ...holes], ...parts]
+        ELSE COALESCE((
+            SELECT SUM(jsonb_array_length(ring))::int
+            FROM jsonb_array_elements(p_polygon) AS part,
+                 jsonb_array_elements(CASE WHEN jsonb_typeof(part) = 'array' THEN part ELSE '[]'::jsonb END) AS ring
+            WHERE jsonb_typeof(ring) = 'array'
+        ), 0)
+    END;
+$$;
+
+-- Territory polygon jsonb (single [lng, lat] ring or MultiPolygon coordinates) as a geometry
+CREATE OR REPLACE FUNCTION public.territory_polygon_geometry(p_polygon jsonb)
+RETURNS extensions.geometry
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public, extensions
+AS $$
+DECLARE
+    coords jsonb := p_polygon;
+BEGIN
+    -- Rows written through conquer_territory may hold the polygon as a JSON string
+    IF jsonb_typeof(coords) = 'string' THEN
+        coords := (coords #>> '{}')::jsonb;
+    END IF;
+
+    IF public.territory_polygon_point_count(coords) < 3 THEN
+        RETURN NULL;
+    END IF;
+
+    RETURN ST_MakeValid(ST_SetSRID(ST_GeomFromGeoJSON(jsonb_build_object(
+        'type', CASE WHEN jsonb_typeof(coords->0->0) = 'number' THEN 'Polygon' ELSE 'MultiPolygon' END,
+        'coordinates', CASE WHEN jsonb_typeof(coords->0->0) = 'number' THEN jsonb_build_array(coords) ELSE coords END
+    )), 4326));
+EXCEPTION WHEN OTHERS THEN
+    RETURN NULL;
+END;
+$$;
+
+-- Indexed territory geometry for overlap lookups (needs territory_polygon_geometry)
+ALTER TABLE public.territories
+    ADD COLUMN geom extensions.geometry
+    GENERATED ALWAYS AS (public.territory_polygon_geometry(polygon)) STORED;
+
+CREATE INDEX territories_geom_idx ON public.territories USING gist (geom);
+
+-- Geometry back to territory polygon jsonb: a lone ring for one part without holes, else MultiPolygon
+CREATE OR REPLACE FUNCTION public.territory_geometry_polygon(p_geom extensions.geometry)
+RETURNS jsonb
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public, extensions
+AS $$
+    WITH multi AS (
+        SELECT (ST_AsGeoJSON(ST_ForcePolygonCCW(ST_Multi(ST_CollectionExtract(p_geom, 3))))::jsonb)->'coordinates' AS coords
+    )
+    SELECT CASE
+        WHEN jsonb_array_length(coords) = 1 AND jsonb_array_length(coords->0) = 1 THEN coords->0->0
+        ELSE coords
+    END
+    FROM multi;
+$$;
+
+-- Centroid of the largest part as {lat, lng}
+CREATE OR REPLACE FUNCTION public.territory_geometry_center(p_geom extensions.geometry)
+RETURNS jsonb
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public, extensions
+AS $$
+    SELECT jsonb_build_object('lat', ST_Y(c), 'lng', ST_X(c))
+    FROM (
+        SELECT ST_Centroid(d.geom) AS c
+        FROM ST_Dump(ST_CollectionExtract(p_geom, 3)) AS d
+        ORDER BY ST_Area(d.geom::geography) DESC
+        LIMIT 1
+    ) AS largest;
+$$;
+
+-- Parts of at least 10 m² with their holes of at least 1 m², largest first; NULL when nothing is left
+CREATE OR REPLACE FUNCTION public.territory_significant_parts(p_geom extensions.geometry)
+RETURNS extensions.geometry
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public, extensions
+AS $$
+    SELECT ST_Multi(ST_Collect(part ORDER BY ST_Area(part::geography) DESC))
+    FROM (
+        SELECT ST_MakePolygon(
+            ST_ExteriorRing(d.geom),
+            ARRAY(
+                SELECT ST_ExteriorRing(r.geom)
+                FROM ST_DumpRings(d.geom) AS r
+                WHERE r.path[1] > 0 AND ST_Area(r.geom::geography) >= 1
+            )
+        ) AS part
+        FROM ST_Dump(ST_CollectionExtract(ST_MakeValid(p_geom), 3)) AS d
+    ) AS parts
+    WHERE ST_Area(part::geography) >= 10;
+$$;
+
+-- Valid points of a track (list of segments of {lat, lng, ...}, or one flat segment), in order
+CREATE OR REPLACE FUNCTION public.activity_track_points(p_track jsonb)
+RETURNS TABLE (segment_index bigint, point_index bigint, geom extensions.geometry)
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public, extensions
+AS $$
+    SELECT seg.ord, pt.ord,
+           ST_SetSRID(ST_MakePoint((pt.value->>'lng')::float, (pt.value->>'lat')::float), 4326)
+    FROM jsonb_array_elements(
+             CASE WHEN jsonb_typeof(p_track->0) = 'object' THEN jsonb_build_array(p_track) ELSE p_track END
+         ) WITH ORDINALITY AS seg(value, ord),
+         jsonb_array_elements(
+             CASE WHEN jsonb_typeof(seg.value) = 'array' THEN seg.value ELSE '[]'::jsonb END
+         ) WITH ORDINALITY AS pt(value, ord)
+    WHERE jsonb_typeof(pt.value->'lat') = 'number'
+      AND jsonb_typeof(pt.value->'lng') = 'number'
+      AND (pt.value->>'lat')::float BETWEEN -90 AND 90
+      AND (pt.value->>'lng')::float BETWEEN -180 AND 180;
+$$;
+
+-- One encoded segment to a jsonb array of {lat, lng, timestamp, speed, accuracy, altitude},
+-- plus mocked: true on mocked fixes. Version 1 segments carry no flags value.
+CREATE OR REPLACE FUNCTION public.decode_track_segment(p_encoded text, p_version int)
+RETURNS jsonb
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+    vals numeric[] := '{}';
+    points jsonb[] := '{}';
+    acc numeric := 0;
+    factor numeric := 1;
+    chunk int;
+    v numeric;
+    lat numeric := 0;
+    lng numeric := 0;
+    ts numeric := 0;
+    values_per_point int := CASE WHEN p_version = 1 THEN 6 ELSE 7 END;
+BEGIN
+    IF p_encoded IS NULL THEN
+        RETURN '[]'::jsonb;
+    END IF;
+
+    FOR i IN 1..length(p_encoded) LOOP
+        chunk := ascii(substr(p_encoded, i, 1)) - 63;
+        IF chunk < 0 OR chunk > 63 THEN
+            EXIT;
+        END IF;
+        acc := acc + (chunk % 32) * factor;
+        factor := factor * 32;
+        CONTINUE WHEN chunk >= 32;
+
+        -- Undo the zigzag
+        v := CASE WHEN acc % 2 = 0 THEN acc / 2 ELSE -(acc + 1) / 2 END;
+        vals := vals || v;
+        acc := 0;
+        factor := 1;
+        CONTINUE WHEN array_length(vals, 1) < values_per_point;
+
+        lat := lat + vals[1];
+        lng := lng + vals[2];
+        ts := ts + vals[3];
+        points := points || jsonb_build_object(
+            'lat', lat / 1e6,
+            'lng', lng / 1e6,
+            'timestamp', ts,
+            'speed', CASE WHEN vals[4] = 0 THEN NULL WHEN vals[4] > 0 THEN (vals[4] - 1) / 100 ELSE vals[4] / 100 END,
+            'accuracy', CASE WHEN vals[5] = 0 THEN NULL WHEN vals[5] > 0 THEN (vals[5] - 1) / 10 ELSE vals[5] / 10 END,
+            'altitude', CASE WHEN vals[6] = 0 THEN NULL WHEN vals[6] > 0 THEN (vals[6] - 1) / 10 ELSE vals[6] / 10 END
+        ) || CASE WHEN values_per_point > 6 AND vals[7]::int & 1 = 1
+                  THEN jsonb_build_object('mocked', true) ELSE '{}'::jsonb END;
+        vals := '{}';
+    END LOOP;
+
+    RETURN to_jsonb(points);
+END;
+$$;
+
+-- A stored track in any form (encoded, JSON array, or JSON array held as a string) as segments of points
+CREATE OR REPLACE FUNCTION public.activity_track(p_polylines jsonb)
+RETURNS jsonb
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+    SELECT CASE
+        WHEN p_polylines IS NULL THEN '[]'::jsonb
+        WHEN jsonb_typeof(p_polylines) = 'object' AND p_polylines->>'format' = 'conqr-track' THEN
+            COALESCE(
+                (SELECT jsonb_agg(public.decode_track_segment(seg.value, COALESCE((p_polylines->>'version')::int, 1)) ORDER BY seg.ord)
+                 FROM jsonb_array_elements_text(p_polylines->'segments') WITH ORDINALITY AS seg(value, ord)),
+                '[]'::jsonb
+            )
+        WHEN jsonb_typeof(p_polylines) = 'string' THEN (p_polylines #>> '{}')::jsonb
+        WHEN jsonb_typeof(p_polylines) = 'array' THEN p_polylines
+        ELSE '[]'::jsonb
+    END;
+$$;
+
+-- A stored track (any form activity_track() reads) as JSON segments with the
+-- user's zones clipped out. A segment passing through a zone is split, and
+-- pieces under two fixes are dropped. Mirrors utils/privacyZones.ts.
+CREATE OR REPLACE FUNCTION public.privacy_clip_track(p_track jsonb, p_user_id uuid)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+STRICT
+SET search_path = public, extensions
+AS $$
+    WITH segments AS (
+        SELECT seg.ord AS segment_index, seg.value AS points
+        FROM jsonb_array_elements(
+                 CASE WHEN jsonb_typeof(public.activity_track(p_track)->0) = 'object'
+                      THEN jsonb_build_array(public.activity_track(p_track))
+                      ELSE public.activity_track(p_track) END
+             ) WITH ORDINALITY AS seg(value, ord)
+        WHERE jsonb_typeof(seg.value) = 'array'
+    ),
+    fixes AS (
+        SELECT s.segment_index, pt.ord AS point_index, pt.value AS point,
+               EXISTS (
+                   SELECT 1 FROM public.privacy_zones z
+                   WHERE z.user_id = p_user_id
+                     AND ST_DWithin(
+                         ST_SetSRID(ST_MakePoint((pt.value->>'lng')::float, (pt.value->>'lat')::float), 4326)::geography,
+                         ST_SetSRID(ST_MakePoint(z.lng, z.lat), 4326)::geography,
+                         z.radius
+                     )
+               ) AS hidden
+        FROM segments s,
+             jsonb_array_elements(s.points) WITH ORDINALITY AS pt(value, ord)
+        WHERE jsonb_typeof(pt.value->'lat') = 'number'
+          AND jsonb_typeof(pt.value->'lng') = 'number'
+    ),
+    runs AS (
+        -- Each hidden fix starts a new run of visible ones
+        SELECT segment_index, point_index, point, hidden,
+               count(*) FILTER (WHERE hidden) OVER (PARTITION BY segment_index ORDER BY point_index) AS run
+        FROM fixes
+    ),
+    pieces AS (
+        SELECT segment_index, run, jsonb_agg(point ORDER BY point_index) AS points, count(*) AS fix_count
+        FROM runs
+        WHERE NOT hidden
+        GROUP BY segment_index, run
+    )
+    SELECT COALESCE(jsonb_agg(points ORDER BY segment_index, run) FILTER (WHERE fix_count >= 2), '[]'::jsonb)
+    FROM pieces;
+$$;
+
+-- Not callable directly: probing it with made-up tracks would map out other users' zones
+REVOKE ALL ON FUNCTION public.privacy_clip_track(jsonb, uuid) FROM PUBLIC, anon, authenticated;
+
+-- Activities by id, as the caller may see them: their own in full, anyone
+-- else's with the owner's privacy zones clipped out and without the
+-- anti-cheat verdict, and none the owner's visibility keeps them out of.
+-- With p_preview_only the full track is left out wherever there's a route
+-- preview to draw instead.
+CREATE OR REPLACE FUNCTION public.get_shared_activities(p_ids uuid[], p_preview_only boolean DEFAULT false)
+RETURNS SETOF public.activities
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT
+        a.id, a.user_id, a.type, a.start_time, a.end_time,
+        a.distance, a.duration,
+        CASE
+            WHEN p_preview_only AND a.route_preview IS NOT NULL THEN NULL
+            WHEN a.user_id = auth.uid() THEN a.polylines
+            ELSE public.privacy_clip_track(a.polylines, a.user_id)
+        END AS polylines,
+        a.is_synced, a.territory_id, a.average_speed,
+        a.elapsed_time, a.paused_duration,
+        a.splits, a.split_unit, a.laps,
+        a.elevation_gain, a.elevation_loss, a.max_elevation, a.min_elevation,
+        a.elevation_profile, a.tracking_profile, a.gps_quality,
+        CASE
+            WHEN a.user_id = auth.uid() THEN a.route_preview
+            ELSE public.privacy_clip_track(a.route_preview, a.user_id)
+        END AS route_preview,
+        CASE WHEN a.user_id = auth.uid() THEN a.suspicion_score END AS suspicion_score,
+        CASE WHEN a.user_id = auth.uid() THEN a.suspicion_reasons END AS suspicion_reasons,
+        a.visibility
+    FROM public.activities a
+    WHERE a.id = ANY(p_ids)
+      AND public.can_view_activity(a.user_id, a.visibility)
+    LIMIT 200;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_shared_activities(uuid[], boolean) FROM anon;
+GRANT EXECUTE ON FUNCTION public.get_shared_activities(uuid[], boolean) TO authenticated;
+
+-- Of these activity ids, the ones the caller may not see by their owner's
+-- visibility. Ids with no activity behind them are not listed.
+CREATE OR REPLACE FUNCTION public.get_hidden_activity_ids(p_ids uuid[])
+RETURNS SETOF uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT a.id
+    FROM public.activities a
+    WHERE a.id = ANY(p_ids)
+      AND NOT public.can_view_activity(a.user_id, a.visibility)
+    LIMIT 200;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_hidden_activity_ids(uuid[]) FROM anon;
+GRANT EXECUTE ON FUNCTION public.get_hidden_activity_ids(uuid[]) TO authenticated;
+
+REVOKE ALL ON FUNCTION public.decode_track_segment(text, int) FROM anon;
+REVOKE ALL ON FUNCTION public.activity_track(jsonb) FROM anon;
+GRANT EXECUTE ON FUNCTION public.decode_track_segment(text, int) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.activity_track(jsonb) TO authenticated;
+
+-- Whether two stored tracks (any form activity_track() reads) hold the same
+-- fixes, up to the rounding of the encoded form: a legacy JSON track and its
+-- re-encoding compare equal.
+CREATE OR REPLACE FUNCTION public.same_activity_track(p_old jsonb, p_new jsonb)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+    WITH tracks AS (
+        SELECT which, CASE WHEN jsonb_typeof(track->0) = 'object' THEN jsonb_build_array(track) ELSE track END AS segments
+        FROM (VALUES ('old', public.activity_track(p_old)), ('new', public.activity_track(p_new))) AS t(which, track)
+    ),
+    fixes AS (
+        SELECT t.which, seg.ord AS segment_index, pt.ord AS point_index, pt.value AS point
+        FROM tracks t,
+             jsonb_array_elements(t.segments) WITH ORDINALITY AS seg(value, ord),
+             jsonb_array_elements(CASE WHEN jsonb_typeof(seg.value) = 'array' THEN seg.value ELSE '[]'::jsonb END)
+                 WITH ORDINALITY AS pt(value, ord)
+    )
+    SELECT NOT EXISTS (
+        SELECT 1
+        FROM (SELECT * FROM fixes WHERE which = 'old') AS o
+        FULL JOIN (SELECT * FROM fixes WHERE which = 'new') AS n USING (segment_index, point_index)
+        WHERE o.point IS NULL OR n.point IS NULL
+           OR abs((o.point->>'lat')::float - (n.point->>'lat')::float) > 1e-6
+           OR abs((o.point->>'lng')::float - (n.point->>'lng')::float) > 1e-6
+           OR round((o.point->>'timestamp')::numeric) IS DISTINCT FROM round((n.point->>'timestamp')::numeric)
+           OR abs(COALESCE((o.point->>'speed')::float, 0) - COALESCE((n.point->>'speed')::float, 0)) > 0.01
+           OR COALESCE((o.point->>'mocked')::boolean, false) <> COALESCE((n.point->>'mocked')::boolean, false)
+    );
+$$;
+
+-- Called by the lock_claimed_activity_track trigger as the updating user
+REVOKE ALL ON FUNCTION public.same_activity_track(jsonb, jsonb) FROM anon;
+GRANT EXECUTE ON FUNCTION public.same_activity_track(jsonb, jsonb) TO authenticated;
+
+-- Merge each owner's overlapping or touching territories into one (maintenance, service role only)
+CREATE OR REPLACE FUNCTION public.dedupe_owner_territories()
+RETURNS int
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+    cluster record;
+    merged_geom geometry;
+    survivor_id uuid;
+    merged_count int := 0;
+BEGIN
+    FOR cluster IN
+        WITH shapes AS (
+            SELECT id, owner_id, claimed_at, public.territory_polygon_geometry(polygon) AS geom
+            FROM public.territories
+            WHERE owner_id IS NOT NULL
+        ),
+        clustered AS (
+            SELECT id, owner_id, claimed_at, geom,
+                   ST_ClusterDBSCAN(geom, eps := 0, minpoints := 1) OVER (PARTITION BY owner_id) AS cluster_id
+            FROM shapes
+            WHERE geom IS NOT NULL AND NOT ST_IsEmpty(geom)
+        )
+        SELECT owner_id,
+               array_agg(id ORDER BY claimed_at DESC NULLS LAST) AS ids,
+               ST_Union(geom) AS geom
+        FROM clustered
+        GROUP BY owner_id, cluster_id
+        HAVING count(*) > 1
+    LOOP
+        merged_geom := ST_CollectionExtract(ST_MakeValid(cluster.geom), 3);
+        survivor_id := cluster.ids[1];
+
+        -- The most recent claim survives and absorbs the rest of its cluster
+        UPDATE public.territories AS t
+        SET polygon = public.territory_geometry_polygon(merged_geom),
+            area = ST_Area(merged_geom::geography),
+            perimeter = ST_Perimeter(merged_geom::geography),
+            center = jsonb_build_object(
+                'lat', ST_Y(ST_PointOnSurface(merged_geom)),
+                'lng', ST_X(ST_PointOnSurface(merged_geom))
+            ),
+            claimed_at = agg.claimed_at,
+            last_defended_at = agg.last_defended_at,
+            history = agg.history
+        FROM (
+            SELECT max(claimed_at) AS claimed_at,
+                   min(COALESCE(last_defended_at, claimed_at)) AS last_defended_at,
+                   COALESCE((
+                       SELECT jsonb_agg(event ORDER BY (event->>'claimedAt')::numeric)
+                       FROM public.territories AS src,
+                            jsonb_array_elements(
+                                CASE WHEN jsonb_typeof(src.history) = 'array' THEN src.history ELSE '[]'::jsonb END
+                            ) AS event
+                       WHERE src.id = ANY(cluster.ids)
+                   ), '[]'::jsonb) AS history
+            FROM public.territories
+            WHERE id = ANY(cluster.ids)
+        ) AS agg
+        WHERE t.id = survivor_id;
+
+        UPDATE public.activities
+        SET territory_id = survivor_id
+        WHERE territory_id = ANY(cluster.ids[2:]);
+
+        UPDATE public.territory_invasions
+        SET new_territory_id = survivor_id
+        WHERE new_territory_id = ANY(cluster.ids[2:]);
+
+        DELETE FROM public.territories WHERE id = ANY(cluster.ids[2:]);
+
+        merged_count := merged_count + array_length(cluster.ids, 1) - 1;
+    END LOOP;
+
+    RETURN merged_count;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.dedupe_owner_territories() FROM PUBLIC, anon, authenticated;
+
+-- Why a stored track can't claim territory, or NULL when it may: missing,
+-- repeated or backwards timestamps, a track ending in the future or older
+-- than import_max_age_days, or more than 5% of fixes too fast for the
+-- activity type by recorded speed or by displacement over ~10 s. Mirrors
+-- validateTrack in services/ImportService.ts and SPEED_LIMITS in
+-- services/GameEngine.ts.
+CREATE OR REPLACE FUNCTION public.track_claim_problem(p_track jsonb, p_type text)
+RETURNS text
+LANGUAGE plpgsql
+STABLE
+SET search_path = public, extensions
+AS $$
+DECLARE
+    now_ms float := EXTRACT(EPOCH FROM now()) * 1000;
+    max_speed float := CASE p_type WHEN 'RUN' THEN 25 / 3.6 WHEN 'RIDE' THEN 50 / 3.6 ELSE 7 / 3.6 END;
+    max_age_days float;
+    segs bigint[];
+    geogs geography[];
+    stamps float[];
+    speeds float[];
+    n int;
+    anchor int;
+    failed boolean;
+    violations int := 0;
+BEGIN
+    SELECT array_agg(seg.ord ORDER BY seg.ord, pt.ord),
+           array_agg(ST_SetSRID(ST_MakePoint((pt.value->>'lng')::float, (pt.value->>'lat')::float), 4326)::geography
+                     ORDER BY seg.ord, pt.ord),
+           array_agg(CASE WHEN jsonb_typeof(pt.value->'timestamp') = 'number' THEN (pt.value->>'timestamp')::float END
+                     ORDER BY seg.ord, pt.ord),
+           array_agg(CASE WHEN jsonb_typeof(pt.value->'speed') = 'number' THEN (pt.value->>'speed')::float END
+                     ORDER BY seg.ord, pt.ord)
+    INTO segs, geogs, stamps, speeds
+    FROM jsonb_array_elements(
+             CASE WHEN jsonb_typeof(p_track->0) = 'object' THEN jsonb_build_array(p_track) ELSE p_track END
+         ) WITH ORDINALITY AS seg(value, ord),
+         jsonb_array_elements(
+             CASE WHEN jsonb_typeof(seg.value) = 'array' THEN seg.value ELSE '[]'::jsonb END
+         ) WITH ORDINALITY AS pt(value, ord)
+    WHERE jsonb_typeof(pt.value->'lat') = 'number'
+      AND jsonb_typeof(pt.value->'lng') = 'number'
+      AND (pt.value->>'lat')::float BETWEEN -90 AND 90
+      AND (pt.value->>'lng')::float BETWEEN -180 AND 180;
+
+    n := COALESCE(array_length(stamps, 1), 0);
+    IF n = 0 THEN
+        RETURN 'TOO_FEW_POINTS';
+    END IF;
+
+    FOR i IN 1..n LOOP
+        IF stamps[i] IS NULL OR stamps[i] <= 0 THEN
+            RETURN 'MISSING_TIMESTAMPS';
+        END IF;
+        IF i > 1 AND stamps[i] <= stamps[i - 1] THEN
+            RETURN 'TIMESTAMPS_OUT_OF_ORDER';
+        END IF;
+    END LOOP;
+
+    IF stamps[n] > now_ms + 10 * 60000 THEN
+        RETURN 'FUTURE_TIMESTAMPS';
+    END IF;
+
+    SELECT CASE WHEN jsonb_typeof(value) = 'number' THEN (value #>> '{}')::float END INTO max_age_days
+    FROM public.app_settings
+    WHERE key = 'import_max_age_days';
+    IF stamps[n] < now_ms - COALESCE(max_age_days, 7) * 86400000 THEN
+        RETURN 'TOO_OLD';
+    END IF;
+
+    FOR i IN 1..n LOOP
+        IF i = 1 OR segs[i] <> segs[i - 1] THEN
+            anchor := i;
+        END IF;
+        failed := speeds[i] IS NOT NULL AND speeds[i] > max_speed;
+
+        -- Slide the anchor to the latest fix at least 10 s back
+        WHILE anchor + 1 < i AND stamps[i] - stamps[anchor + 1] >= 10000 LOOP
+            anchor := anchor + 1;
+        END LOOP;
+        IF NOT failed AND i > anchor AND stamps[i] - stamps[anchor] >= 10000 THEN
+            failed := ST_Distance(geogs[anchor], geogs[i]) / ((stamps[i] - stamps[anchor]) / 1000) > max_speed;
+        END IF;
+
+        IF failed THEN
+            violations := violations + 1;
+        END IF;
+    END LOOP;
+
+    IF violations::float / n > 0.05 THEN
+        RETURN 'SPEED_VIOLATION';
+    END IF;
+
+    RETURN NULL;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.track_claim_problem(jsonb, text) FROM PUBLIC, anon, authenticated;
+
+-- Whether the user has joined the running event, where territories coexist
+-- instead of conquering. Mirrors EventModeService.isUserInEventMode.
+CREATE OR REPLACE FUNCTION public.user_in_event_mode(p_user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1
+        FROM public.app_settings AS mode, public.app_settings AS event
+        WHERE mode.key = 'event_mode' AND mode.value = 'true'::jsonb
+          AND event.key = 'current_event' AND jsonb_typeof(event.value) = 'object'
+          AND EXISTS (
+              SELECT 1 FROM public.app_settings
+              WHERE key = 'event_join:' || (event.value->>'id') || ':' || p_user_id::text
+          )
+          AND (
+              event.value->>'durationMinutes' IS NULL OR event.value->>'startedAt' IS NULL OR
+              now() <= (event.value->>'startedAt')::timestamptz
+                  + make_interval(mins => (event.value->>'durationMinutes')::int)
+          )
+    );
+$$;
+
+REVOKE ALL ON FUNCTION public.user_in_event_mode(uuid) FROM PUBLIC, anon, authenticated;
+
+-- A positive number from a setting, or the fallback when it's missing or
+-- anything else. Mirrors positive in utils/claimRules.ts.
+CREATE OR REPLACE FUNCTION public.positive_setting(p_value jsonb, p_fallback float)
+RETURNS float
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT CASE
+        WHEN jsonb_typeof(p_value) = 'number' AND (p_value #>> '{}')::float > 0 THEN (p_value #>> '{}')::float
+        ELSE p_fallback
+    END;
+$$;
+
+-- The first claim rule the loop breaks, as {reason, value, limit}, or NULL
+-- when it may claim. Mirrors evaluateClaimRules in utils/claimRules.ts: the
+-- distance covered leaves out pause gaps, and the width is the diameter of
+-- the largest circle inside the outer ring on a local flat projection.
+CREATE OR REPLACE FUNCTION public.claim_rule_violation(p_claim extensions.geometry, p_track jsonb, p_type text)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SET search_path = public, extensions
+AS $$
+DECLARE
+    rules jsonb;
+    activity_type text := CASE WHEN p_type IN ('WALK', 'RUN', 'RIDE') THEN p_type ELSE 'WALK' END;
+    max_area float;
+    max_ratio float;
+    min_compactness float;
+    min_width float;
+    claim_area float := COALESCE(ST_Area(p_claim::geography), 0);
+    claim_perimeter float := COALESCE(ST_Perimeter(p_claim::geography), 0);
+    covered float;
+    ratio float;
+    compactness float;
+    outline geometry;
+    radius float;
+    width float;
+BEGIN
+    SELECT value INTO rules FROM public.app_settings WHERE key = 'claim_rules';
+    IF jsonb_typeof(rules) IS DISTINCT FROM 'object' THEN
+        rules := '{}'::jsonb;
+    END IF;
+
+    max_area := public.positive_setting(
+        CASE WHEN jsonb_typeof(rules->'maxAreaByType') = 'object' THEN rules->'maxAreaByType'->activity_type END,
+        CASE activity_type WHEN 'RUN' THEN 6000000 WHEN 'RIDE' THEN 10000000 ELSE 3000000 END
+    );
+    max_ratio := public.positive_setting(rules->'maxPerimeterToDistance', 1.5);
+    min_compactness := public.positive_setting(rules->'minCompactness', 0.12);
+    min_width := public.positive_setting(rules->'minWidth', 20);
+
+    IF claim_area > max_area THEN
+        RETURN jsonb_build_object('reason', 'TOO_LARGE_FOR_TYPE', 'value', claim_area, 'limit', max_area);
+    END IF;
+
+    SELECT COALESCE(sum(ST_Distance(previous::geography, geom::geography)), 0) INTO covered
+    FROM (
+        SELECT geom, lag(geom) OVER (PARTITION BY segment_index ORDER BY point_index) AS previous
+        FROM public.activity_track_points(p_track)
+    ) AS steps
+    WHERE previous IS NOT NULL;
+
+    -- Nothing covered leaves the ratio unbounded, which JSON can't carry
+    ratio := CASE WHEN covered > 0 THEN claim_perimeter / covered END;
+    IF ratio IS NULL OR ratio > max_ratio THEN
+        RETURN jsonb_build_object('reason', 'PERIMETER_EXCEEDS_DISTANCE', 'value', ratio, 'limit', max_ratio);
+    END IF;
+
+    compactness := CASE WHEN claim_perimeter > 0 THEN 4 * pi() * claim_area / (claim_perimeter * claim_perimeter) ELSE 0 END;
+    IF compactness < min_compactness THEN
+        RETURN jsonb_build_object('reason', 'NOT_COMPACT', 'value', compactness, 'limit', min_compactness);
+    END IF;
+
+    outline := ST_MakePolygon(ST_ExteriorRing(p_claim));
+    SELECT mic.radius INTO radius
+    FROM ST_MaximumInscribedCircle(ST_Scale(outline, cos(radians(ST_Y(ST_Centroid(outline)))), 1)) AS mic;
+    width := 2 * radians(COALESCE(radius, 0)) * 6371008.8;
+    IF width < min_width THEN
+        RETURN jsonb_build_object('reason', 'TOO_NARROW', 'value', width, 'limit', min_width);
+    END IF;
+
+    RETURN NULL;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.positive_setting(jsonb, float) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.claim_rule_violation(extensions.geometry, jsonb, text) FROM PUBLIC, anon, authenticated;
+
+-- Claim territory from an activity track. Rejections the client should
+-- roll back come back as {success: false, reason}; abuse raises. Only called
+-- through claim_territory, which holds back claims under review. Loops that
+-- break the claim rules are rejected. In event mode the claim invades and
+-- merges nothing.
+CREATE OR REPLACE FUNCTION public.claim_territory_unreviewed(
+    p_territory_id uuid,
+    p_activity_id uuid,
+    p_owner_username text,
+    p_name text,
+    p_track jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+    uid uuid := auth.uid();
+    event_mode boolean := public.user_in_event_mode(uid);
+    claim_team uuid;
+    now_ms bigint := floor(EXTRACT(EPOCH FROM now()) * 1000);
+    last_claim timestamptz;
+    point_count int;
+    max_gap float;
+    track geometry;
+    claim geometry;
+    claim_area float;
+    claim_perimeter float;
+    existing record;
+    overlap_area float;
+    lost geometry;
+    remaining geometry;
+    inv public.territory_invasions;
+    invasions jsonb := '[]'::jsonb;
+    modified_ids uuid[] := '{}';
+    deleted_ids uuid[] := '{}';
+    merged_ids uuid[] := '{}';
+    total_conquered float := 0;
+    merged geometry;
+    merged_name text := NULLIF(p_name, '');
+    merged_history jsonb;
+    defended_at timestamptz := now();
+    claimed public.territories;
+    rule_violation jsonb;
+BEGIN
+    IF uid IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    -- Rate limiting: max 1 territory claim per 30 seconds
+    SELECT MAX(claimed_at) INTO last_claim
+    FROM public.territories
+    WHERE owner_id = uid;
+
+    IF last_claim IS NOT NULL AND (now() - last_claim) < interval '30 seconds' THEN
+        RAISE EXCEPTION 'Rate limited: wait at least 30 seconds between territory claims';
+    END IF;
+
+    IF p_track IS NULL OR jsonb_typeof(p_track) != 'array' THEN
+        RAISE EXCEPTION 'Invalid track: must be a JSON array of segments';
+    END IF;
+    IF EXISTS (SELECT 1 FROM public.territories WHERE id = p_territory_id) THEN
+        RAISE EXCEPTION 'Territory % already exists', p_territory_id;
+    END IF;
+
+    -- Stitch the segments; a pause gap wider than 200 m can't be bridged honestly
+    SELECT count(*), ST_MakeLine(geom ORDER BY segment_index, point_index)
+    INTO point_count, track
+    FROM public.activity_track_points(p_track);
+
+    IF point_count > 50000 THEN
+        RAISE EXCEPTION 'Invalid track: too many points (max 50000)';
+    END IF;
+    IF point_count < 10 THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'TOO_FEW_POINTS');
+    END IF;
+
+    SELECT max(ST_Distance(previous_last::geography, first_point::geography)) INTO max_gap
+    FROM (
+        SELECT first_point, lag(last_point) OVER (ORDER BY segment_index) AS previous_last
+        FROM (
+            SELECT segment_index,
+                   (array_agg(geom ORDER BY point_index))[1] AS first_point,
+                   (array_agg(geom ORDER BY point_index DESC))[1] AS last_point
+            FROM public.activity_track_points(p_track)
+            GROUP BY segment_index
+        ) AS ends
+    ) AS gaps;
+
+    IF max_gap > 200 THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'PAUSE_GAP_TOO_WIDE');
+    END IF;
+    IF ST_Distance(ST_StartPoint(track)::geography, ST_EndPoint(track)::geography) > 200 THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'LOOP_NOT_CLOSED');
+    END IF;
+
+    -- Close the loop and keep its largest piece, like GameEngine.processTerritory
+    SELECT d.geom INTO claim
+    FROM ST_Dump(ST_CollectionExtract(
+        ST_MakeValid(ST_MakePolygon(ST_AddPoint(track, ST_StartPoint(track)))), 3
+    )) AS d
+    ORDER BY ST_Area(d.geom::geography) DESC
+    LIMIT 1;
+
+    claim_area := COALESCE(ST_Area(claim::geography), 0);
+    claim_perimeter := COALESCE(ST_Perimeter(claim::geography), 0);
+
+    IF claim_area < 10 THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'TOO_SMALL');
+    END IF;
+    IF claim_area > 10000000 OR claim_perimeter > 100000 THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'TOO_LARGE');
+    END IF;
+
+    -- The shape rules the app checks before claiming
+    rule_violation := public.claim_rule_violation(
+        claim, p_track, (SELECT type FROM public.activities WHERE id = p_activity_id)
+    );
+    IF rule_violation IS NOT NULL THEN
+        RETURN jsonb_build_object('success', false) || rule_violation;
+    END IF;
+
+    -- Invade other owners' territories, leaving teammates' alone
+    SELECT team_id INTO claim_team FROM public.team_members WHERE user_id = uid;
+
+    FOR existing IN
+        SELECT * FROM public.territories
+        WHERE NOT event_mode
+          AND owner_id IS DISTINCT FROM uid
+          AND (claim_team IS NULL OR team_id IS DISTINCT FROM claim_team)
+          AND geom && claim
+          AND ST_Intersects(geom, claim)
+        FOR UPDATE
+    LOOP
+        lost := ST_CollectionExtract(ST_Intersection(existing.geom, claim), 3);
+        overlap_area := COALESCE(ST_Area(lost::geography), 0);
+        CONTINUE WHEN overlap_area < 1; -- GPS noise
+
+        -- A decayed territory collapses once the invader covers the share of it
+        -- that its strength still holds; at full strength that's all of it
+        IF COALESCE(existing.area, 0) > 0 AND overlap_area >= existing.area *
+            public.territory_strength(COALESCE(existing.last_defended_at, existing.claimed_at)) THEN
+            remaining := NULL;
+        ELSE
+            remaining := public.territory_significant_parts(ST_Difference(existing.geom, claim));
+        END IF;
+
+        IF remaining IS NULL THEN
+            DELETE FROM public.territories WHERE id = existing.id;
+            deleted_ids := deleted_ids || existing.id;
+            overlap_area := COALESCE(existing.area, overlap_area);
+        ELSE
+            UPDATE public.territories
+            SET polygon = public.territory_geometry_polygon(remaining),
+                area = ST_Area(remaining::geography),
+                perimeter = ST_Perimeter(remaining::geography),
+                center = public.territory_geometry_center(remaining),
+                history = CASE WHEN jsonb_typeof(history) = 'array' THEN history ELSE '[]'::jsonb END
+                    || jsonb_build_array(jsonb_build_object(
+                        'previousOwnerId', existing.owner_id,
+                        'claimedBy', uid,
+                        'claimedAt', now_ms,
+                        'activityId', p_activity_id
+                    ))
+            WHERE id = existing.id;
+            modified_ids := modified_ids || existing.id;
+        END IF;
+        total_conquered := total_conquered + overlap_area;
+
+        INSERT INTO public.territory_invasions (
+            invaded_user_id, invader_user_id, invader_username,
+            invaded_territory_id, new_territory_id,
+            overlap_area, territory_was_destroyed, lost_center
+        ) VALUES (
+            existing.owner_id, uid, p_owner_username,
+            existing.id, p_territory_id,
+            overlap_area, remaining IS NULL, public.territory_geometry_center(lost)
+        )
+        RETURNING * INTO inv;
+        invasions := invasions || jsonb_build_array(to_jsonb(inv));
+    END LOOP;
+
+    -- Fold in the owner's territories the claim overlaps or touches. The
+    -- merged whole only counts as defended by this claim when the loop
+    -- covers 70% of it; otherwise it keeps the oldest defend time of its parts.
+    merged := claim;
+    merged_history := jsonb_build_array(jsonb_build_object(
+        'claimedBy', uid, 'claimedAt', now_ms, 'activityId', p_activity_id
+    ));
+
+    FOR existing IN
+        SELECT * FROM public.territories
+        WHERE NOT event_mode
+          AND owner_id = uid
+          AND geom && claim
+          AND ST_Intersects(geom, claim)
+        ORDER BY claimed_at
+        FOR UPDATE
+    LOOP
+        merged := ST_Union(merged, existing.geom);
+        merged_name := COALESCE(merged_name, NULLIF(existing.name, ''));
+        merged_history := merged_history ||
+            CASE WHEN jsonb_typeof(existing.history) = 'array' THEN existing.history ELSE '[]'::jsonb END;
+        merged_ids := merged_ids || existing.id;
+        defended_at := LEAST(defended_at, COALESCE(existing.last_defended_at, existing.claimed_at, now()));
+    END LOOP;
+
+    IF array_length(merged_ids, 1) IS NOT NULL THEN
+        merged := COALESCE(public.territory_significant_parts(merged), claim);
+        IF ST_Area(merged::geography) > 0 AND claim_area / ST_Area(merged::geography) >= 0.7 THEN
+            defended_at := now();
+        END IF;
+        SELECT jsonb_agg(event ORDER BY (event->>'claimedAt')::numeric) INTO merged_history
+        FROM jsonb_array_elements(merged_history) AS event;
+
+        UPDATE public.activities
+        SET territory_id = p_territory_id
+        WHERE territory_id = ANY(merged_ids);
+
+        DELETE FROM public.territories WHERE id = ANY(merged_ids);
+    END IF;
+
+    INSERT INTO public.territories (
+        id, owner_id, name, activity_id, claimed_at, area, perimeter,
+        center, polygon, history, last_defended_at
+    ) VALUES (
+        p_territory_id, uid, merged_name, p_activity_id, now(),
+        ST_Area(merged::geography), ST_Perimeter(merged::geography),
+        public.territory_geometry_center(merged), public.territory_geometry_polygon(merged),
+        merged_history, defended_at
+    )
+    RETURNING * INTO claimed;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'territory', to_jsonb(claimed) - 'geom',
+        'modified_territories', COALESCE((
+            SELECT jsonb_agg(to_jsonb(t) - 'geom')
+            FROM public.territories AS t
+            WHERE t.id = ANY(modified_ids)
+        ), '[]'::jsonb),
+        'deleted_territory_ids', to_jsonb(deleted_ids),
+        'merged_territory_ids', to_jsonb(merged_ids),
+        'invasions', invasions,
+        'total_conquered_area', total_conquered
+    );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.claim_territory_unreviewed(uuid, uuid, text, text, jsonb) FROM PUBLIC, anon, authenticated;
+
+-- Jumps of over 100 m faster than 50 m/s between consecutive fixes of a
+-- segment, or between segments more than 200 m apart. Mirrors the teleport
+-- rule in utils/spoofing.ts.
+CREATE OR REPLACE FUNCTION public.track_teleport_count(p_track jsonb)
+RETURNS int
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public, extensions
+AS $$
+    WITH fixes AS (
+        SELECT seg.ord AS segment_index, pt.ord AS point_index,
+               ST_SetSRID(ST_MakePoint((pt.value->>'lng')::float, (pt.value->>'lat')::float), 4326)::geography AS geog,
+               CASE WHEN jsonb_typeof(pt.value->'timestamp') = 'number' THEN (pt.value->>'timestamp')::float END AS ts
+        FROM jsonb_array_elements(
+                 CASE WHEN jsonb_typeof(p_track->0) = 'object' THEN jsonb_build_array(p_track) ELSE p_track END
+             ) WITH ORDINALITY AS seg(value, ord),
+             jsonb_array_elements(
+                 CASE WHEN jsonb_typeof(seg.value) = 'array' THEN seg.value ELSE '[]'::jsonb END
+             ) WITH ORDINALITY AS pt(value, ord)
+        WHERE jsonb_typeof(pt.value->'lat') = 'number'
+          AND jsonb_typeof(pt.value->'lng') = 'number'
+          AND (pt.value->>'lat')::float BETWEEN -90 AND 90
+          AND (pt.value->>'lng')::float BETWEEN -180 AND 180
+    ),
+    steps AS (
+        SELECT segment_index = lag(segment_index) OVER w AS same_segment,
+               ST_Distance(geog, lag(geog) OVER w) AS d,
+               (ts - lag(ts) OVER w) / 1000.0 AS dt
+        FROM fixes
+        WINDOW w AS (ORDER BY segment_index, point_index)
+    )
+    SELECT count(*)::int
+    FROM steps
+    WHERE dt IS NOT NULL
+      AND d > CASE WHEN same_segment THEN 100 ELSE 200 END
+      AND (dt <= 0 OR d / dt > 50);
+$$;
+
+-- Whether the loop a track closes covers or comes within one of the user's
+-- zones. Mirrors polygonOverlapsPrivacyZone in utils/privacyZones.ts.
+CREATE OR REPLACE FUNCTION public.claim_overlaps_privacy_zone(p_track jsonb, p_user_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SET search_path = public, extensions
+AS $$
+DECLARE
+    track geometry;
+    claim geometry;
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM public.privacy_zones WHERE user_id = p_user_id) THEN
+        RETURN false;
+    END IF;
+
+    SELECT ST_MakeLine(geom ORDER BY segment_index, point_index) INTO track
+    FROM public.activity_track_points(p_track);
+    IF track IS NULL OR ST_NPoints(track) < 3 THEN
+        RETURN false;
+    END IF;
+
+    -- Tracks that don't make a polygon are refused by the claim itself
+    BEGIN
+        claim := ST_MakeValid(ST_MakePolygon(ST_AddPoint(track, ST_StartPoint(track))));
+    EXCEPTION WHEN OTHERS THEN
+        RETURN false;
+    END;
+
+    RETURN EXISTS (
+        SELECT 1 FROM public.privacy_zones z
+        WHERE z.user_id = p_user_id
+          AND ST_DWithin(claim::geography, ST_SetSRID(ST_MakePoint(z.lng, z.lat), 4326)::geography, z.radius)
+    );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.claim_overlaps_privacy_zone(jsonb, uuid) FROM PUBLIC, anon, authenticated;
+
+-- Claim territory from the track stored on one of the caller's activities,
+-- unless the activity has already claimed, its claim is held for review, the
+-- track fails the anti-cheat checks or the loop reaches into one of the
+-- claimant's privacy zones
+CREATE OR REPLACE FUNCTION public.claim_territory(
+    p_territory_id uuid,
+    p_activity_id uuid,
+    p_owner_username text,
+    p_name text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+    uid uuid := auth.uid();
+    activity public.activities;
+    stored_track jsonb;
+    problem text;
+    review public.territory_reviews;
+    has_review boolean;
+    teleports int;
+    result jsonb;
+BEGIN
+    IF uid IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    SELECT * INTO activity
+    FROM public.activities
+    WHERE id = p_activity_id AND user_id = uid
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'ACTIVITY_NOT_FOUND');
+    END IF;
+    IF activity.territory_id IS NOT NULL THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'ALREADY_CLAIMED');
+    END IF;
+
+    SELECT * INTO review
+    FROM public.territory_reviews
+    WHERE activity_id = p_activity_id AND user_id = uid
+    FOR UPDATE;
+    has_review := FOUND;
+
+    IF has_review AND review.status = 'rejected' THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'REVIEW_REJECTED');
+    END IF;
+    IF has_review AND review.status <> 'approved' THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'UNDER_REVIEW');
+    END IF;
+
+    -- Whatever the client previewed, the claim is the track it uploaded
+    stored_track := public.activity_track(activity.polylines);
+
+    problem := public.track_claim_problem(stored_track, activity.type);
+    IF problem IS NOT NULL THEN
+        RETURN jsonb_build_object('success', false, 'reason', problem);
+    END IF;
+
+    IF public.claim_overlaps_privacy_zone(stored_track, uid) THEN
+        RETURN jsonb_build_object('success', false, 'reason', 'PRIVACY_ZONE');
+    END IF;
+
+    IF NOT has_review THEN
+        teleports := public.track_teleport_count(stored_track);
+        IF teleports > 0 THEN
+            INSERT INTO public.territory_reviews (
+                user_id, activity_id, territory_id, owner_username, name, track,
+                suspicion_score, suspicion_reasons
+            ) VALUES (
+                uid, p_activity_id, p_territory_id, p_owner_username, NULLIF(p_name, ''), stored_track,
+                LEAST(0.9, 0.45 * teleports),
+                jsonb_build_array(jsonb_build_object(
+                    'code', 'teleport',
+                    'weight', LEAST(0.9, 0.45 * teleports),
+                    'detail', format('Server found %s jump(s) faster than 50 m/s', teleports)
+                ))
+            );
+            RETURN jsonb_build_object('success', false, 'reason', 'UNDER_REVIEW');
+        END IF;
+    END IF;
+
+    -- An approved claim keeps the territory id and name it was reviewed under
+    IF has_review THEN
+        result := public.claim_territory_unreviewed(
+            review.territory_id, p_activity_id, review.owner_username, review.name, stored_track
+        );
+    ELSE
+        result := public.claim_territory_unreviewed(
+            p_territory_id, p_activity_id, p_owner_username, p_name, stored_track
+        );
+    END IF;
+
+    IF (result->>'success')::boolean THEN
+        IF has_review THEN
+            UPDATE public.territory_reviews SET status = 'applied' WHERE id = review.id;
+        END IF;
+
+        UPDATE public.activities
+        SET territory_id = (result->'territory'->>'id')::uuid
+        WHERE id = p_activity_id;
+
+        -- Ground won by territories folded into this one now counts as won by it
+        UPDATE public.territory_invasions
+        SET new_territory_id = (result->'territory'->>'id')::uuid
+        WHERE new_territory_id IN (
+            SELECT jsonb_array_elements_text(result->'merged_territory_ids')::uuid
+        );
+    END IF;
+
+    RETURN result;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.claim_territory(uuid, uuid, text, text) FROM anon;
+GRANT EXECUTE ON FUNCTION public.claim_territory(uuid, uuid, text, text) TO authenticated;
+
+-- Ground a territory won from other users, per user it was taken from.
+-- Invasion rows are only readable by the two users involved; these totals
+-- are public like the territory itself.
+CREATE OR REPLACE FUNCTION public.get_territory_conquests(p_territory_id uuid)
+RETURNS TABLE(
+    user_id uuid,
+    username text,
+    area float,
+    invasion_count bigint,
+    destroyed_count bigint,
+    last_taken_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT
+        i.invaded_user_id AS user_id,
+        u.username,
+        COALESCE(SUM(i.overlap_area), 0)::float AS area,
+        COUNT(*) AS invasion_count,
+        COUNT(*) FILTER (WHERE i.territory_was_destroyed) AS destroyed_count,
+        MAX(i.created_at) AS last_taken_at
+    FROM public.territory_invasions i
+    LEFT JOIN public.users u ON u.id = i.invaded_user_id
+    WHERE i.new_territory_id = p_territory_id
+      AND i.invaded_user_id IS NOT NULL
+    GROUP BY i.invaded_user_id, u.username
+    ORDER BY area DESC;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_territory_conquests(uuid) FROM anon;
+GRANT EXECUTE ON FUNCTION public.get_territory_conquests(uuid) TO authenticated;
+
+-- Approve or reject a held claim (admin only). Approved claims are applied
+-- by the owner's app the next time it syncs.
+CREATE OR REPLACE FUNCTION public.review_territory_claim(
+    p_review_id uuid,
+    p_approve boolean
+)
+RETURNS public.territory_reviews
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    reviewed public.territory_reviews;
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM public.admin_users WHERE user_id = auth.uid()) THEN
+        RAISE EXCEPTION 'Unauthorized: admin access required';
+    END IF;
+
+    UPDATE public.territory_reviews
+    SET status = CASE WHEN p_approve THEN 'approved' ELSE 'rejected' END,
+        reviewed_at = now(),
+        reviewed_by = auth.uid()
+    WHERE id = p_review_id AND status = 'pending'
+    RETURNING * INTO reviewed;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'No pending review %', p_review_id;
+    END IF;
+    RETURN reviewed;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.review_territory_claim(uuid, boolean) FROM anon;
+GRANT EXECUTE ON FUNCTION public.review_territory_claim(uuid, boolean) TO authenticated;
+
+-- Join event (atomic with advisory lock, participant cap)
+CREATE OR REPLACE FUNCTION public.join_event(
+    p_event_id text,
+    p_user_id uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_key text;
+    v_prefix text;
+    v_count int;
+    v_max_participants int := 100;
+    v_event_value jsonb;
+    v_duration_minutes int;
+    v_started_at timestamptz;
+    v_end_time timestamptz;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+    IF auth.uid() != p_user_id THEN
+        RAISE EXCEPTION 'Unauthorized: can only join as yourself';
+    END IF;
+
+    PERFORM pg_advisory_xact_lock(hashtext(p_event_id));
+
+    SELECT value INTO v_event_value
+    FROM public.app_settings
+    WHERE key = 'current_event';
+
+    IF v_event_value IS NULL OR v_event_value = 'null'::jsonb THEN
+        RAISE EXCEPTION 'Event not found or has ended';
+    END IF;
+    IF v_event_value->>'id' != p_event_id THEN
+        RAISE EXCEPTION 'Event not found or has ended';
+    END IF;
+
+    v_duration_minutes := (v_event_value->>'durationMinutes')::int;
+    v_started_at := (v_event_value->>'startedAt')::timestamptz;
+    IF v_duration_minutes IS NOT NULL AND v_started_at IS NOT NULL THEN
+        v_end_time := v_started_at + (v_duration_minutes || ' minutes')::interval;
+        IF now() > v_end_time THEN
+            RAISE EXCEPTION 'Event has ended';
+        END IF;
+    END IF;
+
+    v_prefix := 'event_join:' || p_event_id || ':';
     SELECT COUNT(*) INTO v_count
     FROM public.app_settings
     WHERE key LIKE v_prefix || '%';
@@ -685,3 +2274,212 @@ $$;
 
 REVOKE ALL ON FUNCTION public.join_event(text, uuid) FROM anon;
 GRANT EXECUTE ON FUNCTION public.join_event(text, uuid) TO authenticated;
+
+-- Mirrors formatArea in utils/shareCardUtils.ts
+CREATE OR REPLACE FUNCTION public.format_area(p_sq_meters float)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT CASE
+        WHEN p_sq_meters < 10000 THEN round(p_sq_meters::numeric)::text || ' m²'
+        ELSE to_char(p_sq_meters / 10000, 'FM999999990.00') || ' ha'
+    END;
+$$;
+
+-- One notification for a batch of invasions, grouped by invader: a single
+-- invasion is told as it happened, several as a summary of who took how
+-- much. Mirrors buildInvasionDigest in utils/invasionDigest.ts, with the
+-- biggest loss as focus.
+CREATE OR REPLACE FUNCTION public.invasion_digest(p_invasion_ids uuid[])
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+    focus public.territory_invasions;
+    invasion_count int;
+    territory_count int;
+    total_area float;
+    names text[];
+    others int;
+    who text;
+BEGIN
+    SELECT * INTO focus
+    FROM public.territory_invasions
+    WHERE id = ANY(p_invasion_ids)
+    ORDER BY overlap_area DESC NULLS LAST, created_at
+    LIMIT 1;
+
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    SELECT count(*), count(DISTINCT invaded_territory_id), COALESCE(sum(overlap_area), 0)
+    INTO invasion_count, territory_count, total_area
+    FROM public.territory_invasions
+    WHERE id = ANY(p_invasion_ids);
+
+    SELECT array_agg(name ORDER BY area DESC) INTO names
+    FROM (
+        SELECT COALESCE((array_agg(NULLIF(invader_username, '') ORDER BY created_at))[1], 'Someone') AS name,
+               sum(COALESCE(overlap_area, 0)) AS area
+        FROM public.territory_invasions
+        WHERE id = ANY(p_invasion_ids)
+        GROUP BY invader_user_id
+    ) AS invaders;
+
+    IF invasion_count = 1 THEN
+        RETURN jsonb_build_object(
+            'title', 'Territory invaded!',
+            'body', CASE WHEN focus.territory_was_destroyed
+                THEN names[1] || ' took one of your territories'
+                ELSE names[1] || ' took ' || public.format_area(focus.overlap_area) || ' of your territory'
+            END,
+            'focus', to_jsonb(focus)
+        );
+    END IF;
+
+    others := array_length(names, 1) - 2;
+    who := CASE
+        WHEN others < 0 THEN names[1]
+        WHEN others = 0 THEN names[1] || ' and ' || names[2]
+        ELSE names[1] || ', ' || names[2] || ' and ' || others || CASE WHEN others = 1 THEN ' other' ELSE ' others' END
+    END;
+
+    RETURN jsonb_build_object(
+        'title', 'Under attack!',
+        'body', who || ' took ' || public.format_area(total_area) || ' from ' ||
+            CASE WHEN territory_count = 1 THEN 'one of your territories' ELSE territory_count || ' of your territories' END,
+        'focus', to_jsonb(focus)
+    );
+END;
+$$;
+
+-- Push each user a digest of the invasions they haven't seen once the first
+-- has waited 30 s for others landing with it, and no sooner than 15 min
+-- after their last digest, like queueInvasion in utils/invasionDigest.ts.
+-- Goes through Expo's push service to every device the user registered; a
+-- tapped alert opens the map on the ground lost in the biggest invasion.
+-- Returns how many digests were sent.
+CREATE OR REPLACE FUNCTION public.send_invasion_digests()
+RETURNS int
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+    target record;
+    digest jsonb;
+    focus_center jsonb;
+    messages jsonb;
+    sent int := 0;
+BEGIN
+    FOR target IN
+        SELECT i.invaded_user_id AS user_id, array_agg(i.id) AS invasion_ids
+        FROM public.territory_invasions AS i
+        LEFT JOIN public.invasion_push_state AS s ON s.user_id = i.invaded_user_id
+        WHERE i.pushed_at IS NULL
+          AND NOT COALESCE(i.seen, false)
+          AND i.invaded_user_id IS NOT NULL
+        GROUP BY i.invaded_user_id, s.last_sent_at
+        HAVING min(i.created_at) <= now() - interval '30 seconds'
+           AND (s.last_sent_at IS NULL OR s.last_sent_at <= now() - interval '15 minutes')
+    LOOP
+        digest := public.invasion_digest(target.invasion_ids);
+
+        -- Invasions from before lost_center was recorded fall back to what's
+        -- left of the territory they hit
+        focus_center := COALESCE(
+            digest->'focus'->'lost_center',
+            (SELECT center FROM public.territories WHERE id = (digest->'focus'->>'invaded_territory_id')::uuid)
+        );
+
+        SELECT jsonb_agg(jsonb_build_object(
+            'to', t.token,
+            'title', digest->>'title',
+            'body', digest->>'body',
+            'sound', 'default',
+            'channelId', 'invasions',
+            'data', jsonb_build_object(
+                'type', 'invasion_digest',
+                'invasionIds', to_jsonb(target.invasion_ids),
+                'focusTerritoryLat', (focus_center->>'lat')::float,
+                'focusTerritoryLng', (focus_center->>'lng')::float
+            )
+        ))
+        INTO messages
+        FROM public.push_tokens AS t
+        WHERE t.user_id = target.user_id;
+
+        IF messages IS NOT NULL THEN
+            PERFORM net.http_post(
+                url := 'https://exp.host/--/api/v2/push/send',
+                body := messages,
+                headers := jsonb_build_object('Content-Type', 'application/json')
+            );
+
+            INSERT INTO public.invasion_push_state (user_id, last_sent_at)
+            VALUES (target.user_id, now())
+            ON CONFLICT (user_id) DO UPDATE SET last_sent_at = EXCLUDED.last_sent_at;
+            sent := sent + 1;
+        END IF;
+
+        UPDATE public.territory_invasions
+        SET pushed_at = now()
+        WHERE id = ANY(target.invasion_ids);
+    END LOOP;
+
+    RETURN sent;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.format_area(float) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.invasion_digest(uuid[]) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.send_invasion_digests() FROM PUBLIC, anon, authenticated;
+
+-- The app is showing the caller's invasions itself, so the digest waiting
+-- for them is dropped. Their last digest time stays, so the next one still
+-- waits out the 15 minutes.
+CREATE OR REPLACE FUNCTION public.skip_pending_invasion_push()
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    UPDATE public.territory_invasions
+    SET pushed_at = now()
+    WHERE invaded_user_id = auth.uid() AND pushed_at IS NULL;
+$$;
+
+REVOKE ALL ON FUNCTION public.skip_pending_invasion_push() FROM anon;
+GRANT EXECUTE ON FUNCTION public.skip_pending_invasion_push() TO authenticated;
+
+-- Push invasion alerts for the caller to this device, taking the token over
+-- from whoever was signed in on it before
+CREATE OR REPLACE FUNCTION public.register_push_token(p_token text, p_platform text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+    IF p_token IS NULL OR p_token !~ '^Expo(nent)?PushToken\[.+\]$' THEN
+        RAISE EXCEPTION 'Invalid push token';
+    END IF;
+
+    INSERT INTO public.push_tokens (token, user_id, platform, updated_at)
+    VALUES (p_token, auth.uid(), p_platform, now())
+    ON CONFLICT (token) DO UPDATE
+    SET user_id = EXCLUDED.user_id, platform = EXCLUDED.platform, updated_at = EXCLUDED.updated_at;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.register_push_token(text, text) FROM anon;
+GRANT EXECUTE ON FUNCTION public.register_push_token(text, text) TO authenticated;
+
+SELECT cron.schedule('send-invasion-digests', '* * * * *', 'SELECT public.send_invasion_digests()');
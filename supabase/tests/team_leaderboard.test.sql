@@ -0,0 +1,40 @@
+-- Run with `supabase test db`
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+SELECT plan(2);
+
+INSERT INTO auth.users (id, email) VALUES
+    ('00000000-0000-0000-0000-00000000000a', 'a@example.com'),
+    ('00000000-0000-0000-0000-00000000000b', 'b@example.com');
+
+INSERT INTO public.teams (id, name, color, created_by)
+VALUES ('00000000-0000-0000-0000-0000000000f1', 'Stackers', '#FF0000', '00000000-0000-0000-0000-00000000000a');
+
+INSERT INTO public.team_members (team_id, user_id, role) VALUES
+    ('00000000-0000-0000-0000-0000000000f1', '00000000-0000-0000-0000-00000000000a', 'owner'),
+    ('00000000-0000-0000-0000-0000000000f1', '00000000-0000-0000-0000-00000000000b', 'member');
+
+-- Two fresh teammate territories sharing half their ground
+INSERT INTO public.territories (owner_id, polygon, claimed_at, last_defended_at) VALUES
+    ('00000000-0000-0000-0000-00000000000a',
+     '[[0,0],[0.002,0],[0.002,0.002],[0,0.002],[0,0]]', now(), now()),
+    ('00000000-0000-0000-0000-00000000000b',
+     '[[0.001,0],[0.003,0],[0.003,0.002],[0.001,0.002],[0.001,0]]', now(), now());
+
+SELECT is(
+    (SELECT territory_count FROM public.get_team_leaderboard() WHERE team_id = '00000000-0000-0000-0000-0000000000f1'),
+    2::bigint,
+    'both teammate territories are counted'
+);
+
+SELECT ok(
+    abs(
+        (SELECT total_area FROM public.get_team_leaderboard() WHERE team_id = '00000000-0000-0000-0000-0000000000f1') -
+        (SELECT ST_Area(ST_Union(geom)::geography) FROM public.territories
+         WHERE team_id = '00000000-0000-0000-0000-0000000000f1')
+    ) < 1,
+    'ground shared by teammates counts once'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
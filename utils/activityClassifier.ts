@@ -0,0 +1,136 @@
+import { ActivityType, GPSPoint } from '../lib/types';
+import { getDistance } from 'geolib';
+
+/** What the speed profile says about the activity type that was picked. */
+export interface TypeAssessment {
+    type: ActivityType; // the type the speeds point to instead
+    share: number; // 0–1 of moving time that fits `type` and not the picked one
+    movingSeconds: number; // moving time the share is taken over
+}
+
+// Speeds (m/s) each type is expected to stay within. They overlap — a brisk
+// walk and a slow jog look the same — so only time outside the picked type's
+// band counts as evidence against it.
+const TYPE_BANDS: Record<ActivityType, { min: number; max: number }> = {
+    WALK: { min: 0, max: 2.5 },   // up to 9 km/h
+    RUN: { min: 1.6, max: 6.5 },  // 5.8–23 km/h
+    RIDE: { min: 3, max: 25 },    // 11–90 km/h
+};
+
+// Where evidence against the picked type points: the type that speed most
+// typically belongs to
+const typicalType = (speed: number): ActivityType =>
+    speed < 2.2 ? 'WALK' : speed < 6 ? 'RUN' : 'RIDE';
+
+const STILL_SPEED_MS = 0.5; // slower than this is standing, not evidence
+const MAX_SPEED_MS = 30; // faster than this is a GPS spike or a car
+const MAX_SAMPLE_GAP_MS = 10000; // longer gaps say nothing about speed
+const MAX_SAMPLE_WEIGHT_S = 5;
+const SPEED_BIN_MS = 0.25;
+const SPEED_BINS = Math.ceil(MAX_SPEED_MS / SPEED_BIN_MS);
+
+const DEFAULT_WINDOW_MS = 120000;
+
+// A live prompt needs a steady minute or so of mismatched speeds; correcting
+// the saved type without asking needs most of a longer activity
+const SUGGEST_MIN_MOVING_S = 60;
+const SUGGEST_MIN_SHARE = 0.7;
+const CORRECT_MIN_MOVING_S = 300;
+const CORRECT_MIN_SHARE = 0.85;
+
+const binFor = (speed: number) => Math.min(SPEED_BINS - 1, Math.floor(speed / SPEED_BIN_MS));
+const binSpeed = (bin: number) => (bin + 0.5) * SPEED_BIN_MS;
+
+/**
+ * Speed time spent in each bin, assessed against a picked type: the bins
+ * outside its band are grouped by the type they point to instead.
+ */
+const assessBins = (seconds: ArrayLike<number>, picked: ActivityType, minMovingS: number, minShare: number): TypeAssessment | null => {
+    const band = TYPE_BANDS[picked];
+    const against: Record<ActivityType, number> = { WALK: 0, RUN: 0, RIDE: 0 };
+    let moving = 0;
+    for (let bin = 0; bin < seconds.length; bin++) {
+        if (seconds[bin] <= 0) continue;
+        moving += seconds[bin];
+        const speed = binSpeed(bin);
+        if (speed < band.min || speed > band.max) against[typicalType(speed)] += seconds[bin];
+    }
+    if (moving < minMovingS) return null;
+
+    let best: ActivityType | null = null;
+    for (const type of Object.keys(against) as ActivityType[]) {
+        if (type === picked) continue;
+        if (best === null || against[type] > against[best]) best = type;
+    }
+    if (best === null) return null;
+    const share = against[best] / moving;
+    return share >= minShare ? { type: best, share, movingSeconds: moving } : null;
+};
+
+/**
+ * Watches the speed profile of a recording to tell whether the picked
+ * activity type fits. Feed it every raw fix — including the ones the tracking
+ * pipeline rejects as too fast for the type, which are the evidence.
+ */
+export const createActivityClassifier = (windowMs: number = DEFAULT_WINDOW_MS) => {
+    let last: GPSPoint | null = null;
+    let recent: { at: number; bin: number; seconds: number }[] = [];
+    const session = new Float64Array(SPEED_BINS);
+
+    const speedOf = (point: GPSPoint, dtMs: number): number | null => {
+        if (point.speed !== null && point.speed !== undefined && point.speed >= 0) return point.speed;
+        if (!last) return null;
+        try {
+            const d = getDistance(
+                { latitude: last.lat, longitude: last.lng },
+                { latitude: point.lat, longitude: point.lng }
+            );
+            return d / (dtMs / 1000);
+        } catch {
+            return null;
+        }
+    };
+
+    return {
+        add(point: GPSPoint) {
+            if (!point || isNaN(point.lat) || isNaN(point.lng)) return;
+            const previous = last;
+            const dtMs = previous ? point.timestamp - previous.timestamp : 0;
+            if (previous && dtMs <= 0) return;
+            const speed = previous && dtMs <= MAX_SAMPLE_GAP_MS ? speedOf(point, dtMs) : null;
+            last = point;
+            if (speed === null || speed < STILL_SPEED_MS || speed > MAX_SPEED_MS) return;
+
+            const seconds = Math.min(MAX_SAMPLE_WEIGHT_S, dtMs / 1000);
+            const bin = binFor(speed);
+            session[bin] += seconds;
+            recent.push({ at: point.timestamp, bin, seconds });
+            recent = recent.filter(s => point.timestamp - s.at < windowMs);
+        },
+
+        /** Forget the last fix, e.g. across a pause, so no speed spans the gap. */
+        breakGap() {
+            last = null;
+            recent = [];
+        },
+
+        /** A type to suggest switching to, judged on the recent window. */
+        suggest(picked: ActivityType): TypeAssessment | null {
+            const seconds = new Float64Array(SPEED_BINS);
+            for (const s of recent) seconds[s.bin] += s.seconds;
+            return assessBins(seconds, picked, SUGGEST_MIN_MOVING_S, SUGGEST_MIN_SHARE);
+        },
+
+        /** A type the whole recording so clearly is that it can be corrected to without asking. */
+        correction(picked: ActivityType): TypeAssessment | null {
+            return assessBins(session, picked, CORRECT_MIN_MOVING_S, CORRECT_MIN_SHARE);
+        },
+
+        /** Moving seconds seen so far. */
+        get movingSeconds() {
+            return session.reduce((sum, s) => sum + s, 0);
+        },
+    };
+};
+
+export type ActivityClassifier = ReturnType<typeof createActivityClassifier>;
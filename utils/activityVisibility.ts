@@ -0,0 +1,47 @@
+import { Activity, ActivityVisibility, FriendshipStatus } from '../lib/types';
+
+export const DEFAULT_ACTIVITY_VISIBILITY: ActivityVisibility = 'public';
+
+export interface ActivityVisibilitySettings {
+    label: string;
+    description: string;
+}
+
+export const ACTIVITY_VISIBILITIES: Record<ActivityVisibility, ActivityVisibilitySettings> = {
+    public: {
+        label: 'Everyone',
+        description: 'Anyone can see the activity and its route',
+    },
+    friends: {
+        label: 'Friends',
+        description: 'Only accepted friends can see it',
+    },
+    private: {
+        label: 'Only you',
+        description: 'Hidden from your profile and the feed',
+    },
+};
+
+export const isActivityVisibility = (value: unknown): value is ActivityVisibility =>
+    typeof value === 'string' && value in ACTIVITY_VISIBILITIES;
+
+/**
+ * Whether a viewer may see an activity, given their friendship with its
+ * owner. Only an accepted friendship opens the friends tier; pending and
+ * rejected requests don't. Mirrors can_view_activity() on the server.
+ */
+export const canViewActivity = (
+    activity: Pick<Activity, 'userId' | 'visibility'>,
+    viewerId: string | null,
+    friendship: FriendshipStatus
+): boolean => {
+    if (viewerId && viewerId === activity.userId) return true;
+    switch (activity.visibility ?? DEFAULT_ACTIVITY_VISIBILITY) {
+        case 'public':
+            return true;
+        case 'friends':
+            return !!viewerId && friendship === 'accepted';
+        default:
+            return false;
+    }
+};
@@ -0,0 +1,215 @@
+import { ActivityType, ClaimRuleReason, ClaimRules, ClaimRuleViolation, TerritoryRing } from '../lib/types';
+
+// Used until app_settings answers, and for any field it leaves out or garbles
+export const DEFAULT_CLAIM_RULES: ClaimRules = {
+    minCompactness: 0.12, // about a 20:1 rectangle; an out-and-back scores far lower
+    minWidth: 20, // wider than the spread of GPS fixes along one street
+    maxAreaByType: {
+        WALK: 3_000_000,
+        RUN: 6_000_000,
+        RIDE: 10_000_000, // the server's cap for any claim
+    },
+    maxPerimeterToDistance: 1.5, // leaves room for a 200 m closing gap on a small loop
+};
+
+const EARTH_RADIUS_M = 6371008.8;
+// How close the inscribed circle search gets to the true radius
+const INSCRIBED_PRECISION_M = 0.5;
+
+const positive = (value: unknown, fallback: number): number =>
+    typeof value === 'number' && isFinite(value) && value > 0 ? value : fallback;
+
+/** Claim rules from an app_settings value, keeping the defaults for anything missing or invalid. */
+export const parseClaimRules = (value: unknown): ClaimRules => {
+    const raw: any = value && typeof value === 'object' ? value : {};
+    const areas: any = raw.maxAreaByType && typeof raw.maxAreaByType === 'object' ? raw.maxAreaByType : {};
+    const defaults = DEFAULT_CLAIM_RULES;
+
+    return {
+        minCompactness: positive(raw.minCompactness, defaults.minCompactness),
+        minWidth: positive(raw.minWidth, defaults.minWidth),
+        maxAreaByType: {
+            WALK: positive(areas.WALK, defaults.maxAreaByType.WALK),
+            RUN: positive(areas.RUN, defaults.maxAreaByType.RUN),
+            RIDE: positive(areas.RIDE, defaults.maxAreaByType.RIDE),
+        },
+        maxPerimeterToDistance: positive(raw.maxPerimeterToDistance, defaults.maxPerimeterToDistance),
+    };
+};
+
+/** Polsby-Popper compactness, 4πA/P²: 1 for a circle, approaching 0 for a sliver. */
+export const polsbyPopper = (area: number, perimeter: number): number =>
+    perimeter > 0 ? (4 * Math.PI * area) / (perimeter * perimeter) : 0;
+
+/** Distance from (x, y) to the ring's boundary, negative when outside it. */
+const signedDistance = (x: number, y: number, ring: number[][]): number => {
+    let inside = false;
+    let minSq = Infinity;
+
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+        const [ax, ay] = ring[i];
+        const [bx, by] = ring[j];
+
+        if ((ay > y) !== (by > y) && x < ((bx - ax) * (y - ay)) / (by - ay) + ax) inside = !inside;
+
+        const dx = bx - ax;
+        const dy = by - ay;
+        const lenSq = dx * dx + dy * dy;
+        const t = lenSq > 0 ? Math.max(0, Math.min(1, ((x - ax) * dx + (y - ay) * dy) / lenSq)) : 0;
+        const px = ax + t * dx - x;
+        const py = ay + t * dy - y;
+        minSq = Math.min(minSq, px * px + py * py);
+    }
+
+    return (inside ? 1 : -1) * Math.sqrt(minSq);
+};
+
+interface Cell {
+    x: number;
+    y: number;
+    half: number;
+    d: number; // distance from the cell's center to the boundary
+    max: number; // the most any point in the cell could reach
+}
+
+const makeCell = (x: number, y: number, half: number, ring: number[][]): Cell => {
+    const d = signedDistance(x, y, ring);
+    return { x, y, half, d, max: d + half * Math.SQRT2 };
+};
+
+/**
+ * Width of a loop in meters: the diameter of the largest circle that fits
+ * inside it. Found with the polylabel search on a local flat projection,
+ * which is accurate at territory scale.
+ */
+export const inscribedWidth = (ring: TerritoryRing): number => {
+    if (ring.length < 3) return 0;
+
+    const lat0 = (ring.reduce((sum, [, lat]) => sum + lat, 0) / ring.length) * Math.PI / 180;
+    const projected = ring.map(([lng, lat]) => [
+        EARTH_RADIUS_M * (lng * Math.PI / 180) * Math.cos(lat0),
+        EARTH_RADIUS_M * (lat * Math.PI / 180),
+    ]);
+
+    const xs = projected.map(p => p[0]);
+    const ys = projected.map(p => p[1]);
+    const minX = Math.min(...xs);
+    const minY = Math.min(...ys);
+    const width = Math.max(...xs) - minX;
+    const height = Math.max(...ys) - minY;
+    const cellSize = Math.min(width, height);
+    if (cellSize === 0) return 0;
+
+    // Cover the bounding box with square cells, then keep splitting the one
+    // that could still hold a bigger circle until none can by much
+    const half = cellSize / 2;
+    const queue: Cell[] = [];
+    for (let x = minX; x < minX + width; x += cellSize) {
+        for (let y = minY; y < minY + height; y += cellSize) {
+            queue.push(makeCell(x + half, y + half, half, projected));
+        }
+    }
+
+    let best = makeCell(minX + width / 2, minY + height / 2, 0, projected);
+    while (queue.length > 0) {
+        let top = 0;
+        for (let i = 1; i < queue.length; i++) {
+            if (queue[i].max > queue[top].max) top = i;
+        }
+        const cell = queue.splice(top, 1)[0];
+
+        if (cell.d > best.d) best = cell;
+        if (cell.max - best.d <= INSCRIBED_PRECISION_M) break;
+
+        const h = cell.half / 2;
+        queue.push(
+            makeCell(cell.x - h, cell.y - h, h, projected),
+            makeCell(cell.x + h, cell.y - h, h, projected),
+            makeCell(cell.x - h, cell.y + h, h, projected),
+            makeCell(cell.x + h, cell.y + h, h, projected),
+        );
+    }
+
+    return Math.max(0, best.d) * 2;
+};
+
+/** What GameEngine measures of a loop for the claim rules. */
+export interface ClaimShape {
+    area: number; // m²
+    perimeter: number; // m
+    distance: number; // m actually covered, not counting pause gaps
+    ring: TerritoryRing;
+}
+
+/**
+ * The first claim rule the loop breaks, or null when it may claim. Cheap
+ * checks run first; the width search only runs for loops that pass the rest.
+ */
+export const evaluateClaimRules = (
+    shape: ClaimShape,
+    activityType: ActivityType,
+    rules: ClaimRules
+): ClaimRuleViolation | null => {
+    const maxArea = rules.maxAreaByType[activityType] ?? rules.maxAreaByType.WALK;
+    if (shape.area > maxArea) {
+        return { reason: 'TOO_LARGE_FOR_TYPE', value: shape.area, limit: maxArea };
+    }
+
+    const ratio = shape.distance > 0 ? shape.perimeter / shape.distance : Infinity;
+    if (ratio > rules.maxPerimeterToDistance) {
+        return { reason: 'PERIMETER_EXCEEDS_DISTANCE', value: ratio, limit: rules.maxPerimeterToDistance };
+    }
+
+    const compactness = polsbyPopper(shape.area, shape.perimeter);
+    if (compactness < rules.minCompactness) {
+        return { reason: 'NOT_COMPACT', value: compactness, limit: rules.minCompactness };
+    }
+
+    const width = inscribedWidth(shape.ring);
+    if (width < rules.minWidth) {
+        return { reason: 'TOO_NARROW', value: width, limit: rules.minWidth };
+    }
+
+    return null;
+};
+
+const CLAIM_RULE_REASONS: ClaimRuleReason[] = ['TOO_LARGE_FOR_TYPE', 'PERIMETER_EXCEEDS_DISTANCE', 'NOT_COMPACT', 'TOO_NARROW'];
+
+/**
+ * The claim rule a rejected claim_territory response names, or null when it
+ * was rejected for anything else. The server leaves out the value when it
+ * is unbounded.
+ */
+export const parseClaimRuleViolation = (response: any): ClaimRuleViolation | null => {
+    if (!response || !CLAIM_RULE_REASONS.includes(response.reason)) return null;
+    return {
+        reason: response.reason,
+        value: typeof response.value === 'number' ? response.value : Infinity,
+        limit: typeof response.limit === 'number' ? response.limit : 0,
+    };
+};
+
+const ACTIVITY_NOUNS: Record<ActivityType, string> = {
+    WALK: 'a walk',
+    RUN: 'a run',
+    RIDE: 'a ride',
+};
+
+/** A sentence telling the user why their loop didn't claim territory. */
+export const describeClaimRuleViolation = (
+    violation: ClaimRuleViolation,
+    activityType: ActivityType = 'WALK'
+): string => {
+    switch (violation.reason) {
+        case 'TOO_LARGE_FOR_TYPE':
+            return `Your loop covers ${(violation.value / 1_000_000).toFixed(2)} km², more than the ` +
+                `${(violation.limit / 1_000_000).toFixed(2)} km² ${ACTIVITY_NOUNS[activityType]} can claim, so no territory was claimed.`;
+        case 'PERIMETER_EXCEEDS_DISTANCE':
+            return 'Too much of your loop was never actually covered, so no territory was claimed. Finish closer to where you started.';
+        case 'NOT_COMPACT':
+            return 'Your loop is too thin to claim territory. Go around an area instead of out and back along the same route.';
+        case 'TOO_NARROW':
+            return `Your loop is only ${Math.round(violation.value)} m across at its widest, under the ` +
+                `${Math.round(violation.limit)} m needed, so no territory was claimed.`;
+    }
+};
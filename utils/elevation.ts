@@ -0,0 +1,125 @@
+import { ElevationSample } from '../lib/types';
+
+/** Raw fix altitudes with how far along the activity each was taken. */
+export interface AltitudeSample {
+    distance: number; // meters from the start of the activity
+    altitude: number;
+}
+
+export interface ElevationStats {
+    gain: number;
+    loss: number;
+    max: number;
+    min: number;
+    profile: ElevationSample[];
+}
+
+// Median over 5 fixes knocks out single-fix spikes, then a moving average over
+// 5 irons out the jitter that's left
+const MEDIAN_WINDOW = 5;
+const MEAN_WINDOW = 5;
+// Climbs and drops smaller than this are treated as noise
+const HYSTERESIS_M = 3;
+// Grade is measured over at least this much horizontal distance
+const GRADE_WINDOW_M = 50;
+// Anything steeper is noise on a path you can walk, run or ride
+const MAX_GRADE_PERCENT = 45;
+export const MAX_PROFILE_SAMPLES = 200;
+
+const windowed = (values: number[], size: number, reduce: (window: number[]) => number): number[] => {
+    const half = Math.floor(size / 2);
+    return values.map((_, i) => reduce(values.slice(Math.max(0, i - half), Math.min(values.length, i + half + 1))));
+};
+
+const median = (window: number[]): number => {
+    const sorted = [...window].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+const mean = (window: number[]): number => window.reduce((sum, v) => sum + v, 0) / window.length;
+
+/** Median then moving-average smoothing of a run of altitudes. */
+export const smoothAltitudes = (altitudes: number[]): number[] =>
+    windowed(windowed(altitudes, MEDIAN_WINDOW, median), MEAN_WINDOW, mean);
+
+/**
+ * Total ascent and descent with a hysteresis band: the reference only moves
+ * once the altitude has changed by HYSTERESIS_M, so wobble around a level
+ * never adds up.
+ */
+export const accumulateClimb = (altitudes: number[]): { gain: number; loss: number } => {
+    let gain = 0;
+    let loss = 0;
+    if (altitudes.length === 0) return { gain, loss };
+
+    let reference = altitudes[0];
+    for (let i = 1; i < altitudes.length; i++) {
+        const diff = altitudes[i] - reference;
+        if (Math.abs(diff) < HYSTERESIS_M) continue;
+        if (diff > 0) gain += diff;
+        else loss -= diff;
+        reference = altitudes[i];
+    }
+    return { gain, loss };
+};
+
+/**
+ * Grade in percent at each sample, measured back to the nearest earlier
+ * sample at least GRADE_WINDOW_M away and clamped to ±MAX_GRADE_PERCENT.
+ * Samples too close to the start of the run get 0.
+ */
+export const gradeSeries = (distances: number[], altitudes: number[]): number[] => {
+    const grades: number[] = [];
+    let back = 0;
+    for (let i = 0; i < distances.length; i++) {
+        while (back + 1 < i && distances[i] - distances[back + 1] >= GRADE_WINDOW_M) back++;
+        const run = distances[i] - distances[back];
+        if (run < GRADE_WINDOW_M) {
+            grades.push(0);
+            continue;
+        }
+        const grade = ((altitudes[i] - altitudes[back]) / run) * 100;
+        grades.push(Math.max(-MAX_GRADE_PERCENT, Math.min(MAX_GRADE_PERCENT, grade)));
+    }
+    return grades;
+};
+
+/** Keep at most `max` samples, evenly spaced, always including both ends. */
+export const downsampleProfile = (profile: ElevationSample[], max: number = MAX_PROFILE_SAMPLES): ElevationSample[] => {
+    if (profile.length <= max) return profile;
+    const step = (profile.length - 1) / (max - 1);
+    return Array.from({ length: max }, (_, i) => profile[Math.round(i * step)]);
+};
+
+/**
+ * Elevation stats from runs of altitude samples, one run per activity segment.
+ * Each run is smoothed on its own so a pause gap never reads as a cliff.
+ * Returns null when fewer than two samples carry an altitude.
+ */
+export const computeElevation = (runs: AltitudeSample[][]): ElevationStats | null => {
+    let gain = 0;
+    let loss = 0;
+    let max = -Infinity;
+    let min = Infinity;
+    const profile: ElevationSample[] = [];
+
+    for (const run of runs) {
+        if (run.length === 0) continue;
+        const distances = run.map(s => s.distance);
+        const smoothed = smoothAltitudes(run.map(s => s.altitude));
+        const climb = accumulateClimb(smoothed);
+        gain += climb.gain;
+        loss += climb.loss;
+
+        const grades = gradeSeries(distances, smoothed);
+        smoothed.forEach((elevation, i) => {
+            max = Math.max(max, elevation);
+            min = Math.min(min, elevation);
+            profile.push({ distance: distances[i], elevation, grade: grades[i] });
+        });
+    }
+
+    if (profile.length < 2) return null;
+    return { gain, loss, max, min, profile: downsampleProfile(profile) };
+};
@@ -0,0 +1,85 @@
+import { GPSPoint, GpsQuality } from '../lib/types';
+
+// Accuracy histogram in whole meters; anything worse lands in the last bucket
+const MAX_ACCURACY_BUCKET_M = 100;
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Running GPS quality stats for a recording. Feed it every fix received while
+ * recording, accepted or not; call breakGap() on pause so the paused time
+ * isn't counted as a gap. Memory stays constant however long the activity.
+ */
+export const createGpsQualityTracker = () => {
+    let fixCount = 0;
+    let rejectedCount = 0;
+    let accuracySum = 0;
+    let accuracyCount = 0;
+    const accuracyBuckets: number[] = new Array(MAX_ACCURACY_BUCKET_M + 1).fill(0);
+    let lastFixAt: number | null = null;
+    let intervalSum = 0;
+    let intervalCount = 0;
+    let maxGapMs = 0;
+
+    return {
+        add(at: number, accuracy: number | null, accepted: boolean) {
+            fixCount++;
+            if (!accepted) rejectedCount++;
+            if (typeof accuracy === 'number' && accuracy >= 0 && !isNaN(accuracy)) {
+                accuracySum += accuracy;
+                accuracyCount++;
+                accuracyBuckets[Math.min(MAX_ACCURACY_BUCKET_M, Math.ceil(accuracy))]++;
+            }
+            if (lastFixAt !== null && at > lastFixAt) {
+                const gap = at - lastFixAt;
+                intervalSum += gap;
+                intervalCount++;
+                maxGapMs = Math.max(maxGapMs, gap);
+            }
+            lastFixAt = at;
+        },
+
+        /** The next fix starts fresh rather than closing a gap. */
+        breakGap() {
+            lastFixAt = null;
+        },
+
+        summary(): GpsQuality {
+            let p90Accuracy: number | null = null;
+            if (accuracyCount > 0) {
+                const target = Math.ceil(accuracyCount * 0.9);
+                let seen = 0;
+                for (let m = 0; m <= MAX_ACCURACY_BUCKET_M; m++) {
+                    seen += accuracyBuckets[m];
+                    if (seen >= target) {
+                        p90Accuracy = m;
+                        break;
+                    }
+                }
+            }
+            return {
+                fixCount,
+                rejectedCount,
+                meanAccuracy: accuracyCount > 0 ? round1(accuracySum / accuracyCount) : null,
+                p90Accuracy,
+                meanInterval: intervalCount > 0 ? round1(intervalSum / intervalCount / 1000) : null,
+                maxGap: round1(maxGapMs / 1000),
+            };
+        },
+    };
+};
+
+export type GpsQualityTracker = ReturnType<typeof createGpsQualityTracker>;
+
+/**
+ * A tracker primed with already recorded segments, e.g. of a restored session.
+ * Rejected fixes were never kept, so they can't be counted.
+ */
+export const trackGpsQuality = (segments: GPSPoint[][]): GpsQualityTracker => {
+    const tracker = createGpsQualityTracker();
+    for (const segment of segments) {
+        for (const point of segment) tracker.add(point.timestamp, point.accuracy, true);
+        tracker.breakGap();
+    }
+    return tracker;
+};
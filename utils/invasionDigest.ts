@@ -0,0 +1,94 @@
+import { TerritoryInvasion } from '../lib/types';
+import { formatArea } from './shareCardUtils';
+
+/** How long a digest waits for other invasions landing at the same time (ms). */
+export const INVASION_DIGEST_WINDOW_MS = 30 * 1000;
+
+/** No digest goes out sooner than this after the previous one (ms). */
+export const INVASION_DIGEST_MIN_INTERVAL_MS = 15 * 60 * 1000;
+
+export interface InvasionDigestBatch {
+    invasions: TerritoryInvasion[];
+    sendAt: number;
+    previousSentAt?: number; // when the digest before this one went out
+}
+
+export interface InvasionDigest {
+    title: string;
+    body: string;
+    // The biggest loss, for the map to open on
+    focus: TerritoryInvasion;
+}
+
+/**
+ * Add a newly landed invasion to the digest still waiting to go out, or
+ * start the next one. A new digest waits INVASION_DIGEST_WINDOW_MS for
+ * others to join it and never goes out within the minimum interval of the
+ * one before.
+ */
+export const queueInvasion = (
+    batch: InvasionDigestBatch | null,
+    invasion: TerritoryInvasion,
+    now: number
+): InvasionDigestBatch => {
+    if (batch && now < batch.sendAt) {
+        if (batch.invasions.some(i => i.id === invasion.id)) return batch;
+        return { ...batch, invasions: [...batch.invasions, invasion] };
+    }
+    const earliest = batch ? batch.sendAt + INVASION_DIGEST_MIN_INTERVAL_MS : now;
+    return {
+        invasions: [invasion],
+        sendAt: Math.max(now + INVASION_DIGEST_WINDOW_MS, earliest),
+        ...(batch ? { previousSentAt: batch.sendAt } : {}),
+    };
+};
+
+/**
+ * Drop a digest that hasn't gone out yet. The one before it still counts,
+ * so the next digest keeps to the minimum interval after that.
+ */
+export const cancelDigest = (batch: InvasionDigestBatch | null): InvasionDigestBatch | null =>
+    batch?.previousSentAt !== undefined ? { invasions: [], sendAt: batch.previousSentAt } : null;
+
+const listNames = (names: string[]): string => {
+    if (names.length === 1) return names[0];
+    if (names.length === 2) return `${names[0]} and ${names[1]}`;
+    const others = names.length - 2;
+    return `${names[0]}, ${names[1]} and ${others} ${others === 1 ? 'other' : 'others'}`;
+};
+
+/**
+ * One notification for everything in a batch, grouped by invader: a single
+ * invasion is told as it happened, several as a summary of who took how much.
+ */
+export const buildInvasionDigest = (invasions: TerritoryInvasion[]): InvasionDigest | null => {
+    if (invasions.length === 0) return null;
+
+    const focus = invasions.reduce((a, b) => (b.overlapArea > a.overlapArea ? b : a));
+    const byInvader = new Map<string, { name: string; area: number }>();
+    for (const inv of invasions) {
+        const entry = byInvader.get(inv.invaderUserId) || { name: inv.invaderUsername || 'Someone', area: 0 };
+        entry.area += inv.overlapArea || 0;
+        byInvader.set(inv.invaderUserId, entry);
+    }
+    const invaders = [...byInvader.values()].sort((a, b) => b.area - a.area);
+    const totalArea = invaders.reduce((sum, i) => sum + i.area, 0);
+    const territoryCount = new Set(invasions.map(i => i.invadedTerritoryId)).size;
+
+    if (invasions.length === 1) {
+        return {
+            title: 'Territory invaded!',
+            body: focus.territoryWasDestroyed
+                ? `${invaders[0].name} took one of your territories`
+                : `${invaders[0].name} took ${formatArea(focus.overlapArea)} of your territory`,
+            focus,
+        };
+    }
+
+    const where = territoryCount === 1 ? 'one of your territories' : `${territoryCount} of your territories`;
+    return {
+        title: 'Under attack!',
+        body: `${listNames(invaders.map(i => i.name))} took ${formatArea(totalArea)} from ${where}`,
+        focus,
+    };
+};
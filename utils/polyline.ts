@@ -0,0 +1,219 @@
+import { GPSPoint } from '../lib/types';
+
+/**
+ * Compact storage format for activity tracks. Each segment is one string in
+ * the style of Google's encoded polyline (zigzag varints, 5 bits per
+ * printable character) carrying seven values per point:
+ *
+ *   lat, lng   — 1e-6 degree steps, delta from the previous point (~0.1m)
+ *   timestamp  — ms, delta from the previous point (absolute for the first)
+ *   speed      — cm/s, absolute, 0 when missing
+ *   accuracy   — dm, absolute, 0 when missing
+ *   altitude   — dm, absolute, 0 when missing
+ *   flags      — bit 0 set when the fix was mocked
+ *
+ * Missing values are stored as 0 and present ones shifted up by one, so a
+ * point with everything reported costs ~16 characters instead of ~110 as JSON.
+ * Version 1 tracks have no flags value and read back without `mocked`.
+ */
+export interface EncodedTrack {
+    format: typeof TRACK_FORMAT;
+    version: 1 | typeof TRACK_VERSION;
+    segments: string[];
+}
+
+const TRACK_FORMAT = 'conqr-track';
+const TRACK_VERSION = 2;
+const COORD_SCALE = 1e6;
+const SPEED_SCALE = 100;
+const ACCURACY_SCALE = 10;
+const ALTITUDE_SCALE = 10;
+const FLAG_MOCKED = 1;
+const METERS_PER_DEGREE_LAT = 111320;
+
+/** Tolerance for display-only route copies, e.g. feed and share cards. */
+export const ROUTE_PREVIEW_TOLERANCE_M = 5;
+
+// Arithmetic rather than bitwise: timestamps don't fit in 32 bits
+const zigzag = (value: number): number => (value >= 0 ? value * 2 : -value * 2 - 1);
+const unzigzag = (value: number): number => (value % 2 === 0 ? value / 2 : -(value + 1) / 2);
+
+const writeValue = (value: number, out: string[]) => {
+    let rest = zigzag(value);
+    while (rest >= 32) {
+        out.push(String.fromCharCode((rest % 32) + 32 + 63));
+        rest = Math.floor(rest / 32);
+    }
+    out.push(String.fromCharCode(rest + 63));
+};
+
+const writeOptional = (value: number | null | undefined, scale: number, out: string[]) => {
+    if (typeof value !== 'number' || isNaN(value)) {
+        writeValue(0, out);
+        return;
+    }
+    const scaled = Math.round(value * scale);
+    writeValue(scaled >= 0 ? scaled + 1 : scaled, out);
+};
+
+const readOptional = (stored: number, scale: number): number | null => {
+    if (stored === 0) return null;
+    return (stored > 0 ? stored - 1 : stored) / scale;
+};
+
+const isValidPoint = (p: GPSPoint | null | undefined): p is GPSPoint =>
+    !!p && typeof p.lat === 'number' && typeof p.lng === 'number' && !isNaN(p.lat) && !isNaN(p.lng);
+
+/** Encode one segment. Points without a usable position are dropped. */
+export const encodeSegment = (points: GPSPoint[]): string => {
+    const out: string[] = [];
+    let lat = 0;
+    let lng = 0;
+    let time = 0;
+    for (const point of points) {
+        if (!isValidPoint(point)) continue;
+        const nextLat = Math.round(point.lat * COORD_SCALE);
+        const nextLng = Math.round(point.lng * COORD_SCALE);
+        const nextTime = Math.round(typeof point.timestamp === 'number' && !isNaN(point.timestamp) ? point.timestamp : time);
+        writeValue(nextLat - lat, out);
+        writeValue(nextLng - lng, out);
+        writeValue(nextTime - time, out);
+        writeOptional(point.speed, SPEED_SCALE, out);
+        writeOptional(point.accuracy, ACCURACY_SCALE, out);
+        writeOptional(point.altitude, ALTITUDE_SCALE, out);
+        writeValue(point.mocked ? FLAG_MOCKED : 0, out);
+        lat = nextLat;
+        lng = nextLng;
+        time = nextTime;
+    }
+    return out.join('');
+};
+
+/**
+ * Decode one segment written by the given track version. A truncated trailing
+ * point is dropped.
+ */
+export const decodeSegment = (encoded: string, version: number = TRACK_VERSION): GPSPoint[] => {
+    const valuesPerPoint = version === 1 ? 6 : 7;
+    const points: GPSPoint[] = [];
+    const values: number[] = [];
+    let lat = 0;
+    let lng = 0;
+    let time = 0;
+    let result = 0;
+    let factor = 1;
+
+    for (let i = 0; i < encoded.length; i++) {
+        const chunk = encoded.charCodeAt(i) - 63;
+        if (chunk < 0 || chunk > 63) return points; // not ours
+        result += (chunk % 32) * factor;
+        factor *= 32;
+        if (chunk >= 32) continue;
+
+        values.push(unzigzag(result));
+        result = 0;
+        factor = 1;
+        if (values.length < valuesPerPoint) continue;
+
+        lat += values[0];
+        lng += values[1];
+        time += values[2];
+        const point: GPSPoint = {
+            lat: lat / COORD_SCALE,
+            lng: lng / COORD_SCALE,
+            timestamp: time,
+            speed: readOptional(values[3], SPEED_SCALE),
+            accuracy: readOptional(values[4], ACCURACY_SCALE),
+            altitude: readOptional(values[5], ALTITUDE_SCALE),
+        };
+        if (valuesPerPoint > 6 && values[6] & FLAG_MOCKED) point.mocked = true;
+        points.push(point);
+        values.length = 0;
+    }
+    return points;
+};
+
+export const isEncodedTrack = (value: unknown): value is EncodedTrack =>
+    !!value && typeof value === 'object' &&
+    (value as EncodedTrack).format === TRACK_FORMAT &&
+    Array.isArray((value as EncodedTrack).segments);
+
+export const encodeTrack = (segments: GPSPoint[][]): EncodedTrack => ({
+    format: TRACK_FORMAT,
+    version: TRACK_VERSION,
+    segments: (Array.isArray(segments) ? segments : [])
+        .filter(seg => Array.isArray(seg))
+        .map(encodeSegment),
+});
+
+/**
+ * Read a track in any stored form: encoded, a legacy GPSPoint[][] array, or
+ * either as a JSON string. Anything unreadable gives an empty track.
+ */
+export const decodeTrack = (value: unknown): GPSPoint[][] => {
+    if (!value) return [];
+    if (typeof value === 'string') {
+        try {
+            return decodeTrack(JSON.parse(value));
+        } catch (err) {
+            console.error('Failed to parse polylines:', err);
+            return [];
+        }
+    }
+    if (Array.isArray(value)) return value as GPSPoint[][];
+    if (isEncodedTrack(value)) return value.segments.map(seg => decodeSegment(seg, value.version));
+    return [];
+};
+
+// Perpendicular distance in meters from p to the segment a–b, on a local
+// flat projection around a (plenty accurate over the span of one track)
+const offsetMeters = (p: GPSPoint, a: GPSPoint, b: GPSPoint): number => {
+    const metersPerDegreeLng = METERS_PER_DEGREE_LAT * Math.cos((a.lat * Math.PI) / 180);
+    const px = (p.lng - a.lng) * metersPerDegreeLng;
+    const py = (p.lat - a.lat) * METERS_PER_DEGREE_LAT;
+    const bx = (b.lng - a.lng) * metersPerDegreeLng;
+    const by = (b.lat - a.lat) * METERS_PER_DEGREE_LAT;
+    const lengthSq = bx * bx + by * by;
+    if (lengthSq === 0) return Math.hypot(px, py);
+    const t = Math.max(0, Math.min(1, (px * bx + py * by) / lengthSq));
+    return Math.hypot(px - t * bx, py - t * by);
+};
+
+/**
+ * Douglas–Peucker simplification: keep the fewest points such that none
+ * dropped is more than `toleranceMeters` off the result. The ends are always
+ * kept. For display copies only — timing and speed between the kept points
+ * are lost.
+ */
+export const simplifyPath = (points: GPSPoint[], toleranceMeters: number): GPSPoint[] => {
+    const valid = (Array.isArray(points) ? points : []).filter(isValidPoint);
+    if (valid.length <= 2 || !(toleranceMeters > 0)) return valid;
+
+    const keep = new Uint8Array(valid.length);
+    keep[0] = 1;
+    keep[valid.length - 1] = 1;
+    // Explicit stack rather than recursion: long tracks would blow the call stack
+    const stack: [number, number][] = [[0, valid.length - 1]];
+    while (stack.length > 0) {
+        const [start, end] = stack.pop()!;
+        let farthest = -1;
+        let farthestOffset = toleranceMeters;
+        for (let i = start + 1; i < end; i++) {
+            const offset = offsetMeters(valid[i], valid[start], valid[end]);
+            if (offset > farthestOffset) {
+                farthest = i;
+                farthestOffset = offset;
+            }
+        }
+        if (farthest < 0) continue;
+        keep[farthest] = 1;
+        stack.push([start, farthest], [farthest, end]);
+    }
+    return valid.filter((_, i) => keep[i] === 1);
+};
+
+/** Simplify each segment of a track on its own. */
+export const simplifyTrack = (segments: GPSPoint[][], toleranceMeters: number): GPSPoint[][] =>
+    (Array.isArray(segments) ? segments : [])
+        .filter(seg => Array.isArray(seg))
+        .map(seg => simplifyPath(seg, toleranceMeters));
@@ -0,0 +1,73 @@
+import { GPSPoint, PrivacyZone, TerritoryPolygon } from '../lib/types';
+import { getDistance } from 'geolib';
+import { point, polygon as turfPolygon, lineString, booleanPointInPolygon, pointToLineDistance } from '@turf/turf';
+import { closeRing, toMultiPolygon } from './territoryGeometry';
+
+/** Radii offered when adding a zone (m). Larger hides more of the route. */
+export const PRIVACY_ZONE_RADII_M = [200, 400, 800];
+
+// A clipped stretch needs two fixes to draw as a line
+const MIN_CLIPPED_SEGMENT_POINTS = 2;
+
+/** Whether a position falls inside any of the zones. */
+export const isInPrivacyZone = (position: { lat: number; lng: number }, zones: PrivacyZone[]): boolean =>
+    zones.some(zone => {
+        try {
+            return getDistance(
+                { latitude: position.lat, longitude: position.lng },
+                { latitude: zone.center.lat, longitude: zone.center.lng }
+            ) <= zone.radius;
+        } catch {
+            return false;
+        }
+    });
+
+/**
+ * A track with every fix inside a zone removed. Where a segment passes
+ * through a zone it is split in two, so no line is drawn across the gap.
+ * Mirrors privacy_clip_track() on the server.
+ */
+export const clipToPrivacyZones = (polylines: GPSPoint[][], zones: PrivacyZone[]): GPSPoint[][] => {
+    if (!Array.isArray(polylines)) return [];
+    if (zones.length === 0) return polylines;
+
+    const clipped: GPSPoint[][] = [];
+    for (const segment of polylines) {
+        if (!Array.isArray(segment)) continue;
+        let run: GPSPoint[] = [];
+        for (const p of segment) {
+            if (isInPrivacyZone(p, zones)) {
+                if (run.length >= MIN_CLIPPED_SEGMENT_POINTS) clipped.push(run);
+                run = [];
+            } else {
+                run.push(p);
+            }
+        }
+        if (run.length >= MIN_CLIPPED_SEGMENT_POINTS) clipped.push(run);
+    }
+    return clipped;
+};
+
+/**
+ * Whether a territory outline covers or comes within a zone. Territories are
+ * public game state and can't be clipped without changing what is owned, so
+ * these claims aren't made at all.
+ */
+export const polygonOverlapsPrivacyZone = (polygon: TerritoryPolygon, zones: PrivacyZone[]): boolean => {
+    if (zones.length === 0) return false;
+    const parts = toMultiPolygon(polygon).map(part => part.map(closeRing));
+
+    return zones.some(zone => {
+        const center = point([zone.center.lng, zone.center.lat]);
+        return parts.some(part => {
+            try {
+                if (booleanPointInPolygon(center, turfPolygon(part))) return true;
+                return part.some(ring =>
+                    pointToLineDistance(center, lineString(ring), { units: 'meters' }) <= zone.radius
+                );
+            } catch {
+                return false;
+            }
+        });
+    });
+};
@@ -0,0 +1,90 @@
+import { GPSPoint } from '../lib/types';
+
+/**
+ * Synthetic GPS traces for the replay location source. Timestamps start at 0;
+ * the replay rebases them onto the moment playback starts. Every trace is
+ * clean — noise, degraded accuracy and dropouts are layered on at replay time.
+ */
+
+const ORIGIN = { lat: 37.7749, lng: -122.4194 };
+const METERS_PER_DEGREE_LAT = 111320;
+const metersPerDegreeLng = (lat: number) => METERS_PER_DEGREE_LAT * Math.cos((lat * Math.PI) / 180);
+
+/** Fix at an east/north offset in meters from the origin. */
+const fixAt = (east: number, north: number, timestamp: number, speed: number, altitude: number = 10): GPSPoint => ({
+    lat: ORIGIN.lat + north / METERS_PER_DEGREE_LAT,
+    lng: ORIGIN.lng + east / metersPerDegreeLng(ORIGIN.lat),
+    timestamp,
+    speed,
+    accuracy: 5,
+    altitude,
+});
+
+/**
+ * Walk a parametric curve at constant speed, one fix every `intervalMs`.
+ * `curve` maps t in [0, 1] to an east/north offset in meters.
+ */
+const traceCurve = (
+    curve: (t: number) => [number, number],
+    speed: number,
+    intervalMs: number
+): GPSPoint[] => {
+    // Arc length, finely sampled, so fixes land evenly along the curve
+    const STEPS = 2000;
+    const lengths = [0];
+    let prev = curve(0);
+    for (let i = 1; i <= STEPS; i++) {
+        const next = curve(i / STEPS);
+        lengths.push(lengths[i - 1] + Math.hypot(next[0] - prev[0], next[1] - prev[1]));
+        prev = next;
+    }
+    const total = lengths[STEPS];
+    const stepMeters = speed * (intervalMs / 1000);
+    const count = Math.max(2, Math.round(total / stepMeters) + 1);
+
+    const points: GPSPoint[] = [];
+    let j = 0;
+    for (let i = 0; i < count; i++) {
+        const target = Math.min(total, (i / (count - 1)) * total);
+        while (j < STEPS && lengths[j + 1] < target) j++;
+        const span = lengths[j + 1] - lengths[j] || 1;
+        const t = (j + (target - lengths[j]) / span) / STEPS;
+        const [east, north] = curve(t);
+        points.push(fixAt(east, north, i * intervalMs, speed, 10 + north / 20));
+    }
+    return points;
+};
+
+/** A ~940m circular run that ends where it started. */
+export const closedLoopTrace = (): GPSPoint[] =>
+    traceCurve(t => {
+        const angle = t * 2 * Math.PI;
+        return [150 * Math.sin(angle), 150 - 150 * Math.cos(angle)];
+    }, 3, 2000);
+
+/** A figure-eight walk: two ~100m lobes crossing at the start point. */
+export const figureEightTrace = (): GPSPoint[] =>
+    traceCurve(t => {
+        const angle = t * 2 * Math.PI;
+        return [100 * Math.sin(angle), 100 * Math.sin(angle) * Math.cos(angle)];
+    }, 1.4, 2000);
+
+/**
+ * A straight 500m walk north with one fix thrown 300m sideways halfway along,
+ * the way a passing car or a multipath bounce shows up in a real trace.
+ */
+export const driveBySpikeTrace = (): GPSPoint[] => {
+    const points = traceCurve(t => [0, 500 * t], 1.4, 2000);
+    const mid = Math.floor(points.length / 2);
+    const spike = points[mid];
+    points[mid] = { ...fixAt(300, (spike.lat - ORIGIN.lat) * METERS_PER_DEGREE_LAT, spike.timestamp, 1.4), speed: null };
+    return points;
+};
+
+export type ReplayTraceName = 'closedLoop' | 'figureEight' | 'driveBySpike';
+
+export const REPLAY_TRACES: Record<ReplayTraceName, () => GPSPoint[]> = {
+    closedLoop: closedLoopTrace,
+    figureEight: figureEightTrace,
+    driveBySpike: driveBySpikeTrace,
+};
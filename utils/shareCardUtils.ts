@@ -1,4 +1,5 @@
-import { GPSPoint } from '../lib/types';
+import { GPSPoint, TerritoryPolygon } from '../lib/types';
+import { allRings, closeRing } from './territoryGeometry';
 
 // Constants
 export const SHARE_CARD_WIDTH = 1080;
@@ -34,6 +35,12 @@ export const formatPace = (speedMs: number): string => {
     return `${minutes}:${seconds.toString().padStart(2, '0')}`;
 };
 
+export const formatElevation = (meters: number): string => `${Math.round(meters)}m`;
+
+/** Whether an activity climbed enough for its elevation gain to be worth showing. */
+export const hasElevationGain = (activity: { elevationGain?: number }): boolean =>
+    typeof activity.elevationGain === 'number' && activity.elevationGain >= 1;
+
 export const formatArea = (sqMeters: number): string => {
     if (sqMeters < 10000) return `${Math.round(sqMeters)} m²`;
     return `${(sqMeters / 10000).toFixed(2)} ha`;
@@ -47,17 +54,13 @@ export const formatDate = (timestamp: number): string => {
     });
 };
 
-// GPS coordinate to SVG coordinate mapping
-export function gpsPointsToSvgPath(
+// Fit a set of GPS coordinates into an SVG viewport, keeping aspect ratio
+function createSvgProjection(
     points: { lat: number; lng: number }[],
     svgWidth: number,
     svgHeight: number,
-    padding: number = 0.15,
-): { points: string; startPoint: { x: number; y: number }; endPoint: { x: number; y: number } } {
-    if (!points || points.length === 0) {
-        return { points: '', startPoint: { x: 0, y: 0 }, endPoint: { x: 0, y: 0 } };
-    }
-
+    padding: number,
+): (lat: number, lng: number) => { x: number; y: number } {
     let minLat = Infinity, maxLat = -Infinity, minLng = Infinity, maxLng = -Infinity;
     for (const p of points) {
         if (p.lat < minLat) minLat = p.lat;
@@ -101,10 +104,24 @@ export function gpsPointsToSvgPath(
         offsetX = (svgWidth - lngRangeCorrected * scaleX) / 2;
     }
 
-    const toSvg = (lat: number, lng: number) => ({
+    return (lat: number, lng: number) => ({
         x: ((lng - minLng) * cosLat) * scaleX + offsetX,
         y: ((maxLat - lat)) * scaleY + offsetY,
     });
+}
+
+// GPS coordinate to SVG coordinate mapping
+export function gpsPointsToSvgPath(
+    points: { lat: number; lng: number }[],
+    svgWidth: number,
+    svgHeight: number,
+    padding: number = 0.15,
+): { points: string; startPoint: { x: number; y: number }; endPoint: { x: number; y: number } } {
+    if (!points || points.length === 0) {
+        return { points: '', startPoint: { x: 0, y: 0 }, endPoint: { x: 0, y: 0 } };
+    }
+
+    const toSvg = createSvgProjection(points, svgWidth, svgHeight, padding);
 
     const svgPoints = points.map(p => {
         const { x, y } = toSvg(p.lat, p.lng);
@@ -121,36 +138,44 @@ export function gpsPointsToSvgPath(
     };
 }
 
-// Territory polygon to SVG polygon
+// Territory polygon to an SVG path. Every part and hole becomes its own
+// subpath; render with fillRule="evenodd" so holes stay empty.
 export function territoryPolygonToSvg(
-    polygon: [number, number][], // [lng, lat] GeoJSON format
+    polygon: TerritoryPolygon, // [lng, lat] GeoJSON format, single ring or MultiPolygon
     svgWidth: number,
     svgHeight: number,
     padding: number = 0.15,
-): { points: string; center: { x: number; y: number } } {
-    if (!polygon || polygon.length === 0) {
-        return { points: '', center: { x: svgWidth / 2, y: svgHeight / 2 } };
+): { path: string; center: { x: number; y: number } } {
+    const rings = allRings(polygon);
+    if (rings.length === 0) {
+        return { path: '', center: { x: svgWidth / 2, y: svgHeight / 2 } };
     }
 
-    // Convert [lng, lat] to {lat, lng}
-    const coords = polygon.map(([lng, lat]) => ({ lat, lng }));
-    const result = gpsPointsToSvgPath(coords, svgWidth, svgHeight, padding);
+    const toSvg = createSvgProjection(
+        rings.flat().map(([lng, lat]) => ({ lat, lng })),
+        svgWidth, svgHeight, padding,
+    );
+
+    const subpaths = rings.map(ring => {
+        const pts = ring.map(([lng, lat]) => {
+            const { x, y } = toSvg(lat, lng);
+            return `${x.toFixed(1)},${y.toFixed(1)}`;
+        });
+        return `M${pts.join(' L')} Z`;
+    });
 
-    // Calculate center
+    // Center of the first part's outer ring, the largest piece for split territories
     let sumX = 0, sumY = 0;
-    const svgPts = result.points.split(' ').map(p => {
-        const [x, y] = p.split(',').map(Number);
+    const outer = closeRing(rings[0]).slice(0, -1); // count the closing vertex once
+    for (const [lng, lat] of outer) {
+        const { x, y } = toSvg(lat, lng);
         sumX += x;
         sumY += y;
-        return { x, y };
-    });
+    }
 
     return {
-        points: result.points,
-        center: {
-            x: svgPts.length > 0 ? sumX / svgPts.length : svgWidth / 2,
-            y: svgPts.length > 0 ? sumY / svgPts.length : svgHeight / 2,
-        },
+        path: subpaths.join(' '),
+        center: { x: sumX / outer.length, y: sumY / outer.length },
     };
 }
 
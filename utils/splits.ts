@@ -0,0 +1,123 @@
+import { ActivitySplit, SplitUnit } from '../lib/types';
+
+/** Length of one automatic split, in meters. */
+export const SPLIT_DISTANCE_M: Record<SplitUnit, number> = {
+    km: 1000,
+    mi: 1609.344,
+};
+
+/**
+ * Running split state. Feed it each step of moving distance with the time the
+ * step took; a split closes every time the distance crosses a unit boundary,
+ * with the crossing time interpolated within the step. Used live by
+ * TrackingStore and after the fact by ActivityService.calculateSplits.
+ */
+export const createSplitAccumulator = (unit: SplitUnit) => {
+    const splitDistance = SPLIT_DISTANCE_M[unit];
+    const completed: ActivitySplit[] = [];
+    let distance = 0; // into the current split
+    let durationMs = 0;
+    let lastTime = 0;
+
+    return {
+        unit,
+
+        /** Add a step. Returns the splits it completed, usually none. */
+        add(stepDistance: number, stepMs: number, at: number): ActivitySplit[] {
+            const closed: ActivitySplit[] = [];
+            if (!(stepDistance > 0)) return closed;
+
+            let restDistance = stepDistance;
+            let restMs = Math.max(0, stepMs);
+
+            while (distance + restDistance >= splitDistance) {
+                const needed = splitDistance - distance;
+                const neededMs = restMs * (needed / restDistance);
+                const split: ActivitySplit = {
+                    distance: splitDistance,
+                    duration: (durationMs + neededMs) / 1000,
+                    endTime: Math.round(at - (restMs - neededMs)),
+                };
+                completed.push(split);
+                closed.push(split);
+
+                distance = 0;
+                durationMs = 0;
+                restDistance -= needed;
+                restMs -= neededMs;
+            }
+
+            distance += restDistance;
+            durationMs += restMs;
+            lastTime = at;
+            return closed;
+        },
+
+        /** Splits completed so far. */
+        get completed(): ActivitySplit[] {
+            return [...completed];
+        },
+
+        /** Completed splits plus the partial one in progress, if any. */
+        finish(): ActivitySplit[] {
+            if (distance <= 0) return [...completed];
+            return [...completed, { distance, duration: durationMs / 1000, endTime: lastTime }];
+        },
+    };
+};
+
+export type SplitAccumulator = ReturnType<typeof createSplitAccumulator>;
+
+/** Seconds per km or mile for a split, or 0 when there's nothing to measure. */
+export const splitPace = (split: ActivitySplit, unit: SplitUnit): number =>
+    split.distance > 0 && split.duration > 0
+        ? (split.duration / split.distance) * SPLIT_DISTANCE_M[unit]
+        : 0;
+
+/**
+ * Indices of the fastest and slowest splits by pace, or -1 when fewer than
+ * two can be compared. Splits shorter than `minDistance` (e.g. a partial last
+ * split) are left out of the ranking.
+ */
+export const findSplitExtremes = (
+    splits: ActivitySplit[],
+    unit: SplitUnit,
+    minDistance: number = 0
+): { fastest: number; slowest: number } => {
+    let fastest = -1;
+    let slowest = -1;
+    let ranked = 0;
+
+    splits.forEach((split, i) => {
+        const pace = splitPace(split, unit);
+        if (pace <= 0 || split.distance < minDistance) return;
+        ranked++;
+        if (fastest < 0 || pace < splitPace(splits[fastest], unit)) fastest = i;
+        if (slowest < 0 || pace > splitPace(splits[slowest], unit)) slowest = i;
+    });
+
+    return ranked < 2 ? { fastest: -1, slowest: -1 } : { fastest, slowest };
+};
+
+/**
+ * Laps including the one still open when recording ended. With no laps
+ * recorded there's nothing to close, so this stays empty.
+ */
+export const closeLaps = (
+    laps: ActivitySplit[],
+    totalDistance: number,
+    totalDuration: number,
+    endTime: number
+): ActivitySplit[] => {
+    if (laps.length === 0) return [];
+    const lapped = laps.reduce(
+        (sum, lap) => ({ distance: sum.distance + lap.distance, duration: sum.duration + lap.duration }),
+        { distance: 0, duration: 0 }
+    );
+    const rest: ActivitySplit = {
+        distance: Math.max(0, totalDistance - lapped.distance),
+        duration: Math.max(0, totalDuration - lapped.duration),
+        endTime,
+    };
+    return rest.distance > 0 ? [...laps, rest] : [...laps];
+};
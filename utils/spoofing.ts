@@ -0,0 +1,162 @@
+import { ActivitySuspicion, ActivityType, GPSPoint, SuspicionReason } from '../lib/types';
+import { getDistance } from 'geolib';
+
+/** Activities scoring at least this are flagged and their territory held for review. */
+export const SUSPICION_FLAG_SCORE = 0.6;
+
+// Sustained speeds (m/s) no one reaches under their own power for the type
+const VEHICLE_SPEED_MS: Record<ActivityType, number> = {
+    WALK: 9,  // ~32 km/h
+    RUN: 9,
+    RIDE: 22, // ~79 km/h
+};
+const VEHICLE_MIN_SECONDS = 60; // shorter bursts are GPS noise or a downhill
+const VEHICLE_FULL_SECONDS = 300;
+
+// A jump at least this far at this speed is a teleport, not travel
+const TELEPORT_MIN_DISTANCE_M = 100;
+const TELEPORT_SPEED_MS = 50;
+const SEGMENT_TELEPORT_MIN_DISTANCE_M = 200; // across a pause, where short moves are normal
+
+// Real receivers wander; a mock provider tends to report one value throughout
+const CONSTANT_MIN_FIXES = 60;
+const CONSTANT_ACCURACY_SHARE = 0.95;
+const CONSTANT_SPEED_STDDEV_MS = 0.05;
+const MOVING_SPEED_MS = 0.5;
+
+const MOCKED_STRONG_COUNT = 3;
+const MOCKED_STRONG_SHARE = 0.05;
+
+const WEIGHTS = {
+    mockLocation: 0.9,
+    mockLocationSingle: 0.5,
+    teleportEach: 0.45,
+    teleportMax: 0.9,
+    vehicleMin: 0.5,
+    vehicleMax: 0.9,
+    constantAccuracy: 0.35,
+    constantSpeed: 0.4,
+};
+
+const distanceBetween = (a: GPSPoint, b: GPSPoint): number | null => {
+    try {
+        return getDistance(
+            { latitude: a.lat, longitude: a.lng },
+            { latitude: b.lat, longitude: b.lng }
+        );
+    } catch {
+        return null;
+    }
+};
+
+const isValidPoint = (p: GPSPoint | null | undefined): p is GPSPoint =>
+    !!p && typeof p.lat === 'number' && typeof p.lng === 'number' && !isNaN(p.lat) && !isNaN(p.lng);
+
+/**
+ * Look over a whole track for signs it wasn't recorded honestly: fixes from a
+ * mock location provider, teleports, sustained vehicle speeds, and accuracy or
+ * speed too constant for a real receiver. Each sign adds a weighted reason;
+ * the score combines them so that one strong sign or two weak ones flag it.
+ */
+export const analyzeTrack = (segments: GPSPoint[][], type: ActivityType): ActivitySuspicion => {
+    const tracks = (Array.isArray(segments) ? segments : [])
+        .map(seg => (Array.isArray(seg) ? seg.filter(isValidPoint) : []))
+        .filter(seg => seg.length > 0);
+    const reasons: SuspicionReason[] = [];
+
+    let fixCount = 0;
+    let mockedCount = 0;
+    let teleports = 0;
+    let vehicleSeconds = 0;
+    let topVehicleSpeed = 0;
+    const accuracies = new Map<number, number>();
+    let accuracyCount = 0;
+    const speeds: number[] = [];
+    const vehicleSpeed = VEHICLE_SPEED_MS[type] ?? VEHICLE_SPEED_MS.RUN;
+
+    tracks.forEach((seg, s) => {
+        if (s > 0) {
+            const end = tracks[s - 1][tracks[s - 1].length - 1];
+            const d = distanceBetween(end, seg[0]);
+            const dt = (seg[0].timestamp - end.timestamp) / 1000;
+            if (d !== null && d > SEGMENT_TELEPORT_MIN_DISTANCE_M && (dt <= 0 || d / dt > TELEPORT_SPEED_MS)) teleports++;
+        }
+
+        for (let i = 0; i < seg.length; i++) {
+            const point = seg[i];
+            fixCount++;
+            if (point.mocked) mockedCount++;
+            if (typeof point.accuracy === 'number' && !isNaN(point.accuracy)) {
+                const key = Math.round(point.accuracy * 10) / 10;
+                accuracies.set(key, (accuracies.get(key) ?? 0) + 1);
+                accuracyCount++;
+            }
+            if (typeof point.speed === 'number' && point.speed >= MOVING_SPEED_MS) speeds.push(point.speed);
+
+            if (i === 0) continue;
+            const previous = seg[i - 1];
+            const d = distanceBetween(previous, point);
+            if (d === null) continue;
+            const dt = (point.timestamp - previous.timestamp) / 1000;
+            if (d > TELEPORT_MIN_DISTANCE_M && (dt <= 0 || d / dt > TELEPORT_SPEED_MS)) {
+                teleports++;
+            } else if (dt > 0 && d / dt > vehicleSpeed) {
+                vehicleSeconds += dt;
+                topVehicleSpeed = Math.max(topVehicleSpeed, d / dt);
+            }
+        }
+    });
+
+    if (mockedCount > 0) {
+        const strong = mockedCount >= MOCKED_STRONG_COUNT || mockedCount / fixCount >= MOCKED_STRONG_SHARE;
+        reasons.push({
+            code: 'mock_location',
+            weight: strong ? WEIGHTS.mockLocation : WEIGHTS.mockLocationSingle,
+            detail: `${mockedCount} of ${fixCount} fixes came from a mock location provider`,
+        });
+    }
+
+    if (teleports > 0) {
+        reasons.push({
+            code: 'teleport',
+            weight: Math.min(WEIGHTS.teleportMax, teleports * WEIGHTS.teleportEach),
+            detail: `${teleports} jump${teleports === 1 ? '' : 's'} faster than ${TELEPORT_SPEED_MS} m/s`,
+        });
+    }
+
+    if (vehicleSeconds >= VEHICLE_MIN_SECONDS) {
+        const extent = Math.min(1, (vehicleSeconds - VEHICLE_MIN_SECONDS) / (VEHICLE_FULL_SECONDS - VEHICLE_MIN_SECONDS));
+        reasons.push({
+            code: 'vehicle_speed',
+            weight: WEIGHTS.vehicleMin + (WEIGHTS.vehicleMax - WEIGHTS.vehicleMin) * extent,
+            detail: `${Math.round(vehicleSeconds)}s above ${Math.round(vehicleSpeed * 3.6)} km/h, up to ${Math.round(topVehicleSpeed * 3.6)} km/h`,
+        });
+    }
+
+    if (accuracyCount >= CONSTANT_MIN_FIXES) {
+        const [value, count] = [...accuracies.entries()].reduce((best, entry) => (entry[1] > best[1] ? entry : best));
+        if (count / accuracyCount >= CONSTANT_ACCURACY_SHARE) {
+            reasons.push({
+                code: 'constant_accuracy',
+                weight: WEIGHTS.constantAccuracy,
+                detail: `${Math.round((count / accuracyCount) * 100)}% of fixes report exactly ${value}m accuracy`,
+            });
+        }
+    }
+
+    if (speeds.length >= CONSTANT_MIN_FIXES) {
+        const mean = speeds.reduce((sum, v) => sum + v, 0) / speeds.length;
+        const variance = speeds.reduce((sum, v) => sum + (v - mean) * (v - mean), 0) / speeds.length;
+        if (Math.sqrt(variance) < CONSTANT_SPEED_STDDEV_MS) {
+            reasons.push({
+                code: 'constant_speed',
+                weight: WEIGHTS.constantSpeed,
+                detail: `Speed held at ${mean.toFixed(2)} m/s across ${speeds.length} fixes`,
+            });
+        }
+    }
+
+    const score = 1 - reasons.reduce((clean, reason) => clean * (1 - reason.weight), 1);
+    const rounded = Math.round(score * 100) / 100;
+    return { score: rounded, reasons, flagged: rounded >= SUSPICION_FLAG_SCORE };
+};
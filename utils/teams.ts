@@ -0,0 +1,38 @@
+import { TeamRole, Territory } from '../lib/types';
+
+export const TEAM_NAME_MIN_LENGTH = 3;
+export const TEAM_NAME_MAX_LENGTH = 30;
+
+// Team colors to pick from. Kept clear of the orange the map uses for the
+// viewer's own territory.
+export const TEAM_COLORS = [
+    '#2563EB', '#059669', '#DC2626', '#7C3AED', '#DB2777',
+    '#0891B2', '#CA8A04', '#4F46E5', '#65A30D', '#0F766E',
+];
+
+export const TEAM_ROLE_LABELS: Record<TeamRole, string> = {
+    owner: 'Owner',
+    admin: 'Admin',
+    member: 'Member',
+};
+
+/** Whether two territories are held by the same team, so neither invades the other. */
+export const isSameTeam = (
+    a: Pick<Territory, 'teamId'>,
+    b: Pick<Territory, 'teamId'>
+): boolean => !!a.teamId && a.teamId === b.teamId;
+
+/**
+ * Whether someone with `role` may remove a teammate with `targetRole`.
+ * Mirrors remove_team_member: the owner can remove anyone, admins only members.
+ */
+export const canRemoveTeamMember = (role: TeamRole | undefined, targetRole: TeamRole): boolean =>
+    role === 'owner' ? targetRole !== 'owner' : role === 'admin' && targetRole === 'member';
+
+/** A team name as the server will store it, or null when it isn't allowed. */
+export const normalizeTeamName = (name: string): string | null => {
+    const trimmed = name.trim();
+    return trimmed.length >= TEAM_NAME_MIN_LENGTH && trimmed.length <= TEAM_NAME_MAX_LENGTH
+        ? trimmed
+        : null;
+};
@@ -0,0 +1,62 @@
+import { TerritoryPolygon, TerritoryRing, TerritoryMultiPolygon } from '../lib/types';
+
+const isPosition = (value: any): value is [number, number] =>
+    Array.isArray(value) && value.length >= 2 &&
+    typeof value[0] === 'number' && typeof value[1] === 'number' &&
+    !isNaN(value[0]) && !isNaN(value[1]);
+
+/** True when the polygon uses the multi-part shape rather than a single outer ring. */
+export const isMultiPolygon = (polygon: TerritoryPolygon | null | undefined): polygon is TerritoryMultiPolygon =>
+    Array.isArray(polygon) && polygon.length > 0 &&
+    Array.isArray(polygon[0]) && Array.isArray(polygon[0][0]);
+
+/** Close a ring by repeating its first position at the end if needed. */
+export const closeRing = (ring: number[][]): number[][] => {
+    if (ring.length === 0) return ring;
+    const first = ring[0];
+    const last = ring[ring.length - 1];
+    return first[0] === last[0] && first[1] === last[1] ? [...ring] : [...ring, first];
+};
+
+/**
+ * Normalise either shape to GeoJSON MultiPolygon coordinates: parts, each an
+ * outer ring followed by its holes. Invalid positions and rings with fewer than
+ * 3 positions are dropped, and a part whose outer ring is dropped goes with it.
+ */
+export const toMultiPolygon = (polygon: TerritoryPolygon | null | undefined): TerritoryMultiPolygon => {
+    if (!Array.isArray(polygon) || polygon.length === 0) return [];
+
+    const parts = isMultiPolygon(polygon) ? polygon : [[polygon as TerritoryRing]];
+    const result: TerritoryMultiPolygon = [];
+
+    for (const part of parts) {
+        if (!Array.isArray(part)) continue;
+        const rings = part.map(ring => (Array.isArray(ring) ? ring.filter(isPosition) : []));
+        if (rings.length === 0 || rings[0].length < 3) continue;
+        result.push([rings[0], ...rings.slice(1).filter(ring => ring.length >= 3)]);
+    }
+
+    return result;
+};
+
+/**
+ * Collapse MultiPolygon coordinates back to the simplest shape: a lone ring
+ * for a single part without holes (what older clients and rows expect),
+ * otherwise the multi-part form.
+ */
+export const fromMultiPolygon = (parts: TerritoryMultiPolygon): TerritoryPolygon => {
+    if (parts.length === 1 && parts[0].length === 1) return parts[0][0];
+    return parts;
+};
+
+/** Outer ring of every part. */
+export const outerRings = (polygon: TerritoryPolygon | null | undefined): TerritoryRing[] =>
+    toMultiPolygon(polygon).map(part => part[0]);
+
+/** Every ring, outer rings and holes alike. */
+export const allRings = (polygon: TerritoryPolygon | null | undefined): TerritoryRing[] =>
+    toMultiPolygon(polygon).flat();
+
+/** Whether there is at least one drawable part. */
+export const hasPolygon = (polygon: TerritoryPolygon | null | undefined): boolean =>
+    toMultiPolygon(polygon).length > 0;
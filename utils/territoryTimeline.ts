@@ -0,0 +1,63 @@
+import { Territory, TerritoryClaimEvent } from '../lib/types';
+
+/**
+ * claimed: the first loop a user walked here. extended: a later loop of
+ * theirs, re-walking or growing the territory. invaded: someone else's
+ * claim cut into it while it stayed with the owner named as previousOwnerId.
+ */
+export type TerritoryTimelineKind = 'claimed' | 'extended' | 'invaded';
+
+export interface TerritoryTimelineEntry extends TerritoryClaimEvent {
+    kind: TerritoryTimelineKind;
+}
+
+const isClaimEvent = (event: any): event is TerritoryClaimEvent =>
+    !!event &&
+    typeof event.claimedBy === 'string' && event.claimedBy.length > 0 &&
+    typeof event.claimedAt === 'number' && isFinite(event.claimedAt);
+
+/**
+ * A territory's claim history, oldest first. Merged territories bring their
+ * own histories along, so the same event can appear more than once; those
+ * are kept once. Territories saved before history was recorded get a single
+ * entry for the claim that made them.
+ */
+export const buildTerritoryTimeline = (
+    territory: Pick<Territory, 'ownerId' | 'activityId' | 'claimedAt' | 'history'>
+): TerritoryTimelineEntry[] => {
+    const seen = new Set<string>();
+    const events = (Array.isArray(territory.history) ? territory.history : [])
+        .filter(isClaimEvent)
+        .filter(event => {
+            const key = `${event.claimedBy}:${event.activityId}:${event.claimedAt}:${event.previousOwnerId ?? ''}`;
+            if (seen.has(key)) return false;
+            seen.add(key);
+            return true;
+        })
+        .sort((a, b) => a.claimedAt - b.claimedAt);
+
+    if (events.length === 0) {
+        if (!territory.ownerId) return [];
+        return [{
+            claimedBy: territory.ownerId,
+            claimedAt: territory.claimedAt,
+            activityId: territory.activityId,
+            kind: 'claimed',
+        }];
+    }
+
+    const claimants = new Set<string>();
+    return events.map(event => {
+        if (event.previousOwnerId && event.previousOwnerId !== event.claimedBy) {
+            return { ...event, kind: 'invaded' as const };
+        }
+        const kind: TerritoryTimelineKind = claimants.has(event.claimedBy) ? 'extended' : 'claimed';
+        claimants.add(event.claimedBy);
+        return { ...event, kind };
+    });
+};
+
+/** Everyone the timeline mentions, for looking up their names in one go. */
+export const timelineUserIds = (entries: TerritoryTimelineEntry[]): string[] => [
+    ...new Set(entries.flatMap(e => (e.previousOwnerId ? [e.claimedBy, e.previousOwnerId] : [e.claimedBy]))),
+];
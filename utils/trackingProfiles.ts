@@ -0,0 +1,101 @@
+import * as Location from 'expo-location';
+import { ActivityType, TrackingProfile } from '../lib/types';
+
+/** Options for a location watch. */
+export interface SamplingConfig {
+    accuracy: Location.Accuracy;
+    timeInterval: number; // ms
+    distanceInterval: number; // meters
+}
+
+export interface TrackingProfileSettings {
+    label: string;
+    shortLabel: string;
+    description: string;
+    accuracy: Location.Accuracy;
+    spacingM: number; // aim for a fix about this far apart while moving
+    minIntervalMs: number;
+    maxIntervalMs: number;
+    stillIntervalMs: number; // while standing still or paused
+    distanceIntervalM: number;
+}
+
+export const TRACKING_PROFILES: Record<TrackingProfile, TrackingProfileSettings> = {
+    high_accuracy: {
+        label: 'High accuracy',
+        shortLabel: 'Precise',
+        description: 'Sharpest territory shapes, most battery',
+        accuracy: Location.Accuracy.BestForNavigation,
+        spacingM: 3,
+        minIntervalMs: 800,
+        maxIntervalMs: 2000,
+        stillIntervalMs: 3000,
+        distanceIntervalM: 1,
+    },
+    balanced: {
+        label: 'Balanced',
+        shortLabel: 'Balanced',
+        description: 'Good shapes for most activities',
+        accuracy: Location.Accuracy.High,
+        spacingM: 6,
+        minIntervalMs: 1000,
+        maxIntervalMs: 3000,
+        stillIntervalMs: 6000,
+        distanceIntervalM: 3,
+    },
+    battery_saver: {
+        label: 'Battery saver',
+        shortLabel: 'Saver',
+        description: 'Fewer fixes; corners may be cut',
+        accuracy: Location.Accuracy.High,
+        spacingM: 15,
+        minIntervalMs: 2000,
+        maxIntervalMs: 6000,
+        stillIntervalMs: 12000,
+        distanceIntervalM: 8,
+    },
+};
+
+export const DEFAULT_TRACKING_PROFILE: TrackingProfile = 'balanced';
+
+// Assumed speed until a rolling speed has been measured
+const TYPICAL_SPEED_MS: Record<ActivityType, number> = {
+    WALK: 1.4,
+    RUN: 3,
+    RIDE: 6,
+};
+const MIN_MEASURED_SPEED_MS = 0.5;
+// Intervals are rounded to this so small speed changes don't restart the watch
+const INTERVAL_STEP_MS = 500;
+
+export const isTrackingProfile = (value: unknown): value is TrackingProfile =>
+    typeof value === 'string' && value in TRACKING_PROFILES;
+
+/**
+ * Location watch options for a profile. While moving, the interval is set so
+ * fixes land about `spacingM` apart at the current speed (faster means more
+ * often), within the profile's bounds. While still, fixes slow right down but
+ * keep coming with no distance filter, so moving off is noticed.
+ */
+export const samplingFor = (
+    profile: TrackingProfile,
+    activityType: ActivityType,
+    speedMs: number,
+    isStill: boolean
+): SamplingConfig => {
+    const settings = TRACKING_PROFILES[profile] ?? TRACKING_PROFILES[DEFAULT_TRACKING_PROFILE];
+    if (isStill) {
+        return { accuracy: Location.Accuracy.High, timeInterval: settings.stillIntervalMs, distanceInterval: 0 };
+    }
+
+    const speed = speedMs >= MIN_MEASURED_SPEED_MS ? speedMs : TYPICAL_SPEED_MS[activityType] ?? TYPICAL_SPEED_MS.WALK;
+    const ideal = Math.round((settings.spacingM / speed) * 1000 / INTERVAL_STEP_MS) * INTERVAL_STEP_MS;
+    return {
+        accuracy: settings.accuracy,
+        timeInterval: Math.min(settings.maxIntervalMs, Math.max(settings.minIntervalMs, ideal)),
+        distanceInterval: settings.distanceIntervalM,
+    };
+};
+
+export const sameSampling = (a: SamplingConfig, b: SamplingConfig): boolean =>
+    a.accuracy === b.accuracy && a.timeInterval === b.timeInterval && a.distanceInterval === b.distanceInterval;